@@ -5,8 +5,9 @@
  */
 import { NextResponse } from "next/server";
 import { CronWebhookPayload } from "@/lib/a1cron/types";
+import { withWebhookVerification } from "@/lib/security/webhook-verification";
 
-export async function POST(request: Request) {
+export const POST = withWebhookVerification('cron', async (request: Request) => {
   try {
     const body = (await request.json()) as CronWebhookPayload;
     
@@ -41,4 +42,4 @@ export async function POST(request: Request) {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+});
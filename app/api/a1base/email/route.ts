@@ -5,6 +5,7 @@
  */
 import { NextResponse } from "next/server";
 import { handleEmailIncoming } from "@/lib/ai-triage/handle-email-incoming";
+import { withWebhookVerification } from "@/lib/security/webhook-verification";
 
 // Define webhook payload type based on A1Mail documentation
 export interface EmailWebhookPayload {
@@ -17,7 +18,7 @@ export interface EmailWebhookPayload {
   raw_email_data: string;
 }
 
-export async function POST(request: Request) {
+export const POST = withWebhookVerification('email', async (request: Request) => {
   try {
     // Log the raw request
     const body = (await request.json()) as EmailWebhookPayload;
@@ -41,4 +42,4 @@ export async function POST(request: Request) {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+});
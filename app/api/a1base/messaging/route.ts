@@ -1,5 +1,6 @@
 import { handleWhatsAppIncoming } from "@/lib/ai-triage/handle-whatsapp-incoming";
 import { NextResponse } from "next/server";
+import { withWebhookVerification } from "@/lib/security/webhook-verification";
 
 // Define our own complete interface to avoid type compatibility issues
 export interface ExtendedWhatsAppIncomingData {
@@ -46,6 +47,8 @@ export interface WebhookPayload {
   message_content: {
     text?: string; // for message_type: text
     data?: string; // base64 encoded string, for message_type: video, audio, image
+    caption?: string; // for media messages
+    filename?: string; // for documents
     latitude?: number; // for message_type: location
     longitude?: number; // for message_type: location
     name?: string; // for message_type: location
@@ -56,6 +59,11 @@ export interface WebhookPayload {
     groupName?: string; // for message_type: group_invite
     inviteCode?: string; // for message_type: group_invite
     error?: string; // for message_type: unsupported_message_type
+    media_url?: string; // set instead of data once the file is in media storage
+    media_type?: string;
+    mime_type?: string;
+    thumbnail_url?: string;
+    media_error?: string; // why the file wasn't stored, e.g. over the size limit
   };
 }
 
@@ -68,7 +76,7 @@ export interface WebhookPayload {
  * - RCS
  * - iMessage
  */
-export async function POST(request: Request) {
+export const POST = withWebhookVerification('messaging', async (request: Request) => {
   try {
     // Log the raw request
     const body = (await request.json()) as WebhookPayload;
@@ -137,4 +145,4 @@ export async function POST(request: Request) {
       { status: 500 }
     );
   }
-}
+});
@@ -4,41 +4,16 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyWebhookSignature, isTimestampValid } from '@/lib/security/webhook-verification';
+import { withWebhookVerification } from '@/lib/security/webhook-verification';
 import { processSMSStatusWebhook } from '@/lib/webhooks/sms-processor';
 import { getInitializedAdapter } from '@/lib/supabase/config';
 
-export async function POST(req: NextRequest) {
+export const POST = withWebhookVerification('sms', async (req: NextRequest) => {
   console.log('[SMS Status Route] Received SMS status webhook request');
   
   try {
-    // Get raw body for signature verification
+    // Signature, timestamp and replays are checked by withWebhookVerification
     const rawBody = await req.text();
-    const timestamp = req.headers.get('x-timestamp');
-    const receivedSig = req.headers.get('x-signature');
-    
-    console.log('[SMS Status Route] Headers:', {
-      hasTimestamp: !!timestamp,
-      hasSignature: !!receivedSig
-    });
-    
-    // Verify webhook signature if enabled
-    if (process.env.ENABLE_SMS_SIGNATURE_VERIFICATION !== 'false') {
-      if (!verifyWebhookSignature(rawBody, timestamp, receivedSig)) {
-        console.error('[SMS Status Route] Invalid webhook signature');
-        return NextResponse.json({ error: 'Invalid signature' }, { status: 403 });
-      }
-      
-      // Check timestamp to prevent replay attacks (5 minute window)
-      if (!isTimestampValid(timestamp)) {
-        console.error('[SMS Status Route] Invalid or expired timestamp');
-        return NextResponse.json({ error: 'Invalid timestamp' }, { status: 403 });
-      }
-      
-      console.log('[SMS Status Route] Webhook signature and timestamp verified');
-    } else {
-      console.warn('[SMS Status Route] Webhook signature verification is disabled');
-    }
     
     // Parse and validate payload
     let payload;
@@ -91,4 +66,4 @@ export async function POST(req: NextRequest) {
       message: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 });
   }
-} 
\ No newline at end of file
+});
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getInitializedAdapter } from "@/lib/supabase/config";
+import { revertMemoryField } from "@/lib/agent-memory/memory-history";
+import type { MemoryScope } from "@/lib/interfaces/database-adapter";
+
+// GET handler: without an ownerId, the users and chats that have memory; with
+// scope and ownerId, their current memory and its history (optionally for one field)
+export async function GET(request: NextRequest) {
+  try {
+    const adapter = await getInitializedAdapter();
+    if (!adapter) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const params = request.nextUrl.searchParams;
+    const scope = params.get("scope") as MemoryScope | null;
+    const ownerId = params.get("ownerId");
+
+    if (!ownerId) {
+      const [users, chats] = await Promise.all([adapter.getAllUsers(), adapter.getAllChats()]);
+      return NextResponse.json({
+        users: users.map((user) => ({ id: user.id, name: user.name || user.phone_number || user.id })),
+        chats: chats.map((chat) => ({ id: chat.id, name: chat.name || chat.external_id || chat.id, type: chat.type })),
+      });
+    }
+
+    if (scope !== "user" && scope !== "chat") {
+      return NextResponse.json(
+        { error: "scope must be 'user' or 'chat'" },
+        { status: 400 }
+      );
+    }
+
+    const memory =
+      scope === "user"
+        ? await adapter.getAllUserMemoryValues(ownerId)
+        : await adapter.getAllChatMemoryValues(ownerId);
+    const history = await adapter.getMemoryHistory(scope, ownerId, params.get("fieldId") || undefined);
+
+    return NextResponse.json({ scope, ownerId, memory, history });
+  } catch (error) {
+    console.error("Error fetching memory history:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch memory history" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST handler: revert a memory field to the value of a recorded change
+export async function POST(request: NextRequest) {
+  try {
+    const adapter = await getInitializedAdapter();
+    if (!adapter) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const { historyId } = await request.json();
+    if (!historyId || typeof historyId !== "string") {
+      return NextResponse.json(
+        { error: "historyId is required" },
+        { status: 400 }
+      );
+    }
+
+    const entry = await revertMemoryField(adapter, historyId);
+    if (!entry) {
+      return NextResponse.json(
+        { error: "Memory change not found or revert failed" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, reverted: entry });
+  } catch (error) {
+    console.error("Error reverting memory field:", error);
+    return NextResponse.json(
+      { error: "Failed to revert memory field" },
+      { status: 500 }
+    );
+  }
+}
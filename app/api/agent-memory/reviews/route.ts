@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getInitializedAdapter } from "@/lib/supabase/config";
+import { approveMemoryReview, rejectMemoryReview } from "@/lib/agent-memory/memory-review";
+import type { MemoryReviewStatus } from "@/lib/interfaces/database-adapter";
+
+const STATUSES: MemoryReviewStatus[] = ["pending", "approved", "rejected"];
+
+// GET handler: memory updates in the review queue (pending by default), with the name of the user or chat
+export async function GET(request: NextRequest) {
+  try {
+    const adapter = await getInitializedAdapter();
+    if (!adapter) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const status = (request.nextUrl.searchParams.get("status") || "pending") as MemoryReviewStatus;
+    if (!STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `status must be one of ${STATUSES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const [reviews, users, chats] = await Promise.all([
+      adapter.getMemoryReviews({ status }),
+      adapter.getAllUsers(),
+      adapter.getAllChats(),
+    ]);
+    const names = new Map<string, string>([
+      ...users.map((user) => [`user:${user.id}`, user.name || user.phone_number || user.id] as [string, string]),
+      ...chats.map((chat) => [`chat:${chat.id}`, chat.name || chat.external_id || chat.id] as [string, string]),
+    ]);
+
+    return NextResponse.json({
+      status,
+      reviews: reviews.map((review) => ({
+        ...review,
+        owner_name: names.get(`${review.scope}:${review.owner_id}`) || review.owner_id,
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching memory reviews:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch memory reviews" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST handler: approve (optionally with an edited value) or reject a queued memory update
+export async function POST(request: NextRequest) {
+  try {
+    const adapter = await getInitializedAdapter();
+    if (!adapter) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const { reviewId, action, value } = await request.json();
+    if (!reviewId || typeof reviewId !== "string" || (action !== "approve" && action !== "reject")) {
+      return NextResponse.json(
+        { error: "reviewId and an action of 'approve' or 'reject' are required" },
+        { status: 400 }
+      );
+    }
+    if (value !== undefined && typeof value !== "string") {
+      return NextResponse.json(
+        { error: "value must be a string" },
+        { status: 400 }
+      );
+    }
+
+    if (action === "reject") {
+      const rejected = await rejectMemoryReview(adapter, reviewId);
+      return rejected
+        ? NextResponse.json({ success: true })
+        : NextResponse.json({ error: "Memory update not found or already reviewed" }, { status: 404 });
+    }
+
+    const review = await approveMemoryReview(adapter, reviewId, value);
+    if (!review) {
+      return NextResponse.json(
+        { error: "Memory update not found, already reviewed or could not be saved" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, review });
+  } catch (error) {
+    console.error("Error reviewing memory update:", error);
+    return NextResponse.json(
+      { error: "Failed to review memory update" },
+      { status: 500 }
+    );
+  }
+}
@@ -26,11 +26,7 @@ export async function POST(
     }
 
     // Get chat by external ID
-    const { data: chat } = await adapter.supabase
-      .from('chats')
-      .select('id')
-      .eq('external_id', chatId)
-      .single();
+    const chat = await adapter.getChatByExternalId(chatId);
 
     if (!chat) {
       return NextResponse.json(
@@ -41,60 +37,25 @@ export async function POST(
 
     // Create or get the user
     const userPhoneNumber = `web-group-${userId}`;
-    let { data: existingUser } = await adapter.supabase
-      .from('conversation_users')
-      .select('id')
-      .eq('phone_number', userPhoneNumber)
-      .single();
+    const userId_db = await adapter.getUserFromWebhook(userPhoneNumber, userName, 'web-ui');
 
-    let userId_db: string;
-
-    if (!existingUser) {
-      // Create new user
-      const { data: newUser, error: createError } = await adapter.supabase
-        .from('conversation_users')
-        .insert({
-          name: userName,
-          phone_number: userPhoneNumber,
-          service: 'web-ui',
-          created_at: new Date().toISOString(),
-        })
-        .select('id')
-        .single();
-
-      if (createError || !newUser) {
-        console.error('[JOIN-API] Error creating user:', createError);
-        return NextResponse.json(
-          { error: 'Failed to create user' },
-          { status: 500 }
-        );
-      }
-
-      userId_db = newUser.id;
-    } else {
-      userId_db = existingUser.id;
+    if (!userId_db) {
+      console.error('[JOIN-API] Error creating user');
+      return NextResponse.json(
+        { error: 'Failed to create user' },
+        { status: 500 }
+      );
     }
 
     // Add user to chat participants if not already there
-    const { data: existingParticipant } = await adapter.supabase
-      .from('chat_participants')
-      .select('user_id')
-      .eq('chat_id', chat.id)
-      .eq('user_id', userId_db)
-      .single();
+    const isParticipant = await adapter.isChatParticipant(chat.id, userId_db);
 
-    if (!existingParticipant) {
+    if (!isParticipant) {
       // Add user to participants
-      const { error: participantError } = await adapter.supabase
-        .from('chat_participants')
-        .insert({
-          chat_id: chat.id,
-          user_id: userId_db,
-          created_at: new Date().toISOString()
-        });
+      const participantAdded = await adapter.addParticipantToChat(chat.id, userId_db);
 
-      if (participantError) {
-        console.error('[JOIN-API] Error adding participant:', participantError);
+      if (!participantAdded) {
+        console.error('[JOIN-API] Error adding participant');
         return NextResponse.json(
           { error: 'Failed to add participant' },
           { status: 500 }
@@ -102,22 +63,17 @@ export async function POST(
       }
 
       // Add a system message about the user joining
-      const joinMessageId = uuidv4();
-      const { error: messageError } = await adapter.supabase
-        .from('messages')
-        .insert({
-          id: joinMessageId,
-          chat_id: chat.id,
-          sender_id: null, // System message
-          content: `${userName} joined the chat`,
-          message_type: 'system',
-          service: 'web-ui',
-          external_id: joinMessageId,
-          created_at: new Date().toISOString(),
-        });
+      const joinMessageId = await adapter.storeMessage(
+        chat.id,
+        null, // System message
+        uuidv4(),
+        { text: `${userName} joined the chat` },
+        'system',
+        'web-ui'
+      );
 
-      if (messageError) {
-        console.error('[JOIN-API] Error adding join message:', messageError);
+      if (!joinMessageId) {
+        console.error('[JOIN-API] Error adding join message');
         // Don't return error here as the user is already added as a participant
       }
     }
@@ -3,12 +3,20 @@ import { getInitializedAdapter } from "@/lib/supabase/config";
 import { getAgentProfileSettings } from "@/lib/agent-profile/agent-profile-settings";
 import { getSystemPrompt } from "@/lib/agent/system-prompt";
 import { streamText, type CoreMessage } from 'ai';
-import { openai } from "@ai-sdk/openai";
 import { v4 as uuidv4 } from 'uuid';
-
+import { createModerationTransform, isModerationEnabled, moderateMessage } from "@/lib/safety-config/moderation";
+import { ModelBudgetExceededError, getModelRouter } from "@/lib/services/model-router";
+import { createRoutedLanguageModel } from "@/lib/services/model-provider";
+
+/**
+ * Generates the agent's reply to a group chat message.
+ * Responds with { shouldRespond, response, agentName } JSON, or with the reply
+ * as a plain text stream when `stream` is true (used by server.js to send
+ * message-delta events). Aborting a streamed request stops generation.
+ */
 export async function POST(request: Request) {
   try {
-    const { chatId, message, userId, userName } = await request.json();
+    const { chatId, message, userId, userName, stream } = await request.json();
 
     if (!chatId || !message || !userId || !userName) {
       return NextResponse.json(
@@ -50,6 +58,28 @@ export async function POST(request: Request) {
       return NextResponse.json({ shouldRespond: false });
     }
 
+    // Moderate the message, answering blocked messages with the canned reply
+    const moderation = await moderateMessage(message.content, {
+      direction: 'inbound',
+      service: 'web-ui',
+      threadId: chatId,
+      messageId: message.id,
+    });
+    if (moderation.blocked) {
+      console.log('[GROUP-AI] Message blocked by moderation');
+      const reply = moderation.reply || '';
+      if (stream) {
+        return new Response(reply, {
+          headers: {
+            'Content-Type': 'text/plain; charset=utf-8',
+            'X-Agent-Name': encodeURIComponent(agentName),
+          },
+        });
+      }
+      return NextResponse.json({ shouldRespond: !!reply, response: reply, agentName });
+    }
+    const messageContent = moderation.text;
+
     // Get system prompt
     const systemPromptContent = await getSystemPrompt();
     
@@ -76,43 +106,21 @@ ${respondOnlyWhenMentioned ? '- You are responding because you were mentioned or
     let historicalMessages: CoreMessage[] = [];
     if (adapter) {
       try {
-        // Get the internal chat ID
-        const { data: chat } = await adapter.supabase
-          .from('chats')
-          .select('id')
-          .eq('external_id', chatId)
-          .single();
-
-        if (chat) {
-          // Get recent messages (last 20)
-          const { data: recentMessages } = await adapter.supabase
-            .from('messages')
-            .select(`
-              id,
-              content,
-              created_at,
-              sender_id,
-              conversation_users (
-                name,
-                is_agent
-              )
-            `)
-            .eq('chat_id', chat.id)
-            .order('created_at', { ascending: false })
-            .limit(20);
-
-          if (recentMessages) {
-            // Convert to CoreMessage format (reverse to get chronological order)
-            historicalMessages = recentMessages.reverse().map(msg => {
-              const user = msg.conversation_users as any;
-              return {
-                role: user?.is_agent ? 'assistant' as const : 'user' as const,
-                content: user?.is_agent 
-                  ? msg.content 
-                  : `${user?.name || 'User'}: ${msg.content}`
-              };
-            });
-          }
+        const thread = await adapter.getThread(chatId);
+
+        if (thread) {
+          const agentNumber = process.env.A1BASE_AGENT_NUMBER?.replace(/\+/g, '');
+
+          // Convert the last 20 messages to CoreMessage format
+          historicalMessages = thread.messages.slice(-20).map(msg => {
+            const isAgent = !!msg.sender_metadata?.is_agent || msg.sender_number === agentNumber;
+            return {
+              role: isAgent ? 'assistant' as const : 'user' as const,
+              content: isAgent
+                ? msg.content
+                : `${msg.sender_name || 'User'}: ${msg.content}`
+            };
+          });
         }
       } catch (error) {
         console.error('[GROUP-AI] Error fetching chat history:', error);
@@ -123,19 +131,47 @@ ${respondOnlyWhenMentioned ? '- You are responding because you were mentioned or
     const aiMessages: CoreMessage[] = [
       { role: 'system', content: fullSystemPrompt },
       ...historicalMessages,
-      { role: 'user', content: `${userName}: ${message.content}` }
+      { role: 'user', content: `${userName}: ${messageContent}` }
     ];
 
     console.log('[GROUP-AI] Generating AI response with', aiMessages.length, 'messages');
 
+    // Use the reply task's model, downgraded or throttled by the chat's budget
+    const router = getModelRouter();
+    const usageContext = { chatId, userId: `web-group-${userId}` };
+    let selected;
+    try {
+      selected = await router.selectBudgetedModel('reply', usageContext);
+    } catch (error) {
+      // Throttled chats get no reply until the budget period resets
+      if (!(error instanceof ModelBudgetExceededError)) throw error;
+      console.warn(`[GROUP-AI] ${error.message}`);
+      return NextResponse.json({ shouldRespond: false });
+    }
+    if (!selected) {
+      throw new Error('No configured model for the reply task. Check data/model-settings.json and your API keys.');
+    }
+    const { model } = selected;
+
     // Generate AI response
-    const result = await streamText({
-      model: openai('gpt-4o'),
+    const result = streamText({
+      model: createRoutedLanguageModel(selected),
       messages: aiMessages,
       temperature: 0.7,
       maxTokens: 500, // Keep responses concise for group chat
+      abortSignal: request.signal,
+      experimental_transform: isModerationEnabled('outbound')
+        ? createModerationTransform({ service: 'web-ui', threadId: chatId })
+        : undefined,
+      onFinish: ({ usage }) => router.recordStreamUsage('reply', model, usage, usageContext),
     });
 
+    if (stream) {
+      return result.toTextStreamResponse({
+        headers: { 'X-Agent-Name': encodeURIComponent(agentName) },
+      });
+    }
+
     // Collect the full response
     let aiResponse = '';
     const reader = result.textStream.getReader();
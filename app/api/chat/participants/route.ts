@@ -16,70 +16,38 @@ export async function GET(req: Request) {
     }
 
     // Get chat by external ID
-    const { data: chat } = await adapter.supabase
-      .from('chats')
-      .select('id')
-      .eq('external_id', chatId)
-      .single();
+    const chat = await adapter.getChatByExternalId(chatId);
 
     if (!chat) {
       return NextResponse.json({ participants: [] });
     }
 
     // Get all participants for this chat
-    const { data: participants, error } = await adapter.supabase
-      .from('chat_participants')
-      .select(`
-        user_id,
-        conversation_users!inner (
-          id,
-          name,
-          phone_number,
-          service
-        )
-      `)
-      .eq('chat_id', chat.id);
-
-    if (error) {
-      console.error('[PARTICIPANTS-API] Error fetching participants:', error);
-      return NextResponse.json({ error: 'Failed to fetch participants' }, { status: 500 });
-    }
+    const participants = await adapter.getChatParticipants(chat.id);
 
     // Check if agent is a participant
     const agentNumber = process.env.A1BASE_AGENT_NUMBER?.replace(/\+/g, '');
     
     // Format participants
-    const formattedParticipants = participants?.map(p => {
-      const user = p.conversation_users as any;
-      return {
-        user_id: p.user_id,
-        name: user.name || 'Unknown User',
-        phone_number: user.phone_number,
-        service: user.service,
-        is_agent: user.phone_number === agentNumber
-      };
-    }) || [];
+    const formattedParticipants = participants.map(user => ({
+      user_id: user.id,
+      name: user.name || 'Unknown User',
+      phone_number: user.phone_number,
+      service: user.service,
+      is_agent: user.phone_number === agentNumber
+    }));
 
     // Also check if agent exists but is not in participants (for messages sent by agent)
     const hasAgentInParticipants = formattedParticipants.some(p => p.is_agent);
     if (!hasAgentInParticipants && agentNumber) {
       // Check if agent has sent messages in this chat
-      const { data: agentUser } = await adapter.supabase
-        .from('conversation_users')
-        .select('id, name, phone_number, service')
-        .eq('phone_number', agentNumber)
-        .single();
+      const agentUser = await adapter.getUserByPhone(agentNumber);
 
       if (agentUser) {
         // Check if agent has messages in this chat
-        const { data: agentMessages } = await adapter.supabase
-          .from('messages')
-          .select('id')
-          .eq('chat_id', chat.id)
-          .eq('sender_id', agentUser.id)
-          .limit(1);
+        const agentMessages = await adapter.getChatMessageStats(chat.id, { senderId: agentUser.id });
 
-        if (agentMessages && agentMessages.length > 0) {
+        if (agentMessages.count > 0) {
           // Add agent to participants list
           formattedParticipants.push({
             user_id: agentUser.id,
@@ -5,15 +5,18 @@ import { triageMessage } from "../../../lib/ai-triage/triage-logic";
 export const dynamic = 'force-dynamic';
 export const runtime = 'nodejs';
 export const maxDuration = 30;
-import { streamText, type CoreMessage } from 'ai';
-import { openai } from "@ai-sdk/openai";
+import { createDataStreamResponse, formatDataStreamPart, streamText, type CoreMessage } from 'ai';
 import { formatMessagesForOpenAI } from "../../../lib/services/openai";
 
 import { getInitializedAdapter } from "@/lib/supabase/config";
 import { syncWebUiMessage } from "@/lib/a1base-chat-context/web-ui-sync";
+import { createModerationTransform, isModerationEnabled, moderateMessage } from "@/lib/safety-config/moderation";
 import { v4 as uuidv4 } from 'uuid';
-import { SupabaseAdapter } from "@/lib/supabase/adapter";
+import type { DatabaseAdapterInterface } from "@/lib/interfaces/database-adapter";
 import { Readable } from "stream";
+import { getMediaStorage, getSignedMediaUrl } from "@/lib/storage/media-storage";
+import { ModelBudgetExceededError, getModelRouter } from "@/lib/services/model-router";
+import { createRoutedLanguageModel } from "@/lib/services/model-provider";
 
 // Check if we're in a build context
 const isBuildTime = () => {
@@ -23,7 +26,7 @@ const isBuildTime = () => {
 };
 
 async function saveAndSyncAiResponseMessage(
-    adapter: SupabaseAdapter,
+    adapter: DatabaseAdapterInterface,
     chatRecordId: string,
     messageContent: string
 ) {
@@ -39,11 +42,7 @@ async function saveAndSyncAiResponseMessage(
     }
 
     try {
-        const { data: agentUser } = await adapter.supabase
-            .from('conversation_users')
-            .select('id')
-            .eq('phone_number', agentNumber)
-            .single();
+        const agentUser = await adapter.getUserByPhone(agentNumber);
 
         console.log(`[CHAT-API] Saving AI message to DB: ${messageRecordId}`);
         await adapter.storeMessage(
@@ -90,6 +89,7 @@ export async function GET(req: Request) {
     }
 
     // Convert database messages to the format expected by the UI
+    const mediaStorage = getMediaStorage();
     const messages = await Promise.all(thread.messages.map(async (msg) => {
       const isFromAgent = msg.sender_number === process.env.A1BASE_AGENT_NUMBER;
       const isSystemMessage = msg.message_type === 'system';
@@ -97,28 +97,10 @@ export async function GET(req: Request) {
       // For group chats, get the sender's name
       let senderName = 'User';
       if (isGroupChat && msg.sender_id && !isSystemMessage && !isFromAgent) {
-        // Check if it's a web group user
-        if (msg.sender_number?.startsWith('web-group-')) {
-          // For web group users, parse the name from metadata or conversation_users
-          const { data: sender } = await adapter.supabase
-            .from('conversation_users')
-            .select('name')
-            .eq('id', msg.sender_id)
-            .single();
-          
-          if (sender?.name) {
-            senderName = sender.name;
-          }
-        } else {
-          const { data: sender } = await adapter.supabase
-            .from('conversation_users')
-            .select('name')
-            .eq('id', msg.sender_id)
-            .single();
-          
-          if (sender?.name) {
-            senderName = sender.name;
-          }
+        // Web group users and messaging users both keep their name in conversation_users
+        const sender = await adapter.getUserById(msg.sender_id);
+        if (sender?.name) {
+          senderName = sender.name;
         }
       }
       
@@ -133,6 +115,10 @@ export async function GET(req: Request) {
         };
       }
       
+      // Stored media is shown through short-lived signed links
+      const mediaUrl = msg.message_content?.media_url && getSignedMediaUrl(msg.message_content.media_url, mediaStorage);
+      const thumbnailUrl = msg.message_content?.thumbnail_url && getSignedMediaUrl(msg.message_content.thumbnail_url, mediaStorage);
+
       // For group chats, don't prefix the message content with sender name
       // Instead, include it as a separate field
       return {
@@ -141,7 +127,15 @@ export async function GET(req: Request) {
         id: msg.message_id,
         timestamp: msg.timestamp,
         senderName: isFromAgent ? 'AI Assistant' : senderName,
-        isFromAgent
+        isFromAgent,
+        ...(mediaUrl ? {
+          media: {
+            url: mediaUrl,
+            thumbnailUrl: thumbnailUrl || null,
+            type: msg.message_content.media_type || msg.message_type,
+            mimeType: msg.message_content.mime_type || null
+          }
+        } : {})
       };
     }));
 
@@ -188,36 +182,14 @@ export async function POST(req: Request) {
         // Handle user creation/lookup for group chats
         if (isGroupChat && userInfo) {
             // Try to find existing user by the group chat user ID stored in phone_number
+            // The group chat user ID is stored in phone_number
             const userPhoneNumber = `web-group-${userInfo.id}`;
-            let { data: existingUser } = await adapter.supabase
-                .from('conversation_users')
-                .select('id')
-                .eq('phone_number', userPhoneNumber)
-                .single();
-
-            if (!existingUser) {
-                console.log(`[CHAT-API] Creating new group chat user: ${userInfo.name}`);
-                // Create new user for group chat
-                const { data: newUser, error: userError } = await adapter.supabase
-                    .from('conversation_users')
-                    .insert({
-                        name: userInfo.name,
-                        phone_number: userPhoneNumber, // Store the group chat user ID here
-                        service: 'web-ui',
-                        created_at: new Date().toISOString(),
-                    })
-                    .select('id')
-                    .single();
-
-                if (userError) {
-                    console.error('[CHAT-API] Error creating group chat user:', userError);
-                } else {
-                    currentUserId = newUser.id;
-                    console.log(`[CHAT-API] Created group chat user with ID: ${currentUserId}`);
-                }
+            currentUserId = await adapter.getUserFromWebhook(userPhoneNumber, userInfo.name, 'web-ui');
+
+            if (!currentUserId) {
+                console.error('[CHAT-API] Error finding or creating group chat user');
             } else {
-                currentUserId = existingUser.id;
-                console.log(`[CHAT-API] Found existing group chat user with ID: ${currentUserId}`);
+                console.log(`[CHAT-API] Using group chat user with ID: ${currentUserId}`);
             }
         }
 
@@ -230,82 +202,73 @@ export async function POST(req: Request) {
             // For group chats, ensure the user is added as a participant
             if (isGroupChat && currentUserId) {
                 // Check if user is already a participant
-                const { data: existingParticipant } = await adapter.supabase
-                    .from('chat_participants')
-                    .select('user_id')
-                    .eq('chat_id', chatRecordId)
-                    .eq('user_id', currentUserId)
-                    .single();
-
-                if (!existingParticipant) {
+                const isParticipant = await adapter.isChatParticipant(chatRecordId, currentUserId);
+
+                if (!isParticipant) {
                     console.log(`[CHAT-API] Adding user ${currentUserId} to existing group chat`);
-                    await adapter.supabase
-                        .from('chat_participants')
-                        .insert({
-                            chat_id: chatRecordId,
-                            user_id: currentUserId,
-                            joined_at: new Date().toISOString()
-                        });
+                    await adapter.addParticipantToChat(chatRecordId, currentUserId);
                     
                     // Add a system message that the user joined
                     if (userInfo) {
-                        const joinMessageId = uuidv4();
-                        await adapter.supabase
-                            .from('messages')
-                            .insert({
-                                id: joinMessageId,
-                                chat_id: chatRecordId,
-                                sender_id: null, // System message
-                                content: `${userInfo.name} joined the chat`,
-                                message_type: 'system',
-                                service: 'web-ui',
-                                external_id: joinMessageId,
-                                created_at: new Date().toISOString(),
-                            });
+                        const joinText = `${userInfo.name} joined the chat`;
+                        await adapter.storeMessage(
+                            chatRecordId,
+                            null, // System message
+                            uuidv4(),
+                            { text: joinText },
+                            'system',
+                            'web-ui'
+                        );
                         console.log(`[CHAT-API] Added join message for ${userInfo.name}`);
                     }
                 }
             }
         } else {
             const chatType = isGroupChat ? "group" : "individual";
-            const { data: newChat, error: createError } = await adapter.supabase
-                .from("chats")
-                .insert({
-                    external_id: externalThreadId,
-                    service: "web-ui",
-                    type: chatType,
-                })
-                .select("id")
-                .single();
-
-            if (createError) {
-                console.error('[CHAT-API] Error creating chat:', createError);
+            chatRecordId = await adapter.getChatFromWebhook(externalThreadId, chatType, "web-ui");
+
+            if (!chatRecordId) {
+                console.error('[CHAT-API] Error creating chat');
                 return NextResponse.json({ error: 'Failed to create chat session' }, { status: 500 });
             }
-            chatRecordId = newChat.id;
             console.log(`[CHAT-API] Created new ${chatType} chat: ${chatRecordId}`);
 
             // Add user to group chat participants if this is a group chat
             if (isGroupChat && currentUserId) {
-                await adapter.supabase
-                    .from('chat_participants')
-                    .insert({
-                        chat_id: chatRecordId,
-                        user_id: currentUserId,
-                        joined_at: new Date().toISOString()
-                    });
+                await adapter.addParticipantToChat(chatRecordId, currentUserId);
                 console.log(`[CHAT-API] Added user ${currentUserId} to group chat participants`);
             }
         }
     }
     
     const userMessage = messages[messages.length - 1];
-    const userMessageContent = typeof userMessage?.content === 'string' 
+    let userMessageContent = typeof userMessage?.content === 'string' 
       ? userMessage.content 
       : Array.isArray(userMessage.content) && userMessage.content[0]?.type === 'text' 
         ? userMessage.content[0].text 
         : '';
     
+    // Moderate the user's message before it is saved or answered
+    const moderation = await moderateMessage(userMessageContent, {
+      direction: 'inbound',
+      service: 'web-ui',
+      threadId: externalThreadId,
+    });
+    if (moderation.blocked) {
+      console.log('[CHAT-API] User message blocked by moderation');
+      return createDataStreamResponse({
+        headers: isNewSession ? { 'X-Thread-Id': externalThreadId } : undefined,
+        execute: (dataStream) => {
+          dataStream.write(formatDataStreamPart('text', moderation.reply || ''));
+          dataStream.write(formatDataStreamPart('finish_message', { finishReason: 'stop' }));
+        },
+      });
+    }
+    if (moderation.action === 'rewrite') {
+      userMessageContent = moderation.text;
+      messages[messages.length - 1] = { role: 'user', content: userMessageContent };
+    }
+
     console.log(`[CHAT-API] Pre-save check. Adapter exists: ${!!adapter}. User message content: "${userMessageContent}". Internal chat ID: ${chatRecordId}. User ID: ${currentUserId}`);
 
     if (adapter && userMessageContent && chatRecordId) {
@@ -381,15 +344,38 @@ export async function POST(req: Request) {
     });
     
     console.log(`[CHAT-API] Triage result: ${triageResponse.type}`);
-    
+
+    // Stream from the reply task's model, downgraded or throttled by the chat's budget
+    const router = getModelRouter();
+    const usageContext = { chatId: externalThreadId, userId: senderNumber };
+    let selected;
+    try {
+      selected = await router.selectBudgetedModel('reply', usageContext);
+    } catch (error) {
+      if (!(error instanceof ModelBudgetExceededError)) throw error;
+      console.warn(`[CHAT-API] ${error.message}`);
+      return NextResponse.json({ error: "This chat has reached its AI usage limit" }, { status: 429 });
+    }
+    if (!selected) {
+      throw new Error("No configured model for the reply task. Check data/model-settings.json and your API keys.");
+    }
+    const { model } = selected;
+    const languageModel = createRoutedLanguageModel(selected);
+    const recordUsage = ({ usage }: { usage: { promptTokens: number; completionTokens: number } }) =>
+      router.recordStreamUsage('reply', model, usage, usageContext);
+
     let result;
+    // Replies are moderated as they stream
+    const moderationTransform = isModerationEnabled('outbound')
+      ? createModerationTransform({ service: 'web-ui', threadId: externalThreadId })
+      : undefined;
 
     if (triageResponse.type !== 'default') {
       console.log('[CHAT-API] Creating direct stream for non-default triage response');
       const responseMessage = triageResponse.message || 'No response message available';
       
       result = streamText({
-        model: openai('gpt-3.5-turbo'),
+        model: languageModel,
         system: "You are an assistant. Return ONLY the message provided to you without any modifications.",
         messages: [
           {
@@ -399,6 +385,8 @@ export async function POST(req: Request) {
         ],
         temperature: 0,
         maxTokens: 1000,
+        experimental_transform: moderationTransform,
+        onFinish: recordUsage,
       });
     } else {
         // Get historical messages for context
@@ -437,9 +425,11 @@ export async function POST(req: Request) {
         }
         
         result = streamText({
-          model: openai('gpt-4o'),
+          model: languageModel,
           messages: aiMessages,
           temperature: 0.7,
+          experimental_transform: moderationTransform,
+          onFinish: recordUsage,
         });
     }
 
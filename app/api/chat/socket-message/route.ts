@@ -22,112 +22,53 @@ export async function POST(request: Request) {
     }
 
     // Get or create the chat
-    let { data: chat } = await adapter.supabase
-      .from('chats')
-      .select('id')
-      .eq('external_id', chatId)
-      .single();
+    const chatRecordId = await adapter.getChatFromWebhook(chatId, 'group', 'web-ui');
 
-    if (!chat) {
-      // Create the chat if it doesn't exist
-      const { data: newChat, error: chatError } = await adapter.supabase
-        .from('chats')
-        .insert({
-          external_id: chatId,
-          created_at: new Date().toISOString(),
-          type: 'group',
-          service: 'web-ui'
-        })
-        .select('id')
-        .single();
-
-      if (chatError || !newChat) {
-        console.error('[SOCKET-MESSAGE-API] Error creating chat:', chatError);
-        return NextResponse.json(
-          { error: 'Failed to create chat' },
-          { status: 500 }
-        );
-      }
-
-      chat = newChat;
+    if (!chatRecordId) {
+      console.error('[SOCKET-MESSAGE-API] Error creating chat');
+      return NextResponse.json(
+        { error: 'Failed to create chat' },
+        { status: 500 }
+      );
     }
 
     // Get or create the user
-    const userPhoneNumber = userId === 'ai-agent' 
+    const isAgent = userId === 'ai-agent';
+    const userPhoneNumber = isAgent
       ? process.env.A1BASE_AGENT_NUMBER?.replace(/\+/g, '') || 'ai-agent'
       : `web-group-${userId}`;
-    
-    let { data: existingUser } = await adapter.supabase
-      .from('conversation_users')
-      .select('id')
-      .eq('phone_number', userPhoneNumber)
-      .single();
-
-    let userId_db: string;
 
-    if (!existingUser) {
-      const isAgent = userId === 'ai-agent';
-      const { data: newUser, error: createError } = await adapter.supabase
-        .from('conversation_users')
-        .insert({
-          name: userName,
-          phone_number: userPhoneNumber,
-          service: 'web-ui',
-          is_agent: isAgent,
-          created_at: new Date().toISOString(),
-        })
-        .select('id')
-        .single();
-
-      if (createError || !newUser) {
-        console.error('[SOCKET-MESSAGE-API] Error creating user:', createError);
-        return NextResponse.json(
-          { error: 'Failed to create user' },
-          { status: 500 }
-        );
-      }
+    const userId_db = await adapter.getUserFromWebhook(
+      userPhoneNumber,
+      userName,
+      'web-ui',
+      isAgent ? { is_agent: true } : {}
+    );
 
-      userId_db = newUser.id;
-    } else {
-      userId_db = existingUser.id;
+    if (!userId_db) {
+      console.error('[SOCKET-MESSAGE-API] Error creating user');
+      return NextResponse.json(
+        { error: 'Failed to create user' },
+        { status: 500 }
+      );
     }
 
-    // Check if user is in chat participants
-    const { data: existingParticipant } = await adapter.supabase
-      .from('chat_participants')
-      .select('user_id')
-      .eq('chat_id', chat.id)
-      .eq('user_id', userId_db)
-      .single();
-
-    if (!existingParticipant) {
-      // Add user to participants
-      await adapter.supabase
-        .from('chat_participants')
-        .insert({
-          chat_id: chat.id,
-          user_id: userId_db,
-          created_at: new Date().toISOString()
-        });
-    }
+    // Add user to participants if they aren't already
+    await adapter.addParticipantToChat(chatRecordId, userId_db);
 
     // Save the message
     const messageId = message.id || uuidv4();
-    const { error: messageError } = await adapter.supabase
-      .from('messages')
-      .insert({
-        id: messageId,
-        chat_id: chat.id,
-        sender_id: userId_db,
-        content: message.content,
-        message_type: message.role === 'system' ? 'system' : 'text',
-        service: 'web-ui',
-        external_id: messageId,
-        created_at: message.timestamp || new Date().toISOString(),
-      });
+    const storedMessageId = await adapter.storeMessage(
+      chatRecordId,
+      userId_db,
+      messageId,
+      { text: message.content },
+      message.role === 'system' ? 'system' : 'text',
+      'web-ui'
+    );
 
-    if (messageError) {
-      console.error('[SOCKET-MESSAGE-API] Error saving message:', messageError);
+    if (!storedMessageId) {
+      console.error('[SOCKET-MESSAGE-API] Error saving message');
       return NextResponse.json(
         { error: 'Failed to save message' },
         { status: 500 }
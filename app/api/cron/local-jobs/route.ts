@@ -0,0 +1,39 @@
+/**
+ * Local Cron Jobs Endpoint
+ *
+ * Runs the due jobs of the local cron scheduler, for deployments where the
+ * server process doesn't stay up to run them itself (see instrumentation.ts
+ * and LOCAL_CRON_INTERVAL_SECONDS).
+ *
+ * How it works:
+ * 1. Authenticates the request using the CRON_SECRET
+ * 2. Calls the endpoint of every active job whose scheduled run or retry is due,
+ *    logging each attempt in local_cron_execution_logs
+ *
+ * Setup:
+ * Call this endpoint every minute from your platform's cron (e.g. Vercel Cron).
+ * Only used when CRON_BACKEND=local or the A1Base credentials are missing.
+ */
+
+import { NextResponse } from "next/server";
+import { getInitializedAdapter } from "@/lib/supabase/config";
+import { LocalCronService } from "@/lib/a1cron/local-service";
+import { withCronAuth } from "@/lib/security/cron-auth";
+
+export const POST = withCronAuth(async () => {
+  try {
+    const adapter = await getInitializedAdapter();
+    if (!adapter) {
+      console.error("[Local Cron] Failed to initialize database adapter");
+      return new NextResponse("Failed to initialize database adapter", { status: 500 });
+    }
+
+    const result = await new LocalCronService({ adapter }).runDueJobs();
+    console.log("[Local Cron] Run completed:", result);
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("[Local Cron] Run failed:", error);
+    return new NextResponse("Internal Server Error", { status: 500 });
+  }
+});
@@ -0,0 +1,38 @@
+/**
+ * Privacy Retention Cron Endpoint
+ *
+ * Enforces the data retention periods users set by messaging the agent
+ * (e.g. "only keep my messages for 30 days").
+ *
+ * How it works:
+ * 1. Authenticates the request using the CRON_SECRET
+ * 2. For every user with a retention policy, deletes their messages older than
+ *    the policy allows, including every message in their individual chats
+ * 3. Deletes data exports whose download link has expired
+ *
+ * Setup:
+ * Configure this cron job to run daily using the A1Base Cron system or another cron service.
+ */
+
+import { NextResponse } from "next/server";
+import { getInitializedAdapter } from "@/lib/supabase/config";
+import { runRetentionPurge } from "@/lib/services/user-privacy";
+import { withCronAuth } from "@/lib/security/cron-auth";
+
+export const POST = withCronAuth(async () => {
+  try {
+    const adapter = await getInitializedAdapter();
+    if (!adapter) {
+      console.error("[Privacy Retention] Failed to initialize database adapter");
+      return new NextResponse("Failed to initialize database adapter", { status: 500 });
+    }
+
+    const result = await runRetentionPurge(adapter);
+    console.log("[Privacy Retention] Purge completed:", result);
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("[Privacy Retention] Purge failed:", error);
+    return new NextResponse("Internal Server Error", { status: 500 });
+  }
+});
@@ -2,209 +2,131 @@
  * Project Reminders Cron Endpoint
  *
  * This endpoint is designed to be called by a cron job to send reminders about active projects.
- * It iterates through all chats, checks for active projects, and sends a reminder message if any exist.
+ * Each chat has its own reminder rules (see lib/services/project-reminders.ts):
+ * how often to remind, quiet hours in the chat's timezone, how long a project
+ * has to go without activity before it's worth a reminder, and escalation
+ * when a task or project deadline is near or past.
  *
  * How it works:
  * 1. Authenticates the request using the CRON_SECRET
- * 2. Queries all chats from the database
- * 3. For each chat, checks if there are active projects (is_live=true)
- * 4. If active projects exist, sends a reminder message using the AI agent
- * 5. The reminder includes project details, age, and suggestions for updates
+ * 2. For each chat with active projects (is_live=true), decides whether a reminder
+ *    is due, skipping projects that were reminded about or active recently
+ * 3. Sends the reminder using the AI agent, with project details, age, open tasks
+ *    and the deadlines that need attention
+ * 4. Records each reminder as a "reminder_sent" project event
  *
- * Security:
- * - Requires a valid CRON_SECRET in the Authorization header
- * - Uses HTTPS only
+ * Dry run:
+ * POST with ?dryRun=true (or a JSON body of { "dryRun": true }) to get what would be
+ * sent to each chat, and why other chats would be skipped, without sending anything.
  *
  * Setup:
- * Configure this cron job to run at your desired frequency (e.g., daily or weekly)
- * using the A1Base Cron system or another cron service.
+ * Configure this cron job to run hourly using the A1Base Cron system or another cron
+ * service, so reminders can follow each chat's quiet hours and deadlines.
  */
 
-import { NextResponse } from "next/server";
-import { headers } from "next/headers";
+import { NextRequest, NextResponse } from "next/server";
 import { getInitializedAdapter } from "@/lib/supabase/config";
+import { withCronAuth } from "@/lib/security/cron-auth";
 import { DefaultReplyToMessage } from "@/lib/workflows/basic_workflow";
-// Define route configuration directly in this file
 import { ThreadMessage } from "@/types/chat";
+import { ChatReminderPlan, runProjectReminders } from "@/lib/services/project-reminders";
 
-// Removed CRON_SECRET requirement for MVP
-const isDevelopment = process.env.NODE_ENV === 'development';
+// Helper function to wait a random amount of time between 1-4 seconds
+const randomDelay = () => {
+  const delayMs = Math.floor(Math.random() * 3000) + 1000;
+  console.log(`[Project Reminders] Adding random delay of ${delayMs}ms before next message`);
+  return new Promise(resolve => setTimeout(resolve, delayMs));
+};
 
-export const POST = async (request: Request) => {
-  // No authentication required for MVP
-  console.log("[Project Reminders] Starting cron job - no authentication required");
+async function isDryRun(request: NextRequest): Promise<boolean> {
+  if (request.nextUrl.searchParams.get("dryRun") === "true") return true;
+  try {
+    const body = await request.json();
+    return body?.dryRun === true;
+  } catch {
+    return false;
+  }
+}
 
+export const POST = withCronAuth(async (request: NextRequest) => {
   try {
-    console.log("[Project Reminders] Starting cron job execution");
+    const dryRun = await isDryRun(request);
+    console.log(`[Project Reminders] Starting cron job execution${dryRun ? " (dry run)" : ""}`);
     
-    // Initialize the Supabase adapter
     const adapter = await getInitializedAdapter();
     if (!adapter) {
       console.error("[Project Reminders] Failed to initialize database adapter");
       return new NextResponse("Failed to initialize database adapter", { status: 500 });
     }
-    
-    console.log("[Project Reminders] Successfully initialized database adapter");
-
-    // Get all chats from the database
-    const { data: chats, error: chatsError } = await adapter.supabase
-      .from("chats")
-      .select("id, type, external_id, service");
-
-    if (chatsError) {
-      console.error("[Project Reminders] Error fetching chats:", chatsError);
-      return new NextResponse("Error fetching chats", { status: 500 });
-    }
 
-    console.log(`[Project Reminders] Found ${chats.length} chats to process`);
-    
-    let remindersSent = 0;
-    let chatsWithProjects = 0;
-    
-    // Helper function to wait a random amount of time between 1-4 seconds
-    const randomDelay = () => {
-      const delayMs = Math.floor(Math.random() * 3000) + 1000; // Random delay between 1000-4000ms
-      console.log(`[Project Reminders] Adding random delay of ${delayMs}ms before next message`);
-      return new Promise(resolve => setTimeout(resolve, delayMs));
-    };
-    
     // Track if we've sent at least one message to add delay before subsequent messages
     let isFirstMessage = true;
-    
-    // Process each chat sequentially with delays
-    for (let i = 0; i < chats.length; i++) {
-      const chat = chats[i];
-      console.log(`[Project Reminders] Processing chat ${chat.id} (${chat.type}) with external_id ${chat.external_id}`);
-      
-      // Get projects for this chat
-      const projects = await adapter.getProjectsByChat(chat.id);
-      console.log(`[Project Reminders] Chat ${chat.id} has ${projects.length} total projects:`, 
-                  projects.map(p => `${p.name} (is_live: ${p.is_live})`))
-      
-      // Filter for active projects (is_live = true)
-      const activeProjects = projects.filter(project => project.is_live === true);
-      console.log(`[Project Reminders] Chat ${chat.id} has ${activeProjects.length} active projects`);
-      
-      if (activeProjects.length > 0) {
-        chatsWithProjects++;
-        console.log(`[Project Reminders] Chat ${chat.id} has ${activeProjects.length} active projects`);
-        
-        try {
-          // Calculate project age and create a detailed list
-          const projectDetails = activeProjects.map(project => {
-            const createdAt = new Date(project.created_at);
-            const now = new Date();
-            const ageInDays = Math.floor((now.getTime() - createdAt.getTime()) / (1000 * 60 * 60 * 24));
-            
-            return {
-              ...project,
-              ageInDays,
-              ageDescription: ageInDays === 0 ? 'today' : 
-                             ageInDays === 1 ? 'yesterday' : 
-                             `${ageInDays} days ago`
-            };
-          });
-          
-          // Sort projects by age (oldest first)
-          projectDetails.sort((a, b) => b.ageInDays - a.ageInDays);
-          
-          // Create a formatted list of projects with their age
-          const projectsList = projectDetails.map(p => 
-            `- "${p.name}" (created ${p.ageDescription})`
-          ).join("\n");
-          
-          // Create a system message with detailed project information
-          const systemMessage: ThreadMessage = {
-            content: `[SYSTEM INSTRUCTION: This is an automated reminder about active projects. The following projects are currently active in this chat:\n\n${projectsList}\n\nPlease remind the user about these projects in a friendly, helpful way. Suggest they update the status of these projects or mark them as completed if they're done. Don't mention this is an automated message; make it feel like a natural follow-up.]`,
-            sender_number: process.env.A1BASE_AGENT_NUMBER || "",
-            sender_name: "AI Assistant",
-            thread_id: chat.external_id,
-            thread_type: chat.type,
-            timestamp: new Date().toISOString(),
-            message_id: `system-reminder-${Date.now()}`,
-            message_type: "text",
-            message_content: { 
-              text: `[SYSTEM INSTRUCTION: Project reminder]` 
-            },
-            role: "system",
-          };
-          
-          // Create a context with active projects information
-          const messages = [systemMessage];
-          
-          // Add a random delay before sending a message (except for the very first message)
-          if (!isFirstMessage) {
-            await randomDelay();
-          } else {
-            isFirstMessage = false;
-          }
-          
-          // For individual chats, we need to get the user's phone number to use as sender_number
-          let recipientNumber = "";
-          if (chat.type === "individual") {
-            // Get the participants for this chat
-            const { data: participants, error: participantsError } = await adapter.supabase
-              .from("chat_participants")
-              .select("user_id")
-              .eq("chat_id", chat.id);
-              
-            if (participantsError) {
-              console.error(`[Project Reminders] Error fetching participants for chat ${chat.id}:`, participantsError);
-            } else if (participants && participants.length > 0) {
-              // Get the user's phone number
-              const { data: user, error: userError } = await adapter.supabase
-                .from("conversation_users")
-                .select("phone_number")
-                .eq("id", participants[0].user_id)
-                .single();
-                
-              if (userError) {
-                console.error(`[Project Reminders] Error fetching user for chat ${chat.id}:`, userError);
-              } else if (user && user.phone_number) {
-                recipientNumber = user.phone_number;
-                console.log(`[Project Reminders] Found recipient number ${recipientNumber} for individual chat ${chat.id}`);
-              }
-            }
-          }
-          
-          // Generate a reminder message using the AI
-          const reminderMessage = await DefaultReplyToMessage(
-            messages,
-            chat.type as "individual" | "group",
-            chat.external_id,
-            chat.type === "individual" ? recipientNumber : "", // Use the recipient's number for individual chats
-            chat.service,
-            [], // No participants needed for this context
-            activeProjects // Pass the active projects
-          );
-          
-          console.log(`[Project Reminders] Sent reminder to chat ${chat.id}`);
-          remindersSent++;
-        } catch (error) {
-          console.error(`[Project Reminders] Error sending reminder to chat ${chat.id}:`, error);
+
+    const sendReminder = async ({ chat, projects, instruction }: ChatReminderPlan) => {
+      const systemMessage: ThreadMessage = {
+        content: instruction!,
+        sender_number: process.env.A1BASE_AGENT_NUMBER || "",
+        sender_name: "AI Assistant",
+        thread_id: chat.external_id || undefined,
+        thread_type: chat.type,
+        timestamp: new Date().toISOString(),
+        message_id: `system-reminder-${Date.now()}`,
+        message_type: "text",
+        message_content: { 
+          text: `[SYSTEM INSTRUCTION: Project reminder]` 
+        },
+        role: "system",
+      };
+
+      if (!isFirstMessage) {
+        await randomDelay();
+      } else {
+        isFirstMessage = false;
+      }
+
+      // For individual chats, we need to get the user's phone number to use as sender_number
+      let recipientNumber = "";
+      if (chat.type === "individual") {
+        const participants = await adapter.getChatParticipants(chat.id);
+        if (participants.length > 0 && participants[0].phone_number) {
+          recipientNumber = participants[0].phone_number;
         }
       }
-    }
-    
-    return new NextResponse(JSON.stringify({
+
+      await DefaultReplyToMessage(
+        [systemMessage],
+        chat.type as "individual" | "group",
+        chat.external_id || undefined,
+        chat.type === "individual" ? recipientNumber : "",
+        chat.service || undefined,
+        [], // No participants needed for this context
+        projects.map(item => item.project)
+      );
+
+      console.log(`[Project Reminders] Sent reminder to chat ${chat.id}`);
+      return true;
+    };
+
+    const result = await runProjectReminders(adapter, sendReminder, { dryRun });
+    console.log(
+      `[Project Reminders] ${result.remindersSent} reminders sent, ${result.chatsWithActiveProjects} of ${result.totalChats} chats have active projects`
+    );
+
+    return NextResponse.json({
       success: true,
-      message: `Project reminders processed successfully`,
+      message: dryRun ? "Dry run, nothing was sent" : "Project reminders processed successfully",
       stats: {
-        totalChats: chats.length,
-        chatsWithActiveProjects: chatsWithProjects,
-        remindersSent: remindersSent
-      }
-    }), {
-      status: 200,
-      headers: {
-        "Content-Type": "application/json"
-      }
+        totalChats: result.totalChats,
+        chatsWithActiveProjects: result.chatsWithActiveProjects,
+        remindersSent: result.remindersSent
+      },
+      chats: result.chats
     });
   } catch (error) {
     console.error('[Project Reminders] Cron job failed:', error);
     return new NextResponse("Internal Server Error", { status: 500 });
   }
-};
+});
 
 // Define route configuration directly in this file
 export const dynamic = 'force-dynamic';
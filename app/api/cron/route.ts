@@ -59,19 +59,10 @@
  */
 
 import { NextResponse } from "next/server";
-import { headers } from "next/headers";
-
-const CRON_SECRET = process.env.CRON_SECRET;
-
-export async function POST(request: Request) {
-  const headersList = await headers();
-  const authHeader = headersList.get("authorization");
-
-  // Verify authorization header matches the expected Bearer token
-  if (authHeader !== `Bearer ${CRON_SECRET}`) {
-    return new NextResponse("Unauthorized", { status: 401 });
-  }
+import { withCronAuth } from "@/lib/security/cron-auth";
 
+// The Authorization header must match the expected Bearer token
+export const POST = withCronAuth(async () => {
   try {
     // Log the request object to understand what data is available in cron job requests
     // Example request object properties:
@@ -88,4 +79,4 @@ export async function POST(request: Request) {
     console.error('Cron job failed:', error);
     return new NextResponse("Internal Server Error", { status: 500 });
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getInitializedAdapter } from "@/lib/supabase/config";
+import {
+  approveEmailDraft,
+  discardEmailDraft,
+  editEmailDraft,
+  getEmailDraftDetail,
+  regenerateEmailDraft,
+} from "@/lib/services/email-outbox";
+
+const ACTIONS = ["save", "approve", "regenerate", "discard"];
+
+// GET handler: a draft with every email of the thread it answers
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ draftId: string }> }
+) {
+  try {
+    const adapter = await getInitializedAdapter();
+    if (!adapter) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const { draftId } = await params;
+    const detail = await getEmailDraftDetail(adapter, draftId);
+    if (!detail) {
+      return NextResponse.json({ error: "Draft not found" }, { status: 404 });
+    }
+    return NextResponse.json(detail);
+  } catch (error) {
+    console.error("Error fetching email draft:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch email draft" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST handler: save edits to a pending draft, approve and send it (optionally edited), regenerate it with instructions, or discard it
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ draftId: string }> }
+) {
+  try {
+    const adapter = await getInitializedAdapter();
+    if (!adapter) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const { draftId } = await params;
+    const { action, subject, body, instructions } = await request.json();
+    if (!ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { error: `action must be one of ${ACTIONS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+    if (
+      (subject !== undefined && typeof subject !== "string") ||
+      (body !== undefined && typeof body !== "string") ||
+      (instructions !== undefined && typeof instructions !== "string")
+    ) {
+      return NextResponse.json(
+        { error: "subject, body and instructions must be strings" },
+        { status: 400 }
+      );
+    }
+
+    const notPending = NextResponse.json(
+      { error: "Draft not found or no longer pending" },
+      { status: 404 }
+    );
+
+    if (body !== undefined && !body.trim()) {
+      return NextResponse.json(
+        { error: "The reply can't be empty" },
+        { status: 400 }
+      );
+    }
+
+    if (action === "save") {
+      if (!subject?.trim() && body === undefined) {
+        return NextResponse.json(
+          { error: "subject or body is required" },
+          { status: 400 }
+        );
+      }
+      return (await editEmailDraft(adapter, draftId, { subject, body }))
+        ? NextResponse.json({ success: true, draft: await adapter.getEmailDraft(draftId) })
+        : notPending;
+    }
+
+    if (action === "discard") {
+      return (await discardEmailDraft(adapter, draftId)) ? NextResponse.json({ success: true }) : notPending;
+    }
+
+    if (action === "regenerate") {
+      const draft = await regenerateEmailDraft(adapter, draftId, instructions || "");
+      return draft
+        ? NextResponse.json({ success: true, draft })
+        : NextResponse.json(
+            { error: "Draft not found, no longer pending or could not be regenerated" },
+            { status: 404 }
+          );
+    }
+
+    const sent = await approveEmailDraft(adapter, draftId, { subject, body });
+    if (!sent) {
+      // A failed send leaves the draft pending with the error
+      const draft = await adapter.getEmailDraft(draftId);
+      if (draft?.status === "pending" && draft.error) {
+        return NextResponse.json(
+          { error: `Failed to send the reply: ${draft.error}` },
+          { status: 502 }
+        );
+      }
+      return notPending;
+    }
+
+    return NextResponse.json({ success: true, draft: sent });
+  } catch (error) {
+    console.error("Error reviewing email draft:", error);
+    return NextResponse.json(
+      { error: "Failed to review email draft" },
+      { status: 500 }
+    );
+  }
+}
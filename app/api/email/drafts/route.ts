@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getInitializedAdapter } from "@/lib/supabase/config";
+import type { EmailDraftStatus } from "@/lib/interfaces/database-adapter";
+
+const STATUSES: EmailDraftStatus[] = ["pending", "sending", "sent", "discarded"];
+
+// GET handler: drafts in the email outbox (pending by default), with the subject of their thread
+export async function GET(request: NextRequest) {
+  try {
+    const adapter = await getInitializedAdapter();
+    if (!adapter) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const status = (request.nextUrl.searchParams.get("status") || "pending") as EmailDraftStatus;
+    if (!STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `status must be one of ${STATUSES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const drafts = await adapter.getEmailDrafts({ status });
+    const threads = await Promise.all(
+      [...new Set(drafts.map((draft) => draft.thread_id))].map((threadId) => adapter.getEmailThread(threadId))
+    );
+    const subjects = new Map(threads.flatMap((thread) => (thread ? [[thread.id, thread.subject]] : [])));
+
+    return NextResponse.json({
+      status,
+      drafts: drafts.map((draft) => ({ ...draft, thread_subject: subjects.get(draft.thread_id) ?? null })),
+    });
+  } catch (error) {
+    console.error("Error fetching email drafts:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch email drafts" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  createLocalMediaStorage,
+  mediaContentType,
+  verifyLocalMediaSignature,
+} from "@/lib/storage/media-storage";
+
+/**
+ * Fetch a file kept by the local media storage. Links are made by
+ * getSignedMediaUrl and stop working when they expire.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string[] }> }
+) {
+  const key = (await params).key.join('/');
+  const { searchParams } = request.nextUrl;
+  if (!verifyLocalMediaSignature(key, searchParams.get('expires'), searchParams.get('signature'))) {
+    return NextResponse.json(
+      { success: false, error: 'Invalid or expired media link' },
+      { status: 403 }
+    );
+  }
+
+  try {
+    const content = await createLocalMediaStorage().get(key);
+    if (!content) {
+      return NextResponse.json({ success: false, error: 'Media not found' }, { status: 404 });
+    }
+
+    const contentType = mediaContentType(key);
+    const inline = /^(image|audio|video)\//.test(contentType);
+    return new NextResponse(new Uint8Array(content), {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Length': String(content.length),
+        'Cache-Control': 'private, max-age=3600',
+        'X-Content-Type-Options': 'nosniff',
+        ...(inline ? {} : { 'Content-Disposition': 'attachment' }),
+      },
+    });
+  } catch (error) {
+    console.error('Error reading media file:', error);
+    return NextResponse.json({ success: false, error: 'Media not found' }, { status: 404 });
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { readVoiceReply } from "@/lib/services/voice-notes";
+
+/**
+ * Fetch a spoken reply. WhatsApp downloads it from this link when the reply
+ * is sent, and the link stops working 24 hours after the reply was made.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ file: string }> }
+) {
+  const { file } = await params;
+  const reply = readVoiceReply(file);
+  if (!reply) {
+    return NextResponse.json(
+      { success: false, error: 'Voice reply not found or expired' },
+      { status: 404 }
+    );
+  }
+
+  return new NextResponse(new Uint8Array(reply.content), {
+    headers: {
+      'Content-Type': reply.mimeType,
+      'Content-Length': String(reply.content.length),
+      'Cache-Control': 'private, max-age=3600',
+    },
+  });
+}
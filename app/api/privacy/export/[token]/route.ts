@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { readUserDataExport } from "@/lib/services/user-privacy";
+
+/**
+ * Download a user data export. The token is the unguessable part of the link
+ * sent to the user, and stops working 24 hours after the export was made.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const { token } = await params;
+  const saved = readUserDataExport(token);
+  if (!saved) {
+    return NextResponse.json(
+      { success: false, error: 'Export not found or expired' },
+      { status: 404 }
+    );
+  }
+
+  return new NextResponse(new Uint8Array(saved.content), {
+    headers: {
+      'Content-Type': saved.format === 'zip' ? 'application/zip' : 'application/json',
+      'Content-Disposition': `attachment; filename="my-data.${saved.format}"`,
+      'Cache-Control': 'no-store',
+    },
+  });
+}
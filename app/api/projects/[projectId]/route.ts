@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getInitializedAdapter } from "@/lib/supabase/config";
+import { NotifyChat } from "@/lib/workflows/basic_workflow";
+import { ProjectEdit, editProject, getProjectDetail, notifyProjectChat } from "@/lib/services/project-dashboard";
+
+// GET handler: a project with its chat, people, tasks and timeline
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const adapter = await getInitializedAdapter();
+    if (!adapter) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const { projectId } = await params;
+    const detail = await getProjectDetail(adapter, projectId);
+    if (!detail) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+    return NextResponse.json(detail);
+  } catch (error) {
+    console.error("Error fetching project:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch project" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH handler: edit the name, description, status or attributes, and post the changes to the project's chat unless notify is false
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const adapter = await getInitializedAdapter();
+    if (!adapter) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const { projectId } = await params;
+    const { name, description, is_live, attributes, notify } = await request.json();
+    if (
+      (name !== undefined && typeof name !== "string") ||
+      (description !== undefined && typeof description !== "string") ||
+      (is_live !== undefined && typeof is_live !== "boolean") ||
+      (attributes !== undefined && (typeof attributes !== "object" || attributes === null || Array.isArray(attributes)))
+    ) {
+      return NextResponse.json(
+        { error: "name and description must be strings, is_live a boolean and attributes an object" },
+        { status: 400 }
+      );
+    }
+
+    const edit: ProjectEdit = { name, description, is_live, attributes };
+    const result = await editProject(adapter, projectId, edit);
+    if (!result) {
+      return NextResponse.json(
+        { error: "Project not found or could not be saved" },
+        { status: 404 }
+      );
+    }
+
+    const notified = notify !== false && (await notifyProjectChat(adapter, result.record, result.changes, NotifyChat));
+    return NextResponse.json({ success: true, project: result.record, changes: result.changes, notified });
+  } catch (error) {
+    console.error("Error updating project:", error);
+    return NextResponse.json(
+      { error: "Failed to update project" },
+      { status: 500 }
+    );
+  }
+}
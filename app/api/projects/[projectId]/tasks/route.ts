@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getInitializedAdapter } from "@/lib/supabase/config";
+import { NotifyChat } from "@/lib/workflows/basic_workflow";
+import {
+  addTaskFromDashboard,
+  editTaskFromDashboard,
+  notifyProjectChat,
+} from "@/lib/services/project-dashboard";
+
+const isOptionalString = (value: unknown) => value === undefined || value === null || typeof value === "string";
+
+function isValidDate(value: unknown) {
+  return typeof value !== "string" || !isNaN(new Date(value).getTime());
+}
+
+// POST handler: add a task with an optional assignee and due date (ISO timestamp)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const adapter = await getInitializedAdapter();
+    if (!adapter) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const { projectId } = await params;
+    const project = await adapter.getProjectById(projectId);
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const { title, assignee_id, due_at, notify } = await request.json();
+    if (typeof title !== "string" || !title.trim() || !isOptionalString(assignee_id) || !isOptionalString(due_at) || !isValidDate(due_at)) {
+      return NextResponse.json(
+        { error: "A title is required, assignee_id must be a user ID and due_at an ISO timestamp" },
+        { status: 400 }
+      );
+    }
+
+    const result = await addTaskFromDashboard(adapter, projectId, { title, assignee_id, due_at });
+    if (!result) {
+      return NextResponse.json({ error: "Task could not be saved" }, { status: 500 });
+    }
+
+    const notified = notify !== false && (await notifyProjectChat(adapter, project, result.changes, NotifyChat));
+    return NextResponse.json({ success: true, task: result.record, changes: result.changes, notified });
+  } catch (error) {
+    console.error("Error adding task:", error);
+    return NextResponse.json(
+      { error: "Failed to add task" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH handler: change a task's title, status, assignee or due date (null clears them)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const adapter = await getInitializedAdapter();
+    if (!adapter) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const { projectId } = await params;
+    const project = await adapter.getProjectById(projectId);
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const { taskId, title, status, assignee_id, due_at, notify } = await request.json();
+    if (
+      typeof taskId !== "string" ||
+      (title !== undefined && typeof title !== "string") ||
+      (status !== undefined && status !== "open" && status !== "done") ||
+      !isOptionalString(assignee_id) ||
+      !isOptionalString(due_at) ||
+      !isValidDate(due_at)
+    ) {
+      return NextResponse.json(
+        { error: "taskId is required, status must be 'open' or 'done' and due_at an ISO timestamp" },
+        { status: 400 }
+      );
+    }
+
+    const result = await editTaskFromDashboard(adapter, projectId, taskId, {
+      title,
+      status,
+      assignee_id,
+      due_at: due_at ? new Date(due_at).toISOString() : due_at,
+    });
+    if (!result) {
+      return NextResponse.json(
+        { error: "Task not found or could not be saved" },
+        { status: 404 }
+      );
+    }
+
+    const notified = notify !== false && (await notifyProjectChat(adapter, project, result.changes, NotifyChat));
+    return NextResponse.json({ success: true, task: result.record, changes: result.changes, notified });
+  } catch (error) {
+    console.error("Error updating task:", error);
+    return NextResponse.json(
+      { error: "Failed to update task" },
+      { status: 500 }
+    );
+  }
+}
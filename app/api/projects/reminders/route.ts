@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getInitializedAdapter } from "@/lib/supabase/config";
+import { getReminderSettings, saveReminderSettings } from "@/lib/services/project-reminders";
+import type { DatabaseAdapterInterface } from "@/lib/interfaces/database-adapter";
+
+async function findChat(adapter: DatabaseAdapterInterface, chatId: string) {
+  const chats = await adapter.getAllChats();
+  return chats.find((chat) => chat.id === chatId || chat.external_id === chatId) || null;
+}
+
+// GET handler: the reminder rules of a chat, by internal or external ID
+export async function GET(request: NextRequest) {
+  try {
+    const adapter = await getInitializedAdapter();
+    if (!adapter) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const chatId = request.nextUrl.searchParams.get("chatId");
+    if (!chatId) {
+      return NextResponse.json(
+        { error: "chatId is required" },
+        { status: 400 }
+      );
+    }
+
+    const chat = await findChat(adapter, chatId);
+    if (!chat) {
+      return NextResponse.json({ error: "Chat not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ chatId: chat.id, settings: getReminderSettings(chat) });
+  } catch (error) {
+    console.error("Error fetching reminder settings:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch reminder settings" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST handler: change some of a chat's reminder rules, e.g. { chatId, settings: { quietHours: null } }
+export async function POST(request: NextRequest) {
+  try {
+    const adapter = await getInitializedAdapter();
+    if (!adapter) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const { chatId, settings } = await request.json();
+    if (!chatId || typeof chatId !== "string" || !settings || typeof settings !== "object") {
+      return NextResponse.json(
+        { error: "chatId and a settings object are required" },
+        { status: 400 }
+      );
+    }
+
+    const chat = await findChat(adapter, chatId);
+    if (!chat) {
+      return NextResponse.json({ error: "Chat not found" }, { status: 404 });
+    }
+
+    const result = await saveReminderSettings(adapter, chat, settings);
+    if (!result.settings) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+    return NextResponse.json({ success: true, chatId: chat.id, settings: result.settings });
+  } catch (error) {
+    console.error("Error saving reminder settings:", error);
+    return NextResponse.json(
+      { error: "Failed to save reminder settings" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getInitializedAdapter } from "@/lib/supabase/config";
+import { ProjectStatusFilter, listProjectSummaries } from "@/lib/services/project-dashboard";
+
+const STATUSES: ProjectStatusFilter[] = ["live", "completed", "all"];
+
+// GET handler: projects across all chats, filtered by status, chat and owner, with the filter options
+export async function GET(request: NextRequest) {
+  try {
+    const adapter = await getInitializedAdapter();
+    if (!adapter) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const params = request.nextUrl.searchParams;
+    const status = (params.get("status") || "all") as ProjectStatusFilter;
+    if (!STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `status must be one of ${STATUSES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      await listProjectSummaries(adapter, {
+        status,
+        chatId: params.get("chatId") || undefined,
+        ownerId: params.get("ownerId") || undefined,
+      })
+    );
+  } catch (error) {
+    console.error("Error fetching projects:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch projects" },
+      { status: 500 }
+    );
+  }
+}
@@ -6,7 +6,7 @@
 
 import { NextResponse } from 'next/server';
 import { ReportGeneratorService } from '@/lib/services/report-generator';
-import { ReportSchedulerService } from '@/lib/services/report-scheduler';
+import { ReportSchedulerService, getEmailReportsMetadata } from '@/lib/services/report-scheduler';
 import { SendEmailFromAgent } from '@/lib/workflows/email_workflow';
 import { getInitializedAdapter } from '@/lib/supabase/config';
 
@@ -55,13 +55,9 @@ export async function POST(request: Request) {
       const adapter = await getInitializedAdapter();
       if (adapter) {
         // Get the report from user metadata
-        const { data: user } = await adapter.supabase
-          .from('conversation_users')
-          .select('metadata')
-          .eq('id', userId)
-          .single();
+        const user = await adapter.getUserById(userId);
         
-        const scheduledReport = user?.metadata?.email_reports?.scheduled?.[reportId];
+        const scheduledReport = getEmailReportsMetadata(user?.metadata).scheduled?.[reportId];
         if (scheduledReport) {
           dateRange = scheduledReport.frequency;
         }
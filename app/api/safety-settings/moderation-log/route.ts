@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getInitializedAdapter } from "@/lib/supabase/config";
+import { MODERATION_ACTIONS, type ModerationAction, type ModerationDirection } from "@/lib/safety-config/moderation";
+
+const DEFAULT_DAYS = 7;
+const MAX_DAYS = 365;
+const MAX_ENTRIES = 200;
+
+// GET handler: messages flagged by moderation over the last `days` days, optionally filtered by action, direction or thread
+export async function GET(request: NextRequest) {
+  try {
+    const adapter = await getInitializedAdapter();
+    if (!adapter) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const params = request.nextUrl.searchParams;
+    const days = Math.min(Math.max(parseInt(params.get("days") || "", 10) || DEFAULT_DAYS, 1), MAX_DAYS);
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+    const action = params.get("action") || undefined;
+    if (action && !MODERATION_ACTIONS.includes(action as ModerationAction)) {
+      return NextResponse.json(
+        { error: `action must be one of ${MODERATION_ACTIONS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+    const direction = (params.get("direction") || undefined) as ModerationDirection | undefined;
+    if (direction && direction !== "inbound" && direction !== "outbound") {
+      return NextResponse.json(
+        { error: "direction must be inbound or outbound" },
+        { status: 400 }
+      );
+    }
+
+    const entries = await adapter.getModerationLog({
+      since,
+      action,
+      direction,
+      threadId: params.get("threadId") || undefined,
+      limit: MAX_ENTRIES,
+    });
+
+    return NextResponse.json({ days, since, entries });
+  } catch (error) {
+    console.error("Error fetching moderation log:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch moderation log" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { promises as fs } from 'fs';
 import path from 'path';
+import { moderationSettingsSchema } from '@/lib/safety-config/moderation';
 // Define route configuration directly in this file
 export const dynamic = 'force-dynamic';
 export const runtime = 'nodejs';
@@ -100,6 +101,16 @@ export async function POST(request: NextRequest) {
       );
     }
     
+    if (settings.moderation !== undefined) {
+      const moderation = moderationSettingsSchema.safeParse(settings.moderation);
+      if (!moderation.success) {
+        return NextResponse.json(
+          { error: `Invalid moderation settings: ${moderation.error.message}` },
+          { status: 400 }
+        );
+      }
+    }
+    
     // Ensure data directory exists
     await initializeDataDirectory();
     
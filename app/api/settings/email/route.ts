@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { emailSettingsSchema, loadEmailSettings, saveEmailSettings } from "@/lib/services/email-outbox";
+
+// GET handler: whether email replies are sent straight away or wait in the outbox, and who is always answered straight away
+export async function GET() {
+  try {
+    return NextResponse.json(loadEmailSettings());
+  } catch (error) {
+    console.error("Error fetching email settings:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch email settings" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST handler: change the reply mode and/or the auto-send allowlist
+export async function POST(request: NextRequest) {
+  try {
+    const data = await request.json();
+
+    const result = emailSettingsSchema.safeParse({ ...loadEmailSettings(), ...data });
+    if (!result.success) {
+      return NextResponse.json(
+        { error: `Invalid email settings: ${result.error.message}` },
+        { status: 400 }
+      );
+    }
+
+    if (!saveEmailSettings(result.data)) {
+      return NextResponse.json(
+        { error: "Failed to save email settings" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, settings: result.data });
+  } catch (error) {
+    console.error("Error updating email settings:", error);
+    return NextResponse.json(
+      { error: "Failed to update email settings" },
+      { status: 500 }
+    );
+  }
+}
@@ -12,6 +12,7 @@ const ALLOWED_FILES = [
   "agent-memory-settings.json",
   "base-information.json",
   "model-settings.json",
+  "email-settings.json",
 ]
 
 export async function GET(request: NextRequest) {
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from "next/server"
 import { promises as fs } from "fs"
 import * as path from "path"
+import { modelSettingsSchema } from "@/lib/services/model-router"
+import { moderationSettingsSchema } from "@/lib/safety-config/moderation"
+import { emailSettingsSchema } from "@/lib/services/email-outbox"
 
 // Whitelist of allowed files to import for security
 const ALLOWED_FILES = [
@@ -12,6 +15,7 @@ const ALLOWED_FILES = [
   "agent-memory-settings.json",
   "base-information.json",
   "model-settings.json",
+  "email-settings.json",
 ]
 
 // Validation schemas for each file type (basic validation)
@@ -31,11 +35,13 @@ const FILE_VALIDATIONS: { [key: string]: (data: any) => boolean } = {
   },
   "safety-settings.json": (data) => {
     return typeof data === "object" && 
-           typeof data.enabled === "boolean"
+           typeof data.enabled === "boolean" &&
+           (data.moderation === undefined || moderationSettingsSchema.safeParse(data.moderation).success)
   },
   "message-settings.json": (data) => {
     return typeof data === "object" && 
-           typeof data.splitParagraphs === "boolean"
+           typeof data.splitParagraphs === "boolean" &&
+           (data.voiceReplies === undefined || typeof data.voiceReplies === "boolean")
   },
   "agent-memory-settings.json": (data) => {
     return typeof data === "object" && 
@@ -47,7 +53,12 @@ const FILE_VALIDATIONS: { [key: string]: (data: any) => boolean } = {
   },
   "model-settings.json": (data) => {
     return typeof data === "object" && 
-           (data.model === undefined || typeof data.model === "string")
+           (data.model === undefined || typeof data.model === "string") &&
+           modelSettingsSchema.safeParse(data).success
+  },
+  "email-settings.json": (data) => {
+    return typeof data === "object" && 
+           emailSettingsSchema.safeParse(data).success
   },
 }
 
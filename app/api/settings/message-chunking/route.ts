@@ -58,29 +58,38 @@ export async function POST(request: NextRequest) {
     const data = await request.json();
     
     // Validate input
-    if (data.splitParagraphs === undefined) {
+    if (data.splitParagraphs === undefined && data.voiceReplies === undefined) {
       return NextResponse.json(
-        { error: "splitParagraphs is required" },
+        { error: "splitParagraphs or voiceReplies is required" },
         { status: 400 }
       );
     }
     
     // Validate type
-    if (typeof data.splitParagraphs !== "boolean") {
+    if (data.splitParagraphs !== undefined && typeof data.splitParagraphs !== "boolean") {
       return NextResponse.json(
         { error: "splitParagraphs must be a boolean" },
         { status: 400 }
       );
     }
+    if (data.voiceReplies !== undefined && typeof data.voiceReplies !== "boolean") {
+      return NextResponse.json(
+        { error: "voiceReplies must be a boolean" },
+        { status: 400 }
+      );
+    }
     
     // Save the settings
     const settings = getSettings();
-    settings.splitParagraphs = data.splitParagraphs;
+    if (data.splitParagraphs !== undefined) settings.splitParagraphs = data.splitParagraphs;
+    if (data.voiceReplies !== undefined) settings.voiceReplies = data.voiceReplies;
     saveSettings(settings);
     
     return NextResponse.json({ 
       success: true, 
-      message: `Message chunking ${data.splitParagraphs ? 'enabled' : 'disabled'}`,
+      message: data.splitParagraphs !== undefined
+        ? `Message chunking ${data.splitParagraphs ? 'enabled' : 'disabled'}`
+        : `Voice replies ${data.voiceReplies ? 'enabled' : 'disabled'}`,
       settings 
     });
   } catch (error) {
@@ -1,6 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import fs from "fs";
 import path from "path";
+import {
+  MODEL_TASKS,
+  formatModelRef,
+  getTaskModelChain,
+  modelSettingsSchema,
+} from "@/lib/services/model-router";
 
 // Define the path to the settings file
 const settingsFilePath = path.join(process.cwd(), "data", "model-settings.json");
@@ -35,7 +41,9 @@ function saveSettings(settings: any) {
   fs.writeFileSync(settingsFilePath, JSON.stringify(settings, null, 2));
   
   // Update process.env for the current session
-  process.env.SELECTED_MODEL_PROVIDER = settings.selectedModelProvider;
+  if (settings.selectedModelProvider) {
+    process.env.SELECTED_MODEL_PROVIDER = settings.selectedModelProvider;
+  }
   
   return settings;
 }
@@ -44,7 +52,16 @@ function saveSettings(settings: any) {
 export async function GET() {
   try {
     const settings = getSettings();
-    return NextResponse.json(settings);
+    const parsed = modelSettingsSchema.safeParse(settings);
+
+    // Include the resolved model chain for each task
+    const routes = Object.fromEntries(
+      MODEL_TASKS.map((task) => [
+        task,
+        getTaskModelChain(parsed.success ? parsed.data : {}, task).map(formatModelRef),
+      ])
+    );
+    return NextResponse.json({ ...settings, routes });
   } catch (error) {
     console.error("Error fetching model settings:", error);
     return NextResponse.json(
@@ -60,30 +77,46 @@ export async function POST(request: NextRequest) {
     const data = await request.json();
     
     // Validate input
-    if (!data.selectedModelProvider) {
+    if (!data.selectedModelProvider && !data.tasks && !data.providers && !data.budgets && !data.pricing) {
       return NextResponse.json(
-        { error: "selectedModelProvider is required" },
+        { error: "selectedModelProvider, tasks, providers, budgets or pricing is required" },
         { status: 400 }
       );
     }
     
     // Validate provider type
-    const validProviders = ["openai", "anthropic", "grok"];
-    if (!validProviders.includes(data.selectedModelProvider)) {
+    const validProviders = ["openai", "anthropic", "grok", ...Object.keys(data.providers || {})];
+    if (data.selectedModelProvider && !validProviders.includes(data.selectedModelProvider)) {
       return NextResponse.json(
-        { error: "Invalid model provider. Must be one of: openai, anthropic, grok" },
+        { error: `Invalid model provider. Must be one of: ${validProviders.join(", ")}` },
         { status: 400 }
       );
     }
-    
+
     // Save the settings
     const settings = getSettings();
-    settings.selectedModelProvider = data.selectedModelProvider;
+    for (const key of ["selectedModelProvider", "providers", "tasks", "budgets", "pricing"]) {
+      if (data[key] !== undefined) {
+        settings[key] = data[key];
+      }
+    }
+
+    // Validate task routes and providers
+    const parsed = modelSettingsSchema.safeParse(settings);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: `Invalid model settings: ${parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; ")}` },
+        { status: 400 }
+      );
+    }
+
     saveSettings(settings);
     
     return NextResponse.json({ 
       success: true, 
-      message: `Model provider updated to ${data.selectedModelProvider}`,
+      message: data.selectedModelProvider
+        ? `Model provider updated to ${data.selectedModelProvider}`
+        : "Model routing updated",
       settings 
     });
   } catch (error) {
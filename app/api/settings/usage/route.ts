@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getInitializedAdapter } from "@/lib/supabase/config";
+import { loadModelSettings } from "@/lib/services/model-router";
+import {
+  databaseUsageStore,
+  getChatBudgetStatus,
+  summarizeModelUsage,
+} from "@/lib/services/model-usage";
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 365;
+
+// GET handler: token usage and spend over the last `days` days, optionally for one chat
+export async function GET(request: NextRequest) {
+  try {
+    const adapter = await getInitializedAdapter();
+    if (!adapter) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const params = request.nextUrl.searchParams;
+    const days = Math.min(Math.max(parseInt(params.get("days") || "", 10) || DEFAULT_DAYS, 1), MAX_DAYS);
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+    const chatId = params.get("chatId") || undefined;
+
+    const settings = loadModelSettings();
+    const usage = await adapter.getModelUsage({ since, chatId });
+    const summary = summarizeModelUsage(settings, usage);
+
+    // Current period spend for every chat that has a budget
+    const byChat = await Promise.all(
+      summary.byChat.map(async (chat) => ({
+        ...chat,
+        budget: await getChatBudgetStatus(settings, chat.chatId, databaseUsageStore),
+      }))
+    );
+
+    return NextResponse.json({
+      days,
+      since,
+      ...summary,
+      byChat,
+      budgets: settings.budgets || {},
+    });
+  } catch (error) {
+    console.error("Error fetching model usage:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch model usage" },
+      { status: 500 }
+    );
+  }
+}
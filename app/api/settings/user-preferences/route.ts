@@ -97,7 +97,7 @@ export async function POST(request: NextRequest) {
     const updatedMetadata = {
       ...currentUser.metadata,
       preferences: {
-        ...currentUser.metadata?.preferences,
+        ...(currentUser.metadata?.preferences as Record<string, unknown> | undefined),
         ...preferences
       }
     };
@@ -4,13 +4,14 @@ import { triageMessage } from "@/lib/ai-triage/triage-logic";
 import { getSystemPrompt } from "@/lib/agent/system-prompt";
 import { streamText, type CoreMessage } from 'ai';
 import { openai } from "@ai-sdk/openai";
+import type { DatabaseAdapterInterface } from "@/lib/interfaces/database-adapter";
 
 function getUserIdFromHeaders(request: NextRequest): string | null {
   return request.headers.get('x-user-id');
 }
 
 async function saveAiResponseMessage(
-  adapter: any,
+  adapter: DatabaseAdapterInterface,
   chatId: string,
   messageContent: string
 ) {
@@ -31,38 +32,20 @@ async function saveAiResponseMessage(
     const normalizedAgentNumber = agentNumber.replace(/\+/g, '');
     console.log('[AI-RESPONSE] Looking for agent user with phone:', normalizedAgentNumber);
     
-    const { data: agentUser, error } = await adapter.supabase
-      .from('conversation_users')
-      .select('id')
-      .eq('phone_number', normalizedAgentNumber)
-      .single();
-
-    console.log('[AI-RESPONSE] Agent user query result:', { agentUser, error });
+    // Find the agent user, creating it if this is the agent's first message
+    const agentUserId = await adapter.getUserFromWebhook(
+      normalizedAgentNumber,
+      'AI Assistant',
+      'web-ui',
+      { is_agent: true }
+    );
 
-    if (agentUser) {
-      console.log('[AI-RESPONSE] Saving message for agent user:', agentUser.id);
-      const result = await adapter.addMessageToChat(chatId, agentUser.id, messageContent);
+    if (agentUserId) {
+      console.log('[AI-RESPONSE] Saving message for agent user:', agentUserId);
+      const result = await adapter.addMessageToChat(chatId, agentUserId, messageContent);
       console.log('[AI-RESPONSE] Message saved successfully:', !!result);
     } else {
-      console.error('[AI-RESPONSE] Agent user not found in database');
-      // Let's try to create the agent user
-      console.log('[AI-RESPONSE] Attempting to create agent user...');
-      const { data: newAgentUser, error: createError } = await adapter.supabase
-        .from('conversation_users')
-        .insert({
-          phone_number: normalizedAgentNumber,
-          name: 'AI Assistant',
-          is_agent: true
-        })
-        .select('id')
-        .single();
-      
-      if (newAgentUser) {
-        console.log('[AI-RESPONSE] Created new agent user:', newAgentUser.id);
-        await adapter.addMessageToChat(chatId, newAgentUser.id, messageContent);
-      } else {
-        console.error('[AI-RESPONSE] Failed to create agent user:', createError);
-      }
+      console.error('[AI-RESPONSE] Failed to find or create agent user');
     }
   } catch (error) {
     console.error('[AI-RESPONSE] Error saving AI response:', error);
@@ -25,8 +25,47 @@ interface Message {
   senderName?: string;
   senderId?: string;
   isSystemMessage?: boolean;
+  isStreaming?: boolean;
+  cancelled?: boolean;
+  /**
+   * File sent with the message, behind a signed link from media storage
+   */
+  media?: {
+    url: string;
+    thumbnailUrl: string | null;
+    type: string;
+    mimeType: string | null;
+  };
 }
 
+// Media sent with a message: images as thumbnails opening the full file,
+// players for audio and video, and a download link for documents
+const MessageMedia: React.FC<{ media: NonNullable<Message['media']> }> = ({ media }) => {
+  if (media.type === 'image') {
+    return (
+      <a href={media.url} target="_blank" rel="noopener noreferrer" className="block mb-2">
+        <img
+          src={media.thumbnailUrl || media.url}
+          alt="Image sent in the chat"
+          className="rounded-lg max-h-64 object-contain"
+        />
+      </a>
+    );
+  }
+  if (media.type === 'audio') {
+    return <audio controls src={media.url} className="mb-2 max-w-full" />;
+  }
+  if (media.type === 'video') {
+    return <video controls src={media.url} className="mb-2 rounded-lg max-h-64 max-w-full" />;
+  }
+  return (
+    <a href={media.url} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1 mb-2 text-sm underline">
+      <ExternalLink className="w-4 h-4" />
+      Download file
+    </a>
+  );
+};
+
 // Agent Profile Card Component
 const AgentProfileCard: React.FC = () => {
   const [profileSettings, setProfileSettings] = useState<AgentProfileSettings | null>(null);
@@ -370,7 +409,7 @@ function GroupChatContent() {
   const [waitingForEmail, setWaitingForEmail] = useState(false);
   const socketRef = useRef<any>(null);
   
-  const { messages, participants, isLoading, error, sendMessage, setTyping, typingUsers, connectionStatus, reconnect } = useSocketGroupChat(chatId);
+  const { messages, participants, isLoading, error, sendMessage, stopReply, isAgentReplying, setTyping, typingUsers, connectionStatus, reconnect } = useSocketGroupChat(chatId);
 
   // Helper function to send AI agent messages
   const sendAgentMessage = useCallback((content: string) => {
@@ -791,7 +830,14 @@ function GroupChatContent() {
                               : 'bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-gray-100'
                           }`}
                         >
-                          <p className="text-sm whitespace-pre-wrap break-words">{message.content}</p>
+                          {message.media && <MessageMedia media={message.media} />}
+                          <p className="text-sm whitespace-pre-wrap break-words">
+                            {message.content}
+                            {message.isStreaming && <span className="inline-block ml-0.5 animate-pulse">▍</span>}
+                          </p>
+                          {message.cancelled && (
+                            <p className="text-xs italic text-gray-500 dark:text-gray-400 mt-1">Stopped</p>
+                          )}
                         </div>
                         <p className="text-xs text-gray-400 mt-1 px-1">
                           {new Date(message.timestamp).toLocaleTimeString()}
@@ -804,6 +850,18 @@ function GroupChatContent() {
               <div ref={messagesEndRef} />
             </div>
 
+            {/* Stop the AI reply being streamed */}
+            {isAgentReplying && (
+              <div className="px-4 pt-2 flex justify-center">
+                <button
+                  onClick={stopReply}
+                  className="text-xs px-3 py-1 rounded-full border border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800"
+                >
+                  Stop reply
+                </button>
+              </div>
+            )}
+
             {/* Typing Indicator */}
             {typingUsers.size > 0 && (
               <div className="px-4 py-2 text-sm text-gray-500 dark:text-gray-400">
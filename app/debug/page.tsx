@@ -1,7 +1,7 @@
 "use client";
 
 import { useEffect, useState } from "react";
-import { AlertTriangle, ExternalLink, RefreshCw, CheckCircle2, Upload, ImageIcon, Sparkles } from "lucide-react";
+import { AlertTriangle, ExternalLink, RefreshCw, CheckCircle2, Upload, ImageIcon, Sparkles, Mic } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -50,6 +50,8 @@ export default function DebugPage() {
   const [isUpdatingProfilePicture, setIsUpdatingProfilePicture] = useState(false);
   const [isSavingChunkSetting, setIsSavingChunkSetting] = useState(false);
   const [messageChunkingEnabled, setMessageChunkingEnabled] = useState(false);
+  const [isSavingVoiceSetting, setIsSavingVoiceSetting] = useState(false);
+  const [voiceRepliesEnabled, setVoiceRepliesEnabled] = useState(false);
   const [webhookUrls, setWebhookUrls] = useState({
     phoneWebhook: "",
     emailWebhook: ""
@@ -82,6 +84,7 @@ export default function DebugPage() {
       if (response.ok) {
         const data = await response.json();
         setMessageChunkingEnabled(data.splitParagraphs || false);
+        setVoiceRepliesEnabled(data.voiceReplies || false);
       }
     } catch (error) {
       console.error('Error getting message chunking settings:', error);
@@ -259,6 +262,44 @@ export default function DebugPage() {
     }
   }
 
+  async function toggleVoiceReplies(enabled: boolean) {
+    setIsSavingVoiceSetting(true);
+    
+    try {
+      const response = await fetch("/api/settings/message-chunking", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ voiceReplies: enabled }),
+      });
+      
+      const data = await response.json();
+      
+      if (response.ok) {
+        setVoiceRepliesEnabled(enabled);
+        
+        toast({
+          title: "Setting updated",
+          description: `Voice replies have been ${enabled ? "enabled" : "disabled"}`,
+          variant: "default",
+        });
+      } else {
+        throw new Error(data.error || "Failed to update voice reply setting");
+      }
+    } catch (error) {
+      console.error('Failed to update voice reply setting:', error);
+      toast({
+        title: "Update failed",
+        description: error instanceof Error ? error.message : "Failed to update voice reply setting",
+        variant: "destructive",
+        action: <ToastAction altText="Try again">Try again</ToastAction>,
+      });
+    } finally {
+      setIsSavingVoiceSetting(false);
+    }
+  }
+
   useEffect(() => {
     checkEnvVars();
     
@@ -434,7 +475,7 @@ export default function DebugPage() {
                       {envStatus.existingTables.length < envStatus.requiredTables.length && (
                         <div className="mt-2 text-xs px-2 py-2 bg-blue-50 dark:bg-blue-900/20 rounded border border-blue-200 dark:border-blue-800">
                           <p className="font-medium">Missing required tables</p>
-                          <p className="mt-1">To set up the database, run the SQL commands in <code>supabase.sql</code> in your Supabase SQL editor.</p>
+                          <p className="mt-1">To set up the database, set <code>DATABASE_URL</code> and run <code>npm run db:migrate -- up</code>.</p>
                         </div>
                       )}
                     </div>
@@ -607,6 +648,32 @@ export default function DebugPage() {
                     )}
                   </Button>
                 </div>
+                <div className="flex items-center justify-between p-4 border rounded-lg mt-4">
+                  <div className="flex gap-3">
+                    <Mic className="h-5 w-5 text-blue-500 flex-shrink-0 mt-0.5" />
+                    <div>
+                      <h4 className="font-medium">Voice Replies</h4>
+                      <p className="text-xs sm:text-sm text-muted-foreground">
+                        Answer voice notes with a spoken reply as well as text. Needs a text-to-speech model
+                        and a public NEXT_PUBLIC_APP_URL that WhatsApp can fetch the audio from.
+                      </p>
+                    </div>
+                  </div>
+                  <Button
+                    variant={voiceRepliesEnabled ? "default" : "outline"}
+                    size="sm"
+                    disabled={isSavingVoiceSetting}
+                    onClick={() => toggleVoiceReplies(!voiceRepliesEnabled)}
+                  >
+                    {isSavingVoiceSetting ? (
+                      <RefreshCw className="h-4 w-4 animate-spin" />
+                    ) : voiceRepliesEnabled ? (
+                      "Enabled"
+                    ) : (
+                      "Disabled"
+                    )}
+                  </Button>
+                </div>
               </div>
             </div>
             
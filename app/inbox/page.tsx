@@ -0,0 +1,363 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Inbox, Paperclip, RefreshCw, Save, Send, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import type { EmailDraftRecord, EmailDraftStatus } from "@/lib/interfaces/database-adapter";
+import type { EmailDraftDetail, EmailSettings } from "@/lib/services/email-outbox";
+
+type DraftSummary = EmailDraftRecord & { thread_subject: string | null };
+
+function formatDate(iso: string) {
+  return format(new Date(iso), "d MMM yyyy, HH:mm");
+}
+
+function ReplySettings() {
+  const [settings, setSettings] = useState<EmailSettings | null>(null);
+  const [allowlist, setAllowlist] = useState("");
+
+  useEffect(() => {
+    fetch("/api/settings/email")
+      .then((response) => response.json())
+      .then((data: EmailSettings) => {
+        setSettings(data);
+        setAllowlist(data.autoSendAllowlist.join("\n"));
+      })
+      .catch((error) => console.error("Error loading email settings:", error));
+  }, []);
+
+  const save = async () => {
+    if (!settings) return;
+    try {
+      const response = await fetch("/api/settings/email", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          replyMode: settings.replyMode,
+          autoSendAllowlist: allowlist.split(/[\n,]/).map((entry) => entry.trim()).filter(Boolean),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || response.statusText);
+      setSettings(data.settings);
+      setAllowlist(data.settings.autoSendAllowlist.join("\n"));
+      toast.success("Email settings saved");
+    } catch (error) {
+      console.error("Error saving email settings:", error);
+      toast.error("Failed to save email settings");
+    }
+  };
+
+  if (!settings) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Replies</CardTitle>
+        <CardDescription>
+          In draft mode the agent&apos;s replies wait here until you approve them, except for the senders below.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Reply mode</Label>
+          <Select
+            value={settings.replyMode}
+            onValueChange={(value) => setSettings({ ...settings, replyMode: value as EmailSettings["replyMode"] })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="auto">Send replies straight away</SelectItem>
+              <SelectItem value="draft">Draft replies for review</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="allowlist">Always send straight away to</Label>
+          <Textarea
+            id="allowlist"
+            rows={3}
+            placeholder={"ceo@example.com\n@trusted-partner.com"}
+            value={allowlist}
+            onChange={(event) => setAllowlist(event.target.value)}
+          />
+        </div>
+      </CardContent>
+      <CardFooter>
+        <Button onClick={save} className="flex items-center gap-1">
+          <Save className="h-4 w-4" /> Save
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
+
+function ThreadView({ detail }: { detail: EmailDraftDetail }) {
+  return (
+    <div className="space-y-3">
+      {detail.emails.map((email) => (
+        <div
+          key={email.id}
+          className={`rounded-md border p-3 text-sm ${
+            email.direction === "outbound" ? "bg-blue-50 dark:bg-blue-950" : "bg-white dark:bg-gray-900"
+          } ${email.id === detail.draft.reply_to_id ? "ring-2 ring-blue-400" : ""}`}
+        >
+          <div className="flex justify-between gap-2 text-xs text-gray-500">
+            <span>
+              {email.from_address} → {email.to_address}
+              {email.cc_addresses.length > 0 && `, cc ${email.cc_addresses.join(", ")}`}
+            </span>
+            <span>{formatDate(email.created_at)}</span>
+          </div>
+          <p className="font-medium mt-1">{email.subject}</p>
+          <p className="whitespace-pre-wrap mt-2">{email.body_text}</p>
+          {email.attachments.length > 0 && (
+            <div className="flex flex-wrap gap-2 mt-2">
+              {email.attachments.map((attachment) =>
+                attachment.url ? (
+                  <a
+                    key={attachment.id}
+                    href={attachment.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-1 text-xs text-blue-600 hover:underline"
+                  >
+                    <Paperclip className="h-3 w-3" /> {attachment.filename}
+                  </a>
+                ) : (
+                  <span key={attachment.id} className="flex items-center gap-1 text-xs text-gray-400">
+                    <Paperclip className="h-3 w-3" /> {attachment.filename} (not stored)
+                  </span>
+                )
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function InboxPage() {
+  const [status, setStatus] = useState<EmailDraftStatus>("pending");
+  const [drafts, setDrafts] = useState<DraftSummary[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [detail, setDetail] = useState<EmailDraftDetail | null>(null);
+  const [subject, setSubject] = useState("");
+  const [body, setBody] = useState("");
+  const [instructions, setInstructions] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  const loadDrafts = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/email/drafts?status=${status}`);
+      if (!response.ok) throw new Error(response.statusText);
+      const data = await response.json();
+      setDrafts(data.drafts || []);
+    } catch (error) {
+      console.error("Error loading drafts:", error);
+      toast.error("Failed to load drafts");
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  const loadDetail = async (draftId: string) => {
+    try {
+      const response = await fetch(`/api/email/drafts/${draftId}`);
+      if (!response.ok) throw new Error(response.statusText);
+      const data: EmailDraftDetail = await response.json();
+      setDetail(data);
+      setSubject(data.draft.subject);
+      setBody(data.draft.body);
+      setInstructions(data.draft.instructions || "");
+    } catch (error) {
+      console.error("Error loading draft:", error);
+      toast.error("Failed to load draft");
+    }
+  };
+
+  useEffect(() => {
+    setSelectedId(null);
+    setDetail(null);
+    loadDrafts();
+  }, [loadDrafts]);
+
+  useEffect(() => {
+    if (selectedId) loadDetail(selectedId);
+  }, [selectedId]);
+
+  const review = async (action: "save" | "approve" | "regenerate" | "discard") => {
+    if (!selectedId) return;
+    setBusy(true);
+    try {
+      const response = await fetch(`/api/email/drafts/${selectedId}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(action === "regenerate" ? { action, instructions } : { action, subject, body }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || response.statusText);
+
+      if (action === "save" || action === "regenerate") {
+        toast.success(action === "save" ? "Draft saved" : "Draft regenerated");
+        await loadDetail(selectedId);
+      } else {
+        toast.success(action === "approve" ? `Reply sent to ${detail?.draft.to_address}` : "Draft discarded");
+        setSelectedId(null);
+        setDetail(null);
+      }
+      await loadDrafts();
+    } catch (error) {
+      console.error(`Error running ${action} on draft:`, error);
+      toast.error(error instanceof Error ? error.message : "Failed to update draft");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const editable = detail?.draft.status === "pending";
+
+  return (
+    <div className="container mx-auto py-8 px-4 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold flex items-center gap-2">
+          <Inbox className="h-6 w-6" />
+          Inbox
+        </h1>
+        <p className="text-gray-500 dark:text-gray-400">
+          Replies the agent wrote to emails, waiting for you to send, edit, regenerate or discard them.
+        </p>
+      </div>
+
+      <ReplySettings />
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        <div className="space-y-3">
+          <Select value={status} onValueChange={(value) => setStatus(value as EmailDraftStatus)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="pending">Waiting for review</SelectItem>
+              <SelectItem value="sent">Sent</SelectItem>
+              <SelectItem value="discarded">Discarded</SelectItem>
+            </SelectContent>
+          </Select>
+          {loading ? (
+            <p className="text-sm text-gray-500">Loading drafts...</p>
+          ) : drafts.length === 0 ? (
+            <p className="text-sm text-gray-500">No drafts.</p>
+          ) : (
+            drafts.map((draft) => (
+              <button
+                key={draft.id}
+                onClick={() => setSelectedId(draft.id)}
+                className={`w-full text-left rounded-md border p-3 space-y-1 ${
+                  draft.id === selectedId ? "border-blue-500 bg-blue-50 dark:bg-blue-950" : "bg-white dark:bg-gray-900"
+                }`}
+              >
+                <p className="font-medium text-sm truncate">{draft.thread_subject || draft.subject}</p>
+                <p className="text-xs text-gray-500 truncate">{draft.to_address}</p>
+                <div className="flex items-center justify-between">
+                  <span className="text-xs text-gray-400">{formatDate(draft.created_at)}</span>
+                  {draft.error && <Badge variant="destructive">Send failed</Badge>}
+                </div>
+              </button>
+            ))
+          )}
+        </div>
+
+        {detail ? (
+          <div className="lg:col-span-3 grid grid-cols-1 md:grid-cols-2 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>{detail.thread?.subject || detail.draft.subject}</CardTitle>
+                <CardDescription>
+                  {detail.emails.length} email{detail.emails.length === 1 ? "" : "s"}, oldest first
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ThreadView detail={detail} />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  Reply to {detail.draft.to_address}
+                  <Badge variant={editable ? "default" : "secondary"}>{detail.draft.status}</Badge>
+                </CardTitle>
+                {detail.draft.error && (
+                  <CardDescription className="text-red-600">Last attempt failed: {detail.draft.error}</CardDescription>
+                )}
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="subject">Subject</Label>
+                  <Input
+                    id="subject"
+                    value={subject}
+                    disabled={!editable}
+                    onChange={(event) => setSubject(event.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="body">Reply</Label>
+                  <Textarea
+                    id="body"
+                    rows={14}
+                    value={body}
+                    disabled={!editable}
+                    onChange={(event) => setBody(event.target.value)}
+                  />
+                </div>
+                {editable && (
+                  <div className="space-y-2">
+                    <Label htmlFor="instructions">Instructions for a new draft</Label>
+                    <Textarea
+                      id="instructions"
+                      rows={2}
+                      placeholder="e.g. Shorter, and offer a call on Monday"
+                      value={instructions}
+                      onChange={(event) => setInstructions(event.target.value)}
+                    />
+                  </div>
+                )}
+              </CardContent>
+              {editable && (
+                <CardFooter className="flex flex-wrap gap-2">
+                  <Button disabled={busy || !body.trim()} onClick={() => review("approve")} className="flex items-center gap-1">
+                    <Send className="h-4 w-4" /> Approve and send
+                  </Button>
+                  <Button variant="outline" disabled={busy} onClick={() => review("save")} className="flex items-center gap-1">
+                    <Save className="h-4 w-4" /> Save
+                  </Button>
+                  <Button variant="outline" disabled={busy} onClick={() => review("regenerate")} className="flex items-center gap-1">
+                    <RefreshCw className="h-4 w-4" /> Regenerate
+                  </Button>
+                  <Button variant="ghost" disabled={busy} onClick={() => review("discard")} className="flex items-center gap-1">
+                    <Trash2 className="h-4 w-4" /> Discard
+                  </Button>
+                </CardFooter>
+              )}
+            </Card>
+          </div>
+        ) : (
+          <p className="lg:col-span-3 text-sm text-gray-500">Select a draft to review it next to its thread.</p>
+        )}
+      </div>
+    </div>
+  );
+}
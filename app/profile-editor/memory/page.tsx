@@ -6,15 +6,301 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
-import { Brain, Save, Trash2 } from "lucide-react";
+import { Brain, Check, History, Inbox, RotateCcw, Save, Trash2, X } from "lucide-react";
 import { Textarea } from "@/components/ui/textarea";
-import { AgentMemorySettingsData, CustomMemoryField } from "@/lib/agent-memory/types";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AgentMemorySettingsData, CustomMemoryField, MemoryAutoApproveRule } from "@/lib/agent-memory/types";
+import type { MemoryHistoryRecord, MemoryReviewRecord } from "@/lib/interfaces/database-adapter";
 import { loadAgentMemorySettings, saveAgentMemorySettings } from "@/lib/storage/file-storage";
 import { toast } from "sonner";
 
 // Define a type for the memory scope
 type MemoryScope = 'user' | 'chat';
 
+interface MemoryOwnerOption {
+  id: string;
+  name: string;
+  type?: string;
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  memory_processor: 'Extracted from message',
+  memory_review: 'Approved in review',
+  revert: 'Reverted',
+  manual: 'Manual edit',
+};
+
+function formatMemoryValue(value: string | null) {
+  return value === null ? <span className="italic text-gray-400">(empty)</span> : value;
+}
+
+// Timeline of changes to one user's or chat's memory, with revert
+function MemoryTimeline({ fieldTitles }: { fieldTitles: Record<string, string> }) {
+  const [scope, setScope] = useState<MemoryScope>('user');
+  const [owners, setOwners] = useState<{ users: MemoryOwnerOption[]; chats: MemoryOwnerOption[] }>({ users: [], chats: [] });
+  const [ownerId, setOwnerId] = useState<string>('');
+  const [memory, setMemory] = useState<Record<string, string>>({});
+  const [history, setHistory] = useState<MemoryHistoryRecord[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    fetch('/api/agent-memory/history')
+      .then((response) => (response.ok ? response.json() : Promise.reject(response.statusText)))
+      .then((data) => setOwners({ users: data.users || [], chats: data.chats || [] }))
+      .catch((error) => console.error("Error loading memory owners:", error));
+  }, []);
+
+  const loadHistory = async (selectedScope: MemoryScope, selectedOwnerId: string) => {
+    if (!selectedOwnerId) return;
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/agent-memory/history?scope=${selectedScope}&ownerId=${encodeURIComponent(selectedOwnerId)}`);
+      if (!response.ok) throw new Error(response.statusText);
+      const data = await response.json();
+      setMemory(data.memory || {});
+      setHistory(data.history || []);
+    } catch (error) {
+      console.error("Error loading memory history:", error);
+      toast.error("Failed to load memory history");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const revert = async (entry: MemoryHistoryRecord) => {
+    try {
+      const response = await fetch('/api/agent-memory/history', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ historyId: entry.id }),
+      });
+      if (!response.ok) throw new Error(response.statusText);
+      toast.success(`Reverted "${fieldTitles[entry.field_id] || entry.field_id}"`);
+      await loadHistory(scope, ownerId);
+    } catch (error) {
+      console.error("Error reverting memory field:", error);
+      toast.error("Failed to revert memory field");
+    }
+  };
+
+  const options = scope === 'user' ? owners.users : owners.chats;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Memory History
+        </CardTitle>
+        <CardDescription>
+          Every change to a memory field, where it came from, and the option to go back to an earlier version.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-4">
+          <Select
+            value={scope}
+            onValueChange={(value) => {
+              setScope(value as MemoryScope);
+              setOwnerId('');
+              setHistory([]);
+              setMemory({});
+            }}
+          >
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="user">User memory</SelectItem>
+              <SelectItem value="chat">Chat memory</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select
+            value={ownerId}
+            onValueChange={(value) => {
+              setOwnerId(value);
+              loadHistory(scope, value);
+            }}
+          >
+            <SelectTrigger className="w-72">
+              <SelectValue placeholder={scope === 'user' ? "Select a user" : "Select a chat"} />
+            </SelectTrigger>
+            <SelectContent>
+              {options.map((option) => (
+                <SelectItem key={option.id} value={option.id}>
+                  {option.name}{option.type ? ` (${option.type})` : ''}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {ownerId && !loading && (
+          <>
+            {Object.keys(memory).length > 0 && (
+              <div className="p-4 border rounded-md bg-gray-50 dark:bg-gray-800 space-y-1">
+                <h4 className="text-sm font-medium">Current memory</h4>
+                {Object.entries(memory).map(([fieldId, value]) => (
+                  <p key={fieldId} className="text-sm">
+                    <span className="font-medium">{fieldTitles[fieldId] || fieldId}:</span> {value}
+                  </p>
+                ))}
+              </div>
+            )}
+
+            {history.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No memory changes recorded yet.</p>
+            ) : (
+              <ol className="space-y-3 border-l pl-4">
+                {history.map((entry) => (
+                  <li key={entry.id} className="space-y-1">
+                    <div className="flex items-start justify-between gap-4">
+                      <div>
+                        <p className="text-sm font-medium">{fieldTitles[entry.field_id] || entry.field_id}</p>
+                        <p className="text-sm">
+                          {formatMemoryValue(entry.previous_value)} → {formatMemoryValue(entry.new_value)}
+                        </p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          {new Date(entry.created_at).toLocaleString()} · {SOURCE_LABELS[entry.source] || entry.source}
+                          {entry.model && ` · ${entry.model}`}
+                          {entry.source_message_id && ` · message ${entry.source_message_id}`}
+                        </p>
+                      </div>
+                      <Button variant="outline" size="sm" onClick={() => revert(entry)}>
+                        <RotateCcw className="h-4 w-4 mr-2" />
+                        Revert to this version
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </>
+        )}
+        {loading && <p className="text-sm text-gray-500">Loading memory history...</p>}
+      </CardContent>
+    </Card>
+  );
+}
+
+type MemoryReview = MemoryReviewRecord & { owner_name: string };
+
+// Pending memory updates waiting for approval, with approve, edit and reject
+function MemoryReviewQueue({ fieldTitles }: { fieldTitles: Record<string, string> }) {
+  const [reviews, setReviews] = useState<MemoryReview[]>([]);
+  const [editedValues, setEditedValues] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+
+  const loadReviews = async () => {
+    try {
+      const response = await fetch('/api/agent-memory/reviews?status=pending');
+      if (!response.ok) throw new Error(response.statusText);
+      const data = await response.json();
+      setReviews(data.reviews || []);
+    } catch (error) {
+      console.error("Error loading memory reviews:", error);
+      toast.error("Failed to load pending memory updates");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadReviews();
+  }, []);
+
+  const review = async (item: MemoryReview, action: 'approve' | 'reject') => {
+    const edited = editedValues[item.id];
+    try {
+      const response = await fetch('/api/agent-memory/reviews', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          reviewId: item.id,
+          action,
+          ...(action === 'approve' && edited !== undefined ? { value: edited } : {}),
+        }),
+      });
+      if (!response.ok) throw new Error(response.statusText);
+      toast.success(action === 'approve' ? "Memory update approved" : "Memory update rejected");
+      setReviews((current) => current.filter((r) => r.id !== item.id));
+    } catch (error) {
+      console.error("Error reviewing memory update:", error);
+      toast.error("Failed to review memory update");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Inbox className="h-5 w-5" />
+          Memory Review Queue
+        </CardTitle>
+        <CardDescription>
+          Memory updates suggested by the agent that wait for approval. Edit the proposed value before approving to save your version instead.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading && <p className="text-sm text-gray-500">Loading pending updates...</p>}
+        {!loading && reviews.length === 0 && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No memory updates waiting for review.</p>
+        )}
+        {reviews.map((item) => (
+          <div key={item.id} className="p-4 border rounded-md space-y-3 bg-gray-50 dark:bg-gray-800">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <p className="text-sm font-medium">
+                  {fieldTitles[item.field_id] || item.field_id}
+                  <span className="font-normal text-gray-500 dark:text-gray-400">
+                    {' '}· {item.scope === 'user' ? 'User' : 'Chat'}: {item.owner_name}
+                  </span>
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {new Date(item.created_at).toLocaleString()}
+                  {item.model && ` · ${item.model}`}
+                  {item.source_message_id && ` · message ${item.source_message_id}`}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <Button size="sm" onClick={() => review(item, 'approve')}>
+                  <Check className="h-4 w-4 mr-2" />
+                  Approve
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => review(item, 'reject')} className="text-red-500 hover:text-red-700">
+                  <X className="h-4 w-4 mr-2" />
+                  Reject
+                </Button>
+              </div>
+            </div>
+            {item.source_message && (
+              <blockquote className="text-sm italic border-l-2 pl-3 text-gray-600 dark:text-gray-300">
+                &ldquo;{item.source_message}&rdquo;
+              </blockquote>
+            )}
+            <div className="grid gap-3 md:grid-cols-2">
+              <div>
+                <Label>Current value</Label>
+                <p className="text-sm mt-1">{formatMemoryValue(item.current_value)}</p>
+              </div>
+              <div>
+                <Label htmlFor={`review-value-${item.id}`}>Proposed value</Label>
+                <Textarea
+                  id={`review-value-${item.id}`}
+                  value={editedValues[item.id] ?? item.proposed_value}
+                  onChange={(e) => setEditedValues({ ...editedValues, [item.id]: e.target.value })}
+                  rows={2}
+                  className="w-full"
+                />
+              </div>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
 export default function AgentMemoryPage() {
   // State for agent memory settings
   const [memorySettings, setMemorySettings] = useState<AgentMemorySettingsData | null>(null);
@@ -126,6 +412,22 @@ export default function AgentMemoryPage() {
     setHasChanges(true);
   };
 
+  const handleAutoApproveChange = (scope: MemoryScope, index: number, value: string) => {
+    if (!memorySettings) return;
+    const fieldsToUpdate = scope === 'user' ? memorySettings.userMemoryFields : memorySettings.chatThreadMemoryFields;
+    const updatedFields = [...fieldsToUpdate];
+    updatedFields[index] = {
+      ...updatedFields[index],
+      autoApprove: value === 'never' ? undefined : (value as MemoryAutoApproveRule),
+    };
+    if (scope === 'user') {
+      setMemorySettings({ ...memorySettings, userMemoryFields: updatedFields });
+    } else {
+      setMemorySettings({ ...memorySettings, chatThreadMemoryFields: updatedFields });
+    }
+    setHasChanges(true);
+  };
+
   const removeField = (scope: MemoryScope, index: number) => {
     if (!memorySettings) return;
     if (scope === 'user') {
@@ -216,6 +518,24 @@ export default function AgentMemoryPage() {
                     rows={3}
                   />
                 </div>
+                {memorySettings.memoryApprovalRequired && (
+                  <div>
+                    <Label htmlFor={`${scope}-field-auto-approve-${index}`}>Auto-approve updates</Label>
+                    <Select
+                      value={field.autoApprove || 'never'}
+                      onValueChange={(value) => handleAutoApproveChange(scope, index, value)}
+                    >
+                      <SelectTrigger id={`${scope}-field-auto-approve-${index}`} className="w-64">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="never">Never (always review)</SelectItem>
+                        <SelectItem value="when_empty">Only the first value</SelectItem>
+                        <SelectItem value="always">Always</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
               </div>
             ))}
             <Button onClick={() => addField(scope)} variant="outline">
@@ -232,8 +552,12 @@ export default function AgentMemoryPage() {
     );
   };
 
+  const fieldTitles = Object.fromEntries(
+    [...(memorySettings?.userMemoryFields || []), ...(memorySettings?.chatThreadMemoryFields || [])].map((field) => [field.id, field.title])
+  );
+
   return (
-    <div>
+    <div className="space-y-6">
       <Card>
         <CardHeader>
           <CardTitle>{memorySettings?.title || "Agent Memory"}</CardTitle>
@@ -246,7 +570,62 @@ export default function AgentMemoryPage() {
             <>
               {renderMemorySection('user')}
               {renderMemorySection('chat')}
+
+              <div className="space-y-4 pt-6">
+                <div className="flex items-center justify-between pb-2 border-b">
+                  <div>
+                    <h3 className="text-xl font-semibold">Long-term Memory</h3>
+                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                      Remembers past messages and memory updates, and recalls the most relevant ones when replying.
+                    </p>
+                  </div>
+                  <Switch
+                    id="semantic-memory-enabled"
+                    checked={memorySettings.semanticMemoryEnabled !== false}
+                    onCheckedChange={(checked) => {
+                      setMemorySettings({ ...memorySettings, semanticMemoryEnabled: checked });
+                      setHasChanges(true);
+                    }}
+                  />
+                </div>
+                {memorySettings.semanticMemoryEnabled !== false && (
+                  <div>
+                    <Label htmlFor="semantic-memory-top-k">Memories recalled per reply</Label>
+                    <Input
+                      id="semantic-memory-top-k"
+                      type="number"
+                      min={1}
+                      max={20}
+                      value={memorySettings.semanticMemoryTopK ?? 5}
+                      onChange={(e) => {
+                        setMemorySettings({ ...memorySettings, semanticMemoryTopK: Number(e.target.value) || 1 });
+                        setHasChanges(true);
+                      }}
+                      className="w-32"
+                    />
+                  </div>
+                )}
+              </div>
               
+              <div className="space-y-4 pt-6">
+                <div className="flex items-center justify-between pb-2 border-b">
+                  <div>
+                    <h3 className="text-xl font-semibold">Require Approval</h3>
+                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                      Queue memory updates suggested by the agent for review instead of saving them. Fields can be set to auto-approve.
+                    </p>
+                  </div>
+                  <Switch
+                    id="memory-approval-required"
+                    checked={memorySettings.memoryApprovalRequired === true}
+                    onCheckedChange={(checked) => {
+                      setMemorySettings({ ...memorySettings, memoryApprovalRequired: checked });
+                      setHasChanges(true);
+                    }}
+                  />
+                </div>
+              </div>
+
               {/* General Note Section - can be kept if still relevant */}
               {memorySettings.memoryTypeNote && (
                  <div className="mt-8 pt-6 p-4 bg-blue-50 dark:bg-blue-950 rounded-md border border-blue-200 dark:border-blue-800">
@@ -275,6 +654,10 @@ export default function AgentMemoryPage() {
           </Button>
         </CardFooter>
       </Card>
+
+      <MemoryReviewQueue fieldTitles={fieldTitles} />
+
+      <MemoryTimeline fieldTitles={fieldTitles} />
     </div>
   );
 }
@@ -6,17 +6,59 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Plus, X } from 'lucide-react';
 import { toast } from 'sonner';
 
+type ModerationAction = 'allow' | 'warn' | 'rewrite' | 'block' | 'escalate';
+
+// The "moderation" section of safety-settings.json, see lib/safety-config/moderation.ts
+type ModerationSettings = {
+  enabled?: boolean;
+  inbound?: boolean;
+  outbound?: boolean;
+  actions?: Record<string, ModerationAction | { inbound?: ModerationAction; outbound?: ModerationAction }>;
+  profanity?: { words?: string[]; patterns?: string[] };
+  classifier?: { enabled?: boolean; minConfidence?: number };
+  blockedReply?: string;
+  escalatedReply?: string;
+  escalationWebhookUrl?: string;
+};
+
 type SafetySettings = {
   enabled: boolean;
   guidelines: string[];
   jailbreakWarning: string;
   identityStatements: string[];
+  moderation?: ModerationSettings;
+};
+
+type ModerationLogEntry = {
+  id: string;
+  created_at: string;
+  direction: 'inbound' | 'outbound';
+  service: string | null;
+  thread_id: string | null;
+  action: ModerationAction;
+  categories: string[];
 };
 
+const MODERATION_ACTIONS: ModerationAction[] = ['allow', 'warn', 'rewrite', 'block', 'escalate'];
+
+const MODERATION_CATEGORIES: { id: string; title: string }[] = [
+  { id: 'profanity', title: 'Profanity' },
+  { id: 'personalData', title: 'Personal data' },
+  { id: 'slang', title: 'Slang' },
+  { id: 'selfHarm', title: 'Self-harm' },
+  { id: 'suicide', title: 'Suicide' },
+  { id: 'hateSpeech', title: 'Hate speech' },
+  { id: 'harassment', title: 'Harassment' },
+  { id: 'violence', title: 'Violence' },
+  { id: 'sexuality', title: 'Sexual content' },
+];
+
 export default function SafetySettingsPage() {
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -97,6 +139,24 @@ export default function SafetySettingsPage() {
     setSettings({ ...settings, identityStatements: newIdentityStatements });
   };
 
+  const moderation = settings.moderation || {};
+
+  const updateModeration = (changes: Partial<ModerationSettings>) => {
+    setSettings({ ...settings, moderation: { ...settings.moderation, ...changes } });
+  };
+
+  const getCategoryAction = (category: string, direction: 'inbound' | 'outbound') => {
+    const configured = moderation.actions?.[category];
+    return (typeof configured === 'string' ? configured : configured?.[direction]) || 'default';
+  };
+
+  const setCategoryAction = (category: string, direction: 'inbound' | 'outbound', value: string) => {
+    const configured = moderation.actions?.[category];
+    const current = typeof configured === 'string' ? { inbound: configured, outbound: configured } : { ...configured };
+    current[direction] = value === 'default' ? undefined : (value as ModerationAction);
+    updateModeration({ actions: { ...moderation.actions, [category]: current } });
+  };
+
   const handleSave = async () => {
     setSaving(true);
     try {
@@ -161,6 +221,7 @@ export default function SafetySettingsPage() {
               <TabsTrigger value="guidelines">Guidelines</TabsTrigger>
               <TabsTrigger value="jailbreak">Jailbreak Warning</TabsTrigger>
               <TabsTrigger value="identity">Identity Statements</TabsTrigger>
+              <TabsTrigger value="moderation">Moderation</TabsTrigger>
             </TabsList>
             
             <TabsContent value="guidelines">
@@ -224,6 +285,143 @@ export default function SafetySettingsPage() {
                 </Button>
               </div>
             </TabsContent>
+
+            <TabsContent value="moderation">
+              <div className="space-y-6">
+                {[
+                  { key: 'enabled' as const, label: 'Enable Moderation', description: 'Check messages against the safety settings before they are answered or sent' },
+                  { key: 'inbound' as const, label: 'Moderate Incoming Messages', description: 'Check messages from users on every channel' },
+                  { key: 'outbound' as const, label: 'Moderate Agent Replies', description: 'Check replies before they are sent. Web chat replies are checked sentence by sentence as they stream.' },
+                ].map(({ key, label, description }) => (
+                  <div key={key} className="flex items-center justify-between">
+                    <div className="space-y-0.5">
+                      <Label htmlFor={`moderation-${key}`}>{label}</Label>
+                      <div className="text-sm text-gray-500 dark:text-gray-400">{description}</div>
+                    </div>
+                    <Switch
+                      id={`moderation-${key}`}
+                      checked={moderation[key] ?? true}
+                      onCheckedChange={(checked) => updateModeration({ [key]: checked })}
+                    />
+                  </div>
+                ))}
+
+                <div className="space-y-2">
+                  <Label>Actions</Label>
+                  <div className="text-sm text-gray-500 dark:text-gray-400">
+                    What happens when a category is found. Default follows the safety settings.
+                  </div>
+                  <div className="grid grid-cols-3 gap-2 items-center text-sm">
+                    <div />
+                    <div className="font-medium">Incoming</div>
+                    <div className="font-medium">Agent replies</div>
+                    {MODERATION_CATEGORIES.map((category) => (
+                      <div key={category.id} className="contents">
+                        <div>{category.title}</div>
+                        {(['inbound', 'outbound'] as const).map((direction) => (
+                          <Select
+                            key={direction}
+                            value={getCategoryAction(category.id, direction)}
+                            onValueChange={(value) => setCategoryAction(category.id, direction, value)}
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="default">Default</SelectItem>
+                              {MODERATION_ACTIONS.map((action) => (
+                                <SelectItem key={action} value={action}>
+                                  {action.charAt(0).toUpperCase() + action.slice(1)}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="moderation-words">Extra Profanity Words</Label>
+                  <div className="text-sm text-gray-500 dark:text-gray-400">
+                    One per line, flagged on top of the built-in list
+                  </div>
+                  <Textarea
+                    id="moderation-words"
+                    value={(moderation.profanity?.words || []).join('\n')}
+                    onChange={(e) =>
+                      updateModeration({
+                        profanity: { ...moderation.profanity, words: e.target.value.split('\n').map((w) => w.trim()).filter(Boolean) },
+                      })
+                    }
+                  />
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label htmlFor="moderation-classifier">AI Category Classifier</Label>
+                    <div className="text-sm text-gray-500 dark:text-gray-400">
+                      Classify messages into the disallowed content categories with the moderation model (one model call per message)
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="number"
+                      min={0}
+                      max={1}
+                      step={0.05}
+                      className="w-24"
+                      aria-label="Minimum confidence"
+                      value={moderation.classifier?.minConfidence ?? 0.7}
+                      onChange={(e) =>
+                        updateModeration({ classifier: { ...moderation.classifier, minConfidence: Number(e.target.value) } })
+                      }
+                    />
+                    <Switch
+                      id="moderation-classifier"
+                      checked={moderation.classifier?.enabled ?? false}
+                      onCheckedChange={(checked) => updateModeration({ classifier: { ...moderation.classifier, enabled: checked } })}
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="moderation-blocked-reply">Blocked Reply</Label>
+                  <Textarea
+                    id="moderation-blocked-reply"
+                    placeholder="Sorry, I can't help with that."
+                    value={moderation.blockedReply || ''}
+                    onChange={(e) => updateModeration({ blockedReply: e.target.value || undefined })}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="moderation-escalated-reply">Escalated Reply</Label>
+                  <Textarea
+                    id="moderation-escalated-reply"
+                    placeholder="Thanks for reaching out. I've passed your message on to a member of our team, who will get back to you."
+                    value={moderation.escalatedReply || ''}
+                    onChange={(e) => updateModeration({ escalatedReply: e.target.value || undefined })}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="moderation-webhook">Escalation Webhook URL</Label>
+                  <div className="text-sm text-gray-500 dark:text-gray-400">
+                    Escalated messages are POSTed here as JSON
+                  </div>
+                  <Input
+                    id="moderation-webhook"
+                    placeholder="https://"
+                    value={moderation.escalationWebhookUrl || ''}
+                    onChange={(e) => updateModeration({ escalationWebhookUrl: e.target.value || undefined })}
+                  />
+                </div>
+
+                <ModerationLog />
+              </div>
+            </TabsContent>
           </Tabs>
         </CardContent>
         <CardFooter className="flex justify-between">
@@ -235,3 +433,52 @@ export default function SafetySettingsPage() {
     </div>
   );
 }
+
+function ModerationLog() {
+  const [entries, setEntries] = useState<ModerationLogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadEntries = async () => {
+      try {
+        const response = await fetch('/api/safety-settings/moderation-log?days=7');
+        if (!response.ok) throw new Error(response.statusText);
+        const data = await response.json();
+        setEntries(data.entries || []);
+      } catch (error) {
+        console.error('Error loading moderation log:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadEntries();
+  }, []);
+
+  return (
+    <div className="space-y-2">
+      <Label>Recent Moderation Log</Label>
+      <div className="text-sm text-gray-500 dark:text-gray-400">Messages flagged in the last 7 days</div>
+      {loading && <p className="text-sm text-gray-500">Loading...</p>}
+      {!loading && entries.length === 0 && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No flagged messages.</p>
+      )}
+      {entries.length > 0 && (
+        <div className="divide-y rounded-md border text-sm">
+          {entries.map((entry) => (
+            <div key={entry.id} className="flex flex-wrap items-center justify-between gap-2 p-2">
+              <span>
+                <span className="font-medium capitalize">{entry.action}</span>{' '}
+                {entry.direction === 'inbound' ? 'incoming' : 'reply'} on {entry.service || 'unknown'}:{' '}
+                {entry.categories.join(', ')}
+              </span>
+              <span className="text-gray-500 dark:text-gray-400">
+                {entry.thread_id ? `${entry.thread_id} · ` : ''}
+                {new Date(entry.created_at).toLocaleString()}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,326 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { format } from "date-fns";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, CheckCircle2, Circle, History, ListTodo, Plus, Save } from "lucide-react";
+import { toast } from "sonner";
+import type { ProjectDetail } from "@/lib/services/project-dashboard";
+
+type DashboardTask = ProjectDetail["tasks"][number];
+
+// Radix selects can't have an empty value
+const UNASSIGNED = "unassigned";
+
+// datetime-local inputs work in local time without a time zone
+function toInputDate(iso: string | null) {
+  return iso ? format(new Date(iso), "yyyy-MM-dd'T'HH:mm") : "";
+}
+
+function fromInputDate(value: string) {
+  return value ? new Date(value).toISOString() : null;
+}
+
+function isOverdue(task: DashboardTask) {
+  return task.status === "open" && !!task.due_at && new Date(task.due_at) < new Date();
+}
+
+export default function ProjectDetailPage() {
+  const { projectId } = useParams<{ projectId: string }>();
+  const [detail, setDetail] = useState<ProjectDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [notify, setNotify] = useState(true);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [attributes, setAttributes] = useState("{}");
+  const [newTask, setNewTask] = useState({ title: "", assignee_id: UNASSIGNED, due_at: "" });
+
+  const loadProject = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}`);
+      if (response.status === 404) {
+        setDetail(null);
+        return;
+      }
+      if (!response.ok) throw new Error(response.statusText);
+      const data: ProjectDetail = await response.json();
+      setDetail(data);
+      setName(data.project.name);
+      setDescription(data.project.description || "");
+      setAttributes(JSON.stringify(data.project.attributes || {}, null, 2));
+    } catch (error) {
+      console.error("Error loading project:", error);
+      toast.error("Failed to load project");
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    loadProject();
+  }, [loadProject]);
+
+  // Send a change to the API, then show what changed and reload
+  const send = async (path: string, method: string, body: Record<string, unknown>) => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}${path}`, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...body, notify }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || response.statusText);
+      if (data.changes?.length > 0) {
+        toast.success(`Saved: ${data.changes.join(", ")}${data.notified ? " (chat notified)" : ""}`);
+      } else {
+        toast.info("Nothing changed");
+      }
+      await loadProject();
+      return true;
+    } catch (error) {
+      console.error("Error saving project:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save");
+      return false;
+    }
+  };
+
+  const saveDetails = () => {
+    let parsed: Record<string, unknown>;
+    try {
+      parsed = JSON.parse(attributes || "{}");
+      if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) throw new Error();
+    } catch {
+      toast.error("Attributes must be a JSON object");
+      return;
+    }
+    send("", "PATCH", { name, description, attributes: parsed });
+  };
+
+  const addTask = async () => {
+    const added = await send("/tasks", "POST", {
+      title: newTask.title,
+      assignee_id: newTask.assignee_id === UNASSIGNED ? null : newTask.assignee_id,
+      due_at: fromInputDate(newTask.due_at),
+    });
+    if (added) setNewTask({ title: "", assignee_id: UNASSIGNED, due_at: "" });
+  };
+
+  const updateTask = (task: DashboardTask, changes: Record<string, unknown>) =>
+    send("/tasks", "PATCH", { taskId: task.id, ...changes });
+
+  if (loading) {
+    return <div className="container mx-auto py-8 px-4 text-sm text-gray-500">Loading project...</div>;
+  }
+
+  if (!detail) {
+    return (
+      <div className="container mx-auto py-8 px-4 space-y-4">
+        <p>Project not found.</p>
+        <Link href="/projects" className="text-blue-600 hover:underline">Back to projects</Link>
+      </div>
+    );
+  }
+
+  const { project, tasks, timeline } = detail;
+
+  return (
+    <div className="container mx-auto py-8 px-4 space-y-6">
+      <Link href="/projects" className="inline-flex items-center gap-1 text-sm text-gray-500 hover:text-gray-800">
+        <ArrowLeft className="h-4 w-4" /> All projects
+      </Link>
+
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div className="space-y-1">
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            {project.name}
+            <Badge variant={project.is_live ? "default" : "secondary"}>{project.is_live ? "Live" : "Completed"}</Badge>
+          </h1>
+          <p className="text-sm text-gray-500">
+            {project.chat ? `${project.chat.name} · ${project.chat.type}` : "No chat"}
+            {project.members.length > 0 && ` · ${project.members.map((member) => member.name).join(", ")}`}
+            {` · created ${new Date(project.created_at).toLocaleDateString()}`}
+          </p>
+        </div>
+        <div className="flex items-center gap-4">
+          <div className="flex items-center gap-2">
+            <Switch id="notify" checked={notify} onCheckedChange={setNotify} disabled={!project.chat} />
+            <Label htmlFor="notify">Post changes to the chat</Label>
+          </div>
+          <Button variant="outline" onClick={() => send("", "PATCH", { is_live: !project.is_live })}>
+            {project.is_live ? "Mark as completed" : "Reopen"}
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Details</CardTitle>
+            <CardDescription>Attributes are what the agent has recorded about the project in chat.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="name">Name</Label>
+              <Input id="name" value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="description">Description</Label>
+              <Textarea id="description" value={description} onChange={(e) => setDescription(e.target.value)} rows={3} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="attributes">Attributes (JSON)</Label>
+              <Textarea
+                id="attributes"
+                value={attributes}
+                onChange={(e) => setAttributes(e.target.value)}
+                rows={8}
+                className="font-mono text-xs"
+              />
+            </div>
+          </CardContent>
+          <CardFooter>
+            <Button onClick={saveDetails}>
+              <Save className="h-4 w-4 mr-2" />
+              Save details
+            </Button>
+          </CardFooter>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ListTodo className="h-5 w-5" />
+              Tasks
+            </CardTitle>
+            <CardDescription>
+              {project.tasks.done} of {project.tasks.total} done
+              {project.tasks.overdue > 0 && `, ${project.tasks.overdue} overdue`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {tasks.length === 0 && <p className="text-sm text-gray-500">No tasks yet.</p>}
+            <ul className="space-y-3">
+              {tasks.map((task) => (
+                <li key={task.id} className="flex flex-wrap items-center gap-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    title={task.status === "done" ? "Reopen" : "Mark as done"}
+                    onClick={() => updateTask(task, { status: task.status === "done" ? "open" : "done" })}
+                  >
+                    {task.status === "done" ? (
+                      <CheckCircle2 className="h-4 w-4 text-green-600" />
+                    ) : (
+                      <Circle className="h-4 w-4" />
+                    )}
+                  </Button>
+                  <span className={`flex-1 text-sm ${task.status === "done" ? "line-through text-gray-400" : ""}`}>
+                    {task.title}
+                    {isOverdue(task) && <Badge variant="destructive" className="ml-2">Overdue</Badge>}
+                  </span>
+                  <Select
+                    value={task.assignee_id || UNASSIGNED}
+                    onValueChange={(value) => updateTask(task, { assignee_id: value === UNASSIGNED ? null : value })}
+                  >
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                      {task.assignee_id && !project.members.some((member) => member.id === task.assignee_id) && (
+                        <SelectItem value={task.assignee_id}>{task.assignee_name || "Former member"}</SelectItem>
+                      )}
+                      {project.members.map((member) => (
+                        <SelectItem key={member.id} value={member.id}>{member.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    key={task.due_at || "none"}
+                    type="datetime-local"
+                    className="w-52"
+                    defaultValue={toInputDate(task.due_at)}
+                    onBlur={(e) => {
+                      if (e.target.value !== toInputDate(task.due_at)) {
+                        updateTask(task, { due_at: fromInputDate(e.target.value) });
+                      }
+                    }}
+                  />
+                </li>
+              ))}
+            </ul>
+
+            <div className="flex flex-wrap items-center gap-2 border-t pt-4">
+              <Input
+                placeholder="New task"
+                className="flex-1 min-w-40"
+                value={newTask.title}
+                onChange={(e) => setNewTask({ ...newTask, title: e.target.value })}
+              />
+              <Select value={newTask.assignee_id} onValueChange={(value) => setNewTask({ ...newTask, assignee_id: value })}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                  {project.members.map((member) => (
+                    <SelectItem key={member.id} value={member.id}>{member.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="datetime-local"
+                className="w-52"
+                value={newTask.due_at}
+                onChange={(e) => setNewTask({ ...newTask, due_at: e.target.value })}
+              />
+              <Button onClick={addTask} disabled={!newTask.title.trim()}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Timeline
+          </CardTitle>
+          <CardDescription>Project history and events, newest first.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {timeline.length === 0 ? (
+            <p className="text-sm text-gray-500">Nothing recorded yet.</p>
+          ) : (
+            <ol className="space-y-3 border-l pl-4">
+              {timeline.map((entry) => (
+                <li key={`${entry.source}-${entry.id}`} className="space-y-1">
+                  <p className="text-sm">
+                    <span className="font-medium">{entry.type.replace(/_/g, " ")}</span>
+                    {entry.description && <span className="text-gray-600 dark:text-gray-300"> · {entry.description}</span>}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {new Date(entry.created_at).toLocaleString()}
+                    {entry.metadata?.source === "dashboard" && " · from the dashboard"}
+                  </p>
+                </li>
+              ))}
+            </ol>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
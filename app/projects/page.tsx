@@ -0,0 +1,259 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { CheckCircle2, FolderKanban, List, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import type {
+  ProjectChatSummary,
+  ProjectPerson,
+  ProjectStatusFilter,
+  ProjectSummary,
+} from "@/lib/services/project-dashboard";
+
+// Radix selects can't have an empty value
+const ANY = "any";
+
+function TaskProgress({ project }: { project: ProjectSummary }) {
+  const { total, done, overdue } = project.tasks;
+  if (total === 0) return <span className="text-xs text-gray-400">No tasks</span>;
+  return (
+    <span className="text-xs text-gray-600 dark:text-gray-300">
+      {done}/{total} tasks done
+      {overdue > 0 && <span className="ml-1 text-red-600">· {overdue} overdue</span>}
+    </span>
+  );
+}
+
+function ChatLabel({ project }: { project: ProjectSummary }) {
+  if (!project.chat) return <span className="text-gray-400">No chat</span>;
+  return (
+    <span>
+      {project.chat.name}
+      <span className="text-gray-400"> · {project.chat.type}{project.chat.service ? `, ${project.chat.service}` : ""}</span>
+    </span>
+  );
+}
+
+function ProjectCard({ project, onToggle }: { project: ProjectSummary; onToggle: (project: ProjectSummary) => void }) {
+  return (
+    <div className="rounded-md border bg-white dark:bg-gray-900 p-3 space-y-2 shadow-sm">
+      <div className="flex items-start justify-between gap-2">
+        <Link href={`/projects/${project.id}`} className="font-medium hover:underline">
+          {project.name}
+        </Link>
+        <Button
+          variant="ghost"
+          size="sm"
+          title={project.is_live ? "Mark as completed" : "Reopen"}
+          onClick={() => onToggle(project)}
+        >
+          {project.is_live ? <CheckCircle2 className="h-4 w-4" /> : <RotateCcw className="h-4 w-4" />}
+        </Button>
+      </div>
+      {project.description && (
+        <p className="text-sm text-gray-600 dark:text-gray-300 line-clamp-2">{project.description}</p>
+      )}
+      <p className="text-xs text-gray-500"><ChatLabel project={project} /></p>
+      <TaskProgress project={project} />
+    </div>
+  );
+}
+
+export default function ProjectsPage() {
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [chats, setChats] = useState<ProjectChatSummary[]>([]);
+  const [owners, setOwners] = useState<ProjectPerson[]>([]);
+  const [status, setStatus] = useState<ProjectStatusFilter>("all");
+  const [chatId, setChatId] = useState<string>(ANY);
+  const [ownerId, setOwnerId] = useState<string>(ANY);
+  const [loading, setLoading] = useState(true);
+
+  const loadProjects = useCallback(async () => {
+    const params = new URLSearchParams({ status });
+    if (chatId !== ANY) params.set("chatId", chatId);
+    if (ownerId !== ANY) params.set("ownerId", ownerId);
+    try {
+      const response = await fetch(`/api/projects?${params}`);
+      if (!response.ok) throw new Error(response.statusText);
+      const data = await response.json();
+      setProjects(data.projects || []);
+      setChats(data.chats || []);
+      setOwners(data.owners || []);
+    } catch (error) {
+      console.error("Error loading projects:", error);
+      toast.error("Failed to load projects");
+    } finally {
+      setLoading(false);
+    }
+  }, [status, chatId, ownerId]);
+
+  useEffect(() => {
+    loadProjects();
+  }, [loadProjects]);
+
+  const toggleProject = async (project: ProjectSummary) => {
+    try {
+      const response = await fetch(`/api/projects/${project.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ is_live: !project.is_live }),
+      });
+      if (!response.ok) throw new Error(response.statusText);
+      const data = await response.json();
+      toast.success(
+        `${project.is_live ? "Completed" : "Reopened"} "${project.name}"${data.notified ? " and notified the chat" : ""}`
+      );
+      await loadProjects();
+    } catch (error) {
+      console.error("Error updating project:", error);
+      toast.error("Failed to update project");
+    }
+  };
+
+  const columns = [
+    { title: "Live", projects: projects.filter((project) => project.is_live) },
+    { title: "Completed", projects: projects.filter((project) => !project.is_live) },
+  ];
+
+  return (
+    <div className="container mx-auto py-8 px-4 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold flex items-center gap-2">
+          <FolderKanban className="h-6 w-6" />
+          Projects
+        </h1>
+        <p className="text-gray-500 dark:text-gray-400">
+          Projects from every chat. Changes made here are posted back into the project&apos;s chat.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-4">
+        <Select value={status} onValueChange={(value) => setStatus(value as ProjectStatusFilter)}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All projects</SelectItem>
+            <SelectItem value="live">Live</SelectItem>
+            <SelectItem value="completed">Completed</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={chatId} onValueChange={setChatId}>
+          <SelectTrigger className="w-64">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>All chats</SelectItem>
+            {chats.map((chat) => (
+              <SelectItem key={chat.id} value={chat.id}>
+                {chat.name} ({chat.type})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={ownerId} onValueChange={setOwnerId}>
+          <SelectTrigger className="w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Anyone</SelectItem>
+            {owners.map((owner) => (
+              <SelectItem key={owner.id} value={owner.id}>
+                {owner.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading projects...</p>
+      ) : (
+        <Tabs defaultValue="list">
+          <TabsList>
+            <TabsTrigger value="list" className="flex items-center gap-1">
+              <List className="h-4 w-4" /> List
+            </TabsTrigger>
+            <TabsTrigger value="board" className="flex items-center gap-1">
+              <FolderKanban className="h-4 w-4" /> Board
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="list">
+            <Card>
+              <CardHeader>
+                <CardTitle>{projects.length} project{projects.length === 1 ? "" : "s"}</CardTitle>
+                <CardDescription>Newest first</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {projects.length === 0 ? (
+                  <p className="text-sm text-gray-500">No projects match these filters.</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500 border-b">
+                        <th className="py-2 pr-4 font-medium">Project</th>
+                        <th className="py-2 pr-4 font-medium">Status</th>
+                        <th className="py-2 pr-4 font-medium">Chat</th>
+                        <th className="py-2 pr-4 font-medium">Owner</th>
+                        <th className="py-2 pr-4 font-medium">Tasks</th>
+                        <th className="py-2 pr-4 font-medium">Updated</th>
+                        <th className="py-2" />
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {projects.map((project) => (
+                        <tr key={project.id} className="border-b last:border-0">
+                          <td className="py-2 pr-4">
+                            <Link href={`/projects/${project.id}`} className="font-medium hover:underline">
+                              {project.name}
+                            </Link>
+                          </td>
+                          <td className="py-2 pr-4">
+                            <Badge variant={project.is_live ? "default" : "secondary"}>
+                              {project.is_live ? "Live" : "Completed"}
+                            </Badge>
+                          </td>
+                          <td className="py-2 pr-4"><ChatLabel project={project} /></td>
+                          <td className="py-2 pr-4">{project.owner?.name || <span className="text-gray-400">Group</span>}</td>
+                          <td className="py-2 pr-4"><TaskProgress project={project} /></td>
+                          <td className="py-2 pr-4">{new Date(project.updated_at).toLocaleDateString()}</td>
+                          <td className="py-2 text-right">
+                            <Button variant="outline" size="sm" onClick={() => toggleProject(project)}>
+                              {project.is_live ? "Complete" : "Reopen"}
+                            </Button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="board">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {columns.map((column) => (
+                <div key={column.title} className="rounded-lg bg-gray-50 dark:bg-gray-800 p-4 space-y-3">
+                  <h2 className="font-semibold">
+                    {column.title} <span className="text-gray-400">({column.projects.length})</span>
+                  </h2>
+                  {column.projects.map((project) => (
+                    <ProjectCard key={project.id} project={project} onToggle={toggleProject} />
+                  ))}
+                </div>
+              ))}
+            </div>
+          </TabsContent>
+        </Tabs>
+      )}
+    </div>
+  );
+}
@@ -19,6 +19,7 @@ const SETTINGS_FILES = [
   { name: "agent-memory-settings.json", description: "Agent memory configuration" },
   { name: "base-information.json", description: "Base information settings" },
   { name: "model-settings.json", description: "AI model preferences" },
+  { name: "email-settings.json", description: "Email reply review settings" },
 ]
 
 interface SettingsData {
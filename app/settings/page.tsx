@@ -8,7 +8,7 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { useToast } from "@/components/ui/use-toast"
 import { Separator } from "@/components/ui/separator"
-import { Settings, User, Bell, ArrowLeft, FileJson } from "lucide-react"
+import { Settings, User, Bell, ArrowLeft, FileJson, Coins } from "lucide-react"
 import Link from "next/link"
 import { UserPreferences } from "@/types/chat"
 
@@ -189,12 +189,20 @@ export default function SettingsPage() {
           </Card>
 
           <div className="flex justify-between items-center">
-            <Link href="/settings/import-export">
-              <Button variant="outline" className="flex items-center gap-2">
-                <FileJson className="h-4 w-4" />
-                Import/Export All Settings
-              </Button>
-            </Link>
+            <div className="flex gap-4">
+              <Link href="/settings/import-export">
+                <Button variant="outline" className="flex items-center gap-2">
+                  <FileJson className="h-4 w-4" />
+                  Import/Export All Settings
+                </Button>
+              </Link>
+              <Link href="/settings/usage">
+                <Button variant="outline" className="flex items-center gap-2">
+                  <Coins className="h-4 w-4" />
+                  Usage &amp; Budgets
+                </Button>
+              </Link>
+            </div>
             
             <div className="flex gap-4">
               <Button 
@@ -0,0 +1,422 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { useToast } from "@/components/ui/use-toast"
+import { Separator } from "@/components/ui/separator"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ArrowLeft, BarChart3, Coins, MessagesSquare, Plus, Trash2 } from "lucide-react"
+import Link from "next/link"
+
+interface UsageTotals {
+  calls: number
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+  costUsd: number
+}
+
+interface ChatBudget {
+  limitUsd: number
+  period: "day" | "month"
+  action: "downgrade" | "throttle"
+  downgradeModel: string
+  maxCallsPerHour: number
+}
+
+interface ChatUsage extends UsageTotals {
+  chatId: string
+  budget: { budget: ChatBudget; spentUsd: number; exceeded: boolean } | null
+}
+
+interface UsageReport {
+  totals: UsageTotals
+  daily: (UsageTotals & { date: string })[]
+  byTask: Record<string, UsageTotals>
+  byModel: Record<string, UsageTotals>
+  byChat: ChatUsage[]
+  budgets: { defaultChat?: ChatBudget; chats?: Record<string, ChatBudget> }
+}
+
+const RANGES = ["7", "30", "90"]
+
+const NEW_BUDGET: ChatBudget = {
+  limitUsd: 5,
+  period: "month",
+  action: "downgrade",
+  downgradeModel: "openai:gpt-4.1-mini",
+  maxCallsPerHour: 0,
+}
+
+function formatCost(usd: number) {
+  return usd < 0.01 && usd > 0 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`
+}
+
+function formatTokens(tokens: number) {
+  return tokens.toLocaleString()
+}
+
+function BudgetFields({
+  id,
+  budget,
+  onChange,
+}: {
+  id: string
+  budget: ChatBudget
+  onChange: (budget: ChatBudget) => void
+}) {
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+      <div className="grid gap-1">
+        <Label htmlFor={`${id}-limit`}>Limit (USD)</Label>
+        <Input
+          id={`${id}-limit`}
+          type="number"
+          min="0"
+          step="0.5"
+          value={budget.limitUsd}
+          onChange={(e) => onChange({ ...budget, limitUsd: parseFloat(e.target.value) || 0 })}
+        />
+      </div>
+      <div className="grid gap-1">
+        <Label>Per</Label>
+        <Select value={budget.period} onValueChange={(period) => onChange({ ...budget, period: period as ChatBudget["period"] })}>
+          <SelectTrigger><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="day">Day</SelectItem>
+            <SelectItem value="month">Month</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="grid gap-1">
+        <Label>When exceeded</Label>
+        <Select value={budget.action} onValueChange={(action) => onChange({ ...budget, action: action as ChatBudget["action"] })}>
+          <SelectTrigger><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="downgrade">Use a cheaper model</SelectItem>
+            <SelectItem value="throttle">Throttle</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      {budget.action === "downgrade" ? (
+        <div className="grid gap-1">
+          <Label htmlFor={`${id}-model`}>Cheaper model</Label>
+          <Input
+            id={`${id}-model`}
+            value={budget.downgradeModel}
+            onChange={(e) => onChange({ ...budget, downgradeModel: e.target.value })}
+            placeholder="openai:gpt-4.1-mini"
+          />
+        </div>
+      ) : (
+        <div className="grid gap-1">
+          <Label htmlFor={`${id}-calls`}>Calls per hour</Label>
+          <Input
+            id={`${id}-calls`}
+            type="number"
+            min="0"
+            value={budget.maxCallsPerHour}
+            onChange={(e) => onChange({ ...budget, maxCallsPerHour: parseInt(e.target.value, 10) || 0 })}
+          />
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default function UsageSettingsPage() {
+  const [days, setDays] = useState("30")
+  const [report, setReport] = useState<UsageReport | null>(null)
+  const [defaultBudget, setDefaultBudget] = useState<ChatBudget | null>(null)
+  const [chatBudgets, setChatBudgets] = useState<Record<string, ChatBudget>>({})
+  const [newChatId, setNewChatId] = useState("")
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const { toast } = useToast()
+
+  const loadUsage = useCallback(async (range: string) => {
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/settings/usage?days=${range}`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load usage")
+      }
+      setReport(data)
+      setDefaultBudget(data.budgets?.defaultChat || null)
+      setChatBudgets(data.budgets?.chats || {})
+    } catch (error) {
+      console.error("Error loading usage:", error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load usage",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [toast])
+
+  useEffect(() => {
+    loadUsage(days)
+  }, [days, loadUsage])
+
+  const saveBudgets = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch("/api/settings/model-provider", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          budgets: {
+            ...(defaultBudget ? { defaultChat: defaultBudget } : {}),
+            chats: chatBudgets,
+          },
+        }),
+      })
+      const data = await response.json()
+      if (!data.success) {
+        throw new Error(data.error || "Failed to save budgets")
+      }
+      toast({ title: "Success", description: "Budgets saved successfully" })
+      loadUsage(days)
+    } catch (error) {
+      console.error("Error saving budgets:", error)
+      toast({ title: "Error", description: error instanceof Error ? error.message : "Failed to save budgets", variant: "destructive" })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const addChatBudget = (chatId: string) => {
+    if (!chatId.trim() || chatBudgets[chatId]) return
+    setChatBudgets(prev => ({ ...prev, [chatId.trim()]: { ...(defaultBudget || NEW_BUDGET) } }))
+    setNewChatId("")
+  }
+
+  const removeChatBudget = (chatId: string) => {
+    setChatBudgets(prev => {
+      const next = { ...prev }
+      delete next[chatId]
+      return next
+    })
+  }
+
+  const maxDailyCost = Math.max(...(report?.daily || []).map(d => d.costUsd), 0)
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="border-b">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center gap-4">
+            <Link href="/settings" className="flex items-center gap-2 text-muted-foreground hover:text-foreground transition-colors">
+              <ArrowLeft className="h-4 w-4" />
+              Back to Settings
+            </Link>
+            <Separator orientation="vertical" className="h-6" />
+            <div className="flex items-center gap-2">
+              <Coins className="h-5 w-5" />
+              <h1 className="text-xl font-semibold">Usage &amp; Budgets</h1>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <div className="grid gap-6">
+          <Card>
+            <CardHeader>
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <CardTitle className="flex items-center gap-2">
+                    <BarChart3 className="h-5 w-5" />
+                    Spend
+                  </CardTitle>
+                  <CardDescription>
+                    Tokens and estimated cost of every model call made by the agent
+                  </CardDescription>
+                </div>
+                <Select value={days} onValueChange={setDays}>
+                  <SelectTrigger className="w-36"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {RANGES.map(range => (
+                      <SelectItem key={range} value={range}>Last {range} days</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {loading && !report ? (
+                <div className="text-sm text-muted-foreground">Loading usage...</div>
+              ) : !report || report.totals.calls === 0 ? (
+                <div className="text-sm text-muted-foreground">No model usage recorded in this period.</div>
+              ) : (
+                <>
+                  <div className="grid grid-cols-3 gap-4">
+                    <div>
+                      <div className="text-2xl font-semibold">{formatCost(report.totals.costUsd)}</div>
+                      <div className="text-xs text-muted-foreground">Estimated cost</div>
+                    </div>
+                    <div>
+                      <div className="text-2xl font-semibold">{formatTokens(report.totals.totalTokens)}</div>
+                      <div className="text-xs text-muted-foreground">
+                        Tokens ({formatTokens(report.totals.promptTokens)} prompt, {formatTokens(report.totals.completionTokens)} completion)
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-2xl font-semibold">{report.totals.calls}</div>
+                      <div className="text-xs text-muted-foreground">Model calls</div>
+                    </div>
+                  </div>
+
+                  <div className="flex items-end gap-1 h-32">
+                    {report.daily.map(day => (
+                      <div
+                        key={day.date}
+                        className="flex-1 bg-primary/70 rounded-t min-h-[2px]"
+                        style={{ height: `${maxDailyCost > 0 ? (day.costUsd / maxDailyCost) * 100 : 0}%` }}
+                        title={`${day.date}: ${formatCost(day.costUsd)}, ${formatTokens(day.totalTokens)} tokens`}
+                      />
+                    ))}
+                  </div>
+
+                  <div className="grid md:grid-cols-2 gap-6 text-sm">
+                    {([["By task", report.byTask], ["By model", report.byModel]] as const).map(([title, totals]) => (
+                      <div key={title}>
+                        <div className="font-medium mb-2">{title}</div>
+                        {Object.entries(totals).map(([name, t]) => (
+                          <div key={name} className="flex justify-between py-1 border-b last:border-0">
+                            <span className="font-mono text-xs">{name}</span>
+                            <span>{formatCost(t.costUsd)} · {formatTokens(t.totalTokens)} tokens</span>
+                          </div>
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+                </>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <MessagesSquare className="h-5 w-5" />
+                Chats
+              </CardTitle>
+              <CardDescription>
+                Spend per chat, highest first, with progress against each chat&apos;s budget for the current period
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {!report || report.byChat.length === 0 ? (
+                <div className="text-sm text-muted-foreground">No chat usage recorded in this period.</div>
+              ) : (
+                <div className="text-sm">
+                  {report.byChat.map(chat => (
+                    <div key={chat.chatId} className="flex items-center justify-between gap-4 py-2 border-b last:border-0">
+                      <div className="min-w-0">
+                        <div className="font-mono text-xs truncate">{chat.chatId}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {chat.calls} calls · {formatTokens(chat.totalTokens)} tokens
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-3 shrink-0">
+                        <span>{formatCost(chat.costUsd)}</span>
+                        {chat.budget ? (
+                          <span className={chat.budget.exceeded ? "text-destructive text-xs" : "text-muted-foreground text-xs"}>
+                            {formatCost(chat.budget.spentUsd)} of {formatCost(chat.budget.budget.limitUsd)} this {chat.budget.budget.period}
+                          </span>
+                        ) : (
+                          !chatBudgets[chat.chatId] && (
+                            <Button variant="outline" size="sm" onClick={() => addChatBudget(chat.chatId)}>
+                              Set budget
+                            </Button>
+                          )
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Coins className="h-5 w-5" />
+                Budgets
+              </CardTitle>
+              <CardDescription>
+                When a chat goes over its budget the agent either switches it to a cheaper model or throttles it to a
+                number of model calls per hour (0 stops replies until the next period)
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <div className="font-medium text-sm">Default budget for every chat</div>
+                  {defaultBudget ? (
+                    <Button variant="ghost" size="sm" onClick={() => setDefaultBudget(null)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  ) : (
+                    <Button variant="outline" size="sm" onClick={() => setDefaultBudget({ ...NEW_BUDGET })}>
+                      <Plus className="h-4 w-4 mr-1" />
+                      Add
+                    </Button>
+                  )}
+                </div>
+                {defaultBudget && <BudgetFields id="default" budget={defaultBudget} onChange={setDefaultBudget} />}
+              </div>
+
+              {Object.entries(chatBudgets).map(([chatId, budget]) => (
+                <div key={chatId} className="space-y-3">
+                  <Separator />
+                  <div className="flex items-center justify-between">
+                    <div className="font-mono text-xs truncate">{chatId}</div>
+                    <Button variant="ghost" size="sm" onClick={() => removeChatBudget(chatId)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <BudgetFields
+                    id={chatId}
+                    budget={budget}
+                    onChange={(updated) => setChatBudgets(prev => ({ ...prev, [chatId]: updated }))}
+                  />
+                </div>
+              ))}
+
+              <div className="flex gap-2">
+                <Input
+                  value={newChatId}
+                  onChange={(e) => setNewChatId(e.target.value)}
+                  placeholder="Thread ID"
+                  className="max-w-xs"
+                />
+                <Button variant="outline" onClick={() => addChatBudget(newChatId)} disabled={!newChatId.trim()}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add chat budget
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          <div className="flex justify-end gap-4">
+            <Button variant="outline" onClick={() => loadUsage(days)} disabled={loading || saving}>
+              Reset
+            </Button>
+            <Button onClick={saveBudgets} disabled={loading || saving}>
+              {saving ? "Saving..." : "Save Budgets"}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
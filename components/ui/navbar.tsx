@@ -10,6 +10,8 @@ import {
   Home,
   MessageSquare,
   LayoutDashboard,
+  FolderKanban,
+  Inbox,
   Settings,
   Github,
   Menu,
@@ -88,6 +90,20 @@ export function Navbar() {
       isActive: pathname === "/chat",
       isExternal: false,
     },
+    {
+      href: "/projects",
+      icon: <FolderKanban className="h-5 w-5" />,
+      label: "Projects",
+      isActive: pathname.startsWith("/projects"),
+      isExternal: false,
+    },
+    {
+      href: "/inbox",
+      icon: <Inbox className="h-5 w-5" />,
+      label: "Inbox",
+      isActive: pathname === "/inbox",
+      isExternal: false,
+    },
     {
       href: "/profile-editor",
       icon: <Settings className="h-5 w-5" />,
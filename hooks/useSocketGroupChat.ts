@@ -11,6 +11,23 @@ interface Message {
   senderName?: string;
   senderId?: string;
   isSystemMessage?: boolean;
+  /**
+   * AI reply still being streamed in with message-delta events
+   */
+  isStreaming?: boolean;
+  /**
+   * AI reply that was stopped before it finished
+   */
+  cancelled?: boolean;
+  /**
+   * File sent with the message, behind a signed link from media storage
+   */
+  media?: {
+    url: string;
+    thumbnailUrl: string | null;
+    type: string;
+    mimeType: string | null;
+  };
 }
 
 interface Participant {
@@ -26,6 +43,11 @@ interface SocketGroupChatHook {
   isLoading: boolean;
   error: string | null;
   sendMessage: (content: string) => void;
+  /**
+   * Stop the AI replies being streamed in this chat (same as sending "stop")
+   */
+  stopReply: () => void;
+  isAgentReplying: boolean;
   setTyping: (isTyping: boolean) => void;
   typingUsers: Map<string, string>;
   connectionStatus: 'connecting' | 'connected' | 'disconnected' | 'error';
@@ -217,6 +239,48 @@ export function useSocketGroupChat(chatId: string): SocketGroupChatHook {
       }
     });
 
+    // AI replies are streamed: deltas build up a placeholder message until
+    // message-complete delivers the full text
+    socket.on('message-delta', (data) => {
+      setMessages(prev => {
+        if (prev.some(msg => msg.id === data.id)) {
+          return prev.map(msg =>
+            msg.id === data.id ? { ...msg, content: msg.content + data.delta } : msg
+          );
+        }
+        return [...prev, {
+          id: data.id,
+          content: data.delta,
+          role: 'assistant',
+          timestamp: data.timestamp,
+          senderName: data.senderName,
+          senderId: data.senderId,
+          isStreaming: true
+        }];
+      });
+    });
+
+    socket.on('message-complete', (data) => {
+      const completeMessage: Message = {
+        id: data.id,
+        content: data.content,
+        role: 'assistant',
+        timestamp: data.timestamp,
+        senderName: data.senderName,
+        senderId: data.senderId,
+        isStreaming: false,
+        cancelled: !!data.cancelled
+      };
+      setMessages(prev =>
+        prev.some(msg => msg.id === data.id)
+          ? prev.map(msg => (msg.id === data.id ? completeMessage : msg))
+          : [...prev, completeMessage]
+      );
+      if (document.hidden) {
+        toast.info(`New message from ${data.senderName}`);
+      }
+    });
+
     socket.on('user-joined', (data) => {
       console.log('[SOCKET.IO] User joined:', data);
       const joinMessage: Message = {
@@ -360,7 +424,8 @@ export function useSocketGroupChat(chatId: string): SocketGroupChatHook {
             timestamp: msg.timestamp || new Date().toISOString(),
             senderName: msg.senderName,
             senderId: msg.senderId,
-            isSystemMessage: msg.isSystemMessage
+            isSystemMessage: msg.isSystemMessage,
+            media: msg.media
           }));
           
           // Check for duplicates in historical messages
@@ -461,65 +526,18 @@ export function useSocketGroupChat(chatId: string): SocketGroupChatHook {
 
     persistMessage();
 
-    // Trigger AI response generation
-    fetch('/api/chat/group-ai-response', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        chatId,
-        message,
-        userId,
-        userName
-      })
-    })
-    .then(response => response.json())
-    .then(data => {
-      if (data.shouldRespond && data.response && socketRef.current) {
-        // Generate a unique ID for the AI message
-        const aiMessageId = uuidv4();
-        const aiMessage = {
-          id: aiMessageId,
-          content: data.response,
-          role: 'assistant' as const,
-          timestamp: new Date().toISOString()
-        };
-
-        // Emit AI message to all users
-        socketRef.current.emit('send-message', {
-          chatId,
-          message: aiMessage,
-          userId: 'ai-agent',
-          userName: data.agentName || 'AI Assistant'
-        });
-
-        // Persist AI message to database
-        fetch('/api/chat/socket-message', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            chatId,
-            message: aiMessage,
-            userId: 'ai-agent',
-            userName: data.agentName || 'AI Assistant'
-          })
-        }).catch(error => {
-          console.error('[SOCKET.IO] Failed to persist AI message:', error);
-        });
-      }
-    })
-    .catch(error => {
-      console.error('[SOCKET.IO] Failed to generate AI response:', error);
-      // Don't show error to user as AI response is not critical
-    });
+    // The server streams the AI reply back with message-delta/message-complete events
 
     // Clear typing indicator
     setTyping(false);
   }, [chatId, userInfo, connectionStatus]);
 
+  const stopReply = useCallback(() => {
+    sendMessage('stop');
+  }, [sendMessage]);
+
+  const isAgentReplying = messages.some(msg => msg.isStreaming);
+
   const setTyping = useCallback((isTyping: boolean) => {
     if (!socketRef.current || !userInfo || connectionStatus !== 'connected') return;
 
@@ -561,6 +579,8 @@ export function useSocketGroupChat(chatId: string): SocketGroupChatHook {
     isLoading,
     error,
     sendMessage,
+    stopReply,
+    isAgentReplying,
     setTyping,
     typingUsers,
     connectionStatus,
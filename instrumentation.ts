@@ -0,0 +1,19 @@
+/**
+ * Runs once when the Next.js server starts
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    // Keep personal data out of server logs, see lib/safety-config/redaction.ts
+    const { installLogRedaction } = await import("./lib/safety-config/redaction");
+    installLogRedaction();
+
+    // Run jobs scheduled with the local cron scheduler, see lib/a1cron/local-service.ts.
+    // Set LOCAL_CRON_INTERVAL_SECONDS=0 where the process doesn't stay up and call /api/cron/local-jobs instead.
+    const { getCronBackend } = await import("./lib/a1cron/service");
+    const interval = Number(process.env.LOCAL_CRON_INTERVAL_SECONDS ?? 60);
+    if (getCronBackend() === "local" && interval > 0) {
+      const { startLocalCronScheduler } = await import("./lib/a1cron/local-service");
+      startLocalCronScheduler(undefined, interval);
+    }
+  }
+}
@@ -5,4 +5,7 @@
  */
 
 export * from './types';
-export { A1CronService, getA1Cron } from './service'; 
\ No newline at end of file
+export { A1CronService, getA1Cron, getCronBackend } from './service';
+export type { CronService, CronBackend } from './service';
+export { LocalCronService, startLocalCronScheduler } from './local-service';
+export { getNextRunAt, validateSchedule } from './schedule'; 
\ No newline at end of file
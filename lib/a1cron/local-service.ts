@@ -0,0 +1,560 @@
+/**
+ * Local Cron Service
+ *
+ * In-process stand-in for A1Cron, for self-hosted and offline setups. Jobs and
+ * execution logs are stored in the database (local_cron_jobs and
+ * local_cron_execution_logs), and due jobs are run by calling runDueJobs(),
+ * either from the interval started in instrumentation.ts or from
+ * /api/cron/local-jobs.
+ *
+ * Behaves like the hosted API: each run calls the job's endpoint with its
+ * method, headers and body, failed runs are retried after retry_delay_seconds
+ * up to max_retries times, and the success/failure callbacks receive a signed
+ * CronWebhookPayload.
+ */
+
+import { randomUUID } from 'crypto';
+import {
+  CronJob,
+  CreateCronJobRequest,
+  UpdateCronJobRequest,
+  ListCronJobsParams,
+  GetExecutionLogsParams,
+  ListCronJobsResponse,
+  TriggerExecutionResponse,
+  ExecutionLog,
+  ExecutionStatus,
+  A1CronResponse,
+  CronWebhookPayload,
+  DailyCronJobConfig,
+  HourlyCronJobConfig,
+  RetryConfig,
+} from './types';
+import { buildDailyCronJobRequest, buildHourlyCronJobRequest, CronService } from './service';
+import { getNextRunAt, toCronExpression, validateSchedule } from './schedule';
+import type {
+  CronExecutionLogRecord,
+  CronJobRecord,
+  DatabaseAdapterInterface,
+} from '../interfaces/database-adapter';
+import { getInitializedAdapter } from '../supabase/config';
+import { generateWebhookSignature, getWebhookSecret } from '../security/webhook-verification';
+
+// Used when a job has no retry_config
+const DEFAULT_RETRY_CONFIG: RetryConfig = {
+  max_retries: 0,
+  retry_delay_seconds: 60,
+  timeout_seconds: 30,
+};
+
+// Longest response body kept in the execution log
+const MAX_LOGGED_RESPONSE_LENGTH = 2000;
+
+interface ExecutionResult {
+  status: ExecutionStatus;
+  response_code?: number;
+  response_body?: string;
+  error_message?: string;
+  response_time_ms: number;
+}
+
+export interface LocalCronRunSummary {
+  /**
+   * Scheduled runs and retries started
+   */
+  executed: number;
+  succeeded: number;
+  failed: number;
+  /**
+   * Failed runs that will be retried
+   */
+  retrying: number;
+}
+
+function toCronJob(record: CronJobRecord): CronJob {
+  return {
+    id: record.id,
+    name: record.name,
+    description: record.description ?? undefined,
+    endpoint_url: record.endpoint_url,
+    schedule: toCronExpression(record.schedule_config),
+    method: record.method,
+    headers: record.headers,
+    body: record.body ?? undefined,
+    timezone: record.timezone,
+    schedule_config: record.schedule_config,
+    retry_config: record.retry_config ?? undefined,
+    callbacks: record.callbacks ?? undefined,
+    tags: record.tags || [],
+    is_active: record.is_active,
+    next_run_at: record.next_run_at ? new Date(record.next_run_at).toISOString() : undefined,
+    last_run_at: record.last_run_at ? new Date(record.last_run_at).toISOString() : undefined,
+    created_at: record.created_at,
+    updated_at: record.updated_at,
+    total_executions: record.total_executions,
+    successful_executions: record.successful_executions,
+    failed_executions: record.failed_executions,
+  };
+}
+
+function toExecutionLog(record: CronExecutionLogRecord): ExecutionLog {
+  return {
+    id: record.id,
+    cron_job_id: record.cron_job_id,
+    execution_id: record.execution_id,
+    status: record.status,
+    response_code: record.response_code ?? undefined,
+    response_body: record.response_body ?? undefined,
+    error_message: record.error_message ?? undefined,
+    response_time_ms: record.response_time_ms ?? undefined,
+    executed_at: record.executed_at,
+    retry_attempt: record.retry_attempt,
+  };
+}
+
+function isDue(at: string | null, now: Date): boolean {
+  return !!at && new Date(at).getTime() <= now.getTime();
+}
+
+export class LocalCronService implements CronService {
+  private adapter?: DatabaseAdapterInterface;
+  private fetchImpl: typeof fetch;
+
+  /**
+   * @param options adapter: database to store jobs in, the configured one by
+   *   default. fetch: used to call endpoints and callbacks
+   */
+  constructor(options: { adapter?: DatabaseAdapterInterface; fetch?: typeof fetch } = {}) {
+    this.adapter = options.adapter;
+    this.fetchImpl = options.fetch || ((input, init) => fetch(input, init));
+  }
+
+  private async getAdapter(): Promise<DatabaseAdapterInterface> {
+    const adapter = this.adapter || (await getInitializedAdapter());
+    if (!adapter) {
+      throw new Error('Local cron error: the local scheduler needs a database, set DATABASE_ADAPTER or configure Supabase');
+    }
+    return adapter;
+  }
+
+  private async getJobRecord(cronJobId: string): Promise<CronJobRecord> {
+    const job = await (await this.getAdapter()).getCronJob(cronJobId);
+    if (!job) {
+      throw new Error(`Local cron error: 404 - Cron job ${cronJobId} not found`);
+    }
+    return job;
+  }
+
+  /**
+   * Next scheduled run after a time, intervals counting from when the job was created
+   */
+  private nextRunAfter(
+    job: Pick<CronJobRecord, 'schedule_config' | 'timezone' | 'occurrences'> & { created_at?: string },
+    after: Date
+  ): string | null {
+    const next = getNextRunAt(job.schedule_config, job.timezone, {
+      after,
+      anchor: job.created_at ? new Date(job.created_at) : after,
+      occurrences: job.occurrences,
+    });
+    return next ? next.toISOString() : null;
+  }
+
+  /**
+   * List cron jobs, oldest first
+   */
+  async listCronJobs(params?: ListCronJobsParams): Promise<ListCronJobsResponse> {
+    const adapter = await this.getAdapter();
+    const page = Math.max(params?.page || 1, 1);
+    const limit = Math.max(params?.limit || 20, 1);
+    const search = params?.search?.toLowerCase();
+
+    const jobs = (await adapter.getCronJobs({ isActive: params?.is_active }))
+      .filter((job) => !params?.tags?.length || params.tags.some((tag) => job.tags?.includes(tag)))
+      .filter(
+        (job) =>
+          !search ||
+          job.name.toLowerCase().includes(search) ||
+          (job.description || '').toLowerCase().includes(search)
+      );
+
+    return {
+      data: jobs.slice((page - 1) * limit, page * limit).map(toCronJob),
+      pagination: {
+        total: jobs.length,
+        page,
+        limit,
+        total_pages: Math.ceil(jobs.length / limit),
+      },
+    };
+  }
+
+  /**
+   * Get details of a specific cron job
+   */
+  async getCronJobDetails(cronJobId: string): Promise<A1CronResponse<CronJob>> {
+    return { data: toCronJob(await this.getJobRecord(cronJobId)), success: true };
+  }
+
+  /**
+   * Create a new cron job, scheduled from now
+   */
+  async createCronJob(data: CreateCronJobRequest): Promise<A1CronResponse<CronJob>> {
+    const adapter = await this.getAdapter();
+    const scheduleConfig = { ...data.schedule_config, end_type: data.schedule_config.end_type || 'never' };
+    const invalid = validateSchedule(scheduleConfig, data.timezone);
+    if (invalid) {
+      throw new Error(`Local cron error: 400 - ${invalid}`);
+    }
+
+    const jobId = await adapter.createCronJob({
+      name: data.name,
+      description: data.description ?? null,
+      endpoint_url: data.endpoint_url,
+      method: data.method,
+      headers: data.headers || {},
+      body: data.body ?? null,
+      timezone: data.timezone,
+      schedule_config: scheduleConfig,
+      retry_config: data.retry_config ?? null,
+      callbacks: data.callbacks ?? null,
+      tags: data.tags || [],
+      is_active: data.is_active ?? true,
+      next_run_at: this.nextRunAfter({ schedule_config: scheduleConfig, timezone: data.timezone, occurrences: 0 }, new Date()),
+    });
+    if (!jobId) {
+      throw new Error('Local cron error: 500 - Failed to store cron job');
+    }
+
+    console.log(`[LocalCron] Created job ${jobId} (${data.name})`);
+    return this.getCronJobDetails(jobId);
+  }
+
+  /**
+   * Update an existing cron job. Changing the schedule or resuming a paused
+   * job schedules its next run from now, runs missed while paused are skipped.
+   */
+  async updateCronJob(cronJobId: string, data: UpdateCronJobRequest): Promise<A1CronResponse<CronJob>> {
+    const adapter = await this.getAdapter();
+    const job = await this.getJobRecord(cronJobId);
+    const updated = {
+      ...job,
+      ...data,
+      schedule_config: data.schedule_config ? { ...data.schedule_config } : job.schedule_config,
+    };
+
+    const invalid = validateSchedule(updated.schedule_config, updated.timezone);
+    if (invalid) {
+      throw new Error(`Local cron error: 400 - ${invalid}`);
+    }
+
+    const rescheduled =
+      data.schedule_config !== undefined ||
+      (data.timezone !== undefined && data.timezone !== job.timezone) ||
+      (updated.is_active && !job.is_active);
+
+    await adapter.updateCronJob(cronJobId, {
+      ...data,
+      ...(rescheduled ? { next_run_at: this.nextRunAfter(updated, new Date()) } : {}),
+      // Pausing drops a pending retry
+      ...(updated.is_active ? {} : { retry_attempt: 0, retry_at: null }),
+    });
+
+    return this.getCronJobDetails(cronJobId);
+  }
+
+  /**
+   * Delete a cron job and its execution logs
+   */
+  async deleteCronJob(cronJobId: string): Promise<A1CronResponse<{ message: string }>> {
+    const adapter = await this.getAdapter();
+    if (!(await adapter.deleteCronJob(cronJobId))) {
+      throw new Error(`Local cron error: 404 - Cron job ${cronJobId} not found`);
+    }
+    return { data: { message: 'Cron job deleted' }, success: true };
+  }
+
+  /**
+   * Run a cron job now, once and without retries. Its schedule is unchanged.
+   */
+  async triggerCronJob(cronJobId: string): Promise<TriggerExecutionResponse> {
+    const job = await this.getJobRecord(cronJobId);
+    const executionId = randomUUID();
+    const executedAt = new Date().toISOString();
+    const result = await this.execute(job);
+
+    await this.finishExecution(job, executionId, 0, result, false);
+
+    return {
+      data: {
+        execution_id: executionId,
+        status: result.status,
+        response_code: result.response_code,
+        response_body: result.response_body,
+        executed_at: executedAt,
+      },
+    };
+  }
+
+  /**
+   * Get execution logs for a cron job, newest first
+   */
+  async getExecutionLogs(
+    cronJobId: string,
+    params?: GetExecutionLogsParams
+  ): Promise<A1CronResponse<ExecutionLog[]>> {
+    const adapter = await this.getAdapter();
+    await this.getJobRecord(cronJobId);
+
+    const logs = await adapter.getCronExecutionLogs(cronJobId, {
+      status: params?.status,
+      since: params?.start_date,
+      until: params?.end_date,
+      limit: params?.limit,
+    });
+    return { data: logs.map(toExecutionLog), success: true };
+  }
+
+  /**
+   * Helper method to create a daily cron job
+   */
+  async createDailyCronJob(config: DailyCronJobConfig): Promise<A1CronResponse<CronJob>> {
+    return this.createCronJob(buildDailyCronJobRequest(config));
+  }
+
+  /**
+   * Helper method to create an hourly cron job
+   */
+  async createHourlyCronJob(config: HourlyCronJobConfig): Promise<A1CronResponse<CronJob>> {
+    return this.createCronJob(buildHourlyCronJobRequest(config));
+  }
+
+  /**
+   * Helper method to pause/unpause a cron job
+   */
+  async toggleCronJob(cronJobId: string, isActive: boolean): Promise<A1CronResponse<CronJob>> {
+    return this.updateCronJob(cronJobId, { is_active: isActive });
+  }
+
+  /**
+   * Run every active job whose scheduled run or retry is due. A run that was
+   * missed, e.g. while the server was down, runs once and the next run is
+   * scheduled from now.
+   */
+  async runDueJobs(now: Date = new Date()): Promise<LocalCronRunSummary> {
+    const adapter = await this.getAdapter();
+    const summary: LocalCronRunSummary = { executed: 0, succeeded: 0, failed: 0, retrying: 0 };
+    const jobs = await adapter.getCronJobs({ isActive: true, dueBefore: now.toISOString() });
+
+    for (const job of jobs) {
+      try {
+        let executionId: string;
+        let attempt: number;
+
+        // Claiming the run only succeeds if another scheduler hasn't already
+        if (job.retry_attempt > 0 && isDue(job.retry_at, now)) {
+          if (!(await adapter.updateCronJob(job.id, { retry_at: null }, { retry_at: job.retry_at }))) continue;
+          const [lastAttempt] = await adapter.getCronExecutionLogs(job.id, { limit: 1 });
+          executionId = lastAttempt?.execution_id || randomUUID();
+          attempt = job.retry_attempt;
+        } else if (isDue(job.next_run_at, now)) {
+          const claimed = await adapter.updateCronJob(
+            job.id,
+            {
+              occurrences: job.occurrences + 1,
+              next_run_at: this.nextRunAfter({ ...job, occurrences: job.occurrences + 1 }, now),
+              retry_attempt: 0,
+              retry_at: null,
+            },
+            { next_run_at: job.next_run_at }
+          );
+          if (!claimed) continue;
+          executionId = randomUUID();
+          attempt = 0;
+        } else {
+          continue;
+        }
+
+        summary.executed++;
+        const result = await this.execute(job);
+        const outcome = await this.finishExecution(job, executionId, attempt, result, true, now);
+        summary[outcome]++;
+      } catch (error) {
+        console.error(`[LocalCron] Error running job ${job.id}:`, error);
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Call a job's endpoint once
+   */
+  private async execute(job: CronJobRecord): Promise<ExecutionResult> {
+    const { timeout_seconds } = { ...DEFAULT_RETRY_CONFIG, ...job.retry_config };
+    const started = Date.now();
+
+    try {
+      const response = await this.fetchImpl(job.endpoint_url, {
+        method: job.method,
+        headers: job.headers || {},
+        body: job.method === 'GET' ? undefined : job.body ?? undefined,
+        signal: AbortSignal.timeout(timeout_seconds * 1000),
+      });
+      const body = (await response.text()).slice(0, MAX_LOGGED_RESPONSE_LENGTH);
+
+      return {
+        status: response.ok ? 'success' : 'failure',
+        response_code: response.status,
+        response_body: body,
+        error_message: response.ok ? undefined : `Endpoint responded with ${response.status}`,
+        response_time_ms: Date.now() - started,
+      };
+    } catch (error) {
+      const timedOut = error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError');
+      return {
+        status: timedOut ? 'timeout' : 'failure',
+        error_message: timedOut
+          ? `No response within ${timeout_seconds} seconds`
+          : error instanceof Error
+            ? error.message
+            : String(error),
+        response_time_ms: Date.now() - started,
+      };
+    }
+  }
+
+  /**
+   * Log an attempt and either schedule a retry or record the outcome and send
+   * the callback
+   */
+  private async finishExecution(
+    job: CronJobRecord,
+    executionId: string,
+    attempt: number,
+    result: ExecutionResult,
+    canRetry: boolean,
+    executedAt: Date = new Date()
+  ): Promise<'succeeded' | 'failed' | 'retrying'> {
+    const adapter = await this.getAdapter();
+    const retryConfig = { ...DEFAULT_RETRY_CONFIG, ...job.retry_config };
+    const willRetry = canRetry && result.status !== 'success' && attempt < retryConfig.max_retries;
+
+    await adapter.addCronExecutionLog({
+      cron_job_id: job.id,
+      execution_id: executionId,
+      status: willRetry ? 'retry' : result.status,
+      response_code: result.response_code ?? null,
+      response_body: result.response_body ?? null,
+      error_message: result.error_message ?? null,
+      response_time_ms: result.response_time_ms,
+      retry_attempt: attempt,
+      executed_at: executedAt.toISOString(),
+    });
+
+    if (willRetry) {
+      await adapter.updateCronJob(job.id, {
+        retry_attempt: attempt + 1,
+        retry_at: new Date(executedAt.getTime() + retryConfig.retry_delay_seconds * 1000).toISOString(),
+      });
+      console.warn(`[LocalCron] Job ${job.id} failed (${result.error_message}), retry ${attempt + 1} of ${retryConfig.max_retries} scheduled`);
+      return 'retrying';
+    }
+
+    // Re-read the counters, the job may have been updated while it ran
+    const current = (await adapter.getCronJob(job.id)) || job;
+    const succeeded = result.status === 'success';
+    await adapter.updateCronJob(job.id, {
+      last_run_at: executedAt.toISOString(),
+      total_executions: current.total_executions + 1,
+      successful_executions: current.successful_executions + (succeeded ? 1 : 0),
+      failed_executions: current.failed_executions + (succeeded ? 0 : 1),
+      retry_attempt: 0,
+      retry_at: null,
+    });
+
+    await this.sendCallback(job, {
+      cron_job_id: job.id,
+      execution_id: executionId,
+      status: succeeded ? 'success' : 'failure',
+      executed_at: executedAt.toISOString(),
+      response_code: result.response_code,
+      response_time_ms: result.response_time_ms,
+      error_message: result.error_message,
+    });
+
+    return succeeded ? 'succeeded' : 'failed';
+  }
+
+  /**
+   * Post the outcome to the job's success or failure URL, signed like A1Cron's
+   * webhooks so /api/a1base/cron-webhook accepts it
+   */
+  private async sendCallback(job: CronJobRecord, payload: CronWebhookPayload): Promise<void> {
+    const url = payload.status === 'success' ? job.callbacks?.success_url : job.callbacks?.failure_url;
+    if (!url) return;
+
+    const body = JSON.stringify(payload);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const secret = getWebhookSecret('cron');
+
+    try {
+      const response = await this.fetchImpl(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-timestamp': timestamp,
+          ...(secret ? { 'x-signature': generateWebhookSignature(body, timestamp, secret) } : {}),
+        },
+        body,
+        signal: AbortSignal.timeout(DEFAULT_RETRY_CONFIG.timeout_seconds * 1000),
+      });
+      if (!response.ok) {
+        console.error(`[LocalCron] Callback for job ${job.id} responded with ${response.status}`);
+      }
+    } catch (error) {
+      console.error(`[LocalCron] Error sending callback for job ${job.id}:`, error);
+    }
+  }
+}
+
+// Keep one scheduler across hot reloads in development
+const globalForScheduler = globalThis as unknown as {
+  __a1baseLocalCronTimer?: ReturnType<typeof setInterval>;
+};
+
+/**
+ * Run due local cron jobs every intervalSeconds in this process. Does nothing
+ * if the scheduler is already running.
+ * @returns Function that stops the scheduler
+ */
+export function startLocalCronScheduler(
+  service: LocalCronService = new LocalCronService(),
+  intervalSeconds: number = 60
+): () => void {
+  const stop = () => {
+    clearInterval(globalForScheduler.__a1baseLocalCronTimer);
+    globalForScheduler.__a1baseLocalCronTimer = undefined;
+  };
+  if (globalForScheduler.__a1baseLocalCronTimer) return stop;
+
+  let running = false;
+  const tick = async () => {
+    // A slow job shouldn't start a second pass over the same due jobs
+    if (running) return;
+    running = true;
+    try {
+      const summary = await service.runDueJobs();
+      if (summary.executed > 0) console.log('[LocalCron] Ran due jobs:', summary);
+    } catch (error) {
+      console.error('[LocalCron] Error running due jobs:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  globalForScheduler.__a1baseLocalCronTimer = setInterval(tick, intervalSeconds * 1000);
+  globalForScheduler.__a1baseLocalCronTimer.unref?.();
+  console.log(`[LocalCron] Scheduler started, checking for due jobs every ${intervalSeconds}s`);
+  return stop;
+}
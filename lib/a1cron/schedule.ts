@@ -0,0 +1,268 @@
+/**
+ * A1Cron Schedules
+ *
+ * Works out when a ScheduleConfig next runs, in the job's timezone. A1Cron does
+ * this itself for hosted jobs, the local scheduler uses these helpers.
+ *
+ * Intervals count from the anchor, the time the job was created:
+ * - hourly: at minute MM of every repeat_every-th hour ("00:30" is half past)
+ * - days: at HH:MM every repeat_every days
+ * - weeks: at HH:MM on days_of_week (the anchor's weekday if empty) every
+ *   repeat_every weeks, weeks starting on Monday
+ * - months: at HH:MM on the 1st every repeat_every months
+ * days_of_week uses "0" (or "7") for Sunday to "6" for Saturday and also
+ * limits hourly and daily jobs when given.
+ */
+
+import { ScheduleConfig } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+interface LocalTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatter(timeZone: string): Intl.DateTimeFormat {
+  let format = formatters.get(timeZone);
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, format);
+  }
+  return format;
+}
+
+function localTime(date: Date, timeZone: string): LocalTime & { second: number } {
+  const parts: Record<string, number> = {};
+  for (const part of formatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+/**
+ * The instant a wall-clock time happens in a timezone. Times skipped by a DST
+ * change move forward by the size of the change.
+ */
+function fromLocalTime(time: LocalTime, timeZone: string): Date {
+  const wallClock = Date.UTC(time.year, time.month - 1, time.day, time.hour, time.minute);
+  const offsetAt = (instant: number) => {
+    const local = localTime(new Date(instant), timeZone);
+    return Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second) - instant;
+  };
+
+  const guess = wallClock - offsetAt(wallClock);
+  const offset = offsetAt(guess);
+  return new Date(wallClock - offset);
+}
+
+/**
+ * Days since 1970-01-01 for a calendar date
+ */
+function dayNumber(year: number, month: number, day: number): number {
+  return Date.UTC(year, month - 1, day) / DAY_MS;
+}
+
+function fromDayNumber(days: number): { year: number; month: number; day: number; weekday: number } {
+  const date = new Date(days * DAY_MS);
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    weekday: date.getUTCDay(),
+  };
+}
+
+function parseTime(time: string): { hour: number; minute: number } | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time?.trim() || '');
+  if (!match) return null;
+  const hour = Number(match[1]);
+  const minute = Number(match[2]);
+  return hour < 24 && minute < 60 ? { hour, minute } : null;
+}
+
+function parseDaysOfWeek(days: string[] | undefined): Set<number> | null {
+  if (!days || days.length === 0) return null;
+  return new Set(days.map((day) => Number(day) % 7));
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check a schedule before it is saved
+ * @returns What is wrong with it, or null if it is valid
+ */
+export function validateSchedule(config: ScheduleConfig, timeZone: string): string | null {
+  if (!isValidTimeZone(timeZone)) return `Unknown timezone "${timeZone}"`;
+  if (!['hourly', 'days', 'weeks', 'months'].includes(config?.repeat_type)) {
+    return 'repeat_type must be hourly, days, weeks or months';
+  }
+  if (!Number.isInteger(config.repeat_every) || config.repeat_every < 1) {
+    return 'repeat_every must be a whole number of at least 1';
+  }
+  if (!parseTime(config.time)) return `Invalid time "${config.time}", use HH:MM`;
+  if (config.days_of_week?.some((day) => !/^[0-7]$/.test(day))) {
+    return 'days_of_week must be "0" (Sunday) to "6" (Saturday)';
+  }
+  if (config.end_type === 'on' && (!config.end_date || isNaN(new Date(config.end_date).getTime()))) {
+    return 'end_date must be a date when end_type is "on"';
+  }
+  if (config.end_type === 'after' && (!Number.isInteger(config.end_occurrences) || config.end_occurrences! < 1)) {
+    return 'end_occurrences must be at least 1 when end_type is "after"';
+  }
+  return null;
+}
+
+/**
+ * Whether a run at this time would be past the schedule's end date. A date
+ * without a time includes the whole of that day in the job's timezone.
+ */
+function isPastEndDate(config: ScheduleConfig, runAt: Date, timeZone: string): boolean {
+  if (config.end_type !== 'on' || !config.end_date) return false;
+  if (/^\d{4}-\d{2}-\d{2}$/.test(config.end_date)) {
+    const local = localTime(runAt, timeZone);
+    const [year, month, day] = config.end_date.split('-').map(Number);
+    return dayNumber(local.year, local.month, local.day) > dayNumber(year, month, day);
+  }
+  return runAt.getTime() > new Date(config.end_date).getTime();
+}
+
+function nextHourlyRun(config: ScheduleConfig, timeZone: string, after: Date, anchor: Date, minute: number): Date | null {
+  const days = parseDaysOfWeek(config.days_of_week);
+  const startOfHour = (date: Date) => {
+    const local = localTime(date, timeZone);
+    return date.getTime() - (local.minute * 60 + local.second) * 1000 - date.getUTCMilliseconds();
+  };
+  const anchorHour = startOfHour(anchor);
+
+  let candidate = startOfHour(after) + minute * 60 * 1000;
+  if (candidate <= after.getTime()) candidate += HOUR_MS;
+
+  // Every hour for a little over a repeat of whole weeks covers any weekday filter
+  for (let i = 0; i < 24 * 8 * config.repeat_every; i++, candidate += HOUR_MS) {
+    const hoursSinceAnchor = Math.floor((candidate - anchorHour) / HOUR_MS);
+    if (hoursSinceAnchor % config.repeat_every !== 0) continue;
+    if (days) {
+      const local = localTime(new Date(candidate), timeZone);
+      if (!days.has(fromDayNumber(dayNumber(local.year, local.month, local.day)).weekday)) continue;
+    }
+    return new Date(candidate);
+  }
+  return null;
+}
+
+function matchesDay(config: ScheduleConfig, day: number, anchorDay: number): boolean {
+  const date = fromDayNumber(day);
+  const anchor = fromDayNumber(anchorDay);
+  const days = parseDaysOfWeek(config.days_of_week);
+
+  switch (config.repeat_type) {
+    case 'days':
+      return (day - anchorDay) % config.repeat_every === 0 && (!days || days.has(date.weekday));
+    case 'weeks': {
+      const anchorMonday = anchorDay - ((anchor.weekday + 6) % 7);
+      const week = Math.floor((day - anchorMonday) / 7);
+      return week % config.repeat_every === 0 && (days || new Set([anchor.weekday])).has(date.weekday);
+    }
+    case 'months': {
+      const months = (date.year - anchor.year) * 12 + (date.month - anchor.month);
+      return date.day === 1 && months % config.repeat_every === 0;
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * When a schedule next runs after a given time
+ * @param config Schedule to follow
+ * @param timeZone IANA timezone the schedule's times are in
+ * @param options after: only return runs later than this, anchor: when the job
+ *   was created, occurrences: scheduled runs so far, for end_type "after"
+ * @returns The next run, or null if the schedule has ended or is invalid
+ */
+export function getNextRunAt(
+  config: ScheduleConfig,
+  timeZone: string,
+  options: { after: Date; anchor?: Date; occurrences?: number }
+): Date | null {
+  if (validateSchedule(config, timeZone)) return null;
+  if (config.end_type === 'after' && (options.occurrences || 0) >= config.end_occurrences!) return null;
+
+  const { hour, minute } = parseTime(config.time)!;
+  const anchor = options.anchor || options.after;
+  let next: Date | null = null;
+
+  if (config.repeat_type === 'hourly') {
+    next = nextHourlyRun(config, timeZone, options.after, anchor, minute);
+  } else {
+    const localAfter = localTime(options.after, timeZone);
+    const localAnchor = localTime(anchor, timeZone);
+    const anchorDay = dayNumber(localAnchor.year, localAnchor.month, localAnchor.day);
+    const firstDay = dayNumber(localAfter.year, localAfter.month, localAfter.day);
+
+    // Long enough to reach the next run of any interval, with room for the month and weekday rules
+    for (let day = firstDay; day < firstDay + 400 * config.repeat_every; day++) {
+      if (day < anchorDay || !matchesDay(config, day, anchorDay)) continue;
+      const candidate = fromLocalTime({ ...fromDayNumber(day), hour, minute }, timeZone);
+      if (candidate.getTime() > options.after.getTime()) {
+        next = candidate;
+        break;
+      }
+    }
+  }
+
+  return next && !isPastEndDate(config, next, timeZone) ? next : null;
+}
+
+/**
+ * Cron expression describing a schedule, as shown in CronJob.schedule.
+ * Intervals that cron can't express exactly are approximated.
+ */
+export function toCronExpression(config: ScheduleConfig): string {
+  const { hour, minute } = parseTime(config.time) || { hour: 0, minute: 0 };
+  const every = config.repeat_every > 1 ? `/${config.repeat_every}` : '';
+  const days = config.days_of_week?.length ? config.days_of_week.join(',') : '*';
+
+  switch (config.repeat_type) {
+    case 'hourly':
+      return `${minute} *${every} * * ${days}`;
+    case 'days':
+      return `${minute} ${hour} *${every} * ${days}`;
+    case 'weeks':
+      return `${minute} ${hour} * * ${config.days_of_week?.length ? days : '1'}`;
+    case 'months':
+      return `${minute} ${hour} 1 *${every} *`;
+    default:
+      return `${minute} ${hour} * * *`;
+  }
+}
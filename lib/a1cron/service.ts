@@ -1,7 +1,9 @@
 /**
  * A1Cron Service
  * 
- * Service for managing cron jobs through A1Base's A1Cron API
+ * Service for managing cron jobs through A1Base's A1Cron API.
+ * getA1Cron() returns the local scheduler instead when CRON_BACKEND=local or
+ * the A1Base credentials are missing, see local-service.ts.
  */
 
 import {
@@ -13,12 +15,73 @@ import {
   ListCronJobsResponse,
   TriggerExecutionResponse,
   ExecutionLog,
-  A1CronResponse
+  A1CronResponse,
+  DailyCronJobConfig,
+  HourlyCronJobConfig
 } from './types';
+import { LocalCronService } from './local-service';
 
 // Base configuration
 const A1CRON_BASE_URL = 'https://api.a1base.com/v1/cron-jobs';
 
+/**
+ * Build the request for a job that runs every day at config.time
+ */
+export function buildDailyCronJobRequest(config: DailyCronJobConfig): CreateCronJobRequest {
+  return {
+    name: config.name,
+    description: config.description,
+    endpoint_url: config.endpoint_url,
+    method: config.method || 'POST',
+    headers: config.headers,
+    body: config.body,
+    timezone: config.timezone,
+    schedule_config: {
+      repeat_type: 'days',
+      repeat_every: 1,
+      time: config.time,
+      end_type: 'never',
+    },
+    retry_config: {
+      max_retries: config.retry_config?.max_retries || 3,
+      retry_delay_seconds: config.retry_config?.retry_delay_seconds || 300,
+      timeout_seconds: config.retry_config?.timeout_seconds || 30,
+    },
+    callbacks: config.callbacks,
+    tags: config.tags,
+    is_active: true,
+  };
+}
+
+/**
+ * Build the request for a job that runs every config.repeat_every hours
+ */
+export function buildHourlyCronJobRequest(config: HourlyCronJobConfig): CreateCronJobRequest {
+  return {
+    name: config.name,
+    description: config.description,
+    endpoint_url: config.endpoint_url,
+    method: config.method || 'POST',
+    headers: config.headers,
+    body: config.body,
+    timezone: config.timezone,
+    schedule_config: {
+      repeat_type: 'hourly',
+      repeat_every: config.repeat_every,
+      time: config.time,
+      end_type: 'never',
+    },
+    retry_config: {
+      max_retries: config.retry_config?.max_retries || 3,
+      retry_delay_seconds: config.retry_config?.retry_delay_seconds || 60,
+      timeout_seconds: config.retry_config?.timeout_seconds || 30,
+    },
+    callbacks: config.callbacks,
+    tags: config.tags,
+    is_active: true,
+  };
+}
+
 export class A1CronService {
   private apiKey: string;
   private apiSecret: string;
@@ -175,98 +238,15 @@ export class A1CronService {
   /**
    * Helper method to create a daily cron job
    */
-  async createDailyCronJob(config: {
-    name: string;
-    description?: string;
-    endpoint_url: string;
-    method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
-    headers?: Record<string, string>;
-    body?: string;
-    time: string; // "HH:MM"
-    timezone: string;
-    retry_config?: {
-      max_retries?: number;
-      retry_delay_seconds?: number;
-      timeout_seconds?: number;
-    };
-    callbacks?: {
-      success_url?: string;
-      failure_url?: string;
-    };
-    tags?: string[];
-  }): Promise<A1CronResponse<CronJob>> {
-    return this.createCronJob({
-      name: config.name,
-      description: config.description,
-      endpoint_url: config.endpoint_url,
-      method: config.method || 'POST',
-      headers: config.headers,
-      body: config.body,
-      timezone: config.timezone,
-      schedule_config: {
-        repeat_type: 'days',
-        repeat_every: 1,
-        time: config.time,
-        end_type: 'never',
-      },
-      retry_config: {
-        max_retries: config.retry_config?.max_retries || 3,
-        retry_delay_seconds: config.retry_config?.retry_delay_seconds || 300,
-        timeout_seconds: config.retry_config?.timeout_seconds || 30,
-      },
-      callbacks: config.callbacks,
-      tags: config.tags,
-      is_active: true,
-    });
+  async createDailyCronJob(config: DailyCronJobConfig): Promise<A1CronResponse<CronJob>> {
+    return this.createCronJob(buildDailyCronJobRequest(config));
   }
 
   /**
    * Helper method to create an hourly cron job
    */
-  async createHourlyCronJob(config: {
-    name: string;
-    description?: string;
-    endpoint_url: string;
-    method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
-    headers?: Record<string, string>;
-    body?: string;
-    repeat_every: number; // Run every N hours
-    time: string; // Minutes past the hour "MM:SS"
-    timezone: string;
-    retry_config?: {
-      max_retries?: number;
-      retry_delay_seconds?: number;
-      timeout_seconds?: number;
-    };
-    callbacks?: {
-      success_url?: string;
-      failure_url?: string;
-    };
-    tags?: string[];
-  }): Promise<A1CronResponse<CronJob>> {
-    return this.createCronJob({
-      name: config.name,
-      description: config.description,
-      endpoint_url: config.endpoint_url,
-      method: config.method || 'POST',
-      headers: config.headers,
-      body: config.body,
-      timezone: config.timezone,
-      schedule_config: {
-        repeat_type: 'hourly',
-        repeat_every: config.repeat_every,
-        time: config.time,
-        end_type: 'never',
-      },
-      retry_config: {
-        max_retries: config.retry_config?.max_retries || 3,
-        retry_delay_seconds: config.retry_config?.retry_delay_seconds || 60,
-        timeout_seconds: config.retry_config?.timeout_seconds || 30,
-      },
-      callbacks: config.callbacks,
-      tags: config.tags,
-      is_active: true,
-    });
+  async createHourlyCronJob(config: HourlyCronJobConfig): Promise<A1CronResponse<CronJob>> {
+    return this.createCronJob(buildHourlyCronJobRequest(config));
   }
 
   /**
@@ -277,14 +257,47 @@ export class A1CronService {
   }
 }
 
+/**
+ * The public surface shared by A1CronService and LocalCronService
+ */
+export type CronService = Pick<A1CronService, keyof A1CronService>;
+
+/**
+ * Where cron jobs are scheduled: the hosted A1Cron API or the in-process scheduler
+ */
+export type CronBackend = 'a1cron' | 'local';
+
+/**
+ * Work out which cron backend to use.
+ * CRON_BACKEND selects one explicitly, otherwise A1Cron is used when the A1Base credentials are set.
+ */
+export function getCronBackend(): CronBackend {
+  const selected = process.env.CRON_BACKEND?.trim().toLowerCase();
+
+  if (selected === 'a1cron' || selected === 'local') {
+    return selected;
+  }
+  if (selected) {
+    console.warn(`[A1Cron] Unknown CRON_BACKEND "${selected}". Expected a1cron or local.`);
+  }
+
+  const { A1BASE_API_KEY, A1BASE_API_SECRET, A1BASE_ACCOUNT_ID } = process.env;
+  return A1BASE_API_KEY && A1BASE_API_SECRET && A1BASE_ACCOUNT_ID ? 'a1cron' : 'local';
+}
+
 // Singleton instance for easy access
-let a1CronInstance: A1CronService | null = null;
+let a1CronInstance: CronService | null = null;
 
 /**
- * Get or create the A1Cron service instance
+ * Get or create the cron service for the configured backend
  */
-export function getA1Cron(): A1CronService {
+export function getA1Cron(): CronService {
   if (!a1CronInstance) {
+    if (getCronBackend() === 'local') {
+      a1CronInstance = new LocalCronService();
+      return a1CronInstance;
+    }
+
     const apiKey = process.env.A1BASE_API_KEY;
     const apiSecret = process.env.A1BASE_API_SECRET;
     const accountId = process.env.A1BASE_ACCOUNT_ID;
@@ -301,4 +314,4 @@ export function getA1Cron(): A1CronService {
   }
 
   return a1CronInstance;
-} 
\ No newline at end of file
+}
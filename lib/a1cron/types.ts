@@ -86,6 +86,36 @@ export interface CronJob {
   failed_executions: number;
 }
 
+// Helper Request Types
+interface CronJobHelperConfig {
+  name: string;
+  description?: string;
+  endpoint_url: string;
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  headers?: Record<string, string>;
+  body?: string;
+  timezone: string;
+  retry_config?: {
+    max_retries?: number;
+    retry_delay_seconds?: number;
+    timeout_seconds?: number;
+  };
+  callbacks?: {
+    success_url?: string;
+    failure_url?: string;
+  };
+  tags?: string[];
+}
+
+export interface DailyCronJobConfig extends CronJobHelperConfig {
+  time: string; // "HH:MM"
+}
+
+export interface HourlyCronJobConfig extends CronJobHelperConfig {
+  repeat_every: number; // Run every N hours
+  time: string; // Minutes past the hour "MM:SS"
+}
+
 // Execution Log Types
 export type ExecutionStatus = 'success' | 'failure' | 'timeout' | 'retry';
 
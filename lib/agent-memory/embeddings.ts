@@ -0,0 +1,124 @@
+import { createHash } from "crypto";
+import OpenAI from "openai";
+import {
+  ModelSettings,
+  ResolvedProvider,
+  formatModelRef,
+  loadModelSettings,
+  parseModelRef,
+  resolveProvider,
+} from "../services/model-router";
+
+/**
+ * Turns text into vectors for semantic memory. Vectors from different models
+ * can't be compared, so every stored chunk records the model that embedded it.
+ */
+export interface EmbeddingProvider {
+  /**
+   * Model the vectors come from, e.g. "openai:text-embedding-3-small"
+   */
+  model: string;
+  embed: (texts: string[]) => Promise<number[][]>;
+}
+
+export const HASHING_EMBEDDING_MODEL = "hashing";
+export const DEFAULT_EMBEDDING_MODEL = "openai:text-embedding-3-small";
+
+const HASHING_DIMENSIONS = 512;
+
+// Words too common to say anything about what a text is about
+const STOP_WORDS = new Set(
+  "a an and are as at be but by do does for from had has have i if in is it its me my of on or our so that the their them they this to was we were what when where which who will with you your".split(
+    " "
+  )
+);
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])
+    .filter((word) => !STOP_WORDS.has(word))
+    // Crude stemming so "meetings" matches "meeting"
+    .map((word) => (word.length > 3 && word.endsWith("s") && !word.endsWith("ss") ? word.slice(0, -1) : word));
+}
+
+function hashFeature(feature: string, dimensions: number): { index: number; sign: number } {
+  const digest = createHash("sha256").update(feature).digest();
+  return { index: digest.readUInt32LE(0) % dimensions, sign: digest[4] & 1 ? 1 : -1 };
+}
+
+/**
+ * Embed text by hashing its words and word pairs into a fixed-size vector.
+ * Deterministic and offline, for development, tests and deployments without
+ * an embedding API. It only matches shared words, not meaning.
+ */
+export function hashingEmbedding(text: string, dimensions: number = HASHING_DIMENSIONS): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const words = tokenize(text);
+  const features = [...words, ...words.slice(1).map((word, i) => `${words[i]} ${word}`)];
+
+  for (const feature of features) {
+    const { index, sign } = hashFeature(feature, dimensions);
+    vector[index] += sign;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map((value) => value / norm) : vector;
+}
+
+export function createHashingEmbeddingProvider(): EmbeddingProvider {
+  return {
+    model: HASHING_EMBEDDING_MODEL,
+    embed: async (texts) => texts.map((text) => hashingEmbedding(text)),
+  };
+}
+
+/**
+ * Embed through an OpenAI-compatible embeddings endpoint
+ */
+export function createOpenAIEmbeddingProvider(model: string, provider: ResolvedProvider): EmbeddingProvider {
+  const client = new OpenAI({
+    baseURL: provider.baseURL,
+    // Local servers without auth still need a non-empty key for the SDK
+    apiKey: provider.apiKey || "not-needed",
+  });
+
+  return {
+    model: formatModelRef({ provider: provider.name, model }),
+    embed: async (texts) => {
+      if (texts.length === 0) return [];
+      const response = await client.embeddings.create({ model, input: texts });
+      return [...response.data].sort((a, b) => a.index - b.index).map((item) => item.embedding);
+    },
+  };
+}
+
+/**
+ * The provider for embeddingModel in data/model-settings.json. Without one,
+ * OpenAI is used when OPENAI_API_KEY is set and hashing otherwise.
+ */
+export function getEmbeddingProvider(settings: ModelSettings = loadModelSettings()): EmbeddingProvider {
+  const ref =
+    settings.embeddingModel || (process.env.OPENAI_API_KEY ? DEFAULT_EMBEDDING_MODEL : HASHING_EMBEDDING_MODEL);
+  if (ref === HASHING_EMBEDDING_MODEL) return createHashingEmbeddingProvider();
+
+  const { provider: providerName, model } = parseModelRef(ref);
+  const provider = resolveProvider(settings, providerName);
+  if (!provider) {
+    console.warn(`[SemanticMemory] Embedding provider "${providerName}" is unavailable, using hashing embeddings`);
+    return createHashingEmbeddingProvider();
+  }
+  return createOpenAIEmbeddingProvider(model, provider);
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
@@ -0,0 +1,27 @@
+import type { DatabaseAdapterInterface, MemoryHistoryRecord } from "../interfaces/database-adapter";
+
+/**
+ * Every change to a memory field is recorded in memory_history with the value
+ * before and after, the message it was extracted from and the model that
+ * suggested it. Any recorded version can be restored.
+ */
+
+/**
+ * Restore a memory field to the value it had right after a recorded change.
+ * Reverting to a deletion deletes the field again.
+ * @param historyId ID of the change to restore
+ * @returns The change that was restored, or null if it wasn't found or saving failed
+ */
+export async function revertMemoryField(
+  adapter: DatabaseAdapterInterface,
+  historyId: string
+): Promise<MemoryHistoryRecord | null> {
+  const entry = await adapter.getMemoryHistoryEntry(historyId);
+  if (!entry) return null;
+
+  const saved = await adapter.setMemoryValue(entry.scope, entry.owner_id, entry.field_id, entry.new_value, {
+    source: "revert",
+    metadata: { reverted_to: entry.id },
+  });
+  return saved ? entry : null;
+}
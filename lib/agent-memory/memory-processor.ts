@@ -1,7 +1,9 @@
-import OpenAI from "openai";
 import { loadAgentMemorySettings } from "../storage/file-storage";
 import type { AgentMemorySettingsData, CustomMemoryField } from "./types";
-import type { SupabaseAdapter } from "../supabase/config";
+import type { DatabaseAdapterInterface } from "../supabase/config";
+import type { MemoryProvenance } from "../interfaces/database-adapter";
+import { formatModelRef, getModelRouter } from "../services/model-router";
+import { queueMemoryUpdate, requiresReview } from "./memory-review";
 
 /**
  * Defines the structure for suggested memory updates identified by the AI.
@@ -10,6 +12,7 @@ export interface IdentifiedMemoryUpdate {
   id: string; // The ID of the CustomMemoryField
   title: string; // The title of the CustomMemoryField (for logging/readability)
   newValue: string; // The new value suggested for this field
+  pending?: boolean; // Queued for human review instead of applied
 }
 
 export interface MemoryUpdateSuggestions {
@@ -23,16 +26,19 @@ export interface MemoryUpdateSuggestions {
  * @param messageContent The text content of the incoming message.
  * @param userId A unique identifier for the user.
  * @param chatId A unique identifier for the chat thread.
- * @param openaiClient An initialized OpenAI client instance.
- * @param adapter An initialized SupabaseAdapter instance, or null if not configured.
+ * @param adapter An initialized database adapter instance, or null if not configured.
+ * @param threadId The external thread ID, used to record model usage against the chat.
+ * @param messageId The external ID of the message, recorded as the source of memory changes.
+ * Updates that require review (see memory-review.ts) are queued and returned with pending set.
  * @returns A Promise resolving to MemoryUpdateSuggestions, detailing potential updates.
  */
 export async function processMessageForMemoryUpdates(
   messageContent: string,
   userId: string,
   chatId: string,
-  openaiClient: OpenAI,
-  adapter: SupabaseAdapter | null
+  adapter: DatabaseAdapterInterface | null,
+  threadId?: string,
+  messageId?: string
 ): Promise<MemoryUpdateSuggestions> {
   const emptySuggestions: MemoryUpdateSuggestions = {
     userMemoryUpdates: [],
@@ -141,15 +147,18 @@ Please provide updates in the specified JSON format.`;
 
     // console.log('[MemoryProcessor] AI Prompt:', aiUserMessage); // For debugging the prompt
 
-    const response = await openaiClient.chat.completions.create({
-      model: "gpt-4.1", // This model is good with JSON mode
-      messages: [
-        { role: "system", content: systemMessage },
-        { role: "user", content: aiUserMessage },
-      ],
-      response_format: { type: "json_object" },
-      temperature: 0.2, // Lower temperature for more factual, less creative output
-    });
+    const { completion: response, model } = await getModelRouter().createChatCompletion(
+      "memory",
+      {
+        messages: [
+          { role: "system", content: systemMessage },
+          { role: "user", content: aiUserMessage },
+        ],
+        response_format: { type: "json_object" },
+        temperature: 0.2, // Lower temperature for more factual, less creative output
+      },
+      { chatId: threadId, userId }
+    );
 
     const aiResponseContent = response.choices[0]?.message?.content;
     if (!aiResponseContent) {
@@ -177,6 +186,13 @@ Please provide updates in the specified JSON format.`;
       return emptySuggestions;
     }
 
+    // Recorded with every change in the memory history
+    const provenance: MemoryProvenance = {
+      source: "memory_processor",
+      sourceMessageId: messageId || null,
+      model: formatModelRef(model),
+    };
+
     const finalSuggestions: MemoryUpdateSuggestions = {
       userMemoryUpdates: [],
       chatMemoryUpdates: [],
@@ -194,19 +210,33 @@ Please provide updates in the specified JSON format.`;
             (f: CustomMemoryField) => f.id === update.id
           );
           if (fieldDefinition) {
-            finalSuggestions.userMemoryUpdates.push({
+            const pending = !!adapter && requiresReview(settings, fieldDefinition, existingUserMemory[update.id] ?? null);
+            const suggestion: IdentifiedMemoryUpdate = {
               id: update.id,
               title: fieldDefinition.title,
               newValue: update.newValue,
-            });
-            // Persist to Supabase if adapter is available
-            if (adapter) {
+              ...(pending ? { pending } : {}),
+            };
+            finalSuggestions.userMemoryUpdates.push(suggestion);
+            if (adapter && pending) {
+              await queueMemoryUpdate(
+                adapter,
+                "user",
+                userId,
+                suggestion,
+                existingUserMemory[update.id] ?? null,
+                provenance,
+                messageContent
+              );
+            } else if (adapter) {
+              // Persist to Supabase if adapter is available
               try {
                 const { error: upsertUserMemoryError } =
                   await adapter.upsertUserMemoryValue(
                     userId,
                     update.id,
-                    update.newValue
+                    update.newValue,
+                    provenance
                   );
                 if (upsertUserMemoryError) {
                   // The adapter method already logs the specific Supabase error.
@@ -241,19 +271,33 @@ Please provide updates in the specified JSON format.`;
             (f: CustomMemoryField) => f.id === update.id
           );
           if (fieldDefinition) {
-            finalSuggestions.chatMemoryUpdates.push({
+            const pending = !!adapter && requiresReview(settings, fieldDefinition, existingChatMemory[update.id] ?? null);
+            const suggestion: IdentifiedMemoryUpdate = {
               id: update.id,
               title: fieldDefinition.title,
               newValue: update.newValue,
-            });
-            // Persist to Supabase if adapter is available
-            if (adapter) {
+              ...(pending ? { pending } : {}),
+            };
+            finalSuggestions.chatMemoryUpdates.push(suggestion);
+            if (adapter && pending) {
+              await queueMemoryUpdate(
+                adapter,
+                "chat",
+                chatId,
+                suggestion,
+                existingChatMemory[update.id] ?? null,
+                provenance,
+                messageContent
+              );
+            } else if (adapter) {
+              // Persist to Supabase if adapter is available
               try {
                 const { error: upsertChatMemoryError } =
                   await adapter.upsertChatThreadMemoryValue(
                     chatId,
                     update.id,
-                    update.newValue
+                    update.newValue,
+                    provenance
                   );
                 if (upsertChatMemoryError) {
                   // The adapter method already logs the specific Supabase error.
@@ -0,0 +1,153 @@
+import type {
+  DatabaseAdapterInterface,
+  MemoryProvenance,
+  MemoryReviewRecord,
+  MemoryScope,
+} from "../interfaces/database-adapter";
+import { loadAgentMemorySettings } from "../storage/file-storage";
+import type { IdentifiedMemoryUpdate } from "./memory-processor";
+import { getSemanticMemorySettings, rememberText } from "./semantic-memory";
+import type { AgentMemorySettingsData, CustomMemoryField } from "./types";
+
+/**
+ * ============= MEMORY REVIEW ================
+ * With memoryApprovalRequired on, memory updates suggested by the AI are
+ * queued in memory_review_queue instead of being applied. An admin approves
+ * (optionally after editing), or rejects them from the memory settings page.
+ * Fields can opt out of review with an autoApprove rule.
+ * ============================================
+ */
+
+/**
+ * Whether a suggested update to this field has to wait for review
+ * @param currentValue Value of the field before the update
+ */
+export function requiresReview(
+  settings: AgentMemorySettingsData | null,
+  field: CustomMemoryField,
+  currentValue: string | null
+): boolean {
+  if (!settings?.memoryApprovalRequired) return false;
+  if (field.autoApprove === "always") return false;
+  if (field.autoApprove === "when_empty" && !currentValue) return false;
+  return true;
+}
+
+/**
+ * Queue a suggested memory update for review
+ * @param owner Phone number or internal ID of the user, or internal ID of the chat
+ * @param currentValue Value of the field when the update was suggested
+ * @param sourceMessage Content of the message the update was extracted from
+ * @returns ID of the queued update, or null if the owner wasn't found or queueing failed
+ */
+export async function queueMemoryUpdate(
+  adapter: DatabaseAdapterInterface,
+  scope: MemoryScope,
+  owner: string,
+  update: IdentifiedMemoryUpdate,
+  currentValue: string | null,
+  provenance: MemoryProvenance,
+  sourceMessage: string
+): Promise<string | null> {
+  try {
+    const ownerId =
+      scope === "user"
+        ? ((await adapter.getUserByPhone(owner.replace(/\+/g, ""))) || (await adapter.getUserById(owner)))?.id
+        : owner;
+    if (!ownerId) {
+      console.warn(`[MemoryReview] No user found for ${owner}, not queueing update to ${update.id}`);
+      return null;
+    }
+
+    return await adapter.addMemoryReview({
+      scope,
+      owner_id: ownerId,
+      field_id: update.id,
+      current_value: currentValue,
+      proposed_value: update.newValue,
+      source_message_id: provenance.sourceMessageId || null,
+      source_message: sourceMessage,
+      model: provenance.model || null,
+    });
+  } catch (error) {
+    console.error("[MemoryReview] Error queueing memory update:", error);
+    return null;
+  }
+}
+
+function findField(settings: AgentMemorySettingsData | null, review: MemoryReviewRecord) {
+  const fields = review.scope === "user" ? settings?.userMemoryFields : settings?.chatThreadMemoryFields;
+  return fields?.find((field) => field.id === review.field_id);
+}
+
+/**
+ * Apply a queued memory update. Without an edited value the proposed value is
+ * merged like an automatic update; an edited value replaces the field as is.
+ * @param editedValue Value entered by the reviewer instead of the proposed one
+ * @returns The reviewed update, or null if it wasn't pending, the edited value
+ * was empty or saving failed
+ */
+export async function approveMemoryReview(
+  adapter: DatabaseAdapterInterface,
+  reviewId: string,
+  editedValue?: string
+): Promise<MemoryReviewRecord | null> {
+  const review = await adapter.getMemoryReview(reviewId);
+  if (!review || review.status !== "pending") return null;
+
+  const value = editedValue?.trim();
+  if (value === "") return null;
+  const edited = value !== undefined && value !== review.proposed_value;
+  const provenance: MemoryProvenance = {
+    source: "memory_review",
+    sourceMessageId: review.source_message_id,
+    model: review.model,
+    metadata: edited ? { review_id: review.id, edited: true } : { review_id: review.id },
+  };
+
+  let appliedValue: string;
+  if (value !== undefined && edited) {
+    appliedValue = value;
+    if (!(await adapter.setMemoryValue(review.scope, review.owner_id, review.field_id, appliedValue, provenance))) {
+      return null;
+    }
+  } else {
+    const { data, error } =
+      review.scope === "user"
+        ? await adapter.upsertUserMemoryValue(review.owner_id, review.field_id, review.proposed_value, provenance)
+        : await adapter.upsertChatThreadMemoryValue(review.owner_id, review.field_id, review.proposed_value, provenance);
+    if (error || !data) return null;
+    const values =
+      review.scope === "user"
+        ? await adapter.getAllUserMemoryValues(review.owner_id)
+        : await adapter.getAllChatMemoryValues(review.owner_id);
+    const stored = values[review.field_id];
+    appliedValue = typeof stored === "string" ? stored : review.proposed_value;
+  }
+
+  if (!(await adapter.resolveMemoryReview(review.id, "approved", appliedValue))) return null;
+
+  // Approved facts become part of long-term memory, as automatic updates do
+  const settings = await loadAgentMemorySettings();
+  if (getSemanticMemorySettings(settings).enabled) {
+    const title = findField(settings, review)?.title || review.field_id;
+    await rememberText(
+      adapter,
+      "fact",
+      review.scope === "user" ? { userId: review.owner_id } : { chatId: review.owner_id },
+      `${title}: ${appliedValue}`,
+      undefined,
+      { field_id: review.field_id }
+    );
+  }
+
+  return { ...review, status: "approved", applied_value: appliedValue };
+}
+
+/**
+ * Reject a queued memory update, leaving the field unchanged
+ * @returns False if the update wasn't pending
+ */
+export async function rejectMemoryReview(adapter: DatabaseAdapterInterface, reviewId: string): Promise<boolean> {
+  return adapter.resolveMemoryReview(reviewId, "rejected");
+}
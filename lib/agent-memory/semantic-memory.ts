@@ -0,0 +1,281 @@
+import type { DatabaseAdapterInterface, MemoryChunkRecord } from "../interfaces/database-adapter";
+import { loadAgentMemorySettings } from "../storage/file-storage";
+import type { ThreadMessage } from "@/types/chat";
+import type { MemoryUpdateSuggestions } from "./memory-processor";
+import type { AgentMemorySettingsData } from "./types";
+import { EmbeddingProvider, cosineSimilarity, getEmbeddingProvider } from "./embeddings";
+
+/**
+ * ============= SEMANTIC MEMORY ================
+ * Episodic memory alongside the fixed memory fields. Incoming messages and
+ * every memory field update are split into chunks, embedded and stored per
+ * user and per chat. Before each reply the chunks most similar to the latest
+ * message are recalled and added to the conversation context.
+ *
+ * Group chats only recall what was said in that chat. Individual chats also
+ * recall facts about the user and what they said in their other individual
+ * chats, but never anything from group chats.
+ * ==============================================
+ */
+
+export const DEFAULT_RECALL_TOP_K = 5;
+
+// Recalled chunks less similar than this to the query are left out
+const DEFAULT_MIN_SCORE = 0.2;
+
+// Most recent chunks per user or chat compared against the query
+const RECALL_CANDIDATE_LIMIT = 500;
+
+const MAX_CHUNK_CHARS = 500;
+
+// Messages shorter than this ("ok", "thanks!") aren't worth remembering
+const MIN_CHUNK_WORDS = 3;
+
+export interface SemanticMemorySettings {
+  enabled: boolean;
+  topK: number;
+}
+
+export function getSemanticMemorySettings(settings: AgentMemorySettingsData | null): SemanticMemorySettings {
+  return {
+    enabled: settings?.semanticMemoryEnabled !== false,
+    topK: settings?.semanticMemoryTopK ?? DEFAULT_RECALL_TOP_K,
+  };
+}
+
+function wordCount(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Split text into chunks of whole sentences of at most maxChars. Sentences
+ * longer than that are split between words.
+ */
+export function chunkText(text: string, maxChars: number = MAX_CHUNK_CHARS): string[] {
+  const sentences = text.replace(/\s+/g, " ").trim().split(/(?<=[.!?])\s+/);
+  const chunks: string[] = [];
+  let current = "";
+
+  const push = (piece: string) => {
+    if (current && current.length + piece.length + 1 > maxChars) {
+      chunks.push(current);
+      current = "";
+    }
+    current = current ? `${current} ${piece}` : piece;
+  };
+
+  for (const sentence of sentences) {
+    if (sentence.length <= maxChars) {
+      push(sentence);
+      continue;
+    }
+    for (const word of sentence.split(" ")) {
+      push(word.slice(0, maxChars));
+    }
+  }
+  if (current) chunks.push(current);
+
+  return chunks.filter((chunk) => wordCount(chunk) >= MIN_CHUNK_WORDS);
+}
+
+/**
+ * Who a memory belongs to: the user it is about and/or the chat it came from
+ */
+export interface MemoryOwner {
+  userId?: string | null;
+  chatId?: string | null;
+}
+
+/**
+ * Embed and store a message (split into chunks) or a single fact
+ * @returns Number of chunks stored
+ */
+export async function rememberText(
+  adapter: DatabaseAdapterInterface,
+  kind: MemoryChunkRecord["kind"],
+  owner: MemoryOwner,
+  text: string,
+  provider: EmbeddingProvider = getEmbeddingProvider(),
+  metadata: Record<string, unknown> = {}
+): Promise<number> {
+  if (!owner.userId && !owner.chatId) return 0;
+
+  const chunks = kind === "message" ? chunkText(text) : [text.trim()].filter(Boolean);
+  if (chunks.length === 0) return 0;
+
+  try {
+    const embeddings = await provider.embed(chunks);
+    let stored = 0;
+    for (let i = 0; i < chunks.length; i++) {
+      const id = await adapter.addMemoryChunk({
+        user_id: owner.userId || null,
+        chat_id: owner.chatId || null,
+        kind,
+        content: chunks[i],
+        embedding: embeddings[i],
+        embedding_model: provider.model,
+        metadata,
+      });
+      if (id) stored++;
+    }
+    return stored;
+  } catch (error) {
+    console.error("[SemanticMemory] Error storing memory chunks:", error);
+    return 0;
+  }
+}
+
+export interface RecalledMemory {
+  content: string;
+  kind: MemoryChunkRecord["kind"];
+  created_at: string;
+  score: number;
+}
+
+export interface RecallOptions {
+  query: string;
+  /**
+   * Internal ID of the chat being replied in
+   */
+  chatId: string;
+  /**
+   * Internal ID of the user, only given in individual chats
+   */
+  userId?: string | null;
+  topK?: number;
+  minScore?: number;
+  /**
+   * Texts already in the prompt, such as the recent messages, that shouldn't be recalled again
+   */
+  exclude?: string[];
+  provider?: EmbeddingProvider;
+}
+
+/**
+ * Find the stored memories most similar to a query, most similar first
+ */
+export async function recallMemories(
+  adapter: DatabaseAdapterInterface,
+  options: RecallOptions
+): Promise<RecalledMemory[]> {
+  const provider = options.provider || getEmbeddingProvider();
+  const topK = options.topK ?? DEFAULT_RECALL_TOP_K;
+  if (topK <= 0 || !options.query.trim()) return [];
+
+  try {
+    const candidates = await adapter.getMemoryChunks({ chatId: options.chatId, limit: RECALL_CANDIDATE_LIMIT });
+
+    if (options.userId) {
+      const individualChatIds = new Set(
+        (await adapter.getChatsForUser(options.userId))
+          .filter((chat) => chat.type === "individual")
+          .map((chat) => chat.id)
+      );
+      const userChunks = await adapter.getMemoryChunks({ userId: options.userId, limit: RECALL_CANDIDATE_LIMIT });
+      candidates.push(
+        ...userChunks.filter((chunk) => !chunk.chat_id || individualChatIds.has(chunk.chat_id))
+      );
+    }
+
+    const exclude = new Set((options.exclude || []).map((text) => text.trim()));
+    const seen = new Set<string>();
+    const comparable = candidates.filter((chunk) => {
+      if (chunk.embedding_model !== provider.model || exclude.has(chunk.content)) return false;
+      // The same chunk is found by chat and by user, and facts get stored again
+      if (seen.has(chunk.id) || seen.has(chunk.content)) return false;
+      seen.add(chunk.id).add(chunk.content);
+      return true;
+    });
+    if (comparable.length === 0) return [];
+
+    const [queryEmbedding] = await provider.embed([options.query]);
+    return comparable
+      .map((chunk) => ({
+        content: chunk.content,
+        kind: chunk.kind,
+        created_at: chunk.created_at,
+        score: cosineSimilarity(queryEmbedding, chunk.embedding),
+      }))
+      .filter((memory) => memory.score >= (options.minScore ?? DEFAULT_MIN_SCORE))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  } catch (error) {
+    console.error("[SemanticMemory] Error recalling memories:", error);
+    return [];
+  }
+}
+
+/**
+ * Remember an incoming message, along with the memory field updates it led to.
+ * Updates waiting for review are remembered once approved.
+ * @param senderNumber Phone number of the sender
+ * @param chatId Internal ID of the chat
+ * @returns Number of chunks stored
+ */
+export async function rememberIncomingMessage(
+  adapter: DatabaseAdapterInterface,
+  senderNumber: string,
+  chatId: string,
+  content: string,
+  suggestions: MemoryUpdateSuggestions,
+  provider?: EmbeddingProvider
+): Promise<number> {
+  if (!getSemanticMemorySettings(await loadAgentMemorySettings()).enabled) return 0;
+
+  const user = await adapter.getUserByPhone(senderNumber.replace(/\+/g, ""));
+  const embeddingProvider = provider || getEmbeddingProvider();
+
+  let stored = await rememberText(adapter, "message", { userId: user?.id, chatId }, content, embeddingProvider);
+  for (const update of suggestions.userMemoryUpdates.filter((u) => !u.pending)) {
+    stored += await rememberText(
+      adapter,
+      "fact",
+      { userId: user?.id },
+      `${update.title}: ${update.newValue}`,
+      embeddingProvider,
+      { field_id: update.id }
+    );
+  }
+  for (const update of suggestions.chatMemoryUpdates.filter((u) => !u.pending)) {
+    stored += await rememberText(
+      adapter,
+      "fact",
+      { chatId },
+      `${update.title}: ${update.newValue}`,
+      embeddingProvider,
+      { field_id: update.id }
+    );
+  }
+  return stored;
+}
+
+/**
+ * Recall memories relevant to the latest message of a thread
+ */
+export async function recallMemoriesForThread(
+  adapter: DatabaseAdapterInterface,
+  threadMessages: ThreadMessage[],
+  threadType: string
+): Promise<RecalledMemory[]> {
+  const settings = getSemanticMemorySettings(await loadAgentMemorySettings());
+  const latest = [...threadMessages]
+    .reverse()
+    .find((msg) => msg.sender_number !== process.env.A1BASE_AGENT_NUMBER && msg.content?.trim());
+  if (!settings.enabled || !latest?.thread_id) return [];
+
+  const chat = await adapter.getChatByExternalId(latest.thread_id);
+  if (!chat) return [];
+
+  const user =
+    threadType === "individual"
+      ? await adapter.getUserByPhone(latest.sender_number.replace(/\+/g, ""))
+      : null;
+
+  return recallMemories(adapter, {
+    query: latest.content,
+    chatId: chat.id,
+    userId: user?.id,
+    topK: settings.topK,
+    exclude: threadMessages.map((msg) => msg.content),
+  });
+}
@@ -7,8 +7,15 @@ export interface CustomMemoryField {
   id: string; // Unique ID for React keys and stable updates
   title: string;
   description: string;
+  autoApprove?: MemoryAutoApproveRule; // When approval is required, apply updates to this field without review
 }
 
+/**
+ * "always" applies every update to the field, "when_empty" only the first
+ * value; later changes still wait for review
+ */
+export type MemoryAutoApproveRule = "always" | "when_empty";
+
 export interface AgentMemorySettingField {
   name: never;
   label: string;
@@ -22,6 +29,9 @@ export interface AgentMemorySettingsData {
   userMemoryFields: CustomMemoryField[];
   chatMemoryEnabled: boolean;
   chatThreadMemoryFields: CustomMemoryField[];
+  semanticMemoryEnabled?: boolean; // Embed messages and facts, and recall relevant ones in replies. On unless false
+  semanticMemoryTopK?: number; // Memories recalled per reply, defaults to 5
+  memoryApprovalRequired?: boolean; // Queue suggested memory updates for human review instead of applying them
   memoryTypeNote: string;
   fields: AgentMemorySettingField[];
   title: string;
@@ -0,0 +1,232 @@
+import { ThreadMessage } from "@/types/chat";
+import { TriageModelClient } from "../triage-tools";
+import { analyzeProjectIntent } from "../project-intent";
+import type { ProjectRecord } from "../../interfaces/database-adapter";
+
+/**
+ * ============= KEYWORD TRIAGE CLIENT ================
+ * Deterministic stand-in for the triage model. It picks a tool from keyword
+ * rules and the analyzeProjectIntent heuristics, so the eval harness and tests
+ * can run offline and always give the same result.
+ * It only knows the built-in flows.
+ * ====================================================
+ */
+
+const ONBOARDING_PHRASES = ["start onboarding", "onboard me", "set me up"];
+const NO_REPLY_MESSAGES = ["ok", "okay", "k", "lol", "haha", "👍", "👌", "🙏", "❤️"];
+const PROJECT_LIST_PHRASES = ["what projects", "which projects", "list projects", "list my projects", "show projects", "show my projects", "all projects", "my projects"];
+const EXPORT_PHRASES = ["export my data", "download my data", "copy of my data", "copy of everything"];
+const FORGET_PHRASES = ["forget everything", "forget me", "forget about me", "delete my", "erase my", "erase what you"];
+const TASK_LIST_PHRASES = ["what tasks", "which tasks", "list tasks", "list the tasks", "show tasks", "show the tasks", "tasks left", "my tasks", "open tasks"];
+const PROJECT_UPDATE_WORDS = ["update", "change", "set ", "rename", "status", "priority", "deadline", "due", "assign"];
+
+let callCount = 0;
+
+function toolCall(name: string, args: Record<string, unknown> = {}) {
+  callCount++;
+  return {
+    id: `call_stub_${callCount}`,
+    type: "function" as const,
+    function: { name, arguments: JSON.stringify(args) },
+  };
+}
+
+function latestUserMessage(conversation: ThreadMessage[]): ThreadMessage | undefined {
+  for (let i = conversation.length - 1; i >= 0; i--) {
+    const message = conversation[i];
+    const isAgent = message.role
+      ? message.role === "assistant"
+      : message.sender_number === process.env.A1BASE_AGENT_NUMBER;
+    if (!isAgent) return message;
+  }
+  return undefined;
+}
+
+function includesAny(content: string, phrases: string[]): boolean {
+  return phrases.some((phrase) => content.includes(phrase));
+}
+
+/**
+ * Name of an existing project mentioned in the message, longest match first
+ */
+function mentionedProject(content: string, projects: ProjectRecord[]): ProjectRecord | undefined {
+  return [...projects]
+    .sort((a, b) => b.name.length - a.name.length)
+    .find((p) => content.includes(p.name.toLowerCase()));
+}
+
+/**
+ * Project name from creation phrases like "new project called X" or "create project: X"
+ */
+function extractNewProjectName(content: string): string {
+  const match = content.match(/(?:called|named|project:)\s*["']?([^"'.!?\n]+)/i);
+  return (match ? match[1] : content).trim();
+}
+
+function reportToolCall(content: string) {
+  if (includesAny(content, ["stop", "cancel", "unsubscribe"])) {
+    return toolCall("emailReportFlow", { reportAction: "cancel_scheduled" });
+  }
+
+  const frequency = ["daily", "weekly", "monthly"].find((f) => content.includes(f));
+  if (frequency || includesAny(content, ["schedule", "every day", "every week", "every month"])) {
+    const time = content.match(/\b([01]\d|2[0-3]):([0-5]\d)\b/);
+    return toolCall("emailReportFlow", {
+      reportAction: "request_scheduled",
+      ...(frequency ? { reportFrequency: frequency } : {}),
+      ...(time ? { reportTime: time[0] } : {}),
+    });
+  }
+
+  return toolCall("emailReportFlow", { reportAction: "request_on_demand" });
+}
+
+/**
+ * Task title and due date from phrases like "add a task to book the venue by Friday"
+ */
+function extractTask(original: string): { taskTitle?: string; dueDate?: string } {
+  const match = original.match(/(?:task|todo|to-do)(?:\s+to|:)?\s+(.+?)(?:\s+(?:by|due|before)\s+(.+?))?[.!?]*$/i);
+  if (!match) return {};
+  return { taskTitle: match[1].trim(), ...(match[2] ? { dueDate: match[2].trim() } : {}) };
+}
+
+function taskToolCall(content: string, original: string) {
+  if (!/\b(?:tasks?|todo|to-do)\b/.test(content)) return null;
+
+  if (includesAny(content, TASK_LIST_PHRASES)) {
+    return toolCall("taskFlow", { taskAction: "list" });
+  }
+
+  const { taskTitle, dueDate } = extractTask(original);
+  const title = taskTitle ? { taskTitle } : {};
+  if (includesAny(content, ["reopen", "not done", "isn't done", "not finished", "isn't finished"])) {
+    return toolCall("taskFlow", { taskAction: "reopen", ...title });
+  }
+  if (includesAny(content, ["done", "complete", "finished"])) {
+    return toolCall("taskFlow", { taskAction: "complete", ...title });
+  }
+  const assignee = content.match(/\bassign\b.*\bto\s+(\w+)/);
+  if (assignee) {
+    return toolCall("taskFlow", { taskAction: "assign", ...title, assignee: assignee[1] });
+  }
+  if (includesAny(content, ["move", "reschedule", "push back", "postpone"])) {
+    return toolCall("taskFlow", { taskAction: "reschedule", ...title, ...(dueDate ? { dueDate } : {}) });
+  }
+  return toolCall("taskFlow", { taskAction: "add", ...title, ...(dueDate ? { dueDate } : {}) });
+}
+
+function privacyToolCall(content: string) {
+  if (/^confirm\b/.test(content)) {
+    return toolCall("privacyFlow", { privacyAction: "confirm" });
+  }
+  if (includesAny(content, EXPORT_PHRASES)) {
+    return toolCall("privacyFlow", {
+      privacyAction: "export",
+      ...(content.includes("json") ? { exportFormat: "json" } : {}),
+    });
+  }
+  if (includesAny(content, ["anonymize", "anonymise"])) {
+    return toolCall("privacyFlow", { privacyAction: "anonymize" });
+  }
+
+  const retention = content.match(/(?:after|for)\s+(\d+)\s+(day|week|month|year)s?\b/);
+  if (retention && includesAny(content, ["delete", "keep", "remove", "retain"])) {
+    return toolCall("privacyFlow", {
+      privacyAction: "set_retention",
+      retentionPeriod: Number(retention[1]),
+      retentionUnit: `${retention[2]}s`,
+    });
+  }
+
+  if (includesAny(content, ["stop remembering", "don't remember", "do not remember"])) {
+    return toolCall("privacyFlow", { privacyAction: "consent", consent: { memory: false } });
+  }
+  if (includesAny(content, ["opt out of marketing", "no marketing"])) {
+    return toolCall("privacyFlow", { privacyAction: "consent", consent: { marketing: false } });
+  }
+
+  if (includesAny(content, FORGET_PHRASES)) {
+    const dataTypes = (["messages", "memory", "projects"] as const).filter((type) => content.includes(type));
+    return toolCall("privacyFlow", {
+      privacyAction: "forget",
+      dataTypes: dataTypes.length > 0 ? dataTypes : ["all"],
+    });
+  }
+  return null;
+}
+
+export const keywordTriageClient: TriageModelClient = {
+  name: "keyword-stub",
+  async callTool({ conversation, projects }) {
+    const latest = latestUserMessage(conversation);
+    if (!latest) return toolCall("noReply");
+
+    const original = latest.content.trim();
+    const content = original.toLowerCase();
+
+    if (!content || NO_REPLY_MESSAGES.includes(content)) {
+      return toolCall("noReply");
+    }
+
+    if (includesAny(content, ONBOARDING_PHRASES)) {
+      return toolCall("onboardingFlow");
+    }
+
+    const privacyCall = privacyToolCall(content);
+    if (privacyCall) {
+      return privacyCall;
+    }
+
+    if (content.includes("report")) {
+      return reportToolCall(content);
+    }
+
+    const taskCall = taskToolCall(content, original);
+    if (taskCall) {
+      return taskCall;
+    }
+
+    const projectIntent = await analyzeProjectIntent(latest, projects);
+    const mentioned = mentionedProject(content, projects);
+
+    switch (projectIntent.type) {
+      case "START_NEW_PROJECT": {
+        // Creation language about an existing project is an update
+        if (mentioned) {
+          return toolCall("projectFlow", { projectAction: "update", projectName: mentioned.name });
+        }
+        return toolCall("projectFlow", {
+          projectAction: "create",
+          projectName: extractNewProjectName(original),
+        });
+      }
+      case "COMPLETE_PROJECT": {
+        const target = mentioned || projects.find((p) => p.is_live);
+        return toolCall("projectFlow", {
+          projectAction: "complete",
+          ...(target ? { projectName: target.name } : {}),
+        });
+      }
+      case "REFERENCE_PAST_PROJECT": {
+        const referenced = projects.find((p) => p.id === projectIntent.projectId);
+        return toolCall("projectFlow", { projectAction: "reference", projectName: referenced?.name });
+      }
+    }
+
+    if (includesAny(content, PROJECT_LIST_PHRASES)) {
+      return toolCall("projectFlow", { projectAction: "reference" });
+    }
+
+    if (mentioned) {
+      if (includesAny(content, ["finished", "done with", "complete", "wrapped up"])) {
+        return toolCall("projectFlow", { projectAction: "complete", projectName: mentioned.name });
+      }
+      if (includesAny(content, PROJECT_UPDATE_WORDS)) {
+        return toolCall("projectFlow", { projectAction: "update", projectName: mentioned.name });
+      }
+      return toolCall("projectFlow", { projectAction: "reference", projectName: mentioned.name });
+    }
+
+    return toolCall("simpleResponse");
+  },
+};
@@ -0,0 +1,273 @@
+import fs from "fs";
+import path from "path";
+import { z } from "zod/v4";
+import { ThreadMessage } from "@/types/chat";
+import type { ProjectRecord } from "../../interfaces/database-adapter";
+import { MessageIntent, TriageError, TriageModelClient } from "../triage-tools";
+import { triageMessageIntent } from "../../services/openai";
+import "../flows";
+
+/**
+ * ============= TRIAGE EVAL HARNESS ================
+ * Replays golden conversation fixtures through triageMessageIntent with a
+ * given model client and compares the chosen flow (and project/report action)
+ * with what the fixture expects.
+ *
+ * Fixtures are JSON files in tests/fixtures/triage/. Run with:
+ *   npm run eval:triage -- [--client stub|model] [--fixtures dir]
+ * ==================================================
+ */
+
+export const DEFAULT_FIXTURES_DIR = path.join(process.cwd(), "tests", "fixtures", "triage");
+
+// Reported as the actual responseType when triage throws
+export const TRIAGE_FAILED = "(error)";
+
+const fixtureSchema = z.object({
+  description: z.string().optional(),
+  thread_type: z.enum(["individual", "group"]).default("individual"),
+  messages: z
+    .array(
+      z.object({
+        role: z.enum(["user", "assistant"]),
+        content: z.string(),
+        sender_name: z.string().optional(),
+        timestamp: z.string().optional(),
+      })
+    )
+    .min(1),
+  projects: z
+    .array(
+      z.object({
+        id: z.string().optional(),
+        name: z.string(),
+        description: z.string().optional(),
+        is_live: z.boolean().default(true),
+      })
+    )
+    .default([]),
+  expected: z.object({
+    responseType: z.string(),
+    projectAction: z.string().optional(),
+    reportAction: z.string().optional(),
+    privacyAction: z.string().optional(),
+    taskAction: z.string().optional(),
+  }),
+});
+
+export type TriageFixture = z.infer<typeof fixtureSchema> & {
+  /**
+   * File name without the .json extension
+   */
+  name: string;
+};
+
+export type ExpectedTriage = TriageFixture["expected"];
+
+export class TriageFixtureError extends Error {
+  constructor(file: string, message: string) {
+    super(`${file}: ${message}`);
+    this.name = "TriageFixtureError";
+  }
+}
+
+export interface TriageFieldDiff {
+  field: keyof ExpectedTriage;
+  expected: string;
+  actual: string | undefined;
+}
+
+export interface TriageEvalResult {
+  fixture: TriageFixture;
+  passed: boolean;
+  actual: MessageIntent | null;
+  diffs: TriageFieldDiff[];
+  error?: string;
+}
+
+export interface TriageEvalReport {
+  client: string;
+  results: TriageEvalResult[];
+  /**
+   * Labels in the order used by the confusion matrix
+   */
+  labels: string[];
+  /**
+   * confusion[expected][actual] = number of fixtures
+   */
+  confusion: Record<string, Record<string, number>>;
+}
+
+export type TriageFunction = (
+  threadMessages: ThreadMessage[],
+  projects: ProjectRecord[],
+  client: TriageModelClient
+) => Promise<MessageIntent>;
+
+/**
+ * Load and validate every fixture in a directory, sorted by file name
+ */
+export function loadTriageFixtures(dir: string = DEFAULT_FIXTURES_DIR): TriageFixture[] {
+  if (!fs.existsSync(dir)) {
+    throw new TriageFixtureError(dir, "fixtures directory not found");
+  }
+
+  return fs
+    .readdirSync(dir)
+    .filter((file) => file.endsWith(".json"))
+    .sort()
+    .map((file) => {
+      let raw: unknown;
+      try {
+        raw = JSON.parse(fs.readFileSync(path.join(dir, file), "utf8"));
+      } catch (error) {
+        throw new TriageFixtureError(file, `invalid JSON (${error instanceof Error ? error.message : error})`);
+      }
+
+      const result = fixtureSchema.safeParse(raw);
+      if (!result.success) {
+        throw new TriageFixtureError(
+          file,
+          result.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; ")
+        );
+      }
+      return { ...result.data, name: file.replace(/\.json$/, "") };
+    });
+}
+
+/**
+ * Build the thread messages triage sees from a fixture
+ */
+export function fixtureToThreadMessages(fixture: TriageFixture): ThreadMessage[] {
+  const agentNumber = process.env.A1BASE_AGENT_NUMBER || "agent";
+  return fixture.messages.map((message, index) => ({
+    message_id: `${fixture.name}-${index}`,
+    content: message.content,
+    message_type: "text",
+    message_content: { text: message.content },
+    sender_number: message.role === "assistant" ? agentNumber : "+15550000001",
+    sender_name: message.sender_name || (message.role === "assistant" ? "Agent" : "User"),
+    timestamp: message.timestamp || "",
+    thread_id: fixture.name,
+    thread_type: fixture.thread_type,
+    role: message.role,
+  }));
+}
+
+function fixtureProjects(fixture: TriageFixture): ProjectRecord[] {
+  const createdAt = new Date(0).toISOString();
+  return fixture.projects.map((project, index) => ({
+    id: project.id || `project-${index + 1}`,
+    chat_id: fixture.name,
+    name: project.name,
+    description: project.description || "",
+    created_at: createdAt,
+    updated_at: createdAt,
+    is_live: project.is_live,
+    attributes: {},
+  }));
+}
+
+/**
+ * Compare the fields the fixture expects with the triage result
+ */
+export function diffTriage(expected: ExpectedTriage, actual: MessageIntent | null): TriageFieldDiff[] {
+  const args = (actual?.arguments ?? {}) as Record<string, unknown>;
+  const actualFields: Record<keyof ExpectedTriage, string | undefined> = {
+    responseType: actual ? actual.responseType : TRIAGE_FAILED,
+    projectAction: typeof args.projectAction === "string" ? args.projectAction : undefined,
+    reportAction: typeof args.reportAction === "string" ? args.reportAction : undefined,
+    privacyAction: typeof args.privacyAction === "string" ? args.privacyAction : undefined,
+    taskAction: typeof args.taskAction === "string" ? args.taskAction : undefined,
+  };
+
+  return (Object.keys(expected) as (keyof ExpectedTriage)[])
+    .filter((field) => expected[field] !== undefined && expected[field] !== actualFields[field])
+    .map((field) => ({ field, expected: expected[field]!, actual: actualFields[field] }));
+}
+
+/**
+ * Run every fixture through triage. Fixtures run one at a time so rate
+ * limits and logs stay predictable.
+ */
+export async function runTriageEval(
+  fixtures: TriageFixture[],
+  client: TriageModelClient,
+  triage: TriageFunction = triageMessageIntent
+): Promise<TriageEvalReport> {
+  const results: TriageEvalResult[] = [];
+
+  for (const fixture of fixtures) {
+    let actual: MessageIntent | null = null;
+    let error: string | undefined;
+    try {
+      actual = await triage(fixtureToThreadMessages(fixture), fixtureProjects(fixture), client);
+    } catch (e) {
+      // Anything but a TriageError is a harness or client bug, not a wrong answer
+      if (!(e instanceof TriageError)) throw e;
+      error = e.message;
+    }
+
+    const diffs = diffTriage(fixture.expected, actual);
+    results.push({ fixture, passed: diffs.length === 0, actual, diffs, error });
+  }
+
+  const labels: string[] = [];
+  const confusion: Record<string, Record<string, number>> = {};
+  for (const result of results) {
+    const expected = result.fixture.expected.responseType;
+    const actual = result.actual ? result.actual.responseType : TRIAGE_FAILED;
+    for (const label of [expected, actual]) {
+      if (!labels.includes(label)) labels.push(label);
+    }
+    confusion[expected] = confusion[expected] || {};
+    confusion[expected][actual] = (confusion[expected][actual] || 0) + 1;
+  }
+
+  return { client: client.name, results, labels, confusion };
+}
+
+/**
+ * Render the report as plain text: summary, confusion matrix
+ * (rows are expected, columns are actual) and a diff per failing fixture
+ */
+export function formatTriageEvalReport(report: TriageEvalReport): string {
+  const { results, labels, confusion } = report;
+  const passed = results.filter((r) => r.passed).length;
+  const lines: string[] = [
+    `Triage eval (${report.client}): ${passed}/${results.length} fixtures passed`,
+    "",
+    "Confusion matrix (rows: expected, columns: actual)",
+  ];
+
+  const rowHeader = "expected \\ actual";
+  const firstWidth = Math.max(rowHeader.length, ...labels.map((l) => l.length));
+  const widths = labels.map((l) => Math.max(l.length, 3));
+  lines.push([rowHeader.padEnd(firstWidth), ...labels.map((l, i) => l.padStart(widths[i]))].join("  "));
+  for (const expected of labels) {
+    const row = confusion[expected];
+    if (!row) continue;
+    lines.push(
+      [
+        expected.padEnd(firstWidth),
+        ...labels.map((actual, i) => String(row[actual] || ".").padStart(widths[i])),
+      ].join("  ")
+    );
+  }
+
+  const failures = results.filter((r) => !r.passed);
+  if (failures.length > 0) {
+    lines.push("", "Failures");
+    for (const failure of failures) {
+      lines.push(`  ${failure.fixture.name}${failure.fixture.description ? ` - ${failure.fixture.description}` : ""}`);
+      for (const diff of failure.diffs) {
+        lines.push(`    ${diff.field}: expected ${diff.expected}, got ${diff.actual ?? "(none)"}`);
+      }
+      if (failure.error) {
+        lines.push(`    error: ${failure.error}`);
+      }
+    }
+  }
+
+  return lines.join("\n");
+}
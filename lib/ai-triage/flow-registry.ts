@@ -0,0 +1,93 @@
+import { z } from "zod/v4";
+import { ThreadMessage } from "@/types/chat";
+import type { ProjectRecord } from "../interfaces/database-adapter";
+import type { ThreadParticipant } from "../supabase/types";
+import { TriageResult } from "./types";
+
+/**
+ * ============= TRIAGE FLOW REGISTRY ================
+ * Every flow triageMessage can route a message to is registered here.
+ * A flow declares:
+ *  - name: the tool name the triage model calls
+ *  - description: tells the model when to pick this flow
+ *  - parameters: zod schema for the arguments the model must provide
+ *  - handle: runs the flow with the validated arguments
+ *
+ * To add a flow, create a file in lib/ai-triage/flows/ that exports
+ * defineTriageFlow({...}) and register it in lib/ai-triage/flows/index.ts
+ * ===================================================
+ */
+
+/**
+ * What a flow handler gets besides its arguments
+ */
+export interface TriageFlowContext {
+  thread_id: string;
+  sender_number: string;
+  thread_type: string;
+  service: string;
+  messages: ThreadMessage[];
+  participants: ThreadParticipant[];
+  projects: ProjectRecord[];
+  /**
+   * Generate and send the agent's reply to the thread
+   * @param note Optional context appended as an agent message before replying,
+   * e.g. what the flow just did
+   */
+  reply: (note?: string) => Promise<string>;
+}
+
+export interface TriageFlow<Schema extends z.ZodType = z.ZodType> {
+  name: string;
+  description: string;
+  /**
+   * Extra guidance added to the triage prompt, e.g. phrases that should route to this flow
+   */
+  instructions?: string;
+  parameters: Schema;
+  handle(args: z.infer<Schema>, context: TriageFlowContext): Promise<TriageResult>;
+}
+
+// Flow used when none is chosen or the chosen one isn't registered
+export const DEFAULT_TRIAGE_FLOW = "simpleResponse";
+
+const flows = new Map<string, TriageFlow>();
+
+/**
+ * Typed helper for declaring a flow, so handle() gets the inferred argument type
+ */
+export function defineTriageFlow<Schema extends z.ZodType>(flow: TriageFlow<Schema>): TriageFlow<Schema> {
+  return flow;
+}
+
+/**
+ * Register a flow. Flow names must be unique and usable as tool names.
+ */
+export function registerTriageFlow(flow: TriageFlow): void {
+  if (!/^[a-zA-Z0-9_-]{1,64}$/.test(flow.name)) {
+    throw new Error(`Invalid triage flow name "${flow.name}"`);
+  }
+  if (flows.has(flow.name)) {
+    throw new Error(`Triage flow "${flow.name}" is already registered`);
+  }
+  flows.set(flow.name, flow);
+}
+
+/**
+ * Remove a registered flow
+ * @returns Whether the flow was registered
+ */
+export function unregisterTriageFlow(name: string): boolean {
+  return flows.delete(name);
+}
+
+export function getTriageFlow(name: string): TriageFlow | undefined {
+  return flows.get(name);
+}
+
+/**
+ * Get all registered flows in registration order
+ */
+export function getTriageFlows(): TriageFlow[] {
+  return Array.from(flows.values());
+}
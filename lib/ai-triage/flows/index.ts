@@ -0,0 +1,29 @@
+import { getTriageFlow, registerTriageFlow } from "../flow-registry";
+import { simpleResponseFlow } from "./simple-response";
+import { projectFlow } from "./project";
+import { taskFlow } from "./task";
+import { emailReportFlow } from "./email-report";
+import { onboardingFlow } from "./onboarding";
+import { noReplyFlow } from "./no-reply";
+import { privacyFlow } from "./privacy";
+
+/**
+ * Built-in triage flows, offered to the triage model in this order.
+ * Add your own flow files to this list.
+ */
+export const BUILT_IN_TRIAGE_FLOWS = [
+  simpleResponseFlow,
+  projectFlow,
+  taskFlow,
+  emailReportFlow,
+  onboardingFlow,
+  privacyFlow,
+  noReplyFlow,
+];
+
+for (const flow of BUILT_IN_TRIAGE_FLOWS) {
+  // Guard against the module being evaluated twice, e.g. by hot reloading
+  if (!getTriageFlow(flow.name)) {
+    registerTriageFlow(flow);
+  }
+}
@@ -0,0 +1,18 @@
+import { z } from "zod/v4";
+import { defineTriageFlow } from "../flow-registry";
+
+/**
+ * Stay quiet, e.g. in group chats when the message isn't for the agent
+ */
+export const noReplyFlow = defineTriageFlow({
+  name: "noReply",
+  description: "Don't reply, e.g. the message isn't directed at the agent or needs no answer.",
+  parameters: z.object({}),
+  async handle() {
+    console.log("[TRIAGE] No reply needed");
+    return {
+      type: "default",
+      success: true,
+    };
+  },
+});
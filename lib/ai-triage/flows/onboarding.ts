@@ -0,0 +1,19 @@
+import { z } from "zod/v4";
+import { defineTriageFlow } from "../flow-registry";
+
+/**
+ * Start or continue onboarding. DefaultReplyToMessage detects the
+ * "start onboarding" trigger and runs StartOnboarding.
+ */
+export const onboardingFlow = defineTriageFlow({
+  name: "onboardingFlow",
+  description: "Start or continue user onboarding.",
+  parameters: z.object({}),
+  async handle(_args, context) {
+    return {
+      type: "onboarding",
+      success: true,
+      message: await context.reply(),
+    };
+  },
+});
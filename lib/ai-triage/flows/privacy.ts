@@ -0,0 +1,150 @@
+import { z } from "zod/v4";
+import { getInitializedAdapter } from "../../supabase/config";
+import { defineTriageFlow } from "../flow-registry";
+
+/**
+ * Data retention, deletion, export, anonymization and consent requests
+ */
+export const privacyFlow = defineTriageFlow({
+  name: "privacyFlow",
+  description:
+    "Manage the user's own data: set how long it is kept, delete it, export it, anonymize it, change consent for memory and other processing, or confirm a pending deletion.",
+  instructions: `Privacy patterns to recognize:
+- Retention: "delete my messages after 30 days", "only keep my data for 6 months", "keep my data forever"
+- Forget: "forget everything about me", "delete my messages", "erase what you remember about me", "delete my projects"
+- Export: "export my data", "download my data", "send me a copy of everything you have on me"
+- Anonymize: "anonymize my data", "remove my name and number"
+- Consent: "stop remembering things about me", "you can remember things again", "opt out of marketing"
+- Confirm: "confirm" right after the agent asked the user to confirm a deletion or anonymization`,
+  parameters: z.object({
+    privacyAction: z
+      .enum(["set_retention", "forget", "export", "anonymize", "consent", "confirm"])
+      .describe("The privacy request, or confirm to run a pending forget or anonymize request"),
+    retentionPeriod: z
+      .number()
+      .int()
+      .min(0)
+      .optional()
+      .describe("For set_retention: how many units to keep data for, 0 to keep it indefinitely"),
+    retentionUnit: z
+      .enum(["days", "weeks", "months", "years"])
+      .optional()
+      .describe("For set_retention: unit of retentionPeriod"),
+    dataTypes: z
+      .array(z.enum(["messages", "memory", "projects", "all"]))
+      .optional()
+      .describe("For forget: what to delete, defaults to all"),
+    exportFormat: z
+      .enum(["json", "zip"])
+      .optional()
+      .describe("For export: a single JSON file or a ZIP archive, defaults to zip"),
+    consent: z
+      .object({
+        memory: z.boolean().optional(),
+        marketing: z.boolean().optional(),
+        analytics: z.boolean().optional(),
+        thirdPartySharing: z.boolean().optional(),
+        automatedDecisionMaking: z.boolean().optional(),
+      })
+      .optional()
+      .describe("For consent: the flags the user wants to change"),
+  }),
+  async handle(args, context) {
+    const { thread_id, sender_number, messages, service } = context;
+    const thread_type = context.thread_type === "group" ? "group" : "individual";
+
+    console.log(`[TRIAGE] Privacy flow detected: ${args.privacyAction}`);
+
+    // Dynamic import to avoid circular dependencies with the workflows
+    const workflows = await import("../../workflows/privacy-data-retention-workflows");
+
+    const adapter = await getInitializedAdapter();
+    const user = adapter ? await adapter.getUserByPhone(sender_number.replace(/\+/g, "")) : null;
+    if (!user) {
+      return {
+        type: "default",
+        success: false,
+        message: await context.reply(
+          "The user made a privacy request, but there is no stored data for them (or no database is configured). Tell them nothing about them is stored."
+        ),
+      };
+    }
+
+    // Exports and deletions are personal, keep them out of group chats
+    if (thread_type === "group" && !["set_retention", "consent"].includes(args.privacyAction)) {
+      return {
+        type: "default",
+        success: false,
+        message: await context.reply(
+          "The user asked to export, delete or anonymize their data in a group chat. Ask them to send the request to you in a direct message instead."
+        ),
+      };
+    }
+
+    let message: string;
+    switch (args.privacyAction) {
+      case "set_retention":
+        message = await workflows.SetDataRetention(
+          messages,
+          args.retentionPeriod ?? null,
+          args.retentionUnit || "days",
+          user.id,
+          thread_type,
+          thread_id,
+          sender_number,
+          service
+        );
+        break;
+      case "forget":
+      case "anonymize":
+        message = await workflows.RequestPrivacyConfirmation(
+          args.privacyAction,
+          args.dataTypes?.length ? args.dataTypes : ["all"],
+          user.id,
+          thread_type,
+          thread_id,
+          sender_number,
+          service
+        );
+        break;
+      case "confirm":
+        message = await workflows.ConfirmPrivacyRequest(
+          messages,
+          user.id,
+          thread_type,
+          thread_id,
+          sender_number,
+          service
+        );
+        break;
+      case "export":
+        message = await workflows.DownloadUserData(
+          messages,
+          user.id,
+          args.exportFormat || "zip",
+          thread_type,
+          thread_id,
+          sender_number,
+          service
+        );
+        break;
+      case "consent":
+        message = await workflows.ManageConsentPreferences(
+          messages,
+          user.id,
+          args.consent || {},
+          thread_type,
+          thread_id,
+          sender_number,
+          service
+        );
+        break;
+    }
+
+    return {
+      type: "default",
+      success: true,
+      message,
+    };
+  },
+});
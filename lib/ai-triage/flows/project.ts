@@ -0,0 +1,396 @@
+import { z } from "zod/v4";
+import { getInitializedAdapter } from "../../supabase/config";
+import { defineTriageFlow } from "../flow-registry";
+
+// Free-form object for project attributes, the model decides the structure
+const freeFormObject = z.object({}).catchall(z.unknown());
+
+type ProjectListing = {
+  activeProjects: { name: string; id: string }[];
+  completedProjects: { name: string; id: string }[];
+};
+
+/**
+ * Create, update, complete or reference the chat's projects
+ */
+export const projectFlow = defineTriageFlow({
+  name: "projectFlow",
+  description:
+    "Create, update, complete or reference a project. Use for ALL project-related messages.",
+  instructions: `IMPORTANT DATABASE CONTEXT: In the projects table, the field "is_live" indicates project status:
+- is_live=true means the project is ACTIVE and ongoing
+- is_live=false means the project is COMPLETED
+
+When a user says they've "completed" or "finished" a project, you should set projectAction to "complete" which will update is_live to false.
+
+CRITICAL INSTRUCTION: When analyzing the message, ALWAYS check if it refers to an existing project by comparing project names. If there's ANY similarity between the mentioned project name and an existing project (especially if the project is marked as is_live=true), you MUST set projectAction to "update" rather than "create". Even if the user says "track a project" or uses creation language, if the project name is similar to an existing one, interpret it as an update request.
+
+For attributes, you can create or modify any data structure that seems appropriate, using nested objects if needed.
+Examples:
+- {"status": "in_progress", "priority": "high"}
+- {"members": ["John", "Mary"], "tasks": [{"title": "Research", "status": "done"}, {"title": "Implementation", "status": "pending"}]}`,
+  parameters: z
+    .object({
+      projectAction: z
+        .enum(["create", "update", "complete", "reference"])
+        .describe("What to do with the project"),
+      projectName: z
+        .string()
+        .optional()
+        .describe("Name of the project. Required for create, optional for others if context makes it clear"),
+      projectDescription: z.string().optional().describe("Description of the project, for create"),
+      updates: z
+        .object({
+          name: z.string().optional(),
+          description: z.string().optional(),
+        })
+        .optional()
+        .describe("Changes to the project's basic info, for update"),
+      attributes: freeFormObject
+        .optional()
+        .describe("Every project property beyond name and description, for create"),
+      attributeUpdates: freeFormObject
+        .optional()
+        .describe('Properties to change, for update. e.g. {"status": "in progress", "priority": "high"}'),
+      replaceAttributes: z
+        .boolean()
+        .optional()
+        .describe("Replace all attributes with attributeUpdates instead of merging. Defaults to false"),
+    })
+    .superRefine((args, ctx) => {
+      if (args.projectAction === "create" && !args.projectName?.trim()) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["projectName"],
+          message: "projectName is required when projectAction is create",
+        });
+      }
+    }),
+  async handle(args, context) {
+    const { thread_id } = context;
+
+    // Handle all project-related intents in a single flow
+    const projectAction = args.projectAction || "create";
+    let projectResult = null;
+    let projectMessage = "";
+    let targetProject = null;
+    let projectListing: ProjectListing | null = null;
+
+    // Get project name and description
+    const projectName = args.projectName || "";
+    const projectDescription = args.projectDescription || "";
+
+    // Don't allow project creation with generic names
+    if (projectAction === "create" && (!projectName || projectName === "New Project")) {
+      // If no specific project name was provided, don't create a project
+      return {
+        type: "default",
+        success: true,
+        message: await context.reply(),
+      };
+    }
+
+    // Get the chat ID for project operations
+    let chatId = null;
+    let adapter = null;
+    try {
+      adapter = await getInitializedAdapter();
+      if (adapter) {
+        const thread = await adapter.getThread(thread_id);
+        if (thread && thread.id) {
+          chatId = thread.id;
+        }
+      }
+    } catch (error) {
+      console.error("Error getting chat ID for project operation:", error);
+    }
+
+    if (adapter && chatId) {
+      // Get existing projects to check if we're referencing one
+      const existingProjects = await adapter.getProjectsByChat(chatId);
+
+      console.log(`[PROJECT DEBUG] Looking for target project. Action: ${projectAction}, Name: "${projectName}", Existing projects:`,
+        existingProjects.map(p => ({ id: p.id, name: p.name, is_live: p.is_live })));
+
+      // Find the target project - either specified by name, or use the live project
+      if (projectName && projectName !== "New Project") {
+        // Try to find the project by name first - do an exact match
+        targetProject = existingProjects.find(
+          (p) => p.name.toLowerCase() === projectName.toLowerCase()
+        );
+
+        console.log(`[PROJECT DEBUG] Exact name match result:`, targetProject ?
+          { id: targetProject.id, name: targetProject.name, is_live: targetProject.is_live } : "No exact match");
+
+        // If no exact match, try a fuzzy match for project completion
+        if (!targetProject && projectAction === "complete") {
+          console.log(`[PROJECT DEBUG] Attempting fuzzy match for project completion`);
+
+          // For completion, check if the project name is contained within any existing project names
+          targetProject = existingProjects.find(p =>
+            p.name.toLowerCase().includes(projectName.toLowerCase()) ||
+            projectName.toLowerCase().includes(p.name.toLowerCase())
+          );
+
+          console.log(`[PROJECT DEBUG] Fuzzy match result:`, targetProject ?
+            { id: targetProject.id, name: targetProject.name, is_live: targetProject.is_live } : "No fuzzy match");
+        }
+      }
+
+      // If no project found by name and not creating a new one, use the live project
+      if (!targetProject && projectAction !== "create") {
+        targetProject = existingProjects.find((p) => p.is_live === true);
+        console.log(`[PROJECT DEBUG] Falling back to live project:`, targetProject ?
+          { id: targetProject.id, name: targetProject.name, is_live: targetProject.is_live } : "No live project found");
+      }
+
+      // Process according to the project action
+      switch(projectAction) {
+        case "create":
+          try {
+            // We no longer automatically mark existing live projects as complete
+            // This allows users to have multiple active projects simultaneously
+            // Projects will only be marked as completed when the user explicitly requests it
+
+            // Log the number of active projects for debugging
+            const liveProjects = existingProjects.filter(p => p.is_live === true);
+            console.log(`[PROJECT DEBUG] Creating new project. Currently ${liveProjects.length} active projects exist.`);
+
+            // All attributes outside of name and description go into the attributes object
+            const projectAttributes = args.attributes || {};
+
+            // Create the new project
+            projectResult = await adapter.createProject(
+              projectName,
+              projectDescription,
+              chatId,
+              projectAttributes
+            );
+
+            if (projectResult) {
+              // Log the creation event
+              await adapter.logProjectEvent(
+                projectResult,
+                "project_created",
+                `Project created with name: ${projectName}`
+              );
+
+              projectMessage = `Created new project: ${projectName}`;
+            }
+          } catch (error) {
+            console.error("Error creating project:", error);
+            projectMessage = "Failed to create project";
+          }
+          break;
+
+        case "update":
+          if (targetProject) {
+            try {
+              // Get updates - could be main project details or attributes
+              const basicUpdates = args.updates || {};
+              const attributeUpdates = args.attributeUpdates || {};
+              const replaceAttributes = args.replaceAttributes === true;
+              const updateData = { ...basicUpdates };
+              let attrUpdateResult = true;
+
+              // Apply the basic updates first
+              if (Object.keys(basicUpdates).length > 0) {
+                projectResult = await adapter.updateProject(
+                  targetProject.id,
+                  updateData
+                );
+
+                if (projectResult) {
+                  await adapter.logProjectEvent(
+                    targetProject.id,
+                    "project_updated",
+                    `Project updated: ${JSON.stringify(basicUpdates)}`
+                  );
+                }
+              }
+
+              // Then apply attribute updates if present
+              if (Object.keys(attributeUpdates).length > 0) {
+                attrUpdateResult = await adapter.updateProjectAttributes(
+                  targetProject.id,
+                  attributeUpdates,
+                  replaceAttributes
+                );
+
+                if (attrUpdateResult) {
+                  await adapter.logProjectEvent(
+                    targetProject.id,
+                    "project_attributes_updated",
+                    `Project attributes updated: ${JSON.stringify(attributeUpdates)}`
+                  );
+                }
+              }
+
+              // Update is successful if either basic or attribute updates succeeded
+              projectResult = projectResult || attrUpdateResult;
+              projectMessage = `Updated project: ${targetProject.name}`;
+            } catch (error) {
+              console.error("Error updating project:", error);
+              projectMessage = "Failed to update project";
+            }
+          } else {
+            projectMessage = "No matching project found to update";
+          }
+          break;
+
+        case "complete":
+          console.log("[PROJECT DEBUG] Attempting to complete project:", {
+            projectName,
+            targetProjectId: targetProject?.id,
+            targetProjectName: targetProject?.name,
+            targetProjectIsLive: targetProject?.is_live
+          });
+
+          if (targetProject) {
+            try {
+              console.log(`[PROJECT DEBUG] Found target project to complete: ${targetProject.name} (ID: ${targetProject.id})`);
+
+              // Mark the project as complete
+              projectResult = await adapter.updateProject(
+                targetProject.id,
+                { is_live: false }
+              );
+
+              console.log(`[PROJECT DEBUG] Project update result:`, projectResult);
+
+              if (projectResult) {
+                // Log the completion event
+                await adapter.logProjectEvent(
+                  targetProject.id,
+                  "project_completed",
+                  `Project marked as complete`
+                );
+
+                console.log(`[PROJECT DEBUG] Project completion event logged for: ${targetProject.name}`);
+                projectMessage = `Completed project: ${targetProject.name}`;
+              } else {
+                console.log(`[PROJECT DEBUG] Failed to update project is_live status to false`);
+              }
+            } catch (error) {
+              console.error("[PROJECT DEBUG] Error completing project:", error);
+              projectMessage = "Failed to complete project";
+            }
+          } else {
+            console.log(`[PROJECT DEBUG] No target project found to complete with name: ${projectName}`);
+            projectMessage = "No active project found to complete";
+          }
+          break;
+
+        case "reference":
+          // Special case for listing all projects (when no specific project is referenced)
+          if (!projectName || projectName.trim() === "") {
+            console.log("[PROJECT DEBUG] Handling request to list all projects with status");
+
+            // This is likely a request to list all projects with their status
+            if (existingProjects && existingProjects.length > 0) {
+              const activeProjects = existingProjects.filter(p => p.is_live === true);
+              const completedProjects = existingProjects.filter(p => p.is_live === false);
+
+              projectResult = true; // Mark as successful
+              projectMessage = `Found ${activeProjects.length} active and ${completedProjects.length} completed projects`;
+
+              // Store project lists for the context message
+              projectListing = {
+                activeProjects: activeProjects.map(p => ({ name: p.name, id: p.id })),
+                completedProjects: completedProjects.map(p => ({ name: p.name, id: p.id }))
+              };
+            } else {
+              projectMessage = "No projects found";
+            }
+          }
+          // Regular reference to a specific project
+          else if (targetProject) {
+            projectResult = targetProject.id;
+            projectMessage = `Referenced project: ${targetProject.name}`;
+          } else {
+            projectMessage = "Could not find the referenced project";
+          }
+          break;
+      }
+    } else {
+      projectMessage = "Unable to perform project operation - chat not found";
+    }
+
+    // Create context message about what was done
+    let projectContext = "";
+
+    // Special handling for project listing requests
+    if (projectAction === "reference" && projectListing) {
+      const { activeProjects, completedProjects } = projectListing;
+
+      // Create a formatted list of projects with their status
+      let projectListContext = "Here's a list of all projects with their status:\n\n";
+
+      if (activeProjects.length > 0) {
+        projectListContext += "Active projects:\n";
+        activeProjects.forEach((p) => {
+          projectListContext += `- ${p.name}\n`;
+        });
+        projectListContext += "\n";
+      }
+
+      if (completedProjects.length > 0) {
+        projectListContext += "Completed projects:\n";
+        completedProjects.forEach((p) => {
+          projectListContext += `- ${p.name}\n`;
+        });
+      }
+
+      projectContext = projectListContext.trim();
+    }
+    // Standard project action context
+    else {
+      let actionVerb = "updated";
+      switch(projectAction) {
+        case "create": actionVerb = "created"; break;
+        case "update": actionVerb = "updated"; break;
+        case "complete": actionVerb = "completed"; break;
+        case "reference": actionVerb = "referenced"; break;
+      }
+
+      projectContext = `Project "${projectName}" was just ${actionVerb}. ${projectMessage}`.trim();
+    }
+
+    // Inform the AI about the project action and generate a response
+    const projectResponse = await context.reply(projectContext);
+
+    // Create the response data object with the appropriate fields
+    const projectData: any = {
+      projectAction,
+      projectName,
+    };
+
+    // Add action-specific fields
+    if (projectAction === "create") {
+      projectData.projectDescription = projectDescription;
+      projectData.projectId = projectResult || undefined;
+      projectData.attributes = args.attributes;
+    } else if (projectAction === "update") {
+      projectData.updates = args.updates;
+      projectData.attributeUpdates = args.attributeUpdates;
+      projectData.replaceAttributes = args.replaceAttributes === true;
+    } else if (projectAction === "reference") {
+      // Check if this is a project listing request
+      if (projectListing) {
+        projectData.isProjectListing = true;
+        projectData.activeProjects = projectListing.activeProjects;
+        projectData.completedProjects = projectListing.completedProjects;
+      } else {
+        // Regular project reference
+        projectData.projectId = projectResult || undefined;
+      }
+    }
+
+    return {
+      type: "project",
+      success: projectResult !== null,
+      message: projectResponse,
+      data: projectData,
+    };
+  },
+});
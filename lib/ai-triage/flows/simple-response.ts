@@ -0,0 +1,29 @@
+import { z } from "zod/v4";
+import { defineTriageFlow } from "../flow-registry";
+
+/**
+ * Default flow: reply to the message with the agent's normal response
+ */
+export const simpleResponseFlow = defineTriageFlow({
+  name: "simpleResponse",
+  description:
+    "Reply normally. The default for greetings, questions, statements, or any message from a human user that could benefit from a response.",
+  parameters: z.object({}),
+  async handle(_args, context) {
+    const response = await context.reply();
+
+    if (context.service === "web-ui") {
+      return {
+        type: "default",
+        success: true,
+        message: response,
+      };
+    }
+
+    return {
+      type: "default",
+      success: true,
+      message: response || "Default response sent",
+    };
+  },
+});
@@ -0,0 +1,236 @@
+import { z } from "zod/v4";
+import { getInitializedAdapter } from "../../supabase/config";
+import type { ProjectRecord, ProjectTaskRecord } from "../../interfaces/database-adapter";
+import type { ThreadParticipant } from "../../supabase/types";
+import {
+  byDueDate,
+  describeTask,
+  findAssignees,
+  findTask,
+  formatDueDate,
+  getAssigneeNames,
+  parseDueDate,
+} from "../../services/project-tasks";
+import { defineTriageFlow } from "../flow-registry";
+
+const TASK_ACTIONS = ["add", "assign", "reschedule", "complete", "reopen", "list"] as const;
+
+type TaskAction = (typeof TASK_ACTIONS)[number];
+
+// Event recorded against the project for each change
+const TASK_EVENTS: Partial<Record<TaskAction, string>> = {
+  add: "task_added",
+  assign: "task_assigned",
+  reschedule: "task_rescheduled",
+  complete: "task_completed",
+  reopen: "task_reopened",
+};
+
+/**
+ * The project a task message is about: the one named, otherwise the chat's
+ * only live project
+ */
+function findTaskProject(
+  projects: ProjectRecord[],
+  projectName?: string
+): { project?: ProjectRecord; note?: string } {
+  const live = projects.filter((p) => p.is_live);
+  if (projectName?.trim()) {
+    const name = projectName.trim().toLowerCase();
+    const project =
+      projects.find((p) => p.name.toLowerCase() === name) ||
+      projects.find((p) => p.name.toLowerCase().includes(name) || name.includes(p.name.toLowerCase()));
+    return project ? { project } : { note: `There is no project called "${projectName}" in this chat.` };
+  }
+  if (live.length === 1) return { project: live[0] };
+  if (live.length === 0) {
+    return { note: "There is no active project in this chat to keep tasks for. Offer to create one." };
+  }
+  return {
+    note: `It isn't clear which project the task belongs to. Ask which of these projects it is for: ${live
+      .map((p) => p.name)
+      .join(", ")}.`,
+  };
+}
+
+/**
+ * Add, assign, reschedule, complete, reopen or list the tasks of a project
+ */
+export const taskFlow = defineTriageFlow({
+  name: "taskFlow",
+  description:
+    "Add a task to a project, assign it to someone in the chat, change its due date, mark it done, reopen it, or list a project's tasks.",
+  instructions: `Task patterns to recognize:
+- Add: "add a task to draft the brief", "todo: book the venue by Friday", "Ada needs to send the invoice tomorrow"
+- Assign: "assign the brief to Ada", "give the venue booking to me"
+- Reschedule: "move the venue booking to next Tuesday", "the brief is now due end of the month"
+- Complete: "the brief is done", "mark the venue task as complete", "I sent the invoice"
+- Reopen: "the brief isn't finished after all", "reopen the venue task"
+- List: "what tasks are left?", "what's on my plate for the launch?"
+Use projectFlow for changes to the project itself, including a deadline for the whole project.`,
+  parameters: z
+    .object({
+      taskAction: z.enum(TASK_ACTIONS).describe("What to do with the task"),
+      taskTitle: z
+        .string()
+        .optional()
+        .describe("Short title of the task, e.g. \"Draft the brief\". Required for everything except list"),
+      projectName: z
+        .string()
+        .optional()
+        .describe("Project the task belongs to, if the user named one"),
+      assignee: z
+        .string()
+        .optional()
+        .describe('Name of the chat participant the task is for, or "me" for the sender'),
+      dueDate: z
+        .string()
+        .optional()
+        .describe('When the task is due, as the user said it, e.g. "Friday", "tomorrow at 5pm", "in 3 days"'),
+    })
+    .superRefine((args, ctx) => {
+      if (args.taskAction !== "list" && !args.taskTitle?.trim()) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["taskTitle"],
+          message: `taskTitle is required when taskAction is ${args.taskAction}`,
+        });
+      }
+    }),
+  async handle(args, context) {
+    const { thread_id, sender_number } = context;
+    const participants = (context.participants || []) as ThreadParticipant[];
+    const reply = async (note: string, success: boolean, taskId?: string, projectId?: string) => ({
+      type: "project" as const,
+      success,
+      message: await context.reply(note),
+      data: { taskAction: args.taskAction, taskTitle: args.taskTitle, taskId, projectId },
+    });
+
+    const adapter = await getInitializedAdapter();
+    const thread = adapter ? await adapter.getThread(thread_id) : null;
+    if (!adapter || !thread) {
+      return reply("Tasks can't be managed right now because the chat isn't stored. Let the user know.", false);
+    }
+
+    const { project, note } = findTaskProject(await adapter.getProjectsByChat(thread.id), args.projectName);
+    if (!project) {
+      return reply(note!, false);
+    }
+
+    const tasks = await adapter.getProjectTasks({ projectIds: [project.id] });
+    const notes: string[] = [];
+
+    // Resolve the assignee and due date the user gave, noting what couldn't be understood
+    let assignee: ThreadParticipant | undefined;
+    if (args.assignee?.trim()) {
+      const matches = findAssignees(args.assignee, participants, sender_number);
+      if (matches.length === 1) {
+        assignee = matches[0];
+      } else if (matches.length > 1) {
+        notes.push(`"${args.assignee}" could be ${matches.map((p) => p.name).join(" or ")}; ask who they meant.`);
+      } else {
+        notes.push(`"${args.assignee}" isn't a participant in this chat, so the task wasn't assigned.`);
+      }
+    }
+    let dueAt: Date | null = null;
+    if (args.dueDate?.trim()) {
+      dueAt = parseDueDate(args.dueDate);
+      if (!dueAt) notes.push(`The due date "${args.dueDate}" wasn't understood, ask for a date.`);
+    }
+
+    const title = args.taskTitle?.trim() || "";
+    let task: ProjectTaskRecord | undefined;
+    let done = "";
+
+    switch (args.taskAction) {
+      case "add": {
+        const sender = findAssignees("me", participants, sender_number)[0];
+        const taskId = await adapter.createProjectTask({
+          project_id: project.id,
+          title,
+          assignee_id: assignee?.user_id || null,
+          due_at: dueAt?.toISOString() || null,
+          created_by: sender?.user_id || null,
+        });
+        task = (taskId && (await adapter.getProjectTask(taskId))) || undefined;
+        if (!task) {
+          return reply("The task couldn't be saved. Apologize and ask the user to try again.", false, undefined, project.id);
+        }
+        done = `Added the task "${title}" to ${project.name}`;
+        break;
+      }
+      case "assign":
+      case "reschedule": {
+        task = findTask(tasks, title);
+        if (!task) break;
+        const updates: Partial<ProjectTaskRecord> = {};
+        if (assignee) updates.assignee_id = assignee.user_id;
+        if (dueAt) updates.due_at = dueAt.toISOString();
+        if (Object.keys(updates).length === 0) {
+          return reply(`Nothing was changed on the task "${task.title}". ${notes.join(" ")}`.trim(), false);
+        }
+        if (await adapter.updateProjectTask(task.id, updates)) {
+          task = { ...task, ...updates };
+          done = `Updated the task "${task.title}" in ${project.name}`;
+        }
+        break;
+      }
+      case "complete":
+      case "reopen": {
+        const status = args.taskAction === "complete" ? "done" : "open";
+        task = findTask(tasks.filter((t) => t.status !== status), title) || findTask(tasks, title);
+        if (!task) break;
+        if (task.status === status) {
+          return reply(`The task "${task.title}" is already ${status}.`, true, task.id, project.id);
+        }
+        if (await adapter.updateProjectTask(task.id, { status })) {
+          task = { ...task, status };
+          done = `Marked the task "${task.title}" in ${project.name} as ${status === "done" ? "done" : "open again"}`;
+        }
+        break;
+      }
+      case "list": {
+        const names = await getAssigneeNames(adapter, tasks);
+        const open = tasks.filter((t) => t.status === "open").sort(byDueDate);
+        const completed = tasks.filter((t) => t.status === "done");
+        const lines = [
+          `Tasks in ${project.name}:`,
+          ...(open.length > 0 ? ["Open:", ...open.map((t) => `- ${describeTask(t, names)}`)] : ["No open tasks."]),
+          ...(completed.length > 0 ? ["Done:", ...completed.map((t) => `- ${t.title}`)] : []),
+        ];
+        return reply(lines.join("\n"), true, undefined, project.id);
+      }
+    }
+
+    if (!task) {
+      const known = tasks.map((t) => t.title).join(", ");
+      return reply(
+        `There is no task matching "${title}" in ${project.name}.${known ? ` Its tasks are: ${known}.` : ""}`,
+        false,
+        undefined,
+        project.id
+      );
+    }
+    if (!done) {
+      return reply("The task couldn't be saved. Apologize and ask the user to try again.", false, task.id, project.id);
+    }
+
+    await adapter.addProjectEvent(project.id, TASK_EVENTS[args.taskAction]!, done, {
+      task_id: task.id,
+      ...(assignee ? { assignee_id: assignee.user_id } : {}),
+      ...(dueAt ? { due_at: dueAt.toISOString() } : {}),
+    });
+
+    const details = [
+      assignee ? `assigned to ${assignee.name}` : "",
+      dueAt ? `due ${formatDueDate(dueAt)}` : "",
+    ].filter(Boolean);
+    return reply(
+      [`${done}${details.length > 0 ? ` (${details.join(", ")})` : ""}.`, ...notes].join(" "),
+      true,
+      task.id,
+      project.id
+    );
+  },
+});
@@ -7,9 +7,9 @@ import { triageMessage, projectTriage } from "./triage-logic";
 import {
   initializeDatabase,
   getInitializedAdapter,
-  isSupabaseConfigured,
-  SupabaseAdapter,
-} from "../supabase/config"; // Added SupabaseAdapter type
+  isDatabaseConfigured,
+  DatabaseAdapterInterface,
+} from "../supabase/config";
 import { WebhookPayload } from "@/app/api/a1base/messaging/route";
 import {
   StartOnboarding,
@@ -23,11 +23,30 @@ import {
   processGroupOnboardingMessage,
   isGroupInOnboardingState,
 } from "../workflows/group-onboarding-workflow";
-import { getSplitMessageSetting } from "../settings/message-settings";
+import { getSplitMessageSetting, getVoiceReplySetting } from "../settings/message-settings";
 import { saveMessage, userCheck } from "../data/message-storage"; // userCheck is imported but not used in the original, keeping it.
 import { processMessageForMemoryUpdates } from "../agent-memory/memory-processor"; // Added import
+import { hasConsent } from "../services/user-privacy";
+import { rememberIncomingMessage } from "../agent-memory/semantic-memory";
 import { processIncomingMediaMessage, sendMultimediaMessage, MediaType } from "../messaging/multimedia-handler";
 import { getAgentProfileSettings } from "@/lib/agent-profile/agent-profile-settings";
+import { moderateMessage } from "../safety-config/moderation";
+import {
+  IncomingMedia,
+  MediaUnderstanding,
+  saveMediaUnderstanding,
+  understandMedia,
+} from "../services/media-understanding";
+import { VoiceNoteTranscript, saveVoiceNoteTranscript, transcribeVoiceNote } from "../services/voice-notes";
+import {
+  StoredMedia,
+  saveStoredMedia,
+  storeIncomingMedia,
+  storedMediaContent,
+  storedMediaFields,
+} from "../services/media-ingest";
+import { SendVoiceReply } from "../workflows/multimedia-workflow";
+import { formatMediaDescription } from "../database/adapter-utils";
 
 // --- CONSTANTS ---
 export const MAX_CONTEXT_MESSAGES = 10;
@@ -63,7 +82,7 @@ function normalizePhoneNumber(phoneNumber: string): string {
 /**
  * Ensures the agent user exists in the database
  */
-async function ensureAgentUserExists(adapter: SupabaseAdapter): Promise<string | null> {
+async function ensureAgentUserExists(adapter: DatabaseAdapterInterface): Promise<string | null> {
   if (!process.env.A1BASE_AGENT_NUMBER || !adapter) {
     return null;
   }
@@ -79,27 +98,23 @@ async function ensureAgentUserExists(adapter: SupabaseAdapter): Promise<string |
       console.log(`[AgentUser] Creating agent user for ${process.env.A1BASE_AGENT_NUMBER}`);
       
       // Create the agent user
-      const { data, error } = await adapter.supabase
-        .from('conversation_users')
-        .insert({
-          phone_number: normalizedAgentNumber,
-          name: agentName,
-          service: 'whatsapp',
-          metadata: {
-            is_agent: true,
-            agent_number: process.env.A1BASE_AGENT_NUMBER
-          }
-        })
-        .select('id')
-        .single();
+      const agentUserId = await adapter.getUserFromWebhook(
+        normalizedAgentNumber,
+        agentName,
+        'whatsapp',
+        {
+          is_agent: true,
+          agent_number: process.env.A1BASE_AGENT_NUMBER
+        }
+      );
       
-      if (error) {
-        console.error('[AgentUser] Error creating agent user:', error);
+      if (!agentUserId) {
+        console.error('[AgentUser] Error creating agent user');
         return null;
       }
       
-      console.log(`[AgentUser] Successfully created agent user with ID: ${data.id}`);
-      return data.id;
+      console.log(`[AgentUser] Successfully created agent user with ID: ${agentUserId}`);
+      return agentUserId;
     }
     
     return agentUser.id;
@@ -232,7 +247,7 @@ async function processOnboardingConversation(
  * Saves extracted onboarding information to user metadata in the database.
  */
 async function saveOnboardingInfoToDatabase(
-  adapter: SupabaseAdapter,
+  adapter: DatabaseAdapterInterface,
   senderNumber: string,
   extractedInfo: Record<string, string>,
   isComplete: boolean
@@ -265,7 +280,7 @@ async function saveOnboardingInfoToDatabase(
 async function handleAgenticOnboardingFollowUp(
   threadMessages: MessageRecord[],
   senderNumber?: string,
-  adapter?: SupabaseAdapter | null,
+  adapter?: DatabaseAdapterInterface | null,
   service?: string
 ): Promise<{ text: string; waitForResponse: boolean }> {
   console.log("[Onboarding] Handling agentic follow-up onboarding message. Service:", service);
@@ -435,7 +450,7 @@ async function saveMessageToMemory(
  */
 async function persistIncomingMessage(
   webhookData: WebhookPayload,
-  adapter: SupabaseAdapter | null
+  adapter: DatabaseAdapterInterface | null
 ): Promise<{ chatId: string | null; isNewChatInDb: boolean }> {
   const {
     thread_id,
@@ -530,7 +545,7 @@ async function persistIncomingMessage(
  */
 async function getThreadMessages(
   threadId: string,
-  adapter: SupabaseAdapter | null
+  adapter: DatabaseAdapterInterface | null
 ): Promise<MessageRecord[]> {
   console.log(`[getThreadMessages] Getting messages for thread: ${threadId}`);
   
@@ -569,7 +584,8 @@ async function sendResponseMessage(
   recipientId: string, // thread_id for group, sender_number for individual
   service: string, // Original service from webhook, e.g., "whatsapp" or "sms"
   chatId: string | null, // Database chat ID for storing AI message
-  adapter: SupabaseAdapter | null
+  adapter: DatabaseAdapterInterface | null,
+  threadId?: string // External thread ID, recorded in the moderation log
 ): Promise<void> {
   // Import SMS dependencies at the top of the function (or file)
   const { extendedClient } = require("@/lib/a1base-chat-context/extended-client");
@@ -583,7 +599,7 @@ async function sendResponseMessage(
   console.log("[Send] recipientId:", recipientId);
   console.log("[Send] service:", service);
   console.log("[Send] chatId:", chatId);
-  console.log("[Send] adapter:", adapter ? "SupabaseAdapter instance" : null);
+  console.log("[Send] adapter:", adapter ? "DatabaseAdapter instance" : null);
   console.log("[Send] ================================================");
   
   if (service === SERVICE_WEB_UI || service === SERVICE_SKIP_SEND) {
@@ -591,6 +607,14 @@ async function sendResponseMessage(
     return;
   }
 
+  // Moderate the reply before it leaves, replacing it if it's blocked
+  const moderation = await moderateMessage(text, { direction: "outbound", service, threadId });
+  text = moderation.blocked ? moderation.reply || "" : moderation.text;
+  if (!text.trim()) {
+    console.log("[Send] Nothing left to send after moderation");
+    return;
+  }
+
   // Validate agent configuration
   if (!process.env.A1BASE_AGENT_NUMBER) {
     console.error("[Send] ERROR: A1BASE_AGENT_NUMBER is not configured!");
@@ -777,7 +801,7 @@ async function sendMultimediaResponseMessage(
   recipientId: string, // thread_id for group, sender_number for individual
   service: string, // Original service from webhook, e.g., "whatsapp"
   chatId: string | null, // Database chat ID for storing AI message
-  adapter: SupabaseAdapter | null
+  adapter: DatabaseAdapterInterface | null
 ): Promise<void> {
   // Log all arguments when sending a multimedia message
   console.log("[Send] === sendMultimediaResponseMessage called with arguments ===");
@@ -788,7 +812,7 @@ async function sendMultimediaResponseMessage(
   console.log("[Send] recipientId:", recipientId);
   console.log("[Send] service:", service);
   console.log("[Send] chatId:", chatId);
-  console.log("[Send] adapter:", adapter ? "SupabaseAdapter instance" : null);
+  console.log("[Send] adapter:", adapter ? "DatabaseAdapter instance" : null);
   console.log("[Send] ==========================================================");
   
   if (service === SERVICE_WEB_UI || service === SERVICE_SKIP_SEND) {
@@ -828,7 +852,7 @@ async function sendMultimediaResponseMessage(
  */
 async function checkIfOnboardingNeeded(
   threadId: string,
-  adapter: SupabaseAdapter | null,
+  adapter: DatabaseAdapterInterface | null,
   threadMessages: MessageRecord[]
 ): Promise<boolean> {
   console.log(`[OnboardingCheck] Checking thread ${threadId}, messages count: ${threadMessages.length}`);
@@ -932,7 +956,7 @@ async function checkIfOnboardingNeeded(
 async function manageIndividualOnboardingProcess(
   threadMessages: MessageRecord[],
   webhookData: WebhookPayload,
-  adapter: SupabaseAdapter | null,
+  adapter: DatabaseAdapterInterface | null,
   chatId: string | null
 ): Promise<boolean> {
   // Returns true if onboarding message was sent
@@ -964,7 +988,8 @@ async function manageIndividualOnboardingProcess(
         sender_number,
         service,
         chatId,
-        adapter
+        adapter,
+        thread_id
       );
       return true; // Onboarding follow-up handled and message sent (or skipped appropriately)
     } catch (error) {
@@ -1018,7 +1043,8 @@ async function manageIndividualOnboardingProcess(
             sender_number,
             service,
             chatId,
-            adapter
+            adapter,
+            thread_id
           );
           // Original code had a 1s delay between distinct onboarding messages.
           if (onboardingResponse.messages.length > 1) {
@@ -1047,7 +1073,7 @@ async function manageIndividualOnboardingProcess(
 export async function handleWhatsAppIncoming(
   webhookData: WebhookPayload
 ): Promise<object> {
-  if (isSupabaseConfigured()) {
+  if (isDatabaseConfigured()) {
     await initializeDatabase(); // This initializes the singleton instance in config.ts
   }
   const adapter = await getInitializedAdapter(); // Added await here
@@ -1184,7 +1210,10 @@ export async function handleWhatsAppIncoming(
 
   // Process multimedia messages
   let processedContent = content;
-  let mediaInfo: any = null;
+  let incomingMedia: IncomingMedia | null = null;
+  let mediaUnderstanding: MediaUnderstanding | null = null;
+  let voiceTranscript: VoiceNoteTranscript | null = null;
+  let storedMedia: StoredMedia | null = null;
   
   if (message_type !== 'text' && message_type !== 'rich_text') {
     const mediaData = processIncomingMediaMessage(message_content, message_type);
@@ -1197,12 +1226,91 @@ export async function handleWhatsAppIncoming(
       processedContent = `[Group invite to: ${message_content.groupName}]`;
     } else if (mediaData.mediaType) {
       processedContent = `[${mediaData.mediaType.charAt(0).toUpperCase() + mediaData.mediaType.slice(1)} received${mediaData.caption ? `: ${mediaData.caption}` : ''}]`;
-      mediaInfo = mediaData;
+
+      // Move the file to media storage so the message only keeps a reference to it
+      let mediaRejected = false;
+      if (mediaData.mediaData) {
+        const ingest = await storeIncomingMedia({
+          mediaType: mediaData.mediaType,
+          data: mediaData.mediaData,
+          caption: message_content.caption,
+          filename: message_content.filename,
+        });
+        if (ingest.success) {
+          storedMedia = ingest.media;
+          webhookData = { ...webhookData, message_content: storedMediaContent(webhookData.message_content, ingest.media) };
+        } else if (ingest.rejected) {
+          // Refused files aren't kept anywhere, the message records why
+          console.warn(`[MediaIngest] ${mediaData.mediaType} from ${sender_number} rejected: ${ingest.error}`);
+          mediaRejected = true;
+          const content = { ...webhookData.message_content, media_error: ingest.error };
+          delete content.data;
+          webhookData = { ...webhookData, message_content: content };
+          processedContent += `\n[The ${mediaData.mediaType} couldn't be accepted: ${ingest.error}]`;
+        }
+      }
+
+      // Voice notes are handled as what was said in them
+      if (mediaData.mediaType === 'audio' && mediaData.mediaData && !mediaRejected) {
+        voiceTranscript = await transcribeVoiceNote({
+          mediaType: mediaData.mediaType,
+          data: mediaData.mediaData,
+          filename: message_content.filename,
+        });
+        if (voiceTranscript) {
+          processedContent = voiceTranscript.text;
+        }
+      } else if (mediaData.mediaData && !mediaRejected) {
+        // Look at images and documents so triage and memory see what is in them
+        incomingMedia = {
+          mediaType: mediaData.mediaType,
+          data: mediaData.mediaData,
+          caption: message_content.caption,
+          filename: message_content.filename,
+        };
+        mediaUnderstanding = await understandMedia(incomingMedia, {
+          context: { chatId: thread_id, userId: sender_number },
+        });
+        if (mediaUnderstanding) {
+          processedContent += `\n${formatMediaDescription(mediaData.mediaType, mediaUnderstanding.description)}`;
+        }
+      }
     } else if (message_type === 'unsupported_message_type') {
       processedContent = '[Unsupported message type received]';
     }
   }
 
+  // Moderate the message before it is stored or answered
+  const moderation = await moderateMessage(processedContent, {
+    direction: "inbound",
+    service,
+    threadId: thread_id,
+    messageId: message_id,
+  });
+  if (moderation.blocked) {
+    // Blocked messages are only kept in the moderation log
+    if (moderation.reply) {
+      await sendResponseMessage(
+        moderation.reply,
+        thread_type as "individual" | "group",
+        thread_type === "group" ? thread_id : sender_number,
+        service,
+        null,
+        adapter,
+        thread_id
+      );
+    }
+    return { success: true, message: "Message blocked by moderation." };
+  }
+  if (moderation.action === "rewrite") {
+    if (processedContent === content) {
+      webhookData = { ...webhookData, message_content: { ...webhookData.message_content, text: moderation.text } };
+    } else if (voiceTranscript) {
+      voiceTranscript = { ...voiceTranscript, text: moderation.text };
+    }
+    processedContent = moderation.text;
+  }
+
   // --- Start Memory Update Processing (non-blocking) ---
   // We'll set up the memory processing promise but won't start it until we have the chatId
   let memoryProcessingPromise: Promise<void> | null = null;
@@ -1213,6 +1321,16 @@ export async function handleWhatsAppIncoming(
     adapter
   );
 
+  // Keep the stored file and what was in it with the message for later turns
+  const storedFile = storedMedia && storedMediaFields(storedMedia);
+  if (adapter && chatId && incomingMedia && mediaUnderstanding) {
+    await saveMediaUnderstanding(adapter, message_id, incomingMedia, mediaUnderstanding, storedFile);
+  } else if (adapter && chatId && voiceTranscript) {
+    await saveVoiceNoteTranscript(adapter, message_id, voiceTranscript, storedFile);
+  } else if (adapter && chatId && storedMedia) {
+    await saveStoredMedia(adapter, message_id, storedMedia);
+  }
+
   // Now that we have the chatId, start memory processing if we have content
   if (processedContent && processedContent.trim() !== "" && chatId && adapter) {
     console.log(
@@ -1222,12 +1340,18 @@ export async function handleWhatsAppIncoming(
     // Create a promise that runs memory processing but doesn't block the main flow
     memoryProcessingPromise = (async () => {
       try {
+        if (!(await hasConsent(adapter, sender_number, "memory"))) {
+          console.log(`[MemoryProcessor] Skipping memory processing, ${sender_number} has not consented to memory`);
+          return;
+        }
+
         const memorySuggestions = await processMessageForMemoryUpdates(
           processedContent,
           sender_number, // Using sender_number as userId
           chatId, // Use the internal chat UUID
-          openaiClient,
-          adapter // Pass the adapter instance
+          adapter, // Pass the adapter instance
+          thread_id,
+          message_id
         );
 
         if (memorySuggestions.userMemoryUpdates.length > 0) {
@@ -1250,6 +1374,17 @@ export async function handleWhatsAppIncoming(
             `[MemoryProcessor] No memory updates suggested for message: "${processedContent}"`
           );
         }
+
+        const storedChunks = await rememberIncomingMessage(
+          adapter,
+          sender_number,
+          chatId,
+          processedContent,
+          memorySuggestions
+        );
+        if (storedChunks > 0) {
+          console.log(`[MemoryProcessor] Stored ${storedChunks} semantic memory chunks for ${chatId}`);
+        }
         console.log(`[MemoryProcessor] Memory processing completed for ${chatId}`);
       } catch (memError) {
         console.error(
@@ -1411,10 +1546,23 @@ export async function handleWhatsAppIncoming(
       recipient,
       service,
       chatId,
-      adapter
+      adapter,
+      thread_id
     );
     console.log("[Send] result:", result);
     console.log(`[DEBUG] sendResponseMessage completed for ${recipient}`);
+
+    // Answer voice notes out loud too when voice replies are on
+    if (voiceTranscript && service !== SERVICE_WEB_UI && (await getVoiceReplySetting())) {
+      await SendVoiceReply(
+        [], // Only the reply is spoken, the thread isn't needed
+        triageResponseMessageText,
+        thread_type as "individual" | "group",
+        thread_id,
+        sender_number,
+        service
+      );
+    }
   } else if (!onboardingHandled) {
     console.log(
       `[FlowCtrl] No response generated by triage and onboarding not handled for thread ${thread_id}.`
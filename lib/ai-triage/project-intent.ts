@@ -0,0 +1,66 @@
+import { MessageRecord } from "@/types/chat";
+import { ProjectIntent } from "../workflows/types";
+import type { ProjectRecord } from "../interfaces/database-adapter";
+
+/**
+ * Analyzes a message to determine the user's intent regarding projects
+ */
+export async function analyzeProjectIntent(
+  message: MessageRecord,
+  existingProjects: ProjectRecord[]
+): Promise<ProjectIntent> {
+  // Default to continuing current project
+  const intent: ProjectIntent = { type: "CONTINUE_CURRENT_PROJECT" };
+
+  // Simple keyword matching
+  const content = message.content.toLowerCase();
+
+  // Check for project completion phrases
+  if (
+    content.includes("complete project") ||
+    content.includes("finish project") ||
+    content.includes("mark as done") ||
+    content.includes("project is done") ||
+    content.includes("project complete")
+  ) {
+    intent.type = "COMPLETE_PROJECT";
+    return intent;
+  }
+
+  // Check for explicit project creation phrases - be very strict to avoid false positives
+  if (
+    // Require more specific phrases that clearly indicate project creation intent
+    content.includes("track this project") ||
+    content.includes("track the project") ||
+    content.includes("create a project") ||
+    content.includes("start a project") ||
+    content.includes("make a project") ||
+    content.includes("begin a project") ||
+    content.includes("new project called") ||
+    content.includes("create project called") ||
+    content.includes("track project called") ||
+    // More specific check for project creation with colons
+    // Must start with the phrase and be explicit about creation
+    content.startsWith("create project:") ||
+    content.startsWith("new project:") ||
+    content.startsWith("track project:") ||
+    content.startsWith("project name:")
+  ) {
+    intent.type = "START_NEW_PROJECT";
+    return intent;
+  }
+
+  // Check if referencing a past project by name
+  for (const project of existingProjects.filter((p) => !p.is_live)) {
+    const projectName = project.name.toLowerCase();
+    if (content.includes(projectName)) {
+      intent.type = "REFERENCE_PAST_PROJECT";
+      intent.projectId = project.id;
+      return intent;
+    }
+  }
+
+  // For more sophisticated intent detection, one could use an LLM here
+
+  return intent;
+}
@@ -1,77 +1,13 @@
 import { ThreadMessage, MessageRecord } from "@/types/chat";
 import { getInitializedAdapter } from "../supabase/config";
-import {
-  DefaultReplyToMessage,
-  ConstructEmail,
-} from "../workflows/basic_workflow";
+import { DefaultReplyToMessage } from "../workflows/basic_workflow";
 import { triageMessageIntent } from "../services/openai";
+import { ModelBudgetExceededError } from "../services/model-router";
 import { TriageParams, TriageResult } from "./types";
-import { ProjectIntent } from "../workflows/types";
-
-
-
-/**
- * Analyzes a message to determine the user's intent regarding projects
- */
-async function analyzeProjectIntent(
-  message: MessageRecord,
-  existingProjects: any[]
-): Promise<ProjectIntent> {
-  // Default to continuing current project
-  let intent: ProjectIntent = { type: "CONTINUE_CURRENT_PROJECT" };
-
-  // Simple keyword matching
-  const content = message.content.toLowerCase();
-
-  // Check for project completion phrases
-  if (
-    content.includes("complete project") ||
-    content.includes("finish project") ||
-    content.includes("mark as done") ||
-    content.includes("project is done") ||
-    content.includes("project complete")
-  ) {
-    intent.type = "COMPLETE_PROJECT";
-    return intent;
-  }
-
-  // Check for explicit project creation phrases - be very strict to avoid false positives
-  if (
-    // Require more specific phrases that clearly indicate project creation intent
-    content.includes("track this project") ||
-    content.includes("track the project") ||
-    content.includes("create a project") ||
-    content.includes("start a project") ||
-    content.includes("make a project") ||
-    content.includes("begin a project") ||
-    content.includes("new project called") ||
-    content.includes("create project called") ||
-    content.includes("track project called") ||
-    // More specific check for project creation with colons
-    // Must start with the phrase and be explicit about creation
-    content.startsWith("create project:") ||
-    content.startsWith("new project:") ||
-    content.startsWith("track project:") ||
-    content.startsWith("project name:")
-  ) {
-    intent.type = "START_NEW_PROJECT";
-    return intent;
-  }
-
-  // Check if referencing a past project by name
-  for (const project of existingProjects.filter((p) => !p.is_live)) {
-    const projectName = project.name.toLowerCase();
-    if (content.includes(projectName)) {
-      intent.type = "REFERENCE_PAST_PROJECT";
-      intent.projectId = project.id;
-      return intent;
-    }
-  }
-
-  // For more sophisticated intent detection, one could use an LLM here
-
-  return intent;
-}
+import { analyzeProjectIntent } from "./project-intent";
+import { MessageIntent, TriageError } from "./triage-tools";
+import { DEFAULT_TRIAGE_FLOW, TriageFlowContext, getTriageFlow } from "./flow-registry";
+import "./flows";
 
 /**
  * Create default project name and description from a message
@@ -217,31 +153,43 @@ export async function projectTriage(
         );
     }
 
-    // Default case - return current live project if it exists, otherwise return null
-    // We no longer automatically create projects in the default case
-    if (liveProject) {
-      return liveProject.id;
-    } else {
-      // Don't create a default project - only create projects when explicitly requested
-      return null;
-    }
+    // Every case above returns the live project when there is one, so there is none here.
+    // Don't create a default project - only create projects when explicitly requested
+    return null;
   } catch (error) {
     console.error("Error in project triage:", error);
     return null;
   }
 }
 
+/**
+ * Agent message appended to the thread to give the reply context,
+ * e.g. what a flow just did
+ */
+function agentNote(content: string, thread_id: string, thread_type: string): ThreadMessage {
+  return {
+    content,
+    sender_number: process.env.A1BASE_AGENT_NUMBER || "",
+    sender_name: "Agent",
+    thread_id,
+    thread_type,
+    timestamp: new Date().toISOString(),
+    message_id: `system-ctx-${Date.now()}`,
+    message_type: "text",
+    message_content: { text: content },
+    role: "assistant",
+  };
+}
+
 // ======================== MAIN TRIAGE LOGIC ========================
-// Processes incoming messages and routes them to appropriate workflows
-// in basic_workflow.ts. Currently triages for:
-// - Simple response to one off message
-// - Drafting and sending an email
+// Processes incoming messages, classifies them with triageMessageIntent()
+// and dispatches to the chosen flow in the flow registry.
+// Built-in flows live in lib/ai-triage/flows/.
 //
 // To add new triage cases:
-// 1. Add new responseType to triageMessageIntent() in openai.ts
-// 2. Add corresponding workflow function in basic_workflow.ts
-// 3. Add new case in switch statement below
-// 4. Update TriageResult type if needed
+// 1. Create a flow file in lib/ai-triage/flows/ using defineTriageFlow()
+// 2. Add it to BUILT_IN_TRIAGE_FLOWS in lib/ai-triage/flows/index.ts
+// 3. Update TriageResult type if needed
 // ===================================================================
 
 export async function triageMessage({
@@ -323,686 +271,59 @@ export async function triageMessage({
       latestMessage.content &&
       latestMessage.content.trim().toLowerCase() === "start onboarding";
 
-    // If it's an onboarding trigger, skip the intent classification
-    const triage = isOnboardingTrigger
-      ? { responseType: "onboardingFlow" }
-      : await triageMessageIntent(messages, projects);
-    // Based on the triage result, choose the appropriate workflow
-
-    // Get the chat ID for project operations
-    let chatId = null;
-    let adapter = null;
-    if (
-      !isOnboardingTrigger &&
-      ["projectFlow", "createProject", "updateProject", "completeProject", "referenceProject", "updateProjectAttributes"].includes(triage.responseType)
-    ) {
-      try {
-        adapter = await getInitializedAdapter();
-        if (adapter) {
-          const thread = await adapter.getThread(thread_id);
-          if (thread && thread.id) {
-            chatId = thread.id;
-          }
-        }
-      } catch (error) {
-        console.error("Error getting chat ID for project operation:", error);
-      }
-    }
-
-    switch (triage.responseType) {
-      case "onboardingFlow":
-        const onboardingResponse = await DefaultReplyToMessage(
-          messages,
-          thread_type as "individual" | "group",
-          thread_id,
-          sender_number,
-          service,
-          participants,
-          projects
-        );
-
-        return {
-          type: "onboarding",
-          success: true,
-          message: onboardingResponse,
-        };
-
-      case "emailReportFlow":
-        // Handle email report requests
-        const reportAction = (triage as any).reportAction;
-        const reportFrequency = (triage as any).reportFrequency;
-        const reportTime = (triage as any).reportTime;
-        
-        console.log(`[TRIAGE] Email report flow detected: ${reportAction}`);
-        
-        // Dynamic import of report services to avoid circular dependencies
-        const { ReportSchedulerService } = await import('../services/report-scheduler');
-        const { ReportGeneratorService } = await import('../services/report-generator');
-        const { extractEmailFromMessage, updateUserEmail, isEmailProvisionMessage } = await import('../services/email-report-helpers');
-        const reportScheduler = new ReportSchedulerService();
-        const reportGenerator = new ReportGeneratorService();
-        
-        // Get user information
-        let userId: string | null = null;
-        let userEmail: string | null = null;
-        
-        // Initialize adapter if not already done
-        if (!adapter) {
-          adapter = await getInitializedAdapter();
-        }
-        
-        if (adapter) {
-          // Get the sender's user ID
-          const senderPhone = sender_number.replace(/\+/g, '');
-          const { data: user } = await adapter.supabase
-            .from('conversation_users')
-            .select('id, metadata')
-            .eq('phone_number', senderPhone)
-            .single();
-            
-          if (user) {
-            userId = user.id;
-            userEmail = user.metadata?.email || null;
-          }
-        }
-        
-        if (!userId) {
-          return {
-            type: "default",
-            success: true,
-            message: await DefaultReplyToMessage(
-              [...messages, {
-                content: "I need to identify you first before I can send reports. Please make sure you're registered in the system.",
-                sender_number: process.env.A1BASE_AGENT_NUMBER || "",
-                sender_name: "Agent",
-                thread_id,
-                thread_type,
-                timestamp: new Date().toISOString(),
-                message_id: "",
-                message_type: "text",
-                message_content: { text: "" },
-                role: "assistant"
-              }],
-              thread_type as "individual" | "group",
-              thread_id,
-              sender_number,
-              service,
-              participants,
-              projects
-            ),
-          };
-        }
-        
-        // Check if the latest message contains an email address
-        const latestUserMessage = messages[messages.length - 1];
-        if (!userEmail && latestUserMessage && isEmailProvisionMessage(latestUserMessage.content)) {
-          const extractedEmail = extractEmailFromMessage(latestUserMessage.content);
-          if (extractedEmail) {
-            // Save the email address
-            const saved = await updateUserEmail(sender_number, extractedEmail);
-            if (saved) {
-              userEmail = extractedEmail;
-              // Continue with the report flow using the newly saved email
-            }
-          }
-        }
-        
-        // Check if user has an email address
-        if (!userEmail) {
-          return {
-            type: "default",
-            success: true,
-            message: await DefaultReplyToMessage(
-              [...messages, {
-                content: "I'll need your email address to send you reports. Please provide your email address.",
-                sender_number: process.env.A1BASE_AGENT_NUMBER || "",
-                sender_name: "Agent",
-                thread_id,
-                thread_type,
-                timestamp: new Date().toISOString(),
-                message_id: "",
-                message_type: "text",
-                message_content: { text: "" },
-                role: "assistant"
-              }],
-              thread_type as "individual" | "group",
-              thread_id,
-              sender_number,
-              service,
-              participants,
-              projects
-            ),
-          };
-        }
-        
-        let reportMessage = "";
-        
-        switch (reportAction) {
-          case "request_on_demand":
-            try {
-              // Send on-demand report immediately
-              console.log(`[TRIAGE] Sending on-demand report to ${userEmail}`);
-              
-              // Import the email workflow function
-              const { SendEmailFromAgent } = await import('../workflows/email_workflow');
-              
-              // Generate the report data
-              const reportData = await reportGenerator.generateReport(
-                userId,
-                'project_status',
-                'weekly'
-              );
-              
-              // Set the email address
-              reportData.userEmail = userEmail;
-              
-              // Generate HTML email content
-              const htmlContent = reportGenerator.generateHTMLEmail(reportData);
-              
-              // Prepare email details
-              const emailDetails = {
-                subject: `Your Project Status Report - ${new Date().toLocaleDateString()}`,
-                body: htmlContent,
-                recipient_address: userEmail
-              };
-              
-              // Send the email
-              await SendEmailFromAgent(emailDetails);
-              
-              // Log report history
-              await reportScheduler.logReportHistory(userId, {
-                type: 'on_demand',
-                email_address: userEmail,
-                subject: emailDetails.subject,
-                status: 'sent',
-                sent_at: new Date().toISOString()
-              });
-              
-              console.log(`[TRIAGE] On-demand report sent successfully to ${userEmail}`);
-              reportMessage = `I've sent your project status report to ${userEmail}. Check your inbox!`;
-              
-            } catch (error) {
-              console.error('[TRIAGE] Error sending on-demand report:', error);
-              
-              // Log failed report
-              try {
-                await reportScheduler.logReportHistory(userId, {
-                  type: 'on_demand',
-                  email_address: userEmail,
-                  subject: 'Failed On-Demand Report',
-                  status: 'failed',
-                  error: error instanceof Error ? error.message : 'Unknown error',
-                  sent_at: new Date().toISOString()
-                });
-              } catch (logError) {
-                console.error('[TRIAGE] Error logging failed report:', logError);
-              }
-              
-              reportMessage = "Sorry, I couldn't send the report right now. Please try again later.";
-            }
-            break;
-            
-          case "request_scheduled":
-            try {
-              // Check if user already has scheduled reports
-              const existingReports = await reportScheduler.getUserScheduledReports(userId);
-              
-              if (existingReports.length > 0) {
-                const activeReport = existingReports[0];
-                reportMessage = `You already have a ${activeReport.frequency} report scheduled. Would you like to change the frequency or cancel it?`;
-              } else {
-                // Create scheduled report
-                const frequency = reportFrequency || 'weekly';
-                const time = reportTime || '09:00';
-                
-                const scheduledReport = await reportScheduler.createScheduledReport({
-                  userId,
-                  emailAddress: userEmail,
-                  frequency,
-                  scheduledTime: time,
-                  timezone: 'UTC' // TODO: Get user's actual timezone
-                });
-                
-                if (scheduledReport) {
-                  reportMessage = `Great! I've scheduled ${frequency} project status reports to be sent to ${userEmail}. You'll receive them every ${frequency === 'daily' ? 'day' : frequency === 'weekly' ? 'week' : 'month'} at ${time} UTC.`;
-                } else {
-                  reportMessage = "Sorry, I couldn't schedule the reports. Please try again later.";
-                }
-              }
-            } catch (error) {
-              console.error('[TRIAGE] Error scheduling report:', error);
-              reportMessage = "There was an error scheduling your reports. Please try again later.";
-            }
-            break;
-            
-          case "cancel_scheduled":
-            try {
-              // Get user's scheduled reports
-              const reports = await reportScheduler.getUserScheduledReports(userId);
-              
-              if (reports.length === 0) {
-                reportMessage = "You don't have any scheduled reports to cancel.";
-              } else {
-                // Cancel all active reports
-                let cancelCount = 0;
-                for (const report of reports) {
-                  const success = await reportScheduler.cancelScheduledReport(report.id, userId);
-                  if (success) cancelCount++;
-                }
-                
-                if (cancelCount > 0) {
-                  reportMessage = `I've cancelled your scheduled email reports. You won't receive any more automated reports.`;
-                } else {
-                  reportMessage = "Sorry, I couldn't cancel your reports. Please try again later.";
-                }
-              }
-            } catch (error) {
-              console.error('[TRIAGE] Error cancelling reports:', error);
-              reportMessage = "There was an error cancelling your reports. Please try again later.";
-            }
-            break;
-            
-          default:
-            reportMessage = "I can help you with project reports. You can ask me to send a report now, schedule regular reports, or cancel existing scheduled reports.";
-        }
-        
-        return {
-          type: "default",
-          success: true,
-          message: await DefaultReplyToMessage(
-            [...messages, {
-              content: reportMessage,
-              sender_number: process.env.A1BASE_AGENT_NUMBER || "",
-              sender_name: "Agent",
-              thread_id,
-              thread_type,
-              timestamp: new Date().toISOString(),
-              message_id: "",
-              message_type: "text",
-              message_content: { text: reportMessage },
-              role: "assistant"
-            }],
-            thread_type as "individual" | "group",
-            thread_id,
-            sender_number,
-            service,
-            participants,
-            projects
-          ),
-        };
-
-      case "projectFlow":
-        // Handle all project-related intents in a single flow
-        const projectAction = (triage as any).projectAction || "create";
-        let projectResult = null;
-        let projectMessage = "";
-        let targetProject = null;
-
-        // Get project name and description
-        const projectName = (triage as any).projectName || "";
-        const projectDescription = (triage as any).projectDescription || "";
-        
-        // Don't allow project creation with generic names
-        if (projectAction === "create" && (!projectName || projectName === "New Project")) {
-          // If no specific project name was provided, don't create a project
-          return {
-            type: "default",
-            success: true,
-            message: await DefaultReplyToMessage(
-              messages,
-              thread_type as "individual" | "group",
-              thread_id,
-              sender_number,
-              service,
-              participants,
-              projects
-            ),
-          };
-        }
-        
-        if (adapter && chatId) {
-          // Get existing projects to check if we're referencing one
-          const existingProjects = await adapter.getProjectsByChat(chatId);
-          
-          console.log(`[PROJECT DEBUG] Looking for target project. Action: ${projectAction}, Name: "${projectName}", Existing projects:`, 
-            existingProjects.map(p => ({ id: p.id, name: p.name, is_live: p.is_live })));
-            
-          // Find the target project - either specified by name, or use the live project
-          if (projectName && projectName !== "New Project") {
-            // Try to find the project by name first - do an exact match
-            targetProject = existingProjects.find(
-              (p) => p.name.toLowerCase() === projectName.toLowerCase()
-            );
-            
-            console.log(`[PROJECT DEBUG] Exact name match result:`, targetProject ? 
-              { id: targetProject.id, name: targetProject.name, is_live: targetProject.is_live } : "No exact match");
-              
-            // If no exact match, try a fuzzy match for project completion
-            if (!targetProject && projectAction === "complete") {
-              console.log(`[PROJECT DEBUG] Attempting fuzzy match for project completion`);
-              
-              // For completion, check if the project name is contained within any existing project names
-              targetProject = existingProjects.find(p => 
-                p.name.toLowerCase().includes(projectName.toLowerCase()) || 
-                projectName.toLowerCase().includes(p.name.toLowerCase())
-              );
-              
-              console.log(`[PROJECT DEBUG] Fuzzy match result:`, targetProject ? 
-                { id: targetProject.id, name: targetProject.name, is_live: targetProject.is_live } : "No fuzzy match");
-            }
-          }
-          
-          // If no project found by name and not creating a new one, use the live project
-          if (!targetProject && projectAction !== "create") {
-            targetProject = existingProjects.find((p) => p.is_live === true);
-            console.log(`[PROJECT DEBUG] Falling back to live project:`, targetProject ? 
-              { id: targetProject.id, name: targetProject.name, is_live: targetProject.is_live } : "No live project found");
-          }
-
-          // Process according to the project action
-          switch(projectAction) {
-            case "create":
-              try {
-                // We no longer automatically mark existing live projects as complete
-                // This allows users to have multiple active projects simultaneously
-                // Projects will only be marked as completed when the user explicitly requests it
-                
-                // Log the number of active projects for debugging
-                const liveProjects = existingProjects.filter(p => p.is_live === true);
-                console.log(`[PROJECT DEBUG] Creating new project. Currently ${liveProjects.length} active projects exist.`);
-
-                // All attributes outside of name and description go into the attributes object
-                const projectAttributes = (triage as any).attributes || {};
-
-                // Create the new project
-                projectResult = await adapter.createProject(
-                  projectName,
-                  projectDescription,
-                  chatId,
-                  projectAttributes
-                );
-
-                if (projectResult) {
-                  // Log the creation event
-                  await adapter.logProjectEvent(
-                    projectResult,
-                    "project_created",
-                    `Project created with name: ${projectName}`
-                  );
-
-                  projectMessage = `Created new project: ${projectName}`;
-                }
-              } catch (error) {
-                console.error("Error creating project:", error);
-                projectMessage = "Failed to create project";
-              }
-              break;
-              
-            case "update":
-              if (targetProject) {
-                try {
-                  // Get updates - could be main project details or attributes
-                  const basicUpdates = (triage as any).updates || {};
-                  const attributeUpdates = (triage as any).attributeUpdates || {};
-                  const replaceAttributes = (triage as any).replaceAttributes === true;
-                  const updateData = { ...basicUpdates };
-                  let attrUpdateResult = true;
-                  
-                  // Apply the basic updates first
-                  if (Object.keys(basicUpdates).length > 0) {
-                    projectResult = await adapter.updateProject(
-                      targetProject.id,
-                      updateData
-                    );
-                    
-                    if (projectResult) {
-                      await adapter.logProjectEvent(
-                        targetProject.id,
-                        "project_updated",
-                        `Project updated: ${JSON.stringify(basicUpdates)}`
-                      );
-                    }
-                  }
-                  
-                  // Then apply attribute updates if present
-                  if (Object.keys(attributeUpdates).length > 0) {
-                    attrUpdateResult = await adapter.updateProjectAttributes(
-                      targetProject.id,
-                      attributeUpdates,
-                      replaceAttributes
-                    );
-                    
-                    if (attrUpdateResult) {
-                      await adapter.logProjectEvent(
-                        targetProject.id,
-                        "project_attributes_updated",
-                        `Project attributes updated: ${JSON.stringify(attributeUpdates)}`
-                      );
-                    }
-                  }
-                  
-                  // Update is successful if either basic or attribute updates succeeded
-                  projectResult = projectResult || attrUpdateResult;
-                  projectMessage = `Updated project: ${targetProject.name}`;
-                } catch (error) {
-                  console.error("Error updating project:", error);
-                  projectMessage = "Failed to update project";
-                }
-              } else {
-                projectMessage = "No matching project found to update";
-              }
-              break;
-              
-            case "complete":
-              console.log("[PROJECT DEBUG] Attempting to complete project:", { 
-                projectName, 
-                targetProjectId: targetProject?.id,
-                targetProjectName: targetProject?.name,
-                targetProjectIsLive: targetProject?.is_live
-              });
-              
-              if (targetProject) {
-                try {
-                  console.log(`[PROJECT DEBUG] Found target project to complete: ${targetProject.name} (ID: ${targetProject.id})`);
-                  
-                  // Mark the project as complete
-                  projectResult = await adapter.updateProject(
-                    targetProject.id,
-                    { is_live: false }
-                  );
-                  
-                  console.log(`[PROJECT DEBUG] Project update result:`, projectResult);
-
-                  if (projectResult) {
-                    // Log the completion event
-                    await adapter.logProjectEvent(
-                      targetProject.id,
-                      "project_completed",
-                      `Project marked as complete`
-                    );
-                    
-                    console.log(`[PROJECT DEBUG] Project completion event logged for: ${targetProject.name}`);
-                    projectMessage = `Completed project: ${targetProject.name}`;
-                  } else {
-                    console.log(`[PROJECT DEBUG] Failed to update project is_live status to false`);
-                  }
-                } catch (error) {
-                  console.error("[PROJECT DEBUG] Error completing project:", error);
-                  projectMessage = "Failed to complete project";
-                }
-              } else {
-                console.log(`[PROJECT DEBUG] No target project found to complete with name: ${projectName}`);
-                projectMessage = "No active project found to complete";
-              }
-              break;
-              
-            case "reference":
-              // Special case for listing all projects (when no specific project is referenced)
-              if (!projectName || projectName.trim() === "") {
-                console.log("[PROJECT DEBUG] Handling request to list all projects with status");
-                
-                // This is likely a request to list all projects with their status
-                if (existingProjects && existingProjects.length > 0) {
-                  const activeProjects = existingProjects.filter(p => p.is_live === true);
-                  const completedProjects = existingProjects.filter(p => p.is_live === false);
-                  
-                  projectResult = true; // Mark as successful
-                  projectMessage = `Found ${activeProjects.length} active and ${completedProjects.length} completed projects`;
-                  
-                  // Store project lists for the context message
-                  const projectContext = {
-                    activeProjects: activeProjects.map(p => ({ name: p.name, id: p.id })),
-                    completedProjects: completedProjects.map(p => ({ name: p.name, id: p.id }))
-                  };
-                  
-                  // Set a special attribute to indicate this is a project listing request
-                  (triage as any).projectListing = projectContext;
-                } else {
-                  projectMessage = "No projects found";
-                }
-              } 
-              // Regular reference to a specific project
-              else if (targetProject) {
-                projectResult = targetProject.id;
-                projectMessage = `Referenced project: ${targetProject.name}`;
-              } else {
-                projectMessage = "Could not find the referenced project";
-              }
-              break;
-          }
-        } else {
-          projectMessage = "Unable to perform project operation - chat not found";
-        }
-
-        // Create context message about what was done
-        let projectContext = "";
-        
-        // Special handling for project listing requests
-        if (projectAction === "reference" && (triage as any).projectListing) {
-          const activeProjects = (triage as any).projectListing.activeProjects || [];
-          const completedProjects = (triage as any).projectListing.completedProjects || [];
-          
-          // Create a formatted list of projects with their status
-          let projectListContext = "Here's a list of all projects with their status:\n\n";
-          
-          if (activeProjects.length > 0) {
-            projectListContext += "Active projects:\n";
-            activeProjects.forEach((p: { name: string; id: string }) => {
-              projectListContext += `- ${p.name}\n`;
-            });
-            projectListContext += "\n";
-          }
-          
-          if (completedProjects.length > 0) {
-            projectListContext += "Completed projects:\n";
-            completedProjects.forEach((p: { name: string; id: string }) => {
-              projectListContext += `- ${p.name}\n`;
-            });
-          }
-          
-          projectContext = projectListContext.trim();
-        } 
-        // Standard project action context
-        else {
-          let actionVerb = "updated";
-          switch(projectAction) {
-            case "create": actionVerb = "created"; break;
-            case "update": actionVerb = "updated"; break;
-            case "complete": actionVerb = "completed"; break;
-            case "reference": actionVerb = "referenced"; break;
-          }
-          
-          projectContext = `Project "${projectName}" was just ${actionVerb}. ${projectMessage}`.trim();
-        }
-
-        // Add a system message to inform the AI about the project action
-        const projectMessagesWithContext = [
-          ...messages,
-          {
-            content: projectContext,
-            sender_number: process.env.A1BASE_AGENT_NUMBER || "",
-            sender_name: "AI Assistant",
-            thread_id,
-            thread_type,
-            timestamp: new Date().toISOString(),
-            message_id: `system-ctx-${Date.now()}`,
-            message_type: "text" as ThreadMessage["message_type"],
-            message_content: { text: projectContext },
-            role: "assistant",
-          } as ThreadMessage,
-        ];
-
-        // Generate a response
-        const projectResponse = await DefaultReplyToMessage(
-          projectMessagesWithContext,
-          thread_type as "individual" | "group",
-          thread_id,
-          sender_number,
-          service,
-          participants,
-          projects
-        );
-
-        // Create the response data object with the appropriate fields
-        const projectData: any = {
-          projectAction,
-          projectName,
-        };
-        
-        // Add action-specific fields
-        if (projectAction === "create") {
-          projectData.projectDescription = projectDescription;
-          projectData.projectId = projectResult || undefined;
-          projectData.attributes = (triage as any).attributes;
-        } else if (projectAction === "update") {
-          projectData.updates = (triage as any).updates;
-          projectData.attributeUpdates = (triage as any).attributeUpdates;
-          projectData.replaceAttributes = (triage as any).replaceAttributes === true;
-        } else if (projectAction === "reference") {
-          // Check if this is a project listing request
-          if ((triage as any).projectListing) {
-            projectData.isProjectListing = true;
-            projectData.activeProjects = (triage as any).projectListing.activeProjects;
-            projectData.completedProjects = (triage as any).projectListing.completedProjects;
-          } else {
-            // Regular project reference
-            projectData.projectId = projectResult || undefined;
-          }
-        }
-
-        return {
-          type: "project",
-          success: projectResult !== null,
-          message: projectResponse,
-          data: projectData,
-        };
-
-      case "simpleResponse":
-      default:
-        const response = await DefaultReplyToMessage(
-          messages,
+    const context: TriageFlowContext = {
+      thread_id,
+      sender_number,
+      thread_type,
+      service,
+      messages,
+      participants,
+      projects,
+      reply: (note) =>
+        DefaultReplyToMessage(
+          note ? [...messages, agentNote(note, thread_id, thread_type)] : messages,
           thread_type as "individual" | "group",
           thread_id,
           sender_number,
           service,
           participants,
           projects
-        );
+        ),
+    };
 
-        if (service === "web-ui") {
-          return {
-            type: "default",
-            success: true,
-            message: response,
-          };
-        }
+    // If it's an onboarding trigger, skip the intent classification
+    let triage: MessageIntent;
+    try {
+      triage = isOnboardingTrigger
+        ? { responseType: "onboardingFlow", arguments: {} }
+        : await triageMessageIntent(messages, projects);
+    } catch (error) {
+      // Throttled chats get no reply until the budget period resets
+      if (error instanceof ModelBudgetExceededError) {
+        console.warn(`[TRIAGE] ${error.message}`);
+        return { type: "default", success: false, message: error.message };
+      }
+      if (!(error instanceof TriageError)) throw error;
+
+      // Tell the user rather than guessing, so requests like completing a project aren't silently dropped
+      console.error(`[TRIAGE] ${error.message}`);
+      return {
+        type: "default",
+        success: false,
+        message: await context.reply(
+          "I wasn't able to work out what you'd like me to do with that message, so I haven't made any changes. Could you rephrase it?"
+        ),
+      };
+    }
 
-        return {
-          type: "default",
-          success: true,
-          message: response || "Default response sent",
-        };
+    // Based on the triage result, run the matching flow
+    const flow = getTriageFlow(triage.responseType) || getTriageFlow(DEFAULT_TRIAGE_FLOW);
+    if (!flow) {
+      throw new Error(`No triage flow registered for "${triage.responseType}"`);
     }
+
+    console.log(`[TRIAGE] Running flow: ${flow.name}`);
+    return await flow.handle(triage.arguments, context);
   } catch (error) {
     console.error("Error in message triage:", error);
     return {
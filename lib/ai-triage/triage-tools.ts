@@ -0,0 +1,127 @@
+import { z } from "zod/v4";
+import type {
+  ChatCompletionMessageParam,
+  ChatCompletionMessageToolCall,
+  ChatCompletionTool,
+} from "openai/resources/chat/completions";
+import { ThreadMessage } from "@/types/chat";
+import type { ProjectRecord } from "../interfaces/database-adapter";
+import { TriageFlow, getTriageFlow, getTriageFlows } from "./flow-registry";
+
+/**
+ * ============= TRIAGE TOOLS ================
+ * Each flow in the registry (flow-registry.ts) is offered to the triage
+ * model as a tool. The model must call exactly one of them, and its
+ * arguments are validated against the flow's schema before the flow runs.
+ * ===========================================
+ */
+
+/**
+ * The flow chosen by triage and its validated arguments
+ */
+export type MessageIntent = {
+  responseType: string;
+  arguments: unknown;
+};
+
+/**
+ * One triage completion request
+ */
+export interface TriageModelRequest {
+  /**
+   * Prompt and conversation, including feedback on earlier invalid calls
+   */
+  messages: ChatCompletionMessageParam[];
+  tools: ChatCompletionTool[];
+  /**
+   * The raw thread and projects being triaged, for clients that don't use the prompt
+   */
+  conversation: ThreadMessage[];
+  projects: ProjectRecord[];
+}
+
+/**
+ * Model that picks a triage tool. The default uses the models routed to the
+ * triage task (routedTriageClient in lib/services/openai.ts); others can be
+ * passed to triageMessageIntent, e.g. the deterministic stub used by the eval harness.
+ */
+export interface TriageModelClient {
+  name: string;
+  /**
+   * @returns The tool call the model made, or null if it didn't call a tool
+   */
+  callTool: (request: TriageModelRequest) => Promise<ChatCompletionMessageToolCall | null>;
+}
+
+/**
+ * Thrown when the triage model doesn't produce a valid tool call after retrying
+ */
+export class TriageError extends Error {
+  readonly attempts: number;
+
+  constructor(message: string, attempts: number) {
+    super(message);
+    this.name = "TriageError";
+    this.attempts = attempts;
+  }
+}
+
+/**
+ * Tool definitions to send with the triage completion request
+ * @param flows Flows to offer, defaults to every registered flow
+ */
+export function getTriageToolDefinitions(flows: TriageFlow[] = getTriageFlows()): ChatCompletionTool[] {
+  return flows.map((flow) => {
+    const parameters: Record<string, unknown> = z.toJSONSchema(flow.parameters);
+    delete parameters.$schema;
+    return {
+      type: "function",
+      function: {
+        name: flow.name,
+        description: flow.description,
+        parameters,
+      },
+    };
+  });
+}
+
+/**
+ * Validate a tool call from the triage model
+ * @param name Name of the tool that was called
+ * @param rawArguments JSON arguments string from the tool call
+ * @returns The intent, or an error message to send back to the model
+ */
+export function parseTriageToolCall(
+  name: string,
+  rawArguments: string
+): { success: true; intent: MessageIntent } | { success: false; error: string } {
+  const flow = getTriageFlow(name);
+  if (!flow) {
+    return {
+      success: false,
+      error: `Unknown tool "${name}". Call one of: ${getTriageFlows().map((f) => f.name).join(", ")}`,
+    };
+  }
+
+  let args: unknown;
+  try {
+    args = rawArguments.trim() ? JSON.parse(rawArguments) : {};
+  } catch {
+    return { success: false, error: "Arguments were not valid JSON" };
+  }
+
+  const result = flow.parameters.safeParse(args);
+  if (!result.success) {
+    return {
+      success: false,
+      error: result.error.issues
+        .map((issue) => `${issue.path.length > 0 ? issue.path.join(".") : "arguments"}: ${issue.message}`)
+        .join("; "),
+    };
+  }
+
+  return {
+    success: true,
+    intent: { responseType: name, arguments: result.data },
+  };
+}
@@ -39,5 +39,10 @@ export type TriageResult = {
     updates?: Record<string, any>;
     attributeUpdates?: Record<string, any>;
     replaceAttributes?: boolean;
+  } | {
+    taskAction: "add" | "assign" | "reschedule" | "complete" | "reopen" | "list";
+    taskTitle?: string;
+    taskId?: string;
+    projectId?: string;
   };
 };
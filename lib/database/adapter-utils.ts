@@ -0,0 +1,176 @@
+import { MemoryEntry } from "../interfaces/database-adapter";
+
+/**
+ * Helpers shared by the local database adapters.
+ * These reproduce the row handling SupabaseAdapter does so every backend stores the same data.
+ */
+
+export const MAX_CONTEXT_MESSAGES = 30;
+
+const MEDIA_MESSAGE_TYPES = ["image", "video", "audio", "document"];
+
+const WEB_USER_NAMES = [
+  "Anonymous Panda", "Clever Fox", "Curious Cat", "Wise Owl", "Brave Wolf",
+  "Happy Dolphin", "Quick Rabbit", "Strong Bear", "Gentle Deer", "Bright Peacock",
+  "Swift Eagle", "Cool Penguin", "Smart Raven", "Kind Elephant", "Noble Lion",
+];
+
+/**
+ * Remove '+' and whitespace from a phone number for consistent storage
+ */
+export function normalizePhoneNumber(phoneNumber: string): string {
+  return phoneNumber.replace(/\+|\s/g, "");
+}
+
+/**
+ * Memory methods accept either a user ID or a phone number
+ */
+export function looksLikePhoneNumber(identifier: string): boolean {
+  return identifier.includes("+") || /^\d+$/.test(identifier);
+}
+
+export function randomWebUserName(): string {
+  return WEB_USER_NAMES[Math.floor(Math.random() * WEB_USER_NAMES.length)];
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+/**
+ * Derive the plain text stored in messages.content, never storing base64 media data
+ */
+export function deriveMessageText(
+  content: Record<string, unknown>,
+  messageType: string
+): string {
+  let textContent = typeof content.text === "string" ? content.text : "";
+
+  if (messageType && MEDIA_MESSAGE_TYPES.includes(messageType)) {
+    textContent = content.caption
+      ? `[${capitalize(messageType)} received: ${content.caption}]`
+      : `[${capitalize(messageType)} received]`;
+  } else if (messageType === "location") {
+    textContent = content.name
+      ? `[Location shared: ${content.name}]`
+      : `[Location shared]`;
+  } else if (typeof content === "object" && Object.keys(content).length > 0 && !textContent) {
+    // Take the first string value that isn't base64 data
+    for (const key in content) {
+      const value = content[key];
+      if (value && typeof value === "string" && key !== "data") {
+        textContent = value;
+        break;
+      }
+    }
+
+    if (!textContent) {
+      textContent = `[${messageType || "Message"} received]`;
+    }
+  }
+
+  return textContent;
+}
+
+/**
+ * Line added to a media message's text saying what was in the file
+ */
+export function formatMediaDescription(messageType: string, description: string): string {
+  return `[${capitalize(messageType)} contents: ${description}]`;
+}
+
+/**
+ * Content shown to the AI for a stored message, replacing media with a short
+ * description and what was in the file when it has been described. Voice
+ * notes that were transcribed read as their transcript.
+ */
+export function safeMessageContent(message: {
+  content: string | null;
+  message_type: string | null;
+  media_caption?: string | null;
+  media_description?: string | null;
+  media_transcript?: string | null;
+}): string {
+  const messageType = message.message_type;
+  if (messageType === "audio" && message.media_transcript) {
+    return message.media_transcript;
+  }
+  if (messageType && MEDIA_MESSAGE_TYPES.includes(messageType)) {
+    const received = message.media_caption
+      ? `[${capitalize(messageType)} received: ${message.media_caption}]`
+      : `[${capitalize(messageType)} received]`;
+    return message.media_description
+      ? `${received}\n${formatMediaDescription(messageType, message.media_description)}`
+      : received;
+  }
+  if (messageType === "location") {
+    return "[Location shared]";
+  }
+  return message.content || "";
+}
+
+/**
+ * Fields that hold lists of facts have new values appended instead of replaced
+ */
+function isIntegratedField(fieldId: string): boolean {
+  return (
+    fieldId.includes("preferences") ||
+    fieldId.includes("likes") ||
+    fieldId.includes("dislikes") ||
+    fieldId.includes("topics") ||
+    /\d+/.test(fieldId) // Numeric IDs often used for fact storage
+  );
+}
+
+/**
+ * Apply a memory write to a memory object.
+ * @returns The updated memory, or null when the write doesn't change anything
+ */
+export function mergeMemoryValue(
+  memory: Record<string, MemoryEntry>,
+  fieldId: string,
+  value: string
+): Record<string, MemoryEntry> | null {
+  const existing = memory[fieldId];
+  const now = new Date().toISOString();
+
+  if (!existing || !existing.value || typeof existing.value !== "string") {
+    return { ...memory, [fieldId]: { value, updated_at: now } };
+  }
+
+  if (existing.value === value) {
+    return null;
+  }
+
+  if (isIntegratedField(fieldId)) {
+    if (existing.value.toLowerCase().includes(value.toLowerCase())) {
+      return null;
+    }
+    return {
+      ...memory,
+      [fieldId]: {
+        value: `${existing.value}. ${value}`,
+        updated_at: now,
+        previous_value: existing.value,
+      },
+    };
+  }
+
+  return {
+    ...memory,
+    [fieldId]: { value, updated_at: now, previous_value: existing.value },
+  };
+}
+
+/**
+ * Strip the metadata from a memory object, leaving field ID to value
+ */
+export function memoryValues(memory: Record<string, MemoryEntry> | null | undefined): Record<string, string> {
+  const result: Record<string, string> = {};
+  if (memory) {
+    Object.keys(memory).forEach((key) => {
+      result[key] = memory[key]?.value;
+    });
+  }
+  return result;
+}
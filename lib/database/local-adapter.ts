@@ -0,0 +1,1649 @@
+import { randomUUID } from "crypto";
+import type { WebhookPayload } from "@/app/api/a1base/messaging/route";
+import {
+  DatabaseAdapterInterface,
+  UserRecord,
+  ChatRecord,
+  ProjectRecord,
+  ProjectHistoryRecord,
+  ProjectEventRecord,
+  ProjectTaskFilter,
+  ProjectTaskRecord,
+  ModelUsageRecord,
+  ModelUsageFilter,
+  MemoryChunkRecord,
+  MemoryChunkFilter,
+  MemoryHistoryRecord,
+  MemoryProvenance,
+  MemoryReviewFilter,
+  MemoryReviewRecord,
+  MemoryReviewStatus,
+  MemoryScope,
+  ModerationLogFilter,
+  ModerationLogRecord,
+  CronJobFilter,
+  CronJobRecord,
+  CronExecutionLogFilter,
+  CronExecutionLogRecord,
+  NewCronJob,
+  MediaFileRecord,
+  NewMediaFile,
+  EmailThreadRecord,
+  EmailMessageRecord,
+  EmailAttachmentRecord,
+  NewEmailThread,
+  NewEmailMessage,
+  NewEmailAttachment,
+  EmailDraftFilter,
+  EmailDraftRecord,
+  EmailDraftStatus,
+  NewEmailDraft,
+  WebChatMessage,
+  MessageRow,
+  MessageFilter,
+  ChatMessageStats,
+  MemoryEntry,
+  MemoryResult,
+  MemoryDeleteResult,
+} from "../interfaces/database-adapter";
+import {
+  ThreadData,
+  ThreadMessage,
+  ThreadParticipant,
+} from "../supabase/types";
+import { TableStore, Row, definedOnly } from "./table-store";
+import {
+  MAX_CONTEXT_MESSAGES,
+  normalizePhoneNumber,
+  looksLikePhoneNumber,
+  randomWebUserName,
+  deriveMessageText,
+  safeMessageContent,
+  mergeMemoryValue,
+  memoryValues,
+} from "./adapter-utils";
+import defaultSafetySettings, { SafetySettings } from "../safety-config/safety-settings";
+import { protectStoredMessage, revealStoredMessage } from "../safety-config/redaction";
+
+/**
+ * Row in the chat_participants table
+ */
+interface ChatParticipantRow {
+  chat_id: string;
+  user_id: string;
+}
+
+/**
+ * Row in the user_preferences table
+ */
+interface UserPreferencesRow {
+  user_id: string;
+  preferences: Record<string, unknown>;
+}
+
+function byCreatedAt(a: { created_at: string }, b: { created_at: string }): number {
+  return a.created_at < b.created_at ? -1 : a.created_at > b.created_at ? 1 : 0;
+}
+
+function agentNumber(): string {
+  return process.env.A1BASE_AGENT_NUMBER?.replace(/\+/g, "") || "";
+}
+
+/**
+ * LocalDatabaseAdapter implements the full adapter surface on top of a TableStore,
+ * so the agent can run without a hosted database.
+ * Use MemoryAdapter for throwaway storage or SqliteAdapter for a database file.
+ */
+export class LocalDatabaseAdapter implements DatabaseAdapterInterface {
+  protected readonly store: TableStore;
+  private isInitialized: boolean = false;
+  /** Decides how personal data in stored messages is redacted, anonymized or encrypted */
+  safetySettings: SafetySettings = defaultSafetySettings;
+
+  constructor(store: TableStore) {
+    this.store = store;
+  }
+
+  /**
+   * Initialize the adapter
+   */
+  async init(): Promise<void> {
+    this.isInitialized = true;
+  }
+
+  /**
+   * Release the underlying store
+   */
+  close(): void {
+    this.store.close();
+  }
+
+  /**
+   * Ensure the adapter is initialized before performing operations
+   */
+  private ensureInitialized() {
+    if (!this.isInitialized) {
+      throw new Error(
+        "LocalDatabaseAdapter must be initialized before use. Call init() first."
+      );
+    }
+  }
+
+  /**
+   * Resolve a user ID or phone number to a user ID
+   */
+  private resolveUserId(userId: string): string | null {
+    if (!looksLikePhoneNumber(userId)) return userId;
+    const [user] = this.store.select<UserRecord>("conversation_users", {
+      phone_number: normalizePhoneNumber(userId),
+    });
+    return user ? user.id : null;
+  }
+
+  /**
+   * Resolve an external or internal chat ID to an internal chat ID
+   */
+  private resolveChatId(chatId: string): string | null {
+    const [byExternalId] = this.store.select<ChatRecord>("chats", { external_id: chatId });
+    if (byExternalId) return byExternalId.id;
+    const [byId] = this.store.select<ChatRecord>("chats", { id: chatId });
+    return byId ? byId.id : null;
+  }
+
+  /**
+   * User Operations
+   */
+
+  async createUser(name: string, phoneNumber: string): Promise<string | null> {
+    this.ensureInitialized();
+    try {
+      return this.store.insert<UserRecord>("conversation_users", {
+        name,
+        phone_number: phoneNumber,
+      }).id;
+    } catch (error) {
+      console.error("[LocalDatabaseAdapter] Error creating user:", error);
+      return null;
+    }
+  }
+
+  async getUserFromWebhook(
+    senderNumber: string,
+    senderName: string,
+    service: string,
+    metadata?: Record<string, unknown>
+  ): Promise<string | null> {
+    this.ensureInitialized();
+
+    // Remove + from phone number for consistent storage
+    const normalizedNumber = senderNumber.replace(/\+/g, "");
+
+    try {
+      const [existingUser] = this.store.select<UserRecord>("conversation_users", {
+        phone_number: normalizedNumber,
+      });
+      if (existingUser) return existingUser.id;
+
+      return this.store.insert<UserRecord>("conversation_users", {
+        name: senderName,
+        phone_number: normalizedNumber,
+        service,
+        metadata: metadata || {},
+      }).id;
+    } catch (error) {
+      console.error("[LocalDatabaseAdapter] Error getting user from webhook:", error);
+      return null;
+    }
+  }
+
+  private mergeUserUpdates(
+    where: Row,
+    updates: { name?: string; metadata?: Record<string, unknown> }
+  ): boolean {
+    const [user] = this.store.select<UserRecord>("conversation_users", where);
+    if (!user) return false;
+
+    const changes: Row = { ...updates };
+    if (updates.metadata) {
+      changes.metadata = { ...(user.metadata || {}), ...updates.metadata };
+    }
+    this.store.update("conversation_users", where, changes);
+    return true;
+  }
+
+  async updateUser(
+    phoneNumber: string,
+    updates: { name?: string; metadata?: Record<string, unknown> }
+  ): Promise<boolean> {
+    this.ensureInitialized();
+    try {
+      return this.mergeUserUpdates({ phone_number: phoneNumber }, updates);
+    } catch (error) {
+      console.error("[LocalDatabaseAdapter] Error updating user:", error);
+      return false;
+    }
+  }
+
+  async updateUserById(
+    userId: string,
+    updates: { name?: string; metadata?: Record<string, unknown> }
+  ): Promise<boolean> {
+    this.ensureInitialized();
+    try {
+      return this.mergeUserUpdates({ id: userId }, updates);
+    } catch (error) {
+      console.error("[LocalDatabaseAdapter] Error updating user:", error);
+      return false;
+    }
+  }
+
+  async getUserByPhone(phoneNumber: string): Promise<UserRecord | null> {
+    this.ensureInitialized();
+    const [user] = this.store.select<UserRecord>("conversation_users", { phone_number: phoneNumber });
+    return user || null;
+  }
+
+  async getUserById(userId: string): Promise<UserRecord | null> {
+    this.ensureInitialized();
+    const [user] = this.store.select<UserRecord>("conversation_users", { id: userId });
+    return user || null;
+  }
+
+  async getUserOnboardingData(phoneNumber: string): Promise<Record<string, unknown> | null> {
+    this.ensureInitialized();
+    const user = await this.getUserByPhone(phoneNumber);
+    return user?.metadata || null;
+  }
+
+  async createWebUser(): Promise<{ id: string; name: string } | null> {
+    this.ensureInitialized();
+    try {
+      const name = randomWebUserName();
+      const user = this.store.insert<UserRecord>("conversation_users", {
+        name,
+        phone_number: null,
+        service: "web-ui",
+      });
+      return { id: user.id, name };
+    } catch (error) {
+      console.error("[LocalDatabaseAdapter] Error creating web user:", error);
+      return null;
+    }
+  }
+
+  async getAllUsers(): Promise<UserRecord[]> {
+    this.ensureInitialized();
+    return this.store.select<UserRecord>("conversation_users").sort(byCreatedAt);
+  }
+
+  async anonymizeUser(
+    userId: string,
+    pseudonym: string,
+    metadata: Record<string, unknown> = {}
+  ): Promise<boolean> {
+    this.ensureInitialized();
+    try {
+      const [user] = this.store.select<UserRecord>("conversation_users", { id: userId });
+      if (!user) return false;
+
+      // Usage is recorded against the sender's number as well as the user ID
+      const identifiers = [userId];
+      if (user.phone_number) identifiers.push(user.phone_number, `+${user.phone_number}`);
+      for (const identifier of identifiers) {
+        this.store.update("model_usage", { user_id: identifier }, { user_id: null });
+      }
+
+      this.store.update("conversation_users", { id: userId }, {
+        name: pseudonym,
+        phone_number: null,
+        metadata,
+        memory: {},
+      });
+      return true;
+    } catch (error) {
+      console.error("[LocalDatabaseAdapter] Error anonymizing user:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Thread/Chat Operations
+   */
+
+  async processWebhookPayload(
+    payload: WebhookPayload
+  ): Promise<{ success: boolean; isNewChat: boolean; chatId: string | null }> {
+    try {
+      const userId = await this.getUserFromWebhook(
+        payload.sender_number,
+        payload.sender_name,
+        payload.service,
+        { a1_account_id: payload.a1_account_id }
+      );
+      if (!userId) throw new Error("Failed to get or create user");
+
+      const existingChat = await this.getChatByExternalId(payload.thread_id);
+      const isNewChat = !existingChat;
+      const chatId =
+        existingChat?.id ||
+        (await this.getChatFromWebhook(
+          payload.thread_id,
+          payload.thread_type,
+          payload.service,
+          { a1_account_id: payload.a1_account_id }
+        ));
+      if (!chatId) throw new Error("Failed to get or create chat");
+
+      if (!(await this.addParticipantToChat(chatId, userId))) {
+        throw new Error("Failed to add participant to chat");
+      }
+
+      const messageId = await this.storeMessage(
+        chatId,
+        userId,
+        payload.message_id,
+        payload.message_content,
+        payload.message_type,
+        payload.service
+      );
+      if (!messageId) throw new Error("Failed to store message");
+
+      return { success: true, isNewChat, chatId };
+    } catch (error) {
+      console.error("[LocalDatabaseAdapter] Error processing webhook payload:", error);
+      return { success: false, isNewChat: false, chatId: null };
+    }
+  }
+
+  async getThread(threadId: string): Promise<ThreadData | null> {
+    this.ensureInitialized();
+
+    const chat = await this.getChatByExternalId(threadId);
+    if (!chat) return null;
+
+    const users = new Map<string, UserRecord>(
+      this.store.select<UserRecord>("conversation_users").map((user) => [user.id, user])
+    );
+
+    const recentMessages = this.store
+      .select<MessageRow>("messages", { chat_id: chat.id })
+      .sort(byCreatedAt)
+      .slice(-MAX_CONTEXT_MESSAGES);
+
+    // What was in described media and what was said in voice notes, so later turns can refer to it
+    const mediaDescriptions = new Map<string, string>();
+    const mediaTranscripts = new Map<string, string>();
+    for (const file of await this.getMediaFiles(recentMessages.map((msg) => msg.id))) {
+      const { description, transcript } = file.metadata || {};
+      if (typeof description === "string" && description) mediaDescriptions.set(file.message_id, description);
+      if (typeof transcript === "string" && transcript) mediaTranscripts.set(file.message_id, transcript);
+    }
+
+    const messages: ThreadMessage[] = recentMessages
+      .map(revealStoredMessage)
+      .map((msg) => {
+        const sender = msg.sender_id ? users.get(msg.sender_id) : undefined;
+        return {
+          message_id: msg.id,
+          external_id: msg.external_id ?? undefined,
+          content: safeMessageContent({
+            content: msg.content,
+            message_type: msg.message_type,
+            media_description: mediaDescriptions.get(msg.id),
+            media_transcript: mediaTranscripts.get(msg.id),
+          }),
+          message_type: msg.message_type || "text",
+          message_content: msg.rich_content || {},
+          service: msg.service ?? undefined,
+          sender_id: msg.sender_id ?? undefined,
+          sender_number: sender?.phone_number || "",
+          sender_name: sender?.name || "",
+          sender_service: sender?.service || "",
+          sender_metadata: sender?.metadata || {},
+          timestamp: msg.created_at,
+        };
+      });
+
+    const participants: ThreadParticipant[] = this.store
+      .select<ChatParticipantRow>("chat_participants", { chat_id: chat.id })
+      .map((p) => {
+        const user = users.get(p.user_id);
+        const [preferences] = this.store.select<UserPreferencesRow>("user_preferences", { user_id: p.user_id });
+        return {
+          user_id: p.user_id,
+          phone_number: user?.phone_number || "",
+          name: user?.name || "",
+          service: user?.service || "",
+          metadata: user?.metadata || {},
+          created_at: user?.created_at,
+          preferences: preferences?.preferences || {},
+        };
+      });
+
+    const projects = this.store
+      .select<ProjectRecord>("projects", { chat_id: chat.id })
+      .map(({ id, name, description, created_at, is_live }) => ({
+        id,
+        name,
+        description: description ?? undefined,
+        created_at,
+        is_live,
+      }));
+
+    // Determine the current sender from participants
+    let sender: ThreadParticipant | undefined;
+    if (participants.length > 0) {
+      if (chat.type === "individual") {
+        sender = participants.find(
+          (p) => p.phone_number.replace(/\+/g, "") !== agentNumber()
+        );
+      } else if (chat.type === "group" && messages.length > 0) {
+        const mostRecentMessage = messages[messages.length - 1];
+        sender = participants.find(
+          (p) => p.phone_number === mostRecentMessage.sender_number
+        );
+      }
+      sender = sender || participants[0];
+    }
+
+    return {
+      id: chat.id,
+      external_id: chat.external_id || undefined,
+      type: chat.type,
+      name: chat.name || undefined,
+      service: chat.service || undefined,
+      created_at: chat.created_at,
+      metadata: chat.metadata || undefined,
+      messages,
+      participants,
+      projects,
+      sender: sender || null,
+    };
+  }
+
+  async updateThreadMessages(
+    threadId: string,
+    messages: Record<string, unknown>[]
+  ): Promise<boolean> {
+    this.ensureInitialized();
+    try {
+      this.store.transaction(() => {
+        this.store.delete("messages", { chat_id: threadId });
+        for (const message of messages) {
+          const messageContent = (message.message_content || message) as Record<string, unknown>;
+          this.insertMessage({
+            chat_id: threadId,
+            content: JSON.stringify(messageContent),
+            message_type: message.message_type || "text",
+            service: message.service || "",
+            external_id:
+              message.message_id ||
+              `${Date.now()}-${Math.random().toString(36).substring(2, 10)}`,
+            sender_id: message.sender_id || null,
+            rich_content: messageContent,
+            created_at: message.timestamp || new Date().toISOString(),
+          });
+        }
+      });
+      return true;
+    } catch (error) {
+      console.error("[LocalDatabaseAdapter] Error updating thread messages:", error);
+      return false;
+    }
+  }
+
+  async updateThreadParticipants(
+    threadId: string,
+    participants: Record<string, unknown>[]
+  ): Promise<boolean> {
+    this.ensureInitialized();
+    try {
+      const userIds = participants
+        .map((participant) => {
+          if (participant.user_id) return String(participant.user_id);
+          if (participant.number) {
+            const [user] = this.store.select<UserRecord>("conversation_users", {
+              phone_number: String(participant.number).replace(/\+/g, ""),
+            });
+            return user?.id || null;
+          }
+          return null;
+        })
+        .filter((id): id is string => id !== null);
+
+      this.store.transaction(() => {
+        this.store.delete("chat_participants", { chat_id: threadId });
+        for (const userId of new Set(userIds)) {
+          this.store.insert<ChatParticipantRow>("chat_participants", { chat_id: threadId, user_id: userId });
+        }
+      });
+      return true;
+    } catch (error) {
+      console.error("[LocalDatabaseAdapter] Error updating thread participants:", error);
+      return false;
+    }
+  }
+
+  async createThread(
+    threadId: string,
+    messages: Record<string, unknown>[] = [],
+    participants?: Record<string, unknown>[],
+    threadType: string = "chat"
+  ): Promise<string | null> {
+    this.ensureInitialized();
+    try {
+      const [existingThread] = this.store.select<ChatRecord>("chats", { id: threadId });
+      if (existingThread) return existingThread.id;
+
+      return this.store.transaction(() => {
+        const chat = this.store.insert<ChatRecord>("chats", {
+          id: threadId,
+          type: threadType,
+          name: "",
+          external_id: threadId,
+        });
+
+        for (const message of messages) {
+          this.insertMessage({
+            chat_id: chat.id,
+            content:
+              typeof message.text === "string" ? message.text : JSON.stringify(message),
+          });
+        }
+        return chat.id;
+      });
+    } catch (error) {
+      console.error("[LocalDatabaseAdapter] Error creating thread:", error);
+      return null;
+    }
+  }
+
+  async getChatFromWebhook(
+    threadId: string,
+    threadType: string,
+    service: string,
+    metadata?: Record<string, unknown>
+  ): Promise<string | null> {
+    this.ensureInitialized();
+    try {
+      const existingChat = await this.getChatByExternalId(threadId);
+      if (existingChat) return existingChat.id;
+
+      return this.store.insert<ChatRecord>("chats", {
+        external_id: threadId,
+        type: ["individual", "group"].includes(threadType) ? threadType : "individual",
+        service,
+        metadata: metadata || {},
+      }).id;
+    } catch (error) {
+      console.error("[LocalDatabaseAdapter] Error creating chat:", error);
+      return null;
+    }
+  }
+
+  async getChatByExternalId(externalId: string): Promise<ChatRecord | null> {
+    this.ensureInitialized();
+    const [chat] = this.store.select<ChatRecord>("chats", { external_id: externalId });
+    return chat || null;
+  }
+
+  async getAllChats(): Promise<ChatRecord[]> {
+    this.ensureInitialized();
+    return this.store.select<ChatRecord>("chats").sort(byCreatedAt);
+  }
+
+  async getChatsForUser(userId: string): Promise<ChatRecord[]> {
+    this.ensureInitialized();
+    return this.store
+      .select<ChatParticipantRow>("chat_participants", { user_id: userId })
+      .map((p) => this.store.select<ChatRecord>("chats", { id: p.chat_id })[0])
+      .filter(Boolean);
+  }
+
+  async createChat(creatorId: string): Promise<{ id: string; external_id: string } | null> {
+    this.ensureInitialized();
+    try {
+      return this.store.transaction(() => {
+        const externalId = randomUUID();
+        const chat = this.store.insert<ChatRecord>("chats", {
+          external_id: externalId,
+          service: "web-ui",
+          type: "group",
+          name: "New Chat",
+        });
+        this.store.insert<ChatParticipantRow>("chat_participants", { chat_id: chat.id, user_id: creatorId });
+        return { id: chat.id, external_id: externalId };
+      });
+    } catch (error) {
+      console.error("[LocalDatabaseAdapter] Error creating chat:", error);
+      return null;
+    }
+  }
+
+  async updateChatMetadata(chatId: string, metadata: Record<string, unknown>): Promise<boolean> {
+    this.ensureInitialized();
+    const [chat] = this.store.select<ChatRecord>("chats", { id: chatId });
+    if (!chat) {
+      console.error(`[LocalDatabaseAdapter] Chat ${chatId} not found when updating metadata`);
+      return false;
+    }
+    this.store.update("chats", { id: chatId }, {
+      metadata: { ...(chat.metadata || {}), ...metadata },
+    });
+    return true;
+  }
+
+  async getChatOnboardingData(externalId: string): Promise<Record<string, unknown> | null> {
+    this.ensureInitialized();
+    const chat = await this.getChatByExternalId(externalId);
+    return chat?.metadata || null;
+  }
+
+  /**
+   * Participant Operations
+   */
+
+  async addParticipantToChat(chatId: string, userId: string): Promise<boolean> {
+    this.ensureInitialized();
+    try {
+      if (!(await this.isChatParticipant(chatId, userId))) {
+        this.store.insert<ChatParticipantRow>("chat_participants", { chat_id: chatId, user_id: userId });
+      }
+      return true;
+    } catch (error) {
+      console.error("[LocalDatabaseAdapter] Error adding participant:", error);
+      return false;
+    }
+  }
+
+  async addUserToChat(chatId: string, userId: string): Promise<boolean> {
+    this.ensureInitialized();
+    const chat = await this.getChatByExternalId(chatId);
+    if (!chat) {
+      console.error(`[LocalDatabaseAdapter] Chat ${chatId} not found when adding user`);
+      return false;
+    }
+    return this.addParticipantToChat(chat.id, userId);
+  }
+
+  async isChatParticipant(chatId: string, userId: string): Promise<boolean> {
+    this.ensureInitialized();
+    return this.store.select<ChatParticipantRow>("chat_participants", { chat_id: chatId, user_id: userId }).length > 0;
+  }
+
+  async getChatParticipants(chatId: string): Promise<UserRecord[]> {
+    this.ensureInitialized();
+    return this.store
+      .select<ChatParticipantRow>("chat_participants", { chat_id: chatId })
+      .map((p) => this.store.select<UserRecord>("conversation_users", { id: p.user_id })[0])
+      .filter(Boolean);
+  }
+
+  /**
+   * Message Operations
+   */
+
+  async storeMessage(
+    chatId: string,
+    senderId: string | null,
+    messageId: string,
+    content: Record<string, unknown>,
+    messageType: string,
+    service: string,
+    richContent?: Record<string, unknown>
+  ): Promise<string | null> {
+    this.ensureInitialized();
+    try {
+      return this.insertMessage({
+        chat_id: chatId,
+        sender_id: senderId,
+        external_id: messageId,
+        content: deriveMessageText(content, messageType),
+        message_type: messageType,
+        service,
+        rich_content: richContent || content,
+      }).id;
+    } catch (error) {
+      console.error("[LocalDatabaseAdapter] Error storing message:", error);
+      return null;
+    }
+  }
+
+  // Messages are written with personal data protected according to the safety settings
+  private insertMessage(message: Row): MessageRow {
+    return this.store.insert<MessageRow>("messages", protectStoredMessage(message, this.safetySettings));
+  }
+
+  async getChatMessages(chatId: string, userId: string): Promise<WebChatMessage[]> {
+    this.ensureInitialized();
+
+    const chat = await this.getChatByExternalId(chatId);
+    if (!chat || !(await this.isChatParticipant(chat.id, userId))) {
+      return [];
+    }
+
+    return this.store
+      .select<MessageRow>("messages", { chat_id: chat.id })
+      .sort(byCreatedAt)
+      .map(revealStoredMessage)
+      .map((msg) => {
+        const [sender] = msg.sender_id
+          ? this.store.select<UserRecord>("conversation_users", { id: msg.sender_id })
+          : [];
+        return {
+          id: msg.id,
+          content: msg.content,
+          timestamp: msg.created_at,
+          messageType: msg.message_type || "text",
+          senderId: msg.sender_id,
+          senderName: sender?.name || "Unknown",
+          senderService: sender?.service || "",
+          isFromAgent: sender?.phone_number === agentNumber(),
+        };
+      });
+  }
+
+  async addMessageToChat(
+    chatId: string,
+    senderId: string,
+    content: string
+  ): Promise<WebChatMessage | null> {
+    this.ensureInitialized();
+
+    const chat = await this.getChatByExternalId(chatId);
+    if (!chat || !(await this.isChatParticipant(chat.id, senderId))) {
+      return null;
+    }
+
+    const messageId = randomUUID();
+    const message = this.insertMessage({
+      id: messageId,
+      chat_id: chat.id,
+      sender_id: senderId,
+      content,
+      message_type: "text",
+      service: "web-ui",
+      external_id: messageId,
+    });
+    const sender = await this.getUserById(senderId);
+
+    return {
+      id: message.id,
+      content,
+      timestamp: message.created_at,
+      senderId: message.sender_id,
+      senderName: sender?.name || "Unknown",
+      senderService: sender?.service || "",
+    };
+  }
+
+  async getChatMessageStats(
+    chatId: string,
+    options: { since?: string; senderId?: string } = {}
+  ): Promise<ChatMessageStats> {
+    this.ensureInitialized();
+
+    const where: Row = { chat_id: chatId };
+    if (options.senderId) where.sender_id = options.senderId;
+
+    const messages = this.store
+      .select<MessageRow>("messages", where)
+      .filter((msg) => !options.since || msg.created_at >= options.since)
+      .sort(byCreatedAt);
+
+    return {
+      count: messages.length,
+      lastMessageAt: messages.length > 0 ? messages[messages.length - 1].created_at : null,
+    };
+  }
+
+  async getMessageByExternalId(messageId: string): Promise<MessageRow | null> {
+    this.ensureInitialized();
+    const [message] = this.store.select<MessageRow>("messages", { external_id: messageId });
+    return message ? revealStoredMessage(message) : null;
+  }
+
+  async updateMessageStatus(params: {
+    messageId: string;
+    status: string;
+    updatedAt: string;
+    errorCode?: string;
+    errorMessage?: string;
+  }): Promise<boolean> {
+    this.ensureInitialized();
+
+    const changes: Row = {
+      status: params.status,
+      status_updated_at: params.updatedAt,
+    };
+
+    // Failed messages keep their error details in rich_content
+    if (params.status === "failed" && (params.errorCode || params.errorMessage)) {
+      const [message] = this.store.select<MessageRow>("messages", { external_id: params.messageId });
+      if (message) {
+        changes.rich_content = {
+          ...(message.rich_content || {}),
+          error: {
+            code: params.errorCode,
+            message: params.errorMessage,
+            timestamp: params.updatedAt,
+          },
+        };
+      }
+    }
+
+    this.store.update("messages", { external_id: params.messageId }, changes);
+    return true;
+  }
+
+  private messageWhere(filter: MessageFilter): Row | null {
+    if (!filter.chatId && !filter.senderId) return null;
+    const where: Row = {};
+    if (filter.chatId) where.chat_id = filter.chatId;
+    if (filter.senderId) where.sender_id = filter.senderId;
+    return where;
+  }
+
+  async getMessages(filter: MessageFilter): Promise<MessageRow[]> {
+    this.ensureInitialized();
+    const where = this.messageWhere(filter);
+    if (!where) return [];
+
+    return this.store
+      .select<MessageRow>("messages", where)
+      .filter((msg) => !filter.before || msg.created_at < filter.before)
+      .sort(byCreatedAt)
+      .map(revealStoredMessage);
+  }
+
+  async deleteMessages(filter: MessageFilter): Promise<number> {
+    this.ensureInitialized();
+    const messages = await this.getMessages(filter);
+    for (const message of messages) {
+      // Media files go with their message, as ON DELETE CASCADE does in Postgres
+      this.store.delete("media_files", { message_id: message.id });
+      this.store.delete("messages", { id: message.id });
+    }
+    return messages.length;
+  }
+
+  /**
+   * Project Operations
+   */
+
+  async getProjectsByChat(chatId: string): Promise<ProjectRecord[]> {
+    this.ensureInitialized();
+    const fortyEightHoursAgo = new Date(Date.now() - 48 * 60 * 60 * 1000).toISOString();
+    return this.store
+      .select<ProjectRecord>("projects", { chat_id: chatId })
+      .filter((p) => p.is_live || p.created_at >= fortyEightHoursAgo);
+  }
+
+  async getProjectsForChats(chatIds: string[]): Promise<ProjectRecord[]> {
+    this.ensureInitialized();
+    return this.store
+      .select<ProjectRecord>("projects")
+      .filter((p) => p.chat_id !== null && chatIds.includes(p.chat_id))
+      .sort((a, b) => Number(b.is_live) - Number(a.is_live) || byCreatedAt(b, a));
+  }
+
+  async createProject(
+    name: string,
+    description: string,
+    chatId: string,
+    attributes?: Record<string, unknown>
+  ): Promise<string | null> {
+    this.ensureInitialized();
+    try {
+      return this.store.insert<ProjectRecord>("projects", {
+        name,
+        description,
+        chat_id: chatId,
+        is_live: true,
+        attributes: attributes || {},
+      }).id;
+    } catch (error) {
+      console.error("[LocalDatabaseAdapter] Error creating project:", error);
+      return null;
+    }
+  }
+
+  async updateProject(
+    projectId: string,
+    updates: { is_live?: boolean; name?: string; description?: string; attributes?: Record<string, unknown> }
+  ): Promise<boolean> {
+    this.ensureInitialized();
+    const updated = this.store.update("projects", { id: projectId }, {
+      ...updates,
+      updated_at: new Date().toISOString(),
+    });
+    return updated > 0;
+  }
+
+  async updateProjectAttributes(
+    projectId: string,
+    attributes: Record<string, unknown>,
+    replace: boolean = false
+  ): Promise<boolean> {
+    this.ensureInitialized();
+    const project = await this.getProjectById(projectId);
+    if (!project) return false;
+
+    return this.updateProject(projectId, {
+      attributes: replace ? attributes : { ...(project.attributes || {}), ...attributes },
+    });
+  }
+
+  async getProjectById(projectId: string): Promise<ProjectRecord | null> {
+    this.ensureInitialized();
+    const [project] = this.store.select<ProjectRecord>("projects", { id: projectId });
+    return project || null;
+  }
+
+  async getAllProjects(): Promise<ProjectRecord[]> {
+    this.ensureInitialized();
+    return this.store.select<ProjectRecord>("projects").sort((a, b) => byCreatedAt(b, a));
+  }
+
+  async deleteProject(projectId: string): Promise<boolean> {
+    this.ensureInitialized();
+    this.store.delete("project_history", { project_id: projectId });
+    this.store.delete("project_events", { project_id: projectId });
+    this.store.delete("project_tasks", { project_id: projectId });
+    return this.store.delete("projects", { id: projectId }) > 0;
+  }
+
+  async logProjectEvent(
+    projectId: string,
+    eventType: string,
+    details: string
+  ): Promise<string | null> {
+    this.ensureInitialized();
+    try {
+      return this.store.insert<ProjectHistoryRecord>("project_history", {
+        project_id: projectId,
+        event_type: eventType,
+        details,
+      }).id;
+    } catch (error) {
+      console.error("[LocalDatabaseAdapter] Error logging project event:", error);
+      return null;
+    }
+  }
+
+  async getProjectHistory(projectId: string): Promise<ProjectHistoryRecord[]> {
+    this.ensureInitialized();
+    return this.store
+      .select<ProjectHistoryRecord>("project_history", { project_id: projectId })
+      .sort(byCreatedAt);
+  }
+
+  async addProjectEvent(
+    projectId: string,
+    eventType: string,
+    description: string,
+    metadata: Record<string, unknown> = {}
+  ): Promise<string | null> {
+    this.ensureInitialized();
+    try {
+      return this.store.insert<ProjectEventRecord>("project_events", {
+        project_id: projectId,
+        event_type: eventType,
+        description,
+        metadata,
+      }).id;
+    } catch (error) {
+      console.error("[LocalDatabaseAdapter] Error adding project event:", error);
+      return null;
+    }
+  }
+
+  async getProjectEvents(projectIds: string[], since?: string): Promise<ProjectEventRecord[]> {
+    this.ensureInitialized();
+    return this.store
+      .select<ProjectEventRecord>("project_events")
+      .filter((e) => projectIds.includes(e.project_id))
+      .filter((e) => !since || e.created_at >= since)
+      .sort(byCreatedAt);
+  }
+
+  /**
+   * Project Task Operations
+   */
+
+  async createProjectTask(
+    task: Pick<ProjectTaskRecord, "project_id" | "title"> &
+      Partial<Pick<ProjectTaskRecord, "assignee_id" | "due_at" | "created_by">>
+  ): Promise<string | null> {
+    this.ensureInitialized();
+    try {
+      return this.store.insert<ProjectTaskRecord>("project_tasks", { ...task, status: "open" }).id;
+    } catch (error) {
+      console.error("[LocalDatabaseAdapter] Error creating project task:", error);
+      return null;
+    }
+  }
+
+  async updateProjectTask(
+    taskId: string,
+    updates: Partial<Pick<ProjectTaskRecord, "title" | "status" | "assignee_id" | "due_at">>
+  ): Promise<boolean> {
+    this.ensureInitialized();
+    const now = new Date().toISOString();
+    const changes: Row = { ...updates, updated_at: now };
+    if (updates.status) {
+      changes.completed_at = updates.status === "done" ? now : null;
+    }
+    return this.store.update("project_tasks", { id: taskId }, changes) > 0;
+  }
+
+  async getProjectTask(taskId: string): Promise<ProjectTaskRecord | null> {
+    this.ensureInitialized();
+    const [task] = this.store.select<ProjectTaskRecord>("project_tasks", { id: taskId });
+    return task || null;
+  }
+
+  async getProjectTasks(filter: ProjectTaskFilter = {}): Promise<ProjectTaskRecord[]> {
+    this.ensureInitialized();
+    const where: Row = {};
+    if (filter.status) where.status = filter.status;
+    if (filter.assigneeId) where.assignee_id = filter.assigneeId;
+
+    return this.store
+      .select<ProjectTaskRecord>("project_tasks", where)
+      .filter((t) => !filter.projectIds || filter.projectIds.includes(t.project_id))
+      .filter((t) => !filter.dueBefore || (t.due_at && t.due_at < filter.dueBefore))
+      .sort(byCreatedAt);
+  }
+
+  async deleteProjectTask(taskId: string): Promise<boolean> {
+    this.ensureInitialized();
+    return this.store.delete("project_tasks", { id: taskId }) > 0;
+  }
+
+  /**
+   * Memory Operations
+   */
+
+  private recordMemoryChange(
+    table: "conversation_users" | "chats",
+    id: string,
+    fieldId: string,
+    previousValue: string | null,
+    newValue: string | null,
+    provenance: MemoryProvenance = {}
+  ): void {
+    this.store.insert<MemoryHistoryRecord>("memory_history", {
+      scope: table === "chats" ? "chat" : "user",
+      owner_id: id,
+      field_id: fieldId,
+      previous_value: previousValue,
+      new_value: newValue,
+      source: provenance.source || "manual",
+      source_message_id: provenance.sourceMessageId || null,
+      model: provenance.model || null,
+      metadata: provenance.metadata || {},
+    });
+  }
+
+  private upsertMemory(
+    table: "conversation_users" | "chats",
+    id: string,
+    fieldId: string,
+    value: string,
+    provenance?: MemoryProvenance
+  ): MemoryResult {
+    const [record] = this.store.select<UserRecord | ChatRecord>(table, { id });
+    if (!record) {
+      return { data: null, error: new Error(`No record found with id ${id}`) };
+    }
+
+    const memory = mergeMemoryValue(record.memory || {}, fieldId, value);
+    if (!memory) {
+      // Value unchanged or already contained in the existing memory
+      return { data: record, error: null };
+    }
+
+    this.store.transaction(() => {
+      this.store.update(table, { id }, { memory });
+      this.recordMemoryChange(
+        table,
+        id,
+        fieldId,
+        record.memory?.[fieldId]?.value ?? null,
+        memory[fieldId].value,
+        provenance
+      );
+    });
+    return { data: this.store.select<UserRecord | ChatRecord>(table, { id }), error: null };
+  }
+
+  private readMemory(
+    table: "conversation_users" | "chats",
+    id: string
+  ): Record<string, MemoryEntry> | null {
+    const [record] = this.store.select<UserRecord | ChatRecord>(table, { id });
+    return record ? record.memory || {} : null;
+  }
+
+  private deleteMemory(
+    table: "conversation_users" | "chats",
+    id: string,
+    fieldId: string,
+    provenance?: MemoryProvenance
+  ): MemoryDeleteResult {
+    const memory = this.readMemory(table, id);
+    if (!memory) {
+      return { success: false, error: new Error(`No record found with id ${id}`) };
+    }
+    if (!memory[fieldId]) {
+      return { success: true, error: null };
+    }
+
+    const remaining = { ...memory };
+    delete remaining[fieldId];
+    this.store.transaction(() => {
+      this.store.update(table, { id }, { memory: remaining });
+      this.recordMemoryChange(table, id, fieldId, memory[fieldId].value ?? null, null, provenance);
+    });
+    return { success: true, error: null };
+  }
+
+  async upsertUserMemoryValue(
+    userId: string,
+    fieldId: string,
+    value: string,
+    provenance?: MemoryProvenance
+  ): Promise<MemoryResult> {
+    const userIdentifier = this.resolveUserId(userId);
+    if (!userIdentifier) {
+      return { data: null, error: new Error(`No user found with phone number ${userId}`) };
+    }
+    return this.upsertMemory("conversation_users", userIdentifier, fieldId, value, provenance);
+  }
+
+  async upsertChatThreadMemoryValue(
+    chatId: string,
+    fieldId: string,
+    value: string,
+    provenance?: MemoryProvenance
+  ): Promise<MemoryResult> {
+    const internalChatId = this.resolveChatId(chatId);
+    if (!internalChatId) {
+      return { data: null, error: new Error(`No chat found with id ${chatId}`) };
+    }
+    return this.upsertMemory("chats", internalChatId, fieldId, value, provenance);
+  }
+
+  async getUserMemoryValue(userId: string, fieldId: string): Promise<MemoryResult> {
+    const userIdentifier = this.resolveUserId(userId);
+    const memory = userIdentifier ? this.readMemory("conversation_users", userIdentifier) : null;
+    if (!memory) {
+      return { data: null, error: new Error(`No user found for ${userId}`) };
+    }
+    return { data: memory[fieldId]?.value ?? null, error: null };
+  }
+
+  async deleteUserMemoryValue(
+    userId: string,
+    fieldId: string,
+    provenance?: MemoryProvenance
+  ): Promise<MemoryDeleteResult> {
+    const userIdentifier = this.resolveUserId(userId);
+    if (!userIdentifier) {
+      return { success: false, error: new Error(`No user found with phone number ${userId}`) };
+    }
+    return this.deleteMemory("conversation_users", userIdentifier, fieldId, provenance);
+  }
+
+  async getChatMemoryValue(chatId: string, fieldId: string): Promise<MemoryResult> {
+    const memory = this.readMemory("chats", chatId);
+    if (!memory) {
+      return { data: null, error: new Error(`No chat found with id ${chatId}`) };
+    }
+    return { data: memory[fieldId]?.value ?? null, error: null };
+  }
+
+  async deleteChatMemoryValue(
+    chatId: string,
+    fieldId: string,
+    provenance?: MemoryProvenance
+  ): Promise<MemoryDeleteResult> {
+    return this.deleteMemory("chats", chatId, fieldId, provenance);
+  }
+
+  async getAllUserMemoryValues(userId: string): Promise<Record<string, unknown>> {
+    const userIdentifier = this.resolveUserId(userId);
+    return memoryValues(
+      userIdentifier ? this.readMemory("conversation_users", userIdentifier) : null
+    );
+  }
+
+  async getAllChatMemoryValues(chatId: string): Promise<Record<string, unknown>> {
+    const internalChatId = this.resolveChatId(chatId);
+    return memoryValues(internalChatId ? this.readMemory("chats", internalChatId) : null);
+  }
+
+  async setMemoryValue(
+    scope: MemoryScope,
+    ownerId: string,
+    fieldId: string,
+    value: string | null,
+    provenance?: MemoryProvenance
+  ): Promise<boolean> {
+    this.ensureInitialized();
+    const table = scope === "chat" ? "chats" : "conversation_users";
+    const memory = this.readMemory(table, ownerId);
+    if (!memory) return false;
+    if (value === null) return this.deleteMemory(table, ownerId, fieldId, provenance).success;
+
+    const existing = memory[fieldId];
+    if (existing?.value === value) return true;
+
+    const entry: MemoryEntry = { value, updated_at: new Date().toISOString() };
+    if (existing) entry.previous_value = existing.value;
+    try {
+      this.store.transaction(() => {
+        this.store.update(table, { id: ownerId }, { memory: { ...memory, [fieldId]: entry } });
+        this.recordMemoryChange(table, ownerId, fieldId, existing?.value ?? null, value, provenance);
+      });
+      return true;
+    } catch (error) {
+      console.error("[LocalDatabaseAdapter] Error setting memory value:", error);
+      return false;
+    }
+  }
+
+  async getMemoryHistory(scope: MemoryScope, ownerId: string, fieldId?: string): Promise<MemoryHistoryRecord[]> {
+    this.ensureInitialized();
+    const where: Row = { scope, owner_id: ownerId };
+    if (fieldId) where.field_id = fieldId;
+    // Reversed rather than sorted descending so changes in the same millisecond stay newest first
+    return this.store.select<MemoryHistoryRecord>("memory_history", where).sort(byCreatedAt).reverse();
+  }
+
+  async getMemoryHistoryEntry(historyId: string): Promise<MemoryHistoryRecord | null> {
+    this.ensureInitialized();
+    const [entry] = this.store.select<MemoryHistoryRecord>("memory_history", { id: historyId });
+    return entry || null;
+  }
+
+  async deleteMemoryHistory(scope: MemoryScope, ownerId: string): Promise<number> {
+    this.ensureInitialized();
+    return this.store.delete("memory_history", { scope, owner_id: ownerId });
+  }
+
+  /**
+   * Memory Review Operations
+   */
+
+  async addMemoryReview(
+    review: Omit<MemoryReviewRecord, "id" | "created_at" | "status" | "reviewed_at" | "applied_value">
+  ): Promise<string | null> {
+    this.ensureInitialized();
+    try {
+      return this.store.insert<MemoryReviewRecord>("memory_review_queue", review).id;
+    } catch (error) {
+      console.error("[LocalDatabaseAdapter] Error queueing memory review:", error);
+      return null;
+    }
+  }
+
+  async getMemoryReviews(filter: MemoryReviewFilter = {}): Promise<MemoryReviewRecord[]> {
+    this.ensureInitialized();
+    const where: Row = {};
+    if (filter.status) where.status = filter.status;
+    if (filter.scope) where.scope = filter.scope;
+    if (filter.ownerId) where.owner_id = filter.ownerId;
+    return this.store.select<MemoryReviewRecord>("memory_review_queue", where).sort(byCreatedAt);
+  }
+
+  async getMemoryReview(reviewId: string): Promise<MemoryReviewRecord | null> {
+    this.ensureInitialized();
+    const [review] = this.store.select<MemoryReviewRecord>("memory_review_queue", { id: reviewId });
+    return review || null;
+  }
+
+  async resolveMemoryReview(
+    reviewId: string,
+    status: Exclude<MemoryReviewStatus, "pending">,
+    appliedValue: string | null = null
+  ): Promise<boolean> {
+    this.ensureInitialized();
+    const updated = this.store.update(
+      "memory_review_queue",
+      { id: reviewId, status: "pending" },
+      { status, applied_value: appliedValue, reviewed_at: new Date().toISOString() }
+    );
+    return updated > 0;
+  }
+
+  async deleteMemoryReviews(scope: MemoryScope, ownerId: string): Promise<number> {
+    this.ensureInitialized();
+    return this.store.delete("memory_review_queue", { scope, owner_id: ownerId });
+  }
+
+  /**
+   * Moderation Log Operations
+   */
+
+  async addModerationLog(entry: Omit<ModerationLogRecord, "id" | "created_at">): Promise<string | null> {
+    this.ensureInitialized();
+    try {
+      return this.store.insert<ModerationLogRecord>("moderation_log", entry).id;
+    } catch (error) {
+      console.error("[LocalDatabaseAdapter] Error adding moderation log entry:", error);
+      return null;
+    }
+  }
+
+  async getModerationLog(filter: ModerationLogFilter = {}): Promise<ModerationLogRecord[]> {
+    this.ensureInitialized();
+    const where: Row = {};
+    if (filter.threadId) where.thread_id = filter.threadId;
+    if (filter.action) where.action = filter.action;
+    if (filter.direction) where.direction = filter.direction;
+
+    const entries = this.store
+      .select<ModerationLogRecord>("moderation_log", where)
+      .filter((entry) => !filter.since || entry.created_at >= filter.since)
+      .sort(byCreatedAt)
+      .reverse();
+    return filter.limit ? entries.slice(0, filter.limit) : entries;
+  }
+
+  async deleteModerationLog(threadId: string): Promise<number> {
+    this.ensureInitialized();
+    return this.store.delete("moderation_log", { thread_id: threadId });
+  }
+
+  /**
+   * Semantic Memory Operations
+   */
+
+  async addMemoryChunk(chunk: Omit<MemoryChunkRecord, "id" | "created_at">): Promise<string | null> {
+    this.ensureInitialized();
+    try {
+      return this.store.insert<MemoryChunkRecord>("memory_chunks", chunk).id;
+    } catch (error) {
+      console.error("[LocalDatabaseAdapter] Error adding memory chunk:", error);
+      return null;
+    }
+  }
+
+  async getMemoryChunks(filter: MemoryChunkFilter): Promise<MemoryChunkRecord[]> {
+    this.ensureInitialized();
+    if (!filter.userId && !filter.chatId) return [];
+
+    const where: Row = {};
+    if (filter.userId) where.user_id = filter.userId;
+    if (filter.chatId) where.chat_id = filter.chatId;
+
+    const chunks = this.store
+      .select<MemoryChunkRecord>("memory_chunks", where)
+      .filter((chunk) => !filter.before || chunk.created_at < filter.before)
+      .sort((a, b) => byCreatedAt(b, a));
+    return filter.limit ? chunks.slice(0, filter.limit) : chunks;
+  }
+
+  async deleteMemoryChunks(filter: MemoryChunkFilter): Promise<number> {
+    this.ensureInitialized();
+    const chunks = await this.getMemoryChunks({ ...filter, limit: undefined });
+    for (const chunk of chunks) {
+      this.store.delete("memory_chunks", { id: chunk.id });
+    }
+    return chunks.length;
+  }
+
+  /**
+   * Model Usage Operations
+   */
+
+  async recordModelUsage(usage: Omit<ModelUsageRecord, "id" | "created_at">): Promise<string | null> {
+    this.ensureInitialized();
+    try {
+      return this.store.insert<ModelUsageRecord>("model_usage", usage).id;
+    } catch (error) {
+      console.error("[LocalDatabaseAdapter] Error recording model usage:", error);
+      return null;
+    }
+  }
+
+  async getModelUsage(filter: ModelUsageFilter = {}): Promise<ModelUsageRecord[]> {
+    this.ensureInitialized();
+    const where: Row = {};
+    if (filter.chatId) where.chat_id = filter.chatId;
+    if (filter.userId) where.user_id = filter.userId;
+    if (filter.task) where.task = filter.task;
+
+    return this.store
+      .select<ModelUsageRecord>("model_usage", where)
+      .filter((u) => !filter.since || u.created_at >= filter.since)
+      .sort(byCreatedAt);
+  }
+
+  /**
+   * Cron Job Operations
+   */
+
+  async createCronJob(job: NewCronJob): Promise<string | null> {
+    this.ensureInitialized();
+    try {
+      return this.store.insert<CronJobRecord>("local_cron_jobs", job).id;
+    } catch (error) {
+      console.error("[LocalDatabaseAdapter] Error creating cron job:", error);
+      return null;
+    }
+  }
+
+  async updateCronJob(
+    jobId: string,
+    updates: Partial<Omit<CronJobRecord, "id" | "created_at" | "updated_at">>,
+    expected: Partial<Pick<CronJobRecord, "next_run_at" | "retry_at">> = {}
+  ): Promise<boolean> {
+    this.ensureInitialized();
+    const changes: Row = { ...definedOnly(updates), updated_at: new Date().toISOString() };
+    return this.store.update("local_cron_jobs", { ...definedOnly(expected), id: jobId }, changes) > 0;
+  }
+
+  async getCronJob(jobId: string): Promise<CronJobRecord | null> {
+    this.ensureInitialized();
+    const [job] = this.store.select<CronJobRecord>("local_cron_jobs", { id: jobId });
+    return job || null;
+  }
+
+  async getCronJobs(filter: CronJobFilter = {}): Promise<CronJobRecord[]> {
+    this.ensureInitialized();
+    const where: Row = {};
+    if (filter.isActive !== undefined) where.is_active = filter.isActive;
+
+    const isDue = (at: string | null) => !!at && at <= filter.dueBefore!;
+    return this.store
+      .select<CronJobRecord>("local_cron_jobs", where)
+      .filter((j) => !filter.dueBefore || isDue(j.next_run_at) || isDue(j.retry_at))
+      .sort(byCreatedAt);
+  }
+
+  async deleteCronJob(jobId: string): Promise<boolean> {
+    this.ensureInitialized();
+    this.store.delete("local_cron_execution_logs", { cron_job_id: jobId });
+    return this.store.delete("local_cron_jobs", { id: jobId }) > 0;
+  }
+
+  async addCronExecutionLog(log: Omit<CronExecutionLogRecord, "id">): Promise<string | null> {
+    this.ensureInitialized();
+    try {
+      return this.store.insert<CronExecutionLogRecord>("local_cron_execution_logs", log).id;
+    } catch (error) {
+      console.error("[LocalDatabaseAdapter] Error adding cron execution log:", error);
+      return null;
+    }
+  }
+
+  async getCronExecutionLogs(
+    jobId: string,
+    filter: CronExecutionLogFilter = {}
+  ): Promise<CronExecutionLogRecord[]> {
+    this.ensureInitialized();
+    const where: Row = { cron_job_id: jobId };
+    if (filter.status) where.status = filter.status;
+
+    const logs = this.store
+      .select<CronExecutionLogRecord>("local_cron_execution_logs", where)
+      .filter((l) => !filter.since || l.executed_at >= filter.since)
+      .filter((l) => !filter.until || l.executed_at <= filter.until)
+      .sort((a, b) => (a.executed_at < b.executed_at ? -1 : a.executed_at > b.executed_at ? 1 : 0))
+      .reverse();
+    return filter.limit ? logs.slice(0, filter.limit) : logs;
+  }
+
+  /**
+   * Media File Operations
+   */
+
+  async addMediaFile(file: NewMediaFile): Promise<string | null> {
+    this.ensureInitialized();
+    try {
+      // Descriptions hold message text, so personal data in them is protected the same way
+      const { rich_content: metadata } = protectStoredMessage(
+        { rich_content: file.metadata || {} },
+        this.safetySettings
+      );
+      return this.store.insert<MediaFileRecord>("media_files", { ...file, metadata }).id;
+    } catch (error) {
+      console.error("[LocalDatabaseAdapter] Error adding media file:", error);
+      return null;
+    }
+  }
+
+  async getMediaFiles(messageIds: string[]): Promise<MediaFileRecord[]> {
+    this.ensureInitialized();
+    return [...new Set(messageIds)]
+      .flatMap((messageId) => this.store.select<MediaFileRecord>("media_files", { message_id: messageId }))
+      .sort(byCreatedAt)
+      .map((file) => ({ ...file, metadata: revealStoredMessage({ rich_content: file.metadata }).rich_content }));
+  }
+
+  /**
+   * Email Operations
+   */
+
+  async createEmailThread(thread: NewEmailThread): Promise<string | null> {
+    this.ensureInitialized();
+    try {
+      return this.store.insert<EmailThreadRecord>("email_threads", thread).id;
+    } catch (error) {
+      console.error("[LocalDatabaseAdapter] Error creating email thread:", error);
+      return null;
+    }
+  }
+
+  async getEmailThreadsBetween(addressA: string, addressB: string): Promise<EmailThreadRecord[]> {
+    this.ensureInitialized();
+    return [
+      ...this.store.select<EmailThreadRecord>("email_threads", { sender_email: addressA, recipient_email: addressB }),
+      ...(addressA === addressB
+        ? []
+        : this.store.select<EmailThreadRecord>("email_threads", { sender_email: addressB, recipient_email: addressA })),
+    ].sort((a, b) => (a.updated_at < b.updated_at ? 1 : a.updated_at > b.updated_at ? -1 : 0));
+  }
+
+  async addEmailMessage(message: NewEmailMessage): Promise<string | null> {
+    this.ensureInitialized();
+    try {
+      if (this.store.select<EmailMessageRecord>("email_messages", { email_id: message.email_id }).length > 0) {
+        throw new Error(`Email ${message.email_id} is already stored`);
+      }
+
+      const stored = this.store.insert<EmailMessageRecord>("email_messages", message);
+      this.store.update("email_threads", { id: message.thread_id }, { updated_at: stored.created_at });
+      if (message.direction === "outbound") {
+        this.store.update(
+          "email_messages",
+          { thread_id: message.thread_id, direction: "inbound", is_replied: false },
+          { is_replied: true, replied_at: stored.created_at }
+        );
+      }
+      return stored.id;
+    } catch (error) {
+      console.error("[LocalDatabaseAdapter] Error adding email message:", error);
+      return null;
+    }
+  }
+
+  async getEmailMessages(threadId: string, limit?: number): Promise<EmailMessageRecord[]> {
+    this.ensureInitialized();
+    const messages = this.store.select<EmailMessageRecord>("email_messages", { thread_id: threadId }).sort(byCreatedAt);
+    return (limit ? messages.slice(-limit) : messages);
+  }
+
+  async getEmailMessagesByMessageIds(messageIds: string[]): Promise<EmailMessageRecord[]> {
+    this.ensureInitialized();
+    return [...new Set(messageIds)]
+      .flatMap((messageId) => this.store.select<EmailMessageRecord>("email_messages", { message_id_header: messageId }))
+      .sort(byCreatedAt);
+  }
+
+  async addEmailAttachment(attachment: NewEmailAttachment): Promise<string | null> {
+    this.ensureInitialized();
+    try {
+      return this.store.insert<EmailAttachmentRecord>("email_attachments", attachment).id;
+    } catch (error) {
+      console.error("[LocalDatabaseAdapter] Error adding email attachment:", error);
+      return null;
+    }
+  }
+
+  async getEmailAttachments(messageIds: string[]): Promise<EmailAttachmentRecord[]> {
+    this.ensureInitialized();
+    return [...new Set(messageIds)]
+      .flatMap((messageId) => this.store.select<EmailAttachmentRecord>("email_attachments", { message_id: messageId }))
+      .sort(byCreatedAt);
+  }
+
+  async getEmailThread(threadId: string): Promise<EmailThreadRecord | null> {
+    this.ensureInitialized();
+    const [thread] = this.store.select<EmailThreadRecord>("email_threads", { id: threadId });
+    return thread || null;
+  }
+
+  /**
+   * Email Outbox Operations
+   */
+
+  async addEmailDraft(draft: NewEmailDraft): Promise<string | null> {
+    this.ensureInitialized();
+    try {
+      return this.store.insert<EmailDraftRecord>("email_drafts", draft).id;
+    } catch (error) {
+      console.error("[LocalDatabaseAdapter] Error adding email draft:", error);
+      return null;
+    }
+  }
+
+  async getEmailDrafts(filter: EmailDraftFilter = {}): Promise<EmailDraftRecord[]> {
+    this.ensureInitialized();
+    const where: Row = {};
+    if (filter.status) where.status = filter.status;
+    if (filter.threadId) where.thread_id = filter.threadId;
+    return this.store.select<EmailDraftRecord>("email_drafts", where).sort(byCreatedAt);
+  }
+
+  async getEmailDraft(draftId: string): Promise<EmailDraftRecord | null> {
+    this.ensureInitialized();
+    const [draft] = this.store.select<EmailDraftRecord>("email_drafts", { id: draftId });
+    return draft || null;
+  }
+
+  async updateEmailDraft(
+    draftId: string,
+    updates: Partial<Omit<EmailDraftRecord, "id" | "created_at" | "updated_at" | "thread_id">>,
+    expectedStatus?: EmailDraftStatus
+  ): Promise<boolean> {
+    this.ensureInitialized();
+    const where: Row = { id: draftId };
+    if (expectedStatus) where.status = expectedStatus;
+    const changes: Row = { ...definedOnly(updates), updated_at: new Date().toISOString() };
+    return this.store.update("email_drafts", where, changes) > 0;
+  }
+}
@@ -0,0 +1,12 @@
+import { LocalDatabaseAdapter } from "./local-adapter";
+import { MemoryTableStore } from "./table-store";
+
+/**
+ * Zero-config adapter that keeps all data in process memory.
+ * Useful for local development and tests, everything is lost on restart.
+ */
+export class MemoryAdapter extends LocalDatabaseAdapter {
+  constructor() {
+    super(new MemoryTableStore());
+  }
+}
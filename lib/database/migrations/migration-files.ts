@@ -0,0 +1,103 @@
+import fs from "fs";
+import path from "path";
+import { createHash } from "crypto";
+
+/**
+ * Migrations live in the top-level migrations/ directory as pairs of files:
+ *   0001_initial_schema.up.sql
+ *   0001_initial_schema.down.sql (optional, without it the migration can't be rolled back)
+ * The numeric prefix sets the order they are applied in.
+ */
+
+export const DEFAULT_MIGRATIONS_DIR = path.join(process.cwd(), "migrations");
+
+const MIGRATION_FILE_PATTERN = /^(\d+)_([a-z0-9_]+)\.(up|down)\.sql$/;
+
+export interface Migration {
+  version: number;
+  name: string;
+  /**
+   * SQL that applies the migration
+   */
+  up: string;
+  /**
+   * SQL that reverts the migration, null when it can't be rolled back
+   */
+  down: string | null;
+  /**
+   * SHA-256 of the up SQL, used to detect migrations edited after they were applied
+   */
+  checksum: string;
+}
+
+export class MigrationFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MigrationFileError";
+  }
+}
+
+export function checksumSql(sql: string): string {
+  // Normalise line endings so a checkout on Windows doesn't change the checksum
+  return createHash("sha256").update(sql.replace(/\r\n/g, "\n")).digest("hex");
+}
+
+export function migrationId(migration: { version: number; name: string }): string {
+  return `${String(migration.version).padStart(4, "0")}_${migration.name}`;
+}
+
+/**
+ * Read every migration in a directory, ordered by version
+ */
+export function loadMigrations(directory: string = DEFAULT_MIGRATIONS_DIR): Migration[] {
+  if (!fs.existsSync(directory)) {
+    throw new MigrationFileError(`Migrations directory not found: ${directory}`);
+  }
+
+  const found = new Map<number, { name: string; up?: string; down?: string }>();
+
+  for (const file of fs.readdirSync(directory).sort()) {
+    if (!file.endsWith(".sql")) continue;
+
+    const match = MIGRATION_FILE_PATTERN.exec(file);
+    if (!match) {
+      throw new MigrationFileError(
+        `Unexpected file in migrations directory: ${file}. Expected <version>_<name>.up.sql or <version>_<name>.down.sql`
+      );
+    }
+
+    const [, versionText, name, direction] = match;
+    const version = Number(versionText);
+    const entry = found.get(version) || { name };
+    if (entry.name !== name) {
+      throw new MigrationFileError(
+        `Migration version ${version} is used by both "${entry.name}" and "${name}"`
+      );
+    }
+
+    const sql = fs.readFileSync(path.join(directory, file), "utf8");
+    if (direction === "up") {
+      entry.up = sql;
+    } else {
+      entry.down = sql;
+    }
+    found.set(version, entry);
+  }
+
+  return Array.from(found.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([version, entry]) => {
+      if (entry.up === undefined) {
+        throw new MigrationFileError(
+          `Migration ${migrationId({ version, name: entry.name })} has a down file but no up file`
+        );
+      }
+      return {
+        version,
+        name: entry.name,
+        up: entry.up,
+        down: entry.down ?? null,
+        checksum: checksumSql(entry.up),
+      };
+    });
+}
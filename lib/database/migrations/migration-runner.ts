@@ -0,0 +1,213 @@
+import { Migration, migrationId } from "./migration-files";
+
+/**
+ * Row in the schema_migrations table
+ */
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: string;
+}
+
+/**
+ * Database access the runner needs. Each apply/revert must be atomic: the
+ * migration SQL and the schema_migrations change either both happen or neither does.
+ */
+export interface MigrationDriver {
+  /**
+   * Create the schema_migrations table if it doesn't exist
+   */
+  ensureMigrationsTable: () => Promise<void>;
+  /**
+   * Get applied migrations ordered by version
+   */
+  getAppliedMigrations: () => Promise<AppliedMigration[]>;
+  /**
+   * Run a migration's up SQL and record it as applied
+   */
+  applyMigration: (migration: Migration) => Promise<void>;
+  /**
+   * Run a migration's down SQL and remove its record
+   */
+  revertMigration: (migration: Migration) => Promise<void>;
+  /**
+   * Hold a lock while fn runs so two deploys can't migrate at once
+   */
+  withLock: <T>(fn: () => Promise<T>) => Promise<T>;
+  /**
+   * Release the connection
+   */
+  close: () => Promise<void>;
+}
+
+export type MigrationState = "applied" | "pending" | "modified" | "missing";
+
+export interface MigrationStatusEntry {
+  version: number;
+  name: string;
+  /**
+   * applied: recorded and unchanged. pending: not yet applied.
+   * modified: applied, but the file has changed since. missing: applied, but the file is gone.
+   */
+  state: MigrationState;
+  appliedAt: string | null;
+}
+
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MigrationError";
+  }
+}
+
+/**
+ * Applies and rolls back versioned migrations, tracking them in schema_migrations
+ */
+export class MigrationRunner {
+  private driver: MigrationDriver;
+  private migrations: Migration[];
+  private log: (message: string) => void;
+
+  constructor(
+    driver: MigrationDriver,
+    migrations: Migration[],
+    log: (message: string) => void = (message) => console.log(`[Migrations] ${message}`)
+  ) {
+    this.driver = driver;
+    this.migrations = [...migrations].sort((a, b) => a.version - b.version);
+    this.log = log;
+  }
+
+  /**
+   * Compare the migration files with what has been applied
+   */
+  async status(): Promise<MigrationStatusEntry[]> {
+    await this.driver.ensureMigrationsTable();
+    const applied = await this.driver.getAppliedMigrations();
+    return this.buildStatus(applied);
+  }
+
+  /**
+   * Apply pending migrations in order
+   * @param options.to Stop after applying this version
+   * @returns The migrations that were applied
+   */
+  async up(options: { to?: number } = {}): Promise<Migration[]> {
+    return this.driver.withLock(async () => {
+      await this.driver.ensureMigrationsTable();
+      const applied = await this.driver.getAppliedMigrations();
+      this.assertConsistent(this.buildStatus(applied));
+
+      const appliedVersions = new Set(applied.map((m) => m.version));
+      const latestApplied = applied.length > 0 ? applied[applied.length - 1].version : 0;
+      const pending = this.migrations.filter(
+        (m) => !appliedVersions.has(m.version) && (options.to === undefined || m.version <= options.to)
+      );
+
+      const outOfOrder = pending.find((m) => m.version < latestApplied);
+      if (outOfOrder) {
+        throw new MigrationError(
+          `Migration ${migrationId(outOfOrder)} is older than the latest applied migration (${latestApplied}). Give it a higher version number.`
+        );
+      }
+
+      for (const migration of pending) {
+        this.log(`Applying ${migrationId(migration)}`);
+        await this.driver.applyMigration(migration);
+      }
+
+      this.log(pending.length > 0 ? `Applied ${pending.length} migration(s)` : "Database is up to date");
+      return pending;
+    });
+  }
+
+  /**
+   * Roll back the most recently applied migrations
+   * @param options.steps Number of migrations to roll back (default 1)
+   * @returns The migrations that were rolled back
+   */
+  async down(options: { steps?: number } = {}): Promise<Migration[]> {
+    const steps = options.steps ?? 1;
+    if (!Number.isInteger(steps) || steps < 1) {
+      throw new MigrationError(`steps must be a positive integer, got ${steps}`);
+    }
+
+    return this.driver.withLock(async () => {
+      await this.driver.ensureMigrationsTable();
+      const applied = await this.driver.getAppliedMigrations();
+      const toRevert = applied.slice(-steps).reverse();
+      const reverted: Migration[] = [];
+
+      for (const record of toRevert) {
+        const migration = this.migrations.find((m) => m.version === record.version);
+        if (!migration) {
+          throw new MigrationError(
+            `Cannot roll back ${migrationId(record)}: its migration files are missing`
+          );
+        }
+        if (migration.checksum !== record.checksum) {
+          throw new MigrationError(
+            `Cannot roll back ${migrationId(record)}: the migration has changed since it was applied`
+          );
+        }
+        if (migration.down === null) {
+          throw new MigrationError(
+            `Cannot roll back ${migrationId(record)}: it has no down migration`
+          );
+        }
+
+        this.log(`Rolling back ${migrationId(migration)}`);
+        await this.driver.revertMigration(migration);
+        reverted.push(migration);
+      }
+
+      this.log(reverted.length > 0 ? `Rolled back ${reverted.length} migration(s)` : "Nothing to roll back");
+      return reverted;
+    });
+  }
+
+  private buildStatus(applied: AppliedMigration[]): MigrationStatusEntry[] {
+    const appliedByVersion = new Map(applied.map((m) => [m.version, m]));
+    const entries: MigrationStatusEntry[] = this.migrations.map((migration) => {
+      const record = appliedByVersion.get(migration.version);
+      let state: MigrationState = "pending";
+      if (record) {
+        state = record.checksum === migration.checksum ? "applied" : "modified";
+      }
+      return {
+        version: migration.version,
+        name: migration.name,
+        state,
+        appliedAt: record?.applied_at ?? null,
+      };
+    });
+
+    for (const record of applied) {
+      if (!this.migrations.some((m) => m.version === record.version)) {
+        entries.push({
+          version: record.version,
+          name: record.name,
+          state: "missing",
+          appliedAt: record.applied_at,
+        });
+      }
+    }
+
+    return entries.sort((a, b) => a.version - b.version);
+  }
+
+  /**
+   * Refuse to migrate when applied migrations no longer match their files
+   */
+  private assertConsistent(status: MigrationStatusEntry[]): void {
+    const problems = status.filter((entry) => entry.state === "modified" || entry.state === "missing");
+    if (problems.length > 0) {
+      throw new MigrationError(
+        `Applied migrations don't match the migration files: ${problems
+          .map((entry) => `${migrationId(entry)} (${entry.state})`)
+          .join(", ")}. Restore the original files instead of editing applied migrations.`
+      );
+    }
+  }
+}
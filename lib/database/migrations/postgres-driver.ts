@@ -0,0 +1,108 @@
+import { Client } from "pg";
+import { Migration } from "./migration-files";
+import { AppliedMigration, MigrationDriver } from "./migration-runner";
+
+// Arbitrary key for pg_advisory_lock, shared by every process running migrations
+const MIGRATION_LOCK_KEY = 72_410_001;
+
+/**
+ * Runs migrations over a direct Postgres connection.
+ * The Supabase client can't run DDL, so this needs the database connection string
+ * (Supabase dashboard > Project Settings > Database), not the API URL and key.
+ */
+export class PostgresMigrationDriver implements MigrationDriver {
+  private client: Client;
+  private connected = false;
+
+  constructor(connectionString: string) {
+    this.client = new Client({ connectionString });
+  }
+
+  private async connect(): Promise<Client> {
+    if (!this.connected) {
+      await this.client.connect();
+      this.connected = true;
+    }
+    return this.client;
+  }
+
+  async ensureMigrationsTable(): Promise<void> {
+    const client = await this.connect();
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS public.schema_migrations (
+        version integer NOT NULL,
+        name text NOT NULL,
+        checksum text NOT NULL,
+        applied_at timestamp with time zone NOT NULL DEFAULT now(),
+        CONSTRAINT schema_migrations_pkey PRIMARY KEY (version)
+      )
+    `);
+  }
+
+  async getAppliedMigrations(): Promise<AppliedMigration[]> {
+    const client = await this.connect();
+    const result = await client.query<{
+      version: number;
+      name: string;
+      checksum: string;
+      applied_at: Date;
+    }>("SELECT version, name, checksum, applied_at FROM public.schema_migrations ORDER BY version");
+
+    return result.rows.map((row) => ({
+      version: row.version,
+      name: row.name,
+      checksum: row.checksum,
+      applied_at: row.applied_at.toISOString(),
+    }));
+  }
+
+  async applyMigration(migration: Migration): Promise<void> {
+    await this.inTransaction(async (client) => {
+      await client.query(migration.up);
+      await client.query(
+        "INSERT INTO public.schema_migrations (version, name, checksum) VALUES ($1, $2, $3)",
+        [migration.version, migration.name, migration.checksum]
+      );
+    });
+  }
+
+  async revertMigration(migration: Migration): Promise<void> {
+    await this.inTransaction(async (client) => {
+      if (migration.down) {
+        await client.query(migration.down);
+      }
+      await client.query("DELETE FROM public.schema_migrations WHERE version = $1", [
+        migration.version,
+      ]);
+    });
+  }
+
+  async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    const client = await this.connect();
+    await client.query("SELECT pg_advisory_lock($1)", [MIGRATION_LOCK_KEY]);
+    try {
+      return await fn();
+    } finally {
+      await client.query("SELECT pg_advisory_unlock($1)", [MIGRATION_LOCK_KEY]);
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.connected) {
+      await this.client.end();
+      this.connected = false;
+    }
+  }
+
+  private async inTransaction(fn: (client: Client) => Promise<void>): Promise<void> {
+    const client = await this.connect();
+    await client.query("BEGIN");
+    try {
+      await fn(client);
+      await client.query("COMMIT");
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,417 @@
+/**
+ * Table definitions for the local (in-memory and SQLite) database adapters.
+ * Mirrors the tables in migrations/ that the adapters read and write.
+ */
+
+export type ColumnType = "text" | "json" | "boolean" | "integer" | "real";
+
+export interface TableDefinition {
+  /**
+   * Column name to column type. Every table's primary key is `id` unless listed in `primaryKey`
+   */
+  columns: Record<string, ColumnType>;
+  /**
+   * Columns that make up the primary key
+   */
+  primaryKey: string[];
+  /**
+   * Values used for columns that are missing from an inserted row
+   */
+  defaults?: Record<string, () => unknown>;
+  /**
+   * Columns to index in backends that support it
+   */
+  indexes?: string[];
+}
+
+const emptyObject = () => ({});
+
+export const TABLES = {
+  conversation_users: {
+    columns: {
+      id: "text",
+      created_at: "text",
+      name: "text",
+      phone_number: "text",
+      service: "text",
+      is_agent: "boolean",
+      metadata: "json",
+      memory: "json",
+    },
+    primaryKey: ["id"],
+    defaults: { is_agent: () => false, memory: emptyObject },
+    indexes: ["phone_number"],
+  },
+  chats: {
+    columns: {
+      id: "text",
+      created_at: "text",
+      type: "text",
+      name: "text",
+      external_id: "text",
+      service: "text",
+      metadata: "json",
+      memory: "json",
+    },
+    primaryKey: ["id"],
+    defaults: { memory: emptyObject },
+    indexes: ["external_id"],
+  },
+  chat_participants: {
+    columns: {
+      chat_id: "text",
+      user_id: "text",
+    },
+    primaryKey: ["chat_id", "user_id"],
+    indexes: ["chat_id", "user_id"],
+  },
+  messages: {
+    columns: {
+      id: "text",
+      chat_id: "text",
+      sender_id: "text",
+      content: "text",
+      created_at: "text",
+      message_type: "text",
+      external_id: "text",
+      rich_content: "json",
+      service: "text",
+      status: "text",
+      status_updated_at: "text",
+    },
+    primaryKey: ["id"],
+    defaults: { service: () => "whatsapp", status: () => "sent" },
+    indexes: ["chat_id", "external_id", "sender_id"],
+  },
+  media_files: {
+    columns: {
+      id: "text",
+      message_id: "text",
+      file_url: "text",
+      file_type: "text",
+      file_size: "integer",
+      mime_type: "text",
+      thumbnail_url: "text",
+      duration_seconds: "integer",
+      dimensions: "json",
+      created_at: "text",
+      metadata: "json",
+    },
+    primaryKey: ["id"],
+    defaults: { metadata: emptyObject },
+    indexes: ["message_id"],
+  },
+  user_preferences: {
+    columns: {
+      user_id: "text",
+      preferences: "json",
+    },
+    primaryKey: ["user_id"],
+    defaults: { preferences: emptyObject },
+  },
+  projects: {
+    columns: {
+      id: "text",
+      chat_id: "text",
+      name: "text",
+      description: "text",
+      created_at: "text",
+      updated_at: "text",
+      is_live: "boolean",
+      attributes: "json",
+    },
+    primaryKey: ["id"],
+    defaults: {
+      is_live: () => true,
+      attributes: emptyObject,
+      updated_at: () => new Date().toISOString(),
+    },
+    indexes: ["chat_id"],
+  },
+  project_history: {
+    columns: {
+      id: "text",
+      project_id: "text",
+      event_type: "text",
+      details: "text",
+      created_at: "text",
+    },
+    primaryKey: ["id"],
+    indexes: ["project_id"],
+  },
+  project_events: {
+    columns: {
+      id: "text",
+      project_id: "text",
+      event_type: "text",
+      description: "text",
+      metadata: "json",
+      created_at: "text",
+    },
+    primaryKey: ["id"],
+    defaults: { metadata: emptyObject },
+    indexes: ["project_id"],
+  },
+  project_tasks: {
+    columns: {
+      id: "text",
+      project_id: "text",
+      title: "text",
+      status: "text",
+      assignee_id: "text",
+      due_at: "text",
+      completed_at: "text",
+      created_by: "text",
+      created_at: "text",
+      updated_at: "text",
+    },
+    primaryKey: ["id"],
+    defaults: {
+      status: () => "open",
+      updated_at: () => new Date().toISOString(),
+    },
+    indexes: ["project_id"],
+  },
+  model_usage: {
+    columns: {
+      id: "text",
+      created_at: "text",
+      task: "text",
+      model: "text",
+      chat_id: "text",
+      user_id: "text",
+      prompt_tokens: "integer",
+      completion_tokens: "integer",
+      total_tokens: "integer",
+      cost_usd: "real",
+    },
+    primaryKey: ["id"],
+    indexes: ["chat_id", "created_at"],
+  },
+  memory_chunks: {
+    columns: {
+      id: "text",
+      created_at: "text",
+      user_id: "text",
+      chat_id: "text",
+      kind: "text",
+      content: "text",
+      embedding: "json",
+      embedding_model: "text",
+      metadata: "json",
+    },
+    primaryKey: ["id"],
+    defaults: { metadata: emptyObject },
+    indexes: ["user_id", "chat_id"],
+  },
+  memory_history: {
+    columns: {
+      id: "text",
+      created_at: "text",
+      scope: "text",
+      owner_id: "text",
+      field_id: "text",
+      previous_value: "text",
+      new_value: "text",
+      source: "text",
+      source_message_id: "text",
+      model: "text",
+      metadata: "json",
+    },
+    primaryKey: ["id"],
+    defaults: { metadata: emptyObject },
+    indexes: ["owner_id"],
+  },
+  memory_review_queue: {
+    columns: {
+      id: "text",
+      created_at: "text",
+      scope: "text",
+      owner_id: "text",
+      field_id: "text",
+      current_value: "text",
+      proposed_value: "text",
+      status: "text",
+      source_message_id: "text",
+      source_message: "text",
+      model: "text",
+      reviewed_at: "text",
+      applied_value: "text",
+    },
+    primaryKey: ["id"],
+    defaults: { status: () => "pending" },
+    indexes: ["status", "owner_id"],
+  },
+  moderation_log: {
+    columns: {
+      id: "text",
+      created_at: "text",
+      direction: "text",
+      service: "text",
+      thread_id: "text",
+      message_id: "text",
+      action: "text",
+      categories: "json",
+      findings: "json",
+    },
+    primaryKey: ["id"],
+    defaults: { categories: () => [], findings: () => [] },
+    indexes: ["thread_id"],
+  },
+  local_cron_jobs: {
+    columns: {
+      id: "text",
+      created_at: "text",
+      updated_at: "text",
+      name: "text",
+      description: "text",
+      endpoint_url: "text",
+      method: "text",
+      headers: "json",
+      body: "text",
+      timezone: "text",
+      schedule_config: "json",
+      retry_config: "json",
+      callbacks: "json",
+      tags: "json",
+      is_active: "boolean",
+      next_run_at: "text",
+      last_run_at: "text",
+      occurrences: "integer",
+      total_executions: "integer",
+      successful_executions: "integer",
+      failed_executions: "integer",
+      retry_attempt: "integer",
+      retry_at: "text",
+    },
+    primaryKey: ["id"],
+    defaults: {
+      updated_at: () => new Date().toISOString(),
+      method: () => "POST",
+      headers: emptyObject,
+      timezone: () => "UTC",
+      tags: () => [],
+      is_active: () => true,
+      occurrences: () => 0,
+      total_executions: () => 0,
+      successful_executions: () => 0,
+      failed_executions: () => 0,
+      retry_attempt: () => 0,
+    },
+    indexes: ["next_run_at"],
+  },
+  local_cron_execution_logs: {
+    columns: {
+      id: "text",
+      cron_job_id: "text",
+      execution_id: "text",
+      status: "text",
+      response_code: "integer",
+      response_body: "text",
+      error_message: "text",
+      response_time_ms: "integer",
+      retry_attempt: "integer",
+      executed_at: "text",
+    },
+    primaryKey: ["id"],
+    defaults: {
+      retry_attempt: () => 0,
+      executed_at: () => new Date().toISOString(),
+    },
+    indexes: ["cron_job_id"],
+  },
+  email_threads: {
+    columns: {
+      id: "text",
+      created_at: "text",
+      updated_at: "text",
+      sender_email: "text",
+      recipient_email: "text",
+      subject: "text",
+      status: "text",
+      metadata: "json",
+    },
+    primaryKey: ["id"],
+    defaults: {
+      updated_at: () => new Date().toISOString(),
+      status: () => "active",
+      metadata: emptyObject,
+    },
+    indexes: ["sender_email", "recipient_email"],
+  },
+  email_messages: {
+    columns: {
+      id: "text",
+      thread_id: "text",
+      email_id: "text",
+      created_at: "text",
+      direction: "text",
+      from_address: "text",
+      to_address: "text",
+      cc_addresses: "json",
+      bcc_addresses: "json",
+      subject: "text",
+      body_text: "text",
+      body_html: "text",
+      raw_email: "text",
+      headers: "json",
+      metadata: "json",
+      is_read: "boolean",
+      is_replied: "boolean",
+      replied_at: "text",
+      message_id_header: "text",
+      in_reply_to: "text",
+      reference_ids: "json",
+    },
+    primaryKey: ["id"],
+    defaults: {
+      cc_addresses: () => [],
+      bcc_addresses: () => [],
+      headers: emptyObject,
+      metadata: emptyObject,
+      is_read: () => false,
+      is_replied: () => false,
+      reference_ids: () => [],
+    },
+    indexes: ["thread_id", "email_id", "message_id_header"],
+  },
+  email_attachments: {
+    columns: {
+      id: "text",
+      message_id: "text",
+      filename: "text",
+      content_type: "text",
+      size_bytes: "integer",
+      url: "text",
+      content_id: "text",
+      created_at: "text",
+    },
+    primaryKey: ["id"],
+    indexes: ["message_id"],
+  },
+  email_drafts: {
+    columns: {
+      id: "text",
+      created_at: "text",
+      updated_at: "text",
+      thread_id: "text",
+      reply_to_id: "text",
+      to_address: "text",
+      subject: "text",
+      body: "text",
+      status: "text",
+      instructions: "text",
+      error: "text",
+      sent_message_id: "text",
+      reviewed_at: "text",
+    },
+    primaryKey: ["id"],
+    defaults: {
+      updated_at: () => new Date().toISOString(),
+      status: () => "pending",
+    },
+    indexes: ["thread_id", "status"],
+  },
+} satisfies Record<string, TableDefinition>;
+
+export type TableName = keyof typeof TABLES;
@@ -0,0 +1,14 @@
+import { LocalDatabaseAdapter } from "./local-adapter";
+import { SqliteTableStore } from "./sqlite-store";
+
+export const DEFAULT_SQLITE_PATH = "data/a1base.sqlite";
+
+/**
+ * Adapter that stores all data in a SQLite database file.
+ * The file and its tables are created on first use.
+ */
+export class SqliteAdapter extends LocalDatabaseAdapter {
+  constructor(filename: string = DEFAULT_SQLITE_PATH) {
+    super(new SqliteTableStore(filename));
+  }
+}
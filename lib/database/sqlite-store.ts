@@ -0,0 +1,180 @@
+import fs from "fs";
+import path from "path";
+import Database from "better-sqlite3";
+import { TABLES, ColumnType, TableName } from "./schema";
+import {
+  TableStore,
+  Row,
+  Where,
+  withDefaults,
+  definedOnly,
+  DuplicateKeyError,
+} from "./table-store";
+
+const SQL_TYPES: Record<ColumnType, string> = {
+  text: "TEXT",
+  json: "TEXT",
+  boolean: "INTEGER",
+  integer: "INTEGER",
+  real: "REAL",
+};
+
+function columnTypes(table: TableName): Record<string, ColumnType> {
+  return TABLES[table].columns as Record<string, ColumnType>;
+}
+
+/**
+ * Convert a JS value to what SQLite stores for the column type
+ */
+function toSql(type: ColumnType | undefined, value: unknown): unknown {
+  if (value === null || value === undefined) return null;
+  switch (type) {
+    case "json":
+      return JSON.stringify(value);
+    case "boolean":
+      return value ? 1 : 0;
+    default:
+      return value;
+  }
+}
+
+/**
+ * Convert a stored SQLite value back to its JS representation
+ */
+function fromSql(type: ColumnType | undefined, value: unknown): unknown {
+  if (value === null || value === undefined) return null;
+  switch (type) {
+    case "json":
+      return JSON.parse(value as string);
+    case "boolean":
+      return value === 1;
+    default:
+      return value;
+  }
+}
+
+/**
+ * TableStore backed by a SQLite database file.
+ * Tables are created on first use from the definitions in ./schema.
+ */
+export class SqliteTableStore implements TableStore {
+  private db: Database.Database;
+
+  constructor(filename: string) {
+    if (filename !== ":memory:") {
+      fs.mkdirSync(path.dirname(path.resolve(filename)), { recursive: true });
+    }
+    this.db = new Database(filename);
+    this.db.pragma("journal_mode = WAL");
+    this.createTables();
+  }
+
+  private createTables(): void {
+    for (const table of Object.keys(TABLES) as TableName[]) {
+      const definition = TABLES[table];
+      const columns = Object.entries(columnTypes(table))
+        .map(([name, type]) => `"${name}" ${SQL_TYPES[type]}`)
+        .join(", ");
+      const primaryKey = definition.primaryKey.map((column) => `"${column}"`).join(", ");
+
+      this.db.exec(
+        `CREATE TABLE IF NOT EXISTS "${table}" (${columns}, PRIMARY KEY (${primaryKey}))`
+      );
+
+      for (const column of ("indexes" in definition ? definition.indexes : []) || []) {
+        this.db.exec(
+          `CREATE INDEX IF NOT EXISTS "idx_${table}_${column}" ON "${table}" ("${column}")`
+        );
+      }
+    }
+  }
+
+  private whereClause(table: TableName, where?: Where): { sql: string; params: unknown[] } {
+    const entries = Object.entries(where || {});
+    if (entries.length === 0) return { sql: "", params: [] };
+
+    const types = columnTypes(table);
+    const clauses: string[] = [];
+    const params: unknown[] = [];
+    for (const [column, value] of entries) {
+      if (value === null) {
+        clauses.push(`"${column}" IS NULL`);
+      } else {
+        clauses.push(`"${column}" = ?`);
+        params.push(toSql(types[column], value));
+      }
+    }
+    return { sql: ` WHERE ${clauses.join(" AND ")}`, params };
+  }
+
+  private decode(table: TableName, row: Row): Row {
+    const types = columnTypes(table);
+    const decoded: Row = {};
+    for (const [column, value] of Object.entries(row)) {
+      decoded[column] = fromSql(types[column], value);
+    }
+    return decoded;
+  }
+
+  insert<T extends object = Row>(table: TableName, row: Row): T {
+    const complete = withDefaults(table, row);
+    const types = columnTypes(table);
+    const columns = Object.keys(complete);
+
+    try {
+      this.db
+        .prepare(
+          `INSERT INTO "${table}" (${columns.map((c) => `"${c}"`).join(", ")}) VALUES (${columns
+            .map(() => "?")
+            .join(", ")})`
+        )
+        .run(...columns.map((column) => toSql(types[column], complete[column])));
+    } catch (error) {
+      if ((error as { code?: string })?.code === "SQLITE_CONSTRAINT_PRIMARYKEY") {
+        throw new DuplicateKeyError(
+          table,
+          TABLES[table].primaryKey.map((column) => complete[column]).join(", ")
+        );
+      }
+      throw error;
+    }
+
+    return complete as T;
+  }
+
+  select<T extends object = Row>(table: TableName, where?: Where): T[] {
+    const { sql, params } = this.whereClause(table, where);
+    const rows = this.db
+      .prepare(`SELECT * FROM "${table}"${sql} ORDER BY rowid`)
+      .all(...params) as Row[];
+    return rows.map((row) => this.decode(table, row)) as T[];
+  }
+
+  update(table: TableName, where: Where, changes: Row): number {
+    const types = columnTypes(table);
+    const defined = definedOnly(changes);
+    const columns = Object.keys(defined);
+    if (columns.length === 0) return 0;
+
+    const { sql, params } = this.whereClause(table, where);
+    const result = this.db
+      .prepare(
+        `UPDATE "${table}" SET ${columns.map((c) => `"${c}" = ?`).join(", ")}${sql}`
+      )
+      .run(...columns.map((column) => toSql(types[column], defined[column])), ...params);
+    return result.changes;
+  }
+
+  delete(table: TableName, where: Where): number {
+    const { sql, params } = this.whereClause(table, where);
+    return this.db.prepare(`DELETE FROM "${table}"${sql}`).run(...params).changes;
+  }
+
+  transaction<T>(fn: () => T): T {
+    return this.db.transaction(fn)();
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
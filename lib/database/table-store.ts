@@ -0,0 +1,155 @@
+import { randomUUID } from "crypto";
+import { TABLES, TableDefinition, TableName } from "./schema";
+
+export type Row = Record<string, unknown>;
+
+/**
+ * Equality filter, a row matches when every listed column equals the given value
+ */
+export type Where = Record<string, unknown>;
+
+/**
+ * Minimal row storage used by LocalDatabaseAdapter.
+ * Implementations return copies of rows so callers can't mutate stored data.
+ */
+export interface TableStore {
+  /**
+   * Insert a row, filling in defaults for missing columns
+   * @returns The stored row, typed as the caller's record type
+   */
+  insert<T extends object = Row>(table: TableName, row: Row): T;
+  /**
+   * Select rows matching the filter, in insertion order, typed as the caller's record type
+   */
+  select<T extends object = Row>(table: TableName, where?: Where): T[];
+  /**
+   * Apply changes to every row matching the filter
+   * @returns Number of rows updated
+   */
+  update(table: TableName, where: Where, changes: Row): number;
+  /**
+   * Delete every row matching the filter
+   * @returns Number of rows deleted
+   */
+  delete(table: TableName, where: Where): number;
+  /**
+   * Run a group of operations atomically where the backend supports it
+   */
+  transaction<T>(fn: () => T): T;
+  /**
+   * Release any resources held by the store
+   */
+  close(): void;
+}
+
+/**
+ * Build a complete row for insertion: generated id, timestamps and table defaults
+ */
+export function withDefaults(table: TableName, row: Row): Row {
+  const definition: TableDefinition = TABLES[table];
+  const complete: Row = {};
+
+  for (const column of Object.keys(definition.columns)) {
+    if (row[column] !== undefined) {
+      complete[column] = row[column];
+    } else if (column === "id") {
+      complete[column] = randomUUID();
+    } else if (column === "created_at") {
+      complete[column] = new Date().toISOString();
+    } else if (definition.defaults && column in definition.defaults) {
+      complete[column] = (definition.defaults as Record<string, () => unknown>)[column]();
+    } else {
+      complete[column] = null;
+    }
+  }
+
+  return complete;
+}
+
+/**
+ * Error thrown when an insert would duplicate a primary key
+ */
+export class DuplicateKeyError extends Error {
+  constructor(table: TableName, key: string) {
+    super(`duplicate key value violates unique constraint "${table}_pkey" (${key})`);
+    this.name = "DuplicateKeyError";
+  }
+}
+
+function matches(row: Row, where?: Where): boolean {
+  if (!where) return true;
+  return Object.entries(where).every(([column, value]) => row[column] === value);
+}
+
+function copy(row: Row): Row {
+  return structuredClone(row);
+}
+
+/**
+ * Drop keys whose value is undefined so partial updates don't clear columns
+ */
+export function definedOnly(changes: Row): Row {
+  return Object.fromEntries(
+    Object.entries(changes).filter(([, value]) => value !== undefined)
+  );
+}
+
+/**
+ * TableStore that keeps every table in process memory.
+ * Data is lost when the process exits.
+ */
+export class MemoryTableStore implements TableStore {
+  private tables = new Map<TableName, Row[]>();
+
+  private rows(table: TableName): Row[] {
+    let rows = this.tables.get(table);
+    if (!rows) {
+      rows = [];
+      this.tables.set(table, rows);
+    }
+    return rows;
+  }
+
+  insert<T extends object = Row>(table: TableName, row: Row): T {
+    const complete = withDefaults(table, row);
+    const primaryKey = TABLES[table].primaryKey;
+    const key = Object.fromEntries(primaryKey.map((column) => [column, complete[column]]));
+
+    if (this.rows(table).some((existing) => matches(existing, key))) {
+      throw new DuplicateKeyError(table, Object.values(key).join(", "));
+    }
+
+    this.rows(table).push(copy(complete));
+    return complete as T;
+  }
+
+  select<T extends object = Row>(table: TableName, where?: Where): T[] {
+    return this.rows(table).filter((row) => matches(row, where)).map(copy) as T[];
+  }
+
+  update(table: TableName, where: Where, changes: Row): number {
+    let count = 0;
+    for (const row of this.rows(table)) {
+      if (matches(row, where)) {
+        Object.assign(row, copy(definedOnly(changes)));
+        count++;
+      }
+    }
+    return count;
+  }
+
+  delete(table: TableName, where: Where): number {
+    const rows = this.rows(table);
+    const remaining = rows.filter((row) => !matches(row, where));
+    this.tables.set(table, remaining);
+    return rows.length - remaining.length;
+  }
+
+  transaction<T>(fn: () => T): T {
+    return fn();
+  }
+
+  close(): void {
+    this.tables.clear();
+  }
+}
@@ -1,8 +1,661 @@
+import type { WebhookPayload } from "@/app/api/a1base/messaging/route";
+import type { ThreadData } from "@/lib/supabase/types";
+import type { CallbackConfig, ExecutionStatus, RetryConfig, ScheduleConfig } from "@/lib/a1cron/types";
+import type { ModerationFinding } from "@/lib/safety-config/moderation";
+
+/**
+ * Row shapes shared by every database adapter.
+ * These mirror the tables defined in migrations/ so that adapters can be swapped
+ * without callers having to know which backend they are talking to.
+ */
+
+/**
+ * A single entry in a user or chat memory object
+ */
+export interface MemoryEntry {
+  value: string;
+  updated_at: string;
+  previous_value?: string;
+}
+
+/**
+ * Row in the conversation_users table
+ */
+export interface UserRecord {
+  id: string;
+  created_at: string;
+  name: string | null;
+  phone_number: string | null;
+  service: string | null;
+  metadata: Record<string, unknown> | null;
+  memory?: Record<string, MemoryEntry> | null;
+}
+
+/**
+ * Row in the chats table
+ */
+export interface ChatRecord {
+  id: string;
+  created_at: string;
+  type: string;
+  name: string | null;
+  external_id: string | null;
+  service: string | null;
+  metadata: Record<string, unknown> | null;
+  memory?: Record<string, MemoryEntry> | null;
+}
+
+/**
+ * Row in the projects table
+ */
+export interface ProjectRecord {
+  id: string;
+  chat_id: string | null;
+  name: string;
+  description: string | null;
+  created_at: string;
+  updated_at: string;
+  is_live: boolean;
+  attributes: Record<string, unknown>;
+}
+
+/**
+ * Row in the project_history table
+ */
+export interface ProjectHistoryRecord {
+  id: string;
+  project_id: string;
+  event_type: string;
+  details: string | null;
+  created_at: string;
+}
+
+/**
+ * Row in the project_events table
+ */
+export interface ProjectEventRecord {
+  id: string;
+  project_id: string;
+  event_type: string;
+  description: string | null;
+  metadata: Record<string, unknown>;
+  created_at: string;
+}
+
+/**
+ * Row in the project_tasks table
+ */
+export interface ProjectTaskRecord {
+  id: string;
+  project_id: string;
+  title: string;
+  status: "open" | "done";
+  /**
+   * Conversation user the task is assigned to
+   */
+  assignee_id: string | null;
+  /**
+   * When the task is due, ISO timestamp
+   */
+  due_at: string | null;
+  completed_at: string | null;
+  /**
+   * Conversation user who added the task
+   */
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ProjectTaskFilter {
+  projectIds?: string[];
+  status?: ProjectTaskRecord["status"];
+  assigneeId?: string;
+  /**
+   * Only return tasks due before this ISO timestamp
+   */
+  dueBefore?: string;
+}
+
+/**
+ * Row in the model_usage table
+ */
+export interface ModelUsageRecord {
+  id: string;
+  created_at: string;
+  task: string;
+  model: string;
+  chat_id: string | null;
+  user_id: string | null;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  cost_usd: number | null;
+}
+
+/**
+ * Filters for reading model usage
+ */
+export interface ModelUsageFilter {
+  /**
+   * Only return usage recorded on or after this ISO timestamp
+   */
+  since?: string;
+  chatId?: string;
+  userId?: string;
+  task?: string;
+}
+
+/**
+ * Row in the memory_chunks table: a message or memory fact with its embedding
+ */
+export interface MemoryChunkRecord {
+  id: string;
+  created_at: string;
+  user_id: string | null;
+  chat_id: string | null;
+  kind: "message" | "fact";
+  content: string;
+  embedding: number[];
+  embedding_model: string;
+  metadata: Record<string, unknown>;
+}
+
+/**
+ * Filters for reading and deleting memory chunks. At least one of userId and
+ * chatId must be given.
+ */
+export interface MemoryChunkFilter {
+  /**
+   * Internal ID of the user
+   */
+  userId?: string;
+  /**
+   * Internal ID of the chat
+   */
+  chatId?: string;
+  /**
+   * Only match chunks created before this ISO timestamp
+   */
+  before?: string;
+  /**
+   * Only return the most recent chunks, ignored when deleting
+   */
+  limit?: number;
+}
+
+/**
+ * Whose memory a field belongs to
+ */
+export type MemoryScope = "user" | "chat";
+
+/**
+ * Where a memory change came from, recorded in memory_history
+ */
+export interface MemoryProvenance {
+  /**
+   * What made the change: memory_processor, manual or revert. Defaults to manual
+   */
+  source?: string;
+  /**
+   * External ID of the message the change was extracted from
+   */
+  sourceMessageId?: string | null;
+  /**
+   * "provider:model" that suggested the change
+   */
+  model?: string | null;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Row in the memory_history table: one change to a memory field
+ */
+export interface MemoryHistoryRecord {
+  id: string;
+  created_at: string;
+  scope: MemoryScope;
+  /**
+   * Internal ID of the user or chat
+   */
+  owner_id: string;
+  field_id: string;
+  previous_value: string | null;
+  /**
+   * Value after the change, null when the field was deleted
+   */
+  new_value: string | null;
+  source: string;
+  source_message_id: string | null;
+  model: string | null;
+  metadata: Record<string, unknown>;
+}
+
+export type MemoryReviewStatus = "pending" | "approved" | "rejected";
+
+/**
+ * Row in the memory_review_queue table: a suggested memory update waiting for
+ * (or given) human approval
+ */
+export interface MemoryReviewRecord {
+  id: string;
+  created_at: string;
+  scope: MemoryScope;
+  /**
+   * Internal ID of the user or chat
+   */
+  owner_id: string;
+  field_id: string;
+  /**
+   * Value of the field when the update was suggested
+   */
+  current_value: string | null;
+  proposed_value: string;
+  status: MemoryReviewStatus;
+  source_message_id: string | null;
+  /**
+   * Content of the message the update was extracted from
+   */
+  source_message: string | null;
+  model: string | null;
+  reviewed_at: string | null;
+  /**
+   * Value saved on approval, differs from proposed_value when edited
+   */
+  applied_value: string | null;
+}
+
+export interface MemoryReviewFilter {
+  status?: MemoryReviewStatus;
+  scope?: MemoryScope;
+  /**
+   * Internal ID of the user or chat
+   */
+  ownerId?: string;
+}
+
+/**
+ * Row in the moderation_log table: a message flagged by the moderation pipeline
+ */
+export interface ModerationLogRecord {
+  id: string;
+  created_at: string;
+  direction: "inbound" | "outbound";
+  service: string | null;
+  /**
+   * External thread ID, or the email thread ID
+   */
+  thread_id: string | null;
+  message_id: string | null;
+  action: string;
+  categories: string[];
+  /**
+   * What each checker found, with sensitive matches masked
+   */
+  findings: ModerationFinding[];
+}
+
+export interface ModerationLogFilter {
+  /**
+   * Only return entries logged on or after this ISO timestamp
+   */
+  since?: string;
+  threadId?: string;
+  action?: string;
+  direction?: ModerationLogRecord["direction"];
+  limit?: number;
+}
+
+/**
+ * Row in the local_cron_jobs table, a job run by the local cron scheduler
+ */
+export interface CronJobRecord {
+  id: string;
+  created_at: string;
+  updated_at: string;
+  name: string;
+  description: string | null;
+  endpoint_url: string;
+  method: string;
+  headers: Record<string, string>;
+  body: string | null;
+  timezone: string;
+  schedule_config: ScheduleConfig;
+  retry_config: RetryConfig | null;
+  callbacks: CallbackConfig | null;
+  tags: string[];
+  is_active: boolean;
+  /**
+   * When the job is next due, null once its schedule has ended
+   */
+  next_run_at: string | null;
+  last_run_at: string | null;
+  /**
+   * Scheduled runs so far, counted against end_occurrences
+   */
+  occurrences: number;
+  total_executions: number;
+  successful_executions: number;
+  failed_executions: number;
+  /**
+   * Attempt number of the pending retry, 0 when none is pending
+   */
+  retry_attempt: number;
+  retry_at: string | null;
+}
+
+/**
+ * Fields given when storing a cron job, the counters start at 0
+ */
+export type NewCronJob = Pick<CronJobRecord, "name" | "endpoint_url" | "method" | "timezone" | "schedule_config" | "next_run_at"> &
+  Partial<Pick<CronJobRecord, "description" | "headers" | "body" | "retry_config" | "callbacks" | "tags" | "is_active">>;
+
+export interface CronJobFilter {
+  isActive?: boolean;
+  /**
+   * Only return jobs with a run or retry due on or before this ISO timestamp
+   */
+  dueBefore?: string;
+}
+
+/**
+ * Row in the local_cron_execution_logs table
+ */
+export interface CronExecutionLogRecord {
+  id: string;
+  cron_job_id: string;
+  /**
+   * Shared by every attempt of one run
+   */
+  execution_id: string;
+  status: ExecutionStatus;
+  response_code: number | null;
+  response_body: string | null;
+  error_message: string | null;
+  response_time_ms: number | null;
+  retry_attempt: number;
+  executed_at: string;
+}
+
+export interface CronExecutionLogFilter {
+  status?: ExecutionStatus;
+  /**
+   * Only return executions on or after this ISO timestamp
+   */
+  since?: string;
+  /**
+   * Only return executions on or before this ISO timestamp
+   */
+  until?: string;
+  limit?: number;
+}
+
+/**
+ * Row in the media_files table, a file sent with a message
+ */
+export interface MediaFileRecord {
+  id: string;
+  /**
+   * Internal ID of the message the file came with
+   */
+  message_id: string;
+  /**
+   * Where the file is stored, null for media that only arrived inline as base64
+   */
+  file_url: string | null;
+  file_type: string;
+  file_size: number | null;
+  mime_type: string | null;
+  thumbnail_url: string | null;
+  duration_seconds: number | null;
+  dimensions: { width: number; height: number } | null;
+  created_at: string;
+  /**
+   * What was in the file, e.g. description and extracted_text (see lib/services/media-understanding.ts)
+   */
+  metadata: Record<string, unknown>;
+}
+
+export type NewMediaFile = Pick<MediaFileRecord, "message_id" | "file_type"> &
+  Partial<Omit<MediaFileRecord, "id" | "created_at" | "message_id" | "file_type">>;
+
+/**
+ * Row in the email_threads table, one email conversation
+ */
+export interface EmailThreadRecord {
+  id: string;
+  created_at: string;
+  /**
+   * Time of the latest email in the thread
+   */
+  updated_at: string;
+  sender_email: string;
+  recipient_email: string;
+  /**
+   * Subject of the first email
+   */
+  subject: string | null;
+  status: "active" | "archived" | "spam";
+  metadata: Record<string, unknown>;
+}
+
+export type NewEmailThread = Pick<EmailThreadRecord, "sender_email" | "recipient_email" | "subject">;
+
+/**
+ * Row in the email_messages table, an email received or sent by the agent
+ */
+export interface EmailMessageRecord {
+  id: string;
+  thread_id: string;
+  /**
+   * ID of the email from the webhook
+   */
+  email_id: string;
+  created_at: string;
+  direction: "inbound" | "outbound";
+  from_address: string;
+  to_address: string;
+  cc_addresses: string[];
+  bcc_addresses: string[];
+  subject: string;
+  /**
+   * What the sender wrote, without the quoted history or signature
+   */
+  body_text: string | null;
+  body_html: string | null;
+  raw_email: string | null;
+  headers: Record<string, string>;
+  metadata: Record<string, unknown>;
+  is_read: boolean;
+  is_replied: boolean;
+  replied_at: string | null;
+  /**
+   * Message-ID header without its angle brackets
+   */
+  message_id_header: string | null;
+  in_reply_to: string | null;
+  /**
+   * Message-IDs from the References header, oldest first
+   */
+  reference_ids: string[];
+}
+
+export type NewEmailMessage = Pick<
+  EmailMessageRecord,
+  "thread_id" | "email_id" | "direction" | "from_address" | "to_address" | "subject"
+> &
+  Partial<
+    Pick<
+      EmailMessageRecord,
+      | "cc_addresses"
+      | "bcc_addresses"
+      | "body_text"
+      | "body_html"
+      | "raw_email"
+      | "headers"
+      | "metadata"
+      | "message_id_header"
+      | "in_reply_to"
+      | "reference_ids"
+    >
+  >;
+
+/**
+ * Row in the email_attachments table
+ */
+export interface EmailAttachmentRecord {
+  id: string;
+  /**
+   * ID of the row in email_messages
+   */
+  message_id: string;
+  filename: string;
+  content_type: string | null;
+  size_bytes: number | null;
+  /**
+   * Reference to the file in media storage (see lib/storage/media-storage.ts),
+   * null when it wasn't kept
+   */
+  url: string | null;
+  content_id: string | null;
+  created_at: string;
+}
+
+export type NewEmailAttachment = Omit<EmailAttachmentRecord, "id" | "created_at">;
+
+/**
+ * pending: waiting for review. sending: approved and being sent. sent: sent
+ * as the email in sent_message_id. discarded: dropped by the reviewer.
+ */
+export type EmailDraftStatus = "pending" | "sending" | "sent" | "discarded";
+
+/**
+ * Row in the email_drafts table, a reply written by the agent that waits in
+ * the outbox for a human to edit, approve, regenerate or discard it
+ */
+export interface EmailDraftRecord {
+  id: string;
+  created_at: string;
+  updated_at: string;
+  thread_id: string;
+  /**
+   * Row in email_messages the draft answers
+   */
+  reply_to_id: string | null;
+  to_address: string;
+  subject: string;
+  body: string;
+  status: EmailDraftStatus;
+  /**
+   * Instructions the draft was last regenerated with
+   */
+  instructions: string | null;
+  /**
+   * Why the last attempt to send the draft failed
+   */
+  error: string | null;
+  /**
+   * Row in email_messages the draft was sent as
+   */
+  sent_message_id: string | null;
+  reviewed_at: string | null;
+}
+
+export type NewEmailDraft = Pick<EmailDraftRecord, "thread_id" | "reply_to_id" | "to_address" | "subject" | "body">;
+
+export interface EmailDraftFilter {
+  status?: EmailDraftStatus;
+  threadId?: string;
+}
+
+/**
+ * Row in the messages table
+ */
+export interface MessageRow {
+  id: string;
+  chat_id: string | null;
+  sender_id: string | null;
+  content: string;
+  created_at: string;
+  message_type: string | null;
+  external_id: string | null;
+  rich_content: Record<string, unknown> | null;
+  service: string | null;
+  status: string | null;
+  status_updated_at: string | null;
+}
+
+/**
+ * Message shape returned to the web UI chat endpoints
+ */
+export interface WebChatMessage {
+  id: string;
+  content: string;
+  timestamp: string;
+  messageType?: string;
+  senderId: string | null;
+  senderName: string;
+  senderService: string;
+  isFromAgent?: boolean;
+}
+
+/**
+ * Message count and most recent message time for a chat
+ */
+export interface ChatMessageStats {
+  count: number;
+  lastMessageAt: string | null;
+}
+
+/**
+ * Filters for reading and deleting stored messages. At least one of chatId
+ * and senderId must be given.
+ */
+export interface MessageFilter {
+  /**
+   * Internal ID of the chat
+   */
+  chatId?: string;
+  /**
+   * User ID of the sender
+   */
+  senderId?: string;
+  /**
+   * Only match messages created before this ISO timestamp
+   */
+  before?: string;
+}
+
+/**
+ * Result returned by the memory read and write operations
+ */
+export interface MemoryResult {
+  data: unknown;
+  error: unknown;
+}
+
+/**
+ * Result returned by the memory delete operations
+ */
+export interface MemoryDeleteResult {
+  success: boolean;
+  error: unknown;
+}
+
 /**
  * Interface for database adapters used in the A1 Framework
  * Defines the contract that any database implementation must fulfill
  */
 export interface DatabaseAdapterInterface {
+  /**
+   * Prepare the backend for use (connect, verify or create tables)
+   */
+  init: () => Promise<void>;
+
+  /**
+   * User Operations
+   */
+
   /**
    * Create a new user in the database
    * @param name User's display name
@@ -10,54 +663,123 @@ export interface DatabaseAdapterInterface {
    * @returns User ID if successful, null if failed
    */
   createUser: (name: string, phoneNumber: string) => Promise<string | null>;
-  
+
+  /**
+   * Get or create a user by phone number (or other unique sender identifier)
+   * @param senderNumber Sender's phone number, '+' is stripped before storage
+   * @param senderName Name to use if the user has to be created
+   * @param service Service the user was first seen on
+   * @param metadata Metadata to store if the user has to be created
+   * @returns User ID if successful, null if failed
+   */
+  getUserFromWebhook: (
+    senderNumber: string,
+    senderName: string,
+    service: string,
+    metadata?: Record<string, unknown>
+  ) => Promise<string | null>;
+
   /**
    * Update an existing user's information
    * @param phoneNumber User's phone number
-   * @param updates Object containing fields to update
+   * @param updates Object containing fields to update, metadata is merged with existing metadata
    * @returns Success status
    */
   updateUser: (
     phoneNumber: string,
-    updates: { name?: string; metadata?: Record<string, any> }
+    updates: { name?: string; metadata?: Record<string, unknown> }
+  ) => Promise<boolean>;
+
+  /**
+   * Update an existing user's information by user ID
+   * @param userId User ID
+   * @param updates Object containing fields to update, metadata is merged with existing metadata
+   * @returns Success status
+   */
+  updateUserById: (
+    userId: string,
+    updates: { name?: string; metadata?: Record<string, unknown> }
   ) => Promise<boolean>;
-  
+
   /**
    * Get a user by their phone number
    * @param phoneNumber User's phone number
    * @returns User object if found, null if not
    */
-  getUserByPhone: (phoneNumber: string) => Promise<{ name: string; metadata?: Record<string, any> } | null>;
-  
+  getUserByPhone: (phoneNumber: string) => Promise<UserRecord | null>;
+
+  /**
+   * Get a user by their ID
+   * @param userId User ID
+   * @returns User object if found, null if not
+   */
+  getUserById: (userId: string) => Promise<UserRecord | null>;
+
+  /**
+   * Get the metadata stored against a user, used for onboarding state
+   * @param phoneNumber User's phone number
+   * @returns Metadata if found, null if not
+   */
+  getUserOnboardingData: (phoneNumber: string) => Promise<Record<string, unknown> | null>;
+
+  /**
+   * Create a new anonymous web user
+   * @returns User data with id and generated name
+   */
+  createWebUser: () => Promise<{ id: string; name: string } | null>;
+
+  /**
+   * Get every user in the database, oldest first
+   * @returns Array of users
+   */
+  getAllUsers: () => Promise<UserRecord[]>;
+
+  /**
+   * Pseudonymize a user: replace their name, remove their phone number, memory
+   * and metadata, and unlink their recorded model usage. Their ID, chats and
+   * messages are kept.
+   * @param userId User ID
+   * @param pseudonym Name to store instead of the user's name
+   * @param metadata Metadata to store instead of the existing metadata
+   * @returns Success status
+   */
+  anonymizeUser: (userId: string, pseudonym: string, metadata?: Record<string, unknown>) => Promise<boolean>;
+
+  /**
+   * Thread/Chat Operations
+   */
+
   /**
    * Process a webhook payload and store its data
    * @param payload Webhook payload containing message data
-   * @returns Object containing success status and whether the chat is new
+   * @returns Object containing success status, whether the chat is new and the internal chat ID
    */
-  processWebhookPayload: (payload: any) => Promise<{ success: boolean; isNewChat: boolean }>;
-  
+  processWebhookPayload: (
+    payload: WebhookPayload
+  ) => Promise<{ success: boolean; isNewChat: boolean; chatId: string | null }>;
+
   /**
    * Get thread data by its external ID
    * @param threadId External thread ID
    * @returns Thread data if found, null if not
    */
-  getThread: (threadId: string) => Promise<any | null>;
+  getThread: (threadId: string) => Promise<ThreadData | null>;
 
   /**
    * Update the messages in a thread
-   * @param threadId External ID of the thread
+   * @param threadId ID of the thread
    * @param messages Array of messages to store
    * @returns Success status
    */
-  updateThreadMessages: (threadId: string, messages: any[]) => Promise<boolean>;
+  updateThreadMessages: (threadId: string, messages: Record<string, unknown>[]) => Promise<boolean>;
 
   /**
    * Update the participants in a thread
-   * @param threadId External ID of the thread
+   * @param threadId ID of the thread
    * @param participants Array of participants to store
    * @returns Success status
    */
-  updateThreadParticipants: (threadId: string, participants: any[]) => Promise<boolean>;
+  updateThreadParticipants: (threadId: string, participants: Record<string, unknown>[]) => Promise<boolean>;
 
   /**
    * Create a new thread with initial messages and participants
@@ -68,9 +790,778 @@ export interface DatabaseAdapterInterface {
    * @returns Thread ID if successful, null if failed
    */
   createThread: (
-    threadId: string, 
-    messages: any[], 
-    participants: any[], 
-    threadType: string
+    threadId: string,
+    messages?: Record<string, unknown>[],
+    participants?: Record<string, unknown>[],
+    threadType?: string
+  ) => Promise<string | null>;
+
+  /**
+   * Get or create a chat by its external ID
+   * @param threadId External thread ID
+   * @param threadType 'individual' or 'group', anything else is stored as 'individual'
+   * @param service Service the chat belongs to
+   * @param metadata Metadata to store if the chat has to be created
+   * @returns Internal chat ID if successful, null if failed
+   */
+  getChatFromWebhook: (
+    threadId: string,
+    threadType: string,
+    service: string,
+    metadata?: Record<string, unknown>
+  ) => Promise<string | null>;
+
+  /**
+   * Get a chat by its external ID
+   * @param externalId External thread ID
+   * @returns Chat if found, null if not
+   */
+  getChatByExternalId: (externalId: string) => Promise<ChatRecord | null>;
+
+  /**
+   * Get every chat in the database
+   * @returns Array of chats
+   */
+  getAllChats: () => Promise<ChatRecord[]>;
+
+  /**
+   * Get all chats that a user participates in
+   * @param userId The user's ID
+   * @returns Array of chats
+   */
+  getChatsForUser: (userId: string) => Promise<ChatRecord[]>;
+
+  /**
+   * Create a new web-ui chat and add the creator as a participant
+   * @param creatorId The ID of the user creating the chat
+   * @returns Chat object with id and external_id
+   */
+  createChat: (creatorId: string) => Promise<{ id: string; external_id: string } | null>;
+
+  /**
+   * Update metadata for a chat
+   * @param chatId Internal ID of the chat
+   * @param metadata Metadata to merge with the existing metadata
+   * @returns Success status
+   */
+  updateChatMetadata: (chatId: string, metadata: Record<string, unknown>) => Promise<boolean>;
+
+  /**
+   * Get the metadata stored against a chat, used for group onboarding state
+   * @param externalId External thread ID
+   * @param service Service the chat belongs to
+   * @returns Metadata if found, null if not
+   */
+  getChatOnboardingData: (externalId: string, service: string) => Promise<Record<string, unknown> | null>;
+
+  /**
+   * Participant Operations
+   */
+
+  /**
+   * Add a participant to a chat, does nothing if they are already a participant
+   * @param chatId Internal ID of the chat
+   * @param userId User ID
+   * @returns Success status
+   */
+  addParticipantToChat: (chatId: string, userId: string) => Promise<boolean>;
+
+  /**
+   * Add a user to a chat as a participant
+   * @param chatId External ID of the chat
+   * @param userId User ID
+   * @returns Success status
+   */
+  addUserToChat: (chatId: string, userId: string) => Promise<boolean>;
+
+  /**
+   * Check whether a user is a participant in a chat
+   * @param chatId Internal ID of the chat
+   * @param userId User ID
+   * @returns True if the user is a participant
+   */
+  isChatParticipant: (chatId: string, userId: string) => Promise<boolean>;
+
+  /**
+   * Get the users participating in a chat
+   * @param chatId Internal ID of the chat
+   * @returns Array of users
+   */
+  getChatParticipants: (chatId: string) => Promise<UserRecord[]>;
+
+  /**
+   * Message Operations
+   */
+
+  /**
+   * Store a message
+   * @param chatId Internal ID of the chat
+   * @param senderId User ID of the sender, null for system messages
+   * @param messageId External message ID
+   * @param content Message content object, the text is derived from it
+   * @param messageType Type of message (text, image, system...)
+   * @param service Service the message was sent on
+   * @param richContent Optional rich content to store instead of content
+   * @returns Internal message ID if successful, null if failed
+   */
+  storeMessage: (
+    chatId: string,
+    senderId: string | null,
+    messageId: string,
+    content: Record<string, unknown>,
+    messageType: string,
+    service: string,
+    richContent?: Record<string, unknown>
+  ) => Promise<string | null>;
+
+  /**
+   * Get all messages for a web-ui chat
+   * @param chatId External ID of the chat
+   * @param userId ID of the user requesting messages (must be a participant)
+   * @returns Array of messages
+   */
+  getChatMessages: (chatId: string, userId: string) => Promise<WebChatMessage[]>;
+
+  /**
+   * Add a text message to a web-ui chat
+   * @param chatId External ID of the chat
+   * @param senderId ID of the user sending the message (must be a participant)
+   * @param content Message text
+   * @returns The created message if successful, null if failed
+   */
+  addMessageToChat: (chatId: string, senderId: string, content: string) => Promise<WebChatMessage | null>;
+
+  /**
+   * Count the messages in a chat
+   * @param chatId Internal ID of the chat
+   * @param options Only count messages created on or after `since` and/or sent by `senderId`
+   * @returns Message count and the time of the most recent counted message
+   */
+  getChatMessageStats: (
+    chatId: string,
+    options?: { since?: string; senderId?: string }
+  ) => Promise<ChatMessageStats>;
+
+  /**
+   * Get a stored message by its external message ID
+   * @param messageId External message ID
+   * @returns Message if found, null if not
+   */
+  getMessageByExternalId: (messageId: string) => Promise<MessageRow | null>;
+
+  /**
+   * Update the delivery status of a message
+   * @param params Object containing the external message ID, status and optional error details
+   * @returns Success status
+   */
+  updateMessageStatus: (params: {
+    messageId: string;
+    status: string;
+    updatedAt: string;
+    errorCode?: string;
+    errorMessage?: string;
+  }) => Promise<boolean>;
+
+  /**
+   * Get stored messages, oldest first
+   * @param filter Chat, sender and time filters
+   * @returns Array of messages, empty if neither chatId nor senderId is given
+   */
+  getMessages: (filter: MessageFilter) => Promise<MessageRow[]>;
+
+  /**
+   * Delete stored messages
+   * @param filter Chat, sender and time filters
+   * @returns Number of messages deleted, 0 if neither chatId nor senderId is given
+   */
+  deleteMessages: (filter: MessageFilter) => Promise<number>;
+
+  /**
+   * Project Operations
+   */
+
+  /**
+   * Get live projects for a chat plus any completed in the last 48 hours
+   * @param chatId Internal ID of the chat
+   * @returns Array of projects
+   */
+  getProjectsByChat: (chatId: string) => Promise<ProjectRecord[]>;
+
+  /**
+   * Get every project belonging to any of the given chats, live projects first
+   * @param chatIds Internal chat IDs
+   * @returns Array of projects
+   */
+  getProjectsForChats: (chatIds: string[]) => Promise<ProjectRecord[]>;
+
+  /**
+   * Create a new live project
+   * @param name Project name
+   * @param description Project description
+   * @param chatId Internal ID of the chat the project belongs to
+   * @param attributes Free-form project attributes
+   * @returns Project ID if successful, null if failed
+   */
+  createProject: (
+    name: string,
+    description: string,
+    chatId: string,
+    attributes?: Record<string, unknown>
+  ) => Promise<string | null>;
+
+  /**
+   * Update an existing project
+   * @param projectId Project ID
+   * @param updates Fields to update
+   * @returns Success status
+   */
+  updateProject: (
+    projectId: string,
+    updates: { is_live?: boolean; name?: string; description?: string; attributes?: Record<string, unknown> }
+  ) => Promise<boolean>;
+
+  /**
+   * Update project attributes
+   * @param projectId Project ID
+   * @param attributes Attributes to set
+   * @param replace Replace all attributes instead of merging with the existing ones
+   * @returns Success status
+   */
+  updateProjectAttributes: (
+    projectId: string,
+    attributes: Record<string, unknown>,
+    replace?: boolean
+  ) => Promise<boolean>;
+
+  /**
+   * Get a project by ID
+   * @param projectId Project ID
+   * @returns Project if found, null if not
+   */
+  getProjectById: (projectId: string) => Promise<ProjectRecord | null>;
+
+  /**
+   * Get every project, newest first
+   * @returns Array of projects
+   */
+  getAllProjects: () => Promise<ProjectRecord[]>;
+
+  /**
+   * Delete a project with its history, events and tasks
+   * @param projectId Project ID
+   * @returns Success status
+   */
+  deleteProject: (projectId: string) => Promise<boolean>;
+
+  /**
+   * Log an entry in a project's history
+   * @param projectId Project ID
+   * @param eventType Type of event (created, updated, completed...)
+   * @param details Human readable details
+   * @returns History entry ID if successful, null if failed
+   */
+  logProjectEvent: (projectId: string, eventType: string, details: string) => Promise<string | null>;
+
+  /**
+   * Get a project's history, oldest first
+   * @param projectId Project ID
+   * @returns Array of history entries
+   */
+  getProjectHistory: (projectId: string) => Promise<ProjectHistoryRecord[]>;
+
+  /**
+   * Record an action or task event against a project
+   * @param projectId Project ID
+   * @param eventType Type of event
+   * @param description Human readable description
+   * @param metadata Free-form event metadata
+   * @returns Event ID if successful, null if failed
+   */
+  addProjectEvent: (
+    projectId: string,
+    eventType: string,
+    description: string,
+    metadata?: Record<string, unknown>
+  ) => Promise<string | null>;
+
+  /**
+   * Get the events recorded against any of the given projects, oldest first
+   * @param projectIds Project IDs
+   * @param since Only return events created on or after this ISO timestamp
+   * @returns Array of events
+   */
+  getProjectEvents: (projectIds: string[], since?: string) => Promise<ProjectEventRecord[]>;
+
+  /**
+   * Project Task Operations
+   */
+
+  /**
+   * Add a task to a project
+   * @param task Project, title and optionally the assignee, due date and creator
+   * @returns Task ID if successful, null if failed
+   */
+  createProjectTask: (
+    task: Pick<ProjectTaskRecord, "project_id" | "title"> &
+      Partial<Pick<ProjectTaskRecord, "assignee_id" | "due_at" | "created_by">>
+  ) => Promise<string | null>;
+
+  /**
+   * Update a task. Setting the status to done records completed_at, reopening clears it.
+   * @param taskId Task ID
+   * @param updates Fields to update
+   * @returns Success status
+   */
+  updateProjectTask: (
+    taskId: string,
+    updates: Partial<Pick<ProjectTaskRecord, "title" | "status" | "assignee_id" | "due_at">>
+  ) => Promise<boolean>;
+
+  /**
+   * Get a task by ID
+   * @param taskId Task ID
+   * @returns Task if found, null if not
+   */
+  getProjectTask: (taskId: string) => Promise<ProjectTaskRecord | null>;
+
+  /**
+   * Get tasks, oldest first
+   * @param filter Projects, status, assignee and due date to filter by, every task if empty
+   * @returns Array of tasks
+   */
+  getProjectTasks: (filter?: ProjectTaskFilter) => Promise<ProjectTaskRecord[]>;
+
+  /**
+   * Delete a task
+   * @param taskId Task ID
+   * @returns Success status
+   */
+  deleteProjectTask: (taskId: string) => Promise<boolean>;
+
+  /**
+   * Memory Operations
+   */
+
+  /**
+   * Set a field in a user's memory, integrating list-like fields with the existing value
+   * @param userId User ID or phone number
+   * @param fieldId Memory field ID
+   * @param value New value
+   * @param provenance Where the change came from, recorded in the memory history
+   * @returns Updated record and error, if any
+   */
+  upsertUserMemoryValue: (
+    userId: string,
+    fieldId: string,
+    value: string,
+    provenance?: MemoryProvenance
+  ) => Promise<MemoryResult>;
+
+  /**
+   * Set a field in a chat's memory, integrating list-like fields with the existing value
+   * @param chatId Internal or external chat ID
+   * @param fieldId Memory field ID
+   * @param value New value
+   * @param provenance Where the change came from, recorded in the memory history
+   * @returns Updated record and error, if any
+   */
+  upsertChatThreadMemoryValue: (
+    chatId: string,
+    fieldId: string,
+    value: string,
+    provenance?: MemoryProvenance
+  ) => Promise<MemoryResult>;
+
+  /**
+   * Get a field from a user's memory
+   * @param userId User ID or phone number
+   * @param fieldId Memory field ID
+   * @returns The memory value (or null) and error, if any
+   */
+  getUserMemoryValue: (userId: string, fieldId: string) => Promise<MemoryResult>;
+
+  /**
+   * Delete a field from a user's memory
+   * @param userId User ID or phone number
+   * @param fieldId Memory field ID
+   * @param provenance Where the change came from, recorded in the memory history
+   * @returns Success status and error, if any
+   */
+  deleteUserMemoryValue: (
+    userId: string,
+    fieldId: string,
+    provenance?: MemoryProvenance
+  ) => Promise<MemoryDeleteResult>;
+
+  /**
+   * Get a field from a chat's memory
+   * @param chatId Internal chat ID
+   * @param fieldId Memory field ID
+   * @returns The memory value (or null) and error, if any
+   */
+  getChatMemoryValue: (chatId: string, fieldId: string) => Promise<MemoryResult>;
+
+  /**
+   * Delete a field from a chat's memory
+   * @param chatId Internal chat ID
+   * @param fieldId Memory field ID
+   * @param provenance Where the change came from, recorded in the memory history
+   * @returns Success status and error, if any
+   */
+  deleteChatMemoryValue: (
+    chatId: string,
+    fieldId: string,
+    provenance?: MemoryProvenance
+  ) => Promise<MemoryDeleteResult>;
+
+  /**
+   * Get every memory value for a user
+   * @param userId User ID or phone number
+   * @returns Map of field ID to value
+   */
+  getAllUserMemoryValues: (userId: string) => Promise<Record<string, unknown>>;
+
+  /**
+   * Get every memory value for a chat
+   * @param chatId Internal or external chat ID
+   * @returns Map of field ID to value
+   */
+  getAllChatMemoryValues: (chatId: string) => Promise<Record<string, unknown>>;
+
+  /**
+   * Set a memory field to exactly this value, without integrating it with the
+   * existing value, or delete it when the value is null
+   * @param scope User or chat memory
+   * @param ownerId Internal user or chat ID
+   * @param fieldId Memory field ID
+   * @param value New value, or null to delete the field
+   * @param provenance Where the change came from, recorded in the memory history
+   * @returns Success status
+   */
+  setMemoryValue: (
+    scope: MemoryScope,
+    ownerId: string,
+    fieldId: string,
+    value: string | null,
+    provenance?: MemoryProvenance
+  ) => Promise<boolean>;
+
+  /**
+   * Get the changes to a user's or chat's memory, newest first
+   * @param scope User or chat memory
+   * @param ownerId Internal user or chat ID
+   * @param fieldId Only return changes to this field
+   * @returns Array of changes
+   */
+  getMemoryHistory: (scope: MemoryScope, ownerId: string, fieldId?: string) => Promise<MemoryHistoryRecord[]>;
+
+  /**
+   * Get one memory change by ID
+   * @param historyId Memory history record ID
+   * @returns The change or null if not found
+   */
+  getMemoryHistoryEntry: (historyId: string) => Promise<MemoryHistoryRecord | null>;
+
+  /**
+   * Delete every recorded change to a user's or chat's memory
+   * @param scope User or chat memory
+   * @param ownerId Internal user or chat ID
+   * @returns Number of changes deleted
+   */
+  deleteMemoryHistory: (scope: MemoryScope, ownerId: string) => Promise<number>;
+
+  /**
+   * Memory Review Operations
+   */
+
+  /**
+   * Queue a suggested memory update for review
+   * @param review Suggested update
+   * @returns ID of the queued update or null if it failed
+   */
+  addMemoryReview: (
+    review: Omit<MemoryReviewRecord, "id" | "created_at" | "status" | "reviewed_at" | "applied_value">
   ) => Promise<string | null>;
+
+  /**
+   * Get queued memory updates, oldest first
+   * @param filter Status, scope and owner to filter by
+   * @returns Array of queued updates
+   */
+  getMemoryReviews: (filter?: MemoryReviewFilter) => Promise<MemoryReviewRecord[]>;
+
+  /**
+   * Get one queued memory update by ID
+   * @param reviewId Memory review ID
+   * @returns The queued update or null if not found
+   */
+  getMemoryReview: (reviewId: string) => Promise<MemoryReviewRecord | null>;
+
+  /**
+   * Mark a pending memory update as approved or rejected
+   * @param reviewId Memory review ID
+   * @param status New status
+   * @param appliedValue Value saved on approval
+   * @returns False if the update wasn't found or was already reviewed
+   */
+  resolveMemoryReview: (
+    reviewId: string,
+    status: Exclude<MemoryReviewStatus, "pending">,
+    appliedValue?: string | null
+  ) => Promise<boolean>;
+
+  /**
+   * Delete every queued update for a user's or chat's memory
+   * @param scope User or chat memory
+   * @param ownerId Internal user or chat ID
+   * @returns Number of queued updates deleted
+   */
+  deleteMemoryReviews: (scope: MemoryScope, ownerId: string) => Promise<number>;
+
+  /**
+   * Moderation Log Operations
+   */
+
+  /**
+   * Record a message flagged by the moderation pipeline
+   * @param entry Log entry
+   * @returns ID of the entry or null if it failed
+   */
+  addModerationLog: (entry: Omit<ModerationLogRecord, "id" | "created_at">) => Promise<string | null>;
+
+  /**
+   * Get moderation log entries, newest first
+   * @param filter Time, thread, action and direction to filter by
+   * @returns Array of log entries
+   */
+  getModerationLog: (filter?: ModerationLogFilter) => Promise<ModerationLogRecord[]>;
+
+  /**
+   * Delete the moderation log entries of a thread
+   * @param threadId External thread ID
+   * @returns Number of entries deleted
+   */
+  deleteModerationLog: (threadId: string) => Promise<number>;
+
+  /**
+   * Semantic Memory Operations
+   */
+
+  /**
+   * Store a memory chunk with its embedding
+   * @param chunk Chunk to store
+   * @returns Chunk ID if successful, null if failed
+   */
+  addMemoryChunk: (chunk: Omit<MemoryChunkRecord, "id" | "created_at">) => Promise<string | null>;
+
+  /**
+   * Get memory chunks by user and/or chat, newest first
+   * @param filter User, chat, age and limit filters
+   * @returns Array of chunks, empty without a userId or chatId
+   */
+  getMemoryChunks: (filter: MemoryChunkFilter) => Promise<MemoryChunkRecord[]>;
+
+  /**
+   * Delete memory chunks by user and/or chat
+   * @param filter User, chat and age filters
+   * @returns Number of chunks deleted, 0 without a userId or chatId
+   */
+  deleteMemoryChunks: (filter: MemoryChunkFilter) => Promise<number>;
+
+  /**
+   * Model Usage Operations
+   */
+
+  /**
+   * Record the tokens and cost of a model call
+   * @param usage Usage to record
+   * @returns Usage record ID if successful, null if failed
+   */
+  recordModelUsage: (usage: Omit<ModelUsageRecord, "id" | "created_at">) => Promise<string | null>;
+
+  /**
+   * Get recorded model usage, oldest first
+   * @param filter Time, chat, user and task filters
+   * @returns Array of usage records
+   */
+  getModelUsage: (filter?: ModelUsageFilter) => Promise<ModelUsageRecord[]>;
+
+  /**
+   * Cron Job Operations
+   */
+
+  /**
+   * Store a job for the local cron scheduler
+   * @param job Job to store, with its first run worked out
+   * @returns Job ID if successful, null if failed
+   */
+  createCronJob: (job: NewCronJob) => Promise<string | null>;
+
+  /**
+   * Update a job
+   * @param jobId Job ID
+   * @param updates Fields to update
+   * @param expected Only update while these fields still have these values, so two schedulers can't claim the same run
+   * @returns True if a job was updated
+   */
+  updateCronJob: (
+    jobId: string,
+    updates: Partial<Omit<CronJobRecord, "id" | "created_at" | "updated_at">>,
+    expected?: Partial<Pick<CronJobRecord, "next_run_at" | "retry_at">>
+  ) => Promise<boolean>;
+
+  /**
+   * Get a job by ID
+   * @param jobId Job ID
+   * @returns Job if found, null if not
+   */
+  getCronJob: (jobId: string) => Promise<CronJobRecord | null>;
+
+  /**
+   * Get jobs, oldest first
+   * @param filter Active state and due time to filter by, every job if empty
+   * @returns Array of jobs
+   */
+  getCronJobs: (filter?: CronJobFilter) => Promise<CronJobRecord[]>;
+
+  /**
+   * Delete a job with its execution logs
+   * @param jobId Job ID
+   * @returns Success status
+   */
+  deleteCronJob: (jobId: string) => Promise<boolean>;
+
+  /**
+   * Record an execution attempt of a job
+   * @param log Execution to record
+   * @returns Log ID if successful, null if failed
+   */
+  addCronExecutionLog: (log: Omit<CronExecutionLogRecord, "id">) => Promise<string | null>;
+
+  /**
+   * Get a job's execution logs, newest first
+   * @param jobId Job ID
+   * @param filter Status, time and limit filters
+   * @returns Array of execution logs
+   */
+  getCronExecutionLogs: (jobId: string, filter?: CronExecutionLogFilter) => Promise<CronExecutionLogRecord[]>;
+
+  /**
+   * Media File Operations
+   */
+
+  /**
+   * Store a file sent with a message
+   * @param file File details and metadata
+   * @returns File ID if successful, null if failed
+   */
+  addMediaFile: (file: NewMediaFile) => Promise<string | null>;
+
+  /**
+   * Get the files sent with messages, oldest first
+   * @param messageIds Internal message IDs
+   * @returns Array of files
+   */
+  getMediaFiles: (messageIds: string[]) => Promise<MediaFileRecord[]>;
+
+  /**
+   * Email Operations
+   */
+
+  /**
+   * Start an email thread
+   * @param thread Addresses and subject of the first email
+   * @returns Thread ID if successful, null if failed
+   */
+  createEmailThread: (thread: NewEmailThread) => Promise<string | null>;
+
+  /**
+   * Get the threads between two addresses, in either direction, latest activity first
+   * @param addressA Email address
+   * @param addressB Email address
+   * @returns Array of threads
+   */
+  getEmailThreadsBetween: (addressA: string, addressB: string) => Promise<EmailThreadRecord[]>;
+
+  /**
+   * Store an email in its thread. Storing an outbound email marks the
+   * thread's inbound emails as replied.
+   * @param message Email to store
+   * @returns ID of the stored email, null if failed (e.g. its email_id is already stored)
+   */
+  addEmailMessage: (message: NewEmailMessage) => Promise<string | null>;
+
+  /**
+   * Get the latest emails in a thread, oldest first
+   * @param threadId Thread ID
+   * @param limit Maximum number of emails, all when not given
+   * @returns Array of emails
+   */
+  getEmailMessages: (threadId: string, limit?: number) => Promise<EmailMessageRecord[]>;
+
+  /**
+   * Get stored emails by their Message-ID header, to thread replies
+   * @param messageIds Message-IDs without angle brackets
+   * @returns Array of emails, oldest first
+   */
+  getEmailMessagesByMessageIds: (messageIds: string[]) => Promise<EmailMessageRecord[]>;
+
+  /**
+   * Store an attachment of an email
+   * @param attachment Attachment details
+   * @returns Attachment ID if successful, null if failed
+   */
+  addEmailAttachment: (attachment: NewEmailAttachment) => Promise<string | null>;
+
+  /**
+   * Get the attachments of emails, oldest first
+   * @param messageIds IDs of rows in email_messages
+   * @returns Array of attachments
+   */
+  getEmailAttachments: (messageIds: string[]) => Promise<EmailAttachmentRecord[]>;
+
+  /**
+   * Get one email thread by ID
+   * @param threadId Thread ID
+   * @returns The thread or null if not found
+   */
+  getEmailThread: (threadId: string) => Promise<EmailThreadRecord | null>;
+
+  /**
+   * Email Outbox Operations
+   */
+
+  /**
+   * Put a reply written by the agent in the outbox as a pending draft
+   * @param draft Thread, recipient and content of the reply
+   * @returns Draft ID if successful, null if failed
+   */
+  addEmailDraft: (draft: NewEmailDraft) => Promise<string | null>;
+
+  /**
+   * Get drafts in the outbox, oldest first
+   * @param filter Status and thread to filter by
+   * @returns Array of drafts
+   */
+  getEmailDrafts: (filter?: EmailDraftFilter) => Promise<EmailDraftRecord[]>;
+
+  /**
+   * Get one draft by ID
+   * @param draftId Draft ID
+   * @returns The draft or null if not found
+   */
+  getEmailDraft: (draftId: string) => Promise<EmailDraftRecord | null>;
+
+  /**
+   * Update a draft
+   * @param draftId Draft ID
+   * @param updates Fields to update
+   * @param expectedStatus Only update while the draft has this status, so a draft can't be sent twice
+   * @returns True if a draft was updated
+   */
+  updateEmailDraft: (
+    draftId: string,
+    updates: Partial<Omit<EmailDraftRecord, "id" | "created_at" | "updated_at" | "thread_id">>,
+    expectedStatus?: EmailDraftStatus
+  ) => Promise<boolean>;
 }
@@ -0,0 +1,193 @@
+import { getModelRouter, type ModelRouter } from "../services/model-router";
+import type { ModerationChecker, ModerationFinding } from "./moderation";
+import { PERSONAL_DATA_PLACEHOLDERS, findPersonalData, type PersonalDataLabel } from "./redaction";
+
+/**
+ * Built-in moderation checkers. Which of them run is decided by the safety
+ * settings, see getModerationCheckers in moderation.ts.
+ */
+
+const DEFAULT_PROFANITY = [
+  "arse",
+  "arsehole",
+  "asshole",
+  "bastard",
+  "bitch",
+  "bollocks",
+  "bullshit",
+  "crap",
+  "cunt",
+  "dickhead",
+  "fuck",
+  "motherfucker",
+  "piss",
+  "prick",
+  "shit",
+  "slut",
+  "twat",
+  "wanker",
+  "whore",
+];
+
+const SLANG = [
+  "ain't",
+  "bro",
+  "dunno",
+  "gimme",
+  "gonna",
+  "gotta",
+  "kinda",
+  "lemme",
+  "lol",
+  "lmao",
+  "nah",
+  "sorta",
+  "tbh",
+  "wanna",
+  "ya",
+  "y'all",
+  "yep",
+  "yup",
+];
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Matches whole words, allowing the last letter to be doubled before a suffix (e.g. "shitty")
+function wordListPattern(words: string[], suffixes = ""): RegExp {
+  const alternatives = words.map((word) => `${escapeRegExp(word)}${suffixes ? `${escapeRegExp(word.slice(-1))}?` : ""}`);
+  return new RegExp(`\\b(?:${alternatives.join("|")})${suffixes}(?![\\w'])`, "gi");
+}
+
+function uniqueMatches(text: string, pattern: RegExp): string[] {
+  return [...new Set(text.match(pattern) || [])];
+}
+
+// Replace every occurrence of the matches, longest first so that overlapping matches are fully replaced
+function replaceMatches(text: string, matches: string[], replacement: (match: string) => string): string {
+  return [...matches]
+    .sort((a, b) => b.length - a.length)
+    .reduce((result, match) => result.split(match).join(replacement(match)), text);
+}
+
+/**
+ * Flags words from the built-in profanity list, extra words and regular
+ * expressions. Rewriting keeps the first letter of each word, e.g. "s***".
+ */
+export function createProfanityChecker(words: string[] = [], patterns: string[] = []): ModerationChecker {
+  const regexes = [
+    wordListPattern([...DEFAULT_PROFANITY, ...words], "(?:s|es|ed|ing|in|er|ers|y)?"),
+    ...patterns.map((pattern) => new RegExp(pattern, "gi")),
+  ];
+
+  return {
+    name: "profanity",
+    categories: ["profanity"],
+    check(text) {
+      const matches = [...new Set(regexes.flatMap((regex) => uniqueMatches(text, regex)))];
+      return matches.length > 0 ? [{ checker: "profanity", category: "profanity", matches }] : [];
+    },
+    rewrite(text, findings) {
+      const matches = findings.flatMap((finding) => finding.matches || []);
+      return replaceMatches(text, matches, (match) => `${match.slice(0, 1)}${"*".repeat(match.length - 1)}`);
+    },
+  };
+}
+
+/**
+ * Flags personal data: email addresses, phone numbers, payment card numbers
+ * (Luhn-checked), US social security numbers, street addresses and the
+ * custom redaction patterns. Rewriting replaces them with a placeholder,
+ * e.g. "[email]".
+ */
+export function createPiiChecker(customPatterns: string[] = []): ModerationChecker {
+  return {
+    name: "pii",
+    categories: ["personalData"],
+    check(text) {
+      return Object.entries(findPersonalData(text, customPatterns)).map(([label, matches]) => ({
+        checker: "pii",
+        category: "personalData",
+        label,
+        matches,
+      }));
+    },
+    rewrite(text, findings) {
+      return findings.reduce(
+        (result, finding) =>
+          replaceMatches(
+            result,
+            finding.matches || [],
+            () => PERSONAL_DATA_PLACEHOLDERS[finding.label as PersonalDataLabel] || "[redacted]"
+          ),
+        text
+      );
+    },
+  };
+}
+
+/**
+ * Flags slang and colloquialisms in the agent's replies
+ */
+export function createSlangChecker(): ModerationChecker {
+  const regex = wordListPattern(SLANG);
+  return {
+    name: "slang",
+    directions: ["outbound"],
+    categories: ["slang"],
+    check(text) {
+      const matches = uniqueMatches(text, regex);
+      return matches.length > 0 ? [{ checker: "slang", category: "slang", matches }] : [];
+    },
+  };
+}
+
+/**
+ * Classifies messages into content categories with the "moderation" model
+ * task. Throws when the model fails, so the message isn't held back.
+ * @param categories Categories to classify into, e.g. the disallowed content categories
+ * @param minConfidence Categories below this confidence are ignored
+ */
+export function createClassifierChecker(
+  categories: string[],
+  minConfidence: number,
+  router?: ModelRouter
+): ModerationChecker {
+  return {
+    name: "classifier",
+    categories,
+    async check(text, context) {
+      const { completion } = await (router || getModelRouter()).createChatCompletion(
+        "moderation",
+        {
+          messages: [
+            {
+              role: "system",
+              content: `You are a content moderation classifier. Decide which of these categories the message belongs to: ${categories.join(", ")}.
+Respond with JSON in the form {"categories": [{"category": "<one of the categories>", "confidence": <number between 0 and 1>}]}.
+Return an empty array if the message belongs to none of them.`,
+            },
+            { role: "user", content: text },
+          ],
+          response_format: { type: "json_object" },
+          temperature: 0,
+        },
+        { chatId: context.threadId || undefined }
+      );
+
+      const content = completion.choices[0]?.message?.content;
+      if (!content) return [];
+      const parsed: { categories?: { category?: unknown; confidence?: unknown }[] } = JSON.parse(content);
+
+      const findings: ModerationFinding[] = [];
+      for (const { category, confidence } of parsed.categories || []) {
+        if (typeof category !== "string" || !categories.includes(category)) continue;
+        const score = typeof confidence === "number" ? confidence : 1;
+        if (score < minConfidence) continue;
+        findings.push({ checker: "classifier", category, confidence: score });
+      }
+      return findings;
+    },
+  };
+}
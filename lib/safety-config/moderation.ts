@@ -0,0 +1,583 @@
+import fs from "fs";
+import path from "path";
+import { z } from "zod/v4";
+import type { StreamTextTransform, TextStreamPart, ToolSet } from "ai";
+import { getInitializedAdapter, isDatabaseConfigured } from "../supabase/config";
+import type { ModerationLogRecord } from "../interfaces/database-adapter";
+import type { ModelRouter } from "../services/model-router";
+import defaultSafetySettings, { SafetySettings } from "./safety-settings";
+import {
+  createClassifierChecker,
+  createPiiChecker,
+  createProfanityChecker,
+  createSlangChecker,
+} from "./moderation-checkers";
+
+/**
+ * ============= MODERATION ================
+ * Enforces the SafetySettings on messages coming in from users and on the
+ * agent's replies, on every channel (WhatsApp, SMS, email and the web UI).
+ *
+ * Each message is run through a set of checkers. Every finding has a
+ * category (e.g. "profanity", "personalData", "selfHarm") and each category
+ * maps to an action per direction:
+ * - allow: nothing happens
+ * - warn: the message goes through and is logged
+ * - rewrite: the offending parts are masked or redacted
+ * - block: the message is dropped and a canned reply is sent instead
+ * - escalate: blocked as well, and a human is notified
+ *
+ * Actions, word lists and replies are configured in the "moderation" section
+ * of data/safety-settings.json. Anything other than "allow" is recorded in
+ * the moderation_log table.
+ * ==========================================
+ */
+
+export const MODERATION_ACTIONS = ["allow", "warn", "rewrite", "block", "escalate"] as const;
+export type ModerationAction = (typeof MODERATION_ACTIONS)[number];
+export type ModerationDirection = "inbound" | "outbound";
+
+export interface ModerationContext {
+  direction: ModerationDirection;
+  /**
+   * Channel the message was sent on, e.g. "whatsapp", "sms", "email" or "web-ui"
+   */
+  service: string;
+  /**
+   * External thread ID, or the email thread ID
+   */
+  threadId?: string | null;
+  messageId?: string | null;
+}
+
+export interface ModerationFinding {
+  /**
+   * Name of the checker that reported it
+   */
+  checker: string;
+  category: string;
+  /**
+   * What was found within the category, e.g. "email" for personalData
+   */
+  label?: string;
+  /**
+   * Offending parts of the text, used to rewrite it
+   */
+  matches?: string[];
+  confidence?: number;
+}
+
+export interface ModerationChecker {
+  name: string;
+  /**
+   * Directions the checker runs on, both when omitted
+   */
+  directions?: ModerationDirection[];
+  /**
+   * Categories the checker can report. When omitted, any category is assumed.
+   */
+  categories?: string[];
+  check: (text: string, context: ModerationContext) => Promise<ModerationFinding[]> | ModerationFinding[];
+  /**
+   * Remove the findings from the text. Findings whose action is "rewrite"
+   * are blocked instead when their checker can't rewrite.
+   */
+  rewrite?: (text: string, findings: ModerationFinding[]) => string;
+}
+
+export interface ModerationResult {
+  action: ModerationAction;
+  /**
+   * Text to carry on with: the original, or the rewritten text
+   */
+  text: string;
+  findings: ModerationFinding[];
+  /**
+   * True for "block" and "escalate"
+   */
+  blocked: boolean;
+  /**
+   * Reply to send instead when the message was blocked
+   */
+  reply?: string;
+}
+
+const actionSchema = z.enum(MODERATION_ACTIONS);
+
+const categoryActionSchema = z.union([
+  actionSchema,
+  z.object({ inbound: actionSchema.optional(), outbound: actionSchema.optional() }),
+]);
+
+const regexSchema = z.string().refine((pattern) => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}, "Invalid regular expression");
+
+export const moderationSettingsSchema = z.object({
+  enabled: z.boolean().default(true),
+  /**
+   * Moderate messages from users
+   */
+  inbound: z.boolean().default(true),
+  /**
+   * Moderate the agent's replies
+   */
+  outbound: z.boolean().default(true),
+  /**
+   * Action per category, for both directions or { inbound, outbound }
+   */
+  actions: z.record(z.string(), categoryActionSchema).default({}),
+  profanity: z
+    .object({
+      /**
+       * Extra words to flag, on top of the built-in list
+       */
+      words: z.array(z.string()).default([]),
+      /**
+       * Regular expressions to flag, matched case-insensitively
+       */
+      patterns: z.array(regexSchema).default([]),
+    })
+    .prefault({}),
+  classifier: z
+    .object({
+      /**
+       * Classify messages into the disallowed content categories with the
+       * "moderation" model task. Costs a model call per message, and per
+       * sentence of replies streamed to the web UI.
+       */
+      enabled: z.boolean().default(false),
+      minConfidence: z.number().min(0).max(1).default(0.7),
+    })
+    .prefault({}),
+  blockedReply: z.string().default("Sorry, I can't help with that."),
+  escalatedReply: z
+    .string()
+    .default("Thanks for reaching out. I've passed your message on to a member of our team, who will get back to you."),
+  /**
+   * Escalations are POSTed here as JSON
+   */
+  escalationWebhookUrl: z.url().optional(),
+});
+
+export type ModerationSettings = z.infer<typeof moderationSettingsSchema>;
+
+export type ModerationLogEntry = Omit<ModerationLogRecord, "id" | "created_at">;
+
+/**
+ * Where flagged messages are recorded
+ */
+export interface ModerationLogStore {
+  record: (entry: ModerationLogEntry) => Promise<void>;
+}
+
+/**
+ * Log store backed by the configured database adapter. Does nothing when no
+ * database is configured.
+ */
+export const databaseModerationLog: ModerationLogStore = {
+  async record(entry) {
+    if (!isDatabaseConfigured()) return;
+    const adapter = await getInitializedAdapter();
+    await adapter?.addModerationLog(entry);
+  },
+};
+
+export interface ModerationOptions {
+  safety?: SafetySettings;
+  settings?: ModerationSettings;
+  /**
+   * Checkers to run instead of the built-in and registered ones
+   */
+  checkers?: ModerationChecker[];
+  /**
+   * Router for the classifier, the default router when omitted
+   */
+  router?: ModelRouter;
+  /**
+   * Where flagged messages are recorded, null to not record them
+   */
+  logStore?: ModerationLogStore | null;
+  /**
+   * Called for escalated messages, notifyEscalation by default
+   */
+  escalate?: (text: string, result: ModerationResult, context: ModerationContext, settings: ModerationSettings) => Promise<void>;
+}
+
+const settingsFilePath = path.join(process.cwd(), "data", "safety-settings.json");
+
+const ACTION_RANK: Record<ModerationAction, number> = {
+  allow: 0,
+  warn: 1,
+  rewrite: 2,
+  block: 3,
+  escalate: 4,
+};
+
+const registeredCheckers: ModerationChecker[] = [];
+
+/**
+ * Add a checker that runs on every message, alongside the built-in ones
+ */
+export function registerModerationChecker(checker: ModerationChecker): void {
+  const index = registeredCheckers.findIndex((c) => c.name === checker.name);
+  if (index >= 0) {
+    registeredCheckers[index] = checker;
+  } else {
+    registeredCheckers.push(checker);
+  }
+}
+
+/**
+ * Read the "moderation" section of data/safety-settings.json, falling back to
+ * defaults if it is missing or invalid
+ */
+export function loadModerationSettings(): ModerationSettings {
+  const defaults = moderationSettingsSchema.parse({});
+  try {
+    if (!fs.existsSync(settingsFilePath)) return defaults;
+
+    const data = JSON.parse(fs.readFileSync(settingsFilePath, "utf-8"));
+    if (!data?.moderation) return defaults;
+
+    const result = moderationSettingsSchema.safeParse(data.moderation);
+    if (!result.success) {
+      console.error("[Moderation] Invalid moderation settings, using defaults:", result.error.message);
+      return defaults;
+    }
+    return result.data;
+  } catch (error) {
+    console.error("[Moderation] Error loading moderation settings:", error);
+    return defaults;
+  }
+}
+
+/**
+ * Whether messages in this direction are moderated at all
+ */
+export function isModerationEnabled(direction: ModerationDirection, settings = loadModerationSettings()): boolean {
+  return settings.enabled && settings[direction];
+}
+
+/**
+ * Checkers enabled by the safety settings, followed by registered ones
+ */
+export function getModerationCheckers(
+  safety: SafetySettings,
+  settings: ModerationSettings,
+  router?: ModelRouter
+): ModerationChecker[] {
+  const disallowed = safety.responsePolicies.avoidDisallowedContent
+    ? safety.responsePolicies.disallowedContentCategories
+    : [];
+  const checkers: ModerationChecker[] = [];
+
+  // Personal data first, so its rewrites aren't broken up by masked words
+  if (safety.dataSensitivity.piiHandling !== "collectCarefully" || disallowed.includes("personalData")) {
+    checkers.push(createPiiChecker(safety.dataSensitivity.redactionPatterns));
+  }
+  if (!safety.profanityFilter.allowProfanity || disallowed.includes("profanity")) {
+    checkers.push(createProfanityChecker(settings.profanity.words, settings.profanity.patterns));
+  }
+  if (safety.languageGuidelines.avoidSlang) {
+    checkers.push(createSlangChecker());
+  }
+  if (settings.classifier.enabled && disallowed.length > 0) {
+    checkers.push(createClassifierChecker(disallowed, settings.classifier.minConfidence, router));
+  }
+
+  return [...checkers, ...registeredCheckers];
+}
+
+// Checkers from the options, or the enabled ones, that run in the direction
+function selectCheckers(
+  direction: ModerationDirection,
+  safety: SafetySettings,
+  settings: ModerationSettings,
+  options: ModerationOptions
+): ModerationChecker[] {
+  return (options.checkers || getModerationCheckers(safety, settings, options.router)).filter(
+    (checker) => !checker.directions || checker.directions.includes(direction)
+  );
+}
+
+/**
+ * Action for a category when the settings don't configure one
+ */
+export function getDefaultAction(
+  safety: SafetySettings,
+  category: string,
+  direction: ModerationDirection
+): ModerationAction {
+  const disallowed = safety.responsePolicies.disallowedContentCategories;
+  switch (category) {
+    case "profanity":
+      return direction === "inbound" ? "warn" : "rewrite";
+    case "personalData": {
+      const pii = safety.dataSensitivity.piiHandling;
+      if (pii === "doNotCollect" || pii === "anonymize") return "rewrite";
+      if (direction === "inbound") return pii === "collectWithConsent" ? "warn" : "allow";
+      return disallowed.includes("personalData") ? "warn" : "allow";
+    }
+    case "slang":
+      return direction === "outbound" ? "warn" : "allow";
+    case "selfHarm":
+    case "suicide":
+      return direction === "inbound" ? "escalate" : "block";
+    default:
+      return direction === "inbound" ? "warn" : "block";
+  }
+}
+
+/**
+ * Action for a category in a direction, from the settings or the defaults
+ */
+export function resolveModerationAction(
+  safety: SafetySettings,
+  settings: ModerationSettings,
+  category: string,
+  direction: ModerationDirection
+): ModerationAction {
+  const configured = settings.actions[category];
+  if (typeof configured === "string") return configured;
+  return configured?.[direction] || getDefaultAction(safety, category, direction);
+}
+
+// Matches of personal data are only logged with logSensitiveData on
+function maskFindings(findings: ModerationFinding[], safety: SafetySettings): ModerationFinding[] {
+  if (safety.privacy.logSensitiveData) return findings;
+  return findings.map((finding) =>
+    finding.category === "personalData" && finding.matches
+      ? { ...finding, matches: finding.matches.map((match) => `${match.slice(0, 1)}${"*".repeat(Math.max(match.length - 1, 0))}`) }
+      : finding
+  );
+}
+
+/**
+ * Tell a human about an escalated message: logged, and POSTed to the
+ * escalation webhook when one is configured
+ */
+export async function notifyEscalation(
+  text: string,
+  result: ModerationResult,
+  context: ModerationContext,
+  settings: ModerationSettings
+): Promise<void> {
+  const categories = [...new Set(result.findings.map((finding) => finding.category))];
+  console.warn(
+    `[Moderation] Escalating ${context.direction} ${context.service} message in thread ${context.threadId || "unknown"}: ${categories.join(", ")}`
+  );
+  if (!settings.escalationWebhookUrl) return;
+
+  try {
+    const response = await fetch(settings.escalationWebhookUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        direction: context.direction,
+        service: context.service,
+        thread_id: context.threadId || null,
+        message_id: context.messageId || null,
+        categories,
+        text,
+      }),
+    });
+    if (!response.ok) {
+      console.error(`[Moderation] Escalation webhook responded with ${response.status}`);
+    }
+  } catch (error) {
+    console.error("[Moderation] Error calling escalation webhook:", error);
+  }
+}
+
+/**
+ * Run a message through the moderation checkers and apply the resulting action
+ * @returns The action taken and the text to carry on with. A checker that
+ * fails is skipped, so a message is never held back by an outage.
+ */
+export async function moderateMessage(
+  text: string,
+  context: ModerationContext,
+  options: ModerationOptions = {}
+): Promise<ModerationResult> {
+  const safety = options.safety || defaultSafetySettings;
+  const settings = options.settings || loadModerationSettings();
+  const allowed: ModerationResult = { action: "allow", text, findings: [], blocked: false };
+  if (!text.trim() || !isModerationEnabled(context.direction, settings)) return allowed;
+
+  const checkers = selectCheckers(context.direction, safety, settings, options);
+
+  // Findings that lead to an action, grouped by the checker that reported them
+  const flagged = new Map<ModerationChecker, { finding: ModerationFinding; action: ModerationAction }[]>();
+  for (const checker of checkers) {
+    try {
+      for (const finding of await checker.check(text, context)) {
+        let action = resolveModerationAction(safety, settings, finding.category, context.direction);
+        if (action === "allow") continue;
+        if (action === "rewrite" && !checker.rewrite) action = "block";
+        flagged.set(checker, [...(flagged.get(checker) || []), { finding, action }]);
+      }
+    } catch (error) {
+      console.error(`[Moderation] Checker ${checker.name} failed, skipping it:`, error);
+    }
+  }
+
+  const flaggedFindings = [...flagged.values()].flat();
+  if (flaggedFindings.length === 0) return allowed;
+
+  const action = flaggedFindings.reduce<ModerationAction>(
+    (worst, { action }) => (ACTION_RANK[action] > ACTION_RANK[worst] ? action : worst),
+    "allow"
+  );
+  const findings = flaggedFindings.map(({ finding }) => finding);
+  const result: ModerationResult = { action, text, findings, blocked: ACTION_RANK[action] >= ACTION_RANK.block };
+
+  if (action === "rewrite") {
+    for (const [checker, checkerFindings] of flagged) {
+      const toRewrite = checkerFindings.filter((f) => f.action === "rewrite").map((f) => f.finding);
+      if (toRewrite.length > 0 && checker.rewrite) {
+        result.text = checker.rewrite(result.text, toRewrite);
+      }
+    }
+  } else if (result.blocked) {
+    result.reply = action === "escalate" ? settings.escalatedReply : settings.blockedReply;
+  }
+
+  console.log(
+    `[Moderation] ${context.direction} ${context.service} message in thread ${context.threadId || "unknown"}: ${action} (${[...new Set(findings.map((f) => f.category))].join(", ")})`
+  );
+
+  const logStore = options.logStore === undefined ? databaseModerationLog : options.logStore;
+  if (logStore) {
+    try {
+      await logStore.record({
+        direction: context.direction,
+        service: context.service,
+        thread_id: context.threadId || null,
+        message_id: context.messageId || null,
+        action,
+        categories: [...new Set(findings.map((finding) => finding.category))],
+        findings: maskFindings(findings, safety),
+      });
+    } catch (error) {
+      console.error("[Moderation] Error recording moderation log entry:", error);
+    }
+  }
+
+  if (action === "escalate") {
+    await (options.escalate || notifyEscalation)(text, result, context, settings);
+  }
+
+  return result;
+}
+
+/**
+ * Whether a checker could rewrite or block the agent's replies. Checkers that
+ * don't list their categories are assumed to.
+ */
+export function canChangeReplies(
+  safety: SafetySettings,
+  settings: ModerationSettings,
+  options: ModerationOptions = {}
+): boolean {
+  if (!isModerationEnabled("outbound", settings)) return false;
+  return selectCheckers("outbound", safety, settings, options).some(
+    (checker) =>
+      !checker.categories ||
+      checker.categories.some(
+        (category) => ACTION_RANK[resolveModerationAction(safety, settings, category, "outbound")] >= ACTION_RANK.rewrite
+      )
+  );
+}
+
+// End of the last complete sentence or line in the text, 0 if there is none
+function lastSentenceEnd(text: string): number {
+  let end = 0;
+  for (const match of text.matchAll(/[.!?]+["')\]]*\s+|\n+/g)) {
+    end = match.index + match[0].length;
+  }
+  return end;
+}
+
+/**
+ * Text held back while waiting for the end of a sentence. Past this, the
+ * text is moderated up to the last space instead.
+ */
+const MAX_LOOKAHEAD = 280;
+
+/**
+ * streamText transform that moderates the agent's reply as it streams.
+ * Text is held back until a sentence ends, then the sentence is moderated and
+ * sent on, so matches aren't split across chunks. A blocked sentence is
+ * replaced with the blocked reply and the rest of the reply is dropped.
+ *
+ * When no checker could rewrite or block a reply (e.g. only warnings are
+ * configured), text is passed straight through and the reply is moderated
+ * for the log once each step ends.
+ */
+export function createModerationTransform<TOOLS extends ToolSet>(
+  context: Omit<ModerationContext, "direction">,
+  options: ModerationOptions = {}
+): StreamTextTransform<TOOLS> {
+  return () => {
+    const safety = options.safety || defaultSafetySettings;
+    const settings = options.settings || loadModerationSettings();
+    const moderationOptions = { ...options, safety, settings };
+    const outbound: ModerationContext = { ...context, direction: "outbound" };
+    const passThrough = !canChangeReplies(safety, settings, options);
+    let buffer = "";
+    let blocked = false;
+
+    const release = async (controller: TransformStreamDefaultController<TextStreamPart<TOOLS>>, end: number) => {
+      const text = buffer.slice(0, end);
+      buffer = buffer.slice(end);
+      if (!text || blocked) return;
+
+      const result = await moderateMessage(text, outbound, moderationOptions);
+      if (result.blocked) {
+        blocked = true;
+        buffer = "";
+        controller.enqueue({ type: "text-delta", textDelta: result.reply || "" });
+        return;
+      }
+      controller.enqueue({ type: "text-delta", textDelta: result.text });
+    };
+
+    return new TransformStream<TextStreamPart<TOOLS>, TextStreamPart<TOOLS>>({
+      async transform(chunk, controller) {
+        if (chunk.type === "text-delta") {
+          if (passThrough) {
+            buffer += chunk.textDelta;
+            controller.enqueue(chunk);
+          } else if (!blocked) {
+            buffer += chunk.textDelta;
+            let end = lastSentenceEnd(buffer);
+            if (end === 0 && buffer.length > MAX_LOOKAHEAD) end = buffer.lastIndexOf(" ") + 1;
+            await release(controller, end);
+          }
+          return;
+        }
+
+        if (passThrough) {
+          if (buffer) await moderateMessage(buffer, outbound, moderationOptions);
+          buffer = "";
+        } else {
+          await release(controller, buffer.length);
+        }
+        controller.enqueue(chunk);
+      },
+      async flush(controller) {
+        if (passThrough) {
+          if (buffer) await moderateMessage(buffer, outbound, moderationOptions);
+        } else {
+          await release(controller, buffer.length);
+        }
+      },
+    });
+  };
+}
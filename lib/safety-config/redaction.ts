@@ -0,0 +1,282 @@
+import fs from "fs";
+import path from "path";
+import { createCipheriv, createDecipheriv, createHmac, randomBytes } from "crypto";
+import { format } from "util";
+import defaultSafetySettings, { DataSensitivity, SafetySettings } from "./safety-settings";
+
+/**
+ * ============= REDACTION ================
+ * Finds personal data (emails, phone numbers, card numbers, SSNs, street
+ * addresses and custom patterns) and keeps it out of logs and the database,
+ * following the DataSensitivity and PrivacySettings in safety-settings.ts.
+ *
+ * - Logs: unless privacy.logSensitiveData is on, installLogRedaction replaces
+ *   personal data in everything written to the console with placeholders.
+ * - Stored messages, by dataSensitivity.handleCustomerData:
+ *   - storeFull: stored as received
+ *   - doNotStore: personal data is replaced with placeholders, e.g. "[email]"
+ *   - anonymizeAndStore: replaced with pseudonyms that are the same for the
+ *     same value, e.g. "[email:3f9a1c2e]", so conversations still make sense
+ *   - encryptAndStore: each value is encrypted in place with a local key and
+ *     decrypted again when messages are read through the database adapter
+ *
+ * The key comes from DATA_ENCRYPTION_KEY (32 bytes, base64 or hex) or is
+ * generated once in data/.encryption-key. Losing it makes encrypted values
+ * unreadable.
+ * ========================================
+ */
+
+export type PersonalDataLabel = "email" | "card" | "ssn" | "phone" | "address" | "custom";
+
+export const PERSONAL_DATA_PLACEHOLDERS: Record<PersonalDataLabel, string> = {
+  email: "[email]",
+  card: "[card number]",
+  ssn: "[SSN]",
+  phone: "[phone number]",
+  address: "[address]",
+  custom: "[redacted]",
+};
+
+const ADDRESS_PATTERN =
+  /\b\d{1,5}\s+(?:[A-Z][a-z]+\s+){1,3}(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Close)\b/g;
+
+// Encrypted values are stored as [enc:<base64url of iv, auth tag and ciphertext>]
+const ENCRYPTED_PATTERN = /\[enc:([A-Za-z0-9_-]+)\]/g;
+
+const keyFilePath = path.join(process.cwd(), "data", ".encryption-key");
+
+let cachedKey: Buffer | null = null;
+
+function digitsOf(text: string): string {
+  return text.replace(/\D/g, "");
+}
+
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+function uniqueMatches(text: string, pattern: RegExp): string[] {
+  return [...new Set(text.match(pattern) || [])];
+}
+
+/**
+ * Find personal data in a text
+ * @param customPatterns Extra regular expressions, reported as "custom"
+ * @returns Distinct matches per kind of personal data, only kinds that were found
+ */
+export function findPersonalData(
+  text: string,
+  customPatterns: string[] = []
+): Partial<Record<PersonalDataLabel, string[]>> {
+  const found: Record<PersonalDataLabel, string[]> = {
+    email: uniqueMatches(text, /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi),
+    card: uniqueMatches(text, /\b\d(?:[ -]?\d){12,18}\b/g).filter((match) => passesLuhn(digitsOf(match))),
+    ssn: uniqueMatches(text, /\b\d{3}-\d{2}-\d{4}\b/g),
+    phone: [],
+    address: uniqueMatches(text, ADDRESS_PATTERN),
+    custom: customPatterns.flatMap((pattern) => uniqueMatches(text, new RegExp(pattern, "g"))),
+  };
+  // Digits joined to other text by "-" or "." are IDs or versions, e.g. the last group of a UUID
+  found.phone = uniqueMatches(text, /(?<![\w+.-])\+?\d[\d\s().-]{6,}\d(?![\w-])/g).filter((match) => {
+    const digits = digitsOf(match);
+    if (digits.length < 10 || digits.length > 15) return false;
+    // Unix timestamps in seconds or milliseconds
+    if (digits === match && (digits.length === 10 || digits.length === 13) && digits.startsWith("1")) return false;
+    return !found.card.some((card) => card.includes(match.trim()));
+  });
+
+  return Object.fromEntries(Object.entries(found).filter(([, matches]) => matches.length > 0));
+}
+
+// Replace every occurrence of each match, longest first so that overlapping matches are fully replaced
+function replacePersonalData(
+  text: string,
+  found: Partial<Record<PersonalDataLabel, string[]>>,
+  replacement: (match: string, label: PersonalDataLabel) => string
+): string {
+  const matches = Object.entries(found).flatMap(([label, values]) =>
+    (values || []).map((value) => ({ value, label: label as PersonalDataLabel }))
+  );
+  return matches
+    .sort((a, b) => b.value.length - a.value.length)
+    .reduce((result, { value, label }) => result.split(value).join(replacement(value, label)), text);
+}
+
+function customPatternsOf(safety: SafetySettings): string[] {
+  return safety.dataSensitivity.redactionPatterns || [];
+}
+
+/**
+ * Replace personal data with placeholders such as "[email]"
+ */
+export function redactText(text: string, safety: SafetySettings = defaultSafetySettings): string {
+  if (!text) return text;
+  return replacePersonalData(text, findPersonalData(text, customPatternsOf(safety)), (_, label) => PERSONAL_DATA_PLACEHOLDERS[label]);
+}
+
+/**
+ * Key used to encrypt and pseudonymize stored personal data
+ */
+export function getEncryptionKey(): Buffer {
+  if (cachedKey) return cachedKey;
+
+  const configured = process.env.DATA_ENCRYPTION_KEY;
+  if (configured) {
+    const key = /^[0-9a-f]{64}$/i.test(configured) ? Buffer.from(configured, "hex") : Buffer.from(configured, "base64");
+    if (key.length !== 32) {
+      throw new Error("DATA_ENCRYPTION_KEY must be 32 bytes, base64 or hex encoded");
+    }
+    cachedKey = key;
+    return key;
+  }
+
+  if (fs.existsSync(keyFilePath)) {
+    cachedKey = Buffer.from(fs.readFileSync(keyFilePath, "utf-8").trim(), "base64");
+    return cachedKey;
+  }
+
+  const key = randomBytes(32);
+  fs.mkdirSync(path.dirname(keyFilePath), { recursive: true });
+  fs.writeFileSync(keyFilePath, key.toString("base64"), { mode: 0o600 });
+  console.warn(`[Redaction] Generated a new encryption key in ${keyFilePath}, back it up to keep encrypted data readable`);
+  cachedKey = key;
+  return key;
+}
+
+/**
+ * Encrypt a value with AES-256-GCM
+ * @returns The value as an "[enc:...]" token
+ */
+export function encryptValue(value: string, key: Buffer = getEncryptionKey()): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const ciphertext = Buffer.concat([cipher.update(value, "utf-8"), cipher.final()]);
+  return `[enc:${Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString("base64url")}]`;
+}
+
+/**
+ * Decrypt the "[enc:...]" tokens in a text. Tokens that can't be decrypted,
+ * e.g. because the key changed, are left as they are.
+ */
+export function decryptText(text: string, key?: Buffer): string {
+  if (!text || !text.includes("[enc:")) return text;
+  return text.replace(ENCRYPTED_PATTERN, (token, payload: string) => {
+    try {
+      const data = Buffer.from(payload, "base64url");
+      const decipher = createDecipheriv("aes-256-gcm", key || getEncryptionKey(), data.subarray(0, 12));
+      decipher.setAuthTag(data.subarray(12, 28));
+      return Buffer.concat([decipher.update(data.subarray(28)), decipher.final()]).toString("utf-8");
+    } catch {
+      console.error("[Redaction] Could not decrypt a stored value, leaving it encrypted");
+      return token;
+    }
+  });
+}
+
+/**
+ * Pseudonym for a value, e.g. "[email:3f9a1c2e]". The same value always
+ * gets the same pseudonym with the same key.
+ */
+export function pseudonymizeValue(value: string, label: PersonalDataLabel, key: Buffer = getEncryptionKey()): string {
+  return `[${label}:${createHmac("sha256", key).update(value).digest("hex").slice(0, 8)}]`;
+}
+
+/**
+ * Prepare message text for storage according to handleCustomerData
+ */
+export function protectText(
+  text: string,
+  safety: SafetySettings = defaultSafetySettings,
+  mode: DataSensitivity["handleCustomerData"] = safety.dataSensitivity.handleCustomerData
+): string {
+  if (!text || mode === "storeFull") return text;
+
+  const found = findPersonalData(text, customPatternsOf(safety));
+  if (Object.keys(found).length === 0) return text;
+
+  switch (mode) {
+    case "doNotStore":
+      return replacePersonalData(text, found, (_, label) => PERSONAL_DATA_PLACEHOLDERS[label]);
+    case "anonymizeAndStore":
+      return replacePersonalData(text, found, (value, label) => pseudonymizeValue(value, label));
+    case "encryptAndStore":
+      return replacePersonalData(text, found, (value) => encryptValue(value));
+  }
+}
+
+// Base64 media and URLs aren't message text
+const SKIPPED_KEYS = new Set(["data", "media_url", "url"]);
+
+function mapStrings(value: unknown, fn: (text: string) => string): unknown {
+  if (typeof value === "string") return fn(value);
+  if (Array.isArray(value)) return value.map((item) => mapStrings(item, fn));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, SKIPPED_KEYS.has(key) ? item : mapStrings(item, fn)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Prepare a message's text and rich content for storage according to handleCustomerData
+ */
+export function protectStoredMessage<T extends { content?: unknown; rich_content?: unknown }>(
+  message: T,
+  safety: SafetySettings = defaultSafetySettings
+): T {
+  if (safety.dataSensitivity.handleCustomerData === "storeFull") return message;
+  const protect = (text: string) => protectText(text, safety);
+  return {
+    ...message,
+    ...(message.content !== undefined ? { content: mapStrings(message.content, protect) } : {}),
+    ...(message.rich_content !== undefined ? { rich_content: mapStrings(message.rich_content, protect) } : {}),
+  };
+}
+
+/**
+ * Decrypt the encrypted values of a stored message
+ */
+export function revealStoredMessage<T extends { content?: unknown; rich_content?: unknown }>(message: T): T {
+  const hasEncrypted = (value: unknown) => value !== undefined && JSON.stringify(value)?.includes("[enc:");
+  if (!hasEncrypted(message.content) && !hasEncrypted(message.rich_content)) return message;
+  return {
+    ...message,
+    content: mapStrings(message.content, (text) => decryptText(text)),
+    rich_content: mapStrings(message.rich_content, (text) => decryptText(text)),
+  };
+}
+
+const CONSOLE_METHODS = ["log", "info", "warn", "error", "debug"] as const;
+
+let logRedactionInstalled = false;
+
+/**
+ * Redact personal data from everything written to the console, unless
+ * privacy.logSensitiveData is on. Arguments are formatted like console.log
+ * would, then redacted.
+ */
+export function installLogRedaction(safety: SafetySettings = defaultSafetySettings): void {
+  if (logRedactionInstalled || safety.privacy.logSensitiveData) return;
+  logRedactionInstalled = true;
+
+  for (const method of CONSOLE_METHODS) {
+    const original = console[method].bind(console);
+    console[method] = (...args: unknown[]) => {
+      try {
+        original(redactText(format(...args), safety));
+      } catch {
+        original(...args);
+      }
+    };
+  }
+}
@@ -16,6 +16,8 @@ export interface DataSensitivity {
   handleCustomerData: "storeFull" | "doNotStore" | "encryptAndStore" | "anonymizeAndStore";
   /** How to handle personally identifiable information */
   piiHandling:"collectCarefully" | "doNotCollect" | "collectWithConsent" | "anonymize";
+  /** Extra regular expressions for personal data to redact from logs and stored messages, e.g. account numbers */
+  redactionPatterns?: string[];
 }
 
 export interface JokeSettings {
@@ -0,0 +1,60 @@
+/**
+ * Cron Authentication Module
+ * Checks the CRON_SECRET bearer token sent to the /api/cron endpoints
+ *
+ * Every cron route is wrapped with withCronAuth. Requests are refused when
+ * CRON_SECRET isn't set, so an unconfigured deployment doesn't accept
+ * "Bearer undefined".
+ */
+
+import crypto from 'crypto';
+import { NextResponse } from 'next/server';
+
+export type CronAuthRejectionReason = 'missing_secret' | 'unauthorized';
+
+export interface CronAuthVerification {
+  valid: boolean;
+  reason?: CronAuthRejectionReason;
+}
+
+/**
+ * Verify an Authorization header against the cron secret
+ * @param authorization The Authorization header value
+ * @param secret The expected secret (default: CRON_SECRET)
+ */
+export function verifyCronAuthorization(
+  authorization: string | null,
+  secret: string | undefined = process.env.CRON_SECRET
+): CronAuthVerification {
+  if (!secret?.trim()) return { valid: false, reason: 'missing_secret' };
+  if (!authorization) return { valid: false, reason: 'unauthorized' };
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const received = Buffer.from(authorization);
+  if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+    return { valid: false, reason: 'unauthorized' };
+  }
+  return { valid: true };
+}
+
+/**
+ * Wrap a cron route handler so it only runs for requests carrying the cron
+ * secret. Responds 500 if CRON_SECRET isn't configured and 401 otherwise.
+ */
+export function withCronAuth<R extends Request>(
+  handler: (request: R) => Promise<Response>
+): (request: R) => Promise<Response> {
+  return async (request: R) => {
+    const result = verifyCronAuthorization(request.headers.get('authorization'));
+
+    if (result.reason === 'missing_secret') {
+      console.error('[Cron Auth] CRON_SECRET is not set, refusing cron request');
+      return new NextResponse('Cron secret not configured', { status: 500 });
+    }
+    if (!result.valid) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    return handler(request);
+  };
+}
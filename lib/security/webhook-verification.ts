@@ -1,30 +1,39 @@
 /**
  * Webhook Verification Module
  * Handles HMAC-SHA256 signature verification for secure webhooks
+ *
+ * Every inbound A1Base/A1Mail/A1Cron webhook route is wrapped with
+ * withWebhookVerification, which checks the x-timestamp and x-signature
+ * headers, rejects replays of a request already seen, and logs rejections.
  */
 
 import crypto from 'crypto';
+import { NextResponse } from 'next/server';
+
+// Default maximum webhook age in seconds, also how long signatures are remembered for replay protection
+export const WEBHOOK_MAX_AGE_SECONDS = 300;
 
 /**
  * Verifies the webhook signature using HMAC-SHA256
  * @param rawBody The raw request body as a string
  * @param timestamp The timestamp header value
  * @param receivedSig The signature header value
+ * @param secret The shared secret (default: A1BASE_API_SECRET)
  * @returns True if signature is valid
  */
 export function verifyWebhookSignature(
   rawBody: string,
   timestamp: string | null,
-  receivedSig: string | null
+  receivedSig: string | null,
+  secret: string | undefined = process.env.A1BASE_API_SECRET
 ): boolean {
   if (!timestamp || !receivedSig) {
     console.error('[Webhook Verification] Missing timestamp or signature headers');
     return false;
   }
   
-  const secret = process.env.A1BASE_API_SECRET;
   if (!secret) {
-    console.error('[Webhook Verification] A1BASE_API_SECRET not configured');
+    console.error('[Webhook Verification] Webhook secret not configured');
     return false;
   }
   
@@ -48,8 +57,6 @@ export function verifyWebhookSignature(
     
     if (!isValid) {
       console.error('[Webhook Verification] Signature mismatch');
-      console.error('Expected:', expectedSig);
-      console.error('Received:', receivedSig);
     }
     
     return isValid;
@@ -67,7 +74,7 @@ export function verifyWebhookSignature(
  */
 export function isTimestampValid(
   timestamp: string | null,
-  maxAgeSeconds: number = 300
+  maxAgeSeconds: number = WEBHOOK_MAX_AGE_SECONDS
 ): boolean {
   if (!timestamp) {
     console.error('[Webhook Verification] Missing timestamp');
@@ -76,6 +83,10 @@ export function isTimestampValid(
   
   try {
     const requestTime = parseInt(timestamp);
+    if (Number.isNaN(requestTime)) {
+      console.error('[Webhook Verification] Timestamp is not a number');
+      return false;
+    }
     const currentTime = Math.floor(Date.now() / 1000);
     const timeDiff = currentTime - requestTime;
     
@@ -163,4 +174,182 @@ export function generateWebhookSignature(
     .createHmac('sha256', secret)
     .update(timestamp + rawBody)
     .digest('hex');
-} 
\ No newline at end of file
+} 
+// ====== WEBHOOK ROUTE VERIFICATION =======
+// Shared verification for the inbound webhook routes
+// =========================================
+
+/**
+ * The kinds of inbound webhook, each of which can have its own secret
+ */
+export type WebhookRoute = 'messaging' | 'email' | 'cron' | 'sms';
+
+/**
+ * Environment variable holding each route's secret. Routes without one use
+ * A1BASE_WEBHOOK_SECRET, then A1BASE_API_SECRET.
+ */
+export const WEBHOOK_SECRET_ENV: Record<WebhookRoute, string> = {
+  messaging: 'A1BASE_MESSAGING_WEBHOOK_SECRET',
+  email: 'A1MAIL_WEBHOOK_SECRET',
+  cron: 'A1CRON_WEBHOOK_SECRET',
+  sms: 'A1BASE_SMS_WEBHOOK_SECRET',
+};
+
+export type WebhookRejectionReason =
+  | 'missing_secret'
+  | 'missing_headers'
+  | 'invalid_timestamp'
+  | 'invalid_signature'
+  | 'replayed';
+
+export interface WebhookRequestVerification {
+  valid: boolean;
+  reason?: WebhookRejectionReason;
+  /**
+   * Verification was skipped by the development bypass
+   */
+  bypassed?: boolean;
+}
+
+/**
+ * Secret used to verify a route's webhooks
+ */
+export function getWebhookSecret(route: WebhookRoute): string | undefined {
+  return (
+    process.env[WEBHOOK_SECRET_ENV[route]] ||
+    process.env.A1BASE_WEBHOOK_SECRET ||
+    process.env.A1BASE_API_SECRET
+  );
+}
+
+/**
+ * Whether verification is switched off for local development with
+ * SKIP_WEBHOOK_VERIFICATION=true (or ENABLE_SMS_SIGNATURE_VERIFICATION=false
+ * for the SMS routes). Never honored in production.
+ */
+export function isWebhookVerificationBypassed(route: WebhookRoute): boolean {
+  const requested =
+    process.env.SKIP_WEBHOOK_VERIFICATION === 'true' ||
+    (route === 'sms' && process.env.ENABLE_SMS_SIGNATURE_VERIFICATION === 'false');
+
+  if (requested && process.env.NODE_ENV === 'production') {
+    console.warn('[Webhook Verification] Verification bypass ignored in production');
+    return false;
+  }
+  return requested;
+}
+
+/**
+ * Remembers the webhooks seen recently so a captured request can't be sent
+ * again while its timestamp is still valid. Entries expire after the
+ * timestamp window. The cache is per process.
+ */
+export class WebhookReplayCache {
+  private readonly seen = new Map<string, number>();
+
+  constructor(
+    private readonly ttlMs: number = WEBHOOK_MAX_AGE_SECONDS * 1000,
+    private readonly maxEntries: number = 10000
+  ) {}
+
+  /**
+   * Record a webhook
+   * @param key Signature identifying the webhook
+   * @returns False if the webhook was already seen
+   */
+  remember(key: string, now: number = Date.now()): boolean {
+    for (const [seenKey, expiresAt] of this.seen) {
+      if (expiresAt > now && this.seen.size < this.maxEntries) break;
+      this.seen.delete(seenKey);
+    }
+
+    const expiresAt = this.seen.get(key);
+    if (expiresAt !== undefined && expiresAt > now) return false;
+
+    this.seen.set(key, now + this.ttlMs);
+    return true;
+  }
+}
+
+const replayCache = new WebhookReplayCache();
+
+/**
+ * Verify an inbound webhook: secret configured, headers present, timestamp
+ * within the window, signature matching and not seen before.
+ * Replays are recognized by the signature, which is the only part of the
+ * request the sender vouches for.
+ */
+export function verifyWebhookRequest(
+  route: WebhookRoute,
+  headers: Headers,
+  rawBody: string,
+  options: { now?: number; cache?: WebhookReplayCache } = {}
+): WebhookRequestVerification {
+  if (isWebhookVerificationBypassed(route)) {
+    return { valid: true, bypassed: true };
+  }
+
+  const secret = getWebhookSecret(route);
+  if (!secret) return { valid: false, reason: 'missing_secret' };
+
+  const timestamp = headers.get('x-timestamp');
+  const signature = headers.get('x-signature');
+  if (!timestamp || !signature) return { valid: false, reason: 'missing_headers' };
+
+  const now = options.now ?? Date.now();
+  const age = Math.floor(now / 1000) - Number(timestamp);
+  if (!/^\d+$/.test(timestamp) || age < 0 || age > WEBHOOK_MAX_AGE_SECONDS) {
+    return { valid: false, reason: 'invalid_timestamp' };
+  }
+
+  const expected = Buffer.from(generateWebhookSignature(rawBody, timestamp, secret));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+    return { valid: false, reason: 'invalid_signature' };
+  }
+
+  if (!(options.cache ?? replayCache).remember(`${route}:${signature}`, now)) {
+    return { valid: false, reason: 'replayed' };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Log a rejected webhook as one structured entry
+ */
+function logWebhookRejection(route: WebhookRoute, request: Request, reason: WebhookRejectionReason) {
+  console.error('[Webhook Verification] Rejected webhook', {
+    route,
+    reason,
+    path: new URL(request.url).pathname,
+    ip: request.headers.get('x-forwarded-for')?.split(',')[0].trim() || null,
+    userAgent: request.headers.get('user-agent'),
+    timestamp: request.headers.get('x-timestamp'),
+    hasSignature: request.headers.has('x-signature'),
+  });
+}
+
+/**
+ * Wrap a webhook route handler so it only runs for verified requests.
+ * The handler gets the original request and can read its body as usual.
+ */
+export function withWebhookVerification<R extends Request>(
+  route: WebhookRoute,
+  handler: (request: R) => Promise<Response>
+): (request: R) => Promise<Response> {
+  return async (request: R) => {
+    const rawBody = await request.clone().text();
+    const result = verifyWebhookRequest(route, request.headers, rawBody);
+
+    if (!result.valid) {
+      logWebhookRejection(route, request, result.reason!);
+      return NextResponse.json({ error: 'Webhook verification failed' }, { status: 403 });
+    }
+    if (result.bypassed) {
+      console.warn(`[Webhook Verification] Verification skipped for ${route} webhook (development bypass)`);
+    }
+
+    return handler(request);
+  };
+}
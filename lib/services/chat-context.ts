@@ -5,22 +5,26 @@
  * - Information about the chat type (individual or group)
  * - List of participants with relevant metadata
  * - Any associated projects
+ * - Memories recalled from earlier conversations
  * 
  * This enhances the AI's ability to provide contextually relevant responses,
  * particularly in group chat scenarios.
  */
 
 import { MessageRecord } from "@/types/chat";
+import type { RecalledMemory } from "../agent-memory/semantic-memory";
 
 /**
  * Generate rich context about the conversation to prepend to the system prompt
- * Including information about the chat type, participants, and any associated projects
+ * Including information about the chat type, participants, any associated projects
+ * and relevant memories
  */
 export function generateRichChatContext(
   threadType: string,
   threadMessages: MessageRecord[],
   participants: any[] = [],
-  projects: any[] = []
+  projects: any[] = [],
+  memories: RecalledMemory[] = []
 ): string {
   // Create a descriptive context header
   let contextIntro = `\n<CONVERSATION_CONTEXT>\n`;
@@ -82,6 +86,15 @@ export function generateRichChatContext(
     });
   }
 
+  // Add memories relevant to the latest message, most relevant first
+  if (memories.length > 0) {
+    contextIntro += `\nRelevant Memories (from earlier conversations, may be outdated):\n`;
+    memories.forEach((memory, index) => {
+      const recorded = new Date(memory.created_at).toLocaleDateString();
+      contextIntro += `${index + 1}. [${recorded}${memory.kind === 'fact' ? ', fact' : ''}] ${memory.content}\n`;
+    });
+  }
+
   contextIntro += `</CONVERSATION_CONTEXT>\n`;
   
   return contextIntro;
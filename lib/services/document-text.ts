@@ -0,0 +1,250 @@
+import zlib from "zlib";
+import { readZipEntry } from "../storage/zip-archive";
+
+/**
+ * ============= DOCUMENT TEXT ================
+ * Pulls the readable text out of documents users send, so it can be
+ * summarized. Handles PDF, DOCX and plain text files without extra
+ * dependencies:
+ * - PDF: text drawn by the page content streams. Scanned PDFs have none.
+ * - DOCX: the paragraphs of word/document.xml
+ * - Text: UTF-8 files like .txt, .csv, .md and .json
+ * ============================================
+ */
+
+export type DocumentFormat = "pdf" | "docx" | "text";
+
+export interface ExtractedDocument {
+  format: DocumentFormat;
+  mimeType: string;
+  text: string;
+}
+
+const MIME_TYPES: Record<DocumentFormat, string> = {
+  pdf: "application/pdf",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  text: "text/plain",
+};
+
+const TEXT_EXTENSIONS = ["txt", "csv", "tsv", "md", "markdown", "json", "xml", "html", "htm", "log", "yaml", "yml"];
+
+/**
+ * Work out a document's format from its first bytes, then its MIME type or file name
+ * @returns The format, or null if it isn't one we can read
+ */
+export function detectDocumentFormat(
+  data: Buffer,
+  hints: { mimeType?: string; filename?: string } = {}
+): DocumentFormat | null {
+  if (data.subarray(0, 5).toString("latin1") === "%PDF-") return "pdf";
+  if (data.length >= 4 && data.readUInt32LE(0) === 0x04034b50) {
+    return readZipEntry(data, "word/document.xml") ? "docx" : null;
+  }
+
+  const mimeType = hints.mimeType?.toLowerCase() || "";
+  const extension = hints.filename?.split(".").pop()?.toLowerCase() || "";
+  const declaredText =
+    mimeType.startsWith("text/") || mimeType === "application/json" || TEXT_EXTENSIONS.includes(extension);
+  return declaredText || looksLikeText(data) ? "text" : null;
+}
+
+/**
+ * Extract the text of a PDF, DOCX or text document
+ * @returns The text with runs of blank lines collapsed, or null if the format isn't supported
+ */
+export function extractDocumentText(
+  data: Buffer,
+  hints: { mimeType?: string; filename?: string } = {}
+): ExtractedDocument | null {
+  const format = detectDocumentFormat(data, hints);
+  if (!format) return null;
+
+  let text: string;
+  switch (format) {
+    case "pdf":
+      text = extractPdfText(data);
+      break;
+    case "docx":
+      text = extractDocxText(data);
+      break;
+    default:
+      text = data.toString("utf-8").replace(/^\uFEFF/, "");
+  }
+
+  return {
+    format,
+    mimeType: format === "text" && hints.mimeType ? hints.mimeType : MIME_TYPES[format],
+    text: text
+      .replace(/[ \t]+\n/g, "\n")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim(),
+  };
+}
+
+/**
+ * Valid UTF-8 with hardly any control characters
+ */
+function looksLikeText(data: Buffer): boolean {
+  const sample = data.subarray(0, 4096);
+  if (sample.length === 0 || sample.includes(0)) return false;
+  const text = sample.toString("utf-8");
+  const unreadable = (text.match(/[\uFFFD\x01-\x08\x0E-\x1F]/g) || []).length;
+  return unreadable / text.length < 0.02;
+}
+
+// ---- DOCX ----
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(Number(dec)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+function extractDocxText(data: Buffer): string {
+  const xml = readZipEntry(data, "word/document.xml")?.toString("utf-8");
+  if (!xml) return "";
+
+  return decodeXmlEntities(
+    xml
+      .replace(/<w:tab\/>/g, "\t")
+      .replace(/<w:(br|cr)\/>/g, "\n")
+      .replace(/<\/w:p>/g, "\n")
+      .replace(/<[^>]+>/g, "")
+  );
+}
+
+// ---- PDF ----
+
+/**
+ * Decode the streams of a PDF, inflating the compressed ones
+ */
+function pdfStreams(pdf: Buffer): string[] {
+  const raw = pdf.toString("latin1");
+  const streams: string[] = [];
+  const pattern = /stream\r?\n/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(raw))) {
+    const start = match.index + match[0].length;
+    const end = raw.indexOf("endstream", start);
+    if (end < 0) break;
+    pattern.lastIndex = end + "endstream".length;
+
+    // The stream's dictionary comes right before it
+    const dictionary = raw.slice(Math.max(0, raw.lastIndexOf("obj", match.index)), match.index);
+    if (/\/Subtype\s*\/Image/.test(dictionary)) continue;
+
+    const body = pdf.subarray(start, end);
+    if (/\/FlateDecode/.test(dictionary)) {
+      try {
+        streams.push(zlib.inflateSync(body).toString("latin1"));
+      } catch {
+        // Streams often end with a stray newline zlib rejects, try without it
+        try {
+          streams.push(zlib.inflateSync(body.subarray(0, body.length - 1)).toString("latin1"));
+        } catch {
+          continue;
+        }
+      }
+    } else if (!/\/Filter/.test(dictionary)) {
+      streams.push(body.toString("latin1"));
+    }
+  }
+  return streams;
+}
+
+/**
+ * Read a literal string starting at an opening parenthesis
+ * @returns The string and the index after its closing parenthesis
+ */
+function readPdfString(content: string, start: number): { value: string; end: number } {
+  const escapes: Record<string, string> = { n: "\n", r: "\r", t: "\t", b: "\b", f: "\f" };
+  let value = "";
+  let depth = 0;
+  let i = start + 1;
+
+  for (; i < content.length; i++) {
+    const char = content[i];
+    if (char === "\\") {
+      const next = content[++i];
+      if (escapes[next]) {
+        value += escapes[next];
+      } else if (/[0-7]/.test(next)) {
+        const octal = /^[0-7]{1,3}/.exec(content.slice(i, i + 3))![0];
+        value += String.fromCharCode(parseInt(octal, 8));
+        i += octal.length - 1;
+      } else if (next !== "\r" && next !== "\n") {
+        value += next;
+      }
+    } else if (char === "(") {
+      depth++;
+      value += char;
+    } else if (char === ")") {
+      if (depth === 0) break;
+      depth--;
+      value += char;
+    } else {
+      value += char;
+    }
+  }
+  return { value, end: i + 1 };
+}
+
+function decodePdfHexString(hex: string): string {
+  const digits = hex.replace(/\s/g, "");
+  const bytes = Buffer.from(digits.length % 2 ? `${digits}0` : digits, "hex");
+  // Two-byte strings are UTF-16, usually glyph IDs we can't map without the font
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return bytes.subarray(2).swap16().toString("utf16le");
+  const text = bytes.toString("latin1");
+  return /^[\x20-\x7E\xA0-\xFF\s]*$/.test(text) ? text : "";
+}
+
+/**
+ * Text shown by the text operators (Tj, TJ, ' and ") of a content stream
+ */
+function extractContentStreamText(content: string): string {
+  if (!/\bBT\b/.test(content)) return "";
+
+  let text = "";
+  let pending: string[] = [];
+  let inArray = false;
+  const tokens = /\(|<[0-9A-Fa-f\s]*>|\[|\]|-?\d*\.?\d+|\/[^\s/[\]()<>]+|[A-Za-z'"*]+/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = tokens.exec(content))) {
+    const token = match[0];
+    if (token === "(") {
+      const { value, end } = readPdfString(content, match.index);
+      pending.push(value);
+      tokens.lastIndex = end;
+    } else if (token.startsWith("<")) {
+      pending.push(decodePdfHexString(token.slice(1, -1)));
+    } else if (token === "[" || token === "]") {
+      inArray = token === "[";
+    } else if (/^-?\d*\.?\d+$/.test(token)) {
+      // Large negative kerning inside a TJ array is a word gap
+      if (inArray && Number(token) < -200 && pending.length > 0) pending.push(" ");
+    } else if (token === "Tj" || token === "TJ") {
+      text += pending.join("");
+      pending = [];
+    } else if (token === "'" || token === '"') {
+      text += `\n${pending.join("")}`;
+      pending = [];
+    } else if (token === "Td" || token === "TD" || token === "T*" || token === "Tm" || token === "ET") {
+      if (text && !text.endsWith("\n")) text += "\n";
+      pending = [];
+    } else if (!token.startsWith("/")) {
+      pending = [];
+    }
+  }
+  return text;
+}
+
+function extractPdfText(data: Buffer): string {
+  return pdfStreams(data).map(extractContentStreamText).filter(Boolean).join("\n");
+}
@@ -0,0 +1,426 @@
+/**
+ * ============= EMAIL MIME PARSING ================
+ * Reads the raw RFC 5322 email A1Mail sends to the email webhook:
+ * - Headers are unfolded and RFC 2047 encoded words (=?utf-8?B?...?=) decoded
+ * - multipart/* bodies are walked to any depth, and each part's
+ *   quoted-printable or base64 transfer encoding and charset decoded
+ * - The plain text part is used as the body, or the HTML part turned into
+ *   text when there is none
+ * - Other parts, and parts sent as attachments, are returned as attachments
+ * - Message-ID, In-Reply-To and References are read for threading
+ *
+ * stripQuotedReply then drops the quoted history and signature from a reply,
+ * leaving what the sender wrote this time.
+ * =================================================
+ */
+
+export interface EmailAddress {
+  name: string | null;
+  address: string;
+}
+
+export interface MimeAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+  /**
+   * Content-ID that HTML bodies refer to inline images by, without the angle brackets
+   */
+  contentId: string | null;
+  inline: boolean;
+}
+
+export interface ParsedEmail {
+  /**
+   * Top-level headers by lower-case name, decoded. Repeated headers keep their first value.
+   */
+  headers: Record<string, string>;
+  subject: string;
+  from: EmailAddress | null;
+  to: EmailAddress[];
+  cc: EmailAddress[];
+  /**
+   * Date header as an ISO timestamp, null when missing or unreadable
+   */
+  date: string | null;
+  /**
+   * Message-ID without the angle brackets
+   */
+  messageId: string | null;
+  inReplyTo: string | null;
+  /**
+   * Message-IDs in the References header, oldest first
+   */
+  references: string[];
+  /**
+   * Whole text of the email, quoted history included
+   */
+  text: string;
+  html: string | null;
+  attachments: MimeAttachment[];
+}
+
+interface MimePart {
+  headers: Map<string, string[]>;
+  body: string;
+}
+
+interface HeaderValue {
+  value: string;
+  params: Record<string, string>;
+}
+
+// Deeper nesting than this is treated as an attachment rather than walked
+const MAX_MULTIPART_DEPTH = 10;
+
+// ---- Headers ----
+
+/**
+ * Split a message or part into its header block and body. Text without a
+ * header block is all body.
+ */
+function splitMessage(raw: string): { header: string; body: string } {
+  if (!/^[!-9;-~]+:/.test(raw)) return { header: "", body: raw };
+  const end = raw.search(/\r?\n\r?\n/);
+  if (end < 0) return { header: raw, body: "" };
+  return { header: raw.slice(0, end), body: raw.slice(end).replace(/^\r?\n\r?\n/, "") };
+}
+
+function parseHeaderBlock(header: string): Map<string, string[]> {
+  const headers = new Map<string, string[]>();
+  for (const line of header.replace(/\r?\n[ \t]+/g, " ").split(/\r?\n/)) {
+    const colon = line.indexOf(":");
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    headers.set(name, [...(headers.get(name) || []), line.slice(colon + 1).trim()]);
+  }
+  return headers;
+}
+
+function firstHeader(headers: Map<string, string[]>, name: string): string {
+  return headers.get(name)?.[0] || "";
+}
+
+// What bytes 0x80 to 0x9F stand for in Windows-1252, which Node decodes as Latin-1 control characters
+const WINDOWS_1252_HIGH = "€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008dŽ\u008f\u0090‘’“”•–—˜™š›œ\u009džŸ";
+
+/**
+ * Text of bytes in a charset, UTF-8 when the charset isn't known
+ */
+function decodeCharset(bytes: Buffer, charset: string | undefined): string {
+  const label = (charset || "utf-8").trim().toLowerCase();
+  // Mail labelled Latin-1 is usually Windows-1252, as browsers also assume
+  if (["windows-1252", "cp1252", "iso-8859-1", "iso8859-1", "latin1"].includes(label)) {
+    return bytes.toString("latin1").replace(/[\u0080-\u009f]/g, (char) => WINDOWS_1252_HIGH[char.charCodeAt(0) - 0x80]);
+  }
+  try {
+    return new TextDecoder(label === "us-ascii" ? "utf-8" : label).decode(bytes);
+  } catch {
+    return bytes.toString("utf-8");
+  }
+}
+
+/**
+ * Bytes of a string that may hold raw 8-bit data (characters up to U+00FF)
+ * or already decoded text
+ */
+function toBytes(value: string): Buffer {
+  return hasWideChars(value) ? Buffer.from(value, "utf-8") : Buffer.from(value, "latin1");
+}
+
+function hasWideChars(value: string): boolean {
+  return /[\u0100-\uffff]/.test(value);
+}
+
+function decodeQuotedPrintable(value: string, underscoreIsSpace = false): Buffer {
+  const text = value.replace(/=\r?\n/g, "");
+  const bytes: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === "=" && /^[0-9A-Fa-f]{2}$/.test(text.slice(i + 1, i + 3))) {
+      bytes.push(parseInt(text.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else if (char === "_" && underscoreIsSpace) {
+      bytes.push(0x20);
+    } else {
+      bytes.push(...toBytes(char));
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/**
+ * Decode RFC 2047 encoded words in a header, e.g. =?UTF-8?Q?Caf=C3=A9?=
+ */
+export function decodeEncodedWords(value: string): string {
+  return value
+    .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?[^?]+\?[BbQq]\?[^?]*\?=)/g, "$1")
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (word, charset: string, encoding: string, text: string) => {
+      const bytes = encoding.toUpperCase() === "B" ? Buffer.from(text, "base64") : decodeQuotedPrintable(text, true);
+      return decodeCharset(bytes, charset.split("*")[0]);
+    });
+}
+
+/**
+ * Split a structured header like Content-Type into its value and parameters,
+ * joining RFC 2231 continuations (filename*0*=...) and decoding their charset
+ */
+function parseHeaderValue(header: string): HeaderValue {
+  const [value, ...rest] = header.match(/(?:[^;"]|"(?:[^"\\]|\\.)*")+/g) || [""];
+  const pieces: Record<string, { index: number; text: string; encoded: boolean }[]> = {};
+
+  for (const param of rest) {
+    const match = /^\s*([^=\s*]+)(?:\*(\d+))?(\*)?\s*=\s*(.*?)\s*$/.exec(param);
+    if (!match) continue;
+    const [, name, index, encoded, raw] = match;
+    const text = raw.startsWith('"') ? raw.slice(1, -1).replace(/\\(.)/g, "$1") : raw;
+    (pieces[name.toLowerCase()] ||= []).push({ index: Number(index || 0), text, encoded: !!encoded });
+  }
+
+  const params: Record<string, string> = {};
+  for (const [name, parts] of Object.entries(pieces)) {
+    parts.sort((a, b) => a.index - b.index);
+    if (parts.some((part) => part.encoded)) {
+      // charset'language'percent-encoded text, the charset given on the first piece only
+      const [charset, , first] = parts[0].encoded ? parts[0].text.split("'") : ["utf-8", "", parts[0].text];
+      const text = [first ?? "", ...parts.slice(1).map((part) => part.text)].join("");
+      const bytes = Buffer.from(text.replace(/%([0-9A-Fa-f]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16))), "latin1");
+      params[name] = decodeCharset(bytes, charset);
+    } else {
+      params[name] = decodeEncodedWords(parts.map((part) => part.text).join(""));
+    }
+  }
+
+  return { value: value.trim().toLowerCase(), params };
+}
+
+/**
+ * Read an address list header: "Ada Lovelace" <ada@example.com>, bob@example.com
+ */
+export function parseAddressList(header: string): EmailAddress[] {
+  const addresses: EmailAddress[] = [];
+  for (const entry of header.match(/(?:[^,"<]|"(?:[^"\\]|\\.)*"|<[^>]*>)+/g) || []) {
+    const angle = /^(.*)<([^>]*)>\s*$/.exec(entry);
+    const address = (angle ? angle[2] : entry).trim().toLowerCase();
+    if (!address.includes("@")) continue;
+    const name = angle ? decodeEncodedWords(angle[1].trim().replace(/^"(.*)"$/, "$1").replace(/\\(.)/g, "$1")) : "";
+    addresses.push({ name: name || null, address });
+  }
+  return addresses;
+}
+
+/**
+ * Message-IDs in a Message-ID, In-Reply-To or References header, without their angle brackets
+ */
+export function parseMessageIds(header: string): string[] {
+  return (header.match(/<[^<>\s]+>/g) || []).map((id) => id.slice(1, -1));
+}
+
+// ---- Bodies ----
+
+function decodeTransferEncoding(body: string, encoding: string): Buffer {
+  switch (encoding.trim().toLowerCase()) {
+    case "base64":
+      return Buffer.from(body.replace(/[^A-Za-z0-9+/=]/g, ""), "base64");
+    case "quoted-printable":
+      return decodeQuotedPrintable(body);
+    default:
+      return toBytes(body);
+  }
+}
+
+/**
+ * Text of a text/* part in its charset. 7bit and 8bit parts that arrived
+ * already decoded are kept as they are.
+ */
+function partText(part: MimePart, charset: string | undefined): string {
+  const encoding = firstHeader(part.headers, "content-transfer-encoding").toLowerCase();
+  if (encoding === "base64" || encoding === "quoted-printable") {
+    return decodeCharset(decodeTransferEncoding(part.body, encoding), charset);
+  }
+  const label = (charset || "").toLowerCase();
+  if (hasWideChars(part.body) || ["", "utf-8", "utf8", "us-ascii"].includes(label)) {
+    return part.body;
+  }
+  return decodeCharset(Buffer.from(part.body, "latin1"), charset);
+}
+
+/**
+ * The parts between the boundaries of a multipart body
+ */
+function splitMultipart(body: string, boundary: string): string[] {
+  const escaped = boundary.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const delimiter = new RegExp(`(?:^|\\r?\\n)--${escaped}(--)?[ \\t]*(?=\\r?\\n|$)`, "g");
+  const parts: string[] = [];
+  let start = -1;
+  let match: RegExpExecArray | null;
+
+  while ((match = delimiter.exec(body))) {
+    if (start >= 0) parts.push(body.slice(start, match.index));
+    if (match[1]) return parts;
+    start = match.index + match[0].length;
+    start += /^\r?\n/.exec(body.slice(start))?.[0].length || 0;
+  }
+  if (start >= 0) parts.push(body.slice(start));
+  return parts;
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  nbsp: " ",
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  rsquo: "’",
+  lsquo: "‘",
+  rdquo: "”",
+  ldquo: "“",
+  copy: "©",
+};
+
+/**
+ * Readable text of an HTML body: block elements become line breaks, list
+ * items dashes, and style, script and head content is dropped
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(head|style|script|title)\b[\s\S]*?<\/\1\s*>/gi, "")
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<li\b[^>]*>/gi, "\n- ")
+    .replace(/<\/(p|div|tr|h[1-6]|blockquote|ul|ol|table)\s*>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+      if (name[0] === "#") {
+        const code = name[1].toLowerCase() === "x" ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+        return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+      }
+      return HTML_ENTITIES[name.toLowerCase()] ?? entity;
+    })
+    .replace(/[ \t\u00a0]+/g, " ")
+    .split("\n")
+    .map((line) => line.trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Parse a raw email into its headers, text, HTML and attachments
+ */
+export function parseEmail(raw: string): ParsedEmail {
+  const { header, body } = splitMessage(raw || "");
+  const headers = parseHeaderBlock(header);
+  const texts: string[] = [];
+  const htmls: string[] = [];
+  const attachments: MimeAttachment[] = [];
+
+  const walk = (part: MimePart, depth: number) => {
+    const contentType = parseHeaderValue(firstHeader(part.headers, "content-type") || "text/plain");
+    const disposition = parseHeaderValue(firstHeader(part.headers, "content-disposition"));
+    const filename = disposition.params.filename || contentType.params.name || "";
+
+    if (contentType.value.startsWith("multipart/") && contentType.params.boundary && depth < MAX_MULTIPART_DEPTH) {
+      for (const child of splitMultipart(part.body, contentType.params.boundary)) {
+        const split = splitMessage(child);
+        walk({ headers: parseHeaderBlock(split.header), body: split.body }, depth + 1);
+      }
+      return;
+    }
+
+    const isBody = disposition.value !== "attachment" && !filename;
+    if (isBody && contentType.value === "text/plain") {
+      texts.push(partText(part, contentType.params.charset));
+    } else if (isBody && contentType.value === "text/html") {
+      htmls.push(partText(part, contentType.params.charset));
+    } else {
+      const encoding = firstHeader(part.headers, "content-transfer-encoding");
+      const content = decodeTransferEncoding(part.body, encoding);
+      const contentId = parseMessageIds(firstHeader(part.headers, "content-id"))[0] || null;
+      attachments.push({
+        filename: filename || (contentType.value === "message/rfc822" ? "forwarded-message.eml" : `attachment-${attachments.length + 1}`),
+        contentType: contentType.value,
+        content,
+        contentId,
+        inline: disposition.value === "inline" || (!disposition.value && !!contentId),
+      });
+    }
+  };
+  walk({ headers, body }, 0);
+
+  const html = htmls.length > 0 ? htmls.join("\n") : null;
+  const text = (texts.length > 0 ? texts.join("\n\n") : html ? htmlToText(html) : "")
+    .replace(/\r\n/g, "\n")
+    .replace(/\n\.\n?$/, "")
+    .trim();
+  const date = new Date(firstHeader(headers, "date"));
+
+  return {
+    headers: Object.fromEntries([...headers].map(([name, values]) => [name, decodeEncodedWords(values[0])])),
+    subject: decodeEncodedWords(firstHeader(headers, "subject")),
+    from: parseAddressList(firstHeader(headers, "from"))[0] || null,
+    to: parseAddressList((headers.get("to") || []).join(", ")),
+    cc: parseAddressList((headers.get("cc") || []).join(", ")),
+    date: Number.isNaN(date.getTime()) ? null : date.toISOString(),
+    messageId: parseMessageIds(firstHeader(headers, "message-id"))[0] || null,
+    inReplyTo: parseMessageIds(firstHeader(headers, "in-reply-to"))[0] || null,
+    references: parseMessageIds(firstHeader(headers, "references")),
+    text,
+    html,
+    attachments,
+  };
+}
+
+// ---- Replies ----
+
+// Lines that start the quoted history under a reply
+const QUOTE_HEADERS = [
+  /^On\s.+\swrote:$/i, // Gmail, Apple Mail, Thunderbird
+  /^-{2,}\s*Original Message\s*-{2,}$/i, // Outlook
+  /^Le\s.+\sa écrit\s?:$/i,
+  /^Am\s.+\sschrieb\s.+:$/i,
+  /^El\s.+\sescribió:$/i,
+];
+
+// Lines that start a signature
+const SIGNATURE_STARTS = [/^--\s?$/, /^Sent from my \w+/i, /^Get Outlook for /i, /^Sent from (Mail|Outlook|Yahoo Mail) for /i];
+
+/**
+ * What the sender wrote in a reply, without the quoted history or signature.
+ * Returns the whole text when nothing is left, e.g. for forwarded emails.
+ */
+export function stripQuotedReply(text: string): string {
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  let end = lines.length;
+
+  for (let i = 0; i < lines.length && end === lines.length; i++) {
+    const line = lines[i].trim();
+    // Attributions are often wrapped onto a second line
+    const joined = `${line} ${lines[i + 1]?.trim() || ""}`.trim();
+    const outlookHeader =
+      /^(From|De|Von):\s/i.test(line) &&
+      lines.slice(i + 1, i + 5).some((next) => /^(Sent|Date|Envoyé|Gesendet):\s/i.test(next.trim()));
+
+    if (QUOTE_HEADERS.some((pattern) => pattern.test(line)) || outlookHeader) {
+      end = i;
+    } else if (QUOTE_HEADERS.some((pattern) => pattern.test(joined)) && /^On\s/i.test(line)) {
+      end = i;
+    } else if (/^_{10,}$/.test(line) && /^(From|De|Von):\s/i.test(lines[i + 1]?.trim() || "")) {
+      end = i;
+    } else if (SIGNATURE_STARTS.some((pattern) => pattern.test(lines[i]))) {
+      end = i;
+    }
+  }
+
+  // Quoted lines left at the end, from clients that quote without an attribution
+  while (end > 0 && (lines[end - 1].trim() === "" || lines[end - 1].trimStart().startsWith(">"))) {
+    end--;
+  }
+
+  const reply = lines.slice(0, end).join("\n").trim();
+  return reply || text.trim();
+}
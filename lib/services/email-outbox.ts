@@ -0,0 +1,350 @@
+import fs from "fs";
+import path from "path";
+import { z } from "zod/v4";
+import type {
+  DatabaseAdapterInterface,
+  EmailDraftRecord,
+  EmailMessageRecord,
+  EmailThreadRecord,
+} from "../interfaces/database-adapter";
+import { moderateMessage, ModerationOptions } from "../safety-config/moderation";
+import { MediaStorage, getSignedMediaUrl } from "../storage/media-storage";
+import { GenerateEmailResponse, SendEmailFromAgent } from "../workflows/email_workflow";
+import { emailReferenceIds, getEmailThreadContext } from "./email-threads";
+
+/**
+ * ============= EMAIL OUTBOX =================
+ * With replyMode "draft" in data/email-settings.json, the replies the agent
+ * writes to emails wait in email_drafts instead of being sent. Someone
+ * reviews them at /inbox next to their thread: edits and approves them,
+ * regenerates them with instructions, or discards them. Senders on the
+ * autoSendAllowlist still get their replies straight away.
+ * ============================================
+ */
+
+const settingsFilePath = path.join(process.cwd(), "data", "email-settings.json");
+
+/**
+ * Number of emails from the thread the agent sees when regenerating a draft
+ */
+export const EMAIL_CONTEXT_MESSAGES = 5;
+
+export const emailSettingsSchema = z.object({
+  /**
+   * auto: replies are sent as soon as they are written. draft: they wait in
+   * the outbox for review.
+   */
+  replyMode: z.enum(["auto", "draft"]).default("auto"),
+  /**
+   * Senders whose replies are sent without review in draft mode, as
+   * addresses or as domains like "@example.com"
+   */
+  autoSendAllowlist: z.array(z.string().trim().toLowerCase().min(1)).default([]),
+});
+
+export type EmailSettings = z.infer<typeof emailSettingsSchema>;
+
+/**
+ * Read data/email-settings.json, falling back to defaults if it is missing or invalid
+ */
+export function loadEmailSettings(): EmailSettings {
+  const defaults = emailSettingsSchema.parse({});
+  try {
+    if (!fs.existsSync(settingsFilePath)) return defaults;
+
+    const result = emailSettingsSchema.safeParse(JSON.parse(fs.readFileSync(settingsFilePath, "utf-8")));
+    if (!result.success) {
+      console.error("[EmailOutbox] Invalid email-settings.json, using defaults:", result.error.message);
+      return defaults;
+    }
+    return result.data;
+  } catch (error) {
+    console.error("[EmailOutbox] Error loading email settings:", error);
+    return defaults;
+  }
+}
+
+/**
+ * Write data/email-settings.json
+ * @returns False if the file couldn't be written
+ */
+export function saveEmailSettings(settings: EmailSettings): boolean {
+  try {
+    fs.mkdirSync(path.dirname(settingsFilePath), { recursive: true });
+    fs.writeFileSync(settingsFilePath, JSON.stringify(settings, null, 2));
+    return true;
+  } catch (error) {
+    console.error("[EmailOutbox] Error saving email settings:", error);
+    return false;
+  }
+}
+
+/**
+ * Whether a reply to this address is sent without review
+ */
+export function canAutoSend(settings: EmailSettings, address: string): boolean {
+  if (settings.replyMode === "auto") return true;
+  const normalized = address.trim().toLowerCase();
+  const domain = normalized.slice(normalized.lastIndexOf("@"));
+  return settings.autoSendAllowlist.some((entry) => entry === normalized || entry === domain);
+}
+
+/**
+ * A reply from the agent to an email thread
+ */
+export interface EmailReply {
+  threadId: string;
+  to: string;
+  subject: string;
+  body: string;
+  /**
+   * The stored email being answered
+   */
+  replyTo: Pick<EmailMessageRecord, "id" | "message_id_header" | "in_reply_to" | "reference_ids"> | null;
+}
+
+export interface EmailOutboxOptions {
+  send?: typeof SendEmailFromAgent;
+  generate?: typeof GenerateEmailResponse;
+  moderation?: ModerationOptions;
+}
+
+/**
+ * Send a reply through A1Mail and store it in its thread
+ * @returns ID of the stored reply, null if A1BASE_AGENT_EMAIL isn't set or storing failed
+ * @throws If sending fails
+ */
+export async function sendEmailReply(
+  adapter: DatabaseAdapterInterface,
+  reply: EmailReply,
+  options: EmailOutboxOptions = {}
+): Promise<string | null> {
+  const send = options.send || SendEmailFromAgent;
+  const sendResult = await send({ subject: reply.subject, body: reply.body, recipient_address: reply.to });
+  console.log(`[EmailOutbox] Email send result: ${sendResult}`);
+
+  const agentEmail = process.env.A1BASE_AGENT_EMAIL?.trim().toLowerCase();
+  if (!agentEmail) return null;
+
+  const answered = reply.replyTo;
+  const referenceIds = answered
+    ? emailReferenceIds({ inReplyTo: answered.in_reply_to, references: answered.reference_ids })
+    : [];
+  return adapter.addEmailMessage({
+    thread_id: reply.threadId,
+    email_id: `ai-response-${Date.now()}`,
+    direction: "outbound",
+    from_address: agentEmail,
+    to_address: reply.to.toLowerCase(),
+    subject: reply.subject,
+    body_text: reply.body,
+    metadata: {
+      timestamp: new Date().toISOString(),
+      service: "email",
+    },
+    in_reply_to: answered?.message_id_header || null,
+    reference_ids: answered?.message_id_header ? [...referenceIds, answered.message_id_header] : referenceIds,
+  });
+}
+
+/**
+ * Put a reply in the outbox for review instead of sending it
+ * @returns ID of the draft, or null if it couldn't be stored
+ */
+export async function queueEmailDraft(adapter: DatabaseAdapterInterface, reply: EmailReply): Promise<string | null> {
+  return adapter.addEmailDraft({
+    thread_id: reply.threadId,
+    reply_to_id: reply.replyTo?.id || null,
+    to_address: reply.to.toLowerCase(),
+    subject: reply.subject,
+    body: reply.body,
+  });
+}
+
+async function findRepliedEmail(adapter: DatabaseAdapterInterface, draft: EmailDraftRecord) {
+  if (!draft.reply_to_id) return null;
+  const emails = await adapter.getEmailMessages(draft.thread_id);
+  return emails.find((email) => email.id === draft.reply_to_id) || null;
+}
+
+/**
+ * Send a pending draft, optionally after editing it. If sending fails the
+ * draft goes back to pending with the error.
+ * @returns The sent draft, or null if it wasn't pending, the edited body was
+ * empty or sending failed
+ */
+export async function approveEmailDraft(
+  adapter: DatabaseAdapterInterface,
+  draftId: string,
+  edits: { subject?: string; body?: string } = {},
+  options: EmailOutboxOptions = {}
+): Promise<EmailDraftRecord | null> {
+  const draft = await adapter.getEmailDraft(draftId);
+  if (!draft || draft.status !== "pending") return null;
+
+  const subject = edits.subject?.trim() || draft.subject;
+  const body = edits.body !== undefined ? edits.body.trim() : draft.body;
+  if (!body) return null;
+
+  // Claim the draft, so approving it twice can't send it twice
+  if (!(await adapter.updateEmailDraft(draftId, { status: "sending", subject, body, error: null }, "pending"))) {
+    return null;
+  }
+
+  let sentMessageId: string | null;
+  try {
+    sentMessageId = await sendEmailReply(
+      adapter,
+      { threadId: draft.thread_id, to: draft.to_address, subject, body, replyTo: await findRepliedEmail(adapter, draft) },
+      options
+    );
+  } catch (error) {
+    console.error(`[EmailOutbox] Error sending draft ${draftId}:`, error);
+    await adapter.updateEmailDraft(
+      draftId,
+      { status: "pending", error: error instanceof Error ? error.message : String(error) },
+      "sending"
+    );
+    return null;
+  }
+
+  const sent = {
+    status: "sent" as const,
+    sent_message_id: sentMessageId,
+    reviewed_at: new Date().toISOString(),
+  };
+  await adapter.updateEmailDraft(draftId, sent, "sending");
+  return { ...draft, subject, body, error: null, ...sent };
+}
+
+/**
+ * Rewrite a pending draft from the latest emails in its thread, following the
+ * reviewer's instructions. The new reply is moderated like the first one.
+ * @returns The rewritten draft, or null if it wasn't pending or generating failed
+ */
+export async function regenerateEmailDraft(
+  adapter: DatabaseAdapterInterface,
+  draftId: string,
+  instructions: string,
+  options: EmailOutboxOptions = {}
+): Promise<EmailDraftRecord | null> {
+  const draft = await adapter.getEmailDraft(draftId);
+  if (!draft || draft.status !== "pending") return null;
+
+  try {
+    const generate = options.generate || GenerateEmailResponse;
+    const context = await getEmailThreadContext(adapter, draft.thread_id, { limit: EMAIL_CONTEXT_MESSAGES });
+    const response = await generate(context, draft.to_address, draft.subject, instructions.trim() || undefined);
+
+    const moderation = await moderateMessage(
+      response.body,
+      { direction: "outbound", service: "email", threadId: draft.thread_id },
+      options.moderation
+    );
+    const updates = {
+      subject: response.subject,
+      body: moderation.blocked ? moderation.reply || "" : moderation.text,
+      instructions: instructions.trim() || null,
+      error: null,
+    };
+
+    if (!(await adapter.updateEmailDraft(draftId, updates, "pending"))) return null;
+    return { ...draft, ...updates };
+  } catch (error) {
+    console.error(`[EmailOutbox] Error regenerating draft ${draftId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Save edits to a pending draft without sending it. The body is trimmed, as
+ * when approving, and can't be emptied.
+ * @returns False if the draft wasn't pending, the body was empty or there was
+ * nothing to save
+ */
+export async function editEmailDraft(
+  adapter: DatabaseAdapterInterface,
+  draftId: string,
+  edits: { subject?: string; body?: string }
+): Promise<boolean> {
+  const subject = edits.subject?.trim();
+  const body = edits.body?.trim();
+  if (body === "" || (!subject && body === undefined)) return false;
+
+  const updates = {
+    ...(subject ? { subject } : {}),
+    ...(body !== undefined ? { body } : {}),
+  };
+  return adapter.updateEmailDraft(draftId, updates, "pending");
+}
+
+/**
+ * Drop a pending draft without sending it
+ * @returns False if the draft wasn't pending
+ */
+export async function discardEmailDraft(adapter: DatabaseAdapterInterface, draftId: string): Promise<boolean> {
+  return adapter.updateEmailDraft(draftId, { status: "discarded", reviewed_at: new Date().toISOString() }, "pending");
+}
+
+/**
+ * An email as shown next to a draft, with links to its attachments
+ */
+export interface EmailView
+  extends Pick<
+    EmailMessageRecord,
+    "id" | "created_at" | "direction" | "from_address" | "to_address" | "cc_addresses" | "subject" | "body_text"
+  > {
+  attachments: { id: string; filename: string; content_type: string | null; size_bytes: number | null; url: string | null }[];
+}
+
+export interface EmailDraftDetail {
+  draft: EmailDraftRecord;
+  thread: EmailThreadRecord | null;
+  /**
+   * Every email in the thread, oldest first
+   */
+  emails: EmailView[];
+}
+
+/**
+ * A draft with the thread it answers, for reviewing it
+ * @returns The draft and its thread, or null if the draft wasn't found
+ */
+export async function getEmailDraftDetail(
+  adapter: DatabaseAdapterInterface,
+  draftId: string,
+  storage?: MediaStorage
+): Promise<EmailDraftDetail | null> {
+  const draft = await adapter.getEmailDraft(draftId);
+  if (!draft) return null;
+
+  const [thread, emails] = await Promise.all([
+    adapter.getEmailThread(draft.thread_id),
+    adapter.getEmailMessages(draft.thread_id),
+  ]);
+  const attachments = await adapter.getEmailAttachments(emails.map((email) => email.id));
+
+  return {
+    draft,
+    thread,
+    emails: emails.map((email) => ({
+      id: email.id,
+      created_at: email.created_at,
+      direction: email.direction,
+      from_address: email.from_address,
+      to_address: email.to_address,
+      cc_addresses: email.cc_addresses,
+      subject: email.subject,
+      body_text: email.body_text,
+      attachments: attachments
+        .filter((attachment) => attachment.message_id === email.id)
+        .map((attachment) => ({
+          id: attachment.id,
+          filename: attachment.filename,
+          content_type: attachment.content_type,
+          size_bytes: attachment.size_bytes,
+          url: attachment.url ? getSignedMediaUrl(attachment.url, storage) : null,
+        })),
+    })),
+  };
+}
@@ -30,34 +30,13 @@ export async function updateUserEmail(phoneNumber: string, email: string): Promi
     // Normalize phone number
     const normalizedPhone = phoneNumber.replace(/\+/g, '');
 
-    // First get the current metadata
-    const { data: user, error: fetchError } = await adapter.supabase
-      .from('conversation_users')
-      .select('metadata')
-      .eq('phone_number', normalizedPhone)
-      .single();
-
-    if (fetchError) {
-      console.error('[updateUserEmail] Error fetching user:', fetchError);
-      return false;
-    }
-
     // Merge email into existing metadata
-    const updatedMetadata = {
-      ...(user?.metadata || {}),
-      email: email
-    };
-
-    // Update user metadata with email
-    const { error } = await adapter.supabase
-      .from('conversation_users')
-      .update({ 
-        metadata: updatedMetadata
-      })
-      .eq('phone_number', normalizedPhone);
+    const updated = await adapter.updateUser(normalizedPhone, {
+      metadata: { email }
+    });
 
-    if (error) {
-      console.error('[updateUserEmail] Error updating user email:', error);
+    if (!updated) {
+      console.error('[updateUserEmail] Error updating user email');
       return false;
     }
 
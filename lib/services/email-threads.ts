@@ -0,0 +1,169 @@
+import { randomUUID } from "crypto";
+import { ThreadMessage } from "@/types/chat";
+import { DatabaseAdapterInterface } from "../interfaces/database-adapter";
+import { getMediaSizeLimit } from "../messaging/multimedia-handler";
+import { MediaStorage, getMediaStorage, mediaFileExtension } from "../storage/media-storage";
+import { MimeAttachment } from "./email-mime";
+
+/**
+ * ============= EMAIL THREADS ================
+ * Works out which conversation an incoming email belongs to:
+ * 1. The thread of the latest stored email named in its In-Reply-To or
+ *    References headers
+ * 2. Otherwise the latest thread between the same two addresses with the
+ *    same subject once Re:/Fwd: prefixes are dropped. Replies to the agent's
+ *    own emails name the Message-ID A1Mail gave them, which isn't known here.
+ * 3. Otherwise a new thread
+ *
+ * Attachments are kept in media storage (lib/storage/media-storage.ts) and
+ * listed in email_attachments. The latest emails of a thread, with the names
+ * of their attachments, are the context the agent replies from.
+ * ============================================
+ */
+
+export interface EmailThreadMatch {
+  threadId: string;
+  matchedBy: "references" | "subject" | "new";
+}
+
+const REPLY_PREFIX = /^(re|fwd?|aw|sv|tr)(\[\d+\])?\s*:\s*/i;
+
+/**
+ * Subject without reply and forward prefixes, for comparing emails in a thread
+ */
+export function normalizeEmailSubject(subject: string): string {
+  let normalized = subject.trim();
+  while (REPLY_PREFIX.test(normalized)) {
+    normalized = normalized.replace(REPLY_PREFIX, "");
+  }
+  return normalized.replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * Message-IDs an email answers, oldest first: its References and then In-Reply-To
+ */
+export function emailReferenceIds(email: { inReplyTo: string | null; references: string[] }): string[] {
+  return [...new Set([...email.references, ...(email.inReplyTo ? [email.inReplyTo] : [])])];
+}
+
+/**
+ * Find the thread an incoming email belongs to, or start one
+ * @returns The thread and how it was found, or null if a thread couldn't be created
+ */
+export async function findOrCreateEmailThread(
+  adapter: DatabaseAdapterInterface,
+  email: { from: string; to: string; subject: string; referenceIds: string[] }
+): Promise<EmailThreadMatch | null> {
+  const from = email.from.trim().toLowerCase();
+  const to = email.to.trim().toLowerCase();
+
+  if (email.referenceIds.length > 0) {
+    const referenced = await adapter.getEmailMessagesByMessageIds(email.referenceIds);
+    const latest = referenced[referenced.length - 1];
+    if (latest) return { threadId: latest.thread_id, matchedBy: "references" };
+  }
+
+  const subject = normalizeEmailSubject(email.subject);
+  const sameSubject = (await adapter.getEmailThreadsBetween(from, to)).find(
+    (thread) => normalizeEmailSubject(thread.subject || "") === subject
+  );
+  if (sameSubject) return { threadId: sameSubject.id, matchedBy: "subject" };
+
+  const threadId = await adapter.createEmailThread({ sender_email: from, recipient_email: to, subject: email.subject });
+  return threadId ? { threadId, matchedBy: "new" } : null;
+}
+
+/**
+ * File extension for an attachment: its own when it has a plain one, otherwise from its type
+ */
+function attachmentExtension(attachment: MimeAttachment): string {
+  const extension = /\.([A-Za-z0-9]{1,10})$/.exec(attachment.filename)?.[1];
+  return extension ? extension.toLowerCase() : mediaFileExtension(attachment.contentType);
+}
+
+/**
+ * Keep an email's attachments in media storage and list them in email_attachments.
+ * Attachments over the document size limit, or that couldn't be stored, are
+ * listed without a URL.
+ * @param emailMessageId ID of the email's row in email_messages
+ * @returns Number of attachments listed
+ */
+export async function saveEmailAttachments(
+  adapter: DatabaseAdapterInterface,
+  emailMessageId: string,
+  attachments: MimeAttachment[],
+  options: { storage?: MediaStorage; now?: Date } = {}
+): Promise<number> {
+  const now = options.now || new Date();
+  const folder = `email/${now.getUTCFullYear()}/${String(now.getUTCMonth() + 1).padStart(2, "0")}`;
+  const limit = getMediaSizeLimit("document");
+  let saved = 0;
+
+  for (const attachment of attachments) {
+    let url: string | null = null;
+    if (attachment.content.length > limit) {
+      console.warn(`[EmailThreads] Attachment ${attachment.filename} is over the size limit, not stored`);
+    } else {
+      try {
+        const storage = options.storage || getMediaStorage();
+        url = await storage.put(
+          `${folder}/${randomUUID()}.${attachmentExtension(attachment)}`,
+          attachment.content,
+          attachment.contentType
+        );
+      } catch (error) {
+        console.error(`[EmailThreads] Error storing attachment ${attachment.filename}:`, error);
+      }
+    }
+
+    const id = await adapter.addEmailAttachment({
+      message_id: emailMessageId,
+      filename: attachment.filename,
+      content_type: attachment.contentType,
+      size_bytes: attachment.content.length,
+      url,
+      content_id: attachment.contentId,
+    });
+    if (id) saved++;
+  }
+
+  return saved;
+}
+
+/**
+ * Line listing an email's attachments, so the AI knows they were sent
+ */
+export function describeAttachments(attachments: { filename: string }[]): string {
+  return attachments.length > 0 ? `\n\n[Attachments: ${attachments.map((a) => a.filename).join(", ")}]` : "";
+}
+
+/**
+ * Latest emails of a thread as conversation context for the AI, oldest first.
+ * Emails from A1BASE_AGENT_EMAIL are the assistant's.
+ * @param options.excludeEmailId Webhook email_id of an email to leave out
+ */
+export async function getEmailThreadContext(
+  adapter: DatabaseAdapterInterface,
+  threadId: string,
+  options: { limit: number; excludeEmailId?: string }
+): Promise<ThreadMessage[]> {
+  const emails = (await adapter.getEmailMessages(threadId, options.limit + 1))
+    .filter((email) => email.email_id !== options.excludeEmailId)
+    .slice(-options.limit);
+  const attachments = await adapter.getEmailAttachments(emails.map((email) => email.id));
+  const agentEmail = process.env.A1BASE_AGENT_EMAIL?.trim().toLowerCase();
+
+  return emails.map((email) => {
+    const body = `${email.body_text || ""}${describeAttachments(attachments.filter((a) => a.message_id === email.id))}`;
+    return {
+      role: email.from_address === agentEmail ? "assistant" : "user",
+      content: `Subject: ${email.subject}\n\n${body}`,
+      timestamp: email.created_at,
+      sender_number: email.from_address,
+      sender_name: email.from_address.split("@")[0], // Simple name extraction
+      message_id: email.id,
+      message_type: "text",
+      message_content: { text: body },
+    };
+  });
+}
@@ -0,0 +1,269 @@
+import { randomUUID } from "crypto";
+import { DatabaseAdapterInterface, NewMediaFile } from "../interfaces/database-adapter";
+import { MediaType, getMediaSizeLimit } from "../messaging/multimedia-handler";
+import { MediaStorage, getMediaStorage, mediaFileExtension } from "../storage/media-storage";
+import { detectDocumentFormat } from "./document-text";
+import { IncomingMedia, decodeMediaData, detectImageMimeType } from "./media-understanding";
+import { detectAudioMimeType } from "./voice-notes";
+
+/**
+ * ============= MEDIA INGEST ================
+ * Moves the files users send into media storage (lib/storage/media-storage.ts)
+ * so messages.rich_content only keeps a reference to them:
+ * - Files over getMediaSizeLimit for their type are rejected
+ * - The type is sniffed from the file's first bytes, and images, audio and
+ *   video that aren't what they claim to be are rejected
+ * - Images get their dimensions read and a WebP thumbnail made with sharp
+ * - WAV, MP4/MOV/M4A and Ogg audio and video get their duration read
+ * The media_files row for the message holds the reference, thumbnail,
+ * dimensions and duration.
+ * ===========================================
+ */
+
+export const THUMBNAIL_SIZE = 320;
+
+export interface StoredMedia {
+  mediaType: MediaType;
+  /**
+   * Reference to the file in media storage, e.g. "local:2026/10/<id>.jpg"
+   */
+  fileUrl: string;
+  thumbnailUrl: string | null;
+  mimeType: string;
+  fileSize: number;
+  dimensions: { width: number; height: number } | null;
+  durationSeconds: number | null;
+}
+
+export type MediaIngestResult =
+  | { success: true; media: StoredMedia }
+  | {
+      success: false;
+      error: string;
+      /**
+       * The file was refused (too large or not of its type), rather than
+       * storage failing
+       */
+      rejected: boolean;
+    };
+
+/**
+ * Type of a video from its first bytes
+ */
+function detectVideoMimeType(data: Buffer): string | null {
+  if (data.subarray(4, 8).toString("latin1") === "ftyp") {
+    const brand = data.subarray(8, 12).toString("latin1");
+    if (brand === "qt  ") return "video/quicktime";
+    if (brand.startsWith("3g")) return "video/3gpp";
+    return "video/mp4";
+  }
+  if (data.length >= 4 && data.readUInt32BE(0) === 0x1a45dfa3) return "video/webm";
+  return null;
+}
+
+/**
+ * Work out a file's MIME type from its contents
+ * @returns null if an image, audio file or video isn't one we recognize
+ */
+export function sniffMediaMimeType(data: Buffer, mediaType: MediaType, declaredMimeType?: string): string | null {
+  switch (mediaType) {
+    case "image":
+      return detectImageMimeType(data);
+    case "audio":
+      return detectAudioMimeType(data);
+    case "video":
+      return detectVideoMimeType(data);
+    default: {
+      const format = detectDocumentFormat(data, { mimeType: declaredMimeType });
+      if (format === "pdf") return "application/pdf";
+      if (format === "docx") return "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+      if (format === "text") return "text/plain";
+      // Other documents (spreadsheets, archives...) are stored as opaque files
+      return "application/octet-stream";
+    }
+  }
+}
+
+// ---- Duration ----
+
+function wavDuration(data: Buffer): number | null {
+  const format = data.indexOf("fmt ", 12, "latin1");
+  const samples = data.indexOf("data", 12, "latin1");
+  if (format < 0 || samples < 0) return null;
+  const byteRate = data.readUInt32LE(format + 16);
+  return byteRate > 0 ? data.readUInt32LE(samples + 4) / byteRate : null;
+}
+
+function mp4Duration(data: Buffer): number | null {
+  const box = data.indexOf("mvhd", 0, "latin1");
+  if (box < 0 || box + 32 > data.length) return null;
+  const version = data[box + 4];
+  const timescale = version === 1 ? data.readUInt32BE(box + 24) : data.readUInt32BE(box + 16);
+  const duration = version === 1 ? Number(data.readBigUInt64BE(box + 28)) : data.readUInt32BE(box + 20);
+  return timescale > 0 ? duration / timescale : null;
+}
+
+function oggDuration(data: Buffer): number | null {
+  const lastPage = data.lastIndexOf("OggS", data.length - 14, "latin1");
+  if (lastPage < 0) return null;
+  const granule = Number(data.readBigUInt64LE(lastPage + 6));
+
+  // Opus always counts at 48 kHz, Vorbis at its own sample rate
+  const vorbis = data.indexOf("\x01vorbis", 0, "latin1");
+  const sampleRate = data.indexOf("OpusHead", 0, "latin1") >= 0 ? 48_000 : vorbis >= 0 ? data.readUInt32LE(vorbis + 12) : 0;
+  return sampleRate > 0 ? granule / sampleRate : null;
+}
+
+/**
+ * Length of a WAV, MP4/MOV/M4A or Ogg file
+ * @returns Whole seconds, or null for other formats and unreadable files
+ */
+export function mediaDurationSeconds(data: Buffer, mimeType: string): number | null {
+  try {
+    let seconds: number | null = null;
+    if (mimeType === "audio/wav") seconds = wavDuration(data);
+    else if (["video/mp4", "video/quicktime", "video/3gpp", "audio/mp4"].includes(mimeType)) seconds = mp4Duration(data);
+    else if (mimeType === "audio/ogg") seconds = oggDuration(data);
+    return seconds !== null && Number.isFinite(seconds) ? Math.round(seconds) : null;
+  } catch {
+    return null;
+  }
+}
+
+// ---- Images ----
+
+/**
+ * Dimensions and a WebP thumbnail of an image
+ * @returns null if sharp isn't installed or can't read the image
+ */
+export async function createImageThumbnail(
+  data: Buffer
+): Promise<{ dimensions: { width: number; height: number }; thumbnail: Buffer } | null> {
+  try {
+    const { default: sharp } = await import("sharp");
+    const image = sharp(data).rotate();
+    const { width, height, orientation } = await image.metadata();
+    if (!width || !height) return null;
+
+    const thumbnail = await image
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "inside", withoutEnlargement: true })
+      .webp({ quality: 70 })
+      .toBuffer();
+    // Orientations 5 to 8 are rotated a quarter turn
+    const rotated = orientation !== undefined && orientation >= 5;
+    return { dimensions: rotated ? { width: height, height: width } : { width, height }, thumbnail };
+  } catch (error) {
+    console.error("[MediaIngest] Error making thumbnail:", error);
+    return null;
+  }
+}
+
+/**
+ * Put an incoming file in media storage
+ */
+export async function storeIncomingMedia(
+  media: IncomingMedia,
+  options: { storage?: MediaStorage; now?: Date } = {}
+): Promise<MediaIngestResult> {
+  const mediaType = media.mediaType as MediaType;
+  if (!["image", "video", "audio", "document"].includes(mediaType)) {
+    return { success: false, error: `${media.mediaType} messages have no file to store`, rejected: true };
+  }
+
+  const { buffer, mimeType: dataUrlType } = decodeMediaData(media.data);
+  const limit = getMediaSizeLimit(mediaType);
+  if (buffer.length === 0) {
+    return { success: false, error: "The file is empty", rejected: true };
+  }
+  if (buffer.length > limit) {
+    return {
+      success: false,
+      error: `The ${mediaType} is ${(buffer.length / 1024 / 1024).toFixed(1)} MB, over the ${limit / 1024 / 1024} MB limit`,
+      rejected: true,
+    };
+  }
+
+  const mimeType = sniffMediaMimeType(buffer, mediaType, media.mimeType || dataUrlType);
+  if (!mimeType) {
+    return { success: false, error: `The file isn't a ${mediaType} format we accept`, rejected: true };
+  }
+
+  try {
+    const storage = options.storage || getMediaStorage();
+    const now = options.now || new Date();
+    const id = randomUUID();
+    const folder = `${now.getUTCFullYear()}/${String(now.getUTCMonth() + 1).padStart(2, "0")}`;
+
+    const fileUrl = await storage.put(`${folder}/${id}.${mediaFileExtension(mimeType)}`, buffer, mimeType);
+    const image = mediaType === "image" ? await createImageThumbnail(buffer) : null;
+    const thumbnailUrl = image ? await storage.put(`${folder}/${id}.thumb.webp`, image.thumbnail, "image/webp") : null;
+
+    return {
+      success: true,
+      media: {
+        mediaType,
+        fileUrl,
+        thumbnailUrl,
+        mimeType,
+        fileSize: buffer.length,
+        dimensions: image?.dimensions || null,
+        durationSeconds: mediaType === "audio" || mediaType === "video" ? mediaDurationSeconds(buffer, mimeType) : null,
+      },
+    };
+  } catch (error) {
+    console.error(`[MediaIngest] Error storing ${mediaType}:`, error);
+    return { success: false, error: `The ${mediaType} couldn't be stored`, rejected: false };
+  }
+}
+
+/**
+ * Columns of a media_files row for a stored file
+ */
+export function storedMediaFields(media: StoredMedia): Omit<NewMediaFile, "message_id" | "metadata"> {
+  return {
+    file_type: media.mediaType,
+    file_url: media.fileUrl,
+    thumbnail_url: media.thumbnailUrl,
+    file_size: media.fileSize,
+    mime_type: media.mimeType,
+    dimensions: media.dimensions,
+    duration_seconds: media.durationSeconds,
+  };
+}
+
+/**
+ * What is kept in messages.rich_content of a media message instead of its
+ * base64 data. media_url is also copied to messages.media_url by the
+ * extract_media_info trigger (migrations/0003_multimedia.up.sql).
+ */
+export function storedMediaContent<T extends { data?: string }>(messageContent: T, media: StoredMedia) {
+  const content = { ...messageContent };
+  delete content.data;
+  return {
+    ...content,
+    media_url: media.fileUrl,
+    media_type: media.mediaType,
+    mime_type: media.mimeType,
+    ...(media.thumbnailUrl ? { thumbnail_url: media.thumbnailUrl } : {}),
+  };
+}
+
+/**
+ * Store the media_files row of a stored file
+ * @param externalMessageId Message ID from the webhook
+ * @returns ID of the media file, or null if the message isn't stored or saving failed
+ */
+export async function saveStoredMedia(
+  adapter: DatabaseAdapterInterface,
+  externalMessageId: string,
+  media: StoredMedia,
+  metadata: Record<string, unknown> = {}
+): Promise<string | null> {
+  const message = await adapter.getMessageByExternalId(externalMessageId);
+  if (!message) {
+    console.warn(`[MediaIngest] Message ${externalMessageId} not found, media file not recorded`);
+    return null;
+  }
+
+  return adapter.addMediaFile({ message_id: message.id, ...storedMediaFields(media), metadata });
+}
@@ -1,6 +1,8 @@
 import fs from 'fs';
 import path from 'path';
 import { streamText } from "ai";
+import { createOpenAI } from "@ai-sdk/openai";
+import { ModelRef, ResolvedProvider, getModelRouter } from "./model-router";
 
 // Determine if we're in a build context to avoid initializing clients
 const isBuildContext = process.env.NODE_ENV === 'production' && 
@@ -29,7 +31,17 @@ export function getSelectedModelProvider(): string {
   }
 }
 
-// Create a text stream with the appropriate model
+// Create an AI SDK model for a model picked by the router
+export function createRoutedLanguageModel({ model, provider }: { model: ModelRef; provider: ResolvedProvider }) {
+  // Every provider speaks OpenAI-compatible chat completions (see model-router.ts)
+  return createOpenAI({
+    baseURL: provider.baseURL,
+    apiKey: provider.apiKey || "not-needed",
+    compatibility: provider.name === "openai" ? "strict" : "compatible",
+  }).chat(model.model);
+}
+
+// Create a text stream with the model routed to the reply task
 export function createModelStream(messages: any[]) {
   // During build time, return a dummy object
   if (isBuildContext) {
@@ -41,32 +53,13 @@ export function createModelStream(messages: any[]) {
 
   // For normal runtime execution
   try {
-    const provider = getSelectedModelProvider();
-    console.log(`Using model provider: ${provider}`);
-    
-    // Create a clean implementation for each provider
-    let modelProvider: any;
-    
-    switch (provider) {
-      case "anthropic":
-        // Only import and use Anthropic during runtime, not build
-        const { anthropic } = require("@ai-sdk/anthropic");
-        modelProvider = anthropic("claude-3-opus-20240229");
-        break;
-        
-      case "grok":
-        // Grok not supported in AI SDK, fall back to OpenAI
-        console.warn("Grok is not yet supported in the AI SDK, falling back to OpenAI");
-        const { openai: openaiGrok } = require("@ai-sdk/openai");
-        modelProvider = openaiGrok("gpt-4");
-        break;
-        
-      case "openai":
-      default:
-        const { openai } = require("@ai-sdk/openai");
-        modelProvider = openai("gpt-4");
-        break;
+    // Streams can't fail over once started, so use the first configured model in the chain
+    const selected = getModelRouter().selectModel("reply");
+    if (!selected) {
+      throw new Error("No configured model for the reply task. Check data/model-settings.json and your API keys.");
     }
+    console.log(`Using model: ${selected.model.provider}:${selected.model.model}`);
+    const modelProvider = createRoutedLanguageModel(selected);
     
     // Create the stream
     const stream = streamText({
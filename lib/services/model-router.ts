@@ -0,0 +1,509 @@
+import fs from "fs";
+import path from "path";
+import OpenAI from "openai";
+import { z } from "zod/v4";
+import type {
+  ChatCompletion,
+  ChatCompletionCreateParamsNonStreaming,
+} from "openai/resources/chat/completions";
+import {
+  ModelUsageContext,
+  ModelUsageStore,
+  databaseUsageStore,
+  estimateModelCost,
+  getChatBudgetStatus,
+} from "./model-usage";
+
+/**
+ * ============= MODEL ROUTING ================
+ * Picks the model for each AI task from data/model-settings.json and fails
+ * over to the next model in the task's chain when a call errors or times out.
+ *
+ * Models are written as "provider:model", e.g. "openai:gpt-4.1" or
+ * "local:llama3.1:8b". Every provider is called through an OpenAI-compatible
+ * chat completions endpoint, so a local server (Ollama, LM Studio, vLLM...)
+ * only needs a baseURL.
+ *
+ * Token usage of every completion is recorded (see model-usage.ts), and chats
+ * over their budget are moved to a cheaper model or throttled.
+ * ============================================
+ */
+
+export const MODEL_TASKS = ["triage", "reply", "memory", "email", "summary", "moderation", "vision"] as const;
+export type ModelTask = (typeof MODEL_TASKS)[number];
+
+const settingsFilePath = path.join(process.cwd(), "data", "model-settings.json");
+
+const DEFAULT_TIMEOUT_MS = 60_000;
+
+/**
+ * Providers available without any configuration. Anthropic and xAI both
+ * serve OpenAI-compatible chat completions.
+ */
+const BUILT_IN_PROVIDERS: Record<string, ProviderSettings> = {
+  openai: { apiKeyEnv: "OPENAI_API_KEY" },
+  anthropic: { baseURL: "https://api.anthropic.com/v1/", apiKeyEnv: "ANTHROPIC_API_KEY" },
+  grok: { baseURL: "https://api.x.ai/v1", apiKeyEnv: "XAI_API_KEY" },
+};
+
+// Model used for every task when only selectedModelProvider is set
+const DEFAULT_PROVIDER_MODELS: Record<string, string> = {
+  openai: "gpt-4.1",
+  anthropic: "claude-3-opus-20240229",
+  grok: "grok-3",
+};
+
+const modelRefSchema = z
+  .string()
+  .regex(/^[a-zA-Z0-9_-]+:.+$/, 'Models must be written as "provider:model"');
+
+const providerSettingsSchema = z.object({
+  /**
+   * OpenAI-compatible API root, e.g. http://localhost:11434/v1. Defaults to OpenAI.
+   */
+  baseURL: z.url().optional(),
+  /**
+   * Environment variable holding the API key. Omit for local servers without auth.
+   */
+  apiKeyEnv: z.string().optional(),
+});
+
+const taskRouteSchema = z.object({
+  primary: modelRefSchema,
+  fallbacks: z.array(modelRefSchema).default([]),
+  timeoutMs: z.number().int().positive().optional(),
+});
+
+const modelPriceSchema = z.object({
+  /**
+   * USD per million prompt tokens
+   */
+  input: z.number().nonnegative(),
+  /**
+   * USD per million completion tokens
+   */
+  output: z.number().nonnegative(),
+});
+
+const chatBudgetSchema = z.object({
+  limitUsd: z.number().positive(),
+  period: z.enum(["day", "month"]).default("month"),
+  /**
+   * Once over budget, "downgrade" switches the chat to downgradeModel and
+   * "throttle" allows at most maxCallsPerHour model calls
+   */
+  action: z.enum(["downgrade", "throttle"]).default("downgrade"),
+  downgradeModel: modelRefSchema.default("openai:gpt-4.1-mini"),
+  maxCallsPerHour: z.number().int().nonnegative().default(0),
+});
+
+export const modelSettingsSchema = z.object({
+  selectedModelProvider: z.string().optional(),
+  providers: z.record(z.string(), providerSettingsSchema).optional(),
+  tasks: z.partialRecord(z.enum(MODEL_TASKS), taskRouteSchema).optional(),
+  pricing: z.record(z.string(), modelPriceSchema).optional(),
+  /**
+   * Model that embeds semantic memory, as "provider:model", or "hashing" for
+   * the built-in deterministic embeddings that need no API
+   */
+  embeddingModel: z.union([z.literal("hashing"), modelRefSchema]).optional(),
+  /**
+   * Model that transcribes voice notes, as "provider:model", or "local" for
+   * the built-in stand-in (see speech.ts)
+   */
+  speechToTextModel: z.union([z.literal("local"), modelRefSchema]).optional(),
+  /**
+   * Model that speaks voice replies, as "provider:model" or "local"
+   */
+  textToSpeechModel: z.union([z.literal("local"), modelRefSchema]).optional(),
+  textToSpeechVoice: z.string().optional(),
+  budgets: z
+    .object({
+      /**
+       * Budget for chats without their own entry
+       */
+      defaultChat: chatBudgetSchema.optional(),
+      /**
+       * Budgets by external thread ID
+       */
+      chats: z.record(z.string(), chatBudgetSchema).optional(),
+    })
+    .optional(),
+});
+
+export type ProviderSettings = z.infer<typeof providerSettingsSchema>;
+export type TaskRoute = z.infer<typeof taskRouteSchema>;
+export type ModelSettings = z.infer<typeof modelSettingsSchema>;
+export type ModelPrice = z.infer<typeof modelPriceSchema>;
+export type ChatBudget = z.infer<typeof chatBudgetSchema>;
+
+export interface ModelRef {
+  provider: string;
+  model: string;
+}
+
+/**
+ * A provider with its settings resolved against the environment
+ */
+export interface ResolvedProvider {
+  name: string;
+  baseURL?: string;
+  apiKey?: string;
+}
+
+export type CompletionFunction = (
+  body: ChatCompletionCreateParamsNonStreaming,
+  options: { signal: AbortSignal }
+) => Promise<ChatCompletion>;
+
+export interface ModelAttemptError {
+  model: string;
+  error: string;
+}
+
+/**
+ * Thrown when every model in a task's chain failed or was unavailable
+ */
+export class ModelRoutingError extends Error {
+  readonly task: ModelTask;
+  readonly attempts: ModelAttemptError[];
+
+  constructor(task: ModelTask, attempts: ModelAttemptError[]) {
+    super(
+      `All models failed for ${task}: ${attempts.map((a) => `${a.model} (${a.error})`).join("; ")}`
+    );
+    this.name = "ModelRoutingError";
+    this.task = task;
+    this.attempts = attempts;
+  }
+}
+
+/**
+ * Thrown when a throttled chat is over its budget and hourly call allowance
+ */
+export class ModelBudgetExceededError extends Error {
+  readonly task: ModelTask;
+  readonly chatId: string;
+
+  constructor(task: ModelTask, chatId: string, spentUsd: number, limitUsd: number) {
+    super(
+      `Chat ${chatId} is over its model budget ($${spentUsd.toFixed(4)} of $${limitUsd.toFixed(2)}), skipping ${task}`
+    );
+    this.name = "ModelBudgetExceededError";
+    this.task = task;
+    this.chatId = chatId;
+  }
+}
+
+export function parseModelRef(ref: string): ModelRef {
+  const separator = ref.indexOf(":");
+  if (separator <= 0) {
+    return { provider: "openai", model: ref };
+  }
+  return { provider: ref.slice(0, separator), model: ref.slice(separator + 1) };
+}
+
+export function formatModelRef(ref: ModelRef): string {
+  return `${ref.provider}:${ref.model}`;
+}
+
+/**
+ * Read data/model-settings.json, falling back to defaults if it is missing or invalid
+ */
+export function loadModelSettings(): ModelSettings {
+  try {
+    if (!fs.existsSync(settingsFilePath)) return {};
+
+    const result = modelSettingsSchema.safeParse(JSON.parse(fs.readFileSync(settingsFilePath, "utf-8")));
+    if (!result.success) {
+      console.error("[ModelRouter] Invalid model-settings.json, using defaults:", result.error.message);
+      return {};
+    }
+    return result.data;
+  } catch (error) {
+    console.error("[ModelRouter] Error loading model settings:", error);
+    return {};
+  }
+}
+
+/**
+ * Ordered models to try for a task. Tasks without a route use the selected
+ * provider's default model, then OpenAI.
+ */
+export function getTaskModelChain(settings: ModelSettings, task: ModelTask): ModelRef[] {
+  const route = settings.tasks?.[task];
+  const refs = route
+    ? [route.primary, ...route.fallbacks]
+    : [
+        `${settings.selectedModelProvider || process.env.SELECTED_MODEL_PROVIDER || "openai"}:`,
+        "openai:",
+      ];
+
+  const chain: ModelRef[] = [];
+  for (const ref of refs) {
+    const parsed = parseModelRef(ref);
+    // "provider:" means the provider's default model
+    if (!parsed.model) {
+      const model = DEFAULT_PROVIDER_MODELS[parsed.provider];
+      if (!model) continue;
+      parsed.model = model;
+    }
+    if (!chain.some((m) => formatModelRef(m) === formatModelRef(parsed))) {
+      chain.push(parsed);
+    }
+  }
+  return chain;
+}
+
+/**
+ * Resolve a provider's base URL and API key
+ * @returns null when the provider is unknown or its API key isn't set
+ */
+export function resolveProvider(settings: ModelSettings, name: string): ResolvedProvider | null {
+  const provider = { ...BUILT_IN_PROVIDERS[name], ...settings.providers?.[name] };
+  if (!BUILT_IN_PROVIDERS[name] && !settings.providers?.[name]) return null;
+
+  if (provider.apiKeyEnv) {
+    const apiKey = process.env[provider.apiKeyEnv];
+    if (!apiKey) return null;
+    return { name, baseURL: provider.baseURL, apiKey };
+  }
+  return { name, baseURL: provider.baseURL };
+}
+
+function defaultCompletionFunction(provider: ResolvedProvider): CompletionFunction {
+  const client = new OpenAI({
+    baseURL: provider.baseURL,
+    // Local servers without auth still need a non-empty key for the SDK
+    apiKey: provider.apiKey || "not-needed",
+    // The fallback chain takes the place of SDK retries
+    maxRetries: 0,
+  });
+  return (body, options) => client.chat.completions.create(body, options);
+}
+
+export interface ModelRouterOptions {
+  loadSettings?: () => ModelSettings;
+  createCompletionFunction?: (provider: ResolvedProvider) => CompletionFunction;
+  /**
+   * Where usage is recorded and budgets are read from, null to disable both
+   */
+  usageStore?: ModelUsageStore | null;
+}
+
+/**
+ * Sends chat completions to the models configured for each task, in order,
+ * until one succeeds
+ */
+export class ModelRouter {
+  private loadSettings: () => ModelSettings;
+  private createCompletionFunction: (provider: ResolvedProvider) => CompletionFunction;
+  private usageStore: ModelUsageStore | null;
+  private clients = new Map<string, CompletionFunction>();
+
+  constructor(options: ModelRouterOptions = {}) {
+    this.loadSettings = options.loadSettings || loadModelSettings;
+    this.createCompletionFunction = options.createCompletionFunction || defaultCompletionFunction;
+    this.usageStore = options.usageStore === undefined ? databaseUsageStore : options.usageStore;
+  }
+
+  /**
+   * Create a chat completion for a task
+   * @param task Which task route to use
+   * @param body Completion request without the model
+   * @param context Chat and user the call is made for, used for usage and budgets
+   * @returns The completion and the model that produced it
+   */
+  async createChatCompletion(
+    task: ModelTask,
+    body: Omit<ChatCompletionCreateParamsNonStreaming, "model">,
+    context: ModelUsageContext = {}
+  ): Promise<{ completion: ChatCompletion; model: ModelRef }> {
+    const settings = this.loadSettings();
+    const timeoutMs = settings.tasks?.[task]?.timeoutMs || DEFAULT_TIMEOUT_MS;
+    const attempts: ModelAttemptError[] = [];
+
+    for (const model of await this.getBudgetedModelChain(settings, task, context)) {
+      const modelName = formatModelRef(model);
+      const provider = resolveProvider(settings, model.provider);
+      if (!provider) {
+        attempts.push({ model: modelName, error: "provider not configured" });
+        continue;
+      }
+
+      try {
+        const completion = await this.withTimeout(timeoutMs, (signal) =>
+          this.getCompletionFunction(provider)({ ...body, model: model.model }, { signal })
+        );
+        if (attempts.length > 0) {
+          console.warn(`[ModelRouter] ${task} served by fallback ${modelName}`);
+        }
+        if (completion.usage) {
+          await this.recordUsage(settings, task, modelName, completion.usage, context);
+        }
+        return { completion, model };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`[ModelRouter] ${task} failed on ${modelName}: ${message}`);
+        attempts.push({ model: modelName, error: message });
+      }
+    }
+
+    throw new ModelRoutingError(task, attempts);
+  }
+
+  /**
+   * First model in a task's chain whose provider is configured, for callers
+   * like streaming that can't fail over mid-request
+   */
+  selectModel(task: ModelTask): { model: ModelRef; provider: ResolvedProvider } | null {
+    const settings = this.loadSettings();
+    for (const model of getTaskModelChain(settings, task)) {
+      const provider = resolveProvider(settings, model.provider);
+      if (provider) return { model, provider };
+    }
+    return null;
+  }
+
+  /**
+   * Like selectModel, but checks the chat's budget first so streamed replies
+   * are downgraded or throttled like completions
+   * @throws ModelBudgetExceededError when a throttled chat is out of calls
+   */
+  async selectBudgetedModel(
+    task: ModelTask,
+    context: ModelUsageContext = {}
+  ): Promise<{ model: ModelRef; provider: ResolvedProvider } | null> {
+    const settings = this.loadSettings();
+    for (const model of await this.getBudgetedModelChain(settings, task, context)) {
+      const provider = resolveProvider(settings, model.provider);
+      if (provider) return { model, provider };
+    }
+    return null;
+  }
+
+  /**
+   * Record the usage of a streamed completion, reported once the stream finishes
+   */
+  async recordStreamUsage(
+    task: ModelTask,
+    model: ModelRef,
+    usage: { promptTokens: number; completionTokens: number },
+    context: ModelUsageContext = {}
+  ): Promise<void> {
+    const { promptTokens, completionTokens } = usage;
+    // Providers that don't report usage leave the counts as NaN
+    if (!Number.isFinite(promptTokens) || !Number.isFinite(completionTokens)) return;
+
+    await this.recordUsage(
+      this.loadSettings(),
+      task,
+      formatModelRef(model),
+      { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens },
+      context
+    );
+  }
+
+  /**
+   * The task's model chain, adjusted for the chat's budget
+   * @throws ModelBudgetExceededError when a throttled chat is out of calls
+   */
+  private async getBudgetedModelChain(
+    settings: ModelSettings,
+    task: ModelTask,
+    context: ModelUsageContext
+  ): Promise<ModelRef[]> {
+    const chain = getTaskModelChain(settings, task);
+    if (!context.chatId || !this.usageStore) return chain;
+
+    const status = await getChatBudgetStatus(settings, context.chatId, this.usageStore);
+    if (!status?.exceeded) return chain;
+
+    const { budget, spentUsd } = status;
+    if (budget.action === "downgrade") {
+      console.warn(`[ModelRouter] Chat ${context.chatId} is over budget, using ${budget.downgradeModel} for ${task}`);
+      return [parseModelRef(budget.downgradeModel)];
+    }
+
+    if (status.callsLastHour >= budget.maxCallsPerHour) {
+      throw new ModelBudgetExceededError(task, context.chatId, spentUsd, budget.limitUsd);
+    }
+    return chain;
+  }
+
+  private async recordUsage(
+    settings: ModelSettings,
+    task: ModelTask,
+    model: string,
+    tokens: { prompt_tokens: number; completion_tokens: number; total_tokens: number },
+    context: ModelUsageContext
+  ): Promise<void> {
+    if (!this.usageStore) return;
+
+    const { prompt_tokens, completion_tokens, total_tokens } = tokens;
+    try {
+      await this.usageStore.record({
+        task,
+        model,
+        chat_id: context.chatId || null,
+        user_id: context.userId || null,
+        prompt_tokens,
+        completion_tokens,
+        total_tokens,
+        cost_usd: estimateModelCost(settings, model, prompt_tokens, completion_tokens),
+      });
+    } catch (error) {
+      // Losing a usage record shouldn't lose the reply
+      console.error(`[ModelRouter] Error recording ${task} usage:`, error);
+    }
+  }
+
+  private getCompletionFunction(provider: ResolvedProvider): CompletionFunction {
+    const key = `${provider.name}|${provider.baseURL || ""}|${provider.apiKey || ""}`;
+    let fn = this.clients.get(key);
+    if (!fn) {
+      fn = this.createCompletionFunction(provider);
+      this.clients.set(key, fn);
+    }
+    return fn;
+  }
+
+  private async withTimeout<T>(timeoutMs: number, fn: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new Error(`timed out after ${timeoutMs}ms`));
+      }, timeoutMs);
+    });
+
+    try {
+      return await Promise.race([fn(controller.signal), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+let defaultRouter: ModelRouter | null = null;
+
+export function getModelRouter(): ModelRouter {
+  if (!defaultRouter) {
+    defaultRouter = new ModelRouter();
+  }
+  return defaultRouter;
+}
+
+/**
+ * Create a chat completion for a task with the default router
+ * @param context Chat and user the call is made for, used for usage and budgets
+ */
+export async function createTaskCompletion(
+  task: ModelTask,
+  body: Omit<ChatCompletionCreateParamsNonStreaming, "model">,
+  context: ModelUsageContext = {}
+): Promise<ChatCompletion> {
+  const { completion } = await getModelRouter().createChatCompletion(task, body, context);
+  return completion;
+}
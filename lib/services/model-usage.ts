@@ -0,0 +1,215 @@
+import { getInitializedAdapter, isDatabaseConfigured } from "../supabase/config";
+import type { ModelUsageFilter, ModelUsageRecord } from "../interfaces/database-adapter";
+import type { ChatBudget, ModelPrice, ModelSettings } from "./model-router";
+
+/**
+ * ============= MODEL USAGE ================
+ * Token and cost accounting for model calls. The model router records the
+ * usage of every completion against the chat and user it was made for, and
+ * checks per-chat budgets (the "budgets" section of data/model-settings.json)
+ * before calling a model.
+ *
+ * Prices are USD per million tokens. Override or add models with the
+ * "pricing" section, keyed by "provider:model" or the bare model name.
+ * ==========================================
+ */
+
+export const DEFAULT_MODEL_PRICING: Record<string, ModelPrice> = {
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "claude-3-opus-20240229": { input: 15, output: 75 },
+  "claude-3-5-sonnet-20241022": { input: 3, output: 15 },
+  "claude-3-5-haiku-20241022": { input: 0.8, output: 4 },
+  "grok-3": { input: 3, output: 15 },
+  "grok-3-mini": { input: 0.3, output: 0.5 },
+};
+
+/**
+ * Who a model call was made for. chatId is the external thread ID.
+ */
+export interface ModelUsageContext {
+  chatId?: string;
+  userId?: string;
+}
+
+export type ModelUsageEntry = Omit<ModelUsageRecord, "id" | "created_at">;
+
+/**
+ * Where the router records usage and reads it back for budget checks
+ */
+export interface ModelUsageStore {
+  record: (usage: ModelUsageEntry) => Promise<void>;
+  list: (filter: ModelUsageFilter) => Promise<ModelUsageRecord[]>;
+}
+
+/**
+ * Usage store backed by the configured database adapter. Does nothing when
+ * no database is configured.
+ */
+export const databaseUsageStore: ModelUsageStore = {
+  async record(usage) {
+    if (!isDatabaseConfigured()) return;
+    const adapter = await getInitializedAdapter();
+    await adapter?.recordModelUsage(usage);
+  },
+  async list(filter) {
+    if (!isDatabaseConfigured()) return [];
+    const adapter = await getInitializedAdapter();
+    return adapter ? adapter.getModelUsage(filter) : [];
+  },
+};
+
+/**
+ * Price of a "provider:model" reference
+ * @returns null when the model has no known price, e.g. local models
+ */
+export function getModelPrice(settings: ModelSettings, model: string): ModelPrice | null {
+  const name = model.slice(model.indexOf(":") + 1);
+  return settings.pricing?.[model] || settings.pricing?.[name] || DEFAULT_MODEL_PRICING[name] || null;
+}
+
+/**
+ * Cost in USD of a model call, or null if the model has no known price
+ */
+export function estimateModelCost(
+  settings: ModelSettings,
+  model: string,
+  promptTokens: number,
+  completionTokens: number
+): number | null {
+  const price = getModelPrice(settings, model);
+  if (!price) return null;
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Recorded cost of a usage record, estimated from current prices for records
+ * stored without one
+ */
+export function usageCost(settings: ModelSettings, usage: ModelUsageRecord): number {
+  return (
+    usage.cost_usd ??
+    estimateModelCost(settings, usage.model, usage.prompt_tokens, usage.completion_tokens) ??
+    0
+  );
+}
+
+/**
+ * The budget that applies to a chat: its own, or the default chat budget
+ */
+export function getChatBudget(settings: ModelSettings, chatId: string): ChatBudget | null {
+  return settings.budgets?.chats?.[chatId] || settings.budgets?.defaultChat || null;
+}
+
+/**
+ * Start of the budget period containing `now`, in UTC
+ */
+export function budgetPeriodStart(period: ChatBudget["period"], now: Date = new Date()): Date {
+  return period === "day"
+    ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+export interface ChatBudgetStatus {
+  budget: ChatBudget;
+  spentUsd: number;
+  exceeded: boolean;
+  /**
+   * Model calls made for the chat in the last hour of the current period
+   */
+  callsLastHour: number;
+}
+
+/**
+ * Spend against a chat's budget for the current period
+ * @returns null when no budget applies to the chat
+ */
+export async function getChatBudgetStatus(
+  settings: ModelSettings,
+  chatId: string,
+  store: ModelUsageStore,
+  now: Date = new Date()
+): Promise<ChatBudgetStatus | null> {
+  const budget = getChatBudget(settings, chatId);
+  if (!budget) return null;
+
+  const usage = await store.list({ chatId, since: budgetPeriodStart(budget.period, now).toISOString() });
+  const spentUsd = usage.reduce((total, u) => total + usageCost(settings, u), 0);
+  const hourAgo = new Date(now.getTime() - 60 * 60 * 1000).toISOString();
+
+  return {
+    budget,
+    spentUsd,
+    exceeded: spentUsd >= budget.limitUsd,
+    callsLastHour: usage.filter((u) => u.created_at >= hourAgo).length,
+  };
+}
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+export interface ModelUsageSummary {
+  totals: UsageTotals;
+  /**
+   * Totals per UTC day (YYYY-MM-DD), oldest first
+   */
+  daily: (UsageTotals & { date: string })[];
+  byTask: Record<string, UsageTotals>;
+  byModel: Record<string, UsageTotals>;
+  byChat: (UsageTotals & { chatId: string })[];
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0 };
+}
+
+function addUsage(totals: UsageTotals, usage: ModelUsageRecord, cost: number) {
+  totals.calls++;
+  totals.promptTokens += usage.prompt_tokens;
+  totals.completionTokens += usage.completion_tokens;
+  totals.totalTokens += usage.total_tokens;
+  totals.costUsd += cost;
+}
+
+/**
+ * Group usage records into totals over time, per task, model and chat.
+ * Chats are sorted by cost, highest first.
+ */
+export function summarizeModelUsage(settings: ModelSettings, usage: ModelUsageRecord[]): ModelUsageSummary {
+  const totals = emptyTotals();
+  const daily = new Map<string, UsageTotals & { date: string }>();
+  const byTask: Record<string, UsageTotals> = {};
+  const byModel: Record<string, UsageTotals> = {};
+  const byChat = new Map<string, UsageTotals & { chatId: string }>();
+
+  for (const u of usage) {
+    const cost = usageCost(settings, u);
+    const date = u.created_at.slice(0, 10);
+
+    addUsage(totals, u, cost);
+    if (!daily.has(date)) daily.set(date, { date, ...emptyTotals() });
+    addUsage(daily.get(date)!, u, cost);
+    addUsage((byTask[u.task] ||= emptyTotals()), u, cost);
+    addUsage((byModel[u.model] ||= emptyTotals()), u, cost);
+    if (u.chat_id) {
+      if (!byChat.has(u.chat_id)) byChat.set(u.chat_id, { chatId: u.chat_id, ...emptyTotals() });
+      addUsage(byChat.get(u.chat_id)!, u, cost);
+    }
+  }
+
+  return {
+    totals,
+    daily: [...daily.values()].sort((a, b) => a.date.localeCompare(b.date)),
+    byTask,
+    byModel,
+    byChat: [...byChat.values()].sort((a, b) => b.costUsd - a.costUsd),
+  };
+}
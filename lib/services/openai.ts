@@ -1,13 +1,25 @@
 import { ThreadMessage } from "@/types/chat";
 import OpenAI from "openai";
+import type { ChatCompletionMessageParam } from "openai/resources/chat/completions";
 import { getSystemPrompt } from "../agent/system-prompt";
 import { generateRichChatContext } from "./chat-context";
 import {
-  isSupabaseConfigured,
+  isDatabaseConfigured,
   getInitializedAdapter,
 } from "../supabase/config";
-import { SupabaseAdapter } from "../supabase/adapter";
 import { buildSystemPrompt, getServiceContextMessage } from './prompt-builder';
+import {
+  MessageIntent,
+  TriageError,
+  TriageModelClient,
+  getTriageToolDefinitions,
+  parseTriageToolCall,
+} from "../ai-triage/triage-tools";
+import { getTriageFlows } from "../ai-triage/flow-registry";
+import { ModelTask, createTaskCompletion } from "./model-router";
+import type { ModelUsageContext } from "./model-usage";
+import type { ProjectRecord } from "../interfaces/database-adapter";
+import { RecalledMemory, recallMemoriesForThread } from "../agent-memory/semantic-memory";
 
 /**
  * Normalizes a phone number by removing '+' and spaces.
@@ -95,31 +107,53 @@ export function formatMessagesForOpenAI<
   return formattedMessages;
 }
 
+const MAX_TRIAGE_ATTEMPTS = 3;
+
+/**
+ * Chat and user to record a model call against: the thread and its most
+ * recent non-agent sender
+ */
+function usageContext(threadMessages: ThreadMessage[]): ModelUsageContext {
+  const latestSender = [...threadMessages]
+    .reverse()
+    .find((msg) => msg.sender_number !== process.env.A1BASE_AGENT_NUMBER);
+  return { chatId: threadMessages[0]?.thread_id, userId: latestSender?.sender_number };
+}
+
+/**
+ * Triage model client using the models routed to the triage task
+ * (data/model-settings.json)
+ */
+export const routedTriageClient: TriageModelClient = {
+  name: "routed:triage",
+  async callTool({ messages, tools, conversation }) {
+    const completion = await createTaskCompletion(
+      "triage",
+      {
+        messages,
+        tools,
+        tool_choice: "required",
+        parallel_tool_calls: false,
+      },
+      usageContext(conversation)
+    );
+    return completion.choices[0]?.message?.tool_calls?.[0] ?? null;
+  },
+};
+
 /**
  * ============= OPENAI CALL TO TRIAGE THE MESSAGE INTENT ================
- * This function returns one of the following responseTypes:
- *  - simpleResponse: Provide a simple response
- *  - onboardingFlow: Handle onboarding flow
- *  - projectFlow: Handle all project-related actions
- *  - noReply: No reply needed
+ * Asks the model to call one of the registered triage flows
+ * (lib/ai-triage/flow-registry.ts) as a tool.
+ * Invalid tool calls are sent back to the model with the validation errors
+ * and retried. Throws a TriageError if no valid call is made.
  * =======================================================================
  */
 export async function triageMessageIntent(
   threadMessages: ThreadMessage[],
-  projects: any[] = []
-): Promise<{
-  responseType: "simpleResponse" | "onboardingFlow" | "projectFlow" | "noReply" | "emailReportFlow";
-  projectAction?: "create" | "update" | "complete" | "reference";
-  projectName?: string;
-  projectDescription?: string;
-  updates?: Record<string, any>;
-  attributes?: Record<string, any>;
-  attributeUpdates?: Record<string, any>;
-  replaceAttributes?: boolean;
-  reportAction?: "request_on_demand" | "request_scheduled" | "cancel_scheduled";
-  reportFrequency?: "daily" | "weekly" | "monthly";
-  reportTime?: string;
-}> {
+  projects: ProjectRecord[] = [],
+  client: TriageModelClient = routedTriageClient
+): Promise<MessageIntent> {
   // Convert thread messages to OpenAI chat format
   const conversationContext = threadMessages.map((message) => {
     return {
@@ -128,10 +162,6 @@ export async function triageMessageIntent(
     };
   });
 
-  // Heuristic check: if the latest message clearly contains an email address, return early
-  const latestMessage =
-    threadMessages[threadMessages.length - 1]?.content.toLowerCase() || "";
-    
   // Extract existing project names to provide context
   const existingProjects = projects.map(p => ({
     name: p.name,
@@ -144,126 +174,75 @@ export async function triageMessageIntent(
     ? `\nExisting projects in this chat:\n${JSON.stringify(existingProjects, null, 2)}\n` 
     : "\nNo existing projects in this chat.\n";
 
+  const flows = getTriageFlows();
+  const flowRules = flows.map((flow) => `- "${flow.name}": ${flow.description}`).join("\n");
+  const flowInstructions = flows
+    .filter((flow) => flow.instructions)
+    .map((flow) => flow.instructions)
+    .join("\n\n");
+
   const triagePrompt = `
-Based on the conversation and the context of the recent messages, analyze the user's intent and respond with a JSON object:
-- "responseType": one of ["simpleResponse", "projectFlow", "noReply", "onboardingFlow", "emailReportFlow"]
-- Additional fields based on intent.
+Based on the conversation and the context of the recent messages, analyze the user's intent and call exactly one of the tools provided.
 
 Rules:
-- "projectFlow": Used for ALL project-related actions. Use this for any message related to creating, updating, completing, or referencing projects.
-- "emailReportFlow": Used for email report requests - both on-demand and scheduled.
-- "onboardingFlow": Related to user onboarding.
-- "simpleResponse": Default for all other messages including greetings, questions, statements, or any message from a human user that could benefit from a response.
-
-For "projectFlow" responses, include these additional fields:
-- "projectAction": one of ["create", "update", "complete", "reference"]
-- "projectName": Name of the project (required for "create", optional for others if context makes it clear)
-- "projectDescription": Description of the project (for "create")
-
-For "emailReportFlow" responses, include these additional fields:
-- "reportAction": one of ["request_on_demand", "request_scheduled", "cancel_scheduled"]
-- "reportFrequency": one of ["daily", "weekly", "monthly"] (for scheduled reports)
-- "reportTime": Time in "HH:MM" format (for scheduled reports, optional)
-
-Email report patterns to recognize:
-- On-demand: "send me a report now", "email me my project status", "I want a report", "send report"
-- Scheduled: "send me daily reports", "email me weekly updates", "I want monthly reports", "schedule reports"
-- Cancel: "stop sending reports", "cancel email reports", "unsubscribe from reports"
-
-Additional context-specific fields:
-- For "create": include "attributes" (a JSON object with all project properties beyond name and description)
-- For "update": if updating basic info, include "updates" (e.g., {"description": "new desc"})
-- For updating properties: include "attributeUpdates" (e.g., {"status": "in progress", "priority": "high"}), "replaceAttributes" (boolean, default false)
-
-${existingProjectsContext}
-
-IMPORTANT DATABASE CONTEXT: In the projects table, the field "is_live" indicates project status:
-- is_live=true means the project is ACTIVE and ongoing
-- is_live=false means the project is COMPLETED
-
-When a user says they've "completed" or "finished" a project, you should set projectAction to "complete" which will update is_live to false.
-
-CRITICAL INSTRUCTION: When analyzing the message, ALWAYS check if it refers to an existing project by comparing project names. If there's ANY similarity between the mentioned project name and an existing project (especially if the project is marked as is_live=true), you MUST set projectAction to "update" rather than "create". Even if the user says "track a project" or uses creation language, if the project name is similar to an existing one, interpret it as an update request.
-
-For attributes, you can create or modify any data structure that seems appropriate, using nested objects if needed.
-Examples: 
-- {"status": "in_progress", "priority": "high"}
-- {"members": ["John", "Mary"], "tasks": [{"title": "Research", "status": "done"}, {"title": "Implementation", "status": "pending"}]}
-
-Return valid JSON.
-`;
-
-  console.log("OpenaAI completion happening at triageMessageIntent");
-  // Use a faster model for triage to reduce latency
-  // Explicitly type the messages array for OpenAI
-  type OpenAIMessage = { role: "system" | "user" | "assistant"; content: string };
-  const messages: OpenAIMessage[] = [
+${flowRules}
+
+${flowInstructions}
+${existingProjectsContext}`;
+
+  console.log(`Triage completion happening at triageMessageIntent (${client.name})`);
+  const messages: ChatCompletionMessageParam[] = [
     { role: "system", content: triagePrompt },
-    ...conversationContext as OpenAIMessage[],
+    ...conversationContext,
   ];
-  
-  const completion = await getOpenAI().chat.completions.create({
-    model: "gpt-4.1",
-    messages,
-  });
+  const tools = getTriageToolDefinitions(flows);
+  let lastError = "";
+
+  for (let attempt = 1; attempt <= MAX_TRIAGE_ATTEMPTS; attempt++) {
+    const toolCall = await client.callTool({
+      messages,
+      tools,
+      conversation: threadMessages,
+      projects,
+    });
 
-  const content = completion.choices[0]?.message?.content || "";
-  // console.log removed
-  // Parse response and validate response type
-  try {
-    const parsed = JSON.parse(content);
-    const validTypes = [
-      "simpleResponse", 
-      "onboardingFlow",
-      "projectFlow",
-      "noReply",
-      "emailReportFlow",
-    ];
-
-    console.log("[TRIAGE DEBUG] Raw triage result:", parsed);
-    // console.log("[TRIAGE DEBUG] Existing projects context provided:", existingProjects.map(p => ({ name: p.name, is_live: p.is_live })));
-
-    if (validTypes.includes(parsed.responseType)) {
-      // Special handling for project flow
-      if (parsed.responseType === "projectFlow") {
-        // Create the consolidated project flow response
-        const projectFlowResponse = {
-          responseType: "projectFlow" as const,
-          projectAction: parsed.projectAction as "create" | "update" | "complete" | "reference" | undefined,
-          projectName: parsed.projectName,
-          projectDescription: parsed.projectDescription,
-          updates: parsed.updates,
-          attributes: parsed.attributes,
-          attributeUpdates: parsed.attributeUpdates,
-          replaceAttributes: parsed.replaceAttributes === true
-        };
-        
-        console.log("[TRIAGE DEBUG] Final project flow response:", projectFlowResponse);
-        return projectFlowResponse;
-      } else if (parsed.responseType === "emailReportFlow") {
-        // Handle email report flow
-        const emailReportResponse = {
-          responseType: "emailReportFlow" as const,
-          reportAction: parsed.reportAction as "request_on_demand" | "request_scheduled" | "cancel_scheduled" | undefined,
-          reportFrequency: parsed.reportFrequency as "daily" | "weekly" | "monthly" | undefined,
-          reportTime: parsed.reportTime
-        };
-        
-        console.log("[TRIAGE DEBUG] Final email report flow response:", emailReportResponse);
-        return emailReportResponse;
-      } else {
-        // For non-project flows, just return the response type
-        console.log("[TRIAGE DEBUG] Non-project response type:", parsed.responseType);
-        return { responseType: parsed.responseType };
-      }
+    if (!toolCall) {
+      lastError = "No tool was called";
+      console.warn(`[TRIAGE] Attempt ${attempt}/${MAX_TRIAGE_ATTEMPTS}: ${lastError}`);
+      messages.push({
+        role: "system",
+        content: "You must respond by calling exactly one of the provided tools.",
+      });
+      continue;
     }
 
-    return { responseType: "simpleResponse" };
-  } catch (error) {
-    console.error("Error parsing triage response:", error);
-    // Default to simple response if parsing fails
-    return { responseType: "simpleResponse" };
+    const result = parseTriageToolCall(toolCall.function.name, toolCall.function.arguments);
+    if (result.success) {
+      console.log("[TRIAGE DEBUG] Triage result:", result.intent);
+      return result.intent;
+    }
+
+    lastError = `${toolCall.function.name}: ${result.error}`;
+    console.warn(
+      `[TRIAGE] Attempt ${attempt}/${MAX_TRIAGE_ATTEMPTS}: invalid tool call ${lastError}`,
+      toolCall.function.arguments
+    );
+
+    // Send the validation errors back so the model can correct its call
+    messages.push(
+      { role: "assistant", content: null, tool_calls: [toolCall] },
+      {
+        role: "tool",
+        tool_call_id: toolCall.id,
+        content: `Invalid arguments: ${result.error}. Call a tool again with corrected arguments.`,
+      }
+    );
   }
+
+  throw new TriageError(
+    `Triage failed after ${MAX_TRIAGE_ATTEMPTS} attempts: ${lastError}`,
+    MAX_TRIAGE_ATTEMPTS
+  );
 }
 
 /**
@@ -317,7 +296,8 @@ export async function generateAgentResponse(
   threadType: string = "individual",
   participants: any[] = [],
   projects: any[] = [],
-  service?: string // Added service parameter
+  service?: string, // Added service parameter
+  task: ModelTask = service === "email" ? "email" : "reply"
 ): Promise<string> {
   // Try to extract the user's name from the latest message
   const userName = threadMessages.find(
@@ -339,11 +319,21 @@ export async function generateAgentResponse(
   // Build service-aware system prompt
   const baseSystemPrompt = buildSystemPrompt(systemPromptContent, service || 'whatsapp');
   
+  // Recall memories relevant to the latest message
+  let memories: RecalledMemory[] = [];
+  if (isDatabaseConfigured() && threadMessages.length > 0) {
+    const adapter = await getInitializedAdapter();
+    if (adapter) {
+      memories = await recallMemoriesForThread(adapter, threadMessages, threadType);
+    }
+  }
+
   const richContext = generateRichChatContext(
     threadType,
     threadMessages,
     participants,
-    projects
+    projects,
+    memories
   );
   // Combine the base system prompt with the rich context
   let enhancedSystemPrompt = baseSystemPrompt + richContext;
@@ -354,7 +344,7 @@ export async function generateAgentResponse(
   }
 
   // --- BEGIN MODIFICATION: Fetch and add Supabase onboarding data ---
-  if (isSupabaseConfigured()) {
+  if (isDatabaseConfigured()) {
     const supabaseAdapter = getInitializedAdapter();
     if (supabaseAdapter) {
       let onboardingData: Record<string, any> | null = null;
@@ -467,14 +457,15 @@ export async function generateAgentResponse(
     conversationForOpenAI.push(getServiceContextMessage('sms'));
   }
 
-  console.log("OpenAI completion happening at generateAgentResponse function");
+  console.log(`Completion happening at generateAgentResponse function (${task})`);
 
   console.log("conversationForOpenAI", conversationForOpenAI);
 
-  const completion = await getOpenAI().chat.completions.create({
-    model: "gpt-4.1",
-    messages: conversationForOpenAI,
-  });
+  const completion = await createTaskCompletion(
+    task,
+    { messages: conversationForOpenAI },
+    usageContext(threadMessages)
+  );
 
   console.log("conversationForOpenAI completion", completion);
 
@@ -0,0 +1,382 @@
+import type {
+  ChatRecord,
+  DatabaseAdapterInterface,
+  ProjectRecord,
+  ProjectTaskRecord,
+  UserRecord,
+} from "../interfaces/database-adapter";
+import { TaskCounts, countTasks, formatDueDate } from "./project-tasks";
+
+/**
+ * ============= PROJECT DASHBOARD ================
+ * Projects across all chats for the /projects pages: summaries with their
+ * chat, people and task counts, the detail of one project with its timeline,
+ * and edits made on the dashboard. Edits are recorded in the project's
+ * history and events like edits made in chat, and described in a message the
+ * project's chat can be notified with.
+ * ================================================
+ */
+
+export type ProjectStatusFilter = "live" | "completed" | "all";
+
+export interface ProjectPerson {
+  id: string;
+  name: string;
+}
+
+export interface ProjectChatSummary {
+  id: string;
+  name: string;
+  type: string;
+  service: string | null;
+}
+
+export interface ProjectSummary extends ProjectRecord {
+  chat: ProjectChatSummary | null;
+  // The user of an individual chat, group chat projects have no single owner
+  owner: ProjectPerson | null;
+  members: ProjectPerson[];
+  tasks: TaskCounts;
+}
+
+export interface ProjectListFilter {
+  status?: ProjectStatusFilter;
+  chatId?: string;
+  // Projects of chats this user is in
+  ownerId?: string;
+}
+
+export interface ProjectTimelineEntry {
+  id: string;
+  source: "event" | "history";
+  type: string;
+  description: string | null;
+  created_at: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface ProjectDetail {
+  project: ProjectSummary;
+  tasks: (ProjectTaskRecord & { assignee_name: string | null })[];
+  timeline: ProjectTimelineEntry[];
+}
+
+export interface ProjectEdit {
+  name?: string;
+  description?: string;
+  is_live?: boolean;
+  // Replaces all attributes
+  attributes?: Record<string, unknown>;
+}
+
+export interface TaskEdit {
+  title?: string;
+  status?: ProjectTaskRecord["status"];
+  assignee_id?: string | null;
+  due_at?: string | null;
+}
+
+export interface EditResult<T> {
+  record: T;
+  // What changed, e.g. 'marked as completed', empty if nothing did
+  changes: string[];
+}
+
+function toPerson(user: UserRecord): ProjectPerson {
+  return { id: user.id, name: user.name || user.phone_number || user.id };
+}
+
+function toChatSummary(chat: ChatRecord, members: ProjectPerson[]): ProjectChatSummary {
+  const fallback = chat.type === "individual" && members[0] ? members[0].name : chat.external_id || chat.id;
+  return { id: chat.id, name: chat.name || fallback, type: chat.type, service: chat.service };
+}
+
+function summarize(
+  project: ProjectRecord,
+  chat: ChatRecord | undefined,
+  members: ProjectPerson[],
+  tasks: ProjectTaskRecord[]
+): ProjectSummary {
+  return {
+    ...project,
+    chat: chat ? toChatSummary(chat, members) : null,
+    owner: chat?.type === "individual" ? members[0] || null : null,
+    members,
+    tasks: countTasks(tasks),
+  };
+}
+
+async function getMembers(adapter: DatabaseAdapterInterface, chatIds: string[]): Promise<Map<string, ProjectPerson[]>> {
+  const members = new Map<string, ProjectPerson[]>();
+  for (const chatId of new Set(chatIds)) {
+    members.set(chatId, (await adapter.getChatParticipants(chatId)).map(toPerson));
+  }
+  return members;
+}
+
+function byName(a: { name: string }, b: { name: string }): number {
+  return a.name.localeCompare(b.name);
+}
+
+/**
+ * Every project with its chat, people and task counts, newest first, and the
+ * chats and people projects can be filtered by
+ */
+export async function listProjectSummaries(
+  adapter: DatabaseAdapterInterface,
+  filter: ProjectListFilter = {}
+): Promise<{ projects: ProjectSummary[]; chats: ProjectChatSummary[]; owners: ProjectPerson[] }> {
+  const projects = await adapter.getAllProjects();
+  const chats = new Map((await adapter.getAllChats()).map((chat) => [chat.id, chat]));
+  const chatIds = projects.map((project) => project.chat_id).filter((id): id is string => !!id && chats.has(id));
+  const members = await getMembers(adapter, chatIds);
+  const tasks = await adapter.getProjectTasks({ projectIds: projects.map((project) => project.id) });
+
+  const summaries = projects.map((project) =>
+    summarize(
+      project,
+      project.chat_id ? chats.get(project.chat_id) : undefined,
+      (project.chat_id && members.get(project.chat_id)) || [],
+      tasks.filter((task) => task.project_id === project.id)
+    )
+  );
+
+  const chatOptions = new Map<string, ProjectChatSummary>();
+  const ownerOptions = new Map<string, ProjectPerson>();
+  for (const summary of summaries) {
+    if (summary.chat) chatOptions.set(summary.chat.id, summary.chat);
+    summary.members.forEach((member) => ownerOptions.set(member.id, member));
+  }
+
+  const status = filter.status || "all";
+  return {
+    projects: summaries.filter(
+      (summary) =>
+        (status === "all" || summary.is_live === (status === "live")) &&
+        (!filter.chatId || summary.chat_id === filter.chatId) &&
+        (!filter.ownerId || summary.members.some((member) => member.id === filter.ownerId))
+    ),
+    chats: [...chatOptions.values()].sort(byName),
+    owners: [...ownerOptions.values()].sort(byName),
+  };
+}
+
+/**
+ * A project with its tasks and the timeline of its events and history, newest first
+ * @returns null if the project wasn't found
+ */
+export async function getProjectDetail(
+  adapter: DatabaseAdapterInterface,
+  projectId: string
+): Promise<ProjectDetail | null> {
+  const project = await adapter.getProjectById(projectId);
+  if (!project) return null;
+
+  const chat = project.chat_id ? (await adapter.getAllChats()).find((c) => c.id === project.chat_id) : undefined;
+  const members = chat ? (await getMembers(adapter, [chat.id])).get(chat.id) || [] : [];
+  const [tasks, events, history] = await Promise.all([
+    adapter.getProjectTasks({ projectIds: [projectId] }),
+    adapter.getProjectEvents([projectId]),
+    adapter.getProjectHistory(projectId),
+  ]);
+
+  const names = new Map(members.map((member) => [member.id, member.name]));
+  for (const task of tasks) {
+    if (task.assignee_id && !names.has(task.assignee_id)) {
+      const user = await adapter.getUserById(task.assignee_id);
+      if (user) names.set(user.id, toPerson(user).name);
+    }
+  }
+
+  const timeline: ProjectTimelineEntry[] = [
+    ...events.map((event) => ({
+      id: event.id,
+      source: "event" as const,
+      type: event.event_type,
+      description: event.description,
+      created_at: event.created_at,
+      metadata: event.metadata,
+    })),
+    ...history.map((entry) => ({
+      id: entry.id,
+      source: "history" as const,
+      type: entry.event_type,
+      description: entry.details,
+      created_at: entry.created_at,
+    })),
+  ]
+    // Both come oldest first, reversing keeps entries made in the same millisecond newest first
+    .reverse()
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+
+  return {
+    project: summarize(project, chat, members, tasks),
+    tasks: tasks.map((task) => ({ ...task, assignee_name: (task.assignee_id && names.get(task.assignee_id)) || null })),
+    timeline,
+  };
+}
+
+/**
+ * Apply an edit made on the dashboard and record it in the project's history
+ * @returns The updated project and what changed, or null if it wasn't found or couldn't be saved
+ */
+export async function editProject(
+  adapter: DatabaseAdapterInterface,
+  projectId: string,
+  edit: ProjectEdit
+): Promise<EditResult<ProjectRecord> | null> {
+  const project = await adapter.getProjectById(projectId);
+  if (!project) return null;
+
+  const updates: ProjectEdit = {};
+  const changes: string[] = [];
+  if (edit.name !== undefined && edit.name.trim() && edit.name.trim() !== project.name) {
+    updates.name = edit.name.trim();
+    changes.push(`renamed to "${updates.name}"`);
+  }
+  if (edit.description !== undefined && edit.description.trim() !== (project.description || "")) {
+    updates.description = edit.description.trim();
+    changes.push("description updated");
+  }
+  if (edit.is_live !== undefined && edit.is_live !== project.is_live) {
+    updates.is_live = edit.is_live;
+    changes.push(edit.is_live ? "reopened" : "marked as completed");
+  }
+  const changedAttributes = edit.attributes
+    ? [...new Set([...Object.keys(project.attributes || {}), ...Object.keys(edit.attributes)])].filter(
+        (key) => JSON.stringify(project.attributes?.[key]) !== JSON.stringify(edit.attributes![key])
+      )
+    : [];
+  if (changedAttributes.length > 0) {
+    changes.push(`${changedAttributes.join(", ")} updated`);
+  }
+  if (changes.length === 0) return { record: project, changes };
+
+  if (Object.keys(updates).length > 0 && !(await adapter.updateProject(projectId, updates))) return null;
+  if (changedAttributes.length > 0 && !(await adapter.updateProjectAttributes(projectId, edit.attributes!, true))) {
+    return null;
+  }
+
+  const eventType =
+    updates.is_live === false ? "project_completed" : updates.is_live === true ? "project_reopened" : "project_updated";
+  await adapter.logProjectEvent(projectId, eventType, `Project updated from the dashboard: ${changes.join(", ")}`);
+
+  return { record: (await adapter.getProjectById(projectId)) || { ...project, ...updates }, changes };
+}
+
+async function personName(adapter: DatabaseAdapterInterface, userId: string): Promise<string> {
+  const user = await adapter.getUserById(userId);
+  return user ? toPerson(user).name : "someone";
+}
+
+/**
+ * Add a task from the dashboard and record it as a project event
+ * @returns The new task, or null if it couldn't be saved
+ */
+export async function addTaskFromDashboard(
+  adapter: DatabaseAdapterInterface,
+  projectId: string,
+  task: { title: string; assignee_id?: string | null; due_at?: string | null }
+): Promise<EditResult<ProjectTaskRecord> | null> {
+  const title = task.title.trim();
+  if (!title) return null;
+
+  const taskId = await adapter.createProjectTask({
+    project_id: projectId,
+    title,
+    assignee_id: task.assignee_id || null,
+    due_at: task.due_at || null,
+  });
+  const created = taskId && (await adapter.getProjectTask(taskId));
+  if (!created) return null;
+
+  const details = [
+    created.assignee_id ? `assigned to ${await personName(adapter, created.assignee_id)}` : "",
+    created.due_at ? `due ${formatDueDate(created.due_at)}` : "",
+  ].filter(Boolean);
+  const change = `task "${title}" added${details.length > 0 ? ` (${details.join(", ")})` : ""}`;
+  await adapter.addProjectEvent(projectId, "task_added", `Added the task "${title}" from the dashboard`, {
+    task_id: created.id,
+    source: "dashboard",
+  });
+  return { record: created, changes: [change] };
+}
+
+/**
+ * Apply an edit to a task made on the dashboard and record it as a project event
+ * @returns The updated task and what changed, or null if it wasn't found or couldn't be saved
+ */
+export async function editTaskFromDashboard(
+  adapter: DatabaseAdapterInterface,
+  projectId: string,
+  taskId: string,
+  edit: TaskEdit
+): Promise<EditResult<ProjectTaskRecord> | null> {
+  const task = await adapter.getProjectTask(taskId);
+  if (!task || task.project_id !== projectId) return null;
+
+  const updates: Partial<ProjectTaskRecord> = {};
+  const changes: string[] = [];
+  let eventType = "task_updated";
+  const name = `task "${task.title}"`;
+
+  if (edit.title !== undefined && edit.title.trim() && edit.title.trim() !== task.title) {
+    updates.title = edit.title.trim();
+    changes.push(`${name} renamed to "${updates.title}"`);
+  }
+  if (edit.due_at !== undefined && edit.due_at !== task.due_at) {
+    updates.due_at = edit.due_at;
+    changes.push(edit.due_at ? `${name} is now due ${formatDueDate(edit.due_at)}` : `${name} no longer has a due date`);
+    eventType = "task_rescheduled";
+  }
+  if (edit.assignee_id !== undefined && edit.assignee_id !== task.assignee_id) {
+    updates.assignee_id = edit.assignee_id;
+    changes.push(edit.assignee_id ? `${name} assigned to ${await personName(adapter, edit.assignee_id)}` : `${name} unassigned`);
+    eventType = "task_assigned";
+  }
+  if (edit.status !== undefined && edit.status !== task.status) {
+    updates.status = edit.status;
+    changes.push(edit.status === "done" ? `${name} marked as done` : `${name} reopened`);
+    eventType = edit.status === "done" ? "task_completed" : "task_reopened";
+  }
+  if (changes.length === 0) return { record: task, changes };
+
+  if (!(await adapter.updateProjectTask(taskId, updates))) return null;
+  await adapter.addProjectEvent(projectId, eventType, `Updated from the dashboard: ${changes.join(", ")}`, {
+    task_id: taskId,
+    source: "dashboard",
+    ...(updates.assignee_id ? { assignee_id: updates.assignee_id } : {}),
+    ...(updates.due_at ? { due_at: updates.due_at } : {}),
+  });
+
+  return { record: (await adapter.getProjectTask(taskId)) || { ...task, ...updates }, changes };
+}
+
+/**
+ * The message telling a project's chat about changes made on the dashboard
+ */
+export function describeDashboardChanges(projectName: string, changes: string[]): string {
+  return `Update on "${projectName}" from the projects dashboard: ${changes.join("; ")}.`;
+}
+
+/**
+ * Tell a project's chat about changes made on the dashboard
+ * @param send Posts a message into a chat
+ * @returns Whether the chat was notified
+ */
+export async function notifyProjectChat(
+  adapter: DatabaseAdapterInterface,
+  project: ProjectRecord,
+  changes: string[],
+  send: (chat: ChatRecord, text: string) => Promise<boolean>
+): Promise<boolean> {
+  if (changes.length === 0 || !project.chat_id) return false;
+  const chat = (await adapter.getAllChats()).find((c) => c.id === project.chat_id);
+  if (!chat) return false;
+  try {
+    return await send(chat, describeDashboardChanges(project.name, changes));
+  } catch (error) {
+    console.error(`[ProjectDashboard] Error notifying chat ${chat.id}:`, error);
+    return false;
+  }
+}
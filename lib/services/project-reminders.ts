@@ -0,0 +1,426 @@
+import { z } from "zod/v4";
+import { addHours, differenceInCalendarDays, subHours } from "date-fns";
+import type {
+  ChatRecord,
+  DatabaseAdapterInterface,
+  ProjectEventRecord,
+  ProjectRecord,
+  ProjectTaskRecord,
+} from "../interfaces/database-adapter";
+import { byDueDate, describeTask, formatDueDate, getAssigneeNames, parseDueDate } from "./project-tasks";
+
+/**
+ * ============= PROJECT REMINDERS ================
+ * Decides which chats get a reminder about their live projects, following
+ * rules stored per chat in metadata.reminders:
+ *
+ * - Routine reminders go out at most every frequencyHours, and only for
+ *   projects nobody has touched for staleAfterHours.
+ * - Escalations go out when a task or the project's own deadline is due
+ *   within dueSoonHours or overdue, even if the project is active, and are
+ *   repeated for the same deadline at most every repeatHours.
+ * - Nothing is sent during the chat's quiet hours, in the chat's timezone.
+ *
+ * Every reminder sent is recorded as a "reminder_sent" project event, which
+ * is how recent reminders are found again.
+ * ================================================
+ */
+
+export const REMINDER_EVENT = "reminder_sent";
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+// Attributes the project flow may have stored the project's own deadline under
+const DEADLINE_ATTRIBUTES = ["deadline", "due_date", "dueDate", "due"];
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const reminderSettingsSchema = z.object({
+  enabled: z.boolean().default(true),
+  // Minimum hours between routine reminders
+  frequencyHours: z.number().positive().default(24),
+  timezone: z.string().refine(isValidTimeZone, "Unknown timezone").default("UTC"),
+  // Local times no reminders are sent between, e.g. 21:00 to 08:00
+  quietHours: z
+    .object({
+      start: z.string().regex(TIME_PATTERN, "Use HH:MM"),
+      end: z.string().regex(TIME_PATTERN, "Use HH:MM"),
+    })
+    .nullable()
+    .default({ start: "21:00", end: "08:00" }),
+  // Only remind about projects without updates, events or task changes for this long
+  staleAfterHours: z.number().min(0).default(48),
+  escalation: z
+    .object({
+      enabled: z.boolean().default(true),
+      dueSoonHours: z.number().positive().default(24),
+      repeatHours: z.number().positive().default(12),
+      ignoreQuietHours: z.boolean().default(false),
+    })
+    .default({ enabled: true, dueSoonHours: 24, repeatHours: 12, ignoreQuietHours: false }),
+});
+
+export type ReminderSettings = z.infer<typeof reminderSettingsSchema>;
+
+export type ReminderLevel = "routine" | "due_soon" | "overdue";
+
+const LEVEL_ORDER: ReminderLevel[] = ["routine", "due_soon", "overdue"];
+
+/**
+ * A deadline that makes a project urgent: one of its tasks, or the project's own
+ */
+export interface ReminderDeadline {
+  key: string;
+  level: Exclude<ReminderLevel, "routine">;
+  due_at: string;
+  task?: ProjectTaskRecord;
+}
+
+export interface ProjectReminder {
+  project: ProjectRecord;
+  level: ReminderLevel;
+  reason: string;
+  deadlines: ReminderDeadline[];
+  openTasks: ProjectTaskRecord[];
+}
+
+export interface ChatReminderPlan {
+  chat: ChatRecord;
+  settings: ReminderSettings;
+  level: ReminderLevel | null;
+  projects: ProjectReminder[];
+  // Why nothing is sent, if so
+  skipped?: string;
+  // System instruction the reminder is written from
+  instruction?: string;
+}
+
+/**
+ * The reminder rules of a chat, with defaults for any not set
+ */
+export function getReminderSettings(chat: Pick<ChatRecord, "metadata">): ReminderSettings {
+  const result = reminderSettingsSchema.safeParse(chat.metadata?.reminders || {});
+  if (!result.success) {
+    console.error("[ProjectReminders] Invalid reminder settings, using defaults:", result.error.message);
+    return reminderSettingsSchema.parse({});
+  }
+  return result.data;
+}
+
+/**
+ * Change some of a chat's reminder rules
+ * @returns The new rules, or an error message if they aren't valid
+ */
+export async function saveReminderSettings(
+  adapter: DatabaseAdapterInterface,
+  chat: ChatRecord,
+  changes: Record<string, unknown>
+): Promise<{ settings?: ReminderSettings; error?: string }> {
+  const current = getReminderSettings(chat);
+  const result = reminderSettingsSchema.safeParse({
+    ...current,
+    ...changes,
+    ...(changes.escalation && typeof changes.escalation === "object"
+      ? { escalation: { ...current.escalation, ...changes.escalation } }
+      : {}),
+  });
+  if (!result.success) {
+    return { error: result.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; ") };
+  }
+  if (!(await adapter.updateChatMetadata(chat.id, { reminders: result.data }))) {
+    return { error: "Reminder settings could not be saved" };
+  }
+  return { settings: result.data };
+}
+
+function minutesOfDay(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Whether a time falls in the chat's quiet hours, in the chat's timezone
+ */
+export function isQuietTime(now: Date, settings: ReminderSettings): boolean {
+  if (!settings.quietHours) return false;
+  const parts = new Intl.DateTimeFormat("en-GB", {
+    timeZone: settings.timezone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(now);
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value || 0);
+  const local = part("hour") * 60 + part("minute");
+
+  const start = minutesOfDay(settings.quietHours.start);
+  const end = minutesOfDay(settings.quietHours.end);
+  // Quiet hours usually span midnight, e.g. 21:00 to 08:00
+  return start <= end ? local >= start && local < end : local >= start || local < end;
+}
+
+/**
+ * The project's own deadline, if one was stored in its attributes
+ */
+export function getProjectDeadline(project: ProjectRecord): Date | null {
+  const attributes = project.attributes || {};
+  for (const key of DEADLINE_ATTRIBUTES) {
+    const value = attributes[key];
+    if (typeof value !== "string" || !value.trim()) continue;
+    const date = /^\d{4}-\d{2}-\d{2}T/.test(value) ? new Date(value) : parseDueDate(value, new Date(project.updated_at));
+    if (date && !isNaN(date.getTime())) return date;
+  }
+  return null;
+}
+
+// Keys of the deadlines a reminder escalated, e.g. "task:<id>:overdue"
+function escalatedKeys(events: ProjectEventRecord[]): Set<string> {
+  return new Set(events.flatMap((event) => (Array.isArray(event.metadata?.escalated) ? event.metadata.escalated : [])));
+}
+
+/**
+ * Work out whether, and why, a project should be reminded about
+ * @param events The project's events in the longest window the rules look back over
+ * @param openTasks The project's open tasks
+ */
+export function evaluateProject(
+  project: ProjectRecord,
+  events: ProjectEventRecord[],
+  openTasks: ProjectTaskRecord[],
+  settings: ReminderSettings,
+  now: Date = new Date()
+): ProjectReminder | null {
+  const reminders = events.filter((event) => event.event_type === REMINDER_EVENT);
+
+  if (settings.escalation.enabled) {
+    const dueSoonBy = addHours(now, settings.escalation.dueSoonHours);
+    const levelOf = (dueAt: Date): ReminderDeadline["level"] | null =>
+      dueAt < now ? "overdue" : dueAt <= dueSoonBy ? "due_soon" : null;
+
+    const deadlines: ReminderDeadline[] = [];
+    for (const task of openTasks) {
+      const level = task.due_at ? levelOf(new Date(task.due_at)) : null;
+      if (level) deadlines.push({ key: `task:${task.id}:${level}`, level, due_at: task.due_at!, task });
+    }
+    const projectDeadline = getProjectDeadline(project);
+    const projectLevel = projectDeadline && levelOf(projectDeadline);
+    if (projectLevel) {
+      deadlines.push({ key: `project:${projectLevel}`, level: projectLevel, due_at: projectDeadline!.toISOString() });
+    }
+
+    // Deadlines already escalated at the same level recently aren't repeated
+    const repeatAfter = subHours(now, settings.escalation.repeatHours).toISOString();
+    const recent = escalatedKeys(reminders.filter((event) => event.created_at >= repeatAfter));
+    const pending = deadlines.filter((deadline) => !recent.has(deadline.key));
+    if (pending.length > 0) {
+      const level = pending.some((deadline) => deadline.level === "overdue") ? "overdue" : "due_soon";
+      return {
+        project,
+        level,
+        reason: `${pending.length} deadline${pending.length > 1 ? "s" : ""} ${level === "overdue" ? "overdue or due soon" : "coming up"}`,
+        deadlines: pending,
+        openTasks,
+      };
+    }
+  }
+
+  const remindedAfter = subHours(now, settings.frequencyHours).toISOString();
+  if (reminders.some((event) => event.created_at >= remindedAfter)) return null;
+
+  const staleAfter = subHours(now, settings.staleAfterHours).toISOString();
+  const lastActivity = [project.updated_at, ...events.filter((e) => e.event_type !== REMINDER_EVENT).map((e) => e.created_at)]
+    .sort()
+    .pop()!;
+  if (lastActivity >= staleAfter) return null;
+
+  const days = differenceInCalendarDays(now, new Date(lastActivity));
+  return {
+    project,
+    level: "routine",
+    reason: `no activity ${days === 0 ? "today" : days === 1 ? "since yesterday" : `for ${days} days`}`,
+    deadlines: [],
+    openTasks,
+  };
+}
+
+function ageDescription(createdAt: string, now: Date): string {
+  const days = differenceInCalendarDays(now, new Date(createdAt));
+  return days === 0 ? "today" : days === 1 ? "yesterday" : `${days} days ago`;
+}
+
+/**
+ * The system instruction a reminder is written from
+ */
+export function buildReminderInstruction(
+  projects: ProjectReminder[],
+  assigneeNames: Map<string, string>,
+  now: Date = new Date()
+): string {
+  const lines = projects.map((item) => {
+    const urgentTasks = item.deadlines.filter((d) => d.task).map((d) => d.task!);
+    const projectDeadline = item.deadlines.find((d) => !d.task);
+    const otherTasks = item.openTasks.filter((task) => !urgentTasks.includes(task)).sort(byDueDate);
+    return [
+      `- "${item.project.name}" (created ${ageDescription(item.project.created_at, now)}, ${item.reason})`,
+      ...(projectDeadline
+        ? [`    - [${projectDeadline.level === "overdue" ? "OVERDUE" : "DUE SOON"}] The project is due ${formatDueDate(projectDeadline.due_at)}`]
+        : []),
+      ...item.deadlines
+        .filter((d) => d.task)
+        .map((d) => `    - [${d.level === "overdue" ? "OVERDUE" : "DUE SOON"}] ${describeTask(d.task!, assigneeNames, now)}`),
+      ...otherTasks.map((task) => `    - ${describeTask(task, assigneeNames, now)}`),
+    ].join("\n");
+  });
+
+  const escalated = projects.some((item) => item.level !== "routine");
+  return `[SYSTEM INSTRUCTION: This is an automated reminder about active projects. The following projects in this chat need a follow-up:\n\n${lines.join("\n")}\n\n${
+    escalated
+      ? "Lead with the overdue and due soon items, name who they're assigned to, and ask whether they're done or need a new date."
+      : "Please remind the user about these projects in a friendly, helpful way. Suggest they update the status of these projects or mark them as completed if they're done."
+  } Don't mention this is an automated message; make it feel like a natural follow-up.]`;
+}
+
+/**
+ * Decide what reminder, if any, a chat should get
+ * @returns null if the chat has no live projects
+ */
+export async function planChatReminder(
+  adapter: DatabaseAdapterInterface,
+  chat: ChatRecord,
+  now: Date = new Date()
+): Promise<ChatReminderPlan | null> {
+  const liveProjects = (await adapter.getProjectsByChat(chat.id)).filter((project) => project.is_live);
+  if (liveProjects.length === 0) return null;
+
+  const settings = getReminderSettings(chat);
+  const plan: ChatReminderPlan = { chat, settings, level: null, projects: [] };
+  if (!settings.enabled) {
+    return { ...plan, skipped: "Reminders are turned off for this chat" };
+  }
+
+  const lookBackHours = Math.max(settings.frequencyHours, settings.staleAfterHours, settings.escalation.repeatHours);
+  const projectIds = liveProjects.map((project) => project.id);
+  const [events, openTasks] = await Promise.all([
+    adapter.getProjectEvents(projectIds, subHours(now, lookBackHours).toISOString()),
+    adapter.getProjectTasks({ projectIds, status: "open" }),
+  ]);
+
+  for (const project of liveProjects) {
+    const item = evaluateProject(
+      project,
+      events.filter((event) => event.project_id === project.id),
+      openTasks.filter((task) => task.project_id === project.id),
+      settings,
+      now
+    );
+    if (item) plan.projects.push(item);
+  }
+  if (plan.projects.length === 0) {
+    return { ...plan, skipped: "Projects were reminded about or active recently and nothing is due" };
+  }
+
+  plan.level = plan.projects.map((item) => item.level).sort((a, b) => LEVEL_ORDER.indexOf(b) - LEVEL_ORDER.indexOf(a))[0];
+  if (isQuietTime(now, settings) && !(plan.level !== "routine" && settings.escalation.ignoreQuietHours)) {
+    return { ...plan, skipped: `Quiet hours in ${settings.timezone}` };
+  }
+
+  const assigneeNames = await getAssigneeNames(adapter, openTasks);
+  return { ...plan, instruction: buildReminderInstruction(plan.projects, assigneeNames, now) };
+}
+
+/**
+ * Record a sent reminder against each of its projects
+ */
+export async function recordReminderSent(adapter: DatabaseAdapterInterface, plan: ChatReminderPlan): Promise<void> {
+  for (const item of plan.projects) {
+    await adapter.addProjectEvent(
+      item.project.id,
+      REMINDER_EVENT,
+      item.level === "routine" ? "Reminder sent" : `Reminder sent: ${item.reason}`,
+      {
+        level: item.level,
+        task_ids: item.deadlines.filter((d) => d.task).map((d) => d.task!.id),
+        escalated: item.deadlines.map((d) => d.key),
+      }
+    );
+  }
+}
+
+export interface ReminderRunResult {
+  totalChats: number;
+  chatsWithActiveProjects: number;
+  remindersSent: number;
+  dryRun: boolean;
+  chats: {
+    chatId: string;
+    chatName: string | null;
+    level: ReminderLevel | null;
+    sent: boolean;
+    skipped?: string;
+    projects: { id: string; name: string; level: ReminderLevel; reason: string }[];
+    instruction?: string;
+  }[];
+}
+
+/**
+ * Plan reminders for every chat and send those that are due. In a dry run
+ * nothing is sent or recorded, and the result shows what would be.
+ * @param send Sends a planned reminder to its chat, returns whether it was sent
+ */
+export async function runProjectReminders(
+  adapter: DatabaseAdapterInterface,
+  send: (plan: ChatReminderPlan) => Promise<boolean>,
+  options: { dryRun?: boolean; now?: Date } = {}
+): Promise<ReminderRunResult> {
+  const dryRun = options.dryRun ?? false;
+  const chats = await adapter.getAllChats();
+  const result: ReminderRunResult = {
+    totalChats: chats.length,
+    chatsWithActiveProjects: 0,
+    remindersSent: 0,
+    dryRun,
+    chats: [],
+  };
+
+  for (const chat of chats) {
+    const plan = await planChatReminder(adapter, chat, options.now);
+    if (!plan) continue;
+    result.chatsWithActiveProjects++;
+
+    let sent = false;
+    if (plan.instruction && !dryRun) {
+      try {
+        sent = await send(plan);
+      } catch (error) {
+        console.error(`[ProjectReminders] Error sending reminder to chat ${chat.id}:`, error);
+      }
+      if (sent) {
+        await recordReminderSent(adapter, plan);
+        result.remindersSent++;
+      }
+    }
+
+    result.chats.push({
+      chatId: chat.id,
+      chatName: chat.name,
+      level: plan.level,
+      sent,
+      ...(plan.skipped ? { skipped: plan.skipped } : {}),
+      projects: plan.projects.map((item) => ({
+        id: item.project.id,
+        name: item.project.name,
+        level: item.level,
+        reason: item.reason,
+      })),
+      ...(dryRun && plan.instruction ? { instruction: plan.instruction } : {}),
+    });
+  }
+
+  return result;
+}
@@ -0,0 +1,275 @@
+import {
+  addDays,
+  addHours,
+  addMinutes,
+  addMonths,
+  addWeeks,
+  format,
+  lastDayOfMonth,
+} from "date-fns";
+import type { DatabaseAdapterInterface, ProjectTaskRecord } from "../interfaces/database-adapter";
+import type { ThreadParticipant } from "../supabase/types";
+
+/**
+ * ============= PROJECT TASKS ================
+ * Helpers for the tasks in the project_tasks table: understanding due dates
+ * written in chat ("next Friday", "tomorrow at 5pm"), finding the assignee
+ * among the chat's participants and describing tasks for replies, reports
+ * and reminders.
+ * ============================================
+ */
+
+// Due dates given without a time are due at the end of the working day
+export const DEFAULT_DUE_HOUR = 17;
+
+const TONIGHT_HOUR = 20;
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+const UNIT_ADDERS: Record<string, (date: Date, amount: number) => Date> = {
+  minute: addMinutes,
+  hour: addHours,
+  day: addDays,
+  week: addWeeks,
+  month: addMonths,
+};
+
+function atTime(date: Date, hours: number, minutes: number = 0): Date {
+  const result = new Date(date);
+  result.setHours(hours, minutes, 0, 0);
+  return result;
+}
+
+function monthIndex(name: string): number {
+  return name.length >= 3 ? MONTHS.indexOf(name.slice(0, 3)) : -1;
+}
+
+// A day of the month, in the given year or the next occurrence when no year is given
+function monthDay(now: Date, month: number, day: number, year?: string): Date | null {
+  if (month < 0 || day < 1 || day > 31) return null;
+  const date = new Date(year ? Number(year) : now.getFullYear(), month, day);
+  if (date.getMonth() !== month) return null;
+  if (!year && atTime(date, 23, 59) < now) date.setFullYear(date.getFullYear() + 1);
+  return date;
+}
+
+/**
+ * Take the time of day out of a due date, e.g. "at 5pm", "17:30" or "noon"
+ */
+function extractTime(text: string): { rest: string; hours?: number; minutes?: number } {
+  const patterns: [RegExp, (match: RegExpMatchArray) => [number, number] | null][] = [
+    [/\b(?:at\s+)?(noon|midday)\b/, () => [12, 0]],
+    [
+      /\b(?:at\s+)?(\d{1,2})(?::(\d{2}))?\s*(am|pm)\b/,
+      (m) => {
+        const hours = Number(m[1]);
+        if (hours < 1 || hours > 12) return null;
+        return [(hours % 12) + (m[3] === "pm" ? 12 : 0), Number(m[2] || 0)];
+      },
+    ],
+    [/\b(?:at\s+)?(\d{1,2}):(\d{2})\b/, (m) => [Number(m[1]), Number(m[2])]],
+    [/\bat\s+(\d{1,2})\b/, (m) => [Number(m[1]), 0]],
+  ];
+
+  for (const [pattern, toTime] of patterns) {
+    const match = text.match(pattern);
+    const time = match && toTime(match);
+    if (time && time[0] < 24 && time[1] < 60) {
+      return { rest: text.replace(pattern, " ").replace(/\s+/g, " ").trim(), hours: time[0], minutes: time[1] };
+    }
+  }
+  return { rest: text };
+}
+
+/**
+ * The day a due date refers to, without its time
+ * @returns The day, or a full timestamp for relative times like "in 2 hours"
+ */
+function parseDay(text: string, now: Date): { day: Date; exact?: boolean; defaultHour?: number } | null {
+  if (["", "today", "eod", "end of day", "end of the day"].includes(text)) return { day: now };
+  if (text === "tonight") return { day: now, defaultHour: TONIGHT_HOUR };
+  if (["tomorrow", "tmrw", "tmr"].includes(text)) return { day: addDays(now, 1) };
+  if (["day after tomorrow", "the day after tomorrow"].includes(text)) return { day: addDays(now, 2) };
+  if (text === "next week") return { day: addWeeks(now, 1) };
+  if (text === "next month") return { day: addMonths(now, 1) };
+
+  const relative = text.match(/^in\s+(an?|\d+)\s+(minute|hour|day|week|month)s?$/);
+  if (relative) {
+    const amount = /^\d+$/.test(relative[1]) ? Number(relative[1]) : 1;
+    const date = UNIT_ADDERS[relative[2]](now, amount);
+    return ["minute", "hour"].includes(relative[2]) ? { day: date, exact: true } : { day: date };
+  }
+
+  if (/^end of (?:the |this )?week$/.test(text)) {
+    return { day: addDays(now, (5 - now.getDay() + 7) % 7) };
+  }
+  if (/^end of (?:the |this )?month$/.test(text)) return { day: lastDayOfMonth(now) };
+
+  const weekday = text.match(/^(?:this |next |coming |this coming )?([a-z]+)$/);
+  if (weekday) {
+    const target = WEEKDAYS.findIndex((day) => day === weekday[1] || day.slice(0, 3) === weekday[1]);
+    if (target >= 0) return { day: addDays(now, (target - now.getDay() + 7) % 7 || 7) };
+  }
+
+  const dayFirst = text.match(/^(?:the\s+)?(\d{1,2})(?:st|nd|rd|th)?\s+(?:of\s+)?([a-z]+)\.?(?:,?\s+(\d{4}))?$/);
+  if (dayFirst) {
+    const date = monthDay(now, monthIndex(dayFirst[2]), Number(dayFirst[1]), dayFirst[3]);
+    return date ? { day: date } : null;
+  }
+  const monthFirst = text.match(/^([a-z]+)\.?\s+(\d{1,2})(?:st|nd|rd|th)?(?:,?\s+(\d{4}))?$/);
+  if (monthFirst) {
+    const date = monthDay(now, monthIndex(monthFirst[1]), Number(monthFirst[2]), monthFirst[3]);
+    return date ? { day: date } : null;
+  }
+
+  return null;
+}
+
+/**
+ * Understand a due date as written in chat, in the server's time zone:
+ * "today", "tonight", "tomorrow at 5pm", "in 3 days", "next week", "Friday",
+ * "end of the month", "Oct 20", "20th of October 2027" or an ISO date.
+ * Dates without a time are due at DEFAULT_DUE_HOUR.
+ * @returns The due date, or null if it isn't understood
+ */
+export function parseDueDate(text: string, now: Date = new Date()): Date | null {
+  const input = text.trim().toLowerCase().replace(/^(?:due\s+)?(?:by|on|before|due)\s+/, "");
+
+  const iso = input.match(/^(\d{4})-(\d{2})-(\d{2})(t.*)?$/);
+  if (iso) {
+    if (iso[4]) {
+      const date = new Date(text.trim());
+      return isNaN(date.getTime()) ? null : date;
+    }
+    const date = new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]), DEFAULT_DUE_HOUR);
+    return date.getMonth() === Number(iso[2]) - 1 ? date : null;
+  }
+
+  const { rest, hours, minutes } = extractTime(input);
+  const parsed = parseDay(rest, now);
+  if (!parsed) return null;
+  if (parsed.exact) return parsed.day;
+
+  if (hours === undefined) {
+    return atTime(parsed.day, parsed.defaultHour ?? DEFAULT_DUE_HOUR);
+  }
+  const date = atTime(parsed.day, hours, minutes);
+  // "at 3pm" on its own means the next 3pm
+  return rest === "" && date < now ? addDays(date, 1) : date;
+}
+
+/**
+ * Participants a name could refer to: "me" is the sender, otherwise the
+ * participants with that full name, first name or phone number
+ * @returns Matching participants, more than one when the name is ambiguous
+ */
+export function findAssignees(
+  name: string,
+  participants: ThreadParticipant[],
+  senderNumber?: string
+): ThreadParticipant[] {
+  const query = name.trim().toLowerCase().replace(/^@/, "");
+  const digits = (value: string) => value.replace(/\D/g, "");
+
+  if (["me", "myself", "i"].includes(query)) {
+    const sender = senderNumber && participants.find((p) => digits(p.phone_number || "") === digits(senderNumber));
+    return sender ? [sender] : [];
+  }
+
+  if (digits(query).length >= 7 && digits(query).length === query.replace(/[\s()+-]/g, "").length) {
+    return participants.filter((p) => digits(p.phone_number || "") === digits(query));
+  }
+
+  const byName = participants.filter((p) => p.name?.toLowerCase() === query);
+  if (byName.length > 0) return byName;
+  return participants.filter((p) => p.name?.toLowerCase().split(/\s+/)[0] === query.split(/\s+/)[0]);
+}
+
+/**
+ * Find a task by its title, exactly or by part of it
+ */
+export function findTask(tasks: ProjectTaskRecord[], title: string): ProjectTaskRecord | undefined {
+  const query = title.trim().toLowerCase();
+  if (!query) return undefined;
+  return (
+    tasks.find((task) => task.title.toLowerCase() === query) ||
+    tasks.find((task) => task.title.toLowerCase().includes(query) || query.includes(task.title.toLowerCase()))
+  );
+}
+
+export function isTaskOverdue(task: ProjectTaskRecord, now: Date = new Date()): boolean {
+  return task.status === "open" && !!task.due_at && new Date(task.due_at) < now;
+}
+
+export function formatDueDate(dueAt: string | Date): string {
+  return format(new Date(dueAt), "EEE d MMM, HH:mm");
+}
+
+/**
+ * One line describing a task, e.g. "Write brief (Ada, due Fri 20 Oct, 17:00, overdue)"
+ * @param assigneeNames Names of the assignees by user ID
+ */
+export function describeTask(
+  task: ProjectTaskRecord,
+  assigneeNames: Map<string, string> = new Map(),
+  now: Date = new Date()
+): string {
+  const details: string[] = [];
+  if (task.assignee_id) details.push(assigneeNames.get(task.assignee_id) || "assigned");
+  if (task.status === "done") {
+    details.push("done");
+  } else if (task.due_at) {
+    details.push(`due ${formatDueDate(task.due_at)}`);
+    if (isTaskOverdue(task, now)) details.push("overdue");
+  }
+  return details.length > 0 ? `${task.title} (${details.join(", ")})` : task.title;
+}
+
+export interface TaskCounts {
+  total: number;
+  open: number;
+  done: number;
+  overdue: number;
+}
+
+export function countTasks(tasks: ProjectTaskRecord[], now: Date = new Date()): TaskCounts {
+  return {
+    total: tasks.length,
+    open: tasks.filter((task) => task.status === "open").length,
+    done: tasks.filter((task) => task.status === "done").length,
+    overdue: tasks.filter((task) => isTaskOverdue(task, now)).length,
+  };
+}
+
+/**
+ * Names of the users the tasks are assigned to, by user ID
+ */
+export async function getAssigneeNames(
+  adapter: DatabaseAdapterInterface,
+  tasks: ProjectTaskRecord[]
+): Promise<Map<string, string>> {
+  const names = new Map<string, string>();
+  const ids = new Set(tasks.map((task) => task.assignee_id).filter((id): id is string => !!id));
+  for (const id of ids) {
+    const user = await adapter.getUserById(id);
+    if (user?.name) names.set(id, user.name);
+  }
+  return names;
+}
+
+/**
+ * Whether an open task is overdue or due within the next day
+ */
+export function isTaskDueSoon(task: ProjectTaskRecord, now: Date = new Date()): boolean {
+  return task.status === "open" && !!task.due_at && new Date(task.due_at) <= addHours(now, 24);
+}
+
+/**
+ * Sort tasks by due date, tasks without one last
+ */
+export function byDueDate(a: ProjectTaskRecord, b: ProjectTaskRecord): number {
+  if (!a.due_at || !b.due_at) return a.due_at ? -1 : b.due_at ? 1 : 0;
+  return new Date(a.due_at).getTime() - new Date(b.due_at).getTime();
+}
@@ -6,6 +6,9 @@
 
 import { getInitializedAdapter } from '../supabase/config';
 import { formatDistanceToNow } from 'date-fns';
+import { countTasks } from './project-tasks';
+import { REMINDER_EVENT } from './project-reminders';
+import type { ProjectTaskRecord } from '../interfaces/database-adapter';
 
 export interface ReportData {
   userId: string;
@@ -26,6 +29,10 @@ export interface ProjectReportData {
   updatedAt: string;
   attributes: Record<string, any>;
   taskCount: number;
+  openTasks: number;
+  doneTasks: number;
+  overdueTasks: number;
+  actionCount: number;
   lastActivity: string;
 }
 
@@ -43,6 +50,9 @@ export interface ReportSummary {
   activeProjects: number;
   completedProjects: number;
   totalTasks: number;
+  completedTasks: number;
+  overdueTasks: number;
+  totalActions: number;
   totalConversations: number;
   totalMessages: number;
 }
@@ -63,11 +73,7 @@ export class ReportGeneratorService {
       }
 
       // Get user information
-      const { data: user } = await adapter.supabase
-        .from('conversation_users')
-        .select('name, phone_number')
-        .eq('id', userId)
-        .single();
+      const user = await adapter.getUserById(userId);
 
       // Calculate date range
       const now = new Date();
@@ -79,12 +85,9 @@ export class ReportGeneratorService {
       const sinceDate = dateRangeMap[dateRange];
 
       // Get user's chats
-      const { data: userChats } = await adapter.supabase
-        .from('chat_participants')
-        .select('chat_id')
-        .eq('user_id', userId);
+      const userChats = await adapter.getChatsForUser(userId);
 
-      const chatIds = userChats?.map(uc => uc.chat_id) || [];
+      const chatIds = userChats.map(chat => chat.id);
 
       console.log(`[ReportGenerator] User ${userId} has ${chatIds.length} chats: ${chatIds.join(', ')}`);
 
@@ -92,12 +95,7 @@ export class ReportGeneratorService {
       let projects: ProjectReportData[] = [];
       if (chatIds.length > 0) {
         // Get ALL projects for the user's chats, not just recent ones
-        const { data: projectsData } = await adapter.supabase
-          .from('projects')
-          .select('*')
-          .in('chat_id', chatIds)
-          .order('is_live', { ascending: false })
-          .order('created_at', { ascending: false });
+        const projectsData = await adapter.getProjectsForChats(chatIds);
 
         console.log(`[ReportGenerator] Found ${projectsData?.length || 0} projects for user ${userId}`);
         if (projectsData && projectsData.length > 0) {
@@ -111,18 +109,17 @@ export class ReportGeneratorService {
 
         // Get project events count for each project (still filtered by date for activity tracking)
         const projectIds = projectsData?.map(p => p.id) || [];
-        const { data: projectEvents } = await adapter.supabase
-          .from('project_events')
-          .select('project_id')
-          .in('project_id', projectIds)
-          .gte('created_at', sinceDate.toISOString());
+        const projectEvents = await adapter.getProjectEvents(projectIds, sinceDate.toISOString());
 
-        // Count events per project
+        // Count events per project, reminders the agent sent aren't actions
         const eventCounts: Record<string, number> = {};
-        projectEvents?.forEach(event => {
+        projectEvents?.filter(event => event.event_type !== REMINDER_EVENT).forEach(event => {
           eventCounts[event.project_id] = (eventCounts[event.project_id] || 0) + 1;
         });
 
+        // All tasks of the projects, whenever they were created
+        const tasks = await adapter.getProjectTasks({ projectIds });
+
         // Format projects
         projects = (projectsData || []).map((p: any) => ({
           id: p.id,
@@ -132,7 +129,8 @@ export class ReportGeneratorService {
           createdAt: p.created_at,
           updatedAt: p.updated_at,
           attributes: p.attributes || {},
-          taskCount: eventCounts[p.id] || 0,
+          ...this.taskCountsFor(tasks.filter(t => t.project_id === p.id), now),
+          actionCount: eventCounts[p.id] || 0,
           lastActivity: p.updated_at
         }));
       }
@@ -140,38 +138,28 @@ export class ReportGeneratorService {
       // Get conversations data
       let conversations: ConversationReportData[] = [];
       if (chatIds.length > 0) {
-        const { data: chatsData } = await adapter.supabase
-          .from('chats')
-          .select('*')
-          .in('id', chatIds);
+        const chatsData = userChats;
 
         // Get message counts for each chat
         const messageCounts: Record<string, { count: number; lastMessage: string }> = {};
         
         for (const chatId of chatIds) {
-          const { data: messages, count } = await adapter.supabase
-            .from('messages')
-            .select('created_at', { count: 'exact', head: false })
-            .eq('chat_id', chatId)
-            .gte('created_at', sinceDate.toISOString())
-            .order('created_at', { ascending: false })
-            .limit(1);
+          const stats = await adapter.getChatMessageStats(chatId, {
+            since: sinceDate.toISOString()
+          });
 
           messageCounts[chatId] = {
-            count: count || 0,
-            lastMessage: messages?.[0]?.created_at || ''
+            count: stats.count,
+            lastMessage: stats.lastMessageAt || ''
           };
         }
 
         // Get participant counts
         const participantCounts: Record<string, number> = {};
         for (const chatId of chatIds) {
-          const { count } = await adapter.supabase
-            .from('chat_participants')
-            .select('*', { count: 'exact', head: true })
-            .eq('chat_id', chatId);
+          const participants = await adapter.getChatParticipants(chatId);
           
-          participantCounts[chatId] = count || 0;
+          participantCounts[chatId] = participants.length;
         }
 
         // Format conversations
@@ -194,13 +182,16 @@ export class ReportGeneratorService {
         activeProjects: projects.filter(p => p.isLive).length,
         completedProjects: projects.filter(p => !p.isLive).length,
         totalTasks: projects.reduce((sum, p) => sum + p.taskCount, 0),
+        completedTasks: projects.reduce((sum, p) => sum + p.doneTasks, 0),
+        overdueTasks: projects.reduce((sum, p) => sum + p.overdueTasks, 0),
+        totalActions: projects.reduce((sum, p) => sum + p.actionCount, 0),
         totalConversations: conversations.length,
         totalMessages: conversations.reduce((sum, c) => sum + c.messageCount, 0)
       };
 
       return {
         userId,
-        userName: user?.name,
+        userName: user?.name || undefined,
         userEmail: '', // Will be set by the caller
         dateRange,
         projects,
@@ -213,6 +204,22 @@ export class ReportGeneratorService {
     }
   }
 
+  /**
+   * Task counts of a project for the report
+   */
+  private taskCountsFor(
+    tasks: ProjectTaskRecord[],
+    now: Date
+  ): Pick<ProjectReportData, 'taskCount' | 'openTasks' | 'doneTasks' | 'overdueTasks'> {
+    const counts = countTasks(tasks, now);
+    return {
+      taskCount: counts.total,
+      openTasks: counts.open,
+      doneTasks: counts.done,
+      overdueTasks: counts.overdue
+    };
+  }
+
   /**
    * Generate HTML email content from report data
    */
@@ -246,11 +253,11 @@ export class ReportGeneratorService {
 
     // Dynamic motivation based on activity
     let motivation = '';
-    if (summary.totalTasks > 10) {
+    if (summary.totalActions > 10) {
       motivation = "You're on fire! Keep pushing.";
-    } else if (summary.totalTasks > 5) {
+    } else if (summary.totalActions > 5) {
       motivation = "Good progress. Let's accelerate.";
-    } else if (summary.totalTasks > 0) {
+    } else if (summary.totalActions > 0) {
       motivation = "Some movement, but we can do better.";
     } else {
       motivation = "Time to get some wins on the board.";
@@ -274,7 +281,8 @@ export class ReportGeneratorService {
     <ul style="margin: 10px 0 20px 0; padding-left: 20px;">
       <li><strong>${summary.activeProjects}</strong> projects in play</li>
       <li><strong>${summary.completedProjects}</strong> crossed the finish line</li>
-      <li><strong>${summary.totalTasks}</strong> actions taken</li>
+      <li><strong>${summary.completedTasks}</strong> of <strong>${summary.totalTasks}</strong> tasks done${summary.overdueTasks > 0 ? `, <strong>${summary.overdueTasks}</strong> overdue` : ''}</li>
+      <li><strong>${summary.totalActions}</strong> actions taken</li>
       <li><strong>${summary.totalMessages}</strong> messages exchanged</li>
     </ul>
     
@@ -310,14 +318,16 @@ export class ReportGeneratorService {
 
     let cta = '<p style="margin-top: 30px; font-weight: bold;">';
     
-    if (staleProjects.length > 0) {
+    if (summary.overdueTasks > 0) {
+      cta += `⏰ ${summary.overdueTasks} task${summary.overdueTasks > 1 ? 's are' : ' is'} overdue. Finish ${summary.overdueTasks > 1 ? 'them' : 'it'} or pick a new date.`;
+    } else if (staleProjects.length > 0) {
       cta += `🚨 ${staleProjects.length} project${staleProjects.length > 1 ? 's need' : ' needs'} attention. No updates in over a week.`;
     } else if (summary.activeProjects === 0) {
       cta += "🎯 Ready to start your next big thing? Tell me about it.";
     } else if (summary.activeProjects > 5) {
       cta += "⚡ That's a lot of plates spinning. Which one needs focus today?";
-    } else if (summary.totalTasks === 0) {
-      cta += "📋 No tasks recorded this period. What's the next move?";
+    } else if (summary.totalActions === 0) {
+      cta += "📋 Nothing recorded this period. What's the next move?";
     } else {
       cta += "💪 Keep the momentum going. What's next?";
     }
@@ -346,6 +356,7 @@ export class ReportGeneratorService {
   <tr style="background-color: #f0f0f0;">
     <th style="text-align: left; padding: 8px; border: 1px solid #ccc;">Project</th>
     <th style="text-align: left; padding: 8px; border: 1px solid #ccc;">What it\'s about</th>
+    <th style="text-align: center; padding: 8px; border: 1px solid #ccc;">Tasks done</th>
     <th style="text-align: center; padding: 8px; border: 1px solid #ccc;">Actions</th>
     <th style="text-align: left; padding: 8px; border: 1px solid #ccc;">Last touched</th>
   </tr>`;
@@ -365,7 +376,8 @@ export class ReportGeneratorService {
   <tr>
     <td style="padding: 8px; border: 1px solid #ccc;">${statusIcon}${this.escapeHtml(project.name)}</td>
     <td style="padding: 8px; border: 1px solid #ccc;">${this.escapeHtml(project.description)}</td>
-    <td style="text-align: center; padding: 8px; border: 1px solid #ccc;">${project.taskCount || '-'}</td>
+    <td style="text-align: center; padding: 8px; border: 1px solid #ccc;">${project.taskCount ? `${project.doneTasks}/${project.taskCount}` : '-'}${project.overdueTasks ? ` (${project.overdueTasks} overdue)` : ''}</td>
+    <td style="text-align: center; padding: 8px; border: 1px solid #ccc;">${project.actionCount || '-'}</td>
     <td style="padding: 8px; border: 1px solid #ccc;">${lastActivity}</td>
   </tr>`;
       });
@@ -1,11 +1,12 @@
 /**
  * Report Scheduler Service
  * 
- * Manages scheduled email reports through A1Cron integration
+ * Manages scheduled email reports through A1Cron integration, or the local
+ * cron scheduler when CRON_BACKEND=local or A1Cron isn't configured
  * Uses user metadata to store report preferences
  */
 
-import { A1CronService } from '../a1cron/service';
+import { CronService, getA1Cron } from '../a1cron/service';
 import { CreateCronJobRequest } from '../a1cron/types';
 import { getInitializedAdapter } from '../supabase/config';
 
@@ -22,6 +23,30 @@ export interface ScheduledReport {
   created_at: string;
 }
 
+export interface ReportHistoryEntry {
+  type: 'scheduled' | 'on_demand';
+  email_address: string;
+  subject: string;
+  status: 'sent' | 'failed';
+  error?: string;
+  sent_at: string;
+}
+
+/**
+ * Shape of the email_reports key in user metadata
+ */
+export interface EmailReportsMetadata {
+  scheduled?: Record<string, ScheduledReport>;
+  history?: ReportHistoryEntry[];
+}
+
+/**
+ * Read the email_reports key from user metadata
+ */
+export function getEmailReportsMetadata(metadata: Record<string, unknown> | null | undefined): EmailReportsMetadata {
+  return (metadata?.email_reports as EmailReportsMetadata | undefined) || {};
+}
+
 export interface CreateScheduledReportParams {
   userId: string;
   emailAddress: string;
@@ -32,22 +57,11 @@ export interface CreateScheduledReportParams {
 }
 
 export class ReportSchedulerService {
-  private cronService: A1CronService;
+  private cronService: CronService;
   
   constructor() {
-    const apiKey = process.env.A1BASE_API_KEY;
-    const apiSecret = process.env.A1BASE_API_SECRET;
-    const accountId = process.env.A1BASE_ACCOUNT_ID;
-
-    if (!apiKey || !apiSecret || !accountId) {
-      throw new Error('A1Cron requires A1BASE_API_KEY, A1BASE_API_SECRET, and A1BASE_ACCOUNT_ID environment variables');
-    }
-
-    this.cronService = new A1CronService({
-      apiKey,
-      apiSecret,
-      accountId,
-    });
+    // A1Cron when the A1Base credentials are set, otherwise the local scheduler
+    this.cronService = getA1Cron();
   }
 
   /**
@@ -94,38 +108,29 @@ export class ReportSchedulerService {
       }
 
       // Store the report in user metadata
-      const { data: user } = await adapter.supabase
-        .from('conversation_users')
-        .select('metadata')
-        .eq('id', params.userId)
-        .single();
-
-      const currentMetadata = user?.metadata || {};
-      const emailReports = currentMetadata.email_reports || {};
+      const user = await adapter.getUserById(params.userId);
+
+      const emailReports = getEmailReportsMetadata(user?.metadata);
       
       // Store the scheduled report
       emailReports.scheduled = emailReports.scheduled || {};
       emailReports.scheduled[reportId] = report;
       
       // Update user metadata
-      const { error: updateError } = await adapter.supabase
-        .from('conversation_users')
-        .update({
-          metadata: {
-            ...currentMetadata,
-            email: params.emailAddress, // Also store email at top level
-            email_reports: emailReports
-          }
-        })
-        .eq('id', params.userId);
+      const updated = await adapter.updateUserById(params.userId, {
+        metadata: {
+          email: params.emailAddress, // Also store email at top level
+          email_reports: emailReports
+        }
+      });
 
-      if (updateError) {
-        console.error('[ReportSchedulerService] Error updating user metadata:', updateError);
+      if (!updated) {
+        console.error('[ReportSchedulerService] Error updating user metadata');
         // Try to delete the cron job since we couldn't save it
         if (report.a1cron_job_id) {
           await this.cronService.deleteCronJob(report.a1cron_job_id);
         }
-        throw updateError;
+        throw new Error('Failed to save scheduled report');
       }
 
       console.log('[ReportSchedulerService] Successfully created scheduled report:', report.id);
@@ -147,14 +152,10 @@ export class ReportSchedulerService {
       }
 
       // Get user metadata
-      const { data: user } = await adapter.supabase
-        .from('conversation_users')
-        .select('metadata')
-        .eq('id', userId)
-        .single();
-
-      const metadata = user?.metadata || {};
-      const scheduledReports = metadata.email_reports?.scheduled || {};
+      const user = await adapter.getUserById(userId);
+
+      const emailReports = getEmailReportsMetadata(user?.metadata);
+      const scheduledReports = emailReports.scheduled || {};
       const report = scheduledReports[reportId];
 
       if (!report) {
@@ -177,21 +178,17 @@ export class ReportSchedulerService {
       scheduledReports[reportId] = report;
 
       // Update user metadata
-      const { error: updateError } = await adapter.supabase
-        .from('conversation_users')
-        .update({
-          metadata: {
-            ...metadata,
-            email_reports: {
-              ...metadata.email_reports,
-              scheduled: scheduledReports
-            }
+      const updated = await adapter.updateUserById(userId, {
+        metadata: {
+          email_reports: {
+            ...emailReports,
+            scheduled: scheduledReports
           }
-        })
-        .eq('id', userId);
+        }
+      });
 
-      if (updateError) {
-        console.error('[ReportSchedulerService] Error updating user metadata:', updateError);
+      if (!updated) {
+        console.error('[ReportSchedulerService] Error updating user metadata');
         return false;
       }
 
@@ -213,18 +210,12 @@ export class ReportSchedulerService {
         throw new Error('Database adapter not initialized');
       }
 
-      const { data: user } = await adapter.supabase
-        .from('conversation_users')
-        .select('metadata')
-        .eq('id', userId)
-        .single();
+      const user = await adapter.getUserById(userId);
 
-      const scheduledReports = user?.metadata?.email_reports?.scheduled || {};
+      const scheduledReports = getEmailReportsMetadata(user?.metadata).scheduled || {};
       
       // Return only active reports
-      return Object.values(scheduledReports)
-        .filter((report: any) => report.is_active)
-        .map((report: any) => report as ScheduledReport);
+      return Object.values(scheduledReports).filter((report) => report.is_active);
     } catch (error) {
       console.error('[ReportSchedulerService] Error in getUserScheduledReports:', error);
       return [];
@@ -242,31 +233,23 @@ export class ReportSchedulerService {
       }
 
       // Get user metadata
-      const { data: user } = await adapter.supabase
-        .from('conversation_users')
-        .select('metadata')
-        .eq('id', userId)
-        .single();
-
-      const metadata = user?.metadata || {};
-      const scheduledReports = metadata.email_reports?.scheduled || {};
+      const user = await adapter.getUserById(userId);
+
+      const emailReports = getEmailReportsMetadata(user?.metadata);
+      const scheduledReports = emailReports.scheduled || {};
       
       if (scheduledReports[reportId]) {
         scheduledReports[reportId].last_sent_at = new Date().toISOString();
 
         // Update user metadata
-        await adapter.supabase
-          .from('conversation_users')
-          .update({
-            metadata: {
-              ...metadata,
-              email_reports: {
-                ...metadata.email_reports,
-                scheduled: scheduledReports
-              }
+        await adapter.updateUserById(userId, {
+          metadata: {
+            email_reports: {
+              ...emailReports,
+              scheduled: scheduledReports
             }
-          })
-          .eq('id', userId);
+          }
+        });
       }
     } catch (error) {
       console.error('[ReportSchedulerService] Error in updateLastSent:', error);
@@ -276,26 +259,14 @@ export class ReportSchedulerService {
   /**
    * Log report history in metadata
    */
-  async logReportHistory(userId: string, report: {
-    type: 'scheduled' | 'on_demand';
-    email_address: string;
-    subject: string;
-    status: 'sent' | 'failed';
-    error?: string;
-    sent_at: string;
-  }): Promise<void> {
+  async logReportHistory(userId: string, report: ReportHistoryEntry): Promise<void> {
     try {
       const adapter = await getInitializedAdapter();
       if (!adapter) return;
 
-      const { data: user } = await adapter.supabase
-        .from('conversation_users')
-        .select('metadata')
-        .eq('id', userId)
-        .single();
+      const user = await adapter.getUserById(userId);
 
-      const metadata = user?.metadata || {};
-      const emailReports = metadata.email_reports || {};
+      const emailReports = getEmailReportsMetadata(user?.metadata);
       const history = emailReports.history || [];
 
       // Keep only last 20 entries
@@ -305,18 +276,14 @@ export class ReportSchedulerService {
       }
 
       // Update metadata
-      await adapter.supabase
-        .from('conversation_users')
-        .update({
-          metadata: {
-            ...metadata,
-            email_reports: {
-              ...emailReports,
-              history
-            }
+      await adapter.updateUserById(userId, {
+        metadata: {
+          email_reports: {
+            ...emailReports,
+            history
           }
-        })
-        .eq('id', userId);
+        }
+      });
     } catch (error) {
       console.error('[ReportSchedulerService] Error logging report history:', error);
     }
@@ -0,0 +1,228 @@
+import OpenAI, { toFile } from "openai";
+import {
+  ModelSettings,
+  ResolvedProvider,
+  formatModelRef,
+  loadModelSettings,
+  parseModelRef,
+  resolveProvider,
+} from "./model-router";
+
+/**
+ * ============= SPEECH ================
+ * Speech-to-text for incoming voice notes and text-to-speech for spoken
+ * replies. Both are called through OpenAI-compatible /audio endpoints, so
+ * a local server (e.g. faster-whisper or Kokoro behind an OpenAI-style API)
+ * only needs a baseURL in data/model-settings.json.
+ *
+ * "local" selects built-in stand-ins that need no API, for development and
+ * tests. They don't recognize or produce real speech.
+ * =====================================
+ */
+
+export interface SpeechTranscript {
+  text: string;
+  /**
+   * Spoken language when the provider reports it
+   */
+  language?: string;
+}
+
+export interface SpeechToTextProvider {
+  /**
+   * Model that transcribes, e.g. "openai:whisper-1"
+   */
+  model: string;
+  transcribe: (
+    audio: Buffer,
+    options: { mimeType: string; filename: string; language?: string }
+  ) => Promise<SpeechTranscript>;
+}
+
+export interface SynthesizedSpeech {
+  audio: Buffer;
+  mimeType: string;
+}
+
+export interface TextToSpeechProvider {
+  /**
+   * Model that speaks, e.g. "openai:gpt-4o-mini-tts"
+   */
+  model: string;
+  synthesize: (text: string) => Promise<SynthesizedSpeech>;
+}
+
+export const LOCAL_SPEECH_MODEL = "local";
+export const DEFAULT_SPEECH_TO_TEXT_MODEL = "openai:whisper-1";
+export const DEFAULT_TEXT_TO_SPEECH_MODEL = "openai:gpt-4o-mini-tts";
+export const DEFAULT_TEXT_TO_SPEECH_VOICE = "alloy";
+
+const LOCAL_SAMPLE_RATE = 8000;
+const LOCAL_SECONDS_PER_WORD = 0.4;
+
+/**
+ * A silent mono 16-bit WAV file with the text in its comment (INFO/ICMT) chunk
+ */
+export function createSilentWav(seconds: number, comment: string = ""): Buffer {
+  const samples = Buffer.alloc(Math.round(seconds * LOCAL_SAMPLE_RATE) * 2);
+  const text = Buffer.from(`${comment}\0`, "utf-8");
+  const padded = Buffer.concat([text, Buffer.alloc(text.length % 2)]);
+
+  const chunk = (id: string, body: Buffer) => {
+    const header = Buffer.alloc(8);
+    header.write(id, 0, "latin1");
+    header.writeUInt32LE(body.length, 4);
+    return Buffer.concat([header, body]);
+  };
+  const format = Buffer.alloc(16);
+  format.writeUInt16LE(1, 0); // PCM
+  format.writeUInt16LE(1, 2); // Mono
+  format.writeUInt32LE(LOCAL_SAMPLE_RATE, 4);
+  format.writeUInt32LE(LOCAL_SAMPLE_RATE * 2, 8);
+  format.writeUInt16LE(2, 12);
+  format.writeUInt16LE(16, 14);
+
+  const body = Buffer.concat([
+    Buffer.from("WAVE", "latin1"),
+    chunk("fmt ", format),
+    chunk("LIST", Buffer.concat([Buffer.from("INFO", "latin1"), chunk("ICMT", padded)])),
+    chunk("data", samples),
+  ]);
+  return chunk("RIFF", body);
+}
+
+/**
+ * The comment chunk of a WAV file written by createSilentWav
+ */
+function readWavComment(data: Buffer): string | null {
+  if (data.subarray(0, 4).toString("latin1") !== "RIFF" || data.subarray(8, 12).toString("latin1") !== "WAVE") {
+    return null;
+  }
+  const start = data.indexOf("ICMT", 12, "latin1");
+  if (start < 0 || start + 8 > data.length) return null;
+  const length = data.readUInt32LE(start + 4);
+  return data
+    .subarray(start + 8, start + 8 + length)
+    .toString("utf-8")
+    .replace(/\0+$/, "");
+}
+
+/**
+ * Transcribes WAV files from the local text-to-speech stand-in, and "audio"
+ * that is really UTF-8 text, so the voice note pipeline can run offline.
+ * Real recordings come back with an empty transcript.
+ */
+export function createLocalSpeechToTextProvider(): SpeechToTextProvider {
+  return {
+    model: LOCAL_SPEECH_MODEL,
+    transcribe: async (audio) => {
+      const comment = readWavComment(audio);
+      if (comment !== null) return { text: comment.trim() };
+
+      const text = audio.toString("utf-8");
+      const readable = !audio.includes(0) && !text.includes("\uFFFD");
+      return { text: readable ? text.trim() : "" };
+    },
+  };
+}
+
+/**
+ * Speaks silence as long as the text would take to say, keeping the text in
+ * the file so the local speech-to-text stand-in can read it back
+ */
+export function createLocalTextToSpeechProvider(): TextToSpeechProvider {
+  return {
+    model: LOCAL_SPEECH_MODEL,
+    synthesize: async (text) => {
+      const words = text.split(/\s+/).filter(Boolean).length;
+      return {
+        audio: createSilentWav(Math.max(1, words) * LOCAL_SECONDS_PER_WORD, text),
+        mimeType: "audio/wav",
+      };
+    },
+  };
+}
+
+function createClient(provider: ResolvedProvider): OpenAI {
+  return new OpenAI({
+    baseURL: provider.baseURL,
+    // Local servers without auth still need a non-empty key for the SDK
+    apiKey: provider.apiKey || "not-needed",
+  });
+}
+
+/**
+ * Transcribe through an OpenAI-compatible /audio/transcriptions endpoint
+ */
+export function createOpenAISpeechToTextProvider(model: string, provider: ResolvedProvider): SpeechToTextProvider {
+  const client = createClient(provider);
+
+  return {
+    model: formatModelRef({ provider: provider.name, model }),
+    transcribe: async (audio, { mimeType, filename, language }) => {
+      const response = await client.audio.transcriptions.create({
+        file: await toFile(audio, filename, { type: mimeType }),
+        model,
+        ...(language ? { language } : {}),
+      });
+      return { text: response.text.trim(), ...(language ? { language } : {}) };
+    },
+  };
+}
+
+/**
+ * Speak through an OpenAI-compatible /audio/speech endpoint, as MP3
+ */
+export function createOpenAITextToSpeechProvider(
+  model: string,
+  provider: ResolvedProvider,
+  voice: string = DEFAULT_TEXT_TO_SPEECH_VOICE
+): TextToSpeechProvider {
+  const client = createClient(provider);
+
+  return {
+    model: formatModelRef({ provider: provider.name, model }),
+    synthesize: async (text) => {
+      const response = await client.audio.speech.create({ model, voice, input: text, response_format: "mp3" });
+      return { audio: Buffer.from(await response.arrayBuffer()), mimeType: "audio/mpeg" };
+    },
+  };
+}
+
+/**
+ * The provider for speechToTextModel in data/model-settings.json. Without one,
+ * OpenAI is used when OPENAI_API_KEY is set.
+ * @returns null when no provider is configured or it is unavailable
+ */
+export function getSpeechToTextProvider(settings: ModelSettings = loadModelSettings()): SpeechToTextProvider | null {
+  const ref = settings.speechToTextModel || (process.env.OPENAI_API_KEY ? DEFAULT_SPEECH_TO_TEXT_MODEL : null);
+  if (!ref) return null;
+  if (ref === LOCAL_SPEECH_MODEL) return createLocalSpeechToTextProvider();
+
+  const { provider: providerName, model } = parseModelRef(ref);
+  const provider = resolveProvider(settings, providerName);
+  if (!provider) {
+    console.warn(`[Speech] Speech-to-text provider "${providerName}" is unavailable, voice notes won't be transcribed`);
+    return null;
+  }
+  return createOpenAISpeechToTextProvider(model, provider);
+}
+
+/**
+ * The provider for textToSpeechModel in data/model-settings.json. Without one,
+ * OpenAI is used when OPENAI_API_KEY is set.
+ * @returns null when no provider is configured or it is unavailable
+ */
+export function getTextToSpeechProvider(settings: ModelSettings = loadModelSettings()): TextToSpeechProvider | null {
+  const ref = settings.textToSpeechModel || (process.env.OPENAI_API_KEY ? DEFAULT_TEXT_TO_SPEECH_MODEL : null);
+  if (!ref) return null;
+  if (ref === LOCAL_SPEECH_MODEL) return createLocalTextToSpeechProvider();
+
+  const { provider: providerName, model } = parseModelRef(ref);
+  const provider = resolveProvider(settings, providerName);
+  if (!provider) {
+    console.warn(`[Speech] Text-to-speech provider "${providerName}" is unavailable, replies won't be spoken`);
+    return null;
+  }
+  return createOpenAITextToSpeechProvider(model, provider, settings.textToSpeechVoice);
+}
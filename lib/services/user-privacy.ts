@@ -0,0 +1,541 @@
+import fs from "fs";
+import path from "path";
+import { createHash, randomBytes } from "crypto";
+import type {
+  ChatRecord,
+  DatabaseAdapterInterface,
+  MemoryChunkRecord,
+  MemoryHistoryRecord,
+  MemoryReviewRecord,
+  MessageRow,
+  ModelUsageRecord,
+  ModerationLogRecord,
+  ProjectEventRecord,
+  ProjectHistoryRecord,
+  ProjectRecord,
+  ProjectTaskRecord,
+  UserRecord,
+} from "../interfaces/database-adapter";
+import { createZipArchive } from "../storage/zip-archive";
+
+/**
+ * ============= USER PRIVACY ================
+ * Retention policies, deletion, export, pseudonymization and consent for the
+ * people talking to the agent. Settings are stored on the user row under
+ * metadata.privacy.
+ *
+ * Group chats belong to everyone in them, so only the user's own messages are
+ * removed from groups. Their individual chats with the agent (messages, chat
+ * memory, semantic memory and projects) are removed entirely.
+ * ===========================================
+ */
+
+export type RetentionUnit = "days" | "weeks" | "months" | "years";
+
+export interface RetentionPolicy {
+  period: number;
+  unit: RetentionUnit;
+  updated_at: string;
+}
+
+export const CONSENT_PURPOSES = [
+  "memory",
+  "marketing",
+  "analytics",
+  "thirdPartySharing",
+  "automatedDecisionMaking",
+] as const;
+
+export type ConsentPurpose = (typeof CONSENT_PURPOSES)[number];
+
+export type ConsentPreferences = Record<ConsentPurpose, boolean>;
+
+/**
+ * Consent assumed until the user says otherwise. Memory extraction is on,
+ * as it always has been; everything else is opt-in.
+ */
+export const DEFAULT_CONSENT: ConsentPreferences = {
+  memory: true,
+  marketing: false,
+  analytics: false,
+  thirdPartySharing: false,
+  automatedDecisionMaking: false,
+};
+
+export type PrivacyDataType = "messages" | "memory" | "projects" | "all";
+
+/**
+ * A destructive request waiting for the user to confirm it
+ */
+export interface PendingPrivacyRequest {
+  action: "forget" | "anonymize";
+  dataTypes?: PrivacyDataType[];
+  requested_at: string;
+}
+
+export interface PrivacySettings {
+  retention?: RetentionPolicy;
+  consent?: Partial<ConsentPreferences> & { updated_at?: string };
+  pending?: PendingPrivacyRequest;
+}
+
+// How long a pending forget or anonymize request can be confirmed
+export const PENDING_REQUEST_TTL_MS = 15 * 60 * 1000;
+
+// How long an export download link stays valid
+export const EXPORT_TTL_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_EXPORTS_DIR = path.join(process.cwd(), "data", "exports");
+
+export function getPrivacySettings(user: UserRecord | null): PrivacySettings {
+  return (user?.metadata?.privacy as PrivacySettings | undefined) || {};
+}
+
+/**
+ * Replace the privacy settings stored on a user
+ */
+export function savePrivacySettings(
+  adapter: DatabaseAdapterInterface,
+  userId: string,
+  settings: PrivacySettings
+): Promise<boolean> {
+  return adapter.updateUserById(userId, { metadata: { privacy: settings } });
+}
+
+/**
+ * The user's consent for every purpose, with defaults for ones never set
+ */
+export function getConsent(user: UserRecord | null): ConsentPreferences {
+  const stored = getPrivacySettings(user).consent || {};
+  const consent = { ...DEFAULT_CONSENT };
+  for (const purpose of CONSENT_PURPOSES) {
+    if (typeof stored[purpose] === "boolean") consent[purpose] = stored[purpose]!;
+  }
+  return consent;
+}
+
+/**
+ * Whether the sender of a message allows a purpose. Unknown senders get the default.
+ */
+export async function hasConsent(
+  adapter: DatabaseAdapterInterface,
+  senderNumber: string,
+  purpose: ConsentPurpose
+): Promise<boolean> {
+  const user = await adapter.getUserByPhone(senderNumber.replace(/\+/g, ""));
+  return getConsent(user)[purpose];
+}
+
+/**
+ * Update some of a user's consent flags
+ * @returns The full consent after the update, or null if the user wasn't found or saving failed
+ */
+export async function updateConsent(
+  adapter: DatabaseAdapterInterface,
+  userId: string,
+  changes: Partial<ConsentPreferences>
+): Promise<ConsentPreferences | null> {
+  const user = await adapter.getUserById(userId);
+  if (!user) return null;
+
+  const settings = getPrivacySettings(user);
+  const consent = { ...getConsent(user), ...changes };
+  const saved = await savePrivacySettings(adapter, userId, {
+    ...settings,
+    consent: { ...consent, updated_at: new Date().toISOString() },
+  });
+  return saved ? consent : null;
+}
+
+/**
+ * Set how long a user's messages are kept. A null policy keeps them forever.
+ */
+export async function setRetentionPolicy(
+  adapter: DatabaseAdapterInterface,
+  userId: string,
+  policy: { period: number; unit: RetentionUnit } | null
+): Promise<boolean> {
+  const user = await adapter.getUserById(userId);
+  if (!user) return false;
+
+  const settings = { ...getPrivacySettings(user) };
+  if (policy) {
+    settings.retention = { ...policy, updated_at: new Date().toISOString() };
+  } else {
+    delete settings.retention;
+  }
+  return savePrivacySettings(adapter, userId, settings);
+}
+
+/**
+ * Oldest time a message can have and still be kept under a policy
+ */
+export function retentionCutoff(policy: Pick<RetentionPolicy, "period" | "unit">, now: Date = new Date()): Date {
+  const cutoff = new Date(now);
+  switch (policy.unit) {
+    case "days":
+      cutoff.setUTCDate(cutoff.getUTCDate() - policy.period);
+      break;
+    case "weeks":
+      cutoff.setUTCDate(cutoff.getUTCDate() - policy.period * 7);
+      break;
+    case "months":
+      cutoff.setUTCMonth(cutoff.getUTCMonth() - policy.period);
+      break;
+    case "years":
+      cutoff.setUTCFullYear(cutoff.getUTCFullYear() - policy.period);
+      break;
+  }
+  return cutoff;
+}
+
+async function getIndividualChats(adapter: DatabaseAdapterInterface, userId: string): Promise<ChatRecord[]> {
+  const chats = await adapter.getChatsForUser(userId);
+  return chats.filter((chat) => chat.type === "individual");
+}
+
+/**
+ * Delete the user's own messages and every message in their individual chats
+ * @param before Only delete messages older than this ISO timestamp
+ * @returns Number of messages deleted
+ */
+async function deleteUserMessages(
+  adapter: DatabaseAdapterInterface,
+  userId: string,
+  before?: string
+): Promise<number> {
+  let deleted = await adapter.deleteMessages({ senderId: userId, before });
+  for (const chat of await getIndividualChats(adapter, userId)) {
+    deleted += await adapter.deleteMessages({ chatId: chat.id, before });
+  }
+  return deleted;
+}
+
+/**
+ * Delete the semantic memory chunks about the user and those of their individual chats
+ * @param before Only delete chunks older than this ISO timestamp
+ * @returns Number of chunks deleted
+ */
+async function deleteUserMemoryChunks(
+  adapter: DatabaseAdapterInterface,
+  userId: string,
+  before?: string
+): Promise<number> {
+  let deleted = await adapter.deleteMemoryChunks({ userId, before });
+  for (const chat of await getIndividualChats(adapter, userId)) {
+    deleted += await adapter.deleteMemoryChunks({ chatId: chat.id, before });
+  }
+  return deleted;
+}
+
+export interface ForgetResult {
+  messages: number;
+  memoryFields: number;
+  memoryChunks: number;
+  projects: number;
+}
+
+/**
+ * Delete a user's messages, memory and/or the projects in their individual chats
+ */
+export async function forgetUserData(
+  adapter: DatabaseAdapterInterface,
+  userId: string,
+  dataTypes: PrivacyDataType[]
+): Promise<ForgetResult> {
+  const includes = (type: PrivacyDataType) => dataTypes.includes("all") || dataTypes.includes(type);
+  const result: ForgetResult = { messages: 0, memoryFields: 0, memoryChunks: 0, projects: 0 };
+  const individualChats = await getIndividualChats(adapter, userId);
+
+  if (includes("messages")) {
+    result.messages = await deleteUserMessages(adapter, userId);
+    // Flagged messages of their individual chats are recorded in the moderation log
+    for (const chat of individualChats) {
+      if (chat.external_id) await adapter.deleteModerationLog(chat.external_id);
+    }
+  }
+
+  if (includes("memory")) {
+    for (const fieldId of Object.keys(await adapter.getAllUserMemoryValues(userId))) {
+      const { success } = await adapter.deleteUserMemoryValue(userId, fieldId);
+      if (success) result.memoryFields++;
+    }
+    // Past and proposed values would otherwise survive in the history and review queue
+    await adapter.deleteMemoryHistory("user", userId);
+    await adapter.deleteMemoryReviews("user", userId);
+    for (const chat of individualChats) {
+      for (const fieldId of Object.keys(await adapter.getAllChatMemoryValues(chat.id))) {
+        const { success } = await adapter.deleteChatMemoryValue(chat.id, fieldId);
+        if (success) result.memoryFields++;
+      }
+      await adapter.deleteMemoryHistory("chat", chat.id);
+      await adapter.deleteMemoryReviews("chat", chat.id);
+    }
+    result.memoryChunks = await deleteUserMemoryChunks(adapter, userId);
+  }
+
+  if (includes("projects") && individualChats.length > 0) {
+    const projects = await adapter.getProjectsForChats(individualChats.map((chat) => chat.id));
+    for (const project of projects) {
+      if (await adapter.deleteProject(project.id)) result.projects++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Name stored in place of an anonymized user's name. The same user always
+ * gets the same pseudonym.
+ */
+export function pseudonymFor(userId: string): string {
+  return `Anonymous user ${createHash("sha256").update(userId).digest("hex").slice(0, 8)}`;
+}
+
+/**
+ * Pseudonymize a user and clear the memory of their individual chats
+ * @returns The pseudonym, or null if the user wasn't found or the update failed
+ */
+export async function anonymizeUserData(
+  adapter: DatabaseAdapterInterface,
+  userId: string
+): Promise<string | null> {
+  const user = await adapter.getUserById(userId);
+  if (!user) return null;
+
+  // Chat memory of individual chats describes the user, so it goes too
+  await forgetUserData(adapter, userId, ["memory"]);
+
+  const pseudonym = pseudonymFor(userId);
+  const anonymized = await adapter.anonymizeUser(userId, pseudonym, {
+    anonymized_at: new Date().toISOString(),
+  });
+  return anonymized ? pseudonym : null;
+}
+
+export interface RetentionPurgeResult {
+  usersChecked: number;
+  usersPurged: number;
+  messagesDeleted: number;
+  memoryChunksDeleted: number;
+  exportsDeleted: number;
+}
+
+/**
+ * Delete messages and semantic memory older than each user's retention policy,
+ * and expired data exports
+ */
+export async function runRetentionPurge(
+  adapter: DatabaseAdapterInterface,
+  now: Date = new Date(),
+  exportsDir: string = DEFAULT_EXPORTS_DIR
+): Promise<RetentionPurgeResult> {
+  const result: RetentionPurgeResult = {
+    usersChecked: 0,
+    usersPurged: 0,
+    messagesDeleted: 0,
+    memoryChunksDeleted: 0,
+    exportsDeleted: pruneUserDataExports(exportsDir, now),
+  };
+
+  for (const user of await adapter.getAllUsers()) {
+    result.usersChecked++;
+    const policy = getPrivacySettings(user).retention;
+    if (!policy) continue;
+
+    const cutoff = retentionCutoff(policy, now).toISOString();
+    const deleted = await deleteUserMessages(adapter, user.id, cutoff);
+    const chunksDeleted = await deleteUserMemoryChunks(adapter, user.id, cutoff);
+    if (deleted > 0 || chunksDeleted > 0) {
+      result.usersPurged++;
+      result.messagesDeleted += deleted;
+      result.memoryChunksDeleted += chunksDeleted;
+    }
+  }
+
+  return result;
+}
+
+export interface UserDataExport {
+  exported_at: string;
+  user: UserRecord;
+  memory: Record<string, unknown>;
+  memory_history: MemoryHistoryRecord[];
+  memory_reviews: MemoryReviewRecord[];
+  chats: (ChatRecord & { chat_memory?: Record<string, unknown> })[];
+  messages: MessageRow[];
+  memory_chunks: Omit<MemoryChunkRecord, "embedding">[];
+  projects: (ProjectRecord & {
+    history: ProjectHistoryRecord[];
+    events: ProjectEventRecord[];
+    tasks: ProjectTaskRecord[];
+  })[];
+  model_usage: ModelUsageRecord[];
+  moderation_log: ModerationLogRecord[];
+}
+
+/**
+ * Collect everything stored about a user: their profile, memory, memory
+ * history and memory updates queued for review (with those of their
+ * individual chats), the chats they are in, their messages (all messages of
+ * individual chats), their semantic memory (without embeddings), the
+ * projects of their individual chats with their tasks, their model usage and the moderation
+ * log of their individual chats
+ * @returns null if the user wasn't found
+ */
+export async function buildUserDataExport(
+  adapter: DatabaseAdapterInterface,
+  userId: string
+): Promise<UserDataExport | null> {
+  const user = await adapter.getUserById(userId);
+  if (!user) return null;
+
+  const chats = await adapter.getChatsForUser(userId);
+  const individualChatIds = chats.filter((chat) => chat.type === "individual").map((chat) => chat.id);
+
+  const messages = new Map<string, MessageRow>();
+  for (const message of await adapter.getMessages({ senderId: userId })) {
+    messages.set(message.id, message);
+  }
+  for (const chatId of individualChatIds) {
+    for (const message of await adapter.getMessages({ chatId })) {
+      messages.set(message.id, message);
+    }
+  }
+
+  const memoryChunks = new Map<string, UserDataExport["memory_chunks"][number]>();
+  for (const filter of [{ userId }, ...individualChatIds.map((chatId) => ({ chatId }))]) {
+    for (const chunk of await adapter.getMemoryChunks(filter)) {
+      // Embeddings are derived from the content and mean nothing to the user
+      const exported: Partial<Pick<MemoryChunkRecord, "embedding">> & UserDataExport["memory_chunks"][number] = {
+        ...chunk,
+      };
+      delete exported.embedding;
+      memoryChunks.set(chunk.id, exported);
+    }
+  }
+
+  const memoryHistory = await adapter.getMemoryHistory("user", userId);
+  const memoryReviews = await adapter.getMemoryReviews({ scope: "user", ownerId: userId });
+  for (const chatId of individualChatIds) {
+    memoryHistory.push(...(await adapter.getMemoryHistory("chat", chatId)));
+    memoryReviews.push(...(await adapter.getMemoryReviews({ scope: "chat", ownerId: chatId })));
+  }
+
+  const moderationLog: ModerationLogRecord[] = [];
+  for (const chat of chats) {
+    if (chat.type === "individual" && chat.external_id) {
+      moderationLog.push(...(await adapter.getModerationLog({ threadId: chat.external_id })));
+    }
+  }
+
+  const projects: UserDataExport["projects"] = [];
+  for (const project of await adapter.getProjectsForChats(individualChatIds)) {
+    projects.push({
+      ...project,
+      history: await adapter.getProjectHistory(project.id),
+      events: await adapter.getProjectEvents([project.id]),
+      tasks: await adapter.getProjectTasks({ projectIds: [project.id] }),
+    });
+  }
+
+  // Usage is recorded against the sender's number as well as the user ID
+  const usageIds = [userId];
+  if (user.phone_number) usageIds.push(user.phone_number, `+${user.phone_number}`);
+  const modelUsage = [];
+  for (const id of usageIds) {
+    modelUsage.push(...(await adapter.getModelUsage({ userId: id })));
+  }
+
+  return {
+    exported_at: new Date().toISOString(),
+    user,
+    memory: await adapter.getAllUserMemoryValues(userId),
+    memory_history: memoryHistory.sort((a, b) => a.created_at.localeCompare(b.created_at)),
+    memory_reviews: memoryReviews,
+    chats: await Promise.all(
+      chats.map(async (chat) =>
+        chat.type === "individual"
+          ? { ...chat, chat_memory: await adapter.getAllChatMemoryValues(chat.id) }
+          : chat
+      )
+    ),
+    messages: [...messages.values()].sort((a, b) => a.created_at.localeCompare(b.created_at)),
+    memory_chunks: [...memoryChunks.values()].sort((a, b) => a.created_at.localeCompare(b.created_at)),
+    projects,
+    model_usage: modelUsage.sort((a, b) => a.created_at.localeCompare(b.created_at)),
+    moderation_log: moderationLog.sort((a, b) => a.created_at.localeCompare(b.created_at)),
+  };
+}
+
+export type ExportFormat = "json" | "zip";
+
+export interface SavedUserDataExport {
+  token: string;
+  format: ExportFormat;
+  expires_at: string;
+}
+
+/**
+ * Write an export to disk under a random token, as one JSON file or a ZIP
+ * with one JSON file per section
+ */
+export function saveUserDataExport(
+  data: UserDataExport,
+  format: ExportFormat,
+  dir: string = DEFAULT_EXPORTS_DIR
+): SavedUserDataExport {
+  fs.mkdirSync(dir, { recursive: true });
+
+  const token = randomBytes(24).toString("hex");
+  const content =
+    format === "zip"
+      ? createZipArchive(
+          Object.entries(data).map(([section, value]) => ({
+            name: `${section}.json`,
+            data: JSON.stringify(value, null, 2),
+          }))
+        )
+      : JSON.stringify(data, null, 2);
+  fs.writeFileSync(path.join(dir, `${token}.${format}`), content);
+
+  return { token, format, expires_at: new Date(Date.now() + EXPORT_TTL_MS).toISOString() };
+}
+
+/**
+ * Read a saved export by its token
+ * @returns null if the token is unknown or the export has expired
+ */
+export function readUserDataExport(
+  token: string,
+  dir: string = DEFAULT_EXPORTS_DIR,
+  now: Date = new Date()
+): { format: ExportFormat; content: Buffer } | null {
+  if (!/^[a-f0-9]{48}$/.test(token)) return null;
+
+  for (const format of ["zip", "json"] as const) {
+    const file = path.join(dir, `${token}.${format}`);
+    if (!fs.existsSync(file)) continue;
+    if (now.getTime() - fs.statSync(file).mtimeMs > EXPORT_TTL_MS) return null;
+    return { format, content: fs.readFileSync(file) };
+  }
+  return null;
+}
+
+/**
+ * Delete exports older than EXPORT_TTL_MS
+ * @returns Number of exports deleted
+ */
+export function pruneUserDataExports(dir: string = DEFAULT_EXPORTS_DIR, now: Date = new Date()): number {
+  if (!fs.existsSync(dir)) return 0;
+
+  let deleted = 0;
+  for (const file of fs.readdirSync(dir)) {
+    const filePath = path.join(dir, file);
+    if (now.getTime() - fs.statSync(filePath).mtimeMs > EXPORT_TTL_MS) {
+      fs.unlinkSync(filePath);
+      deleted++;
+    }
+  }
+  return deleted;
+}
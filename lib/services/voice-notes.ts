@@ -0,0 +1,237 @@
+import fs from "fs";
+import path from "path";
+import { randomBytes } from "crypto";
+import { DatabaseAdapterInterface, NewMediaFile } from "../interfaces/database-adapter";
+import { IncomingMedia, decodeMediaData } from "./media-understanding";
+import {
+  SpeechToTextProvider,
+  TextToSpeechProvider,
+  getSpeechToTextProvider,
+  getTextToSpeechProvider,
+} from "./speech";
+
+/**
+ * ============= VOICE NOTES ================
+ * Transcribes incoming voice notes with the speech-to-text provider from
+ * data/model-settings.json (speech.ts), so triage, replies and memory treat
+ * them like text. The transcript is stored in media_files.metadata of the
+ * message, where getThread reads it back.
+ *
+ * Spoken replies are synthesized by the text-to-speech provider and kept
+ * under data/voice-replies for VOICE_REPLY_TTL_MS, served by
+ * /api/media/voice-replies/[file] for WhatsApp to fetch.
+ * ==========================================
+ */
+
+// How long a spoken reply can be fetched
+export const VOICE_REPLY_TTL_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_VOICE_REPLIES_DIR = path.join(process.cwd(), "data", "voice-replies");
+
+/**
+ * Characters of a reply that are spoken. Longer replies are still sent as text.
+ */
+export const MAX_SPOKEN_REPLY_CHARS = 2_000;
+
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  "audio/ogg": "ogg",
+  "audio/mpeg": "mp3",
+  "audio/wav": "wav",
+  "audio/amr": "amr",
+  "audio/mp4": "m4a",
+  "audio/webm": "webm",
+  "audio/aac": "aac",
+};
+
+export interface VoiceNoteTranscript {
+  text: string;
+  model: string;
+  mimeType: string;
+  fileSize: number;
+  language?: string;
+}
+
+export interface SavedVoiceReply {
+  token: string;
+  url: string;
+  mimeType: string;
+  model: string;
+  expires_at: string;
+}
+
+/**
+ * Audio type from a file's first bytes. WhatsApp voice notes are Ogg Opus.
+ * @returns The MIME type, or null if it isn't Ogg, MP3, WAV, AMR, M4A or WebM audio
+ */
+export function detectAudioMimeType(data: Buffer): string | null {
+  const head = data.subarray(0, 12).toString("latin1");
+  if (head.startsWith("OggS")) return "audio/ogg";
+  if (head.startsWith("ID3") || (data[0] === 0xff && (data[1] & 0xe0) === 0xe0 && (data[1] & 0x06) !== 0)) {
+    return "audio/mpeg";
+  }
+  if (head.startsWith("RIFF") && head.slice(8, 12) === "WAVE") return "audio/wav";
+  if (head.startsWith("#!AMR")) return "audio/amr";
+  if (head.slice(4, 8) === "ftyp") return "audio/mp4";
+  if (data.length >= 4 && data.readUInt32BE(0) === 0x1a45dfa3) return "audio/webm";
+  if (data[0] === 0xff && (data[1] & 0xf6) === 0xf0) return "audio/aac";
+  return null;
+}
+
+export function audioFileExtension(mimeType: string): string {
+  return AUDIO_EXTENSIONS[mimeType.split(";")[0].trim().toLowerCase()] || "ogg";
+}
+
+/**
+ * Transcribe an incoming voice note or audio file
+ * @returns The transcript, or null for other media, when no speech-to-text
+ *   provider is configured, nothing was said or transcription failed
+ */
+export async function transcribeVoiceNote(
+  media: IncomingMedia,
+  options: { provider?: SpeechToTextProvider | null; language?: string } = {}
+): Promise<VoiceNoteTranscript | null> {
+  if (!media.data || media.mediaType !== "audio") return null;
+
+  const provider = options.provider !== undefined ? options.provider : getSpeechToTextProvider();
+  if (!provider) {
+    console.log("[VoiceNotes] No speech-to-text provider configured, voice note not transcribed");
+    return null;
+  }
+
+  try {
+    const { buffer, mimeType: dataUrlType } = decodeMediaData(media.data);
+    if (buffer.length < 4) return null;
+    const mimeType = detectAudioMimeType(buffer) || media.mimeType || dataUrlType || "audio/ogg";
+    const filename = media.filename || `voice-note.${audioFileExtension(mimeType)}`;
+
+    const transcript = await provider.transcribe(buffer, { mimeType, filename, language: options.language });
+    if (!transcript.text) {
+      console.log("[VoiceNotes] Voice note transcribed to nothing");
+      return null;
+    }
+
+    return {
+      text: transcript.text,
+      model: provider.model,
+      mimeType,
+      fileSize: buffer.length,
+      ...(transcript.language ? { language: transcript.language } : {}),
+    };
+  } catch (error) {
+    console.error("[VoiceNotes] Error transcribing voice note:", error);
+    return null;
+  }
+}
+
+/**
+ * Store a voice note's transcript in media_files.metadata, where getThread
+ * reads it back as the message's text
+ * @param externalMessageId Message ID from the webhook
+ * @param file Columns of the file in media storage (see media-ingest.ts), if it was stored
+ * @returns ID of the media file, or null if the message isn't stored or saving failed
+ */
+export async function saveVoiceNoteTranscript(
+  adapter: DatabaseAdapterInterface,
+  externalMessageId: string,
+  transcript: VoiceNoteTranscript,
+  file?: Omit<NewMediaFile, "message_id" | "metadata"> | null
+): Promise<string | null> {
+  const message = await adapter.getMessageByExternalId(externalMessageId);
+  if (!message) {
+    console.warn(`[VoiceNotes] Message ${externalMessageId} not found, transcript not stored`);
+    return null;
+  }
+
+  return adapter.addMediaFile({
+    message_id: message.id,
+    file_type: "audio",
+    file_size: transcript.fileSize,
+    mime_type: transcript.mimeType,
+    ...file,
+    metadata: {
+      transcript: transcript.text,
+      model: transcript.model,
+      ...(transcript.language ? { language: transcript.language } : {}),
+      transcribed_at: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * Speak a reply and save the audio under a random token
+ * @returns Where WhatsApp can fetch the audio, or null when no text-to-speech
+ *   provider is configured, the reply is too long or synthesis failed
+ */
+export async function createVoiceReply(
+  text: string,
+  options: { provider?: TextToSpeechProvider | null; dir?: string; baseUrl?: string } = {}
+): Promise<SavedVoiceReply | null> {
+  const spoken = text.trim();
+  if (!spoken || spoken.length > MAX_SPOKEN_REPLY_CHARS) return null;
+
+  const provider = options.provider !== undefined ? options.provider : getTextToSpeechProvider();
+  if (!provider) {
+    console.log("[VoiceNotes] No text-to-speech provider configured, reply not spoken");
+    return null;
+  }
+
+  try {
+    const dir = options.dir || DEFAULT_VOICE_REPLIES_DIR;
+    const { audio, mimeType } = await provider.synthesize(spoken);
+    pruneVoiceReplies(dir);
+    fs.mkdirSync(dir, { recursive: true });
+
+    const token = randomBytes(24).toString("hex");
+    const extension = audioFileExtension(mimeType);
+    fs.writeFileSync(path.join(dir, `${token}.${extension}`), audio);
+
+    const baseUrl = options.baseUrl || process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+    return {
+      token,
+      url: `${baseUrl.replace(/\/$/, "")}/api/media/voice-replies/${token}.${extension}`,
+      mimeType,
+      model: provider.model,
+      expires_at: new Date(Date.now() + VOICE_REPLY_TTL_MS).toISOString(),
+    };
+  } catch (error) {
+    console.error("[VoiceNotes] Error creating voice reply:", error);
+    return null;
+  }
+}
+
+/**
+ * Read a spoken reply by the file name in its URL, "<token>.<extension>"
+ * @returns null if the file is unknown or has expired
+ */
+export function readVoiceReply(
+  file: string,
+  dir: string = DEFAULT_VOICE_REPLIES_DIR,
+  now: Date = new Date()
+): { mimeType: string; content: Buffer } | null {
+  const match = /^([a-f0-9]{48})\.([a-z0-9]+)$/.exec(file);
+  if (!match) return null;
+
+  const mimeType = Object.keys(AUDIO_EXTENSIONS).find((type) => AUDIO_EXTENSIONS[type] === match[2]);
+  const filePath = path.join(dir, file);
+  if (!mimeType || !fs.existsSync(filePath)) return null;
+  if (now.getTime() - fs.statSync(filePath).mtimeMs > VOICE_REPLY_TTL_MS) return null;
+  return { mimeType, content: fs.readFileSync(filePath) };
+}
+
+/**
+ * Delete spoken replies older than VOICE_REPLY_TTL_MS
+ * @returns Number of replies deleted
+ */
+export function pruneVoiceReplies(dir: string = DEFAULT_VOICE_REPLIES_DIR, now: Date = new Date()): number {
+  if (!fs.existsSync(dir)) return 0;
+
+  let deleted = 0;
+  for (const file of fs.readdirSync(dir)) {
+    const filePath = path.join(dir, file);
+    if (now.getTime() - fs.statSync(filePath).mtimeMs > VOICE_REPLY_TTL_MS) {
+      fs.unlinkSync(filePath);
+      deleted++;
+    }
+  }
+  return deleted;
+}
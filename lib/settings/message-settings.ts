@@ -21,3 +21,24 @@ export async function getSplitMessageSetting(): Promise<boolean> {
   }
   return false; // Default to false if settings can't be loaded
 }
+
+/**
+ * Get voice reply setting from configuration file
+ * This determines if voice notes are also answered with a spoken reply
+ */
+export async function getVoiceReplySetting(): Promise<boolean> {
+  try {
+    const settingsFilePath = path.join(
+      process.cwd(),
+      "data",
+      "message-settings.json"
+    );
+    if (fs.existsSync(settingsFilePath)) {
+      const settings = JSON.parse(fs.readFileSync(settingsFilePath, "utf-8"));
+      return settings.voiceReplies || false;
+    }
+  } catch (error) {
+    console.error("Error loading message settings:", error);
+  }
+  return false; // Spoken replies are off unless turned on
+}
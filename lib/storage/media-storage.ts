@@ -0,0 +1,330 @@
+import fs from "fs";
+import path from "path";
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+import { getEncryptionKey } from "../safety-config/redaction";
+
+/**
+ * ============= MEDIA STORAGE ================
+ * Where the files users send are kept, instead of as base64 in
+ * messages.rich_content. Two backends:
+ * - local: files under data/media, served by /api/media/files/... behind
+ *   links signed with a key derived from the data encryption key
+ * - s3: any S3-compatible bucket (AWS S3, Cloudflare R2, MinIO...), called
+ *   with Signature Version 4 and served through presigned URLs
+ *
+ * Stored files are referred to as "local:<key>" or "s3://<bucket>/<key>",
+ * which is what media_files.file_url and thumbnail_url hold.
+ * ============================================
+ */
+
+export const DEFAULT_MEDIA_DIR = path.join(process.cwd(), "data", "media");
+
+// How long signed links to media stay valid by default
+export const DEFAULT_SIGNED_URL_SECONDS = 60 * 60;
+
+export interface MediaStorage {
+  name: "local" | "s3";
+  /**
+   * Store a file
+   * @returns Reference to the file, for media_files.file_url
+   */
+  put: (key: string, data: Buffer, contentType: string) => Promise<string>;
+  get: (key: string) => Promise<Buffer | null>;
+  delete: (key: string) => Promise<void>;
+  /**
+   * Link the file can be fetched from until the given number of seconds from now
+   */
+  getSignedUrl: (key: string, expiresInSeconds?: number, now?: Date) => string;
+}
+
+export interface S3StorageConfig {
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+  /**
+   * API root for S3-compatible services, e.g. https://<account>.r2.cloudflarestorage.com.
+   * Defaults to AWS S3 in the region.
+   */
+  endpoint?: string;
+  /**
+   * Address objects as endpoint/bucket/key instead of bucket.endpoint/key,
+   * as MinIO and most self-hosted services need
+   */
+  forcePathStyle?: boolean;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  mp4: "video/mp4",
+  mov: "video/quicktime",
+  "3gp": "video/3gpp",
+  webm: "video/webm",
+  ogg: "audio/ogg",
+  mp3: "audio/mpeg",
+  wav: "audio/wav",
+  amr: "audio/amr",
+  m4a: "audio/mp4",
+  aac: "audio/aac",
+  pdf: "application/pdf",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  txt: "text/plain",
+};
+
+/**
+ * File extension for a MIME type, "bin" for unknown types
+ */
+export function mediaFileExtension(mimeType: string): string {
+  const type = mimeType.split(";")[0].trim().toLowerCase();
+  return Object.keys(CONTENT_TYPES).find((extension) => CONTENT_TYPES[extension] === type) || "bin";
+}
+
+/**
+ * MIME type of a stored file from its extension
+ */
+export function mediaContentType(key: string): string {
+  return CONTENT_TYPES[key.split(".").pop()?.toLowerCase() || ""] || "application/octet-stream";
+}
+
+/**
+ * Split a media_files.file_url reference into its backend and key
+ * @returns null for plain URLs and anything else not written by a media storage
+ */
+export function parseMediaReference(
+  reference: string
+): { backend: "local"; key: string } | { backend: "s3"; bucket: string; key: string } | null {
+  if (reference.startsWith("local:")) {
+    const key = reference.slice("local:".length);
+    return isSafeKey(key) ? { backend: "local", key } : null;
+  }
+  const s3 = /^s3:\/\/([^/]+)\/(.+)$/.exec(reference);
+  return s3 && isSafeKey(s3[2]) ? { backend: "s3", bucket: s3[1], key: s3[2] } : null;
+}
+
+/**
+ * Keys are relative paths of plain segments, so they can't leave the media directory
+ */
+function isSafeKey(key: string): boolean {
+  return key.split("/").every((segment) => /^[A-Za-z0-9._-]+$/.test(segment) && !/^\.+$/.test(segment));
+}
+
+// ---- Local ----
+
+function signingKey(): Buffer {
+  return createHmac("sha256", getEncryptionKey()).update("media-url-signing").digest();
+}
+
+function localSignature(key: string, expires: number): string {
+  return createHmac("sha256", signingKey()).update(`${key}\n${expires}`).digest("hex");
+}
+
+/**
+ * Check the expiry and signature of a link made by the local storage
+ */
+export function verifyLocalMediaSignature(
+  key: string,
+  expires: string | null,
+  signature: string | null,
+  now: Date = new Date()
+): boolean {
+  const expiresAt = Number(expires);
+  if (!expires || !signature || !Number.isInteger(expiresAt) || expiresAt * 1000 < now.getTime()) return false;
+
+  const expected = Buffer.from(localSignature(key, expiresAt), "hex");
+  const given = Buffer.from(signature, "hex");
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/**
+ * Files under a directory on this server, data/media by default
+ */
+export function createLocalMediaStorage(dir: string = DEFAULT_MEDIA_DIR): MediaStorage {
+  const filePath = (key: string) => {
+    if (!isSafeKey(key)) throw new Error(`Invalid media key: ${key}`);
+    return path.join(dir, ...key.split("/"));
+  };
+
+  return {
+    name: "local",
+    put: async (key, data) => {
+      const file = filePath(key);
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      fs.writeFileSync(file, data);
+      return `local:${key}`;
+    },
+    get: async (key) => {
+      const file = filePath(key);
+      return fs.existsSync(file) ? fs.readFileSync(file) : null;
+    },
+    delete: async (key) => {
+      fs.rmSync(filePath(key), { force: true });
+    },
+    getSignedUrl: (key, expiresInSeconds = DEFAULT_SIGNED_URL_SECONDS, now = new Date()) => {
+      const expires = Math.floor(now.getTime() / 1000) + expiresInSeconds;
+      return `/api/media/files/${key}?expires=${expires}&signature=${localSignature(key, expires)}`;
+    },
+  };
+}
+
+// ---- S3 ----
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac("sha256", key).update(data).digest();
+}
+
+/**
+ * Percent-encode as SigV4 expects, which also encodes !'()*
+ */
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function amzDate(now: Date): string {
+  return now.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/**
+ * Storage in an S3-compatible bucket, called through fetch with Signature Version 4
+ */
+export function createS3MediaStorage(config: S3StorageConfig, fetchImpl: typeof fetch = fetch): MediaStorage {
+  const endpoint = new URL(config.endpoint || `https://s3.${config.region}.amazonaws.com`);
+
+  const objectUrl = (key: string): URL => {
+    const encodedKey = key.split("/").map(encodeRfc3986).join("/");
+    return config.forcePathStyle
+      ? new URL(`${endpoint.protocol}//${endpoint.host}/${config.bucket}/${encodedKey}`)
+      : new URL(`${endpoint.protocol}//${config.bucket}.${endpoint.host}/${encodedKey}`);
+  };
+
+  const credentialScope = (date: string) => `${date}/${config.region}/s3/aws4_request`;
+
+  const signature = (canonicalRequest: string, timestamp: string) => {
+    const date = timestamp.slice(0, 8);
+    const stringToSign = ["AWS4-HMAC-SHA256", timestamp, credentialScope(date), sha256Hex(canonicalRequest)].join("\n");
+    const key = hmac(hmac(hmac(hmac(`AWS4${config.secretAccessKey}`, date), config.region), "s3"), "aws4_request");
+    return createHmac("sha256", key).update(stringToSign).digest("hex");
+  };
+
+  const request = async (method: "PUT" | "GET" | "DELETE", key: string, body?: Buffer, contentType?: string) => {
+    const url = objectUrl(key);
+    const timestamp = amzDate(new Date());
+    const headers: Record<string, string> = {
+      host: url.host,
+      "x-amz-content-sha256": sha256Hex(body || ""),
+      "x-amz-date": timestamp,
+      ...(contentType ? { "content-type": contentType } : {}),
+      ...(config.sessionToken ? { "x-amz-security-token": config.sessionToken } : {}),
+    };
+    const signedHeaders = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      "",
+      ...signedHeaders.map((name) => `${name}:${headers[name]}`),
+      "",
+      signedHeaders.join(";"),
+      headers["x-amz-content-sha256"],
+    ].join("\n");
+
+    // fetch sets the host header itself
+    const sentHeaders = Object.fromEntries(Object.entries(headers).filter(([name]) => name !== "host"));
+    return fetchImpl(url.toString(), {
+      method,
+      headers: {
+        ...sentHeaders,
+        authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${credentialScope(timestamp.slice(0, 8))}, SignedHeaders=${signedHeaders.join(";")}, Signature=${signature(canonicalRequest, timestamp)}`,
+      },
+      ...(body ? { body: new Uint8Array(body) } : {}),
+    });
+  };
+
+  return {
+    name: "s3",
+    put: async (key, data, contentType) => {
+      const response = await request("PUT", key, data, contentType);
+      if (!response.ok) throw new Error(`S3 upload of ${key} failed with status ${response.status}`);
+      return `s3://${config.bucket}/${key}`;
+    },
+    get: async (key) => {
+      const response = await request("GET", key);
+      if (response.status === 404) return null;
+      if (!response.ok) throw new Error(`S3 download of ${key} failed with status ${response.status}`);
+      return Buffer.from(await response.arrayBuffer());
+    },
+    delete: async (key) => {
+      const response = await request("DELETE", key);
+      if (!response.ok && response.status !== 404) {
+        throw new Error(`S3 delete of ${key} failed with status ${response.status}`);
+      }
+    },
+    getSignedUrl: (key, expiresInSeconds = DEFAULT_SIGNED_URL_SECONDS, now = new Date()) => {
+      const url = objectUrl(key);
+      const timestamp = amzDate(now);
+      const query: Record<string, string> = {
+        "X-Amz-Algorithm": "AWS4-HMAC-SHA256",
+        "X-Amz-Credential": `${config.accessKeyId}/${credentialScope(timestamp.slice(0, 8))}`,
+        "X-Amz-Date": timestamp,
+        "X-Amz-Expires": String(expiresInSeconds),
+        ...(config.sessionToken ? { "X-Amz-Security-Token": config.sessionToken } : {}),
+        "X-Amz-SignedHeaders": "host",
+      };
+      const canonicalQuery = Object.keys(query)
+        .sort()
+        .map((name) => `${encodeRfc3986(name)}=${encodeRfc3986(query[name])}`)
+        .join("&");
+      const canonicalRequest = ["GET", url.pathname, canonicalQuery, `host:${url.host}`, "", "host", "UNSIGNED-PAYLOAD"].join(
+        "\n"
+      );
+      return `${url.origin}${url.pathname}?${canonicalQuery}&X-Amz-Signature=${signature(canonicalRequest, timestamp)}`;
+    },
+  };
+}
+
+/**
+ * The storage chosen by MEDIA_STORAGE: "s3" with the S3_* variables, or
+ * "local" (the default)
+ */
+export function getMediaStorage(): MediaStorage {
+  if ((process.env.MEDIA_STORAGE || "local").toLowerCase() === "s3") {
+    const { S3_BUCKET, S3_REGION, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env;
+    if (S3_BUCKET && S3_ACCESS_KEY_ID && S3_SECRET_ACCESS_KEY) {
+      return createS3MediaStorage({
+        bucket: S3_BUCKET,
+        region: S3_REGION || "us-east-1",
+        accessKeyId: S3_ACCESS_KEY_ID,
+        secretAccessKey: S3_SECRET_ACCESS_KEY,
+        sessionToken: process.env.S3_SESSION_TOKEN || undefined,
+        endpoint: process.env.S3_ENDPOINT || undefined,
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+      });
+    }
+    console.warn("[MediaStorage] MEDIA_STORAGE is s3 but S3_BUCKET or its credentials are missing, storing media locally");
+  }
+  return createLocalMediaStorage();
+}
+
+/**
+ * Signed link to a stored file, for the web chat UI
+ * @param reference media_files.file_url or thumbnail_url
+ * @returns The link, the reference itself for plain http(s) URLs, or null
+ *   if it can't be served by the given storage
+ */
+export function getSignedMediaUrl(
+  reference: string,
+  storage: MediaStorage = getMediaStorage(),
+  expiresInSeconds: number = DEFAULT_SIGNED_URL_SECONDS
+): string | null {
+  if (/^https?:\/\//.test(reference)) return reference;
+
+  const parsed = parseMediaReference(reference);
+  if (!parsed || parsed.backend !== storage.name) return null;
+  return storage.getSignedUrl(parsed.key, expiresInSeconds);
+}
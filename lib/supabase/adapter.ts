@@ -7,6 +7,51 @@ import {
   ThreadData,
 } from "./types";
 import { CONVERSATION_USERS_TABLE, CHATS_TABLE } from "./config";
+import {
+  DatabaseAdapterInterface,
+  UserRecord,
+  ChatRecord,
+  ProjectRecord,
+  ProjectHistoryRecord,
+  ProjectEventRecord,
+  ProjectTaskFilter,
+  ProjectTaskRecord,
+  ModelUsageRecord,
+  ModelUsageFilter,
+  MemoryChunkRecord,
+  MemoryChunkFilter,
+  MemoryHistoryRecord,
+  MemoryProvenance,
+  MemoryReviewFilter,
+  MemoryReviewRecord,
+  MemoryReviewStatus,
+  MemoryScope,
+  ModerationLogFilter,
+  ModerationLogRecord,
+  CronJobFilter,
+  CronJobRecord,
+  CronExecutionLogFilter,
+  CronExecutionLogRecord,
+  NewCronJob,
+  MediaFileRecord,
+  NewMediaFile,
+  EmailThreadRecord,
+  EmailMessageRecord,
+  EmailAttachmentRecord,
+  NewEmailThread,
+  NewEmailMessage,
+  NewEmailAttachment,
+  EmailDraftFilter,
+  EmailDraftRecord,
+  EmailDraftStatus,
+  NewEmailDraft,
+  ChatMessageStats,
+  MessageRow,
+  MessageFilter,
+} from "../interfaces/database-adapter";
+import defaultSafetySettings, { SafetySettings } from "../safety-config/safety-settings";
+import { protectStoredMessage, revealStoredMessage } from "../safety-config/redaction";
+import { formatMediaDescription } from "../database/adapter-utils";
 
 /**
  * SupabaseAdapter class provides an interface for database operations
@@ -20,9 +65,11 @@ const MAX_CONTEXT_MESSAGES = 30;
  * SupabaseAdapter class provides an interface for database operations
  * using Supabase as the backend database.
  */
-export class SupabaseAdapter {
+export class SupabaseAdapter implements DatabaseAdapterInterface {
   public readonly supabase: SupabaseClient<Database>;
   private isInitialized: boolean = false;
+  /** Decides how personal data in stored messages is redacted, anonymized or encrypted */
+  safetySettings: SafetySettings = defaultSafetySettings;
 
   constructor(supabaseUrl: string, supabaseKey: string) {
     this.supabase = createClient<Database>(supabaseUrl, supabaseKey);
@@ -30,49 +77,23 @@ export class SupabaseAdapter {
 
   /**
    * Initialize the adapter
+   * Tables are created by the migrations in migrations/ (npm run db:migrate -- up),
+   * so this only checks that they exist.
    */
   async init(): Promise<void> {
-    try {
-      const { error: userTableError } = await this.supabase
-        .from(CONVERSATION_USERS_TABLE)
-        .select("id")
-        .limit(1);
-
-      if (userTableError && userTableError.code !== "PGRST116") {
-        // Table does not exist, create it
-        await this.createUsersTable();
-      }
-
-      const { error: threadsTableError } = await this.supabase
-        .from(CHATS_TABLE)
-        .select("id")
-        .limit(1);
-
-      if (threadsTableError && threadsTableError.code !== "PGRST116") {
-        // Table does not exist, create it
-        await this.createThreadsTable();
-      }
+    await this.ensureTableExists(CONVERSATION_USERS_TABLE);
+    await this.ensureTableExists(CHATS_TABLE);
 
-      this.isInitialized = true;
-    } catch (error) {
-      // Console error removed
-      throw error;
-    }
+    this.isInitialized = true;
   }
 
-  private async createUsersTable(): Promise<void> {
-    const { error } = await this.supabase.rpc("create_users_table");
-    if (error) {
-      // Console error removed
-      throw error;
-    }
-  }
+  private async ensureTableExists(table: string): Promise<void> {
+    const { error } = await this.supabase.from(table).select("id").limit(1);
 
-  private async createThreadsTable(): Promise<void> {
-    const { error } = await this.supabase.rpc("create_threads_table");
-    if (error) {
-      // Console error removed
-      throw error;
+    if (error && error.code !== "PGRST116") {
+      throw new Error(
+        `Supabase table "${table}" is not available (${error.message}). Run \`npm run db:migrate -- up\` to create the database schema.`
+      );
     }
   }
 
@@ -211,7 +232,50 @@ export class SupabaseAdapter {
     }
   }
 
-  async getUserByPhone(phoneNumber: string) {
+  async updateUserById(
+    userId: string,
+    updates: { name?: string; metadata?: Record<string, any> }
+  ): Promise<boolean> {
+    this.ensureInitialized();
+
+    try {
+      const changes: { name?: string; metadata?: Record<string, any> } = { ...updates };
+
+      // Merge metadata with the existing metadata, same as updateUser
+      if (updates.metadata) {
+        const { data: userData, error: fetchError } = await this.supabase
+          .from(CONVERSATION_USERS_TABLE)
+          .select("metadata")
+          .eq("id", userId)
+          .single();
+
+        if (fetchError) {
+          console.error("[updateUserById] Error fetching user:", fetchError);
+          return false;
+        }
+
+        changes.metadata = {
+          ...((userData?.metadata as Record<string, any>) || {}),
+          ...updates.metadata,
+        };
+      }
+
+      const { error } = await this.supabase
+        .from(CONVERSATION_USERS_TABLE)
+        .update(changes)
+        .eq("id", userId);
+
+      if (error) {
+        console.error("[updateUserById] Error updating user:", error);
+      }
+      return !error;
+    } catch (error) {
+      console.error("[updateUserById] Exception updating user:", error);
+      return false;
+    }
+  }
+
+  async getUserByPhone(phoneNumber: string): Promise<UserRecord | null> {
     this.ensureInitialized();
 
     try {
@@ -229,13 +293,31 @@ export class SupabaseAdapter {
         throw error;
       }
 
-      return data;
+      return data as UserRecord;
     } catch (error) {
       // Console error removed
       return null;
     }
   }
 
+  async getUserById(userId: string): Promise<UserRecord | null> {
+    this.ensureInitialized();
+
+    try {
+      const { data, error } = await this.supabase
+        .from(CONVERSATION_USERS_TABLE)
+        .select("*")
+        .eq("id", userId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return (data as UserRecord) || null;
+    } catch (error) {
+      console.error("[getUserById] Error fetching user:", error);
+      return null;
+    }
+  }
+
   /**
    * Thread/Chat Operations
    */
@@ -284,14 +366,19 @@ export class SupabaseAdapter {
 
       // Then add any messages to the messages table
       if (messages.length > 0) {
-        const messagesWithChatId = messages.map((message) => ({
-          chat_id: data.id,
-          content:
-            typeof message.text === "string"
-              ? message.text
-              : JSON.stringify(message),
-          created_at: new Date().toISOString(),
-        }));
+        const messagesWithChatId = messages.map((message) =>
+          protectStoredMessage(
+            {
+              chat_id: data.id,
+              content:
+                typeof message.text === "string"
+                  ? message.text
+                  : JSON.stringify(message),
+              created_at: new Date().toISOString(),
+            },
+            this.safetySettings
+          )
+        );
 
         const { error: messagesError } = await this.supabase
           .from("messages")
@@ -343,7 +430,8 @@ export class SupabaseAdapter {
         .select(
           `
           id, chat_id, sender_id, content, created_at, message_type, external_id, rich_content, service, media_type, media_caption,
-          conversation_users:sender_id(id, created_at, name, phone_number, service, metadata)
+          conversation_users:sender_id(id, created_at, name, phone_number, service, metadata),
+          media_files(metadata)
         `
         )
         .eq("chat_id", chat.id)
@@ -352,7 +440,7 @@ export class SupabaseAdapter {
         .then((result) => {
           if (result.data) {
             // Reverse the array to have newest messages at the bottom
-            result.data = result.data.reverse();
+            result.data = result.data.reverse().map(revealStoredMessage);
           }
           return result;
         });
@@ -431,6 +519,19 @@ export class SupabaseAdapter {
           safeContent = '[Location shared]';
         }
 
+        // Add what was in described media, so later turns can refer to it
+        const mediaMetadata: Record<string, string | undefined>[] = (msg.media_files || []).map(
+          (file: any) => revealStoredMessage({ rich_content: file.metadata }).rich_content || {}
+        );
+        const mediaDescription = mediaMetadata.map((metadata) => metadata.description).find(Boolean);
+        const mediaTranscript = mediaMetadata.map((metadata) => metadata.transcript).find(Boolean);
+        if (msg.message_type === 'audio' && mediaTranscript) {
+          // Transcribed voice notes read as what was said
+          safeContent = mediaTranscript;
+        } else if (mediaDescription) {
+          safeContent = `${safeContent}\n${formatMediaDescription(msg.message_type, mediaDescription)}`;
+        }
+
         const formattedMsg = {
           message_id: msg.id,
           external_id: msg.external_id,
@@ -569,18 +670,21 @@ export class SupabaseAdapter {
           // Extract message content
           const messageContent = message.message_content || message;
 
-          return {
-            chat_id: threadId,
-            content: JSON.stringify(messageContent), // Store full message content as JSON string
-            message_type: message.message_type || "text",
-            service: message.service || "",
-            external_id:
-              message.message_id ||
-              `${Date.now()}-${Math.random().toString(36).substring(2, 10)}`,
-            sender_id: message.sender_id || null,
-            rich_content: messageContent,
-            created_at: message.timestamp || new Date().toISOString(),
-          };
+          return protectStoredMessage(
+            {
+              chat_id: threadId,
+              content: JSON.stringify(messageContent), // Store full message content as JSON string
+              message_type: message.message_type || "text",
+              service: message.service || "",
+              external_id:
+                message.message_id ||
+                `${Date.now()}-${Math.random().toString(36).substring(2, 10)}`,
+              sender_id: message.sender_id || null,
+              rich_content: messageContent,
+              created_at: message.timestamp || new Date().toISOString(),
+            },
+            this.safetySettings
+          );
         });
 
         const { error: insertError } = await this.supabase
@@ -756,6 +860,47 @@ export class SupabaseAdapter {
     }
   }
 
+  /**
+   * Get a chat by its external ID
+   */
+  async getChatByExternalId(externalId: string): Promise<ChatRecord | null> {
+    this.ensureInitialized();
+
+    try {
+      const { data, error } = await this.supabase
+        .from(CHATS_TABLE)
+        .select("*")
+        .eq("external_id", externalId)
+        .maybeSingle(); // Handle duplicates gracefully
+
+      if (error) throw error;
+      return (data as ChatRecord) || null;
+    } catch (error) {
+      console.error("[getChatByExternalId] Error fetching chat:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Get all chats
+   */
+  async getAllChats(): Promise<ChatRecord[]> {
+    this.ensureInitialized();
+
+    try {
+      const { data, error } = await this.supabase
+        .from(CHATS_TABLE)
+        .select("*")
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      return (data as ChatRecord[]) || [];
+    } catch (error) {
+      console.error("[getAllChats] Error fetching chats:", error);
+      return [];
+    }
+  }
+
   /**
    * Add participant to chat
    */
@@ -800,6 +945,55 @@ export class SupabaseAdapter {
     }
   }
 
+  /**
+   * Check whether a user is a participant in a chat
+   */
+  async isChatParticipant(chatId: string, userId: string): Promise<boolean> {
+    this.ensureInitialized();
+
+    try {
+      const { data, error } = await this.supabase
+        .from("chat_participants")
+        .select("user_id")
+        .eq("chat_id", chatId)
+        .eq("user_id", userId)
+        .limit(1);
+
+      if (error) throw error;
+      return !!data && data.length > 0;
+    } catch (error) {
+      console.error("[isChatParticipant] Error checking participant:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Get the users participating in a chat
+   */
+  async getChatParticipants(chatId: string): Promise<UserRecord[]> {
+    this.ensureInitialized();
+
+    try {
+      const { data, error } = await this.supabase
+        .from("chat_participants")
+        .select(
+          `
+          user_id,
+          conversation_users:user_id(id, created_at, name, phone_number, service, metadata)
+        `
+        )
+        .eq("chat_id", chatId);
+
+      if (error) throw error;
+      return (data || [])
+        .map((p: any) => p.conversation_users as UserRecord)
+        .filter(Boolean);
+    } catch (error) {
+      console.error("[getChatParticipants] Error fetching participants:", error);
+      return [];
+    }
+  }
+
   /**
    * Store message from webhook payload
    */
@@ -903,7 +1097,7 @@ export class SupabaseAdapter {
 
       const { data, error } = await this.supabase
         .from("messages")
-        .insert({
+        .insert(protectStoredMessage({
           chat_id: chatId,
           sender_id: senderId,
           external_id: messageId,
@@ -917,7 +1111,7 @@ export class SupabaseAdapter {
           // media_caption: mediaCaption,
           // media_metadata: Object.keys(mediaMetadata).length > 0 ? mediaMetadata : null,
           created_at: new Date().toISOString(),
-        })
+        }, this.safetySettings))
         .select("id")
         .single();
 
@@ -946,6 +1140,43 @@ export class SupabaseAdapter {
     }
   }
 
+  /**
+   * Count messages in a chat, optionally since a date and/or from one sender
+   */
+  async getChatMessageStats(
+    chatId: string,
+    options: { since?: string; senderId?: string } = {}
+  ): Promise<ChatMessageStats> {
+    this.ensureInitialized();
+
+    try {
+      let query = this.supabase
+        .from("messages")
+        .select("created_at", { count: "exact", head: false })
+        .eq("chat_id", chatId);
+
+      if (options.since) {
+        query = query.gte("created_at", options.since);
+      }
+      if (options.senderId) {
+        query = query.eq("sender_id", options.senderId);
+      }
+
+      const { data, count, error } = await query
+        .order("created_at", { ascending: false })
+        .limit(1);
+
+      if (error) throw error;
+      return {
+        count: count || 0,
+        lastMessageAt: data?.[0]?.created_at || null,
+      };
+    } catch (error) {
+      console.error("[getChatMessageStats] Error counting messages:", error);
+      return { count: 0, lastMessageAt: null };
+    }
+  }
+
   /**
    * Project Operations
    */
@@ -1106,6 +1337,28 @@ export class SupabaseAdapter {
     }
   }
 
+  // Get all projects for a set of chats, live projects first
+  async getProjectsForChats(chatIds: string[]): Promise<ProjectRecord[]> {
+    this.ensureInitialized();
+
+    if (chatIds.length === 0) return [];
+
+    try {
+      const { data, error } = await this.supabase
+        .from("projects")
+        .select("*")
+        .in("chat_id", chatIds)
+        .order("is_live", { ascending: false })
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error("Error getting projects for chats:", error);
+      return [];
+    }
+  }
+
   // Log project history event
   async logProjectEvent(
     projectId: string,
@@ -1134,6 +1387,84 @@ export class SupabaseAdapter {
     }
   }
 
+  // Get a project's history, oldest first
+  async getProjectHistory(projectId: string): Promise<ProjectHistoryRecord[]> {
+    this.ensureInitialized();
+
+    try {
+      const { data, error } = await this.supabase
+        .from("project_history")
+        .select("*")
+        .eq("project_id", projectId)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error("Error getting project history:", error);
+      return [];
+    }
+  }
+
+  // Record an action/task event against a project
+  async addProjectEvent(
+    projectId: string,
+    eventType: string,
+    description: string,
+    metadata: Record<string, any> = {}
+  ): Promise<string | null> {
+    this.ensureInitialized();
+
+    try {
+      const { data, error } = await this.supabase
+        .from("project_events")
+        .insert({
+          project_id: projectId,
+          event_type: eventType,
+          description,
+          metadata,
+          created_at: new Date().toISOString(),
+        })
+        .select("id")
+        .single();
+
+      if (error) throw error;
+      return data.id;
+    } catch (error) {
+      console.error("Error adding project event:", error);
+      return null;
+    }
+  }
+
+  // Get events for a set of projects, optionally since a date
+  async getProjectEvents(
+    projectIds: string[],
+    since?: string
+  ): Promise<ProjectEventRecord[]> {
+    this.ensureInitialized();
+
+    if (projectIds.length === 0) return [];
+
+    try {
+      let query = this.supabase
+        .from("project_events")
+        .select("*")
+        .in("project_id", projectIds);
+
+      if (since) {
+        query = query.gte("created_at", since);
+      }
+
+      const { data, error } = await query.order("created_at", { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error("Error getting project events:", error);
+      return [];
+    }
+  }
+
   /**
    * Update metadata for a chat
    * @param chatId ID of the chat to update
@@ -1338,7 +1669,8 @@ export class SupabaseAdapter {
   async upsertUserMemoryValue(
     userId: string,
     fieldId: string,
-    value: string
+    value: string,
+    provenance?: MemoryProvenance
   ): Promise<{ data: any; error: any }> {
     // Return data and error for consistency
 
@@ -1457,6 +1789,15 @@ export class SupabaseAdapter {
         `[SupabaseAdapter] Error upserting user memory for user ${userIdentifier}, field ${fieldId}:`,
         error
       );
+    } else {
+      await this.recordMemoryChange(
+        "user",
+        userIdentifier,
+        fieldId,
+        existingMemory?.value ?? null,
+        memory[fieldId].value,
+        provenance
+      );
     }
     return { data, error };
   }
@@ -1465,7 +1806,8 @@ export class SupabaseAdapter {
   async upsertChatThreadMemoryValue(
     chatId: string,
     fieldId: string,
-    value: string
+    value: string,
+    provenance?: MemoryProvenance
   ): Promise<{ data: any; error: any }> {
     // Return data and error for consistency
 
@@ -1580,6 +1922,15 @@ export class SupabaseAdapter {
         `[SupabaseAdapter] Error upserting chat memory for chat ${internalChatId}, field ${fieldId}:`,
         error
       );
+    } else {
+      await this.recordMemoryChange(
+        "chat",
+        internalChatId,
+        fieldId,
+        existingMemory?.value ?? null,
+        memory[fieldId].value,
+        provenance
+      );
     }
     return { data, error };
   }
@@ -1666,7 +2017,8 @@ export class SupabaseAdapter {
    */
   async deleteUserMemoryValue(
     userId: string,
-    fieldId: string
+    fieldId: string,
+    provenance?: MemoryProvenance
   ): Promise<{ success: boolean; error: any }> {
     try {
       // Check if userId is a phone number and normalize it
@@ -1741,6 +2093,14 @@ export class SupabaseAdapter {
         return { success: false, error };
       }
 
+      await this.recordMemoryChange(
+        "user",
+        userIdentifier,
+        fieldId,
+        currentUser.memory[fieldId].value ?? null,
+        null,
+        provenance
+      );
       return { success: true, error: null };
     } catch (error) {
       console.error(
@@ -1799,7 +2159,8 @@ export class SupabaseAdapter {
    */
   async deleteChatMemoryValue(
     chatId: string,
-    fieldId: string
+    fieldId: string,
+    provenance?: MemoryProvenance
   ): Promise<{ success: boolean; error: any }> {
     try {
       // First get the current memory object
@@ -1840,6 +2201,14 @@ export class SupabaseAdapter {
         return { success: false, error };
       }
 
+      await this.recordMemoryChange(
+        "chat",
+        chatId,
+        fieldId,
+        currentChat.memory[fieldId].value ?? null,
+        null,
+        provenance
+      );
       return { success: true, error: null };
     } catch (error) {
       console.error(
@@ -1982,15 +2351,38 @@ export class SupabaseAdapter {
   }
 
   /**
-   * Update the status of a message
-   * @param params Object containing messageId, status, and optional error details
-   * @returns Success status
+   * Get a stored message by its external message ID
+   * @param messageId External message ID
+   * @returns Message if found, null if not
    */
-  async updateMessageStatus(params: {
-    messageId: string;
-    status: string;
-    updatedAt: string;
-    errorCode?: string;
+  async getMessageByExternalId(messageId: string): Promise<MessageRow | null> {
+    this.ensureInitialized();
+
+    try {
+      const { data, error } = await this.supabase
+        .from("messages")
+        .select("*")
+        .eq("external_id", messageId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data ? revealStoredMessage(data) : null;
+    } catch (error) {
+      console.error("[getMessageByExternalId] Error getting message:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Update the status of a message
+   * @param params Object containing messageId, status, and optional error details
+   * @returns Success status
+   */
+  async updateMessageStatus(params: {
+    messageId: string;
+    status: string;
+    updatedAt: string;
+    errorCode?: string;
     errorMessage?: string;
   }): Promise<boolean> {
     this.ensureInitialized();
@@ -2234,7 +2626,7 @@ export class SupabaseAdapter {
         return [];
       }
 
-      return messages.map((msg: any) => ({
+      return messages.map(revealStoredMessage).map((msg: any) => ({
         id: msg.id,
         content: msg.content,
         timestamp: msg.created_at,
@@ -2290,7 +2682,7 @@ export class SupabaseAdapter {
       const messageId = require('crypto').randomUUID();
       const { data: message, error: messageError } = await this.supabase
         .from('messages')
-        .insert({
+        .insert(protectStoredMessage({
           id: messageId,
           chat_id: chat.id,
           sender_id: senderId,
@@ -2299,7 +2691,7 @@ export class SupabaseAdapter {
           service: 'web-ui',
           external_id: messageId,
           created_at: new Date().toISOString(),
-        })
+        }, this.safetySettings))
         .select('id, content, created_at, sender_id')
         .single();
 
@@ -2317,7 +2709,7 @@ export class SupabaseAdapter {
 
       return {
         id: message.id,
-        content: message.content,
+        content,
         timestamp: message.created_at,
         senderId: message.sender_id,
         senderName: sender?.name || 'Unknown',
@@ -2383,4 +2775,1136 @@ export class SupabaseAdapter {
       return false;
     }
   }
+
+  // Record the tokens and cost of a model call
+  async recordModelUsage(
+    usage: Omit<ModelUsageRecord, "id" | "created_at">
+  ): Promise<string | null> {
+    this.ensureInitialized();
+
+    try {
+      const { data, error } = await this.supabase
+        .from("model_usage")
+        .insert({ ...usage, created_at: new Date().toISOString() })
+        .select("id")
+        .single();
+
+      if (error) throw error;
+      return data.id;
+    } catch (error) {
+      console.error("Error recording model usage:", error);
+      return null;
+    }
+  }
+
+  // Get model usage, optionally filtered by time, chat, user and task
+  async getModelUsage(filter: ModelUsageFilter = {}): Promise<ModelUsageRecord[]> {
+    this.ensureInitialized();
+
+    try {
+      let query = this.supabase.from("model_usage").select("*");
+
+      if (filter.since) query = query.gte("created_at", filter.since);
+      if (filter.chatId) query = query.eq("chat_id", filter.chatId);
+      if (filter.userId) query = query.eq("user_id", filter.userId);
+      if (filter.task) query = query.eq("task", filter.task);
+
+      const { data, error } = await query.order("created_at", { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error("Error getting model usage:", error);
+      return [];
+    }
+  }
+
+  // Get every user, oldest first
+  async getAllUsers(): Promise<UserRecord[]> {
+    this.ensureInitialized();
+
+    try {
+      const { data, error } = await this.supabase
+        .from(CONVERSATION_USERS_TABLE)
+        .select("*")
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      return (data as UserRecord[]) || [];
+    } catch (error) {
+      console.error("Error getting all users:", error);
+      return [];
+    }
+  }
+
+  // Replace a user's identifying fields and unlink their model usage
+  async anonymizeUser(
+    userId: string,
+    pseudonym: string,
+    metadata: Record<string, any> = {}
+  ): Promise<boolean> {
+    this.ensureInitialized();
+
+    try {
+      const { data: user, error: fetchError } = await this.supabase
+        .from(CONVERSATION_USERS_TABLE)
+        .select("id, phone_number")
+        .eq("id", userId)
+        .maybeSingle();
+
+      if (fetchError) throw fetchError;
+      if (!user) return false;
+
+      // Usage is recorded against the sender's number as well as the user ID
+      const identifiers = [userId];
+      if (user.phone_number) identifiers.push(`${user.phone_number}`, `+${user.phone_number}`);
+      const { error: usageError } = await this.supabase
+        .from("model_usage")
+        .update({ user_id: null })
+        .in("user_id", identifiers);
+
+      if (usageError) throw usageError;
+
+      const { error } = await this.supabase
+        .from(CONVERSATION_USERS_TABLE)
+        .update({ name: pseudonym, phone_number: null, metadata, memory: {} })
+        .eq("id", userId);
+
+      if (error) throw error;
+      return true;
+    } catch (error) {
+      console.error("Error anonymizing user:", error);
+      return false;
+    }
+  }
+
+  // Get messages by chat and/or sender, oldest first
+  async getMessages(filter: MessageFilter): Promise<MessageRow[]> {
+    this.ensureInitialized();
+
+    if (!filter.chatId && !filter.senderId) return [];
+
+    try {
+      let query = this.supabase.from("messages").select("*");
+
+      if (filter.chatId) query = query.eq("chat_id", filter.chatId);
+      if (filter.senderId) query = query.eq("sender_id", filter.senderId);
+      if (filter.before) query = query.lt("created_at", filter.before);
+
+      const { data, error } = await query.order("created_at", { ascending: true });
+
+      if (error) throw error;
+      return ((data as MessageRow[]) || []).map(revealStoredMessage);
+    } catch (error) {
+      console.error("Error getting messages:", error);
+      return [];
+    }
+  }
+
+  // Delete messages by chat and/or sender
+  async deleteMessages(filter: MessageFilter): Promise<number> {
+    this.ensureInitialized();
+
+    if (!filter.chatId && !filter.senderId) return 0;
+
+    try {
+      let query = this.supabase.from("messages").delete({ count: "exact" });
+
+      if (filter.chatId) query = query.eq("chat_id", filter.chatId);
+      if (filter.senderId) query = query.eq("sender_id", filter.senderId);
+      if (filter.before) query = query.lt("created_at", filter.before);
+
+      const { count, error } = await query;
+
+      if (error) throw error;
+      return count || 0;
+    } catch (error) {
+      console.error("Error deleting messages:", error);
+      return 0;
+    }
+  }
+
+  // Delete a project with its history, events and tasks
+  async deleteProject(projectId: string): Promise<boolean> {
+    this.ensureInitialized();
+
+    try {
+      for (const table of ["project_history", "project_events", "project_tasks"] as const) {
+        const { error } = await this.supabase.from(table).delete().eq("project_id", projectId);
+        if (error) throw error;
+      }
+
+      const { error } = await this.supabase.from("projects").delete().eq("id", projectId);
+
+      if (error) throw error;
+      return true;
+    } catch (error) {
+      console.error("Error deleting project:", error);
+      return false;
+    }
+  }
+
+  // Store a memory chunk with its embedding
+  async addMemoryChunk(
+    chunk: Omit<MemoryChunkRecord, "id" | "created_at">
+  ): Promise<string | null> {
+    this.ensureInitialized();
+
+    try {
+      const { data, error } = await this.supabase
+        .from("memory_chunks")
+        .insert({ ...chunk, created_at: new Date().toISOString() })
+        .select("id")
+        .single();
+
+      if (error) throw error;
+      return data.id;
+    } catch (error) {
+      console.error("Error adding memory chunk:", error);
+      return null;
+    }
+  }
+
+  // Get memory chunks by user and/or chat, newest first
+  async getMemoryChunks(filter: MemoryChunkFilter): Promise<MemoryChunkRecord[]> {
+    this.ensureInitialized();
+
+    if (!filter.userId && !filter.chatId) return [];
+
+    try {
+      let query = this.supabase.from("memory_chunks").select("*");
+
+      if (filter.userId) query = query.eq("user_id", filter.userId);
+      if (filter.chatId) query = query.eq("chat_id", filter.chatId);
+      if (filter.before) query = query.lt("created_at", filter.before);
+
+      query = query.order("created_at", { ascending: false });
+      if (filter.limit) query = query.limit(filter.limit);
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      return (data as MemoryChunkRecord[]) || [];
+    } catch (error) {
+      console.error("Error getting memory chunks:", error);
+      return [];
+    }
+  }
+
+  // Delete memory chunks by user and/or chat
+  async deleteMemoryChunks(filter: MemoryChunkFilter): Promise<number> {
+    this.ensureInitialized();
+
+    if (!filter.userId && !filter.chatId) return 0;
+
+    try {
+      let query = this.supabase.from("memory_chunks").delete({ count: "exact" });
+
+      if (filter.userId) query = query.eq("user_id", filter.userId);
+      if (filter.chatId) query = query.eq("chat_id", filter.chatId);
+      if (filter.before) query = query.lt("created_at", filter.before);
+
+      const { count, error } = await query;
+
+      if (error) throw error;
+      return count || 0;
+    } catch (error) {
+      console.error("Error deleting memory chunks:", error);
+      return 0;
+    }
+  }
+
+  // Record a change to a memory field in memory_history
+  private async recordMemoryChange(
+    scope: MemoryScope,
+    ownerId: string,
+    fieldId: string,
+    previousValue: string | null,
+    newValue: string | null,
+    provenance: MemoryProvenance = {}
+  ): Promise<void> {
+    try {
+      const { error } = await this.supabase.from("memory_history").insert({
+        scope,
+        owner_id: ownerId,
+        field_id: fieldId,
+        previous_value: previousValue,
+        new_value: newValue,
+        source: provenance.source || "manual",
+        source_message_id: provenance.sourceMessageId || null,
+        model: provenance.model || null,
+        metadata: provenance.metadata || {},
+        created_at: new Date().toISOString(),
+      });
+
+      if (error) throw error;
+    } catch (error) {
+      // The memory itself was saved, so only the history entry is lost
+      console.error("Error recording memory change:", error);
+    }
+  }
+
+  // Set a memory field to exactly this value, or delete it when the value is null
+  async setMemoryValue(
+    scope: MemoryScope,
+    ownerId: string,
+    fieldId: string,
+    value: string | null,
+    provenance?: MemoryProvenance
+  ): Promise<boolean> {
+    this.ensureInitialized();
+
+    if (value === null) {
+      const { success } =
+        scope === "chat"
+          ? await this.deleteChatMemoryValue(ownerId, fieldId, provenance)
+          : await this.deleteUserMemoryValue(ownerId, fieldId, provenance);
+      return success;
+    }
+
+    const table = scope === "chat" ? CHATS_TABLE : CONVERSATION_USERS_TABLE;
+    try {
+      const { data: owner, error: fetchError } = await this.supabase
+        .from(table)
+        .select("memory")
+        .eq("id", ownerId)
+        .maybeSingle();
+
+      if (fetchError) throw fetchError;
+      if (!owner) return false;
+
+      const memory = owner.memory || {};
+      const existing = memory[fieldId];
+      if (existing?.value === value) return true;
+
+      memory[fieldId] = {
+        value,
+        updated_at: new Date().toISOString(),
+        ...(existing ? { previous_value: existing.value } : {}),
+      };
+
+      const { error } = await this.supabase.from(table).update({ memory }).eq("id", ownerId);
+
+      if (error) throw error;
+      await this.recordMemoryChange(scope, ownerId, fieldId, existing?.value ?? null, value, provenance);
+      return true;
+    } catch (error) {
+      console.error("Error setting memory value:", error);
+      return false;
+    }
+  }
+
+  // Get the changes to a user's or chat's memory, newest first
+  async getMemoryHistory(
+    scope: MemoryScope,
+    ownerId: string,
+    fieldId?: string
+  ): Promise<MemoryHistoryRecord[]> {
+    this.ensureInitialized();
+
+    try {
+      let query = this.supabase
+        .from("memory_history")
+        .select("*")
+        .eq("scope", scope)
+        .eq("owner_id", ownerId);
+
+      if (fieldId) query = query.eq("field_id", fieldId);
+
+      const { data, error } = await query.order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return (data as MemoryHistoryRecord[]) || [];
+    } catch (error) {
+      console.error("Error getting memory history:", error);
+      return [];
+    }
+  }
+
+  // Get one memory change by ID
+  async getMemoryHistoryEntry(historyId: string): Promise<MemoryHistoryRecord | null> {
+    this.ensureInitialized();
+
+    try {
+      const { data, error } = await this.supabase
+        .from("memory_history")
+        .select("*")
+        .eq("id", historyId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data as MemoryHistoryRecord | null;
+    } catch (error) {
+      console.error("Error getting memory history entry:", error);
+      return null;
+    }
+  }
+
+  // Delete every recorded change to a user's or chat's memory
+  async deleteMemoryHistory(scope: MemoryScope, ownerId: string): Promise<number> {
+    this.ensureInitialized();
+
+    try {
+      const { count, error } = await this.supabase
+        .from("memory_history")
+        .delete({ count: "exact" })
+        .eq("scope", scope)
+        .eq("owner_id", ownerId);
+
+      if (error) throw error;
+      return count || 0;
+    } catch (error) {
+      console.error("Error deleting memory history:", error);
+      return 0;
+    }
+  }
+
+  // Queue a suggested memory update for review
+  async addMemoryReview(
+    review: Omit<MemoryReviewRecord, "id" | "created_at" | "status" | "reviewed_at" | "applied_value">
+  ): Promise<string | null> {
+    this.ensureInitialized();
+
+    try {
+      const { data, error } = await this.supabase
+        .from("memory_review_queue")
+        .insert({ ...review, status: "pending", created_at: new Date().toISOString() })
+        .select("id")
+        .single();
+
+      if (error) throw error;
+      return data?.id || null;
+    } catch (error) {
+      console.error("Error queueing memory review:", error);
+      return null;
+    }
+  }
+
+  // Get queued memory updates, oldest first
+  async getMemoryReviews(filter: MemoryReviewFilter = {}): Promise<MemoryReviewRecord[]> {
+    this.ensureInitialized();
+
+    try {
+      let query = this.supabase.from("memory_review_queue").select("*");
+
+      if (filter.status) query = query.eq("status", filter.status);
+      if (filter.scope) query = query.eq("scope", filter.scope);
+      if (filter.ownerId) query = query.eq("owner_id", filter.ownerId);
+
+      const { data, error } = await query.order("created_at", { ascending: true });
+
+      if (error) throw error;
+      return (data as MemoryReviewRecord[]) || [];
+    } catch (error) {
+      console.error("Error getting memory reviews:", error);
+      return [];
+    }
+  }
+
+  // Get one queued memory update by ID
+  async getMemoryReview(reviewId: string): Promise<MemoryReviewRecord | null> {
+    this.ensureInitialized();
+
+    try {
+      const { data, error } = await this.supabase
+        .from("memory_review_queue")
+        .select("*")
+        .eq("id", reviewId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data as MemoryReviewRecord | null;
+    } catch (error) {
+      console.error("Error getting memory review:", error);
+      return null;
+    }
+  }
+
+  // Mark a pending memory update as approved or rejected
+  async resolveMemoryReview(
+    reviewId: string,
+    status: Exclude<MemoryReviewStatus, "pending">,
+    appliedValue: string | null = null
+  ): Promise<boolean> {
+    this.ensureInitialized();
+
+    try {
+      // Only pending updates match, so an update can't be reviewed twice
+      const { count, error } = await this.supabase
+        .from("memory_review_queue")
+        .update(
+          { status, applied_value: appliedValue, reviewed_at: new Date().toISOString() },
+          { count: "exact" }
+        )
+        .eq("id", reviewId)
+        .eq("status", "pending");
+
+      if (error) throw error;
+      return (count || 0) > 0;
+    } catch (error) {
+      console.error("Error resolving memory review:", error);
+      return false;
+    }
+  }
+
+  // Delete every queued update for a user's or chat's memory
+  async deleteMemoryReviews(scope: MemoryScope, ownerId: string): Promise<number> {
+    this.ensureInitialized();
+
+    try {
+      const { count, error } = await this.supabase
+        .from("memory_review_queue")
+        .delete({ count: "exact" })
+        .eq("scope", scope)
+        .eq("owner_id", ownerId);
+
+      if (error) throw error;
+      return count || 0;
+    } catch (error) {
+      console.error("Error deleting memory reviews:", error);
+      return 0;
+    }
+  }
+
+  // Record a message flagged by the moderation pipeline
+  async addModerationLog(entry: Omit<ModerationLogRecord, "id" | "created_at">): Promise<string | null> {
+    this.ensureInitialized();
+
+    try {
+      const { data, error } = await this.supabase
+        .from("moderation_log")
+        .insert({ ...entry, created_at: new Date().toISOString() })
+        .select("id")
+        .single();
+
+      if (error) throw error;
+      return data?.id || null;
+    } catch (error) {
+      console.error("Error adding moderation log entry:", error);
+      return null;
+    }
+  }
+
+  // Get moderation log entries, newest first
+  async getModerationLog(filter: ModerationLogFilter = {}): Promise<ModerationLogRecord[]> {
+    this.ensureInitialized();
+
+    try {
+      let query = this.supabase.from("moderation_log").select("*");
+
+      if (filter.since) query = query.gte("created_at", filter.since);
+      if (filter.threadId) query = query.eq("thread_id", filter.threadId);
+      if (filter.action) query = query.eq("action", filter.action);
+      if (filter.direction) query = query.eq("direction", filter.direction);
+
+      query = query.order("created_at", { ascending: false });
+      if (filter.limit) query = query.limit(filter.limit);
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      return (data as ModerationLogRecord[]) || [];
+    } catch (error) {
+      console.error("Error getting moderation log:", error);
+      return [];
+    }
+  }
+
+  // Delete the moderation log entries of a thread
+  async deleteModerationLog(threadId: string): Promise<number> {
+    this.ensureInitialized();
+
+    try {
+      const { count, error } = await this.supabase
+        .from("moderation_log")
+        .delete({ count: "exact" })
+        .eq("thread_id", threadId);
+
+      if (error) throw error;
+      return count || 0;
+    } catch (error) {
+      console.error("Error deleting moderation log:", error);
+      return 0;
+    }
+  }
+
+  // Add a task to a project
+  async createProjectTask(
+    task: Pick<ProjectTaskRecord, "project_id" | "title"> &
+      Partial<Pick<ProjectTaskRecord, "assignee_id" | "due_at" | "created_by">>
+  ): Promise<string | null> {
+    this.ensureInitialized();
+
+    try {
+      const now = new Date().toISOString();
+      const { data, error } = await this.supabase
+        .from("project_tasks")
+        .insert({ ...task, status: "open", created_at: now, updated_at: now })
+        .select("id")
+        .single();
+
+      if (error) throw error;
+      return data?.id || null;
+    } catch (error) {
+      console.error("Error creating project task:", error);
+      return null;
+    }
+  }
+
+  // Update a task, recording when it was completed
+  async updateProjectTask(
+    taskId: string,
+    updates: Partial<Pick<ProjectTaskRecord, "title" | "status" | "assignee_id" | "due_at">>
+  ): Promise<boolean> {
+    this.ensureInitialized();
+
+    try {
+      const now = new Date().toISOString();
+      const changes: Record<string, unknown> = { ...updates, updated_at: now };
+      if (updates.status) {
+        changes.completed_at = updates.status === "done" ? now : null;
+      }
+
+      const { data, error } = await this.supabase
+        .from("project_tasks")
+        .update(changes)
+        .eq("id", taskId)
+        .select("id");
+
+      if (error) throw error;
+      return (data?.length || 0) > 0;
+    } catch (error) {
+      console.error("Error updating project task:", error);
+      return false;
+    }
+  }
+
+  // Get a task by ID
+  async getProjectTask(taskId: string): Promise<ProjectTaskRecord | null> {
+    this.ensureInitialized();
+
+    try {
+      const { data, error } = await this.supabase
+        .from("project_tasks")
+        .select("*")
+        .eq("id", taskId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return (data as ProjectTaskRecord) || null;
+    } catch (error) {
+      console.error("Error getting project task:", error);
+      return null;
+    }
+  }
+
+  // Get tasks by project, status, assignee and due date, oldest first
+  async getProjectTasks(filter: ProjectTaskFilter = {}): Promise<ProjectTaskRecord[]> {
+    this.ensureInitialized();
+
+    if (filter.projectIds && filter.projectIds.length === 0) return [];
+
+    try {
+      let query = this.supabase.from("project_tasks").select("*");
+
+      if (filter.projectIds) query = query.in("project_id", filter.projectIds);
+      if (filter.status) query = query.eq("status", filter.status);
+      if (filter.assigneeId) query = query.eq("assignee_id", filter.assigneeId);
+      if (filter.dueBefore) query = query.lt("due_at", filter.dueBefore);
+
+      const { data, error } = await query.order("created_at", { ascending: true });
+
+      if (error) throw error;
+      return (data as ProjectTaskRecord[]) || [];
+    } catch (error) {
+      console.error("Error getting project tasks:", error);
+      return [];
+    }
+  }
+
+  // Delete a task
+  async deleteProjectTask(taskId: string): Promise<boolean> {
+    this.ensureInitialized();
+
+    try {
+      const { count, error } = await this.supabase
+        .from("project_tasks")
+        .delete({ count: "exact" })
+        .eq("id", taskId);
+
+      if (error) throw error;
+      return (count || 0) > 0;
+    } catch (error) {
+      console.error("Error deleting project task:", error);
+      return false;
+    }
+  }
+
+  // Store a job for the local cron scheduler
+  async createCronJob(job: NewCronJob): Promise<string | null> {
+    this.ensureInitialized();
+
+    try {
+      const now = new Date().toISOString();
+      const { data, error } = await this.supabase
+        .from("local_cron_jobs")
+        .insert({ ...job, created_at: now, updated_at: now })
+        .select("id")
+        .single();
+
+      if (error) throw error;
+      return data?.id || null;
+    } catch (error) {
+      console.error("Error creating cron job:", error);
+      return null;
+    }
+  }
+
+  // Update a job, optionally only while its next run and retry are unchanged
+  async updateCronJob(
+    jobId: string,
+    updates: Partial<Omit<CronJobRecord, "id" | "created_at" | "updated_at">>,
+    expected: Partial<Pick<CronJobRecord, "next_run_at" | "retry_at">> = {}
+  ): Promise<boolean> {
+    this.ensureInitialized();
+
+    try {
+      let query = this.supabase
+        .from("local_cron_jobs")
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq("id", jobId);
+
+      for (const column of ["next_run_at", "retry_at"] as const) {
+        const value = expected[column];
+        if (value === null) query = query.is(column, null);
+        else if (value !== undefined) query = query.eq(column, value);
+      }
+
+      const { data, error } = await query.select("id");
+
+      if (error) throw error;
+      return (data?.length || 0) > 0;
+    } catch (error) {
+      console.error("Error updating cron job:", error);
+      return false;
+    }
+  }
+
+  // Get a cron job by ID
+  async getCronJob(jobId: string): Promise<CronJobRecord | null> {
+    this.ensureInitialized();
+
+    try {
+      const { data, error } = await this.supabase
+        .from("local_cron_jobs")
+        .select("*")
+        .eq("id", jobId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return (data as CronJobRecord) || null;
+    } catch (error) {
+      console.error("Error getting cron job:", error);
+      return null;
+    }
+  }
+
+  // Get cron jobs by active state and due time, oldest first
+  async getCronJobs(filter: CronJobFilter = {}): Promise<CronJobRecord[]> {
+    this.ensureInitialized();
+
+    try {
+      let query = this.supabase.from("local_cron_jobs").select("*");
+
+      if (filter.isActive !== undefined) query = query.eq("is_active", filter.isActive);
+      if (filter.dueBefore) {
+        query = query.or(`next_run_at.lte.${filter.dueBefore},retry_at.lte.${filter.dueBefore}`);
+      }
+
+      const { data, error } = await query.order("created_at", { ascending: true });
+
+      if (error) throw error;
+      return (data as CronJobRecord[]) || [];
+    } catch (error) {
+      console.error("Error getting cron jobs:", error);
+      return [];
+    }
+  }
+
+  // Delete a cron job with its execution logs
+  async deleteCronJob(jobId: string): Promise<boolean> {
+    this.ensureInitialized();
+
+    try {
+      const { error: logsError } = await this.supabase
+        .from("local_cron_execution_logs")
+        .delete()
+        .eq("cron_job_id", jobId);
+      if (logsError) throw logsError;
+
+      const { count, error } = await this.supabase
+        .from("local_cron_jobs")
+        .delete({ count: "exact" })
+        .eq("id", jobId);
+
+      if (error) throw error;
+      return (count || 0) > 0;
+    } catch (error) {
+      console.error("Error deleting cron job:", error);
+      return false;
+    }
+  }
+
+  // Record an execution attempt of a cron job
+  async addCronExecutionLog(log: Omit<CronExecutionLogRecord, "id">): Promise<string | null> {
+    this.ensureInitialized();
+
+    try {
+      const { data, error } = await this.supabase
+        .from("local_cron_execution_logs")
+        .insert(log)
+        .select("id")
+        .single();
+
+      if (error) throw error;
+      return data?.id || null;
+    } catch (error) {
+      console.error("Error adding cron execution log:", error);
+      return null;
+    }
+  }
+
+  // Get a cron job's execution logs, newest first
+  async getCronExecutionLogs(
+    jobId: string,
+    filter: CronExecutionLogFilter = {}
+  ): Promise<CronExecutionLogRecord[]> {
+    this.ensureInitialized();
+
+    try {
+      let query = this.supabase.from("local_cron_execution_logs").select("*").eq("cron_job_id", jobId);
+
+      if (filter.status) query = query.eq("status", filter.status);
+      if (filter.since) query = query.gte("executed_at", filter.since);
+      if (filter.until) query = query.lte("executed_at", filter.until);
+
+      query = query.order("executed_at", { ascending: false });
+      if (filter.limit) query = query.limit(filter.limit);
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      return (data as CronExecutionLogRecord[]) || [];
+    } catch (error) {
+      console.error("Error getting cron execution logs:", error);
+      return [];
+    }
+  }
+
+  // Store a file sent with a message
+  async addMediaFile(file: NewMediaFile): Promise<string | null> {
+    this.ensureInitialized();
+
+    try {
+      // Descriptions hold message text, so personal data in them is protected the same way
+      const { rich_content: metadata } = protectStoredMessage(
+        { rich_content: file.metadata || {} },
+        this.safetySettings
+      );
+      const { data, error } = await this.supabase
+        .from("media_files")
+        .insert({ ...file, metadata })
+        .select("id")
+        .single();
+
+      if (error) throw error;
+      return data?.id || null;
+    } catch (error) {
+      console.error("Error adding media file:", error);
+      return null;
+    }
+  }
+
+  // Get the files sent with messages, oldest first
+  async getMediaFiles(messageIds: string[]): Promise<MediaFileRecord[]> {
+    this.ensureInitialized();
+    if (messageIds.length === 0) return [];
+
+    try {
+      const { data, error } = await this.supabase
+        .from("media_files")
+        .select("*")
+        .in("message_id", messageIds)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      return ((data as MediaFileRecord[]) || []).map((file) => ({
+        ...file,
+        metadata: revealStoredMessage({ rich_content: file.metadata }).rich_content,
+      }));
+    } catch (error) {
+      console.error("Error getting media files:", error);
+      return [];
+    }
+  }
+
+  // Start an email thread
+  async createEmailThread(thread: NewEmailThread): Promise<string | null> {
+    this.ensureInitialized();
+
+    try {
+      const { data, error } = await this.supabase
+        .from("email_threads")
+        .insert(thread)
+        .select("id")
+        .single();
+
+      if (error) throw error;
+      return data?.id || null;
+    } catch (error) {
+      console.error("Error creating email thread:", error);
+      return null;
+    }
+  }
+
+  // Get the threads between two addresses, latest activity first
+  async getEmailThreadsBetween(addressA: string, addressB: string): Promise<EmailThreadRecord[]> {
+    this.ensureInitialized();
+
+    try {
+      const a = JSON.stringify(addressA);
+      const b = JSON.stringify(addressB);
+      const { data, error } = await this.supabase
+        .from("email_threads")
+        .select("*")
+        .or(
+          `and(sender_email.eq.${a},recipient_email.eq.${b}),and(sender_email.eq.${b},recipient_email.eq.${a})`
+        )
+        .order("updated_at", { ascending: false });
+
+      if (error) throw error;
+      return (data as EmailThreadRecord[]) || [];
+    } catch (error) {
+      console.error("Error getting email threads:", error);
+      return [];
+    }
+  }
+
+  // Store an email, marking the thread's inbound emails as replied when it is outbound.
+  // The update_thread_timestamp trigger moves the thread's updated_at.
+  async addEmailMessage(message: NewEmailMessage): Promise<string | null> {
+    this.ensureInitialized();
+
+    try {
+      const { data, error } = await this.supabase
+        .from("email_messages")
+        .insert(message)
+        .select("id, created_at")
+        .single();
+
+      if (error) throw error;
+
+      if (message.direction === "outbound") {
+        const { error: repliedError } = await this.supabase
+          .from("email_messages")
+          .update({ is_replied: true, replied_at: data.created_at })
+          .eq("thread_id", message.thread_id)
+          .eq("direction", "inbound")
+          .eq("is_replied", false);
+        if (repliedError) console.error("Error marking emails as replied:", repliedError);
+      }
+      return data?.id || null;
+    } catch (error) {
+      console.error("Error adding email message:", error);
+      return null;
+    }
+  }
+
+  // Get the latest emails in a thread, oldest first
+  async getEmailMessages(threadId: string, limit?: number): Promise<EmailMessageRecord[]> {
+    this.ensureInitialized();
+
+    try {
+      let query = this.supabase
+        .from("email_messages")
+        .select("*")
+        .eq("thread_id", threadId)
+        .order("created_at", { ascending: false });
+      if (limit) query = query.limit(limit);
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      return ((data as EmailMessageRecord[]) || []).reverse();
+    } catch (error) {
+      console.error("Error getting email messages:", error);
+      return [];
+    }
+  }
+
+  // Get stored emails by their Message-ID header, oldest first
+  async getEmailMessagesByMessageIds(messageIds: string[]): Promise<EmailMessageRecord[]> {
+    this.ensureInitialized();
+    if (messageIds.length === 0) return [];
+
+    try {
+      const { data, error } = await this.supabase
+        .from("email_messages")
+        .select("*")
+        .in("message_id_header", messageIds)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      return (data as EmailMessageRecord[]) || [];
+    } catch (error) {
+      console.error("Error getting email messages by Message-ID:", error);
+      return [];
+    }
+  }
+
+  // Store an attachment of an email
+  async addEmailAttachment(attachment: NewEmailAttachment): Promise<string | null> {
+    this.ensureInitialized();
+
+    try {
+      const { data, error } = await this.supabase
+        .from("email_attachments")
+        .insert(attachment)
+        .select("id")
+        .single();
+
+      if (error) throw error;
+      return data?.id || null;
+    } catch (error) {
+      console.error("Error adding email attachment:", error);
+      return null;
+    }
+  }
+
+  // Get the attachments of emails, oldest first
+  async getEmailAttachments(messageIds: string[]): Promise<EmailAttachmentRecord[]> {
+    this.ensureInitialized();
+    if (messageIds.length === 0) return [];
+
+    try {
+      const { data, error } = await this.supabase
+        .from("email_attachments")
+        .select("*")
+        .in("message_id", messageIds)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      return (data as EmailAttachmentRecord[]) || [];
+    } catch (error) {
+      console.error("Error getting email attachments:", error);
+      return [];
+    }
+  }
+
+  // Get one email thread by ID
+  async getEmailThread(threadId: string): Promise<EmailThreadRecord | null> {
+    this.ensureInitialized();
+
+    try {
+      const { data, error } = await this.supabase
+        .from("email_threads")
+        .select("*")
+        .eq("id", threadId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data as EmailThreadRecord | null;
+    } catch (error) {
+      console.error("Error getting email thread:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Email Outbox Operations
+   */
+
+  // Put a reply written by the agent in the outbox as a pending draft
+  async addEmailDraft(draft: NewEmailDraft): Promise<string | null> {
+    this.ensureInitialized();
+
+    try {
+      const { data, error } = await this.supabase
+        .from("email_drafts")
+        .insert({ ...draft, status: "pending" })
+        .select("id")
+        .single();
+
+      if (error) throw error;
+      return data?.id || null;
+    } catch (error) {
+      console.error("Error adding email draft:", error);
+      return null;
+    }
+  }
+
+  // Get drafts in the outbox, oldest first
+  async getEmailDrafts(filter: EmailDraftFilter = {}): Promise<EmailDraftRecord[]> {
+    this.ensureInitialized();
+
+    try {
+      let query = this.supabase.from("email_drafts").select("*");
+
+      if (filter.status) query = query.eq("status", filter.status);
+      if (filter.threadId) query = query.eq("thread_id", filter.threadId);
+
+      const { data, error } = await query.order("created_at", { ascending: true });
+
+      if (error) throw error;
+      return (data as EmailDraftRecord[]) || [];
+    } catch (error) {
+      console.error("Error getting email drafts:", error);
+      return [];
+    }
+  }
+
+  // Get one draft by ID
+  async getEmailDraft(draftId: string): Promise<EmailDraftRecord | null> {
+    this.ensureInitialized();
+
+    try {
+      const { data, error } = await this.supabase
+        .from("email_drafts")
+        .select("*")
+        .eq("id", draftId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data as EmailDraftRecord | null;
+    } catch (error) {
+      console.error("Error getting email draft:", error);
+      return null;
+    }
+  }
+
+  // Update a draft, optionally only while it has the expected status
+  async updateEmailDraft(
+    draftId: string,
+    updates: Partial<Omit<EmailDraftRecord, "id" | "created_at" | "updated_at" | "thread_id">>,
+    expectedStatus?: EmailDraftStatus
+  ): Promise<boolean> {
+    this.ensureInitialized();
+
+    try {
+      let query = this.supabase
+        .from("email_drafts")
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq("id", draftId);
+
+      if (expectedStatus) query = query.eq("status", expectedStatus);
+
+      const { data, error } = await query.select("id");
+
+      if (error) throw error;
+      return (data?.length || 0) > 0;
+    } catch (error) {
+      console.error("Error updating email draft:", error);
+      return false;
+    }
+  }
 }
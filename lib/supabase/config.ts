@@ -1,8 +1,10 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js'
 import { Database } from './types'
 import { SupabaseAdapter } from './adapter'
+import type { DatabaseAdapterInterface } from '../interfaces/database-adapter'
 
 export { SupabaseAdapter }
+export type { DatabaseAdapterInterface }
 
 /**
  * Environment variables for Supabase configuration
@@ -48,40 +50,93 @@ export function isSupabaseConfigured(): boolean {
   return !!supabaseUrl && !!supabaseKey
 }
 
-let initializedAdapter: SupabaseAdapter | null = null
+/**
+ * Database backends that getInitializedAdapter can provide
+ */
+export type DatabaseAdapterType = 'supabase' | 'sqlite' | 'memory'
+
+/**
+ * Work out which database backend to use.
+ * DATABASE_ADAPTER selects one explicitly, otherwise Supabase is used when it is configured.
+ */
+export function getDatabaseAdapterType(): DatabaseAdapterType | null {
+  const selected = process.env.DATABASE_ADAPTER?.trim().toLowerCase()
+
+  if (selected === 'supabase' || selected === 'sqlite' || selected === 'memory') {
+    return selected
+  }
+  if (selected) {
+    console.warn(`[DatabaseConfig] Unknown DATABASE_ADAPTER "${selected}". Expected supabase, sqlite or memory.`)
+  }
+
+  return isSupabaseConfigured() ? 'supabase' : null
+}
 
 /**
- * Initializes and returns the Supabase adapter instance.
+ * Check if any database backend is configured
+ */
+export function isDatabaseConfigured(): boolean {
+  const type = getDatabaseAdapterType()
+  return type === 'supabase' ? isSupabaseConfigured() : type !== null
+}
+
+// Kept on globalThis so every route bundle shares one adapter (and one in-memory store)
+const globalForAdapter = globalThis as unknown as {
+  __a1baseDatabaseAdapter?: DatabaseAdapterInterface | null
+}
+
+async function createAdapter(type: DatabaseAdapterType): Promise<DatabaseAdapterInterface> {
+  switch (type) {
+    case 'memory': {
+      const { MemoryAdapter } = await import('../database/memory-adapter')
+      return new MemoryAdapter()
+    }
+    case 'sqlite': {
+      // Loaded lazily so deployments that don't use SQLite never load the native module
+      const { SqliteAdapter, DEFAULT_SQLITE_PATH } = await import('../database/sqlite-adapter')
+      const filename = process.env.SQLITE_DATABASE_PATH || DEFAULT_SQLITE_PATH
+      console.log(`[DatabaseConfig] Using SQLite database file: ${filename}`)
+      return new SqliteAdapter(filename)
+    }
+    case 'supabase':
+      return new SupabaseAdapter(supabaseUrl!, supabaseKey!)
+  }
+}
+
+/**
+ * Initializes and returns the configured database adapter instance.
  * Ensures that the adapter is initialized only once.
  */
-export const getInitializedAdapter = async (): Promise<SupabaseAdapter | null> => {
-  if (!isSupabaseConfigured()) {
-    console.warn("[SupabaseAdapter] Initialization skipped: Supabase is not configured. Check SUPABASE_URL and SUPABASE_KEY/SUPABASE_ANON_KEY environment variables.");
+export const getInitializedAdapter = async (): Promise<DatabaseAdapterInterface | null> => {
+  const type = getDatabaseAdapterType()
+
+  if (!type || (type === 'supabase' && !isSupabaseConfigured())) {
+    console.warn("[DatabaseAdapter] Initialization skipped: no database is configured. Set SUPABASE_URL and SUPABASE_KEY/SUPABASE_ANON_KEY, or DATABASE_ADAPTER=sqlite|memory.");
     return null
   }
 
-  if (initializedAdapter) {
-    return initializedAdapter
+  if (globalForAdapter.__a1baseDatabaseAdapter) {
+    return globalForAdapter.__a1baseDatabaseAdapter
   }
 
   try {
-    const adapter = new SupabaseAdapter(supabaseUrl!, supabaseKey!)
+    const adapter = await createAdapter(type)
     await adapter.init()
-    initializedAdapter = adapter
-    console.log("[SupabaseAdapter] Supabase adapter class instance initialized and ready.")
-    return initializedAdapter
+    globalForAdapter.__a1baseDatabaseAdapter = adapter
+    console.log(`[DatabaseAdapter] ${type} adapter initialized and ready.`)
+    return adapter
   } catch (error) {
-    console.error("[SupabaseAdapter] Supabase adapter class instance failed to initialize:", error)
+    console.error(`[DatabaseAdapter] ${type} adapter failed to initialize:`, error)
     return null
   }
 }
 
 /**
- * Initializes the database if Supabase is configured.
+ * Initializes the database if one is configured.
  * This function primarily demonstrates initializing the adapter.
  */
 export async function initializeDatabase() {
-  if (isSupabaseConfigured()) {
+  if (isDatabaseConfigured()) {
     await getInitializedAdapter()
   }
 }
@@ -75,6 +75,8 @@ export async function processSMSWebhook(
     thread_type: payload.thread_type as 'individual',
     sender_number: payload.sender_number,
     sender_name: payload.sender_name || payload.sender_number, // Use number as name if not provided
+    a1_account_id: payload.a1_account_id,
+    is_from_agent: payload.is_from_agent,
     message_content: { text: payload.message_content }, // Wrap in object for unified format
     message_type: 'text' as const, // SMS is always text
     timestamp: new Date(payload.timestamp).toISOString(),
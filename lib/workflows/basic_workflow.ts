@@ -4,6 +4,7 @@
  *
  * Key workflow functions:
  * - DefaultReplyToMessage: Generates and sends simple response.
+ * - NotifyChat: Posts a message into a chat outside of a conversation.
  * 
  * Uses OpenAI for generating contextual responses.
  * Handles both individual and group message threads.
@@ -18,8 +19,8 @@ import { ThreadMessage } from "@/types/chat";
 import { basicWorkflowsPrompt } from "./basic_workflows_prompt";
 import fs from "fs";
 import path from "path";
-import { SupabaseAdapter } from "../supabase/adapter";
-import { getInitializedAdapter } from "../supabase/config";
+import { getInitializedAdapter, DatabaseAdapterInterface } from "../supabase/config";
+import type { ChatRecord } from "../interfaces/database-adapter";
 import { sendMultimediaMessage, MediaType } from "../messaging/multimedia-handler";
 
 // Import StartOnboarding from dedicated onboarding workflow file
@@ -157,7 +158,7 @@ async function _sendWhatsAppMediaMessage(
  * @param partIndex - Index for multi-part messages.
  */
 async function _storeAiMessageInSupabase(
-  supabaseAdapter: SupabaseAdapter,
+  supabaseAdapter: DatabaseAdapterInterface,
   threadId: string,
   messageText: string,
   service: string,
@@ -326,6 +327,40 @@ export async function DefaultReplyToMessage(
   }
 }
 
+/**
+ * Posts a message from the agent into a chat outside of a conversation, e.g. to
+ * tell a project's chat about changes made on the projects dashboard.
+ * The message is stored with the chat's messages; web UI chats only get the stored message.
+ * @param chat - The chat to post to.
+ * @param text - The message text.
+ * @returns True if the message was stored or sent.
+ */
+export async function NotifyChat(chat: ChatRecord, text: string): Promise<boolean> {
+  const adapter = await getInitializedAdapter();
+  const service = chat.service || "whatsapp";
+
+  const stored = adapter
+    ? await adapter.storeMessage(chat.id, null, `notification-${chat.id}-${Date.now()}`, { text }, "text", service)
+    : null;
+  if (service === SERVICE_WEB_UI) {
+    return !!stored;
+  }
+
+  // Groups are addressed by thread ID, individual chats by the participant's number
+  let recipientId = chat.type === "group" ? chat.external_id : null;
+  if (chat.type !== "group" && adapter) {
+    const participants = await adapter.getChatParticipants(chat.id);
+    recipientId = participants.find((participant) => participant.phone_number)?.phone_number || null;
+  }
+  if (!recipientId) {
+    console.error(`[NotifyChat] No recipient found for chat ${chat.id}`);
+    return !!stored;
+  }
+
+  await _sendWhatsAppMessage(chat.type === "group" ? "group" : "individual", recipientId, text, service);
+  return true;
+}
+
 // ====== CUSTOM WORKFLOW INTEGRATION GUIDE =======
 // To add new workflows that connect to your app's API/backend:
 
@@ -362,7 +397,7 @@ export async function CustomApiWorkflow(
 }
 */
 
-// 2. Add new intent types to triageMessageIntent() in openai.ts (if using intent-based routing).
+// 2. Add a new triage tool to TRIAGE_TOOLS in lib/ai-triage/triage-tools.ts (if using intent-based routing).
 // 3. Update any relevant triage logic or switch statements to call your new workflow function.
 // 4. Add any new prompt templates to basic_workflows_prompt.js if your workflow uses AI generation.
 // 5. Implement robust error handling, logging, and potentially retry logic for your API calls.
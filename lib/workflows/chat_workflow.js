@@ -14,6 +14,29 @@ if (supabaseUrl && supabaseKey) {
   supabase = createClient(supabaseUrl, supabaseKey);
 }
 
+/**
+ * Records the summary's token usage in model_usage. The cost is left empty
+ * and estimated from the model's price when usage is reported.
+ * @param {string} chatId - The external ID of the chat
+ * @param {{promptTokens: number, completionTokens: number, totalTokens: number} | undefined} usage
+ */
+async function recordSummaryUsage(chatId, usage) {
+  if (!usage) return;
+
+  const { error } = await supabase.from('model_usage').insert({
+    task: 'summary',
+    model: 'openai:gpt-4o',
+    chat_id: chatId,
+    prompt_tokens: usage.promptTokens || 0,
+    completion_tokens: usage.completionTokens || 0,
+    total_tokens: usage.totalTokens || 0,
+  });
+
+  if (error) {
+    console.error('[ChatWorkflow] Error recording summary usage:', error);
+  }
+}
+
 /**
  * Generates a concise summary of a chat thread.
  * @param {string} chatId - The external ID of the chat to summarize
@@ -76,7 +99,7 @@ async function generateChatSummary(chatId) {
     console.log(`[ChatWorkflow] Generating summary for ${conversationHistory.length} messages`);
 
     // Generate summary using AI
-    const { text } = await generateText({
+    const { text, usage } = await generateText({
       model: openai('gpt-4o'),
       system: `You are a helpful assistant. Summarize the following conversation in 2-3 concise bullet points. 
 Focus on the main topics discussed and any important decisions or questions. 
@@ -85,6 +108,8 @@ Format your response as bullet points starting with "•".`,
       messages: conversationHistory,
     });
 
+    await recordSummaryUsage(chatId, usage);
+
     return text;
 
   } catch (error) {
@@ -1,6 +1,6 @@
 import { getInitializedAdapter } from '@/lib/supabase/config';
-import { openai } from '@ai-sdk/openai';
-import { streamText, type CoreMessage } from 'ai';
+import { createTaskCompletion } from '@/lib/services/model-router';
+import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
 
 /**
  * Generates a concise summary of a chat thread.
@@ -22,22 +22,22 @@ export async function generateChatSummary(chatId: string): Promise<string> {
     }
 
     // Prepare messages for the AI, excluding system messages
-    const history: CoreMessage[] = thread.messages
+    const history: ChatCompletionMessageParam[] = thread.messages
       .filter(msg => msg.message_type !== 'system')
       .map(msg => ({
-        role: msg.sender_number === process.env.A1BASE_AGENT_NUMBER ? 'assistant' : 'user',
+        role: msg.sender_number === process.env.A1BASE_AGENT_NUMBER ? 'assistant' as const : 'user' as const,
         content: msg.content,
       }));
 
     const systemPrompt = `You are a helpful assistant. Summarize the following conversation in 3 concise bullet points or less. If the conversation is very short, just provide a one-sentence summary. Your summary should give a new person enough context to join the conversation.`;
     
-    const { text } = await streamText({
-      model: openai('gpt-4o'),
-      system: systemPrompt,
-      messages: history,
-    });
+    const completion = await createTaskCompletion(
+      'summary',
+      { messages: [{ role: 'system', content: systemPrompt }, ...history] },
+      { chatId }
+    );
     
-    return text;
+    return completion.choices[0]?.message?.content || '';
 
   } catch (error) {
     console.error('[ChatWorkflow] Error generating summary:', error);
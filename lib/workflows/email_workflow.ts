@@ -30,20 +30,25 @@ const DEFAULT_EMAIL_DOMAIN = "a1send.com";
  * @param threadMessages - Array of messages in the email thread
  * @param senderEmail - Email address of the sender
  * @param subject - Subject of the incoming email
+ * @param instructions - Instructions from a reviewer for rewriting the response
  * @returns A promise that resolves to a professional email response
  */
 export async function GenerateEmailResponse(
   threadMessages: ThreadMessage[],
   senderEmail: string,
-  subject: string
+  subject: string,
+  instructions?: string
 ): Promise<{ subject: string; body: string }> {
   console.log("[GenerateEmailResponse] Generating professional email response");
 
   try {
     // Use the email-specific prompt for professional responses
+    const prompt = instructions
+      ? `${emailWorkflowPrompt.professional_email_response.user}\n\nFollow these instructions from the person reviewing your response:\n${instructions}`
+      : emailWorkflowPrompt.professional_email_response.user;
     const aiResponse = await generateAgentResponse(
       threadMessages,
-      emailWorkflowPrompt.professional_email_response.user,
+      prompt,
       "individual", // Email is always individual
       [], // No participants needed for email
       [], // No projects
@@ -143,7 +148,12 @@ export async function ConstructEmail(
   try {
     const aiResponse = await generateAgentResponse(
       threadMessages,
-      emailWorkflowPrompt.email_draft.user
+      emailWorkflowPrompt.email_draft.user,
+      "individual",
+      [],
+      [],
+      undefined,
+      "email"
     );
 
     // Expected format: "Subject of the email---Body of the email"
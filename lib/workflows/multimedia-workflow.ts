@@ -4,7 +4,7 @@
  * This module provides workflows for:
  * - Sending images with captions
  * - Sending videos
- * - Sending audio messages
+ * - Sending audio messages and spoken replies
  * - Sending documents
  * - Handling location sharing
  */
@@ -13,6 +13,8 @@ import { ThreadMessage } from "@/types/chat";
 import { A1BaseAPI } from "a1base-node";
 import { sendMultimediaMessage, MediaType, validateMediaUrl } from "../messaging/multimedia-handler";
 import { generateAgentResponse } from "../services/openai";
+import { MediaUnderstanding, understandMedia } from "../services/media-understanding";
+import { createVoiceReply, transcribeVoiceNote } from "../services/voice-notes";
 
 // Initialize A1Base client
 const a1BaseClient = new A1BaseAPI({
@@ -216,7 +218,45 @@ export async function SendAudioMessage(
 }
 
 /**
- * Handle incoming media and respond appropriately
+ * Speak a reply with the text-to-speech provider (see
+ * lib/services/voice-notes.ts) and send it as a voice note
+ * @returns null when the reply couldn't be spoken, so only the text is sent
+ */
+export async function SendVoiceReply(
+  threadMessages: ThreadMessage[],
+  replyText: string,
+  thread_type: "individual" | "group",
+  thread_id?: string,
+  sender_number?: string,
+  service?: string
+): Promise<string | null> {
+  console.log(`[SendVoiceReply] Speaking reply of ${replyText.length} characters`);
+
+  const reply = await createVoiceReply(replyText);
+  if (!reply) return null;
+
+  try {
+    return await SendAudioMessage(
+      threadMessages,
+      reply.url,
+      thread_type,
+      thread_id,
+      sender_number,
+      undefined,
+      service
+    );
+  } catch (error) {
+    console.error("[SendVoiceReply] Error:", error);
+    return null;
+  }
+}
+
+/**
+ * Handle incoming media and respond appropriately. Images and documents are
+ * looked at first (see lib/services/media-understanding.ts) and voice notes
+ * transcribed (see lib/services/voice-notes.ts), so the reply can be about
+ * what is in them.
+ * @param understanding What was in the media if the caller already worked it out
  */
 export async function HandleIncomingMedia(
   threadMessages: ThreadMessage[],
@@ -226,27 +266,47 @@ export async function HandleIncomingMedia(
   sender_number?: string,
   mediaData?: string,
   caption?: string,
-  service?: string
+  service?: string,
+  understanding?: MediaUnderstanding | null
 ): Promise<string> {
   console.log(`[HandleIncomingMedia] Processing ${mediaType} media`);
   
   try {
+    const media =
+      understanding !== undefined
+        ? understanding
+        : mediaData
+          ? await understandMedia(
+              { mediaType, data: mediaData, caption },
+              { context: { chatId: thread_id, userId: sender_number } }
+            )
+          : null;
+
     // Generate a contextual response based on the media type
-    const latestMessage = threadMessages[threadMessages.length - 1];
     let prompt = "";
     
     switch (mediaType) {
       case 'image':
-        prompt = `The user has sent an image${caption ? ` with caption: "${caption}"` : ''}. Acknowledge receipt and ask if they need any help with it.`;
+        prompt = media
+          ? `The user has sent an image${caption ? ` with caption: "${caption}"` : ''}. It shows: ${media.description}\nRespond to the image, answering any question they asked about it.`
+          : `The user has sent an image${caption ? ` with caption: "${caption}"` : ''}. Acknowledge receipt and ask if they need any help with it.`;
         break;
       case 'video':
         prompt = `The user has sent a video${caption ? ` with caption: "${caption}"` : ''}. Acknowledge receipt and ask if they'd like to discuss it.`;
         break;
-      case 'audio':
-        prompt = `The user has sent an audio message. Acknowledge receipt and mention you've received their voice message.`;
+      case 'audio': {
+        const transcript = mediaData
+          ? await transcribeVoiceNote({ mediaType, data: mediaData, caption })
+          : null;
+        prompt = transcript
+          ? `The user has sent a voice message saying: "${transcript.text}"\nRespond to what they said.`
+          : `The user has sent an audio message. Acknowledge receipt and mention you've received their voice message.`;
         break;
+      }
       case 'document':
-        prompt = `The user has sent a document${caption ? ` titled: "${caption}"` : ''}. Acknowledge receipt and ask if they need help reviewing it.`;
+        prompt = media
+          ? `The user has sent a document${caption ? ` titled: "${caption}"` : ''}. Summary of its contents: ${media.description}\nRespond to the document, answering any question they asked about it.`
+          : `The user has sent a document${caption ? ` titled: "${caption}"` : ''}. Acknowledge receipt and ask if they need help reviewing it.`;
         break;
       case 'location':
         prompt = `The user has shared their location. Acknowledge receipt and ask how you can help them with location-based services.`;
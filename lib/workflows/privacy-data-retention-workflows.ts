@@ -1,21 +1,39 @@
 /**
  * Workflow functions for managing user privacy and data retention settings.
- * 
+ *
  * Key workflow functions:
  * - SetDataRetention: Configure how long user data is stored
- * - ForgetMemory: Delete specific user conversations or memory entries
+ * - ForgetMemory: Delete the user's messages, memory and/or projects
  * - DownloadUserData: Allow users to export their data
  * - AnonymizeUserData: De-identify user data while preserving utility
  * - ManageConsentPreferences: Update user consent for data processing
- * 
+ * - RequestPrivacyConfirmation / ConfirmPrivacyRequest: Ask before forgetting or anonymizing
+ *
+ * The data itself is handled by lib/services/user-privacy.ts. These functions
+ * run a request for a user and send the confirmation to their thread.
  * Handles both individual and group message threads.
  */
 
 import { A1BaseAPI } from "a1base-node";
 import { ThreadMessage } from "@/types/chat";
-import { generateAgentResponse } from "../services/openai";
-import fs from "fs";
-import path from "path";
+import { getInitializedAdapter } from "../supabase/config";
+import {
+  CONSENT_PURPOSES,
+  ConsentPreferences,
+  ExportFormat,
+  PENDING_REQUEST_TTL_MS,
+  PendingPrivacyRequest,
+  PrivacyDataType,
+  RetentionUnit,
+  anonymizeUserData,
+  buildUserDataExport,
+  forgetUserData,
+  getPrivacySettings,
+  savePrivacySettings,
+  saveUserDataExport,
+  setRetentionPolicy,
+  updateConsent,
+} from "../services/user-privacy";
 
 // Initialize A1Base client
 const client = new A1BaseAPI({
@@ -25,25 +43,45 @@ const client = new A1BaseAPI({
   },
 });
 
-// Data retention period types
-type RetentionPeriodUnit = "days" | "weeks" | "months" | "years";
+/**
+ * Send a workflow's response through the appropriate channel.
+ * For web UI the response is only returned, not sent through A1Base.
+ */
+async function sendPrivacyResponse(
+  responseMessage: string,
+  thread_type: "individual" | "group",
+  thread_id?: string,
+  sender_number?: string,
+  service?: string
+): Promise<string> {
+  if (service === "web-ui") {
+    return responseMessage;
+  }
+
+  const messageData = {
+    content: responseMessage,
+    from: process.env.A1BASE_AGENT_NUMBER!,
+    service: "whatsapp" as const,
+  };
+
+  if (thread_type === "group" && thread_id) {
+    await client.sendGroupMessage(process.env.A1BASE_ACCOUNT_ID!, {
+      ...messageData,
+      thread_id,
+    });
+  } else if (thread_type === "individual" && sender_number) {
+    await client.sendIndividualMessage(process.env.A1BASE_ACCOUNT_ID!, {
+      ...messageData,
+      to: sender_number,
+    });
+  }
 
-// Interface for data retention settings
-interface DataRetentionSettings {
-  enabled: boolean;
-  period: number;
-  unit: RetentionPeriodUnit;
-  lastUpdated: string; // ISO date string
-  userId: string;
+  return responseMessage;
 }
 
-// Interface for deletion request
-interface DeletionRequest {
-  userId: string;
-  requestDate: string; // ISO date string
-  status: "pending" | "processing" | "completed";
-  completionDate?: string; // ISO date string
-  dataTypes: Array<"messages" | "preferences" | "usage_data" | "all">;
+function describeDataTypes(dataTypes: PrivacyDataType[]): string {
+  const types = dataTypes.includes("all") ? ["messages", "memory", "projects"] : dataTypes;
+  return types.join(", ").replace(/,([^,]*)$/, " and$1");
 }
 
 // ====== DATA RETENTION WORKFLOWS =======
@@ -51,77 +89,40 @@ interface DeletionRequest {
 // =====================================
 
 /**
- * Configure the data retention period for a user
+ * Configure the data retention period for a user. Messages older than the
+ * period are deleted by the retention purge (/api/cron/privacy-retention).
  * @param threadMessages - Array of messages in the thread
- * @param period - Number of time units to retain data
+ * @param period - Number of time units to retain data, null to keep data indefinitely
  * @param unit - Time unit (days, weeks, months, years)
  * @param userId - ID of the user whose settings to update
  * @returns Confirmation of setting update
  */
 export async function SetDataRetention(
   threadMessages: ThreadMessage[],
-  period: number,
-  unit: RetentionPeriodUnit,
+  period: number | null,
+  unit: RetentionUnit,
   userId: string,
   thread_type: "individual" | "group",
   thread_id?: string,
   sender_number?: string,
   service?: string
 ): Promise<string> {
-  // Console log removed - Workflow Start [SetDataRetention]
-
   try {
-    // Get settings directory path
-    const settingsDir = path.join(process.cwd(), "data", "privacy-settings");
-    
-    // Ensure directory exists
-    if (!fs.existsSync(settingsDir)) {
-      fs.mkdirSync(settingsDir, { recursive: true });
-    }
-    
-    // Create/update user settings file
-    const userSettingsPath = path.join(settingsDir, `${userId}-retention.json`);
-    
-    // Create settings object
-    const settings: DataRetentionSettings = {
-      enabled: true,
-      period,
-      unit,
-      lastUpdated: new Date().toISOString(),
-      userId
-    };
-    
-    // Save settings to file
-    fs.writeFileSync(userSettingsPath, JSON.stringify(settings, null, 2));
-    
-    // Generate response message
-    const responseMessage = `Your data retention period has been set to ${period} ${unit}. This means your data will automatically be removed after this period.`;
-    
-    // For web UI, we just return the response without sending through A1Base
-    if (service === "web-ui") {
-      return responseMessage;
+    const adapter = await getInitializedAdapter();
+    if (!adapter) {
+      throw new Error("Database adapter not initialized");
     }
-    
-    // Send the confirmation message through the appropriate channel
-    const messageData = {
-      content: responseMessage,
-      from: process.env.A1BASE_AGENT_NUMBER!,
-      service: "whatsapp" as const,
-    };
 
-    if (thread_type === "group" && thread_id) {
-      await client.sendGroupMessage(process.env.A1BASE_ACCOUNT_ID!, {
-        ...messageData,
-        thread_id,
-      });
-    } else if (thread_type === "individual" && sender_number) {
-      await client.sendIndividualMessage(process.env.A1BASE_ACCOUNT_ID!, {
-        ...messageData,
-        to: sender_number,
-      });
+    const policy = period && period > 0 ? { period, unit } : null;
+    if (!(await setRetentionPolicy(adapter, userId, policy))) {
+      throw new Error(`Could not update retention policy for user ${userId}`);
     }
-    
-    return responseMessage;
+
+    const responseMessage = policy
+      ? `Your data retention period has been set to ${period} ${unit}. Messages older than this will be deleted automatically.`
+      : "Your data retention period has been removed. Your messages will be kept until you ask me to delete them.";
+
+    return await sendPrivacyResponse(responseMessage, thread_type, thread_id, sender_number, service);
   } catch (error) {
     console.error("[SetDataRetention] Error:", error);
     return "Sorry, I encountered an error updating your data retention settings.";
@@ -129,83 +130,33 @@ export async function SetDataRetention(
 }
 
 /**
- * Process a user's request to forget specific memories or conversation history
+ * Delete a user's messages, memory and/or the projects of their individual chats
  * @param threadMessages - Array of messages in the thread
- * @param dataTypes - Types of data to forget (messages, preferences, usage_data, all)
+ * @param dataTypes - Types of data to forget (messages, memory, projects, all)
  * @param userId - ID of the user making the request
- * @returns Confirmation of request receipt and next steps
+ * @returns Confirmation of what was deleted
  */
 export async function ForgetMemory(
   threadMessages: ThreadMessage[],
-  dataTypes: Array<"messages" | "preferences" | "usage_data" | "all">,
+  dataTypes: PrivacyDataType[],
   userId: string,
   thread_type: "individual" | "group",
   thread_id?: string,
   sender_number?: string,
   service?: string
 ): Promise<string> {
-  // Console log removed - Workflow Start [ForgetMemory]
-
   try {
-    // Get deletion requests directory path
-    const requestsDir = path.join(process.cwd(), "data", "deletion-requests");
-    
-    // Ensure directory exists
-    if (!fs.existsSync(requestsDir)) {
-      fs.mkdirSync(requestsDir, { recursive: true });
-    }
-    
-    // Create deletion request object
-    const deletionRequest: DeletionRequest = {
-      userId,
-      requestDate: new Date().toISOString(),
-      status: "pending",
-      dataTypes
-    };
-    
-    // Generate unique request ID based on timestamp
-    const requestId = `${userId}-${Date.now()}`;
-    const requestPath = path.join(requestsDir, `${requestId}.json`);
-    
-    // Save request to file
-    fs.writeFileSync(requestPath, JSON.stringify(deletionRequest, null, 2));
-    
-    // If "all" is included, replace with all data types
-    if (dataTypes.includes("all")) {
-      dataTypes = ["messages", "preferences", "usage_data"];
-    }
-    
-    // Format data types for display
-    const dataTypesText = dataTypes.join(", ").replace(/,([^,]*)$/, ' and$1');
-    
-    // Generate response message
-    const responseMessage = `Your request to forget your ${dataTypesText} has been received. This process will be completed within 30 days, in accordance with our privacy policy. You'll receive a confirmation when the deletion is complete.`;
-    
-    // For web UI, we just return the response without sending through A1Base
-    if (service === "web-ui") {
-      return responseMessage;
+    const adapter = await getInitializedAdapter();
+    if (!adapter) {
+      throw new Error("Database adapter not initialized");
     }
-    
-    // Send the confirmation message through the appropriate channel
-    const messageData = {
-      content: responseMessage,
-      from: process.env.A1BASE_AGENT_NUMBER!,
-      service: "whatsapp" as const,
-    };
 
-    if (thread_type === "group" && thread_id) {
-      await client.sendGroupMessage(process.env.A1BASE_ACCOUNT_ID!, {
-        ...messageData,
-        thread_id,
-      });
-    } else if (thread_type === "individual" && sender_number) {
-      await client.sendIndividualMessage(process.env.A1BASE_ACCOUNT_ID!, {
-        ...messageData,
-        to: sender_number,
-      });
-    }
-    
-    return responseMessage;
+    const result = await forgetUserData(adapter, userId, dataTypes);
+    console.log(`[ForgetMemory] Forgot ${describeDataTypes(dataTypes)} for user ${userId}:`, result);
+
+    const responseMessage = `Done. I've deleted your ${describeDataTypes(dataTypes)} (${result.messages} messages, ${result.memoryFields + result.memoryChunks} memory entries, ${result.projects} projects).`;
+
+    return await sendPrivacyResponse(responseMessage, thread_type, thread_id, sender_number, service);
   } catch (error) {
     console.error("[ForgetMemory] Error:", error);
     return "Sorry, I encountered an error processing your memory deletion request.";
@@ -213,59 +164,37 @@ export async function ForgetMemory(
 }
 
 /**
- * Generate and provide a downloadable export of user's data
+ * Export everything stored about a user and send them a download link
  * @param threadMessages - Array of messages in the thread
  * @param userId - ID of the user requesting their data
- * @param dataTypes - Types of data to include in export
+ * @param format - A single JSON file, or a ZIP with one JSON file per section
  * @returns Link to download the exported data
  */
 export async function DownloadUserData(
   threadMessages: ThreadMessage[],
   userId: string,
-  dataTypes: Array<"messages" | "preferences" | "usage_data" | "all">,
+  format: ExportFormat,
   thread_type: "individual" | "group",
   thread_id?: string,
   sender_number?: string,
   service?: string
 ): Promise<string> {
-  // Console log removed - Workflow Start [DownloadUserData]
-
   try {
-    // This function would typically:
-    // 1. Query databases for user data
-    // 2. Format data into exportable format (CSV, JSON)
-    // 3. Create a downloadable file or secure link
-    
-    // For this implementation, we'll create a placeholder response
-    
-    // Generate response message
-    const responseMessage = `Your data export request has been received. We're preparing your data and will provide a secure download link within 24 hours. The link will be sent to your registered email address.`;
-    
-    // For web UI, we just return the response without sending through A1Base
-    if (service === "web-ui") {
-      return responseMessage;
+    const adapter = await getInitializedAdapter();
+    if (!adapter) {
+      throw new Error("Database adapter not initialized");
     }
-    
-    // Send the confirmation message through the appropriate channel
-    const messageData = {
-      content: responseMessage,
-      from: process.env.A1BASE_AGENT_NUMBER!,
-      service: "whatsapp" as const,
-    };
 
-    if (thread_type === "group" && thread_id) {
-      await client.sendGroupMessage(process.env.A1BASE_ACCOUNT_ID!, {
-        ...messageData,
-        thread_id,
-      });
-    } else if (thread_type === "individual" && sender_number) {
-      await client.sendIndividualMessage(process.env.A1BASE_ACCOUNT_ID!, {
-        ...messageData,
-        to: sender_number,
-      });
+    const data = await buildUserDataExport(adapter, userId);
+    if (!data) {
+      throw new Error(`User ${userId} not found`);
     }
-    
-    return responseMessage;
+
+    const saved = saveUserDataExport(data, format);
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+    const responseMessage = `Your data export is ready (${data.messages.length} messages, ${data.projects.length} projects). Download it here within 24 hours: ${appUrl}/api/privacy/export/${saved.token}`;
+
+    return await sendPrivacyResponse(responseMessage, thread_type, thread_id, sender_number, service);
   } catch (error) {
     console.error("[DownloadUserData] Error:", error);
     return "Sorry, I encountered an error processing your data export request.";
@@ -273,7 +202,9 @@ export async function DownloadUserData(
 }
 
 /**
- * Anonymize user data while preserving its utility for analysis
+ * Pseudonymize a user: their name is replaced and their phone number, memory
+ * and profile are removed, while their messages stay in place for the chats
+ * they were part of
  * @param userId - ID of the user whose data should be anonymized
  * @returns Confirmation of anonymization
  */
@@ -284,44 +215,20 @@ export async function AnonymizeUserData(
   sender_number?: string,
   service?: string
 ): Promise<string> {
-  // Console log removed - Workflow Start [AnonymizeUserData]
-
   try {
-    // This function would typically:
-    // 1. Access user data repositories
-    // 2. Apply anonymization techniques (pseudonymization, generalization)
-    // 3. Update records to reflect anonymized state
-    
-    // For this implementation, we'll create a placeholder response
-    
-    // Generate response message
-    const responseMessage = `Your data has been anonymized. Your personal identifiers have been removed while preserving aggregated data for analytical purposes. You can continue using the service with your current account, but previous activity can no longer be linked to your identity.`;
-    
-    // For web UI, we just return the response without sending through A1Base
-    if (service === "web-ui") {
-      return responseMessage;
+    const adapter = await getInitializedAdapter();
+    if (!adapter) {
+      throw new Error("Database adapter not initialized");
     }
-    
-    // Send the confirmation message through the appropriate channel
-    const messageData = {
-      content: responseMessage,
-      from: process.env.A1BASE_AGENT_NUMBER!,
-      service: "whatsapp" as const,
-    };
 
-    if (thread_type === "group" && thread_id) {
-      await client.sendGroupMessage(process.env.A1BASE_ACCOUNT_ID!, {
-        ...messageData,
-        thread_id,
-      });
-    } else if (thread_type === "individual" && sender_number) {
-      await client.sendIndividualMessage(process.env.A1BASE_ACCOUNT_ID!, {
-        ...messageData,
-        to: sender_number,
-      });
+    const pseudonym = await anonymizeUserData(adapter, userId);
+    if (!pseudonym) {
+      throw new Error(`Could not anonymize user ${userId}`);
     }
-    
-    return responseMessage;
+
+    const responseMessage = `Your data has been anonymized. Your name, number and everything I remembered about you have been removed, and your past messages now appear as "${pseudonym}". If you message me again you'll be treated as a new user.`;
+
+    return await sendPrivacyResponse(responseMessage, thread_type, thread_id, sender_number, service);
   } catch (error) {
     console.error("[AnonymizeUserData] Error:", error);
     return "Sorry, I encountered an error anonymizing your data.";
@@ -329,85 +236,145 @@ export async function AnonymizeUserData(
 }
 
 /**
- * Update user consent preferences for data processing
+ * Update user consent preferences for data processing. Without memory consent
+ * nothing new is extracted into the user's memory.
  * @param threadMessages - Array of messages in the thread
  * @param userId - ID of the user updating consent
- * @param consentOptions - Object containing consent flags for different processing purposes
+ * @param consentOptions - Consent flags to change, others are kept
  * @returns Confirmation of consent update
  */
 export async function ManageConsentPreferences(
   threadMessages: ThreadMessage[],
   userId: string,
-  consentOptions: {
-    marketing: boolean;
-    analytics: boolean;
-    thirdPartySharing: boolean;
-    automatedDecisionMaking: boolean;
-  },
+  consentOptions: Partial<ConsentPreferences>,
   thread_type: "individual" | "group",
   thread_id?: string,
   sender_number?: string,
   service?: string
 ): Promise<string> {
-  // Console log removed - Workflow Start [ManageConsentPreferences]
-
   try {
-    // Get consent directory path
-    const consentDir = path.join(process.cwd(), "data", "user-consent");
-    
-    // Ensure directory exists
-    if (!fs.existsSync(consentDir)) {
-      fs.mkdirSync(consentDir, { recursive: true });
+    const adapter = await getInitializedAdapter();
+    if (!adapter) {
+      throw new Error("Database adapter not initialized");
     }
-    
-    // Create/update user consent file
-    const userConsentPath = path.join(consentDir, `${userId}-consent.json`);
-    
-    // Create consent object with timestamp
-    const consentData = {
-      ...consentOptions,
-      userId,
-      lastUpdated: new Date().toISOString()
-    };
-    
-    // Save consent to file
-    fs.writeFileSync(userConsentPath, JSON.stringify(consentData, null, 2));
-    
+
+    const consent = await updateConsent(adapter, userId, consentOptions);
+    if (!consent) {
+      throw new Error(`Could not update consent for user ${userId}`);
+    }
+
     // Generate consent summary for the response
-    const consentSummary = Object.entries(consentOptions)
-      .map(([key, value]) => `${key.replace(/([A-Z])/g, ' $1').toLowerCase()}: ${value ? 'enabled' : 'disabled'}`)
+    const consentSummary = CONSENT_PURPOSES
+      .map((key) => `${key.replace(/([A-Z])/g, ' $1').toLowerCase()}: ${consent[key] ? 'enabled' : 'disabled'}`)
       .join(', ');
-    
-    // Generate response message
+
     const responseMessage = `Your consent preferences have been updated successfully. Your current settings are: ${consentSummary}. You can update these preferences at any time.`;
-    
-    // For web UI, we just return the response without sending through A1Base
-    if (service === "web-ui") {
-      return responseMessage;
+
+    return await sendPrivacyResponse(responseMessage, thread_type, thread_id, sender_number, service);
+  } catch (error) {
+    console.error("[ManageConsentPreferences] Error:", error);
+    return "Sorry, I encountered an error updating your consent preferences.";
+  }
+}
+
+// ====== CONFIRMATION WORKFLOWS =======
+// Forgetting and anonymizing can't be undone, so they only run once the
+// user replies "confirm"
+// =====================================
+
+/**
+ * Store a forget or anonymize request and ask the user to confirm it
+ * @param action - The request to confirm
+ * @param dataTypes - Types of data to forget, for forget requests
+ * @param userId - ID of the user making the request
+ * @returns The confirmation question
+ */
+export async function RequestPrivacyConfirmation(
+  action: PendingPrivacyRequest["action"],
+  dataTypes: PrivacyDataType[],
+  userId: string,
+  thread_type: "individual" | "group",
+  thread_id?: string,
+  sender_number?: string,
+  service?: string
+): Promise<string> {
+  try {
+    const adapter = await getInitializedAdapter();
+    if (!adapter) {
+      throw new Error("Database adapter not initialized");
     }
-    
-    // Send the confirmation message through the appropriate channel
-    const messageData = {
-      content: responseMessage,
-      from: process.env.A1BASE_AGENT_NUMBER!,
-      service: "whatsapp" as const,
+
+    const user = await adapter.getUserById(userId);
+    const pending: PendingPrivacyRequest = {
+      action,
+      ...(action === "forget" ? { dataTypes } : {}),
+      requested_at: new Date().toISOString(),
     };
+    if (!(await savePrivacySettings(adapter, userId, { ...getPrivacySettings(user), pending }))) {
+      throw new Error(`Could not store pending ${action} request for user ${userId}`);
+    }
 
-    if (thread_type === "group" && thread_id) {
-      await client.sendGroupMessage(process.env.A1BASE_ACCOUNT_ID!, {
-        ...messageData,
-        thread_id,
-      });
-    } else if (thread_type === "individual" && sender_number) {
-      await client.sendIndividualMessage(process.env.A1BASE_ACCOUNT_ID!, {
-        ...messageData,
-        to: sender_number,
-      });
+    const description =
+      action === "forget"
+        ? `permanently delete your ${describeDataTypes(dataTypes)}`
+        : "anonymize your data, removing your name, number and everything I remember about you";
+    const responseMessage = `This will ${description}. It can't be undone. Reply "confirm" within 15 minutes to go ahead.`;
+
+    return await sendPrivacyResponse(responseMessage, thread_type, thread_id, sender_number, service);
+  } catch (error) {
+    console.error("[RequestPrivacyConfirmation] Error:", error);
+    return "Sorry, I encountered an error processing your privacy request.";
+  }
+}
+
+/**
+ * Run the user's pending forget or anonymize request, if it hasn't expired
+ * @param threadMessages - Array of messages in the thread
+ * @param userId - ID of the user confirming
+ * @returns Result of the confirmed request
+ */
+export async function ConfirmPrivacyRequest(
+  threadMessages: ThreadMessage[],
+  userId: string,
+  thread_type: "individual" | "group",
+  thread_id?: string,
+  sender_number?: string,
+  service?: string
+): Promise<string> {
+  try {
+    const adapter = await getInitializedAdapter();
+    if (!adapter) {
+      throw new Error("Database adapter not initialized");
     }
-    
-    return responseMessage;
+
+    const user = await adapter.getUserById(userId);
+    const { pending, ...settings } = getPrivacySettings(user);
+    const expired =
+      pending && Date.now() - new Date(pending.requested_at).getTime() > PENDING_REQUEST_TTL_MS;
+
+    if (!pending || expired) {
+      if (pending) await savePrivacySettings(adapter, userId, settings);
+      const responseMessage = expired
+        ? "That request has expired. Please ask again if you still want to go ahead."
+        : "There's no pending privacy request to confirm.";
+      return await sendPrivacyResponse(responseMessage, thread_type, thread_id, sender_number, service);
+    }
+
+    await savePrivacySettings(adapter, userId, settings);
+
+    return pending.action === "anonymize"
+      ? await AnonymizeUserData(userId, thread_type, thread_id, sender_number, service)
+      : await ForgetMemory(
+          threadMessages,
+          pending.dataTypes || ["all"],
+          userId,
+          thread_type,
+          thread_id,
+          sender_number,
+          service
+        );
   } catch (error) {
-    console.error("[ManageConsentPreferences] Error:", error);
-    return "Sorry, I encountered an error updating your consent preferences.";
+    console.error("[ConfirmPrivacyRequest] Error:", error);
+    return "Sorry, I encountered an error processing your privacy request.";
   }
 }
@@ -0,0 +1,14 @@
+-- Drops every table created by 0001_initial_schema, children first.
+
+DROP TABLE IF EXISTS public.email_report_history;
+DROP TABLE IF EXISTS public.email_scheduled_reports;
+DROP TABLE IF EXISTS public.project_events;
+DROP TABLE IF EXISTS public.project_history;
+DROP TABLE IF EXISTS public.projects;
+DROP FUNCTION IF EXISTS update_updated_at_column();
+DROP TABLE IF EXISTS public.user_preferences;
+DROP TABLE IF EXISTS public.cron_jobs;
+DROP TABLE IF EXISTS public.messages;
+DROP TABLE IF EXISTS public.chat_participants;
+DROP TABLE IF EXISTS public.chats;
+DROP TABLE IF EXISTS public.conversation_users;
@@ -1,11 +1,8 @@
--- To setup your Supabase database, copy and paste this SQL code into
--- https://app.supabase.io/project/YOUR_PROJECT_ID/settings/database/SQL
-
--- Note: Row Level Security (RLS) policies are already enabled on all
--- tables for authenticated users.
+-- Initial schema: users, chats, messages, projects and email reports.
+-- Written to be safe on databases that were set up by hand from the old supabase.sql.
 
 -- Create tables
-CREATE TABLE public.conversation_users (
+CREATE TABLE IF NOT EXISTS public.conversation_users (
   id uuid NOT NULL DEFAULT gen_random_uuid(),
   created_at timestamp with time zone NOT NULL DEFAULT now(),
   name text NULL,
@@ -18,7 +15,7 @@ CREATE TABLE public.conversation_users (
 ) WITH (OIDS=FALSE);
 CREATE INDEX IF NOT EXISTS idx_users_phone ON public.conversation_users USING btree (phone_number);
 
-CREATE TABLE public.chats (
+CREATE TABLE IF NOT EXISTS public.chats (
   id uuid NOT NULL DEFAULT gen_random_uuid(),
   created_at timestamp with time zone NOT NULL DEFAULT now(),
   type text NOT NULL,
@@ -32,7 +29,7 @@ CREATE TABLE public.chats (
 ) WITH (OIDS=FALSE);
 CREATE INDEX IF NOT EXISTS idx_chats_external_id ON public.chats USING btree (external_id);
 
-CREATE TABLE public.chat_participants (
+CREATE TABLE IF NOT EXISTS public.chat_participants (
   chat_id uuid NOT NULL,
   user_id uuid NOT NULL,
   CONSTRAINT chat_participants_pkey PRIMARY KEY (chat_id, user_id),
@@ -42,7 +39,7 @@ CREATE TABLE public.chat_participants (
 CREATE INDEX IF NOT EXISTS idx_chat_participants_chat_id ON public.chat_participants USING btree (chat_id);
 CREATE INDEX IF NOT EXISTS idx_chat_participants_user_id ON public.chat_participants USING btree (user_id);
 
-CREATE TABLE public.messages (
+CREATE TABLE IF NOT EXISTS public.messages (
   id uuid NOT NULL DEFAULT gen_random_uuid(),
   chat_id uuid NULL,
   sender_id uuid NULL,
@@ -64,7 +61,7 @@ CREATE INDEX IF NOT EXISTS idx_messages_sender_id ON public.messages USING btree
 CREATE INDEX IF NOT EXISTS idx_messages_created_at ON public.messages USING btree (created_at);
 CREATE INDEX IF NOT EXISTS idx_messages_service ON public.messages USING btree (service);
 
-CREATE TABLE public.cron_jobs (
+CREATE TABLE IF NOT EXISTS public.cron_jobs (
   id uuid NOT NULL DEFAULT gen_random_uuid(),
   job_name text NOT NULL,
   scheduled_time timestamp with time zone NOT NULL,
@@ -74,14 +71,14 @@ CREATE TABLE public.cron_jobs (
   CONSTRAINT cron_jobs_pkey PRIMARY KEY (id)
 ) WITH (OIDS=FALSE);
 
-CREATE TABLE public.user_preferences (
+CREATE TABLE IF NOT EXISTS public.user_preferences (
   user_id uuid NOT NULL,
   preferences jsonb NOT NULL DEFAULT '{}'::jsonb,
   CONSTRAINT user_preferences_pkey PRIMARY KEY (user_id),
   CONSTRAINT user_preferences_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.conversation_users(id)
 ) WITH (OIDS=FALSE);
 
-CREATE TABLE public.projects (
+CREATE TABLE IF NOT EXISTS public.projects (
   id uuid NOT NULL DEFAULT gen_random_uuid(),
   chat_id uuid NULL,
   name text NOT NULL,
@@ -106,10 +103,11 @@ BEGIN
 END;
 $$ language 'plpgsql';
 
+DROP TRIGGER IF EXISTS update_projects_updated_at ON public.projects;
 CREATE TRIGGER update_projects_updated_at BEFORE UPDATE ON public.projects
   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
-CREATE TABLE public.project_history (
+CREATE TABLE IF NOT EXISTS public.project_history (
   id uuid NOT NULL DEFAULT gen_random_uuid(),
   project_id uuid NULL,
   event_type text NOT NULL,
@@ -121,7 +119,7 @@ CREATE TABLE public.project_history (
 CREATE INDEX IF NOT EXISTS idx_project_history_project_id ON public.project_history USING btree (project_id);
 
 -- Project events table for tracking actions/tasks
-CREATE TABLE public.project_events (
+CREATE TABLE IF NOT EXISTS public.project_events (
   id uuid NOT NULL DEFAULT gen_random_uuid(),
   project_id uuid NOT NULL,
   event_type text NOT NULL,
@@ -135,7 +133,7 @@ CREATE INDEX IF NOT EXISTS idx_project_events_project_id ON public.project_event
 CREATE INDEX IF NOT EXISTS idx_project_events_created_at ON public.project_events USING btree (created_at);
 
 -- Email scheduled reports table
-CREATE TABLE public.email_scheduled_reports (
+CREATE TABLE IF NOT EXISTS public.email_scheduled_reports (
   id uuid NOT NULL DEFAULT gen_random_uuid(),
   user_id uuid NOT NULL,
   email_address text NOT NULL,
@@ -157,11 +155,12 @@ CREATE INDEX IF NOT EXISTS idx_email_scheduled_reports_is_active ON public.email
 CREATE INDEX IF NOT EXISTS idx_email_scheduled_reports_next_send ON public.email_scheduled_reports USING btree (next_send_at) WHERE is_active = true;
 
 -- Add trigger to update updated_at timestamp for scheduled reports
+DROP TRIGGER IF EXISTS update_email_scheduled_reports_updated_at ON public.email_scheduled_reports;
 CREATE TRIGGER update_email_scheduled_reports_updated_at BEFORE UPDATE ON public.email_scheduled_reports
   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
 -- Email report history table
-CREATE TABLE public.email_report_history (
+CREATE TABLE IF NOT EXISTS public.email_report_history (
   id uuid NOT NULL DEFAULT gen_random_uuid(),
   user_id uuid NOT NULL,
   scheduled_report_id uuid NULL,
@@ -179,4 +178,4 @@ CREATE TABLE public.email_report_history (
 ) WITH (OIDS=FALSE);
 CREATE INDEX IF NOT EXISTS idx_email_report_history_user_id ON public.email_report_history USING btree (user_id);
 CREATE INDEX IF NOT EXISTS idx_email_report_history_sent_at ON public.email_report_history USING btree (sent_at);
-CREATE INDEX IF NOT EXISTS idx_email_report_history_status ON public.email_report_history USING btree (status);
\ No newline at end of file
+CREATE INDEX IF NOT EXISTS idx_email_report_history_status ON public.email_report_history USING btree (status);
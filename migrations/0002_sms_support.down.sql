@@ -0,0 +1,2 @@
+-- Nothing to undo: service, status and status_updated_at are part of
+-- 0001_initial_schema, so dropping them here would break that migration.
@@ -0,0 +1,18 @@
+-- SMS support for installations created before messages had service and status columns.
+-- A no-op on databases created from 0001_initial_schema.
+
+ALTER TABLE public.messages
+ADD COLUMN IF NOT EXISTS service text DEFAULT 'whatsapp';
+
+-- Add message status tracking columns
+ALTER TABLE public.messages
+ADD COLUMN IF NOT EXISTS status text DEFAULT 'sent',
+ADD COLUMN IF NOT EXISTS status_updated_at timestamp with time zone;
+
+-- Create index for service-based queries (improves performance)
+CREATE INDEX IF NOT EXISTS idx_messages_service ON public.messages USING btree (service);
+
+-- Existing messages without a service came from WhatsApp
+UPDATE public.messages
+SET service = 'whatsapp'
+WHERE service IS NULL;
@@ -0,0 +1,14 @@
+-- Removes multimedia support added by 0003_multimedia.
+
+DROP VIEW IF EXISTS media_message_stats;
+DROP TRIGGER IF EXISTS extract_media_info_trigger ON public.messages;
+DROP FUNCTION IF EXISTS extract_media_info();
+DROP FUNCTION IF EXISTS get_media_messages(uuid, text, integer);
+DROP TABLE IF EXISTS public.media_files;
+DROP INDEX IF EXISTS idx_messages_media_type;
+
+ALTER TABLE public.messages
+DROP COLUMN IF EXISTS media_metadata,
+DROP COLUMN IF EXISTS media_caption,
+DROP COLUMN IF EXISTS media_type,
+DROP COLUMN IF EXISTS media_url;
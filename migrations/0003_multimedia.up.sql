@@ -1,5 +1,4 @@
--- Multimedia Support Migration for A1Framework
--- This migration adds support for storing multimedia messages in the database
+-- Multimedia support: media columns on messages and the media_files table.
 
 -- Add media-specific columns to the messages table if they don't exist
 ALTER TABLE public.messages 
@@ -120,11 +119,13 @@ CREATE TRIGGER extract_media_info_trigger
 ALTER TABLE public.media_files ENABLE ROW LEVEL SECURITY;
 
 -- Policy for authenticated users to view media files
+DROP POLICY IF EXISTS "Users can view media files" ON public.media_files;
 CREATE POLICY "Users can view media files" ON public.media_files
   FOR SELECT
   USING (auth.role() = 'authenticated');
 
 -- Policy for authenticated users to insert media files
+DROP POLICY IF EXISTS "Users can insert media files" ON public.media_files;
 CREATE POLICY "Users can insert media files" ON public.media_files
   FOR INSERT
   WITH CHECK (auth.role() = 'authenticated');
@@ -142,4 +143,4 @@ WHERE media_type IS NOT NULL
 GROUP BY chat_id, media_type;
 
 -- Grant permissions on the new view
-GRANT SELECT ON media_message_stats TO authenticated; 
\ No newline at end of file
+GRANT SELECT ON media_message_stats TO authenticated;
@@ -0,0 +1,11 @@
+-- Removes the email schema added by 0004_email_schema.
+
+DROP VIEW IF EXISTS email_conversations_view;
+DROP FUNCTION IF EXISTS search_emails(text, integer);
+DROP FUNCTION IF EXISTS store_email_message(uuid, text, text, text, text, text, text, text, jsonb);
+DROP FUNCTION IF EXISTS get_or_create_email_thread(text, text, text);
+DROP TRIGGER IF EXISTS update_thread_timestamp ON public.email_messages;
+DROP FUNCTION IF EXISTS update_email_thread_timestamp();
+DROP TABLE IF EXISTS public.email_attachments;
+DROP TABLE IF EXISTS public.email_messages;
+DROP TABLE IF EXISTS public.email_threads;
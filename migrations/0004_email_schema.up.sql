@@ -1,8 +1,7 @@
--- Email-Specific Schema for A1Framework
--- This creates dedicated tables for email handling with proper structure
+-- Email schema: threads, messages and attachments for the email channel.
 
 -- 1. Email threads table (groups emails by conversation)
-CREATE TABLE public.email_threads (
+CREATE TABLE IF NOT EXISTS public.email_threads (
   id uuid NOT NULL DEFAULT gen_random_uuid(),
   created_at timestamp with time zone NOT NULL DEFAULT now(),
   updated_at timestamp with time zone NOT NULL DEFAULT now(),
@@ -15,12 +14,12 @@ CREATE TABLE public.email_threads (
 );
 
 -- Indexes for email threads
-CREATE INDEX idx_email_threads_sender ON public.email_threads USING btree (sender_email);
-CREATE INDEX idx_email_threads_recipient ON public.email_threads USING btree (recipient_email);
-CREATE INDEX idx_email_threads_updated ON public.email_threads USING btree (updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_email_threads_sender ON public.email_threads USING btree (sender_email);
+CREATE INDEX IF NOT EXISTS idx_email_threads_recipient ON public.email_threads USING btree (recipient_email);
+CREATE INDEX IF NOT EXISTS idx_email_threads_updated ON public.email_threads USING btree (updated_at DESC);
 
 -- 2. Email messages table
-CREATE TABLE public.email_messages (
+CREATE TABLE IF NOT EXISTS public.email_messages (
   id uuid NOT NULL DEFAULT gen_random_uuid(),
   thread_id uuid NOT NULL,
   email_id text NOT NULL UNIQUE, -- External email ID from webhook
@@ -44,14 +43,14 @@ CREATE TABLE public.email_messages (
 );
 
 -- Indexes for email messages
-CREATE INDEX idx_email_messages_thread_id ON public.email_messages USING btree (thread_id);
-CREATE INDEX idx_email_messages_email_id ON public.email_messages USING btree (email_id);
-CREATE INDEX idx_email_messages_created_at ON public.email_messages USING btree (created_at DESC);
-CREATE INDEX idx_email_messages_from ON public.email_messages USING btree (from_address);
-CREATE INDEX idx_email_messages_direction ON public.email_messages USING btree (direction);
+CREATE INDEX IF NOT EXISTS idx_email_messages_thread_id ON public.email_messages USING btree (thread_id);
+CREATE INDEX IF NOT EXISTS idx_email_messages_email_id ON public.email_messages USING btree (email_id);
+CREATE INDEX IF NOT EXISTS idx_email_messages_created_at ON public.email_messages USING btree (created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_email_messages_from ON public.email_messages USING btree (from_address);
+CREATE INDEX IF NOT EXISTS idx_email_messages_direction ON public.email_messages USING btree (direction);
 
 -- 3. Email attachments table (for future use)
-CREATE TABLE public.email_attachments (
+CREATE TABLE IF NOT EXISTS public.email_attachments (
   id uuid NOT NULL DEFAULT gen_random_uuid(),
   message_id uuid NOT NULL,
   filename text NOT NULL,
@@ -63,7 +62,7 @@ CREATE TABLE public.email_attachments (
   CONSTRAINT email_attachments_message_id_fkey FOREIGN KEY (message_id) REFERENCES public.email_messages(id) ON DELETE CASCADE
 );
 
-CREATE INDEX idx_email_attachments_message_id ON public.email_attachments USING btree (message_id);
+CREATE INDEX IF NOT EXISTS idx_email_attachments_message_id ON public.email_attachments USING btree (message_id);
 
 -- 4. Update thread timestamp trigger
 CREATE OR REPLACE FUNCTION update_email_thread_timestamp()
@@ -76,6 +75,7 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql;
 
+DROP TRIGGER IF EXISTS update_thread_timestamp ON email_messages;
 CREATE TRIGGER update_thread_timestamp
 AFTER INSERT ON email_messages
 FOR EACH ROW
@@ -223,21 +223,27 @@ ALTER TABLE public.email_messages ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.email_attachments ENABLE ROW LEVEL SECURITY;
 
 -- 10. RLS Policies (adjust based on your auth strategy)
+DROP POLICY IF EXISTS "Users can view email threads" ON public.email_threads;
 CREATE POLICY "Users can view email threads" ON public.email_threads
   FOR SELECT USING (auth.role() = 'authenticated');
 
+DROP POLICY IF EXISTS "Users can create email threads" ON public.email_threads;
 CREATE POLICY "Users can create email threads" ON public.email_threads
   FOR INSERT WITH CHECK (auth.role() = 'authenticated');
 
+DROP POLICY IF EXISTS "Users can update email threads" ON public.email_threads;
 CREATE POLICY "Users can update email threads" ON public.email_threads
   FOR UPDATE USING (auth.role() = 'authenticated');
 
+DROP POLICY IF EXISTS "Users can view email messages" ON public.email_messages;
 CREATE POLICY "Users can view email messages" ON public.email_messages
   FOR SELECT USING (auth.role() = 'authenticated');
 
+DROP POLICY IF EXISTS "Users can create email messages" ON public.email_messages;
 CREATE POLICY "Users can create email messages" ON public.email_messages
   FOR INSERT WITH CHECK (auth.role() = 'authenticated');
 
+DROP POLICY IF EXISTS "Users can view email attachments" ON public.email_attachments;
 CREATE POLICY "Users can view email attachments" ON public.email_attachments
   FOR SELECT USING (auth.role() = 'authenticated');
 
@@ -245,4 +251,4 @@ CREATE POLICY "Users can view email attachments" ON public.email_attachments
 GRANT SELECT, INSERT, UPDATE ON public.email_threads TO authenticated;
 GRANT SELECT, INSERT ON public.email_messages TO authenticated;
 GRANT SELECT ON public.email_attachments TO authenticated;
-GRANT SELECT ON email_conversations_view TO authenticated; 
\ No newline at end of file
+GRANT SELECT ON email_conversations_view TO authenticated;
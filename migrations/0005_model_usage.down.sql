@@ -0,0 +1,3 @@
+-- Removes the model_usage table added by 0005_model_usage.
+
+DROP TABLE IF EXISTS public.model_usage;
@@ -0,0 +1,18 @@
+-- Token usage and cost of every model call, for spend reports and per-chat budgets.
+
+CREATE TABLE IF NOT EXISTS public.model_usage (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  task text NOT NULL, -- Model routing task: triage, reply, memory, email, summary
+  model text NOT NULL, -- "provider:model"
+  chat_id text NULL, -- External thread ID
+  user_id text NULL, -- Sender phone number or user ID
+  prompt_tokens integer NOT NULL DEFAULT 0,
+  completion_tokens integer NOT NULL DEFAULT 0,
+  total_tokens integer NOT NULL DEFAULT 0,
+  cost_usd double precision NULL, -- NULL when the model has no known price
+  CONSTRAINT model_usage_pkey PRIMARY KEY (id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_model_usage_created_at ON public.model_usage USING btree (created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_model_usage_chat_id ON public.model_usage USING btree (chat_id, created_at DESC);
@@ -0,0 +1,3 @@
+-- Removes the memory_chunks table added by 0006_memory_chunks.
+
+DROP TABLE IF EXISTS public.memory_chunks;
@@ -0,0 +1,19 @@
+-- Episodic memory: message and memory-fact chunks with their embeddings, recalled by similarity.
+
+CREATE TABLE IF NOT EXISTS public.memory_chunks (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  user_id uuid NULL, -- User the chunk is about, NULL for chat facts
+  chat_id uuid NULL, -- Chat the chunk came from, NULL for user facts
+  kind text NOT NULL, -- message or fact
+  content text NOT NULL,
+  embedding double precision[] NOT NULL,
+  embedding_model text NOT NULL, -- Chunks are only compared with embeddings from the same model
+  metadata jsonb NULL DEFAULT '{}'::jsonb,
+  CONSTRAINT memory_chunks_pkey PRIMARY KEY (id),
+  CONSTRAINT memory_chunks_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.conversation_users(id) ON DELETE CASCADE,
+  CONSTRAINT memory_chunks_chat_id_fkey FOREIGN KEY (chat_id) REFERENCES public.chats(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_memory_chunks_user_id ON public.memory_chunks USING btree (user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_memory_chunks_chat_id ON public.memory_chunks USING btree (chat_id, created_at DESC);
@@ -0,0 +1,3 @@
+-- Removes the memory_history table added by 0007_memory_history.
+
+DROP TABLE IF EXISTS public.memory_history;
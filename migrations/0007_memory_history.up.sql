@@ -0,0 +1,18 @@
+-- Every change to a user or chat memory field, with where it came from, so changes can be reviewed and reverted.
+
+CREATE TABLE IF NOT EXISTS public.memory_history (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  scope text NOT NULL, -- user or chat
+  owner_id uuid NOT NULL, -- conversation_users.id for user memory, chats.id for chat memory
+  field_id text NOT NULL,
+  previous_value text NULL, -- NULL when the field was created
+  new_value text NULL, -- NULL when the field was deleted
+  source text NOT NULL, -- memory_processor, manual or revert
+  source_message_id text NULL, -- External ID of the message the change was extracted from
+  model text NULL, -- "provider:model" that suggested the change
+  metadata jsonb NULL DEFAULT '{}'::jsonb,
+  CONSTRAINT memory_history_pkey PRIMARY KEY (id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_memory_history_owner ON public.memory_history USING btree (scope, owner_id, created_at DESC);
@@ -0,0 +1,3 @@
+-- Removes the memory_review_queue table added by 0008_memory_review_queue.
+
+DROP TABLE IF EXISTS public.memory_review_queue;
@@ -0,0 +1,21 @@
+-- Memory updates suggested by the AI that wait for a human to approve, edit or reject them before they are applied.
+
+CREATE TABLE IF NOT EXISTS public.memory_review_queue (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  scope text NOT NULL, -- user or chat
+  owner_id uuid NOT NULL, -- conversation_users.id for user memory, chats.id for chat memory
+  field_id text NOT NULL,
+  current_value text NULL, -- Value of the field when the update was suggested
+  proposed_value text NOT NULL,
+  status text NOT NULL DEFAULT 'pending', -- pending, approved or rejected
+  source_message_id text NULL, -- External ID of the message the update was extracted from
+  source_message text NULL, -- Content of that message, shown to the reviewer
+  model text NULL, -- "provider:model" that suggested the update
+  reviewed_at timestamp with time zone NULL,
+  applied_value text NULL, -- Value saved on approval, differs from proposed_value when edited
+  CONSTRAINT memory_review_queue_pkey PRIMARY KEY (id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_memory_review_queue_status ON public.memory_review_queue USING btree (status, created_at);
+CREATE INDEX IF NOT EXISTS idx_memory_review_queue_owner ON public.memory_review_queue USING btree (scope, owner_id);
@@ -0,0 +1,3 @@
+-- Removes the moderation_log table added by 0009_moderation_log.
+
+DROP TABLE IF EXISTS public.moderation_log;
@@ -0,0 +1,17 @@
+-- Messages flagged by the moderation pipeline and what was done about them. Message content is not stored.
+
+CREATE TABLE IF NOT EXISTS public.moderation_log (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  direction text NOT NULL, -- inbound (user message) or outbound (agent reply)
+  service text NULL, -- whatsapp, sms, email or web-ui
+  thread_id text NULL, -- External thread ID, or the email thread ID
+  message_id text NULL, -- External ID of the inbound message
+  action text NOT NULL, -- warn, rewrite, block or escalate
+  categories jsonb NOT NULL DEFAULT '[]'::jsonb, -- e.g. ["profanity", "personalData"]
+  findings jsonb NOT NULL DEFAULT '[]'::jsonb, -- What each checker found
+  CONSTRAINT moderation_log_pkey PRIMARY KEY (id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_moderation_log_created_at ON public.moderation_log USING btree (created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_moderation_log_thread_id ON public.moderation_log USING btree (thread_id);
@@ -0,0 +1,3 @@
+-- Removes the project_tasks table added by 0010_project_tasks.
+
+DROP TABLE IF EXISTS public.project_tasks;
@@ -0,0 +1,26 @@
+-- Tasks belonging to a project, with an assignee from the chat's participants and a due date.
+
+CREATE TABLE IF NOT EXISTS public.project_tasks (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL,
+  title text NOT NULL,
+  status text NOT NULL DEFAULT 'open', -- open or done
+  assignee_id uuid NULL, -- Conversation user the task is assigned to
+  due_at timestamp with time zone NULL,
+  completed_at timestamp with time zone NULL,
+  created_by uuid NULL, -- Conversation user who added the task
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT project_tasks_pkey PRIMARY KEY (id),
+  CONSTRAINT project_tasks_project_id_fkey FOREIGN KEY (project_id) REFERENCES public.projects(id) ON DELETE CASCADE,
+  CONSTRAINT project_tasks_assignee_id_fkey FOREIGN KEY (assignee_id) REFERENCES public.conversation_users(id) ON DELETE SET NULL,
+  CONSTRAINT project_tasks_created_by_fkey FOREIGN KEY (created_by) REFERENCES public.conversation_users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_tasks_project_id ON public.project_tasks USING btree (project_id);
+CREATE INDEX IF NOT EXISTS idx_project_tasks_assignee_id ON public.project_tasks USING btree (assignee_id);
+CREATE INDEX IF NOT EXISTS idx_project_tasks_status_due_at ON public.project_tasks (status, due_at);
+
+DROP TRIGGER IF EXISTS update_project_tasks_updated_at ON public.project_tasks;
+CREATE TRIGGER update_project_tasks_updated_at BEFORE UPDATE ON public.project_tasks
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,4 @@
+-- Removes the local cron scheduler tables added by 0011_cron_jobs.
+
+DROP TABLE IF EXISTS public.local_cron_execution_logs;
+DROP TABLE IF EXISTS public.local_cron_jobs;
@@ -0,0 +1,54 @@
+-- Jobs and execution logs for the local cron scheduler (lib/a1cron/local-service.ts), used instead of
+-- A1Cron when CRON_BACKEND=local or the A1Base credentials are missing.
+-- Prefixed with local_ because 0001_initial_schema already has an unrelated cron_jobs table.
+
+CREATE TABLE IF NOT EXISTS public.local_cron_jobs (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  name text NOT NULL,
+  description text NULL,
+  endpoint_url text NOT NULL,
+  method text NOT NULL DEFAULT 'POST',
+  headers jsonb NOT NULL DEFAULT '{}'::jsonb,
+  body text NULL,
+  timezone text NOT NULL DEFAULT 'UTC',
+  schedule_config jsonb NOT NULL, -- repeat_type, repeat_every, time, days_of_week and end rules
+  retry_config jsonb NULL, -- max_retries, retry_delay_seconds, timeout_seconds
+  callbacks jsonb NULL, -- success_url and failure_url
+  tags jsonb NOT NULL DEFAULT '[]'::jsonb,
+  is_active boolean NOT NULL DEFAULT true,
+  next_run_at timestamp with time zone NULL, -- NULL once the schedule has ended
+  last_run_at timestamp with time zone NULL,
+  occurrences integer NOT NULL DEFAULT 0, -- Scheduled runs so far, counted against end_occurrences
+  total_executions integer NOT NULL DEFAULT 0,
+  successful_executions integer NOT NULL DEFAULT 0,
+  failed_executions integer NOT NULL DEFAULT 0,
+  retry_attempt integer NOT NULL DEFAULT 0, -- Attempt number of the pending retry, 0 when none is pending
+  retry_at timestamp with time zone NULL,
+  CONSTRAINT local_cron_jobs_pkey PRIMARY KEY (id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_local_cron_jobs_next_run_at ON public.local_cron_jobs USING btree (next_run_at);
+CREATE INDEX IF NOT EXISTS idx_local_cron_jobs_retry_at ON public.local_cron_jobs USING btree (retry_at);
+
+DROP TRIGGER IF EXISTS update_local_cron_jobs_updated_at ON public.local_cron_jobs;
+CREATE TRIGGER update_local_cron_jobs_updated_at BEFORE UPDATE ON public.local_cron_jobs
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS public.local_cron_execution_logs (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  cron_job_id uuid NOT NULL,
+  execution_id text NOT NULL, -- Shared by every attempt of one run
+  status text NOT NULL, -- success, failure, timeout or retry
+  response_code integer NULL,
+  response_body text NULL, -- Truncated
+  error_message text NULL,
+  response_time_ms integer NULL,
+  retry_attempt integer NOT NULL DEFAULT 0,
+  executed_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT local_cron_execution_logs_pkey PRIMARY KEY (id),
+  CONSTRAINT local_cron_execution_logs_cron_job_id_fkey FOREIGN KEY (cron_job_id) REFERENCES public.local_cron_jobs(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_local_cron_execution_logs_job_executed_at ON public.local_cron_execution_logs (cron_job_id, executed_at DESC);
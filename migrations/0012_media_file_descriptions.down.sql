@@ -0,0 +1,4 @@
+-- Restores the NOT NULL constraint on media_files.file_url, removing the rows that have no URL.
+
+DELETE FROM public.media_files WHERE file_url IS NULL;
+ALTER TABLE public.media_files ALTER COLUMN file_url SET NOT NULL;
@@ -0,0 +1,5 @@
+-- Incoming WhatsApp media arrives as base64 without a URL. Its media_files row is still stored so the
+-- description of what was in the file (metadata, see lib/services/media-understanding.ts) can be read
+-- back in later turns.
+
+ALTER TABLE public.media_files ALTER COLUMN file_url DROP NOT NULL;
@@ -0,0 +1,13 @@
+-- Removes the email threading columns and attachment writes added by 0013_email_threading.
+
+REVOKE INSERT ON public.email_attachments FROM authenticated;
+REVOKE UPDATE ON public.email_messages FROM authenticated;
+DROP POLICY IF EXISTS "Users can create email attachments" ON public.email_attachments;
+DROP POLICY IF EXISTS "Users can update email messages" ON public.email_messages;
+
+ALTER TABLE public.email_attachments DROP COLUMN IF EXISTS content_id;
+
+DROP INDEX IF EXISTS public.idx_email_messages_message_id_header;
+ALTER TABLE public.email_messages DROP COLUMN IF EXISTS reference_ids;
+ALTER TABLE public.email_messages DROP COLUMN IF EXISTS in_reply_to;
+ALTER TABLE public.email_messages DROP COLUMN IF EXISTS message_id_header;
@@ -0,0 +1,23 @@
+-- Threading and attachments for the email channel (lib/services/email-threads.ts). Each stored email keeps
+-- its Message-ID, In-Reply-To and References headers, so a reply joins the thread of the email it answers,
+-- and attachments are saved in media storage with email_attachments.url holding the reference.
+
+ALTER TABLE public.email_messages ADD COLUMN IF NOT EXISTS message_id_header text NULL;
+ALTER TABLE public.email_messages ADD COLUMN IF NOT EXISTS in_reply_to text NULL;
+ALTER TABLE public.email_messages ADD COLUMN IF NOT EXISTS reference_ids text[] NOT NULL DEFAULT ARRAY[]::text[];
+
+CREATE INDEX IF NOT EXISTS idx_email_messages_message_id_header ON public.email_messages USING btree (message_id_header);
+
+ALTER TABLE public.email_attachments ADD COLUMN IF NOT EXISTS content_id text NULL;
+
+-- Emails are now written by the database adapter rather than the store_email_message function
+DROP POLICY IF EXISTS "Users can update email messages" ON public.email_messages;
+CREATE POLICY "Users can update email messages" ON public.email_messages
+  FOR UPDATE USING (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS "Users can create email attachments" ON public.email_attachments;
+CREATE POLICY "Users can create email attachments" ON public.email_attachments
+  FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+
+GRANT UPDATE ON public.email_messages TO authenticated;
+GRANT INSERT ON public.email_attachments TO authenticated;
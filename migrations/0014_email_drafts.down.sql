@@ -0,0 +1,3 @@
+-- Removes the email_drafts table added by 0014_email_drafts.
+
+DROP TABLE IF EXISTS public.email_drafts;
@@ -0,0 +1,41 @@
+-- Outbox for email replies (lib/services/email-outbox.ts). In draft mode the agent's replies wait here as
+-- pending drafts until someone approves, edits, regenerates or discards them from /inbox.
+
+CREATE TABLE IF NOT EXISTS public.email_drafts (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  thread_id uuid NOT NULL,
+  reply_to_id uuid NULL, -- The email in email_messages the draft answers
+  to_address text NOT NULL,
+  subject text NOT NULL,
+  body text NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'discarded')),
+  instructions text NULL, -- Instructions the draft was last regenerated with
+  error text NULL, -- Why the last attempt to send it failed
+  sent_message_id uuid NULL, -- The email in email_messages the draft was sent as
+  reviewed_at timestamp with time zone NULL,
+  CONSTRAINT email_drafts_pkey PRIMARY KEY (id),
+  CONSTRAINT email_drafts_thread_id_fkey FOREIGN KEY (thread_id) REFERENCES public.email_threads(id) ON DELETE CASCADE,
+  CONSTRAINT email_drafts_reply_to_id_fkey FOREIGN KEY (reply_to_id) REFERENCES public.email_messages(id) ON DELETE SET NULL,
+  CONSTRAINT email_drafts_sent_message_id_fkey FOREIGN KEY (sent_message_id) REFERENCES public.email_messages(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_drafts_status ON public.email_drafts USING btree (status, created_at);
+CREATE INDEX IF NOT EXISTS idx_email_drafts_thread ON public.email_drafts USING btree (thread_id);
+
+ALTER TABLE public.email_drafts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view email drafts" ON public.email_drafts;
+CREATE POLICY "Users can view email drafts" ON public.email_drafts
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS "Users can create email drafts" ON public.email_drafts;
+CREATE POLICY "Users can create email drafts" ON public.email_drafts
+  FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS "Users can update email drafts" ON public.email_drafts;
+CREATE POLICY "Users can update email drafts" ON public.email_drafts
+  FOR UPDATE USING (auth.role() = 'authenticated');
+
+GRANT SELECT, INSERT, UPDATE ON public.email_drafts TO authenticated;
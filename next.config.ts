@@ -16,6 +16,8 @@ const nextConfig: NextConfig = {
   },
   // output: 'standalone', //Pennie commented this out
   reactStrictMode: true,
+  // Native module used by the SQLite database adapter
+  serverExternalPackages: ['better-sqlite3'],
   
   images: {
     remotePatterns: [
@@ -0,0 +1,85 @@
+#!/usr/bin/env node
+
+/**
+ * Database migration CLI
+ *
+ * Applies the versioned migrations in migrations/ to the Postgres database in DATABASE_URL
+ * Usage: npm run db:migrate -- [command] [options]
+ *
+ * Commands:
+ *   status            - List migrations and whether they have been applied (default)
+ *   up [--to N]       - Apply pending migrations, optionally stopping at version N
+ *   down [--steps N]  - Roll back the last N applied migrations (default 1)
+ */
+
+import dotenv from 'dotenv';
+import { loadMigrations, migrationId } from '../lib/database/migrations/migration-files';
+import { MigrationRunner } from '../lib/database/migrations/migration-runner';
+import { PostgresMigrationDriver } from '../lib/database/migrations/postgres-driver';
+
+// Load environment variables the same way Next.js does
+dotenv.config({ path: '.env.local' });
+dotenv.config();
+
+const STATE_LABELS = {
+  applied: 'applied ',
+  pending: 'pending ',
+  modified: 'MODIFIED',
+  missing: 'MISSING ',
+};
+
+function numberOption(args: string[], name: string): number | undefined {
+  const index = args.indexOf(name);
+  if (index === -1) return undefined;
+
+  const value = Number(args[index + 1]);
+  if (!Number.isInteger(value)) {
+    throw new Error(`${name} expects a whole number`);
+  }
+  return value;
+}
+
+async function main() {
+  const [command = 'status', ...args] = process.argv.slice(2);
+
+  const connectionString = process.env.DATABASE_URL;
+  if (!connectionString) {
+    console.error('DATABASE_URL is not set. Use the Postgres connection string from Supabase > Project Settings > Database.');
+    process.exit(1);
+  }
+
+  const driver = new PostgresMigrationDriver(connectionString);
+  const runner = new MigrationRunner(driver, loadMigrations());
+
+  try {
+    switch (command) {
+      case 'status': {
+        const status = await runner.status();
+        for (const entry of status) {
+          console.log(`${STATE_LABELS[entry.state]}  ${migrationId(entry)}${entry.appliedAt ? `  (${entry.appliedAt})` : ''}`);
+        }
+        if (status.some((entry) => entry.state === 'modified' || entry.state === 'missing')) {
+          process.exitCode = 1;
+        }
+        break;
+      }
+      case 'up':
+        await runner.up({ to: numberOption(args, '--to') });
+        break;
+      case 'down':
+      case 'rollback':
+        await runner.down({ steps: numberOption(args, '--steps') });
+        break;
+      default:
+        console.error(`Unknown command "${command}". Expected status, up or down.`);
+        process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error('[Migrations] Failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    await driver.close();
+  }
+}
+
+main();
@@ -2,9 +2,13 @@
 
 /**
  * Test script for email webhook
+ * Signs the request with A1MAIL_WEBHOOK_SECRET, A1BASE_WEBHOOK_SECRET or A1BASE_API_SECRET
+ * when one is set; otherwise run the server with SKIP_WEBHOOK_VERIFICATION=true.
  * Usage: node scripts/test-email-webhook.js [webhook-url]
  */
 
+const crypto = require('crypto');
+
 const webhookUrl = process.argv[2] || 'http://localhost:3006/api/a1base/email';
 
 // Sample email webhook payload based on A1Mail documentation
@@ -36,12 +40,24 @@ console.log('   From:', testPayload.sender_address);
 console.log('   To:', testPayload.recipient_address);
 console.log('   Subject:', testPayload.subject);
 
+// Sign the body the way A1Base does: HMAC-SHA256 of timestamp + body
+const body = JSON.stringify(testPayload);
+const secret = process.env.A1MAIL_WEBHOOK_SECRET || process.env.A1BASE_WEBHOOK_SECRET || process.env.A1BASE_API_SECRET;
+const timestamp = Math.floor(Date.now() / 1000).toString();
+const signatureHeaders = secret
+  ? {
+      'x-timestamp': timestamp,
+      'x-signature': crypto.createHmac('sha256', secret).update(timestamp + body).digest('hex'),
+    }
+  : {};
+
 fetch(webhookUrl, {
   method: 'POST',
   headers: {
     'Content-Type': 'application/json',
+    ...signatureHeaders,
   },
-  body: JSON.stringify(testPayload),
+  body,
 })
   .then(async (response) => {
     const data = await response.json();
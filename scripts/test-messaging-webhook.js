@@ -2,9 +2,13 @@
 
 /**
  * Test script for messaging webhook - simulates WhatsApp messages
+ * Signs the request with A1BASE_MESSAGING_WEBHOOK_SECRET, A1BASE_WEBHOOK_SECRET or A1BASE_API_SECRET
+ * when one is set; otherwise run the server with SKIP_WEBHOOK_VERIFICATION=true.
  * Usage: node scripts/test-messaging-webhook.js [webhook-url]
  */
 
+const crypto = require('crypto');
+
 const webhookUrl = process.argv[2] || 'http://localhost:3005/api/a1base/messaging';
 
 // Sample WhatsApp webhook payload based on A1Base documentation
@@ -29,12 +33,24 @@ console.log('   Name:', testPayload.sender_name);
 console.log('   Message:', testPayload.message_content.text);
 console.log('   Thread ID:', testPayload.thread_id);
 
+// Sign the body the way A1Base does: HMAC-SHA256 of timestamp + body
+const body = JSON.stringify(testPayload);
+const secret = process.env.A1BASE_MESSAGING_WEBHOOK_SECRET || process.env.A1BASE_WEBHOOK_SECRET || process.env.A1BASE_API_SECRET;
+const timestamp = Math.floor(Date.now() / 1000).toString();
+const signatureHeaders = secret
+  ? {
+      'x-timestamp': timestamp,
+      'x-signature': crypto.createHmac('sha256', secret).update(timestamp + body).digest('hex'),
+    }
+  : {};
+
 fetch(webhookUrl, {
   method: 'POST',
   headers: {
     'Content-Type': 'application/json',
+    ...signatureHeaders,
   },
-  body: JSON.stringify(testPayload),
+  body,
 })
   .then(async (response) => {
     const data = await response.json();
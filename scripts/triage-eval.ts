@@ -0,0 +1,79 @@
+#!/usr/bin/env node
+
+/**
+ * Triage evaluation CLI
+ *
+ * Replays the golden conversations in tests/fixtures/triage through triage and
+ * prints a confusion matrix and the differences for each failing fixture
+ * Usage: npm run eval:triage -- [options]
+ *
+ * Options:
+ *   --client stub|model   - Model client: the offline stub (default) or the models
+ *                           routed to the triage task in data/model-settings.json
+ *   --fixtures DIR        - Fixtures directory (default tests/fixtures/triage)
+ *   --quiet               - Hide triage logs while fixtures run
+ */
+
+import dotenv from 'dotenv';
+import path from 'path';
+import { TriageModelClient } from '../lib/ai-triage/triage-tools';
+import { keywordTriageClient } from '../lib/ai-triage/eval/keyword-triage-client';
+import {
+  DEFAULT_FIXTURES_DIR,
+  formatTriageEvalReport,
+  loadTriageFixtures,
+  runTriageEval,
+} from '../lib/ai-triage/eval/triage-eval';
+import { routedTriageClient } from '../lib/services/openai';
+
+// Load environment variables the same way Next.js does
+dotenv.config({ path: '.env.local' });
+dotenv.config();
+
+const CLIENTS: Record<string, TriageModelClient> = {
+  stub: keywordTriageClient,
+  model: routedTriageClient,
+};
+
+function option(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const clientName = option(args, '--client') || 'stub';
+  const client = CLIENTS[clientName];
+  if (!client) {
+    console.error(`Unknown client "${clientName}". Expected ${Object.keys(CLIENTS).join(' or ')}.`);
+    process.exit(1);
+  }
+
+  const fixturesOption = option(args, '--fixtures');
+  const fixtures = loadTriageFixtures(fixturesOption ? path.resolve(fixturesOption) : DEFAULT_FIXTURES_DIR);
+
+  // Triage logs every step; keep the report readable
+  const log = console.log;
+  const warn = console.warn;
+  if (args.includes('--quiet')) {
+    console.log = () => {};
+    console.warn = () => {};
+  }
+
+  try {
+    const report = await runTriageEval(fixtures, client);
+    console.log = log;
+    console.warn = warn;
+    console.log(formatTriageEvalReport(report));
+    if (report.results.some((result) => !result.passed)) {
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.log = log;
+    console.warn = warn;
+    console.error('[Triage Eval] Failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  }
+}
+
+main();
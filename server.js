@@ -6,6 +6,7 @@ console.log('[SERVER.JS] Port:', process.env.PORT || '8080');
 console.log('[SERVER.JS] NODE_ENV:', process.env.NODE_ENV);
 
 const { createServer } = require('http');
+const { randomUUID } = require('crypto');
 const { parse } = require('url');
 const next = require('next');
 const { Server } = require('socket.io');
@@ -34,6 +35,156 @@ const handle = app.getRequestHandler();
 const rooms = new Map(); // chatId -> Set of participant info
 const userSockets = new Map(); // userId -> socket.id
 const userEmailRequested = new Map(); // userId -> boolean (tracks if we've asked for email)
+const activeReplies = new Map(); // chatId -> Map of reply ID -> AbortController for AI replies being streamed
+
+// Next.js API routes are called on the same server
+const internalBaseUrl = `http://127.0.0.1:${port}`;
+
+// A message that's just "stop" cancels the AI replies being streamed in that chat
+const STOP_PATTERN = /^\/?stop[.!]*$/i;
+
+/**
+ * Add the AI agent to a room's participants if it isn't there yet
+ */
+function ensureAgentParticipant(io, chatId, agentName) {
+  if (!rooms.has(chatId)) {
+    rooms.set(chatId, new Set());
+  }
+  const participants = rooms.get(chatId);
+
+  // Check if AI agent is already in participants
+  const participantsArray = Array.from(participants).map(p => JSON.parse(p));
+  const aiAgentExists = participantsArray.some(p => p.userId === 'ai-agent');
+
+  if (!aiAgentExists) {
+    // Add AI agent to participants
+    const aiParticipantInfo = { userId: 'ai-agent', userName: agentName, socketId: 'ai-agent' };
+    participants.add(JSON.stringify(aiParticipantInfo));
+
+    // Emit updated participants list
+    const updatedParticipantsList = Array.from(participants).map(p => JSON.parse(p));
+    io.to(chatId).emit('participants-update', { participants: updatedParticipantsList });
+  }
+}
+
+/**
+ * Abort every AI reply being streamed in a chat
+ * @returns true if there was a reply to cancel
+ */
+function cancelActiveReplies(chatId) {
+  const replies = activeReplies.get(chatId);
+  if (!replies || replies.size === 0) return false;
+  replies.forEach(controller => controller.abort());
+  return true;
+}
+
+/**
+ * Save a message through the same API the browser uses
+ */
+async function persistSocketMessage(payload) {
+  try {
+    const response = await fetch(`${internalBaseUrl}/api/chat/socket-message`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload)
+    });
+    if (!response.ok) {
+      console.error('[SOCKET.IO] Failed to persist message:', response.status);
+    }
+  } catch (error) {
+    console.error('[SOCKET.IO] Failed to persist message:', error);
+  }
+}
+
+/**
+ * Stream the AI's reply to a message into the room.
+ * The reply comes from /api/chat/group-ai-response as a text stream. Each chunk
+ * is sent as a message-delta event, followed by message-complete with the full
+ * text (and cancelled: true if it was stopped part way).
+ */
+async function streamAgentReply(io, { chatId, message, userId, userName }) {
+  const replyId = randomUUID();
+  const controller = new AbortController();
+  if (!activeReplies.has(chatId)) {
+    activeReplies.set(chatId, new Map());
+  }
+  activeReplies.get(chatId).set(replyId, controller);
+
+  const timestamp = new Date().toISOString();
+  let agentName = 'AI Assistant';
+  let content = '';
+
+  try {
+    const response = await fetch(`${internalBaseUrl}/api/chat/group-ai-response`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ chatId, message, userId, userName, stream: true }),
+      signal: controller.signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`group-ai-response returned ${response.status}`);
+    }
+
+    // JSON means the agent decided not to reply
+    if (response.headers.get('content-type')?.includes('application/json')) {
+      return;
+    }
+
+    agentName = decodeURIComponent(response.headers.get('x-agent-name') || '') || agentName;
+    ensureAgentParticipant(io, chatId, agentName);
+
+    const decoder = new TextDecoder();
+    for await (const chunk of response.body) {
+      const delta = decoder.decode(chunk, { stream: true });
+      if (!delta) continue;
+      content += delta;
+      io.to(chatId).emit('message-delta', {
+        id: replyId,
+        delta,
+        role: 'assistant',
+        timestamp,
+        senderName: agentName,
+        senderId: 'ai-agent'
+      });
+    }
+  } catch (error) {
+    if (!controller.signal.aborted) {
+      console.error('[SOCKET.IO] Error streaming AI reply:', error);
+    }
+  } finally {
+    const replies = activeReplies.get(chatId);
+    replies?.delete(replyId);
+    if (replies?.size === 0) {
+      activeReplies.delete(chatId);
+    }
+  }
+
+  // Nothing was sent, so there's no placeholder to complete
+  if (!content) return;
+
+  const cancelled = controller.signal.aborted;
+  if (cancelled) {
+    console.log(`[SOCKET.IO] AI reply ${replyId} in chat ${chatId} stopped after ${content.length} characters`);
+  }
+
+  io.to(chatId).emit('message-complete', {
+    id: replyId,
+    content,
+    role: 'assistant',
+    timestamp,
+    senderName: agentName,
+    senderId: 'ai-agent',
+    cancelled
+  });
+
+  await persistSocketMessage({
+    chatId,
+    message: { id: replyId, content, role: 'assistant', timestamp },
+    userId: 'ai-agent',
+    userName: agentName
+  });
+}
 
 console.log('[SERVER.JS] Calling app.prepare()...');
 
@@ -352,24 +503,7 @@ app.prepare().then(() => {
 
         // If this is an AI agent message, ensure it's in the participants list
         if (userId === 'ai-agent') {
-          if (!rooms.has(chatId)) {
-            rooms.set(chatId, new Set());
-          }
-          const participants = rooms.get(chatId);
-          
-          // Check if AI agent is already in participants
-          const participantsArray = Array.from(participants).map(p => JSON.parse(p));
-          const aiAgentExists = participantsArray.some(p => p.userId === 'ai-agent');
-          
-          if (!aiAgentExists) {
-            // Add AI agent to participants
-            const aiParticipantInfo = { userId: 'ai-agent', userName, socketId: 'ai-agent' };
-            participants.add(JSON.stringify(aiParticipantInfo));
-            
-            // Emit updated participants list
-            const updatedParticipantsList = Array.from(participants).map(p => JSON.parse(p));
-            io.to(chatId).emit('participants-update', { participants: updatedParticipantsList });
-          }
+          ensureAgentParticipant(io, chatId, userName);
         }
 
         // Broadcast message to all users in the room (including sender)
@@ -381,6 +515,15 @@ app.prepare().then(() => {
           senderName: userName,
           senderId: userId
         });
+
+        // Stream the AI's reply to user messages, or stop the replies in progress
+        if (userId !== 'ai-agent' && message.role === 'user') {
+          if (STOP_PATTERN.test(message.content.trim()) && cancelActiveReplies(chatId)) {
+            console.log(`[SOCKET.IO] ${userName} stopped the AI reply in chat ${chatId}`);
+          } else if (!emailHandled) {
+            streamAgentReply(io, { chatId, message, userId, userName });
+          }
+        }
       } catch (error) {
         console.error('[SOCKET.IO] Error in send-message:', error);
         socket.emit('error', { message: 'Failed to send message' });
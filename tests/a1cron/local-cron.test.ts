@@ -0,0 +1,276 @@
+/**
+ * Tests for the local cron scheduler: schedule semantics in the job's
+ * timezone, and LocalCronService running jobs with retries, execution logs and
+ * callbacks against the in-memory adapter and a fake fetch
+ * Run with: npm test
+ */
+
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { addDays } from 'date-fns';
+import { MemoryAdapter } from '../../lib/database/memory-adapter';
+import { getNextRunAt, toCronExpression, validateSchedule } from '../../lib/a1cron/schedule';
+import { LocalCronService } from '../../lib/a1cron/local-service';
+import { getCronBackend } from '../../lib/a1cron/service';
+import type { ScheduleConfig } from '../../lib/a1cron/types';
+import { generateWebhookSignature } from '../../lib/security/webhook-verification';
+
+const daily: ScheduleConfig = { repeat_type: 'days', repeat_every: 1, time: '09:00', end_type: 'never' };
+
+describe('cron schedules', () => {
+  // Wednesday 14 October 2026, 12:00 UTC (08:00 in New York)
+  const wednesday = new Date('2026-10-14T12:00:00.000Z');
+  const next = (config: ScheduleConfig, timeZone = 'UTC', options: { occurrences?: number } = {}) =>
+    getNextRunAt(config, timeZone, { after: wednesday, anchor: wednesday, ...options })?.toISOString() ?? null;
+
+  it('runs daily jobs at the time in their timezone', () => {
+    assert.equal(next(daily, 'America/New_York'), '2026-10-14T13:00:00.000Z');
+    assert.equal(next(daily), '2026-10-15T09:00:00.000Z');
+    assert.equal(next({ ...daily, repeat_every: 3 }), '2026-10-17T09:00:00.000Z');
+    // Daylight saving ends in New York on 1 November
+    assert.equal(
+      getNextRunAt(daily, 'America/New_York', { after: new Date('2026-11-01T12:00:00.000Z') })?.toISOString(),
+      '2026-11-01T14:00:00.000Z'
+    );
+  });
+
+  it('runs weekly jobs on the given days, every few weeks from the first', () => {
+    const weekdays: ScheduleConfig = { ...daily, repeat_type: 'weeks', days_of_week: ['1', '2', '3', '4', '5'] };
+    assert.equal(next({ ...weekdays, time: '13:00' }), '2026-10-14T13:00:00.000Z');
+    assert.equal(
+      getNextRunAt(weekdays, 'UTC', { after: new Date('2026-10-16T10:00:00.000Z') })?.toISOString(),
+      '2026-10-19T09:00:00.000Z'
+    );
+
+    const fortnightlyMonday: ScheduleConfig = { ...daily, repeat_type: 'weeks', repeat_every: 2, days_of_week: ['1'] };
+    assert.equal(next(fortnightlyMonday), '2026-10-26T09:00:00.000Z');
+    // Without days the job runs on the weekday it was created
+    assert.equal(next({ ...daily, repeat_type: 'weeks' }), '2026-10-21T09:00:00.000Z');
+  });
+
+  it('runs hourly jobs at the minute past the hour and monthly jobs on the 1st', () => {
+    const hourly: ScheduleConfig = { ...daily, repeat_type: 'hourly', repeat_every: 2, time: '00:30' };
+    assert.equal(next(hourly), '2026-10-14T12:30:00.000Z');
+    assert.equal(
+      getNextRunAt(hourly, 'UTC', { after: new Date('2026-10-14T12:30:00.000Z'), anchor: wednesday })?.toISOString(),
+      '2026-10-14T14:30:00.000Z'
+    );
+    assert.equal(next({ ...hourly, repeat_every: 1 }, 'Asia/Kolkata'), '2026-10-14T13:00:00.000Z');
+
+    assert.equal(next({ ...daily, repeat_type: 'months' }), '2026-11-01T09:00:00.000Z');
+    assert.equal(next({ ...daily, repeat_type: 'months', repeat_every: 3 }), '2027-01-01T09:00:00.000Z');
+  });
+
+  it('stops after the end date or number of runs', () => {
+    assert.equal(next({ ...daily, end_type: 'after', end_occurrences: 2 }, 'UTC', { occurrences: 1 }), '2026-10-15T09:00:00.000Z');
+    assert.equal(next({ ...daily, end_type: 'after', end_occurrences: 2 }, 'UTC', { occurrences: 2 }), null);
+    assert.equal(next({ ...daily, end_type: 'on', end_date: '2026-10-15' }), '2026-10-15T09:00:00.000Z');
+    assert.equal(next({ ...daily, end_type: 'on', end_date: '2026-10-14' }), null);
+  });
+
+  it('rejects invalid schedules and describes valid ones as cron expressions', () => {
+    assert.match(validateSchedule({ ...daily, time: '9am' }, 'UTC')!, /Invalid time/);
+    assert.match(validateSchedule(daily, 'Mars/Olympus')!, /Unknown timezone/);
+    assert.match(validateSchedule({ ...daily, repeat_every: 0 }, 'UTC')!, /repeat_every/);
+    assert.match(validateSchedule({ ...daily, end_type: 'after' }, 'UTC')!, /end_occurrences/);
+    assert.equal(validateSchedule(daily, 'UTC'), null);
+
+    assert.equal(toCronExpression(daily), '0 9 * * *');
+    assert.equal(toCronExpression({ ...daily, repeat_type: 'weeks', days_of_week: ['1', '3'] }), '0 9 * * 1,3');
+    assert.equal(toCronExpression({ ...daily, repeat_type: 'hourly', repeat_every: 2, time: '00:30' }), '30 */2 * * *');
+  });
+});
+
+describe('local cron service', () => {
+  let adapter: MemoryAdapter;
+  let cron: LocalCronService;
+  let calls: { url: string; init: RequestInit }[];
+  let responses: Response[];
+
+  const later = (days: number) => addDays(new Date(), days);
+  const job = (overrides: object = {}) => ({
+    name: 'Daily report',
+    endpoint_url: 'https://app.example.com/api/reports/daily',
+    method: 'POST' as const,
+    headers: { 'X-Internal-Secret': 'secret' },
+    body: JSON.stringify({ reportId: 'report-1' }),
+    timezone: 'UTC',
+    schedule_config: daily,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    adapter = new MemoryAdapter();
+    await adapter.init();
+    calls = [];
+    responses = [];
+    const fakeFetch = async (url: string | URL | Request, init?: RequestInit) => {
+      calls.push({ url: String(url), init: init || {} });
+      return responses.shift() || new Response('ok', { status: 200 });
+    };
+    cron = new LocalCronService({ adapter, fetch: fakeFetch as typeof fetch });
+  });
+
+  it('creates jobs with their first run and manages them like A1Cron', async () => {
+    const { data: created } = await cron.createDailyCronJob({ ...job(), time: '09:00', tags: ['reports'] });
+
+    assert.equal(created.schedule, '0 9 * * *');
+    assert.equal(new Date(created.next_run_at!).getUTCHours(), 9);
+    assert.ok(new Date(created.next_run_at!) > new Date());
+    assert.deepEqual(created.retry_config, { max_retries: 3, retry_delay_seconds: 300, timeout_seconds: 30 });
+
+    await cron.createCronJob(job({ name: 'Cleanup', tags: ['maintenance'] }));
+    assert.deepEqual((await cron.listCronJobs({ tags: ['reports'] })).data.map((j) => j.name), ['Daily report']);
+    assert.deepEqual((await cron.listCronJobs({ search: 'clean' })).data.map((j) => j.name), ['Cleanup']);
+    assert.deepEqual((await cron.listCronJobs({ limit: 1, page: 2 })).pagination, { total: 2, page: 2, limit: 1, total_pages: 2 });
+
+    const paused = await cron.toggleCronJob(created.id, false);
+    assert.equal(paused.data.is_active, false);
+    assert.deepEqual((await cron.listCronJobs({ is_active: true })).data.map((j) => j.name), ['Cleanup']);
+
+    await assert.rejects(cron.createCronJob(job({ timezone: 'Mars/Olympus' })), /400 - Unknown timezone/);
+    await cron.deleteCronJob(created.id);
+    await assert.rejects(cron.getCronJobDetails(created.id), /404/);
+  });
+
+  it('calls due endpoints, logs them and schedules the next run', async () => {
+    const { data: created } = await cron.createCronJob(
+      job({ callbacks: { success_url: 'https://app.example.com/api/a1base/cron-webhook' } })
+    );
+    const now = later(1.5);
+    process.env.A1CRON_WEBHOOK_SECRET = 'cron-secret';
+
+    const summary = await cron.runDueJobs(now);
+
+    assert.deepEqual(summary, { executed: 1, succeeded: 1, failed: 0, retrying: 0 });
+    assert.equal(calls[0].url, created.endpoint_url);
+    assert.equal(calls[0].init.method, 'POST');
+    assert.equal(calls[0].init.body, created.body);
+    assert.deepEqual(calls[0].init.headers, { 'X-Internal-Secret': 'secret' });
+
+    const callback = calls[1];
+    const headers = callback.init.headers as Record<string, string>;
+    assert.equal(callback.url, 'https://app.example.com/api/a1base/cron-webhook');
+    assert.equal(headers['x-signature'], generateWebhookSignature(callback.init.body as string, headers['x-timestamp'], 'cron-secret'));
+    assert.equal(JSON.parse(callback.init.body as string).status, 'success');
+
+    const { data: ran } = await cron.getCronJobDetails(created.id);
+    assert.equal(ran.total_executions, 1);
+    assert.equal(ran.successful_executions, 1);
+    assert.ok(new Date(ran.next_run_at!) > now);
+    assert.deepEqual((await cron.getExecutionLogs(created.id)).data.map((l) => [l.status, l.response_code]), [['success', 200]]);
+
+    // Nothing is due until the next run
+    assert.equal((await cron.runDueJobs(now)).executed, 0);
+    delete process.env.A1CRON_WEBHOOK_SECRET;
+  });
+
+  it('retries failed runs after the delay and records the final outcome', async () => {
+    const { data: created } = await cron.createCronJob(
+      job({ retry_config: { max_retries: 1, retry_delay_seconds: 600, timeout_seconds: 5 } })
+    );
+    const now = later(1.5);
+    responses.push(new Response('boom', { status: 500 }), new Response('still broken', { status: 503 }));
+
+    assert.deepEqual(await cron.runDueJobs(now), { executed: 1, succeeded: 0, failed: 0, retrying: 1 });
+    // The retry waits for its delay
+    assert.equal((await cron.runDueJobs(new Date(now.getTime() + 5 * 60 * 1000))).executed, 0);
+    assert.deepEqual(await cron.runDueJobs(new Date(now.getTime() + 11 * 60 * 1000)), {
+      executed: 1,
+      succeeded: 0,
+      failed: 1,
+      retrying: 0,
+    });
+
+    const logs = (await cron.getExecutionLogs(created.id)).data;
+    assert.deepEqual(logs.map((l) => [l.status, l.retry_attempt, l.response_code]), [['failure', 1, 503], ['retry', 0, 500]]);
+    assert.equal(logs[0].execution_id, logs[1].execution_id);
+    assert.deepEqual((await cron.getExecutionLogs(created.id, { status: 'failure' })).data.length, 1);
+
+    const { data: failed } = await cron.getCronJobDetails(created.id);
+    assert.equal(failed.failed_executions, 1);
+    assert.equal(failed.total_executions, 1);
+  });
+
+  it('records timeouts and network errors as failed attempts', async () => {
+    const failing = new LocalCronService({
+      adapter,
+      fetch: (async () => {
+        throw Object.assign(new Error('The operation was aborted due to timeout'), { name: 'TimeoutError' });
+      }) as typeof fetch,
+    });
+    const { data: created } = await failing.createCronJob(job());
+
+    const { data: result } = await failing.triggerCronJob(created.id);
+
+    assert.equal(result.status, 'timeout');
+    const [log] = (await failing.getExecutionLogs(created.id)).data;
+    assert.equal(log.error_message, 'No response within 30 seconds');
+  });
+
+  it('skips paused jobs, triggers them manually and ends after the last occurrence', async () => {
+    const { data: created } = await cron.createCronJob(
+      job({ schedule_config: { ...daily, end_type: 'after', end_occurrences: 1 } })
+    );
+    await cron.toggleCronJob(created.id, false);
+    assert.equal((await cron.runDueJobs(later(1.5))).executed, 0);
+
+    const triggered = await cron.triggerCronJob(created.id);
+    assert.equal(triggered.data.status, 'success');
+    assert.equal((await cron.getCronJobDetails(created.id)).data.total_executions, 1);
+
+    // Resuming schedules from now, and the single occurrence ends the schedule
+    await cron.toggleCronJob(created.id, true);
+    assert.equal((await cron.runDueJobs(later(1.5))).executed, 1);
+    assert.equal((await cron.getCronJobDetails(created.id)).data.next_run_at, undefined);
+    assert.equal((await cron.runDueJobs(later(10))).executed, 0);
+  });
+
+  it('is used when CRON_BACKEND=local or A1Base credentials are missing', () => {
+    const saved = { ...process.env };
+    try {
+      delete process.env.CRON_BACKEND;
+      process.env.A1BASE_API_KEY = '';
+      assert.equal(getCronBackend(), 'local');
+
+      Object.assign(process.env, { A1BASE_API_KEY: 'key', A1BASE_API_SECRET: 'secret', A1BASE_ACCOUNT_ID: 'account' });
+      assert.equal(getCronBackend(), 'a1cron');
+      process.env.CRON_BACKEND = 'local';
+      assert.equal(getCronBackend(), 'local');
+    } finally {
+      process.env = saved;
+    }
+  });
+});
+
+describe('report scheduler on the local backend', () => {
+  it('schedules and cancels report jobs without A1Base credentials', async () => {
+    const saved = { ...process.env };
+    Object.assign(process.env, { DATABASE_ADAPTER: 'memory', CRON_BACKEND: 'local' });
+    try {
+      const { getInitializedAdapter } = await import('../../lib/supabase/config');
+      const { ReportSchedulerService } = await import('../../lib/services/report-scheduler');
+      const adapter = (await getInitializedAdapter())!;
+      const userId = (await adapter.createUser('Ada Lovelace', '15551230001'))!;
+      const scheduler = new ReportSchedulerService();
+
+      const report = (await scheduler.createScheduledReport({
+        userId,
+        emailAddress: 'ada@example.com',
+        frequency: 'weekly',
+        scheduledTime: '08:30',
+        timezone: 'Europe/London',
+      }))!;
+
+      const job = (await adapter.getCronJob(report.a1cron_job_id!))!;
+      assert.deepEqual(job.schedule_config.days_of_week, ['1']);
+      assert.equal(new Date(job.next_run_at!).getUTCDay(), 1);
+      assert.deepEqual(job.tags, ['email_report', `user_${userId}`, 'project_status']);
+
+      assert.equal(await scheduler.cancelScheduledReport(report.id, userId), true);
+      assert.equal(await adapter.getCronJob(report.a1cron_job_id!), null);
+    } finally {
+      process.env = saved;
+    }
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Tests for the offline triage eval harness
+ * Run with: npm test
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { TriageModelClient } from '../../lib/ai-triage/triage-tools';
+import { keywordTriageClient } from '../../lib/ai-triage/eval/keyword-triage-client';
+import {
+  TRIAGE_FAILED,
+  TriageFixture,
+  formatTriageEvalReport,
+  loadTriageFixtures,
+  runTriageEval,
+} from '../../lib/ai-triage/eval/triage-eval';
+
+// Always answers with the same tool call
+function fixedClient(name: string, args: Record<string, unknown> = {}): TriageModelClient {
+  return {
+    name: `fixed:${name}`,
+    callTool: async () => ({
+      id: 'call_1',
+      type: 'function',
+      function: { name, arguments: JSON.stringify(args) },
+    }),
+  };
+}
+
+function fixture(name: string, expected: TriageFixture['expected']): TriageFixture {
+  return {
+    name,
+    thread_type: 'individual',
+    messages: [{ role: 'user', content: 'hello' }],
+    projects: [],
+    expected,
+  };
+}
+
+describe('triage eval', () => {
+  it('passes every golden fixture with the keyword stub', async () => {
+    const report = await runTriageEval(loadTriageFixtures(), keywordTriageClient);
+    const failures = report.results.filter((r) => !r.passed);
+    assert.equal(failures.length, 0, formatTriageEvalReport(report));
+  });
+
+  it('builds a confusion matrix and per-fixture diffs', async () => {
+    const report = await runTriageEval(
+      [
+        fixture('greeting', { responseType: 'simpleResponse' }),
+        fixture('complete', { responseType: 'projectFlow', projectAction: 'complete' }),
+        fixture('update', { responseType: 'projectFlow', projectAction: 'update' }),
+      ],
+      fixedClient('projectFlow', { projectAction: 'update', projectName: 'Apollo' })
+    );
+
+    assert.deepEqual(report.results.map((r) => r.passed), [false, false, true]);
+    assert.deepEqual(report.confusion, {
+      simpleResponse: { projectFlow: 1 },
+      projectFlow: { projectFlow: 2 },
+    });
+    assert.deepEqual(report.results[1].diffs, [
+      { field: 'projectAction', expected: 'complete', actual: 'update' },
+    ]);
+
+    const text = formatTriageEvalReport(report);
+    assert.match(text, /1\/3 fixtures passed/);
+    assert.match(text, /complete\n {4}projectAction: expected complete, got update/);
+  });
+
+  it('records triage failures instead of aborting the run', async () => {
+    const report = await runTriageEval(
+      [fixture('greeting', { responseType: 'simpleResponse' })],
+      fixedClient('notARealFlow')
+    );
+
+    assert.equal(report.results[0].passed, false);
+    assert.match(report.results[0].error || '', /Triage failed after 3 attempts/);
+    assert.deepEqual(report.confusion, { simpleResponse: { [TRIAGE_FAILED]: 1 } });
+  });
+
+  it('rejects fixtures that are missing expectations', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'triage-fixtures-'));
+    try {
+      fs.writeFileSync(
+        path.join(dir, 'broken.json'),
+        JSON.stringify({ messages: [{ role: 'user', content: 'hi' }] })
+      );
+      assert.throws(() => loadTriageFixtures(dir), /broken\.json: expected/);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Tests for the triage flow registry, tool definitions and argument validation
+ * Run with: npm test
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { z } from 'zod/v4';
+import { getTriageToolDefinitions, parseTriageToolCall } from '../../lib/ai-triage/triage-tools';
+import {
+  defineTriageFlow,
+  getTriageFlows,
+  registerTriageFlow,
+  unregisterTriageFlow,
+} from '../../lib/ai-triage/flow-registry';
+import { BUILT_IN_TRIAGE_FLOWS } from '../../lib/ai-triage/flows';
+
+describe('getTriageToolDefinitions', () => {
+  it('defines one function tool per flow with a JSON schema', () => {
+    const tools = getTriageToolDefinitions();
+    assert.deepEqual(
+      tools.map((tool) => tool.function.name),
+      BUILT_IN_TRIAGE_FLOWS.map((flow) => flow.name)
+    );
+
+    const projectFlow = tools.find((tool) => tool.function.name === 'projectFlow')!;
+    assert.equal(projectFlow.type, 'function');
+    assert.equal(projectFlow.function.parameters?.type, 'object');
+    assert.deepEqual(projectFlow.function.parameters?.required, ['projectAction']);
+    assert.equal(projectFlow.function.parameters?.$schema, undefined);
+  });
+});
+
+describe('parseTriageToolCall', () => {
+  it('returns the intent for valid arguments', () => {
+    const result = parseTriageToolCall(
+      'projectFlow',
+      JSON.stringify({ projectAction: 'complete', projectName: 'Website redesign' })
+    );
+    assert.deepEqual(result, {
+      success: true,
+      intent: {
+        responseType: 'projectFlow',
+        arguments: { projectAction: 'complete', projectName: 'Website redesign' },
+      },
+    });
+  });
+
+  it('accepts empty arguments for tools without parameters', () => {
+    assert.deepEqual(parseTriageToolCall('noReply', ''), {
+      success: true,
+      intent: { responseType: 'noReply', arguments: {} },
+    });
+  });
+
+  it('rejects unknown tools', () => {
+    const result = parseTriageToolCall('deleteEverything', '{}');
+    assert.equal(result.success, false);
+    assert.match(!result.success ? result.error : '', /Unknown tool "deleteEverything"/);
+  });
+
+  it('rejects arguments that are not JSON', () => {
+    const result = parseTriageToolCall('projectFlow', '{"projectAction": "complete"');
+    assert.deepEqual(result, { success: false, error: 'Arguments were not valid JSON' });
+  });
+
+  it('reports each invalid argument by path', () => {
+    const result = parseTriageToolCall(
+      'emailReportFlow',
+      JSON.stringify({ reportAction: 'request_scheduled', reportTime: '9am' })
+    );
+    assert.equal(result.success, false);
+    assert.match(!result.success ? result.error : '', /reportTime: reportTime must be in 24 hour HH:MM format/);
+  });
+
+  it('requires a project name when creating a project', () => {
+    const result = parseTriageToolCall('projectFlow', JSON.stringify({ projectAction: 'create' }));
+    assert.equal(result.success, false);
+    assert.match(!result.success ? result.error : '', /projectName: projectName is required/);
+  });
+});
+
+describe('triage flow registry', () => {
+  const bookingFlow = defineTriageFlow({
+    name: 'bookingFlow',
+    description: 'Book a meeting room.',
+    parameters: z.object({ room: z.string() }),
+    async handle({ room }) {
+      return { type: 'default' as const, success: true, message: `Booked ${room}` };
+    },
+  });
+
+  it('offers and validates flows registered from outside the built-ins', async () => {
+    registerTriageFlow(bookingFlow);
+    try {
+      assert.ok(getTriageToolDefinitions().some((tool) => tool.function.name === 'bookingFlow'));
+
+      const result = parseTriageToolCall('bookingFlow', JSON.stringify({ room: 'Orca' }));
+      assert.deepEqual(result, {
+        success: true,
+        intent: { responseType: 'bookingFlow', arguments: { room: 'Orca' } },
+      });
+    } finally {
+      unregisterTriageFlow('bookingFlow');
+    }
+    assert.equal(getTriageFlows().some((flow) => flow.name === 'bookingFlow'), false);
+  });
+
+  it('rejects duplicate and invalid flow names', () => {
+    assert.throws(() => registerTriageFlow({ ...bookingFlow, name: 'projectFlow' }), /already registered/);
+    assert.throws(() => registerTriageFlow({ ...bookingFlow, name: 'book a room' }), /Invalid triage flow name/);
+  });
+});
@@ -0,0 +1,1226 @@
+/**
+ * Behavioral test suite shared by every DatabaseAdapterInterface implementation.
+ * Each backend gets its own *.test.ts file that calls runAdapterConformanceSuite
+ * with a factory, so a new adapter only has to pass the same suite to be swappable.
+ *
+ * Run with: npm test
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomUUID } from 'crypto';
+import type { DatabaseAdapterInterface } from '../../lib/interfaces/database-adapter';
+import type { WebhookPayload } from '../../app/api/a1base/messaging/route';
+import { uniquePhoneNumber } from './test-helpers';
+
+export interface AdapterTestContext {
+  adapter: DatabaseAdapterInterface;
+  /**
+   * Release the backend once the suite has finished (close files, drop test data)
+   */
+  cleanup?: () => Promise<void> | void;
+}
+
+/**
+ * Unique identifiers so the suite can run against a shared database without collisions
+ */
+function uniqueThreadId(): string {
+  return `test-thread-${randomUUID()}`;
+}
+
+function webhookPayload(overrides: Partial<WebhookPayload> = {}): WebhookPayload {
+  return {
+    thread_id: uniqueThreadId(),
+    message_id: `test-message-${randomUUID()}`,
+    thread_type: 'group',
+    sender_number: `+${uniquePhoneNumber()}`,
+    sender_name: 'Test Sender',
+    a1_account_id: 'test-account',
+    timestamp: new Date().toISOString(),
+    service: 'whatsapp',
+    message_type: 'text',
+    is_from_agent: false,
+    message_content: { text: 'Hello there' },
+    ...overrides,
+  };
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export function runAdapterConformanceSuite(
+  name: string,
+  createContext: () => Promise<AdapterTestContext>
+): void {
+  describe(`${name} adapter conformance`, () => {
+    let context: AdapterTestContext;
+    let adapter: DatabaseAdapterInterface;
+
+    before(async () => {
+      context = await createContext();
+      adapter = context.adapter;
+      await adapter.init();
+    });
+
+    after(async () => {
+      await context?.cleanup?.();
+    });
+
+    describe('users', () => {
+      it('creates a user and finds it by phone number and ID', async () => {
+        const phone = uniquePhoneNumber();
+        const userId = await adapter.createUser('Ada', phone);
+        assert.ok(userId);
+
+        const byPhone = await adapter.getUserByPhone(phone);
+        assert.equal(byPhone?.id, userId);
+        assert.equal(byPhone?.name, 'Ada');
+
+        const byId = await adapter.getUserById(userId!);
+        assert.equal(byId?.phone_number, phone);
+      });
+
+      it('returns null for unknown users', async () => {
+        assert.equal(await adapter.getUserByPhone(uniquePhoneNumber()), null);
+        assert.equal(await adapter.getUserById(randomUUID()), null);
+      });
+
+      it('getUserFromWebhook strips + and returns the same user on repeat calls', async () => {
+        const phone = uniquePhoneNumber();
+        const first = await adapter.getUserFromWebhook(`+${phone}`, 'Grace', 'whatsapp', { source: 'test' });
+        const second = await adapter.getUserFromWebhook(phone, 'Someone Else', 'sms');
+        assert.ok(first);
+        assert.equal(second, first);
+
+        const user = await adapter.getUserByPhone(phone);
+        assert.equal(user?.phone_number, phone);
+        assert.equal(user?.name, 'Grace');
+        assert.equal(user?.service, 'whatsapp');
+        assert.equal(user?.metadata?.source, 'test');
+      });
+
+      it('merges metadata on update instead of replacing it', async () => {
+        const phone = uniquePhoneNumber();
+        const userId = await adapter.getUserFromWebhook(phone, 'Linus', 'whatsapp', { a: 1 });
+
+        assert.equal(await adapter.updateUser(phone, { metadata: { b: 2 } }), true);
+        assert.equal(await adapter.updateUserById(userId!, { name: 'Linus T', metadata: { c: 3 } }), true);
+
+        const user = await adapter.getUserById(userId!);
+        assert.equal(user?.name, 'Linus T');
+        assert.deepEqual(
+          { a: user?.metadata?.a, b: user?.metadata?.b, c: user?.metadata?.c },
+          { a: 1, b: 2, c: 3 }
+        );
+        assert.deepEqual(await adapter.getUserOnboardingData(phone), user?.metadata);
+      });
+
+      it('creates anonymous web users', async () => {
+        const webUser = await adapter.createWebUser();
+        assert.ok(webUser?.id);
+        assert.ok(webUser?.name);
+        assert.equal((await adapter.getUserById(webUser!.id))?.service, 'web-ui');
+      });
+
+      it('lists all users', async () => {
+        const userId = await adapter.createUser('Edsger', uniquePhoneNumber());
+        assert.ok((await adapter.getAllUsers()).some((u) => u.id === userId));
+      });
+
+      it('anonymizes a user and unlinks their model usage', async () => {
+        const phone = uniquePhoneNumber();
+        const userId = await adapter.getUserFromWebhook(phone, 'Barbara', 'whatsapp', { email: 'b@example.com' });
+        await adapter.upsertUserMemoryValue(userId!, 'city', 'Boston');
+        await adapter.recordModelUsage({
+          task: 'reply',
+          model: 'openai:gpt-4.1',
+          chat_id: uniqueThreadId(),
+          user_id: `+${phone}`,
+          prompt_tokens: 10,
+          completion_tokens: 2,
+          total_tokens: 12,
+          cost_usd: null,
+        });
+
+        assert.equal(await adapter.anonymizeUser(userId!, 'Anonymous 1', { anonymized: true }), true);
+
+        const user = await adapter.getUserById(userId!);
+        assert.equal(user?.name, 'Anonymous 1');
+        assert.equal(user?.phone_number, null);
+        assert.deepEqual(user?.metadata, { anonymized: true });
+        assert.deepEqual(await adapter.getAllUserMemoryValues(userId!), {});
+        assert.equal(await adapter.getUserByPhone(phone), null);
+        assert.deepEqual(await adapter.getModelUsage({ userId: `+${phone}` }), []);
+        assert.equal(await adapter.anonymizeUser(randomUUID(), 'Nobody'), false);
+      });
+    });
+
+    describe('chats', () => {
+      it('processes a webhook into a user, chat, participant and message', async () => {
+        const payload = webhookPayload();
+        const result = await adapter.processWebhookPayload(payload);
+        assert.equal(result.success, true);
+        assert.equal(result.isNewChat, true);
+        assert.ok(result.chatId);
+
+        const thread = await adapter.getThread(payload.thread_id);
+        assert.equal(thread?.id, result.chatId);
+        assert.equal(thread?.type, 'group');
+        assert.equal(thread?.messages.length, 1);
+        assert.equal(thread?.messages[0].content, 'Hello there');
+        assert.equal(thread?.participants.length, 1);
+        assert.equal(thread?.sender?.phone_number, payload.sender_number.replace('+', ''));
+      });
+
+      it('reuses the chat for repeat webhooks on the same thread', async () => {
+        const first = webhookPayload();
+        const second = webhookPayload({ thread_id: first.thread_id });
+
+        const firstResult = await adapter.processWebhookPayload(first);
+        const secondResult = await adapter.processWebhookPayload(second);
+        assert.equal(secondResult.success, true);
+        assert.equal(secondResult.isNewChat, false);
+        assert.equal(secondResult.chatId, firstResult.chatId);
+
+        // Regression: chats must never be duplicated per external_id
+        const chats = await adapter.getAllChats();
+        assert.equal(chats.filter((chat) => chat.external_id === first.thread_id).length, 1);
+
+        const thread = await adapter.getThread(first.thread_id);
+        assert.equal(thread?.messages.length, 2);
+        assert.equal(thread?.participants.length, 2);
+      });
+
+      it('getChatFromWebhook gets or creates a chat by external ID', async () => {
+        const threadId = uniqueThreadId();
+        const chatId = await adapter.getChatFromWebhook(threadId, 'broadcast', 'whatsapp', { origin: 'test' });
+        assert.ok(chatId);
+        assert.equal(await adapter.getChatFromWebhook(threadId, 'group', 'whatsapp'), chatId);
+
+        const chat = await adapter.getChatByExternalId(threadId);
+        assert.equal(chat?.id, chatId);
+        assert.equal(chat?.type, 'individual');
+        assert.equal(chat?.metadata?.origin, 'test');
+      });
+
+      it('returns null for unknown threads', async () => {
+        assert.equal(await adapter.getThread(uniqueThreadId()), null);
+        assert.equal(await adapter.getChatByExternalId(uniqueThreadId()), null);
+      });
+
+      it('merges chat metadata and exposes it as onboarding data', async () => {
+        const threadId = uniqueThreadId();
+        const chatId = await adapter.getChatFromWebhook(threadId, 'group', 'whatsapp', { a: 1 });
+
+        assert.equal(await adapter.updateChatMetadata(chatId!, { onboarding: { completed: true } }), true);
+
+        const metadata = await adapter.getChatOnboardingData(threadId, 'whatsapp');
+        assert.equal(metadata?.a, 1);
+        assert.deepEqual(metadata?.onboarding, { completed: true });
+      });
+
+      it('creates web chats with the creator as participant', async () => {
+        const webUser = await adapter.createWebUser();
+        const chat = await adapter.createChat(webUser!.id);
+        assert.ok(chat?.id);
+        assert.ok(chat?.external_id);
+
+        assert.equal(await adapter.isChatParticipant(chat!.id, webUser!.id), true);
+        const userChats = await adapter.getChatsForUser(webUser!.id);
+        assert.deepEqual(userChats.map((c) => c.id), [chat!.id]);
+      });
+    });
+
+    describe('participants', () => {
+      it('adds participants once and lists them', async () => {
+        const chatId = await adapter.getChatFromWebhook(uniqueThreadId(), 'group', 'whatsapp');
+        const userId = await adapter.getUserFromWebhook(uniquePhoneNumber(), 'Margaret', 'whatsapp');
+
+        assert.equal(await adapter.isChatParticipant(chatId!, userId!), false);
+        assert.equal(await adapter.addParticipantToChat(chatId!, userId!), true);
+        assert.equal(await adapter.addParticipantToChat(chatId!, userId!), true);
+        assert.equal(await adapter.isChatParticipant(chatId!, userId!), true);
+
+        const participants = await adapter.getChatParticipants(chatId!);
+        assert.deepEqual(participants.map((p) => p.id), [userId]);
+      });
+
+      it('addUserToChat resolves the chat by external ID', async () => {
+        const threadId = uniqueThreadId();
+        const chatId = await adapter.getChatFromWebhook(threadId, 'group', 'web-ui');
+        const userId = await adapter.getUserFromWebhook(uniquePhoneNumber(), 'Barbara', 'web-ui');
+
+        assert.equal(await adapter.addUserToChat(threadId, userId!), true);
+        assert.equal(await adapter.isChatParticipant(chatId!, userId!), true);
+        assert.equal(await adapter.addUserToChat(uniqueThreadId(), userId!), false);
+      });
+    });
+
+    describe('messages', () => {
+      it('stores messages and derives text for media', async () => {
+        const chatId = await adapter.getChatFromWebhook(uniqueThreadId(), 'individual', 'whatsapp');
+        const userId = await adapter.getUserFromWebhook(uniquePhoneNumber(), 'Alan', 'whatsapp');
+        const externalId = `test-message-${randomUUID()}`;
+
+        const messageId = await adapter.storeMessage(
+          chatId!,
+          userId,
+          externalId,
+          { data: 'base64-image-data', caption: 'sunset' },
+          'image',
+          'whatsapp'
+        );
+        assert.ok(messageId);
+
+        const message = await adapter.getMessageByExternalId(externalId);
+        assert.equal(message?.id, messageId);
+        assert.equal(message?.content, '[Image received: sunset]');
+        assert.equal(message?.sender_id, userId);
+      });
+
+      it('only returns web chat messages to participants', async () => {
+        const member = await adapter.createWebUser();
+        const outsider = await adapter.createWebUser();
+        const chat = await adapter.createChat(member!.id);
+
+        const added = await adapter.addMessageToChat(chat!.external_id, member!.id, 'First!');
+        assert.equal(added?.content, 'First!');
+        assert.equal(added?.senderId, member!.id);
+        assert.equal(await adapter.addMessageToChat(chat!.external_id, outsider!.id, 'Let me in'), null);
+
+        const messages = await adapter.getChatMessages(chat!.external_id, member!.id);
+        assert.deepEqual(messages.map((m) => m.content), ['First!']);
+        assert.equal(messages[0].senderName, member!.name);
+        assert.deepEqual(await adapter.getChatMessages(chat!.external_id, outsider!.id), []);
+      });
+
+      it('counts messages by time and sender', async () => {
+        const chatId = await adapter.getChatFromWebhook(uniqueThreadId(), 'group', 'whatsapp');
+        const alice = await adapter.getUserFromWebhook(uniquePhoneNumber(), 'Alice', 'whatsapp');
+        const bob = await adapter.getUserFromWebhook(uniquePhoneNumber(), 'Bob', 'whatsapp');
+
+        await adapter.storeMessage(chatId!, alice, randomUUID(), { text: 'one' }, 'text', 'whatsapp');
+        await sleep(10);
+        const since = new Date().toISOString();
+        await sleep(10);
+        await adapter.storeMessage(chatId!, bob, randomUUID(), { text: 'two' }, 'text', 'whatsapp');
+        await adapter.storeMessage(chatId!, alice, randomUUID(), { text: 'three' }, 'text', 'whatsapp');
+
+        assert.equal((await adapter.getChatMessageStats(chatId!)).count, 3);
+        assert.equal((await adapter.getChatMessageStats(chatId!, { since })).count, 2);
+        assert.equal((await adapter.getChatMessageStats(chatId!, { senderId: alice! })).count, 2);
+        assert.equal((await adapter.getChatMessageStats(chatId!, { since, senderId: alice! })).count, 1);
+
+        const empty = await adapter.getChatMessageStats(randomUUID());
+        assert.deepEqual(empty, { count: 0, lastMessageAt: null });
+      });
+
+      it('limits thread context to the most recent 30 messages', async () => {
+        const payload = webhookPayload();
+        await adapter.processWebhookPayload(payload);
+        const chat = await adapter.getChatByExternalId(payload.thread_id);
+        for (let i = 0; i < 31; i++) {
+          await adapter.storeMessage(chat!.id, null, randomUUID(), { text: `message ${i}` }, 'text', 'whatsapp');
+        }
+
+        const thread = await adapter.getThread(payload.thread_id);
+        assert.equal(thread?.messages.length, 30);
+        assert.equal(thread?.messages[29].content, 'message 30');
+      });
+
+      it('reads and deletes messages by sender, chat and age', async () => {
+        const chatId = await adapter.getChatFromWebhook(uniqueThreadId(), 'group', 'whatsapp');
+        const alice = await adapter.getUserFromWebhook(uniquePhoneNumber(), 'Alice', 'whatsapp');
+        const bob = await adapter.getUserFromWebhook(uniquePhoneNumber(), 'Bob', 'whatsapp');
+
+        await adapter.storeMessage(chatId!, alice, randomUUID(), { text: 'old' }, 'text', 'whatsapp');
+        await sleep(10);
+        const before = new Date().toISOString();
+        await sleep(10);
+        await adapter.storeMessage(chatId!, alice, randomUUID(), { text: 'new' }, 'text', 'whatsapp');
+        await adapter.storeMessage(chatId!, bob, randomUUID(), { text: 'bob' }, 'text', 'whatsapp');
+
+        assert.deepEqual((await adapter.getMessages({ senderId: alice! })).map((m) => m.content), ['old', 'new']);
+        assert.deepEqual((await adapter.getMessages({ chatId: chatId!, before })).map((m) => m.content), ['old']);
+        assert.deepEqual(await adapter.getMessages({}), []);
+
+        assert.equal(await adapter.deleteMessages({ senderId: alice!, before }), 1);
+        assert.deepEqual((await adapter.getMessages({ chatId: chatId! })).map((m) => m.content), ['new', 'bob']);
+        assert.equal(await adapter.deleteMessages({ chatId: chatId!, senderId: bob! }), 1);
+        assert.equal(await adapter.deleteMessages({}), 0);
+        assert.deepEqual((await adapter.getMessages({ chatId: chatId! })).map((m) => m.content), ['new']);
+      });
+    });
+
+    describe('message status', () => {
+      it('updates status by external message ID', async () => {
+        const payload = webhookPayload();
+        await adapter.processWebhookPayload(payload);
+        assert.equal((await adapter.getMessageByExternalId(payload.message_id))?.status, 'sent');
+
+        const updatedAt = new Date().toISOString();
+        assert.equal(
+          await adapter.updateMessageStatus({ messageId: payload.message_id, status: 'delivered', updatedAt }),
+          true
+        );
+
+        const message = await adapter.getMessageByExternalId(payload.message_id);
+        assert.equal(message?.status, 'delivered');
+        assert.equal(new Date(message!.status_updated_at!).getTime(), new Date(updatedAt).getTime());
+      });
+
+      it('keeps error details for failed messages alongside the original content', async () => {
+        const payload = webhookPayload();
+        await adapter.processWebhookPayload(payload);
+
+        await adapter.updateMessageStatus({
+          messageId: payload.message_id,
+          status: 'failed',
+          updatedAt: new Date().toISOString(),
+          errorCode: '30003',
+          errorMessage: 'Unreachable',
+        });
+
+        const message = await adapter.getMessageByExternalId(payload.message_id);
+        const richContent = message?.rich_content as { text?: string; error?: { code?: string; message?: string } };
+        assert.equal(message?.status, 'failed');
+        assert.equal(richContent?.text, 'Hello there');
+        assert.equal(richContent?.error?.code, '30003');
+        assert.equal(richContent?.error?.message, 'Unreachable');
+      });
+    });
+
+    describe('projects', () => {
+      it('creates, updates and lists projects', async () => {
+        const chatId = await adapter.getChatFromWebhook(uniqueThreadId(), 'group', 'whatsapp');
+        const projectId = await adapter.createProject('Launch', 'Ship it', chatId!, { owner: 'Ada' });
+        assert.ok(projectId);
+
+        const project = await adapter.getProjectById(projectId!);
+        assert.equal(project?.name, 'Launch');
+        assert.equal(project?.is_live, true);
+        assert.deepEqual(project?.attributes, { owner: 'Ada' });
+
+        assert.equal(await adapter.updateProject(projectId!, { description: 'Ship it today' }), true);
+        assert.equal((await adapter.getProjectById(projectId!))?.description, 'Ship it today');
+
+        const byChat = await adapter.getProjectsByChat(chatId!);
+        assert.deepEqual(byChat.map((p) => p.id), [projectId]);
+        assert.ok((await adapter.getAllProjects()).some((p) => p.id === projectId));
+      });
+
+      it('merges or replaces attributes', async () => {
+        const chatId = await adapter.getChatFromWebhook(uniqueThreadId(), 'group', 'whatsapp');
+        const projectId = await adapter.createProject('Attrs', '', chatId!, { a: 1 });
+
+        await adapter.updateProjectAttributes(projectId!, { b: 2 });
+        assert.deepEqual((await adapter.getProjectById(projectId!))?.attributes, { a: 1, b: 2 });
+
+        await adapter.updateProjectAttributes(projectId!, { c: 3 }, true);
+        assert.deepEqual((await adapter.getProjectById(projectId!))?.attributes, { c: 3 });
+      });
+
+      it('lists live projects first across chats', async () => {
+        const chatA = await adapter.getChatFromWebhook(uniqueThreadId(), 'group', 'whatsapp');
+        const chatB = await adapter.getChatFromWebhook(uniqueThreadId(), 'group', 'whatsapp');
+        const done = await adapter.createProject('Done', '', chatA!);
+        const live = await adapter.createProject('Live', '', chatB!);
+        await adapter.updateProject(done!, { is_live: false });
+
+        const projects = await adapter.getProjectsForChats([chatA!, chatB!]);
+        assert.deepEqual(projects.map((p) => p.id), [live, done]);
+        assert.deepEqual(await adapter.getProjectsForChats([]), []);
+      });
+
+      it('deletes a project with its history and events', async () => {
+        const chatId = await adapter.getChatFromWebhook(uniqueThreadId(), 'group', 'whatsapp');
+        const projectId = await adapter.createProject('Doomed', '', chatId!);
+        await adapter.logProjectEvent(projectId!, 'created', 'Project created');
+        await adapter.addProjectEvent(projectId!, 'task_added', 'Task');
+
+        assert.equal(await adapter.deleteProject(projectId!), true);
+        assert.equal(await adapter.getProjectById(projectId!), null);
+        assert.deepEqual(await adapter.getProjectHistory(projectId!), []);
+        assert.deepEqual(await adapter.getProjectEvents([projectId!]), []);
+      });
+    });
+
+    describe('project events', () => {
+      it('logs project history oldest first', async () => {
+        const chatId = await adapter.getChatFromWebhook(uniqueThreadId(), 'group', 'whatsapp');
+        const projectId = await adapter.createProject('History', '', chatId!);
+
+        await adapter.logProjectEvent(projectId!, 'created', 'Project created');
+        await sleep(5);
+        await adapter.logProjectEvent(projectId!, 'completed', 'Project completed');
+
+        const history = await adapter.getProjectHistory(projectId!);
+        assert.deepEqual(history.map((h) => h.event_type), ['created', 'completed']);
+        assert.equal(history[1].details, 'Project completed');
+      });
+
+      it('filters project events by project and time', async () => {
+        const chatId = await adapter.getChatFromWebhook(uniqueThreadId(), 'group', 'whatsapp');
+        const projectA = await adapter.createProject('A', '', chatId!);
+        const projectB = await adapter.createProject('B', '', chatId!);
+
+        await adapter.addProjectEvent(projectA!, 'task_added', 'Old task');
+        await sleep(10);
+        const since = new Date().toISOString();
+        await sleep(10);
+        await adapter.addProjectEvent(projectA!, 'task_added', 'New task', { priority: 'high' });
+        await adapter.addProjectEvent(projectB!, 'task_added', 'Other project');
+
+        const all = await adapter.getProjectEvents([projectA!]);
+        assert.deepEqual(all.map((e) => e.description), ['Old task', 'New task']);
+
+        const recent = await adapter.getProjectEvents([projectA!, projectB!], since);
+        assert.equal(recent.length, 2);
+        assert.deepEqual(recent.find((e) => e.project_id === projectA)?.metadata, { priority: 'high' });
+        assert.deepEqual(await adapter.getProjectEvents([]), []);
+      });
+    });
+
+    describe('project tasks', () => {
+      it('creates, completes and reopens tasks', async () => {
+        const chatId = await adapter.getChatFromWebhook(uniqueThreadId(), 'group', 'whatsapp');
+        const projectId = await adapter.createProject('Tasks', '', chatId!);
+        const user = await adapter.createUser('Ada', uniquePhoneNumber());
+        const dueAt = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+
+        const taskId = await adapter.createProjectTask({
+          project_id: projectId!,
+          title: 'Write brief',
+          assignee_id: user,
+          due_at: dueAt,
+        });
+        assert.ok(taskId);
+
+        const task = await adapter.getProjectTask(taskId!);
+        assert.equal(task?.title, 'Write brief');
+        assert.equal(task?.status, 'open');
+        assert.equal(task?.assignee_id, user);
+        assert.equal(new Date(task!.due_at!).getTime(), new Date(dueAt).getTime());
+        assert.equal(task?.completed_at, null);
+
+        assert.equal(await adapter.updateProjectTask(taskId!, { status: 'done' }), true);
+        assert.ok((await adapter.getProjectTask(taskId!))?.completed_at);
+
+        await adapter.updateProjectTask(taskId!, { status: 'open', assignee_id: null });
+        const reopened = await adapter.getProjectTask(taskId!);
+        assert.equal(reopened?.completed_at, null);
+        assert.equal(reopened?.assignee_id, null);
+
+        assert.equal(await adapter.updateProjectTask(randomUUID(), { status: 'done' }), false);
+        assert.equal(await adapter.getProjectTask(randomUUID()), null);
+      });
+
+      it('filters tasks by project, status, assignee and due date', async () => {
+        const chatId = await adapter.getChatFromWebhook(uniqueThreadId(), 'group', 'whatsapp');
+        const projectA = await adapter.createProject('A', '', chatId!);
+        const projectB = await adapter.createProject('B', '', chatId!);
+        const user = await adapter.createUser('Grace', uniquePhoneNumber());
+        const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+        const nextWeek = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString();
+
+        const overdue = await adapter.createProjectTask({
+          project_id: projectA!,
+          title: 'Overdue',
+          due_at: yesterday,
+          assignee_id: user,
+        });
+        await sleep(5);
+        const later = await adapter.createProjectTask({ project_id: projectA!, title: 'Later', due_at: nextWeek });
+        await sleep(5);
+        const done = await adapter.createProjectTask({ project_id: projectB!, title: 'Done' });
+        await adapter.updateProjectTask(done!, { status: 'done' });
+
+        const all = await adapter.getProjectTasks({ projectIds: [projectA!, projectB!] });
+        assert.deepEqual(all.map((t) => t.id), [overdue, later, done]);
+        assert.deepEqual((await adapter.getProjectTasks({ projectIds: [projectB!] })).map((t) => t.id), [done]);
+        assert.deepEqual(
+          (await adapter.getProjectTasks({ projectIds: [projectA!, projectB!], status: 'open' })).map((t) => t.id),
+          [overdue, later]
+        );
+        assert.deepEqual((await adapter.getProjectTasks({ assigneeId: user! })).map((t) => t.id), [overdue]);
+        assert.deepEqual(
+          (await adapter.getProjectTasks({ projectIds: [projectA!], dueBefore: new Date().toISOString() })).map((t) => t.id),
+          [overdue]
+        );
+        assert.deepEqual(await adapter.getProjectTasks({ projectIds: [] }), []);
+      });
+
+      it('deletes tasks on their own and with their project', async () => {
+        const chatId = await adapter.getChatFromWebhook(uniqueThreadId(), 'group', 'whatsapp');
+        const projectId = await adapter.createProject('Doomed', '', chatId!);
+        const first = await adapter.createProjectTask({ project_id: projectId!, title: 'First' });
+        const second = await adapter.createProjectTask({ project_id: projectId!, title: 'Second' });
+
+        assert.equal(await adapter.deleteProjectTask(first!), true);
+        assert.equal(await adapter.getProjectTask(first!), null);
+
+        await adapter.deleteProject(projectId!);
+        assert.equal(await adapter.getProjectTask(second!), null);
+      });
+    });
+
+    describe('cron jobs', () => {
+      const newJob = (name: string, nextRunAt: string | null) => ({
+        name,
+        endpoint_url: 'https://example.com/hook',
+        method: 'POST',
+        timezone: 'UTC',
+        schedule_config: { repeat_type: 'days' as const, repeat_every: 1, time: '09:00', end_type: 'never' as const },
+        next_run_at: nextRunAt,
+        tags: ['reports'],
+      });
+
+      it('creates jobs with zeroed counters and claims runs only while unchanged', async () => {
+        const nextRunAt = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+        const jobId = await adapter.createCronJob(newJob('Daily', nextRunAt));
+        assert.ok(jobId);
+
+        const job = await adapter.getCronJob(jobId!);
+        assert.equal(job?.name, 'Daily');
+        assert.equal(job?.is_active, true);
+        assert.deepEqual(job?.tags, ['reports']);
+        assert.deepEqual(job?.headers, {});
+        assert.equal(job?.schedule_config.time, '09:00');
+        assert.equal(job?.total_executions, 0);
+        assert.equal(job?.retry_attempt, 0);
+        assert.equal(job?.retry_at, null);
+
+        const later = new Date(Date.now() + 2 * 60 * 60 * 1000).toISOString();
+        assert.equal(await adapter.updateCronJob(jobId!, { next_run_at: later }, { next_run_at: nextRunAt }), true);
+        assert.equal(await adapter.updateCronJob(jobId!, { next_run_at: null }, { next_run_at: nextRunAt }), false);
+        assert.equal(new Date((await adapter.getCronJob(jobId!))!.next_run_at!).getTime(), new Date(later).getTime());
+
+        assert.equal(await adapter.updateCronJob(jobId!, { retry_attempt: 1 }, { retry_at: null }), true);
+        assert.equal(await adapter.updateCronJob(randomUUID(), { is_active: false }), false);
+        assert.equal(await adapter.getCronJob(randomUUID()), null);
+      });
+
+      it('filters jobs by active state and due runs or retries', async () => {
+        const past = new Date(Date.now() - 60 * 1000).toISOString();
+        const future = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+        const due = await adapter.createCronJob(newJob('Due', past));
+        await sleep(5);
+        const notDue = await adapter.createCronJob(newJob('Not due', future));
+        await sleep(5);
+        const retrying = await adapter.createCronJob(newJob('Retrying', future));
+        await adapter.updateCronJob(retrying!, { retry_attempt: 1, retry_at: past });
+        await sleep(5);
+        const paused = await adapter.createCronJob({ ...newJob('Paused', past), is_active: false });
+
+        const ids = [due, notDue, retrying, paused];
+        const select = async (filter: Parameters<typeof adapter.getCronJobs>[0]) =>
+          (await adapter.getCronJobs(filter)).map((job) => job.id).filter((id) => ids.includes(id));
+
+        assert.deepEqual(await select({}), ids);
+        assert.deepEqual(await select({ isActive: true, dueBefore: new Date().toISOString() }), [due, retrying]);
+        assert.deepEqual(await select({ isActive: false }), [paused]);
+      });
+
+      it('keeps execution logs newest first and deletes them with the job', async () => {
+        const jobId = await adapter.createCronJob(newJob('Logged', null));
+        const at = (minutesAgo: number) => new Date(Date.now() - minutesAgo * 60 * 1000).toISOString();
+        const log = (status: 'success' | 'failure' | 'retry', executedAt: string, attempt = 0) =>
+          adapter.addCronExecutionLog({
+            cron_job_id: jobId!,
+            execution_id: 'run-1',
+            status,
+            response_code: status === 'success' ? 200 : 500,
+            response_body: null,
+            error_message: status === 'success' ? null : 'Server error',
+            response_time_ms: 12,
+            retry_attempt: attempt,
+            executed_at: executedAt,
+          });
+
+        const first = await log('retry', at(30));
+        const second = await log('failure', at(20), 1);
+        const third = await log('success', at(10));
+        assert.ok(first && second && third);
+
+        assert.deepEqual((await adapter.getCronExecutionLogs(jobId!)).map((l) => l.id), [third, second, first]);
+        assert.deepEqual((await adapter.getCronExecutionLogs(jobId!, { limit: 2 })).map((l) => l.id), [third, second]);
+        assert.deepEqual((await adapter.getCronExecutionLogs(jobId!, { status: 'failure' })).map((l) => l.id), [second]);
+        assert.deepEqual(
+          (await adapter.getCronExecutionLogs(jobId!, { since: at(25), until: at(15) })).map((l) => l.id),
+          [second]
+        );
+        assert.equal((await adapter.getCronExecutionLogs(jobId!, { status: 'failure' }))[0].retry_attempt, 1);
+
+        assert.equal(await adapter.deleteCronJob(jobId!), true);
+        assert.equal(await adapter.getCronJob(jobId!), null);
+        assert.deepEqual(await adapter.getCronExecutionLogs(jobId!), []);
+        assert.equal(await adapter.deleteCronJob(jobId!), false);
+      });
+    });
+
+    describe('media files', () => {
+      it('stores media files and adds their descriptions to the thread context', async () => {
+        const payload = webhookPayload({ message_type: 'image', message_content: { data: 'base64-image-data' } });
+        await adapter.processWebhookPayload(payload);
+        const message = await adapter.getMessageByExternalId(payload.message_id);
+
+        const fileId = await adapter.addMediaFile({
+          message_id: message!.id,
+          file_type: 'image',
+          mime_type: 'image/png',
+          file_size: 1024,
+          metadata: { description: 'A red bicycle leaning on a fence', format: 'image' },
+        });
+        assert.ok(fileId);
+
+        const [file] = await adapter.getMediaFiles([message!.id]);
+        assert.equal(file.id, fileId);
+        assert.equal(file.file_url, null);
+        assert.equal(file.mime_type, 'image/png');
+        assert.equal(file.metadata.description, 'A red bicycle leaning on a fence');
+        assert.deepEqual(await adapter.getMediaFiles([]), []);
+
+        const thread = await adapter.getThread(payload.thread_id);
+        assert.equal(thread?.messages[0].content, '[Image received]\n[Image contents: A red bicycle leaning on a fence]');
+      });
+
+      it('shows transcribed voice notes as their transcript', async () => {
+        const payload = webhookPayload({ message_type: 'audio', message_content: { data: 'base64-audio-data' } });
+        await adapter.processWebhookPayload(payload);
+        const message = await adapter.getMessageByExternalId(payload.message_id);
+
+        assert.equal((await adapter.getThread(payload.thread_id))?.messages[0].content, '[Audio received]');
+        await adapter.addMediaFile({
+          message_id: message!.id,
+          file_type: 'audio',
+          mime_type: 'audio/ogg',
+          metadata: { transcript: 'Can we move the standup to 10?', model: 'openai:whisper-1' },
+        });
+
+        const thread = await adapter.getThread(payload.thread_id);
+        assert.equal(thread?.messages[0].content, 'Can we move the standup to 10?');
+      });
+
+      it('deletes media files with their message', async () => {
+        const payload = webhookPayload({ message_type: 'image', message_content: { data: 'base64-image-data' } });
+        await adapter.processWebhookPayload(payload);
+        const message = await adapter.getMessageByExternalId(payload.message_id);
+        await adapter.addMediaFile({ message_id: message!.id, file_type: 'image', metadata: { description: 'A cat' } });
+
+        assert.equal(await adapter.deleteMessages({ chatId: message!.chat_id! }), 1);
+        assert.deepEqual(await adapter.getMediaFiles([message!.id]), []);
+      });
+    });
+
+    describe('model usage', () => {
+      const usage = (chatId: string, task: string, cost: number | null) => ({
+        task,
+        model: 'openai:gpt-4.1',
+        chat_id: chatId,
+        user_id: `+${uniquePhoneNumber()}`,
+        prompt_tokens: 100,
+        completion_tokens: 20,
+        total_tokens: 120,
+        cost_usd: cost,
+      });
+
+      it('records usage and filters by chat, task and time', async () => {
+        const chatId = uniqueThreadId();
+
+        assert.ok(await adapter.recordModelUsage(usage(chatId, 'triage', 0.0004)));
+        await sleep(10);
+        const since = new Date().toISOString();
+        await sleep(10);
+        await adapter.recordModelUsage(usage(chatId, 'reply', 0.01));
+        await adapter.recordModelUsage(usage(uniqueThreadId(), 'reply', null));
+
+        const all = await adapter.getModelUsage({ chatId });
+        assert.deepEqual(all.map((u) => u.task), ['triage', 'reply']);
+        assert.equal(all[0].cost_usd, 0.0004);
+        assert.equal(all[0].total_tokens, 120);
+
+        assert.deepEqual((await adapter.getModelUsage({ chatId, since })).map((u) => u.task), ['reply']);
+        assert.equal((await adapter.getModelUsage({ chatId, task: 'triage' })).length, 1);
+      });
+    });
+
+    describe('user memory', () => {
+      it('reads and writes values by user ID or phone number', async () => {
+        const phone = uniquePhoneNumber();
+        const userId = await adapter.getUserFromWebhook(phone, 'Memory', 'whatsapp');
+
+        const written = await adapter.upsertUserMemoryValue(userId!, 'name', 'Mem');
+        assert.equal(written.error, null);
+
+        assert.equal((await adapter.getUserMemoryValue(userId!, 'name')).data, 'Mem');
+        assert.equal((await adapter.getUserMemoryValue(`+${phone}`, 'name')).data, 'Mem');
+        assert.equal((await adapter.getUserMemoryValue(userId!, 'missing')).data, null);
+      });
+
+      it('appends to list-like fields and replaces others', async () => {
+        const userId = await adapter.getUserFromWebhook(uniquePhoneNumber(), 'Memory', 'whatsapp');
+
+        await adapter.upsertUserMemoryValue(userId!, 'likes', 'tea');
+        await adapter.upsertUserMemoryValue(userId!, 'likes', 'coffee');
+        await adapter.upsertUserMemoryValue(userId!, 'likes', 'Tea');
+        await adapter.upsertUserMemoryValue(userId!, 'city', 'Paris');
+        await adapter.upsertUserMemoryValue(userId!, 'city', 'Berlin');
+
+        assert.deepEqual(await adapter.getAllUserMemoryValues(userId!), {
+          likes: 'tea. coffee',
+          city: 'Berlin',
+        });
+      });
+
+      it('deletes values', async () => {
+        const userId = await adapter.getUserFromWebhook(uniquePhoneNumber(), 'Memory', 'whatsapp');
+        await adapter.upsertUserMemoryValue(userId!, 'city', 'Paris');
+
+        assert.equal((await adapter.deleteUserMemoryValue(userId!, 'city')).success, true);
+        assert.equal((await adapter.deleteUserMemoryValue(userId!, 'city')).success, true);
+        assert.deepEqual(await adapter.getAllUserMemoryValues(userId!), {});
+      });
+
+      it('reports an error for unknown phone numbers', async () => {
+        const result = await adapter.upsertUserMemoryValue(`+${uniquePhoneNumber()}`, 'name', 'Nobody');
+        assert.equal(result.data, null);
+        assert.ok(result.error);
+      });
+    });
+
+    describe('chat memory', () => {
+      it('reads, writes and deletes values by internal or external chat ID', async () => {
+        const threadId = uniqueThreadId();
+        const chatId = await adapter.getChatFromWebhook(threadId, 'group', 'whatsapp');
+
+        await adapter.upsertChatThreadMemoryValue(threadId, 'topics', 'roadmap');
+        await adapter.upsertChatThreadMemoryValue(chatId!, 'topics', 'hiring');
+        await adapter.upsertChatThreadMemoryValue(chatId!, 'deadline', 'Friday');
+
+        assert.equal((await adapter.getChatMemoryValue(chatId!, 'topics')).data, 'roadmap. hiring');
+        assert.deepEqual(await adapter.getAllChatMemoryValues(threadId), {
+          topics: 'roadmap. hiring',
+          deadline: 'Friday',
+        });
+
+        assert.equal((await adapter.deleteChatMemoryValue(chatId!, 'deadline')).success, true);
+        assert.deepEqual(await adapter.getAllChatMemoryValues(chatId!), { topics: 'roadmap. hiring' });
+      });
+    });
+
+    describe('memory history', () => {
+      it('records every change with its provenance, newest first', async () => {
+        const userId = await adapter.getUserFromWebhook(uniquePhoneNumber(), 'History', 'whatsapp');
+
+        await adapter.upsertUserMemoryValue(userId!, 'city', 'Paris', {
+          source: 'memory_processor',
+          sourceMessageId: 'msg-1',
+          model: 'openai:gpt-4.1-mini',
+        });
+        await sleep(10);
+        await adapter.upsertUserMemoryValue(userId!, 'city', 'Berlin');
+        await sleep(10);
+        await adapter.upsertUserMemoryValue(userId!, 'city', 'Berlin');
+        await adapter.deleteUserMemoryValue(userId!, 'city');
+        await adapter.deleteUserMemoryValue(userId!, 'city');
+
+        const history = await adapter.getMemoryHistory('user', userId!);
+        assert.deepEqual(
+          history.map((h) => [h.previous_value, h.new_value, h.source]),
+          [
+            ['Berlin', null, 'manual'],
+            ['Paris', 'Berlin', 'manual'],
+            [null, 'Paris', 'memory_processor'],
+          ]
+        );
+        assert.equal(history[2].source_message_id, 'msg-1');
+        assert.equal(history[2].model, 'openai:gpt-4.1-mini');
+        assert.deepEqual(await adapter.getMemoryHistoryEntry(history[1].id), history[1]);
+        assert.equal(await adapter.getMemoryHistoryEntry(randomUUID()), null);
+      });
+
+      it('filters by field and keeps user and chat history apart', async () => {
+        const chatId = await adapter.getChatFromWebhook(uniqueThreadId(), 'group', 'whatsapp');
+
+        await adapter.upsertChatThreadMemoryValue(chatId!, 'topics', 'roadmap');
+        await adapter.upsertChatThreadMemoryValue(chatId!, 'topics', 'hiring');
+        await adapter.upsertChatThreadMemoryValue(chatId!, 'deadline', 'Friday');
+
+        const topics = await adapter.getMemoryHistory('chat', chatId!, 'topics');
+        assert.deepEqual(topics.map((h) => h.new_value).sort(), ['roadmap', 'roadmap. hiring']);
+        assert.equal((await adapter.getMemoryHistory('chat', chatId!)).length, 3);
+        assert.deepEqual(await adapter.getMemoryHistory('user', chatId!), []);
+      });
+
+      it('sets exact values and deletes with setMemoryValue', async () => {
+        const userId = await adapter.getUserFromWebhook(uniquePhoneNumber(), 'History', 'whatsapp');
+        await adapter.upsertUserMemoryValue(userId!, 'likes', 'tea');
+        await adapter.upsertUserMemoryValue(userId!, 'likes', 'coffee');
+
+        assert.equal(await adapter.setMemoryValue('user', userId!, 'likes', 'tea', { source: 'revert' }), true);
+        assert.deepEqual(await adapter.getAllUserMemoryValues(userId!), { likes: 'tea' });
+        assert.equal(await adapter.setMemoryValue('user', userId!, 'likes', null), true);
+        assert.deepEqual(await adapter.getAllUserMemoryValues(userId!), {});
+
+        const [deleted, reverted] = await adapter.getMemoryHistory('user', userId!);
+        assert.deepEqual([deleted.previous_value, deleted.new_value], ['tea', null]);
+        assert.deepEqual([reverted.previous_value, reverted.new_value, reverted.source], ['tea. coffee', 'tea', 'revert']);
+
+        assert.equal(await adapter.setMemoryValue('user', randomUUID(), 'likes', 'tea'), false);
+      });
+
+      it('deletes the history of a user or chat', async () => {
+        const userId = await adapter.getUserFromWebhook(uniquePhoneNumber(), 'History', 'whatsapp');
+        const otherId = await adapter.getUserFromWebhook(uniquePhoneNumber(), 'Other', 'whatsapp');
+        await adapter.upsertUserMemoryValue(userId!, 'city', 'Paris');
+        await adapter.upsertUserMemoryValue(userId!, 'city', 'Berlin');
+        await adapter.upsertUserMemoryValue(otherId!, 'city', 'Rome');
+
+        assert.equal(await adapter.deleteMemoryHistory('user', userId!), 2);
+        assert.deepEqual(await adapter.getMemoryHistory('user', userId!), []);
+        assert.equal((await adapter.getMemoryHistory('user', otherId!)).length, 1);
+      });
+    });
+
+    describe('memory review queue', () => {
+      const review = (ownerId: string, proposedValue: string) => ({
+        scope: 'user' as const,
+        owner_id: ownerId,
+        field_id: 'city',
+        current_value: null,
+        proposed_value: proposedValue,
+        source_message_id: 'msg-1',
+        source_message: `I live in ${proposedValue}`,
+        model: 'openai:gpt-4.1-mini',
+      });
+
+      it('queues updates as pending and lists them oldest first', async () => {
+        const userId = await adapter.getUserFromWebhook(uniquePhoneNumber(), 'Review', 'whatsapp');
+
+        const firstId = await adapter.addMemoryReview(review(userId!, 'Paris'));
+        await sleep(10);
+        await adapter.addMemoryReview(review(userId!, 'Berlin'));
+
+        const pending = await adapter.getMemoryReviews({ status: 'pending', scope: 'user', ownerId: userId! });
+        assert.deepEqual(pending.map((r) => r.proposed_value), ['Paris', 'Berlin']);
+        assert.equal(pending[0].id, firstId);
+        assert.equal(pending[0].reviewed_at, null);
+        assert.equal((await adapter.getMemoryReview(firstId!))?.source_message, 'I live in Paris');
+        assert.equal(await adapter.getMemoryReview(randomUUID()), null);
+      });
+
+      it('resolves pending updates only once', async () => {
+        const userId = await adapter.getUserFromWebhook(uniquePhoneNumber(), 'Review', 'whatsapp');
+        const approvedId = await adapter.addMemoryReview(review(userId!, 'Paris'));
+        const rejectedId = await adapter.addMemoryReview(review(userId!, 'Rome'));
+
+        assert.equal(await adapter.resolveMemoryReview(approvedId!, 'approved', 'Paris, France'), true);
+        assert.equal(await adapter.resolveMemoryReview(approvedId!, 'rejected'), false);
+        assert.equal(await adapter.resolveMemoryReview(rejectedId!, 'rejected'), true);
+
+        const approved = await adapter.getMemoryReview(approvedId!);
+        assert.equal(approved?.status, 'approved');
+        assert.equal(approved?.applied_value, 'Paris, France');
+        assert.ok(approved?.reviewed_at);
+        assert.deepEqual(await adapter.getMemoryReviews({ status: 'pending', ownerId: userId! }), []);
+        assert.equal((await adapter.getMemoryReviews({ status: 'rejected', ownerId: userId! })).length, 1);
+      });
+
+      it('deletes the queued updates of a user or chat', async () => {
+        const userId = await adapter.getUserFromWebhook(uniquePhoneNumber(), 'Review', 'whatsapp');
+        await adapter.addMemoryReview(review(userId!, 'Paris'));
+        await adapter.addMemoryReview({ ...review(userId!, 'Rome'), scope: 'chat' });
+
+        assert.equal(await adapter.deleteMemoryReviews('user', userId!), 1);
+        assert.deepEqual(await adapter.getMemoryReviews({ scope: 'user', ownerId: userId! }), []);
+        assert.equal((await adapter.getMemoryReviews({ ownerId: userId! })).length, 1);
+      });
+    });
+
+    describe('moderation log', () => {
+      const entry = (threadId: string, action: string, direction: 'inbound' | 'outbound' = 'inbound') => ({
+        direction,
+        service: 'whatsapp',
+        thread_id: threadId,
+        message_id: 'msg-1',
+        action,
+        categories: ['profanity'],
+        findings: [{ checker: 'profanity', category: 'profanity', matches: ['darn'] }],
+      });
+
+      it('records flagged messages and lists them newest first', async () => {
+        const threadId = uniqueThreadId();
+
+        assert.ok(await adapter.addModerationLog(entry(threadId, 'warn')));
+        await sleep(10);
+        const since = new Date().toISOString();
+        await sleep(10);
+        await adapter.addModerationLog(entry(threadId, 'rewrite', 'outbound'));
+
+        const log = await adapter.getModerationLog({ threadId });
+        assert.deepEqual(log.map((e) => e.action), ['rewrite', 'warn']);
+        assert.deepEqual(log[1].categories, ['profanity']);
+        assert.deepEqual(log[1].findings, entry(threadId, 'warn').findings);
+
+        assert.deepEqual((await adapter.getModerationLog({ threadId, since })).map((e) => e.action), ['rewrite']);
+        assert.equal((await adapter.getModerationLog({ threadId, action: 'warn' })).length, 1);
+        assert.equal((await adapter.getModerationLog({ threadId, direction: 'outbound' })).length, 1);
+        assert.equal((await adapter.getModerationLog({ threadId, limit: 1 })).length, 1);
+      });
+
+      it('deletes the entries of a thread', async () => {
+        const threadId = uniqueThreadId();
+        const otherThreadId = uniqueThreadId();
+        await adapter.addModerationLog(entry(threadId, 'warn'));
+        await adapter.addModerationLog(entry(threadId, 'block'));
+        await adapter.addModerationLog(entry(otherThreadId, 'warn'));
+
+        assert.equal(await adapter.deleteModerationLog(threadId), 2);
+        assert.deepEqual(await adapter.getModerationLog({ threadId }), []);
+        assert.equal((await adapter.getModerationLog({ threadId: otherThreadId })).length, 1);
+      });
+    });
+
+    describe('semantic memory', () => {
+      const chunk = (userId: string | null, chatId: string | null, content: string) => ({
+        user_id: userId,
+        chat_id: chatId,
+        kind: 'message' as const,
+        content,
+        embedding: [0.6, 0.8],
+        embedding_model: 'hashing',
+        metadata: { source: 'test' },
+      });
+
+      it('stores chunks and reads them newest first by user and chat', async () => {
+        const chatId = await adapter.getChatFromWebhook(uniqueThreadId(), 'group', 'whatsapp');
+        const userId = await adapter.getUserFromWebhook(uniquePhoneNumber(), 'Chunks', 'whatsapp');
+
+        assert.ok(await adapter.addMemoryChunk(chunk(userId, chatId, 'first')));
+        await sleep(10);
+        await adapter.addMemoryChunk(chunk(userId, chatId, 'second'));
+        await adapter.addMemoryChunk(chunk(null, chatId, 'chat fact'));
+
+        const byUser = await adapter.getMemoryChunks({ userId: userId! });
+        assert.deepEqual(byUser.map((c) => c.content), ['second', 'first']);
+        assert.deepEqual(byUser[0].embedding, [0.6, 0.8]);
+        assert.deepEqual(byUser[0].metadata, { source: 'test' });
+
+        assert.equal((await adapter.getMemoryChunks({ chatId: chatId! })).length, 3);
+        assert.deepEqual((await adapter.getMemoryChunks({ userId: userId!, limit: 1 })).map((c) => c.content), ['second']);
+        assert.deepEqual(await adapter.getMemoryChunks({}), []);
+      });
+
+      it('deletes chunks by user, chat and age', async () => {
+        const chatId = await adapter.getChatFromWebhook(uniqueThreadId(), 'group', 'whatsapp');
+        const userId = await adapter.getUserFromWebhook(uniquePhoneNumber(), 'Chunks', 'whatsapp');
+
+        await adapter.addMemoryChunk(chunk(userId, chatId, 'old'));
+        await sleep(10);
+        const before = new Date().toISOString();
+        await sleep(10);
+        await adapter.addMemoryChunk(chunk(userId, chatId, 'new'));
+        await adapter.addMemoryChunk(chunk(null, chatId, 'chat fact'));
+
+        assert.equal(await adapter.deleteMemoryChunks({ userId: userId!, before }), 1);
+        assert.equal(await adapter.deleteMemoryChunks({ userId: userId! }), 1);
+        assert.equal(await adapter.deleteMemoryChunks({}), 0);
+        assert.deepEqual((await adapter.getMemoryChunks({ chatId: chatId! })).map((c) => c.content), ['chat fact']);
+      });
+    });
+
+    describe('email report schedules', () => {
+      // ReportSchedulerService keeps schedules and history under metadata.email_reports
+      it('stores schedules in user metadata without losing other metadata', async () => {
+        const phone = uniquePhoneNumber();
+        const userId = await adapter.getUserFromWebhook(phone, 'Reports', 'whatsapp', { timezone: 'UTC' });
+        const schedule = {
+          id: 'report_1',
+          email_address: 'reports@example.com',
+          report_type: 'project_status',
+          frequency: 'weekly',
+          is_active: true,
+        };
+
+        await adapter.updateUserById(userId!, {
+          metadata: { email: 'reports@example.com', email_reports: { scheduled: { report_1: schedule } } },
+        });
+
+        type EmailReports = { scheduled?: Record<string, unknown>; history?: unknown[] };
+        let user = await adapter.getUserById(userId!);
+        let emailReports = user?.metadata?.email_reports as EmailReports | undefined;
+        assert.equal(user?.metadata?.timezone, 'UTC');
+        assert.equal(user?.metadata?.email, 'reports@example.com');
+        assert.deepEqual(emailReports?.scheduled?.report_1, schedule);
+
+        await adapter.updateUserById(userId!, {
+          metadata: {
+            email_reports: {
+              ...emailReports,
+              history: [{ report_id: 'report_1', sent_at: new Date().toISOString() }],
+            },
+          },
+        });
+
+        user = await adapter.getUserById(userId!);
+        emailReports = user?.metadata?.email_reports as EmailReports | undefined;
+        assert.deepEqual(emailReports?.scheduled?.report_1, schedule);
+        assert.equal(emailReports?.history?.length, 1);
+        assert.equal((await adapter.getUserByPhone(phone))?.metadata?.email, 'reports@example.com');
+      });
+    });
+
+    describe('email threads', () => {
+      const uniqueAddress = () => `sender-${randomUUID().slice(0, 8)}@example.com`;
+      const email = (threadId: string, from: string, to: string, overrides: Record<string, unknown> = {}) => ({
+        thread_id: threadId,
+        email_id: `email-${randomUUID()}`,
+        direction: 'inbound' as const,
+        from_address: from,
+        to_address: to,
+        subject: 'Lease renewal',
+        ...overrides,
+      });
+
+      it('finds threads between two addresses in either direction, latest activity first', async () => {
+        const sender = uniqueAddress();
+        const first = await adapter.createEmailThread({ sender_email: sender, recipient_email: 'agent@a1send.com', subject: 'Lease renewal' });
+        await sleep(5);
+        const second = await adapter.createEmailThread({ sender_email: sender, recipient_email: 'agent@a1send.com', subject: 'Boiler' });
+        assert.ok(first && second);
+
+        let threads = await adapter.getEmailThreadsBetween('agent@a1send.com', sender);
+        assert.deepEqual(threads.map((thread) => thread.id), [second, first]);
+        assert.equal(threads[1].subject, 'Lease renewal');
+        assert.equal(threads[1].status, 'active');
+
+        // Storing an email moves its thread to the top
+        await sleep(5);
+        await adapter.addEmailMessage(email(first!, sender, 'agent@a1send.com'));
+        threads = await adapter.getEmailThreadsBetween(sender, 'agent@a1send.com');
+        assert.deepEqual(threads.map((thread) => thread.id), [first, second]);
+        assert.deepEqual(await adapter.getEmailThreadsBetween(uniqueAddress(), 'agent@a1send.com'), []);
+      });
+
+      it('stores emails once and returns the latest of a thread oldest first', async () => {
+        const sender = uniqueAddress();
+        const threadId = await adapter.createEmailThread({ sender_email: sender, recipient_email: 'agent@a1send.com', subject: 'Lease renewal' });
+        const firstEmail = email(threadId!, sender, 'agent@a1send.com', {
+          cc_addresses: ['ops@example.com'],
+          body_text: 'Can we renew for two years?',
+          headers: { 'mime-version': '1.0' },
+          message_id_header: `lease-1-${threadId}@example.com`,
+        });
+        const first = await adapter.addEmailMessage(firstEmail);
+        assert.ok(first);
+        assert.equal(await adapter.addEmailMessage(firstEmail), null);
+
+        await sleep(5);
+        const reply = await adapter.addEmailMessage(email(threadId!, 'agent@a1send.com', sender, {
+          direction: 'outbound',
+          subject: 'Re: Lease renewal',
+          in_reply_to: `lease-1-${threadId}@example.com`,
+          reference_ids: [`lease-1-${threadId}@example.com`],
+        }));
+        await sleep(5);
+        const followUp = await adapter.addEmailMessage(email(threadId!, sender, 'agent@a1send.com', { subject: 'Re: Lease renewal' }));
+
+        const all = await adapter.getEmailMessages(threadId!);
+        assert.deepEqual(all.map((message) => message.id), [first, reply, followUp]);
+        assert.deepEqual(all[0].cc_addresses, ['ops@example.com']);
+        assert.deepEqual(all[0].bcc_addresses, []);
+        assert.equal(all[0].body_text, 'Can we renew for two years?');
+        assert.deepEqual(all[0].headers, { 'mime-version': '1.0' });
+        assert.deepEqual(all[1].reference_ids, [`lease-1-${threadId}@example.com`]);
+        assert.deepEqual(all[2].reference_ids, []);
+        assert.deepEqual((await adapter.getEmailMessages(threadId!, 2)).map((message) => message.id), [reply, followUp]);
+
+        // The agent's reply marks the emails before it as replied
+        assert.equal(all[0].is_replied, true);
+        assert.ok(all[0].replied_at);
+        assert.equal(all[1].is_replied, false);
+        assert.equal(all[2].is_replied, false);
+      });
+
+      it('finds emails by Message-ID and lists their attachments', async () => {
+        const sender = uniqueAddress();
+        const threadId = await adapter.createEmailThread({ sender_email: sender, recipient_email: 'agent@a1send.com', subject: 'Invoice' });
+        const messageId = `invoice-${threadId}@example.com`;
+        const emailId = await adapter.addEmailMessage(email(threadId!, sender, 'agent@a1send.com', { message_id_header: messageId }));
+
+        const [found] = await adapter.getEmailMessagesByMessageIds(['unknown@example.com', messageId]);
+        assert.equal(found.id, emailId);
+        assert.equal(found.thread_id, threadId);
+        assert.deepEqual(await adapter.getEmailMessagesByMessageIds([]), []);
+
+        const pdf = await adapter.addEmailAttachment({
+          message_id: emailId!,
+          filename: 'invoice.pdf',
+          content_type: 'application/pdf',
+          size_bytes: 2048,
+          url: 'local:email/2026/10/invoice.pdf',
+          content_id: null,
+        });
+        await sleep(5);
+        const logo = await adapter.addEmailAttachment({
+          message_id: emailId!,
+          filename: 'logo.png',
+          content_type: 'image/png',
+          size_bytes: 100,
+          url: null,
+          content_id: 'logo@example.com',
+        });
+
+        const attachments = await adapter.getEmailAttachments([emailId!]);
+        assert.deepEqual(attachments.map((attachment) => attachment.id), [pdf, logo]);
+        assert.equal(attachments[0].url, 'local:email/2026/10/invoice.pdf');
+        assert.equal(attachments[0].size_bytes, 2048);
+        assert.equal(attachments[1].content_id, 'logo@example.com');
+        assert.deepEqual(await adapter.getEmailAttachments([]), []);
+      });
+    });
+
+    describe('email drafts', () => {
+      it('keeps drafts in the outbox and updates them only while they have the expected status', async () => {
+        const threadId = await adapter.createEmailThread({
+          sender_email: `drafts-${randomUUID().slice(0, 8)}@example.com`,
+          recipient_email: 'agent@a1send.com',
+          subject: 'Refund',
+        });
+        assert.equal((await adapter.getEmailThread(threadId!))?.subject, 'Refund');
+        assert.equal(await adapter.getEmailThread(randomUUID()), null);
+
+        const draft = (body: string) => ({ thread_id: threadId!, reply_to_id: null, to_address: 'ada@example.com', subject: 'Re: Refund', body });
+        const first = await adapter.addEmailDraft(draft('First reply'));
+        await sleep(5);
+        const second = await adapter.addEmailDraft(draft('Second reply'));
+        assert.ok(first && second);
+
+        const stored = await adapter.getEmailDraft(first!);
+        assert.equal(stored?.status, 'pending');
+        assert.equal(stored?.body, 'First reply');
+        assert.equal(stored?.error, null);
+        assert.equal(stored?.sent_message_id, null);
+        assert.deepEqual((await adapter.getEmailDrafts({ threadId: threadId! })).map((d) => d.id), [first, second]);
+
+        assert.equal(await adapter.updateEmailDraft(first!, { status: 'sending', body: 'Edited' }, 'pending'), true);
+        assert.equal(await adapter.updateEmailDraft(first!, { status: 'sending' }, 'pending'), false);
+        assert.equal(await adapter.updateEmailDraft(first!, { status: 'sent', reviewed_at: new Date().toISOString() }, 'sending'), true);
+        assert.equal(await adapter.updateEmailDraft(second!, { instructions: 'Shorter' }), true);
+        assert.equal(await adapter.updateEmailDraft(randomUUID(), { body: 'Nothing' }), false);
+
+        const sent = await adapter.getEmailDraft(first!);
+        assert.equal(sent?.body, 'Edited');
+        assert.ok(sent?.reviewed_at);
+        assert.ok(sent!.updated_at >= sent!.created_at);
+        const pending = (await adapter.getEmailDrafts({ status: 'pending' })).map((d) => d.id);
+        assert.ok(pending.includes(second!) && !pending.includes(first!));
+        assert.deepEqual(
+          (await adapter.getEmailDrafts({ status: 'sent', threadId: threadId! })).map((d) => d.id),
+          [first]
+        );
+        assert.equal((await adapter.getEmailDraft(second!))?.instructions, 'Shorter');
+        assert.equal(await adapter.getEmailDraft(randomUUID()), null);
+      });
+    });
+  });
+}
@@ -0,0 +1,12 @@
+/**
+ * Conformance tests for the in-memory adapter
+ * Run with: npm test
+ */
+
+import { MemoryAdapter } from '../../lib/database/memory-adapter';
+import { runAdapterConformanceSuite } from './adapter-conformance';
+
+runAdapterConformanceSuite('MemoryAdapter', async () => {
+  const adapter = new MemoryAdapter();
+  return { adapter, cleanup: () => adapter.close() };
+});
@@ -0,0 +1,149 @@
+/**
+ * Tests for the migration runner, using an in-memory driver
+ * Run with: npm test
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Migration, checksumSql, loadMigrations } from '../../lib/database/migrations/migration-files';
+import { AppliedMigration, MigrationDriver, MigrationRunner } from '../../lib/database/migrations/migration-runner';
+
+class FakeDriver implements MigrationDriver {
+  applied: AppliedMigration[] = [];
+  executed: string[] = [];
+  failOn: string | null = null;
+
+  ensureMigrationsTable = async () => {};
+
+  getAppliedMigrations = async () => [...this.applied].sort((a, b) => a.version - b.version);
+
+  applyMigration = async (migration: Migration) => {
+    if (migration.up === this.failOn) throw new Error('syntax error');
+    this.executed.push(migration.up);
+    this.applied.push({
+      version: migration.version,
+      name: migration.name,
+      checksum: migration.checksum,
+      applied_at: new Date().toISOString(),
+    });
+  };
+
+  revertMigration = async (migration: Migration) => {
+    this.executed.push(migration.down!);
+    this.applied = this.applied.filter((m) => m.version !== migration.version);
+  };
+
+  withLock = <T>(fn: () => Promise<T>) => fn();
+
+  close = async () => {};
+}
+
+function migration(version: number, name: string, down: string | null = `down ${version}`): Migration {
+  const up = `up ${version}`;
+  return { version, name, up, down, checksum: checksumSql(up) };
+}
+
+const silent = () => {};
+
+describe('MigrationRunner', () => {
+  it('applies pending migrations in version order', async () => {
+    const driver = new FakeDriver();
+    const runner = new MigrationRunner(driver, [migration(2, 'two'), migration(1, 'one')], silent);
+
+    const applied = await runner.up();
+    assert.deepEqual(applied.map((m) => m.version), [1, 2]);
+    assert.deepEqual(driver.executed, ['up 1', 'up 2']);
+    assert.deepEqual(await runner.up(), []);
+  });
+
+  it('stops at the requested version', async () => {
+    const driver = new FakeDriver();
+    const runner = new MigrationRunner(driver, [migration(1, 'one'), migration(2, 'two')], silent);
+
+    await runner.up({ to: 1 });
+    const status = await runner.status();
+    assert.deepEqual(status.map((s) => s.state), ['applied', 'pending']);
+  });
+
+  it('rolls back the most recent migrations', async () => {
+    const driver = new FakeDriver();
+    const runner = new MigrationRunner(
+      driver,
+      [migration(1, 'one'), migration(2, 'two'), migration(3, 'three')],
+      silent
+    );
+    await runner.up();
+
+    const reverted = await runner.down({ steps: 2 });
+    assert.deepEqual(reverted.map((m) => m.version), [3, 2]);
+    assert.deepEqual(driver.applied.map((m) => m.version), [1]);
+  });
+
+  it('refuses to roll back migrations without a down file', async () => {
+    const driver = new FakeDriver();
+    const runner = new MigrationRunner(driver, [migration(1, 'one', null)], silent);
+    await runner.up();
+
+    await assert.rejects(runner.down(), /no down migration/);
+    assert.equal(driver.applied.length, 1);
+  });
+
+  it('detects applied migrations that were edited or deleted', async () => {
+    const driver = new FakeDriver();
+    await new MigrationRunner(driver, [migration(1, 'one'), migration(2, 'two')], silent).up();
+
+    const edited = { ...migration(1, 'one'), up: 'up 1 edited', checksum: checksumSql('up 1 edited') };
+    const runner = new MigrationRunner(driver, [edited, migration(3, 'three')], silent);
+
+    const status = await runner.status();
+    assert.deepEqual(
+      status.map((s) => [s.version, s.state]),
+      [[1, 'modified'], [2, 'missing'], [3, 'pending']]
+    );
+    await assert.rejects(runner.up(), /don't match the migration files/);
+  });
+
+  it('refuses to apply a migration older than the latest applied one', async () => {
+    const driver = new FakeDriver();
+    await new MigrationRunner(driver, [migration(1, 'one'), migration(3, 'three')], silent).up();
+
+    const runner = new MigrationRunner(
+      driver,
+      [migration(1, 'one'), migration(2, 'two'), migration(3, 'three')],
+      silent
+    );
+    await assert.rejects(runner.up(), /older than the latest applied migration/);
+  });
+
+  it('keeps earlier migrations when a later one fails', async () => {
+    const driver = new FakeDriver();
+    driver.failOn = 'up 2';
+    const runner = new MigrationRunner(driver, [migration(1, 'one'), migration(2, 'two')], silent);
+
+    await assert.rejects(runner.up(), /syntax error/);
+    assert.deepEqual(driver.applied.map((m) => m.version), [1]);
+  });
+});
+
+describe('migrations directory', () => {
+  it('has consecutive versions, each with a down migration', () => {
+    const migrations = loadMigrations();
+    assert.ok(migrations.length > 0);
+    migrations.forEach((m, index) => {
+      assert.equal(m.version, index + 1);
+      assert.notEqual(m.down, null, `${m.name} has no down migration`);
+    });
+  });
+
+  it('creates each table in only one migration', () => {
+    const creators = new Map<string, string>();
+    for (const m of loadMigrations()) {
+      for (const [, table] of m.up.matchAll(/CREATE TABLE (?:IF NOT EXISTS )?(?:public\.)?"?(\w+)"?/gi)) {
+        const name = table.toLowerCase();
+        assert.equal(creators.get(name), undefined, `${name} is created by both ${creators.get(name)} and ${m.name}`);
+        creators.set(name, m.name);
+      }
+    }
+    assert.ok(creators.has('local_cron_jobs'));
+  });
+});
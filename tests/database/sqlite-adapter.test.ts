@@ -0,0 +1,22 @@
+/**
+ * Conformance tests for the SQLite adapter, using a temporary database file
+ * Run with: npm test
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SqliteAdapter } from '../../lib/database/sqlite-adapter';
+import { runAdapterConformanceSuite } from './adapter-conformance';
+
+runAdapterConformanceSuite('SqliteAdapter', async () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'a1base-sqlite-'));
+  const adapter = new SqliteAdapter(path.join(directory, 'test.sqlite'));
+  return {
+    adapter,
+    cleanup: () => {
+      adapter.close();
+      fs.rmSync(directory, { recursive: true, force: true });
+    },
+  };
+});
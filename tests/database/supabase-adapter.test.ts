@@ -0,0 +1,22 @@
+/**
+ * Conformance tests for the Supabase adapter.
+ * These write real rows, so they only run against a dedicated test project:
+ *   SUPABASE_TEST_URL=... SUPABASE_TEST_KEY=... npm test
+ */
+
+import { describe, it } from 'node:test';
+import { SupabaseAdapter } from '../../lib/supabase/adapter';
+import { runAdapterConformanceSuite } from './adapter-conformance';
+
+const supabaseTestUrl = process.env.SUPABASE_TEST_URL;
+const supabaseTestKey = process.env.SUPABASE_TEST_KEY;
+
+if (supabaseTestUrl && supabaseTestKey) {
+  runAdapterConformanceSuite('SupabaseAdapter', async () => ({
+    adapter: new SupabaseAdapter(supabaseTestUrl, supabaseTestKey),
+  }));
+} else {
+  describe('SupabaseAdapter adapter conformance', () => {
+    it('requires SUPABASE_TEST_URL and SUPABASE_TEST_KEY', { skip: 'Supabase test project not configured' }, () => {});
+  });
+}
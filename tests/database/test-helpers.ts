@@ -0,0 +1,21 @@
+/**
+ * Fixtures shared by the tests that run against a database adapter
+ */
+
+import { MemoryAdapter } from '../../lib/database/memory-adapter';
+
+/**
+ * Unique phone number, so tests can share a database without collisions
+ */
+export function uniquePhoneNumber(): string {
+  return `1555${Math.floor(Math.random() * 1e7).toString().padStart(7, '0')}`;
+}
+
+/**
+ * An initialized in-memory adapter. Close it once the tests are done.
+ */
+export async function createMemoryAdapter(): Promise<MemoryAdapter> {
+  const adapter = new MemoryAdapter();
+  await adapter.init();
+  return adapter;
+}
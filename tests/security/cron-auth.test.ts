@@ -0,0 +1,51 @@
+/**
+ * Tests for cron endpoint authentication: the CRON_SECRET bearer token and
+ * refusing every request when the secret isn't configured
+ * Run with: npm test
+ */
+
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { verifyCronAuthorization, withCronAuth } from '../../lib/security/cron-auth';
+
+describe('cron authentication', () => {
+  const saved = process.env.CRON_SECRET;
+
+  beforeEach(() => {
+    delete process.env.CRON_SECRET;
+  });
+
+  afterEach(() => {
+    if (saved === undefined) delete process.env.CRON_SECRET;
+    else process.env.CRON_SECRET = saved;
+  });
+
+  it('accepts only the bearer token for the secret', () => {
+    assert.deepEqual(verifyCronAuthorization('Bearer s3cret', 's3cret'), { valid: true });
+    assert.equal(verifyCronAuthorization('Bearer s3cre', 's3cret').reason, 'unauthorized');
+    assert.equal(verifyCronAuthorization('s3cret', 's3cret').reason, 'unauthorized');
+    assert.equal(verifyCronAuthorization(null, 's3cret').reason, 'unauthorized');
+  });
+
+  it('refuses every request when CRON_SECRET is not set', () => {
+    assert.equal(verifyCronAuthorization('Bearer undefined').reason, 'missing_secret');
+    assert.equal(verifyCronAuthorization('Bearer ', '  ').reason, 'missing_secret');
+  });
+
+  it('only runs the wrapped handler for authorized requests', async () => {
+    let calls = 0;
+    const handler = withCronAuth(async () => {
+      calls++;
+      return new Response('ok');
+    });
+    const request = (authorization: string) =>
+      new Request('http://localhost/api/cron/local-jobs', { method: 'POST', headers: { authorization } });
+
+    assert.equal((await handler(request('Bearer undefined'))).status, 500);
+
+    process.env.CRON_SECRET = 's3cret';
+    assert.equal((await handler(request('Bearer wrong'))).status, 401);
+    assert.equal((await handler(request('Bearer s3cret'))).status, 200);
+    assert.equal(calls, 1);
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Tests for inbound webhook verification: signatures, timestamps, replay
+ * protection, per-route secrets and the development bypass
+ * Run with: npm test
+ */
+
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  WebhookReplayCache,
+  generateWebhookSignature,
+  getWebhookSecret,
+  isTimestampValid,
+  verifyWebhookRequest,
+  withWebhookVerification,
+} from '../../lib/security/webhook-verification';
+
+const ENV_KEYS = [
+  'A1BASE_API_SECRET',
+  'A1BASE_WEBHOOK_SECRET',
+  'A1MAIL_WEBHOOK_SECRET',
+  'SKIP_WEBHOOK_VERIFICATION',
+  'ENABLE_SMS_SIGNATURE_VERIFICATION',
+  'NODE_ENV',
+];
+
+function signedHeaders(body: string, secret: string, timestamp = Math.floor(Date.now() / 1000).toString()) {
+  return new Headers({
+    'x-timestamp': timestamp,
+    'x-signature': generateWebhookSignature(body, timestamp, secret),
+  });
+}
+
+describe('webhook verification', () => {
+  const saved: Record<string, string | undefined> = {};
+  const env = process.env as Record<string, string | undefined>;
+
+  beforeEach(() => {
+    for (const key of ENV_KEYS) {
+      saved[key] = env[key];
+      delete env[key];
+    }
+    env.A1BASE_API_SECRET = 'api-secret';
+  });
+
+  afterEach(() => {
+    for (const key of ENV_KEYS) {
+      if (saved[key] === undefined) delete env[key];
+      else env[key] = saved[key];
+    }
+  });
+
+  it('accepts a correctly signed, fresh request once', () => {
+    const cache = new WebhookReplayCache();
+    const body = '{"message_id":"1"}';
+    const headers = signedHeaders(body, 'api-secret');
+
+    assert.deepEqual(verifyWebhookRequest('messaging', headers, body, { cache }), { valid: true });
+    assert.deepEqual(verifyWebhookRequest('messaging', headers, body, { cache }), {
+      valid: false,
+      reason: 'replayed',
+    });
+  });
+
+  it('recognizes replays by the signature, whatever the unsigned nonce', () => {
+    const cache = new WebhookReplayCache();
+    const body = '{"message_id":"1"}';
+    const headers = signedHeaders(body, 'api-secret');
+
+    headers.set('x-nonce', 'first');
+    assert.equal(verifyWebhookRequest('messaging', headers, body, { cache }).valid, true);
+    headers.set('x-nonce', 'second');
+    assert.equal(verifyWebhookRequest('messaging', headers, body, { cache }).reason, 'replayed');
+  });
+
+  it('rejects tampered bodies, wrong secrets and missing headers', () => {
+    const cache = new WebhookReplayCache();
+    const body = '{"message_id":"1"}';
+
+    assert.equal(verifyWebhookRequest('messaging', signedHeaders(body, 'api-secret'), '{}', { cache }).reason, 'invalid_signature');
+    assert.equal(verifyWebhookRequest('messaging', signedHeaders(body, 'other'), body, { cache }).reason, 'invalid_signature');
+    assert.equal(verifyWebhookRequest('messaging', new Headers(), body, { cache }).reason, 'missing_headers');
+
+    delete env.A1BASE_API_SECRET;
+    assert.equal(verifyWebhookRequest('messaging', signedHeaders(body, 'api-secret'), body, { cache }).reason, 'missing_secret');
+  });
+
+  it('rejects stale, future and malformed timestamps', () => {
+    const cache = new WebhookReplayCache();
+    const body = '{}';
+    const now = Math.floor(Date.now() / 1000);
+
+    for (const timestamp of [`${now - 301}`, `${now + 60}`, 'soon']) {
+      assert.equal(
+        verifyWebhookRequest('email', signedHeaders(body, 'api-secret', timestamp), body, { cache }).reason,
+        'invalid_timestamp'
+      );
+    }
+    assert.equal(isTimestampValid('not-a-number'), false);
+  });
+
+  it('uses the route secret before the shared ones', () => {
+    env.A1BASE_WEBHOOK_SECRET = 'shared-secret';
+    env.A1MAIL_WEBHOOK_SECRET = 'mail-secret';
+
+    assert.equal(getWebhookSecret('email'), 'mail-secret');
+    assert.equal(getWebhookSecret('messaging'), 'shared-secret');
+
+    const body = '{}';
+    const cache = new WebhookReplayCache();
+    assert.equal(verifyWebhookRequest('email', signedHeaders(body, 'mail-secret'), body, { cache }).valid, true);
+    assert.equal(verifyWebhookRequest('email', signedHeaders(body, 'api-secret'), body, { cache }).valid, false);
+  });
+
+  it('forgets replays once the timestamp window has passed', () => {
+    const cache = new WebhookReplayCache(1000);
+    assert.equal(cache.remember('a', 0), true);
+    assert.equal(cache.remember('a', 500), false);
+    assert.equal(cache.remember('a', 1500), true);
+  });
+
+  it('only honors the development bypass outside production', () => {
+    env.SKIP_WEBHOOK_VERIFICATION = 'true';
+    assert.deepEqual(verifyWebhookRequest('cron', new Headers(), '{}'), { valid: true, bypassed: true });
+
+    env.NODE_ENV = 'production';
+    assert.equal(verifyWebhookRequest('cron', new Headers(), '{}').valid, false);
+
+    delete env.SKIP_WEBHOOK_VERIFICATION;
+    delete env.NODE_ENV;
+    env.ENABLE_SMS_SIGNATURE_VERIFICATION = 'false';
+    assert.equal(verifyWebhookRequest('sms', new Headers(), '{}').bypassed, true);
+    assert.equal(verifyWebhookRequest('messaging', new Headers(), '{}').valid, false);
+  });
+
+  it('only runs the wrapped handler for verified requests', async () => {
+    const handled: unknown[] = [];
+    const POST = withWebhookVerification('messaging', async (request: Request) => {
+      handled.push(await request.json());
+      return new Response('ok');
+    });
+
+    const body = JSON.stringify({ message_id: `wrapped-${Date.now()}` });
+    const forged = await POST(new Request('http://localhost/api/a1base/messaging', { method: 'POST', body }));
+    assert.equal(forged.status, 403);
+    assert.equal(handled.length, 0);
+
+    const signed = await POST(
+      new Request('http://localhost/api/a1base/messaging', {
+        method: 'POST',
+        body,
+        headers: signedHeaders(body, 'api-secret'),
+      })
+    );
+    assert.equal(signed.status, 200);
+    assert.deepEqual(handled, [JSON.parse(body)]);
+  });
+});
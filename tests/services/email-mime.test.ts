@@ -0,0 +1,193 @@
+/**
+ * Tests for email MIME parsing: headers and encoded words, multipart bodies
+ * in different transfer encodings and charsets, attachments, HTML-only
+ * emails and stripping quoted history and signatures from replies
+ * Run with: npm test
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  decodeEncodedWords,
+  htmlToText,
+  parseAddressList,
+  parseEmail,
+  stripQuotedReply,
+} from '../../lib/services/email-mime';
+
+const crlf = (lines: string[]) => lines.join('\r\n');
+
+const REPLY_WITH_ATTACHMENT = crlf([
+  'From: =?UTF-8?Q?Ren=C3=A9e_Dubois?= <Renee@Example.com>',
+  'To: agent@a1send.com, "Ops, Team" <ops@example.com>',
+  'Cc: bob@example.com',
+  'Subject: =?UTF-8?B?UmU6IENhZsOpIG9yZGVy?=',
+  'Date: Sat, 17 Oct 2026 09:30:00 +0200',
+  'Message-ID: <reply-2@mail.example.com>',
+  'In-Reply-To: <first-1@mail.example.com>',
+  'References: <first-1@mail.example.com>',
+  '  <agent-1@a1send.com>',
+  'MIME-Version: 1.0',
+  'Content-Type: multipart/mixed; boundary="outer"',
+  '',
+  'This is a multi-part message in MIME format.',
+  '--outer',
+  'Content-Type: multipart/alternative; boundary=inner',
+  '',
+  '--inner',
+  'Content-Type: text/plain; charset=iso-8859-1',
+  'Content-Transfer-Encoding: quoted-printable',
+  '',
+  'Yes please, two caf=E9s for Friday. Can we make it a long=',
+  ' table?',
+  '',
+  'On Fri, 16 Oct 2026 at 18:00, Agent <agent@a1send.com> wrote:',
+  '> Would you like the usual order?',
+  '--inner',
+  'Content-Type: text/html; charset=utf-8',
+  'Content-Transfer-Encoding: base64',
+  '',
+  Buffer.from('<p>Yes please, two cafés for Friday.</p>').toString('base64'),
+  '--inner--',
+  '',
+  '--outer',
+  'Content-Type: application/pdf; name="menu.pdf"',
+  "Content-Disposition: attachment; filename*=UTF-8''men%C3%BC%202026.pdf",
+  'Content-Transfer-Encoding: base64',
+  '',
+  Buffer.from('%PDF-1.7 menu').toString('base64'),
+  '--outer',
+  'Content-Type: image/png',
+  'Content-ID: <logo@example.com>',
+  'Content-Transfer-Encoding: base64',
+  '',
+  Buffer.from([0x89, 0x50, 0x4e, 0x47]).toString('base64'),
+  '--outer--',
+  '',
+]);
+
+describe('parseEmail', () => {
+  it('reads headers, the text body and attachments of a multipart email', () => {
+    const email = parseEmail(REPLY_WITH_ATTACHMENT);
+
+    assert.equal(email.subject, 'Re: Café order');
+    assert.deepEqual(email.from, { name: 'Renée Dubois', address: 'renee@example.com' });
+    assert.deepEqual(email.to.map((to) => to.address), ['agent@a1send.com', 'ops@example.com']);
+    assert.equal(email.to[1].name, 'Ops, Team');
+    assert.deepEqual(email.cc, [{ name: null, address: 'bob@example.com' }]);
+    assert.equal(email.date, '2026-10-17T07:30:00.000Z');
+    assert.equal(email.messageId, 'reply-2@mail.example.com');
+    assert.equal(email.inReplyTo, 'first-1@mail.example.com');
+    assert.deepEqual(email.references, ['first-1@mail.example.com', 'agent-1@a1send.com']);
+    assert.equal(email.headers['mime-version'], '1.0');
+
+    assert.match(email.text, /^Yes please, two cafés for Friday\. Can we make it a long table\?/);
+    assert.match(email.text, /> Would you like the usual order\?$/);
+    assert.equal(email.html, '<p>Yes please, two cafés for Friday.</p>');
+
+    assert.equal(email.attachments.length, 2);
+    const [menu, logo] = email.attachments;
+    assert.equal(menu.filename, 'menü 2026.pdf');
+    assert.equal(menu.contentType, 'application/pdf');
+    assert.equal(menu.content.toString(), '%PDF-1.7 menu');
+    assert.equal(menu.inline, false);
+    assert.equal(logo.contentId, 'logo@example.com');
+    assert.equal(logo.inline, true);
+    assert.deepEqual([...logo.content], [0x89, 0x50, 0x4e, 0x47]);
+  });
+
+  it('turns HTML-only emails into text', () => {
+    const email = parseEmail(crlf([
+      'From: ada@example.com',
+      'Subject: Agenda',
+      'Content-Type: text/html; charset="windows-1252"',
+      'Content-Transfer-Encoding: quoted-printable',
+      '',
+      '<html><head><style>p { color: red }</style></head><body>',
+      '<p>Agenda for Monday =96 please review:</p><ul><li>Budget</li><li>Hiring &amp; onboarding</li></ul>',
+      '</body></html>',
+    ]));
+
+    assert.equal(email.text, 'Agenda for Monday – please review:\n\n- Budget\n- Hiring & onboarding');
+    assert.ok(email.html?.includes('<li>Budget</li>'));
+  });
+
+  it('reads simple emails and text without headers', () => {
+    const simple = parseEmail('From: ada@example.com\nSubject: Hi\n\nSee you at eight.\n.\n');
+    assert.equal(simple.text, 'See you at eight.');
+    assert.equal(simple.subject, 'Hi');
+    assert.equal(simple.messageId, null);
+    assert.deepEqual(simple.attachments, []);
+
+    assert.equal(parseEmail('Just a plain note').text, 'Just a plain note');
+    assert.equal(parseEmail('').text, '');
+  });
+
+  it('keeps forwarded emails as attachments', () => {
+    const email = parseEmail(crlf([
+      'Subject: Fwd: invoice',
+      'Content-Type: multipart/mixed; boundary=b1',
+      '',
+      '--b1',
+      'Content-Type: text/plain',
+      '',
+      'See below',
+      '--b1',
+      'Content-Type: message/rfc822',
+      '',
+      'Subject: Invoice 42',
+      '',
+      'Amount due: $120',
+      '--b1--',
+    ]));
+
+    assert.equal(email.text, 'See below');
+    assert.equal(email.attachments[0].filename, 'forwarded-message.eml');
+    assert.match(email.attachments[0].content.toString(), /Amount due: \$120/);
+  });
+});
+
+describe('header helpers', () => {
+  it('decodes encoded words, joining adjacent ones', () => {
+    assert.equal(decodeEncodedWords('=?utf-8?q?Caf=C3=A9?= =?utf-8?q?_au_lait?='), 'Café au lait');
+    assert.equal(decodeEncodedWords('=?ISO-8859-1?Q?J=F6rg?= Schmidt'), 'Jörg Schmidt');
+    assert.equal(decodeEncodedWords('Plain subject'), 'Plain subject');
+  });
+
+  it('reads address lists', () => {
+    assert.deepEqual(parseAddressList('"Smith, Jo" <JO@example.com>, sam@example.com, undisclosed-recipients:;'), [
+      { name: 'Smith, Jo', address: 'jo@example.com' },
+      { name: null, address: 'sam@example.com' },
+    ]);
+  });
+
+  it('decodes HTML entities', () => {
+    assert.equal(htmlToText('<div>5 &lt; 6 &#8212; &#x1F600;</div>'), '5 < 6 — 😀');
+  });
+});
+
+describe('stripQuotedReply', () => {
+  it('drops Gmail-style quoted history', () => {
+    const reply = 'Thursday works for me.\n\nOn Tue, 13 Oct 2026 at 10:02, Agent\n<agent@a1send.com> wrote:\n> Does Thursday work?\n> Thanks';
+    assert.equal(stripQuotedReply(reply), 'Thursday works for me.');
+  });
+
+  it('drops Outlook headers and separators', () => {
+    assert.equal(
+      stripQuotedReply('Approved.\r\n\r\nFrom: Agent <agent@a1send.com>\r\nSent: Tuesday, October 13, 2026 10:02 AM\r\nTo: Ada\r\nSubject: Budget'),
+      'Approved.'
+    );
+    assert.equal(stripQuotedReply('Approved.\n\n-----Original Message-----\nFrom: Agent'), 'Approved.');
+  });
+
+  it('drops signatures and trailing quotes', () => {
+    assert.equal(stripQuotedReply('Sounds good\n\n-- \nAda Lovelace\nAnalytical Engines Ltd'), 'Sounds good');
+    assert.equal(stripQuotedReply('On my way\n\nSent from my iPhone'), 'On my way');
+    assert.equal(stripQuotedReply('Agreed\n\n> earlier text\n> more'), 'Agreed');
+  });
+
+  it('keeps inline replies and emails that are all quote', () => {
+    assert.equal(stripQuotedReply('> Can you do 3pm?\nYes\n> And Friday?\nNo'), '> Can you do 3pm?\nYes\n> And Friday?\nNo');
+    assert.equal(stripQuotedReply('> only a quote'), '> only a quote');
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Tests for the email outbox: which senders are answered without review,
+ * and approving (with edits), regenerating and discarding drafted replies,
+ * with fake sending and generation and the in-memory adapter
+ * Run with: npm test
+ */
+
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomBytes, randomUUID } from 'crypto';
+import { MemoryAdapter } from '../../lib/database/memory-adapter';
+import {
+  EmailOutboxOptions,
+  approveEmailDraft,
+  canAutoSend,
+  discardEmailDraft,
+  editEmailDraft,
+  emailSettingsSchema,
+  getEmailDraftDetail,
+  queueEmailDraft,
+  regenerateEmailDraft,
+} from '../../lib/services/email-outbox';
+
+process.env.DATA_ENCRYPTION_KEY = randomBytes(32).toString('base64');
+
+type SentEmail = { subject: string; body: string; recipient_address: string };
+
+function fakeOutbox(failures = 0) {
+  const sent: SentEmail[] = [];
+  const prompts: { context: string[]; instructions?: string }[] = [];
+  const options: EmailOutboxOptions = {
+    send: async (email) => {
+      if (failures-- > 0) throw new Error('A1Mail is unavailable');
+      sent.push(email);
+      return 'Email sent successfully';
+    },
+    generate: async (messages, _sender, subject, instructions) => {
+      prompts.push({ context: messages.map((message) => message.content), instructions });
+      return { subject, body: `Shorter reply (${instructions})` };
+    },
+    moderation: { checkers: [] },
+  };
+  return { sent, prompts, options };
+}
+
+// A stored email from a customer and the agent's drafted reply to it
+async function draftReply(adapter: MemoryAdapter) {
+  const threadId = await adapter.createEmailThread({
+    sender_email: 'ada@example.com',
+    recipient_email: 'agent@a1send.com',
+    subject: 'Refund',
+  });
+  const inboundId = await adapter.addEmailMessage({
+    thread_id: threadId!,
+    email_id: `email-${randomUUID()}`,
+    direction: 'inbound',
+    from_address: 'ada@example.com',
+    to_address: 'agent@a1send.com',
+    subject: 'Refund',
+    body_text: 'Can I get a refund for order 42?',
+    message_id_header: 'refund-1@example.com',
+    in_reply_to: 'order-1@example.com',
+    reference_ids: ['order-1@example.com'],
+  });
+  const draftId = await queueEmailDraft(adapter, {
+    threadId: threadId!,
+    to: 'Ada@Example.com',
+    subject: 'Re: Refund',
+    body: 'Dear Ada,\n\nYes, your refund is on its way.',
+    replyTo: { id: inboundId!, message_id_header: 'refund-1@example.com', in_reply_to: null, reference_ids: [] },
+  });
+  return { threadId: threadId!, inboundId: inboundId!, draftId: draftId! };
+}
+
+describe('canAutoSend', () => {
+  it('sends everything in auto mode and only allowlisted senders in draft mode', () => {
+    assert.equal(canAutoSend(emailSettingsSchema.parse({}), 'anyone@example.com'), true);
+
+    const settings = emailSettingsSchema.parse({
+      replyMode: 'draft',
+      autoSendAllowlist: [' CEO@Example.com ', '@partner.org'],
+    });
+    assert.deepEqual(settings.autoSendAllowlist, ['ceo@example.com', '@partner.org']);
+    assert.equal(canAutoSend(settings, 'ceo@example.com'), true);
+    assert.equal(canAutoSend(settings, 'Sam@Partner.org'), true);
+    assert.equal(canAutoSend(settings, 'ada@example.com'), false);
+    assert.equal(canAutoSend(settings, 'sam@notpartner.org'), false);
+  });
+});
+
+describe('email drafts', () => {
+  let adapter: MemoryAdapter;
+
+  before(async () => {
+    process.env.A1BASE_AGENT_EMAIL = 'agent@a1send.com';
+    adapter = new MemoryAdapter();
+    await adapter.init();
+  });
+
+  it('sends an approved draft once, with the reviewer\'s edits, answering the email', async () => {
+    const { threadId, inboundId, draftId } = await draftReply(adapter);
+    const { sent, options } = fakeOutbox();
+
+    const approved = await approveEmailDraft(adapter, draftId, { body: '  Dear Ada,\n\nRefund sent today.  ' }, options);
+    assert.equal(approved?.status, 'sent');
+    assert.deepEqual(sent, [
+      { subject: 'Re: Refund', body: 'Dear Ada,\n\nRefund sent today.', recipient_address: 'ada@example.com' },
+    ]);
+
+    const [inbound, reply] = await adapter.getEmailMessages(threadId);
+    assert.equal(inbound.is_replied, true);
+    assert.equal(reply.id, approved?.sent_message_id);
+    assert.equal(reply.direction, 'outbound');
+    assert.equal(reply.body_text, 'Dear Ada,\n\nRefund sent today.');
+    assert.equal(reply.in_reply_to, 'refund-1@example.com');
+    assert.deepEqual(reply.reference_ids, ['order-1@example.com', 'refund-1@example.com']);
+
+    const stored = await adapter.getEmailDraft(draftId);
+    assert.equal(stored?.status, 'sent');
+    assert.equal(stored?.reply_to_id, inboundId);
+    assert.ok(stored?.reviewed_at);
+
+    assert.equal(await approveEmailDraft(adapter, draftId, {}, options), null);
+    assert.equal(sent.length, 1);
+  });
+
+  it('keeps a draft pending with the error when sending fails', async () => {
+    const { draftId } = await draftReply(adapter);
+    const { sent, options } = fakeOutbox(1);
+
+    assert.equal(await approveEmailDraft(adapter, draftId, {}, options), null);
+    let draft = await adapter.getEmailDraft(draftId);
+    assert.equal(draft?.status, 'pending');
+    assert.equal(draft?.error, 'A1Mail is unavailable');
+
+    assert.equal(await approveEmailDraft(adapter, draftId, { body: '   ' }, options), null);
+    assert.equal((await approveEmailDraft(adapter, draftId, {}, options))?.status, 'sent');
+    draft = await adapter.getEmailDraft(draftId);
+    assert.equal(draft?.error, null);
+    assert.equal(sent.length, 1);
+  });
+
+  it('regenerates drafts from the thread with instructions, and discards them', async () => {
+    const { threadId, draftId } = await draftReply(adapter);
+    const { sent, prompts, options } = fakeOutbox();
+
+    const regenerated = await regenerateEmailDraft(adapter, draftId, ' Make it shorter ', options);
+    assert.equal(regenerated?.body, 'Shorter reply (Make it shorter)');
+    assert.deepEqual(prompts, [
+      { context: ['Subject: Refund\n\nCan I get a refund for order 42?'], instructions: 'Make it shorter' },
+    ]);
+    assert.equal((await adapter.getEmailDraft(draftId))?.instructions, 'Make it shorter');
+
+    assert.equal(await editEmailDraft(adapter, draftId, { subject: 'Your refund', body: '  Refunded.\n' }), true);
+    assert.equal(await editEmailDraft(adapter, draftId, { body: '   ' }), false);
+    assert.equal(await editEmailDraft(adapter, draftId, { subject: ' ' }), false);
+    assert.equal((await adapter.getEmailDraft(draftId))?.body, 'Refunded.');
+    const detail = await getEmailDraftDetail(adapter, draftId);
+    assert.equal(detail?.draft.subject, 'Your refund');
+    assert.equal(detail?.thread?.id, threadId);
+    assert.deepEqual(detail?.emails.map((email) => email.body_text), ['Can I get a refund for order 42?']);
+
+    assert.equal(await discardEmailDraft(adapter, draftId), true);
+    assert.equal((await adapter.getEmailDraft(draftId))?.status, 'discarded');
+    assert.equal(await discardEmailDraft(adapter, draftId), false);
+    assert.equal(await editEmailDraft(adapter, draftId, { body: 'Too late' }), false);
+    assert.equal(await regenerateEmailDraft(adapter, draftId, '', options), null);
+    assert.equal(await approveEmailDraft(adapter, draftId, {}, options), null);
+    assert.deepEqual(sent, []);
+  });
+});
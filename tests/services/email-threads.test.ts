@@ -0,0 +1,158 @@
+/**
+ * Tests for email threading: matching replies to threads by Message-ID
+ * headers, falling back to the subject between the same addresses, and
+ * keeping attachments in media storage, with the in-memory adapter
+ * Run with: npm test
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { randomBytes, randomUUID } from 'crypto';
+import { MemoryAdapter } from '../../lib/database/memory-adapter';
+import { createLocalMediaStorage, parseMediaReference } from '../../lib/storage/media-storage';
+import {
+  emailReferenceIds,
+  findOrCreateEmailThread,
+  normalizeEmailSubject,
+  saveEmailAttachments,
+} from '../../lib/services/email-threads';
+
+process.env.DATA_ENCRYPTION_KEY = randomBytes(32).toString('base64');
+
+async function createAdapter() {
+  const adapter = new MemoryAdapter();
+  await adapter.init();
+  return adapter;
+}
+
+describe('normalizeEmailSubject', () => {
+  it('drops reply and forward prefixes', () => {
+    assert.equal(normalizeEmailSubject('Re: RE[2]: Fwd:  Quarterly   report'), 'quarterly report');
+    assert.equal(normalizeEmailSubject('AW: Termin'), 'termin');
+    assert.equal(normalizeEmailSubject('Regarding the lease'), 'regarding the lease');
+  });
+
+  it('lists the Message-IDs an email answers once each', () => {
+    assert.deepEqual(emailReferenceIds({ inReplyTo: 'b@x', references: ['a@x', 'b@x'] }), ['a@x', 'b@x']);
+    assert.deepEqual(emailReferenceIds({ inReplyTo: null, references: [] }), []);
+  });
+});
+
+describe('findOrCreateEmailThread', () => {
+  it('joins replies to the thread of the email they reference', async () => {
+    const adapter = await createAdapter();
+    const first = await findOrCreateEmailThread(adapter, {
+      from: 'Ada@Example.com',
+      to: 'agent@a1send.com',
+      subject: 'Lease renewal',
+      referenceIds: [],
+    });
+    assert.equal(first?.matchedBy, 'new');
+    await adapter.addEmailMessage({
+      thread_id: first!.threadId,
+      email_id: `email-${randomUUID()}`,
+      direction: 'inbound',
+      from_address: 'ada@example.com',
+      to_address: 'agent@a1send.com',
+      subject: 'Lease renewal',
+      message_id_header: 'lease-1@example.com',
+    });
+
+    // A reply with a new subject still belongs to the thread it references
+    const reply = await findOrCreateEmailThread(adapter, {
+      from: 'ada@example.com',
+      to: 'agent@a1send.com',
+      subject: 'Re: Lease renewal (signed copy)',
+      referenceIds: ['unknown@a1send.com', 'lease-1@example.com'],
+    });
+    assert.deepEqual(reply, { threadId: first!.threadId, matchedBy: 'references' });
+  });
+
+  it('falls back to the subject between the same addresses', async () => {
+    const adapter = await createAdapter();
+    const lease = await findOrCreateEmailThread(adapter, {
+      from: 'ada@example.com',
+      to: 'agent@a1send.com',
+      subject: 'Lease renewal',
+      referenceIds: [],
+    });
+    const boiler = await findOrCreateEmailThread(adapter, {
+      from: 'ada@example.com',
+      to: 'agent@a1send.com',
+      subject: 'Boiler service',
+      referenceIds: [],
+    });
+    assert.notEqual(lease?.threadId, boiler?.threadId);
+
+    // Replies to the agent's emails reference Message-IDs that were never stored
+    const reply = await findOrCreateEmailThread(adapter, {
+      from: 'ada@example.com',
+      to: 'agent@a1send.com',
+      subject: 'RE: lease renewal',
+      referenceIds: ['a1mail-123@a1send.com'],
+    });
+    assert.deepEqual(reply, { threadId: lease!.threadId, matchedBy: 'subject' });
+
+    const otherSender = await findOrCreateEmailThread(adapter, {
+      from: 'bob@example.com',
+      to: 'agent@a1send.com',
+      subject: 'Re: Lease renewal',
+      referenceIds: [],
+    });
+    assert.equal(otherSender?.matchedBy, 'new');
+  });
+});
+
+describe('saveEmailAttachments', () => {
+  let dir: string;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'email-attachments-'));
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keeps attachments in media storage and lists them on the email', async () => {
+    const adapter = await createAdapter();
+    const storage = createLocalMediaStorage(dir);
+    const threadId = await adapter.createEmailThread({
+      sender_email: 'ada@example.com',
+      recipient_email: 'agent@a1send.com',
+      subject: 'Invoice',
+    });
+    const emailId = await adapter.addEmailMessage({
+      thread_id: threadId!,
+      email_id: `email-${randomUUID()}`,
+      direction: 'inbound',
+      from_address: 'ada@example.com',
+      to_address: 'agent@a1send.com',
+      subject: 'Invoice',
+    });
+
+    const saved = await saveEmailAttachments(
+      adapter,
+      emailId!,
+      [
+        { filename: 'Invoice 42.PDF', contentType: 'application/pdf', content: Buffer.from('%PDF-1.7'), contentId: null, inline: false },
+        { filename: 'attachment-2', contentType: 'image/png', content: Buffer.from('png'), contentId: 'logo@x', inline: true },
+        { filename: 'huge.zip', contentType: 'application/zip', content: Buffer.alloc(101 * 1024 * 1024), contentId: null, inline: false },
+      ],
+      { storage, now: new Date('2026-10-18T12:00:00Z') }
+    );
+
+    assert.equal(saved, 3);
+    const [invoice, logo, huge] = await adapter.getEmailAttachments([emailId!]);
+    assert.equal(invoice.filename, 'Invoice 42.PDF');
+    assert.equal(invoice.size_bytes, 8);
+    assert.match(invoice.url || '', /^local:email\/2026\/10\/[0-9a-f-]+\.pdf$/);
+    assert.deepEqual(await storage.get(parseMediaReference(invoice.url!)!.key), Buffer.from('%PDF-1.7'));
+    assert.match(logo.url || '', /\.png$/);
+    assert.equal(logo.content_id, 'logo@x');
+    assert.equal(huge.url, null);
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Tests for describing incoming images and documents: text extraction from
+ * generated PDF and DOCX files, a fake model router, and storing descriptions
+ * with the in-memory adapter
+ * Run with: npm test
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import zlib from 'zlib';
+import { randomUUID } from 'crypto';
+import type { ChatCompletion, ChatCompletionCreateParamsNonStreaming } from 'openai/resources/chat/completions';
+import { MemoryAdapter } from '../../lib/database/memory-adapter';
+import { createZipArchive } from '../../lib/storage/zip-archive';
+import { detectDocumentFormat, extractDocumentText } from '../../lib/services/document-text';
+import {
+  detectImageMimeType,
+  saveMediaUnderstanding,
+  understandMedia,
+} from '../../lib/services/media-understanding';
+import { ModelRouter } from '../../lib/services/model-router';
+
+const PNG = Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), Buffer.alloc(16)]);
+
+function docx(paragraphs: string[]): Buffer {
+  const body = paragraphs.map((text) => `<w:p><w:r><w:t>${text}</w:t></w:r></w:p>`).join('');
+  return createZipArchive([
+    { name: '[Content_Types].xml', data: '<Types/>' },
+    { name: 'word/document.xml', data: `<?xml version="1.0"?><w:document><w:body>${body}</w:body></w:document>` },
+  ]);
+}
+
+/**
+ * A one-page PDF with a compressed content stream
+ */
+function pdf(content: string): Buffer {
+  const stream = zlib.deflateSync(Buffer.from(content));
+  return Buffer.concat([
+    Buffer.from('%PDF-1.4\n1 0 obj\n<< /Type /Page >>\nendobj\n'),
+    Buffer.from(`4 0 obj\n<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`),
+    stream,
+    Buffer.from('\nendstream\nendobj\n%%EOF\n'),
+  ]);
+}
+
+/**
+ * Router whose vision and summary tasks answer with fixed text, recording each request
+ */
+function fakeRouter(reply: string | Error = 'A description') {
+  const requests: { model: string; body: ChatCompletionCreateParamsNonStreaming }[] = [];
+  const router = new ModelRouter({
+    loadSettings: () => ({
+      providers: { local: { baseURL: 'http://localhost:11434/v1' } },
+      tasks: {
+        vision: { primary: 'local:llava', fallbacks: [] },
+        summary: { primary: 'local:llama3', fallbacks: [] },
+      },
+    }),
+    usageStore: null,
+    createCompletionFunction: () => async (body) => {
+      requests.push({ model: body.model, body });
+      if (reply instanceof Error) throw reply;
+      return {
+        id: 'chatcmpl-1',
+        object: 'chat.completion',
+        created: 0,
+        model: body.model,
+        choices: [{ index: 0, finish_reason: 'stop', logprobs: null, message: { role: 'assistant', content: reply, refusal: null } }],
+      } as ChatCompletion;
+    },
+  });
+  return { router, requests };
+}
+
+describe('document text', () => {
+  it('extracts the paragraphs of a DOCX file', () => {
+    const document = extractDocumentText(docx(['Lease agreement', 'Rent: $1,200 &amp; utilities']));
+    assert.equal(document?.format, 'docx');
+    assert.equal(document?.text, 'Lease agreement\nRent: $1,200 & utilities');
+  });
+
+  it('extracts text drawn by PDF content streams', () => {
+    const document = extractDocumentText(
+      pdf('BT /F1 12 Tf 72 712 Td (Invoice #42) Tj 0 -14 Td [(Total) -250 (due:) -250 (\\(USD\\) 99)] TJ ET')
+    );
+    assert.equal(document?.format, 'pdf');
+    assert.equal(document?.text, 'Invoice #42\nTotal due: (USD) 99');
+  });
+
+  it('reads text files and rejects binary ones', () => {
+    assert.equal(extractDocumentText(Buffer.from('name,amount\nAda,3\n'), { filename: 'a.csv' })?.text, 'name,amount\nAda,3');
+    assert.equal(detectDocumentFormat(Buffer.from('plain notes')), 'text');
+    assert.equal(detectDocumentFormat(PNG), null);
+    assert.equal(detectDocumentFormat(createZipArchive([{ name: 'xl/workbook.xml', data: '<workbook/>' }])), null);
+  });
+});
+
+describe('understandMedia', () => {
+  it('sends images to the vision task as a data URL', async () => {
+    const { router, requests } = fakeRouter('A receipt from Cafe Luna for $12.50');
+
+    const result = await understandMedia(
+      { mediaType: 'image', data: PNG.toString('base64'), caption: 'can I expense this?' },
+      { router }
+    );
+
+    assert.equal(result?.description, 'A receipt from Cafe Luna for $12.50');
+    assert.equal(result?.mimeType, 'image/png');
+    assert.equal(result?.model, 'local:llava');
+    const [, user] = requests[0].body.messages;
+    assert.deepEqual(user.content, [
+      { type: 'text', text: 'Caption: can I expense this?' },
+      { type: 'image_url', image_url: { url: `data:image/png;base64,${PNG.toString('base64')}` } },
+    ]);
+  });
+
+  it('summarizes the extracted text of documents', async () => {
+    const { router, requests } = fakeRouter('A lease for $1,200 a month');
+
+    const result = await understandMedia(
+      { mediaType: 'document', data: docx(['Lease agreement', 'Rent: $1,200']).toString('base64'), filename: 'lease.docx' },
+      { router }
+    );
+
+    assert.equal(result?.description, 'A lease for $1,200 a month');
+    assert.equal(result?.format, 'docx');
+    assert.equal(result?.extractedText, 'Lease agreement\nRent: $1,200');
+    assert.equal(requests[0].model, 'llama3');
+    assert.equal(requests[0].body.messages[1].content, 'File: lease.docx\n\nLease agreement\nRent: $1,200');
+  });
+
+  it('skips the model for documents without text and other media', async () => {
+    const { router, requests } = fakeRouter();
+
+    const scanned = await understandMedia(
+      { mediaType: 'document', data: pdf('q 100 0 0 100 0 0 cm /Im1 Do Q').toString('base64') },
+      { router }
+    );
+    assert.match(scanned!.description, /no readable text/);
+    assert.equal(await understandMedia({ mediaType: 'video', data: PNG.toString('base64') }, { router }), null);
+    assert.equal(requests.length, 0);
+  });
+
+  it('returns null when the model fails', async () => {
+    const { router } = fakeRouter(new Error('model does not support images'));
+    assert.equal(await understandMedia({ mediaType: 'image', data: PNG.toString('base64') }, { router }), null);
+  });
+
+  it('detects image types from their first bytes', () => {
+    assert.equal(detectImageMimeType(PNG), 'image/png');
+    assert.equal(detectImageMimeType(Buffer.from([0xff, 0xd8, 0xff, 0xe0])), 'image/jpeg');
+    assert.equal(detectImageMimeType(Buffer.from('GIF89a')), 'image/gif');
+    assert.equal(detectImageMimeType(Buffer.from('not an image')), null);
+  });
+});
+
+describe('saveMediaUnderstanding', () => {
+  it('stores the description in media_files.metadata for later turns', async () => {
+    const adapter = new MemoryAdapter();
+    await adapter.init();
+    const threadId = `thread-${randomUUID()}`;
+    const messageId = `message-${randomUUID()}`;
+    await adapter.processWebhookPayload({
+      thread_id: threadId,
+      message_id: messageId,
+      thread_type: 'individual',
+      sender_number: '+15550001111',
+      sender_name: 'Ada',
+      a1_account_id: 'test-account',
+      timestamp: new Date().toISOString(),
+      service: 'whatsapp',
+      message_type: 'image',
+      is_from_agent: false,
+      message_content: { data: PNG.toString('base64') },
+    });
+    const { router } = fakeRouter('A whiteboard listing three launch tasks');
+    const media = { mediaType: 'image', data: PNG.toString('base64') };
+    const understanding = await understandMedia(media, { router });
+
+    const fileId = await saveMediaUnderstanding(adapter, messageId, media, understanding!);
+
+    assert.ok(fileId);
+    const message = await adapter.getMessageByExternalId(messageId);
+    const [file] = await adapter.getMediaFiles([message!.id]);
+    assert.equal(file.metadata.description, 'A whiteboard listing three launch tasks');
+    assert.equal(file.metadata.model, 'local:llava');
+    const thread = await adapter.getThread(threadId);
+    assert.match(thread!.messages[0].content, /\[Image contents: A whiteboard listing three launch tasks\]/);
+    assert.equal(await saveMediaUnderstanding(adapter, 'unknown-message', media, understanding!), null);
+  });
+});
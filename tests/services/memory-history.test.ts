@@ -0,0 +1,53 @@
+/**
+ * Tests for reverting memory fields to recorded versions, using the in-memory adapter
+ * Run with: npm test
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomUUID } from 'crypto';
+import type { MemoryAdapter } from '../../lib/database/memory-adapter';
+import { revertMemoryField } from '../../lib/agent-memory/memory-history';
+import { createMemoryAdapter, uniquePhoneNumber } from '../database/test-helpers';
+
+describe('revertMemoryField', () => {
+  let adapter: MemoryAdapter;
+
+  before(async () => {
+    adapter = await createMemoryAdapter();
+  });
+
+  after(() => {
+    adapter.close();
+  });
+
+  it('restores the exact value of a list-like field and records the revert', async () => {
+    const userId = (await adapter.getUserFromWebhook(uniquePhoneNumber(), 'Ada', 'whatsapp'))!;
+    await adapter.upsertUserMemoryValue(userId, 'likes', 'tea');
+    await adapter.upsertUserMemoryValue(userId, 'likes', 'coffee');
+
+    const first = (await adapter.getMemoryHistory('user', userId)).find((h) => h.new_value === 'tea')!;
+    const reverted = await revertMemoryField(adapter, first.id);
+
+    assert.equal(reverted?.id, first.id);
+    assert.deepEqual(await adapter.getAllUserMemoryValues(userId), { likes: 'tea' });
+    const latest = (await adapter.getMemoryHistory('user', userId, 'likes'))[0];
+    assert.equal(latest.source, 'revert');
+    assert.deepEqual(latest.metadata, { reverted_to: first.id });
+  });
+
+  it('deletes the field again when reverting to a deletion', async () => {
+    const chatId = (await adapter.getChatFromWebhook(`group-${randomUUID()}`, 'group', 'whatsapp'))!;
+    await adapter.upsertChatThreadMemoryValue(chatId, 'deadline', 'Friday');
+    await adapter.deleteChatMemoryValue(chatId, 'deadline');
+    await adapter.upsertChatThreadMemoryValue(chatId, 'deadline', 'Monday');
+
+    const deletion = (await adapter.getMemoryHistory('chat', chatId)).find((h) => h.new_value === null)!;
+    assert.ok(await revertMemoryField(adapter, deletion.id));
+    assert.deepEqual(await adapter.getAllChatMemoryValues(chatId), {});
+  });
+
+  it('returns null for unknown changes', async () => {
+    assert.equal(await revertMemoryField(adapter, randomUUID()), null);
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Tests for the memory review queue, using the in-memory adapter
+ * Run with: npm test
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomUUID } from 'crypto';
+import type { MemoryAdapter } from '../../lib/database/memory-adapter';
+import {
+  approveMemoryReview,
+  queueMemoryUpdate,
+  rejectMemoryReview,
+  requiresReview,
+} from '../../lib/agent-memory/memory-review';
+import type { AgentMemorySettingsData } from '../../lib/agent-memory/types';
+import { createMemoryAdapter, uniquePhoneNumber } from '../database/test-helpers';
+
+const provenance = { source: 'memory_processor', sourceMessageId: 'msg-1', model: 'openai:gpt-4.1-mini' };
+
+describe('requiresReview', () => {
+  const settings = { memoryApprovalRequired: true } as AgentMemorySettingsData;
+  const field = { id: 'city', title: 'City', description: '' };
+
+  it('only holds back updates when approval is required', () => {
+    assert.equal(requiresReview(null, field, null), false);
+    assert.equal(requiresReview({ ...settings, memoryApprovalRequired: false }, field, null), false);
+    assert.equal(requiresReview(settings, field, null), true);
+  });
+
+  it('follows per-field auto-approve rules', () => {
+    assert.equal(requiresReview(settings, { ...field, autoApprove: 'always' }, 'Paris'), false);
+    assert.equal(requiresReview(settings, { ...field, autoApprove: 'when_empty' }, null), false);
+    assert.equal(requiresReview(settings, { ...field, autoApprove: 'when_empty' }, 'Paris'), true);
+  });
+});
+
+describe('memory review queue', () => {
+  const savedEnv = { ...process.env };
+  let adapter: MemoryAdapter;
+
+  before(async () => {
+    // Approved facts are embedded for long-term memory; keep that offline
+    process.env.OPENAI_API_KEY = '';
+    adapter = await createMemoryAdapter();
+  });
+
+  after(() => {
+    adapter.close();
+    process.env = { ...savedEnv };
+  });
+
+  async function queueCityUpdate(newValue: string) {
+    const phone = uniquePhoneNumber();
+    const userId = (await adapter.getUserFromWebhook(phone, 'Ada', 'whatsapp'))!;
+    await adapter.upsertUserMemoryValue(userId, 'city', 'Paris');
+    const reviewId = await queueMemoryUpdate(
+      adapter,
+      'user',
+      `+${phone}`,
+      { id: 'city', title: 'City', newValue },
+      'Paris',
+      provenance,
+      `I just moved to ${newValue}`
+    );
+    return { userId, reviewId: reviewId! };
+  }
+
+  it('queues updates by phone number without applying them', async () => {
+    const { userId, reviewId } = await queueCityUpdate('Berlin');
+
+    const [review] = await adapter.getMemoryReviews({ status: 'pending', ownerId: userId });
+    assert.equal(review.id, reviewId);
+    assert.deepEqual(
+      [review.scope, review.current_value, review.proposed_value, review.source_message, review.source_message_id],
+      ['user', 'Paris', 'Berlin', 'I just moved to Berlin', 'msg-1']
+    );
+    assert.deepEqual(await adapter.getAllUserMemoryValues(userId), { city: 'Paris' });
+  });
+
+  it('applies approved updates with their provenance', async () => {
+    const { userId, reviewId } = await queueCityUpdate('Berlin');
+
+    const approved = await approveMemoryReview(adapter, reviewId);
+
+    assert.equal(approved?.applied_value, 'Berlin');
+    assert.deepEqual(await adapter.getAllUserMemoryValues(userId), { city: 'Berlin' });
+    const [change] = await adapter.getMemoryHistory('user', userId, 'city');
+    assert.deepEqual([change.source, change.source_message_id, change.model], ['memory_review', 'msg-1', provenance.model]);
+    assert.equal((await adapter.getMemoryReview(reviewId))?.status, 'approved');
+    assert.equal(await approveMemoryReview(adapter, reviewId), null);
+  });
+
+  it('saves the edited value instead of the proposed one', async () => {
+    const { userId, reviewId } = await queueCityUpdate('Berlin');
+
+    assert.equal(await approveMemoryReview(adapter, reviewId, '  '), null);
+    const approved = await approveMemoryReview(adapter, reviewId, 'Berlin, Germany');
+
+    assert.equal(approved?.applied_value, 'Berlin, Germany');
+    assert.deepEqual(await adapter.getAllUserMemoryValues(userId), { city: 'Berlin, Germany' });
+    assert.deepEqual((await adapter.getMemoryHistory('user', userId, 'city'))[0].metadata, {
+      review_id: reviewId,
+      edited: true,
+    });
+  });
+
+  it('leaves memory unchanged when rejected', async () => {
+    const { userId, reviewId } = await queueCityUpdate('Berlin');
+
+    assert.equal(await rejectMemoryReview(adapter, reviewId), true);
+    assert.equal(await rejectMemoryReview(adapter, reviewId), false);
+    assert.equal(await approveMemoryReview(adapter, reviewId), null);
+    assert.deepEqual(await adapter.getAllUserMemoryValues(userId), { city: 'Paris' });
+    assert.deepEqual(await adapter.getMemoryReviews({ status: 'pending', ownerId: userId }), []);
+  });
+
+  it('does not queue updates for unknown users', async () => {
+    const reviewId = await queueMemoryUpdate(
+      adapter,
+      'user',
+      randomUUID(),
+      { id: 'city', title: 'City', newValue: 'Rome' },
+      null,
+      provenance,
+      'Rome'
+    );
+    assert.equal(reviewId, null);
+  });
+});
@@ -0,0 +1,277 @@
+/**
+ * Tests for per-task model routing, failover, usage recording and chat budgets,
+ * using fake completion functions and an in-memory usage store
+ * Run with: npm test
+ */
+
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ChatCompletion } from 'openai/resources/chat/completions';
+import type { ModelUsageRecord } from '../../lib/interfaces/database-adapter';
+import { ModelUsageStore, summarizeModelUsage } from '../../lib/services/model-usage';
+import {
+  ChatBudget,
+  CompletionFunction,
+  ModelBudgetExceededError,
+  ModelRouter,
+  ModelRoutingError,
+  ModelSettings,
+  ResolvedProvider,
+  formatModelRef,
+  getTaskModelChain,
+  parseModelRef,
+  resolveProvider,
+} from '../../lib/services/model-router';
+
+function completion(content: string): ChatCompletion {
+  return {
+    id: 'chatcmpl-1',
+    object: 'chat.completion',
+    created: 0,
+    model: 'fake',
+    choices: [
+      { index: 0, finish_reason: 'stop', logprobs: null, message: { role: 'assistant', content, refusal: null } },
+    ],
+    usage: { prompt_tokens: 1000, completion_tokens: 500, total_tokens: 1500 },
+  };
+}
+
+function memoryUsageStore(existing: ModelUsageRecord[] = []) {
+  const records = [...existing];
+  const store: ModelUsageStore = {
+    async record(usage) {
+      records.push({ id: `usage-${records.length}`, created_at: new Date().toISOString(), ...usage });
+    },
+    async list(filter) {
+      return records.filter(
+        (r) => (!filter.chatId || r.chat_id === filter.chatId) && (!filter.since || r.created_at >= filter.since)
+      );
+    },
+  };
+  return { store, records };
+}
+
+/**
+ * Router whose providers answer from a map of "provider:model" to behaviour
+ */
+function fakeRouter(
+  settings: ModelSettings,
+  behaviour: Record<string, 'ok' | 'fail' | 'hang'>,
+  usageStore: ModelUsageStore | null = null
+) {
+  const calls: string[] = [];
+  const providers: ResolvedProvider[] = [];
+  const router = new ModelRouter({
+    loadSettings: () => settings,
+    usageStore,
+    createCompletionFunction: (provider): CompletionFunction => {
+      providers.push(provider);
+      return async (body, { signal }) => {
+        const ref = `${provider.name}:${body.model}`;
+        calls.push(ref);
+        if (behaviour[ref] === 'fail') throw new Error('503 Service Unavailable');
+        if (behaviour[ref] === 'hang') {
+          return new Promise((_, reject) => signal.addEventListener('abort', () => reject(new Error('aborted'))));
+        }
+        return completion(`from ${ref}`);
+      };
+    },
+  });
+  return { router, calls, providers };
+}
+
+const messages = [{ role: 'user' as const, content: 'hi' }];
+
+describe('model routing', () => {
+  const savedEnv = { ...process.env };
+
+  beforeEach(() => {
+    process.env.OPENAI_API_KEY = 'sk-test';
+    process.env.ANTHROPIC_API_KEY = 'sk-ant-test';
+    delete process.env.XAI_API_KEY;
+    delete process.env.SELECTED_MODEL_PROVIDER;
+  });
+
+  afterEach(() => {
+    process.env = { ...savedEnv };
+  });
+
+  it('parses provider:model refs, keeping colons in model names', () => {
+    assert.deepEqual(parseModelRef('local:llama3.1:8b'), { provider: 'local', model: 'llama3.1:8b' });
+    assert.deepEqual(parseModelRef('gpt-4.1'), { provider: 'openai', model: 'gpt-4.1' });
+  });
+
+  it('defaults every task to the selected provider, then OpenAI', () => {
+    const chain = getTaskModelChain({ selectedModelProvider: 'grok' }, 'memory');
+    assert.deepEqual(chain.map(formatModelRef), ['grok:grok-3', 'openai:gpt-4.1']);
+    assert.deepEqual(getTaskModelChain({}, 'triage').map(formatModelRef), ['openai:gpt-4.1']);
+  });
+
+  it('uses the task route and fails over in order', async () => {
+    const { router, calls } = fakeRouter(
+      {
+        tasks: {
+          triage: { primary: 'openai:gpt-4.1', fallbacks: ['anthropic:claude-sonnet-4-0', 'openai:gpt-4.1-mini'] },
+        },
+      },
+      { 'openai:gpt-4.1': 'fail' }
+    );
+
+    const { completion, model } = await router.createChatCompletion('triage', { messages });
+    assert.equal(completion.choices[0].message.content, 'from anthropic:claude-sonnet-4-0');
+    assert.deepEqual(model, { provider: 'anthropic', model: 'claude-sonnet-4-0' });
+    assert.deepEqual(calls, ['openai:gpt-4.1', 'anthropic:claude-sonnet-4-0']);
+  });
+
+  it('fails over when a model times out', async () => {
+    const { router, calls } = fakeRouter(
+      { tasks: { reply: { primary: 'openai:gpt-4.1', fallbacks: ['openai:gpt-4.1-mini'], timeoutMs: 20 } } },
+      { 'openai:gpt-4.1': 'hang' }
+    );
+
+    const { model } = await router.createChatCompletion('reply', { messages });
+    assert.equal(model.model, 'gpt-4.1-mini');
+    assert.deepEqual(calls, ['openai:gpt-4.1', 'openai:gpt-4.1-mini']);
+  });
+
+  it('skips providers without an API key and reports every attempt', async () => {
+    const { router, calls } = fakeRouter(
+      { tasks: { email: { primary: 'grok:grok-3', fallbacks: ['openai:gpt-4.1'] } } },
+      { 'openai:gpt-4.1': 'fail' }
+    );
+
+    await assert.rejects(router.createChatCompletion('email', { messages }), (error: unknown) => {
+      assert.ok(error instanceof ModelRoutingError);
+      assert.deepEqual(error.attempts, [
+        { model: 'grok:grok-3', error: 'provider not configured' },
+        { model: 'openai:gpt-4.1', error: '503 Service Unavailable' },
+      ]);
+      return true;
+    });
+    assert.deepEqual(calls, ['openai:gpt-4.1']);
+  });
+
+  it('calls OpenAI-compatible local servers by base URL without a key', async () => {
+    const settings: ModelSettings = {
+      providers: { local: { baseURL: 'http://localhost:11434/v1' } },
+      tasks: { summary: { primary: 'local:llama3.1:8b', fallbacks: [] } },
+    };
+    assert.deepEqual(resolveProvider(settings, 'local'), { name: 'local', baseURL: 'http://localhost:11434/v1' });
+    assert.equal(resolveProvider(settings, 'unknown'), null);
+
+    const { router, providers } = fakeRouter(settings, {});
+    const { completion } = await router.createChatCompletion('summary', { messages });
+    assert.equal(completion.choices[0].message.content, 'from local:llama3.1:8b');
+    assert.equal(providers[0].baseURL, 'http://localhost:11434/v1');
+  });
+
+  describe('usage and budgets', () => {
+    const budget = (overrides: Partial<ChatBudget>): ChatBudget => ({
+      limitUsd: 1,
+      period: 'month',
+      action: 'downgrade',
+      downgradeModel: 'openai:gpt-4.1-mini',
+      maxCallsPerHour: 0,
+      ...overrides,
+    });
+
+    const spent = (chatId: string, costUsd: number): ModelUsageRecord => ({
+      id: 'spent',
+      created_at: new Date().toISOString(),
+      task: 'reply',
+      model: 'openai:gpt-4.1',
+      chat_id: chatId,
+      user_id: null,
+      prompt_tokens: 0,
+      completion_tokens: 0,
+      total_tokens: 0,
+      cost_usd: costUsd,
+    });
+
+    it('records tokens and cost against the chat and user', async () => {
+      const { store, records } = memoryUsageStore();
+      const { router } = fakeRouter({}, {}, store);
+
+      await router.createChatCompletion('reply', { messages }, { chatId: 'thread-1', userId: '+15550001' });
+
+      assert.equal(records.length, 1);
+      assert.equal(records[0].model, 'openai:gpt-4.1');
+      assert.equal(records[0].chat_id, 'thread-1');
+      assert.equal(records[0].user_id, '+15550001');
+      assert.equal(records[0].total_tokens, 1500);
+      // 1000 prompt tokens at $2/M + 500 completion tokens at $8/M
+      assert.equal(records[0].cost_usd, 0.006);
+    });
+
+    it('downgrades chats that are over budget', async () => {
+      const { store } = memoryUsageStore([spent('thread-1', 1.5)]);
+      const { router, calls } = fakeRouter(
+        { budgets: { chats: { 'thread-1': budget({ action: 'downgrade' }) } } },
+        {},
+        store
+      );
+
+      await router.createChatCompletion('reply', { messages }, { chatId: 'thread-1' });
+      await router.createChatCompletion('reply', { messages }, { chatId: 'thread-2' });
+      assert.deepEqual(calls, ['openai:gpt-4.1-mini', 'openai:gpt-4.1']);
+    });
+
+    it('throttles chats over budget to their hourly allowance', async () => {
+      const { store } = memoryUsageStore([spent('thread-1', 0.5), spent('thread-1', 0.6)]);
+      const settings: ModelSettings = {
+        budgets: { defaultChat: budget({ action: 'throttle', maxCallsPerHour: 3 }) },
+      };
+      const { router, calls } = fakeRouter(settings, {}, store);
+
+      await router.createChatCompletion('triage', { messages }, { chatId: 'thread-1' });
+      await assert.rejects(
+        router.createChatCompletion('triage', { messages }, { chatId: 'thread-1' }),
+        ModelBudgetExceededError
+      );
+      assert.equal(calls.length, 1);
+    });
+
+    it('applies budgets to streamed replies and records their usage', async () => {
+      const { store, records } = memoryUsageStore([spent('thread-1', 1.5)]);
+      const { router } = fakeRouter(
+        { budgets: { chats: { 'thread-1': budget({ action: 'downgrade' }) } } },
+        {},
+        store
+      );
+
+      const selected = await router.selectBudgetedModel('reply', { chatId: 'thread-1' });
+      assert.equal(selected?.model.model, 'gpt-4.1-mini');
+      assert.equal((await router.selectBudgetedModel('reply', { chatId: 'thread-2' }))?.model.model, 'gpt-4.1');
+
+      const context = { chatId: 'thread-1', userId: 'web' };
+      await router.recordStreamUsage('reply', selected!.model, { promptTokens: 1000, completionTokens: 500 }, context);
+      await router.recordStreamUsage('reply', selected!.model, { promptTokens: NaN, completionTokens: NaN }, context);
+      assert.equal(records.length, 2);
+      assert.equal(records[1].model, 'openai:gpt-4.1-mini');
+      assert.equal(records[1].user_id, 'web');
+      assert.equal(records[1].total_tokens, 1500);
+      // 1000 prompt tokens at $0.4/M + 500 completion tokens at $1.6/M
+      assert.equal(records[1].cost_usd, 0.0012);
+    });
+
+    it('summarizes spend by day, task and chat, pricing records stored without a cost', () => {
+      const summary = summarizeModelUsage({ pricing: { 'local:llama3.1:8b': { input: 1, output: 1 } } }, [
+        { ...spent('thread-1', 0.25), created_at: '2026-10-01T10:00:00.000Z' },
+        { ...spent('thread-2', 0.5), created_at: '2026-10-02T10:00:00.000Z', task: 'triage' },
+        {
+          ...spent('thread-2', 0),
+          created_at: '2026-10-02T11:00:00.000Z',
+          model: 'local:llama3.1:8b',
+          prompt_tokens: 500_000,
+          completion_tokens: 500_000,
+          cost_usd: null,
+        },
+      ]);
+
+      assert.equal(summary.totals.costUsd, 1.75);
+      assert.deepEqual(summary.daily.map((d) => [d.date, d.costUsd]), [['2026-10-01', 0.25], ['2026-10-02', 1.5]]);
+      assert.equal(summary.byTask.triage.calls, 1);
+      assert.deepEqual(summary.byChat.map((c) => c.chatId), ['thread-2', 'thread-1']);
+    });
+  });
+});
@@ -0,0 +1,297 @@
+/**
+ * Tests for the moderation pipeline and its built-in checkers, with settings
+ * passed in, an in-memory log store and a fake model for the classifier
+ * Run with: npm test
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ChatCompletion } from 'openai/resources/chat/completions';
+import type { TextStreamPart, ToolSet } from 'ai';
+import defaultSafetySettings, { SafetySettings } from '../../lib/safety-config/safety-settings';
+import {
+  ModerationChecker,
+  ModerationContext,
+  ModerationLogEntry,
+  ModerationOptions,
+  createModerationTransform,
+  getModerationCheckers,
+  moderateMessage,
+  moderationSettingsSchema,
+  resolveModerationAction,
+} from '../../lib/safety-config/moderation';
+import {
+  createClassifierChecker,
+  createPiiChecker,
+  createProfanityChecker,
+} from '../../lib/safety-config/moderation-checkers';
+import { ModelRouter } from '../../lib/services/model-router';
+
+const inbound: ModerationContext = { direction: 'inbound', service: 'whatsapp', threadId: 'thread-1', messageId: 'msg-1' };
+const outbound: ModerationContext = { ...inbound, direction: 'outbound' };
+
+function withSafety(changes: Partial<SafetySettings>): SafetySettings {
+  return { ...defaultSafetySettings, ...changes };
+}
+
+/**
+ * Options with the given settings that record log entries and escalations in memory
+ */
+function testOptions(settings: object = {}, options: ModerationOptions = {}) {
+  const logged: ModerationLogEntry[] = [];
+  const escalated: string[] = [];
+  return {
+    logged,
+    escalated,
+    options: {
+      settings: moderationSettingsSchema.parse(settings),
+      logStore: { record: async (entry: ModerationLogEntry) => void logged.push(entry) },
+      escalate: async (text: string) => void escalated.push(text),
+      ...options,
+    },
+  };
+}
+
+function fakeModerationRouter(content: string) {
+  return new ModelRouter({
+    loadSettings: () => ({
+      providers: { local: { baseURL: 'http://localhost:11434/v1' } },
+      tasks: { moderation: { primary: 'local:guard', fallbacks: [] } },
+    }),
+    usageStore: null,
+    createCompletionFunction: () => async () =>
+      ({
+        id: 'chatcmpl-1',
+        object: 'chat.completion',
+        created: 0,
+        model: 'guard',
+        choices: [{ index: 0, finish_reason: 'stop', logprobs: null, message: { role: 'assistant', content, refusal: null } }],
+      }) as ChatCompletion,
+  });
+}
+
+describe('moderation checkers', () => {
+  it('flags profanity with suffixes, extra words and patterns', async () => {
+    const checker = createProfanityChecker(['frak'], ['b+oo+m']);
+
+    const [finding] = await checker.check('This is shitty, frakking hell, boooom', inbound);
+    assert.deepEqual(finding.matches, ['shitty', 'frakking', 'boooom']);
+    assert.equal(checker.rewrite!('This is shitty', [finding]), 'This is s*****');
+    assert.deepEqual(await checker.check('Scunthorpe is a town', inbound), []);
+  });
+
+  it('finds and redacts personal data', async () => {
+    const checker = createPiiChecker();
+    const text = 'Mail ada@example.com or call +1 (555) 123-4567. Card 4242 4242 4242 4242, SSN 123-45-6789, order 2024-01-15';
+
+    const findings = await checker.check(text, inbound);
+    assert.deepEqual(
+      findings.map((f) => [f.label, f.matches]),
+      [
+        ['email', ['ada@example.com']],
+        ['card', ['4242 4242 4242 4242']],
+        ['ssn', ['123-45-6789']],
+        ['phone', ['+1 (555) 123-4567']],
+      ]
+    );
+    assert.equal(
+      checker.rewrite!(text, findings),
+      'Mail [email] or call [phone number]. Card [card number], SSN [SSN], order 2024-01-15'
+    );
+    // Not a valid card number
+    assert.deepEqual(await checker.check('Ref 1234 5678 9012 3456', inbound), []);
+  });
+
+  it('enables checkers from the safety settings', () => {
+    const settings = moderationSettingsSchema.parse({});
+    const names = (safety: SafetySettings) => getModerationCheckers(safety, settings).map((c) => c.name);
+
+    assert.deepEqual(names(defaultSafetySettings), ['pii', 'profanity', 'slang']);
+    assert.deepEqual(
+      names(
+        withSafety({
+          profanityFilter: { allowProfanity: true },
+          languageGuidelines: { avoidSlang: false },
+          responsePolicies: { avoidDisallowedContent: false, disallowedContentCategories: [] },
+        })
+      ),
+      []
+    );
+  });
+});
+
+describe('moderation actions', () => {
+  it('follows the safety settings unless configured', () => {
+    const settings = moderationSettingsSchema.parse({ actions: { profanity: 'block', violence: { inbound: 'escalate' } } });
+
+    assert.equal(resolveModerationAction(defaultSafetySettings, settings, 'profanity', 'inbound'), 'block');
+    assert.equal(resolveModerationAction(defaultSafetySettings, settings, 'violence', 'inbound'), 'escalate');
+    assert.equal(resolveModerationAction(defaultSafetySettings, settings, 'violence', 'outbound'), 'block');
+    assert.equal(resolveModerationAction(defaultSafetySettings, settings, 'selfHarm', 'inbound'), 'escalate');
+    assert.equal(resolveModerationAction(defaultSafetySettings, settings, 'personalData', 'inbound'), 'allow');
+
+    const doNotCollect = withSafety({ dataSensitivity: { handleCustomerData: 'storeFull', piiHandling: 'doNotCollect' } });
+    assert.equal(resolveModerationAction(doNotCollect, settings, 'personalData', 'inbound'), 'rewrite');
+  });
+});
+
+describe('moderateMessage', () => {
+  const safety = withSafety({ dataSensitivity: { handleCustomerData: 'storeFull', piiHandling: 'anonymize' } });
+
+  it('lets clean messages through without logging them', async () => {
+    const { options, logged } = testOptions();
+
+    const result = await moderateMessage('Hello, how are you?', inbound, { ...options, safety });
+
+    assert.deepEqual(result, { action: 'allow', text: 'Hello, how are you?', findings: [], blocked: false });
+    assert.deepEqual(logged, []);
+  });
+
+  it('rewrites replies and logs personal data masked', async () => {
+    const { options, logged } = testOptions();
+
+    const result = await moderateMessage('Sure, email shit@example.com', outbound, { ...options, safety });
+
+    assert.equal(result.action, 'rewrite');
+    assert.equal(result.text, 'Sure, email [email]');
+    assert.equal(logged.length, 1);
+    assert.deepEqual(logged[0].categories, ['personalData', 'profanity']);
+    assert.deepEqual(logged[0].findings.find((f) => f.label === 'email')?.matches, ['s***************']);
+    assert.equal(logged[0].thread_id, 'thread-1');
+  });
+
+  it('blocks with the configured reply', async () => {
+    const { options } = testOptions({ actions: { profanity: 'block' }, blockedReply: 'Please keep it civil.' });
+
+    const result = await moderateMessage('What the fuck', inbound, { ...options, safety });
+
+    assert.equal(result.blocked, true);
+    assert.equal(result.reply, 'Please keep it civil.');
+  });
+
+  it('blocks findings that should be rewritten when their checker cannot rewrite', async () => {
+    const checker: ModerationChecker = { name: 'spam', check: () => [{ checker: 'spam', category: 'spam' }] };
+    const { options } = testOptions({ actions: { spam: 'rewrite' } }, { checkers: [checker] });
+
+    assert.equal((await moderateMessage('Buy now', inbound, { ...options, safety })).action, 'block');
+  });
+
+  it('escalates and skips checkers that fail or do not apply', async () => {
+    const failing: ModerationChecker = {
+      name: 'failing',
+      check: () => {
+        throw new Error('offline');
+      },
+    };
+    const outboundOnly: ModerationChecker = {
+      name: 'outbound-only',
+      directions: ['outbound'],
+      check: () => [{ checker: 'outbound-only', category: 'violence' }],
+    };
+    const selfHarm: ModerationChecker = {
+      name: 'self-harm',
+      check: (text) => (text.includes('hurt myself') ? [{ checker: 'self-harm', category: 'selfHarm' }] : []),
+    };
+    const { options, escalated } = testOptions({}, { checkers: [failing, outboundOnly, selfHarm] });
+
+    assert.equal((await moderateMessage('Nice weather', inbound, { ...options, safety })).action, 'allow');
+    const result = await moderateMessage('I want to hurt myself', inbound, { ...options, safety });
+
+    assert.equal(result.action, 'escalate');
+    assert.equal(result.reply, moderationSettingsSchema.parse({}).escalatedReply);
+    assert.deepEqual(escalated, ['I want to hurt myself']);
+  });
+
+  it('does nothing when moderation is off for the direction', async () => {
+    const { options, logged } = testOptions({ inbound: false });
+
+    assert.equal((await moderateMessage('What the fuck', inbound, { ...options, safety })).action, 'allow');
+    assert.deepEqual(logged, []);
+  });
+});
+
+describe('createModerationTransform', () => {
+  /**
+   * Stream the text deltas through the transform, then a step end, and
+   * return the text deltas that come out
+   */
+  async function streamThrough(deltas: string[], options: ModerationOptions): Promise<string[]> {
+    const parts: TextStreamPart<ToolSet>[] = [
+      ...deltas.map((textDelta) => ({ type: 'text-delta' as const, textDelta })),
+      { type: 'reasoning', textDelta: '' },
+    ];
+    const transform = createModerationTransform<ToolSet>({ service: 'web-ui', threadId: 'thread-1' }, options)({
+      tools: {},
+      stopStream: () => {},
+    });
+    const output: string[] = [];
+    const input = new ReadableStream<TextStreamPart<ToolSet>>({
+      start(controller) {
+        parts.forEach((part) => controller.enqueue(part));
+        controller.close();
+      },
+    });
+    const reader = input.pipeThrough(transform).getReader();
+    for (let part = await reader.read(); !part.done; part = await reader.read()) {
+      if (part.value.type === 'text-delta') output.push(part.value.textDelta);
+    }
+    return output;
+  }
+
+  const reply = ['Sure', ', I can ', 'help. This', ' is shitty', ' news though.', ' Mail me', ' at ada@example.com'];
+
+  it('moderates each sentence as it streams', async () => {
+    const { options, logged } = testOptions();
+
+    const output = await streamThrough(reply, { ...options, safety: defaultSafetySettings });
+
+    assert.deepEqual(output, ['Sure, I can help. ', 'This is s***** news though. ', 'Mail me at ada@example.com']);
+    assert.deepEqual(logged.map((entry) => entry.categories), [['profanity'], ['personalData']]);
+  });
+
+  it('passes deltas straight through when no checker can rewrite or block', async () => {
+    const { options, logged } = testOptions({ actions: { profanity: 'warn' } });
+
+    const output = await streamThrough(reply, { ...options, safety: defaultSafetySettings });
+
+    assert.deepEqual(output, reply);
+    assert.deepEqual(logged.map((entry) => entry.categories), [['personalData', 'profanity']]);
+  });
+
+  it('drops the rest of the reply after a blocked sentence', async () => {
+    const { options } = testOptions({ actions: { profanity: 'block' }, blockedReply: 'Please keep it civil.' });
+
+    const output = await streamThrough(reply, { ...options, safety: defaultSafetySettings });
+
+    assert.deepEqual(output, ['Sure, I can help. ', 'Please keep it civil.']);
+  });
+});
+
+describe('classifier checker', () => {
+  it('reports categories above the minimum confidence', async () => {
+    const router = fakeModerationRouter(
+      JSON.stringify({
+        categories: [
+          { category: 'violence', confidence: 0.9 },
+          { category: 'politics', confidence: 0.3 },
+          { category: 'weather', confidence: 1 },
+        ],
+      })
+    );
+    const checker = createClassifierChecker(['violence', 'politics'], 0.7, router);
+
+    assert.deepEqual(await checker.check('Some message', inbound), [
+      { checker: 'classifier', category: 'violence', confidence: 0.9 },
+    ]);
+  });
+
+  it('blocks replies the classifier flags', async () => {
+    const router = fakeModerationRouter('{"categories": [{"category": "violence", "confidence": 0.95}]}');
+    const { options } = testOptions({ classifier: { enabled: true } }, { router });
+
+    const result = await moderateMessage('A reply', outbound, options);
+
+    assert.equal(result.action, 'block');
+    assert.deepEqual(result.findings.map((f) => f.category), ['violence']);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Tests for the projects dashboard: listing projects across chats with
+ * filters, project detail with its timeline, and edits that are recorded and
+ * posted to the project's chat, using the in-memory adapter
+ * Run with: npm test
+ */
+
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryAdapter } from '../../lib/database/memory-adapter';
+import type { ChatRecord } from '../../lib/interfaces/database-adapter';
+import {
+  addTaskFromDashboard,
+  editProject,
+  editTaskFromDashboard,
+  getProjectDetail,
+  listProjectSummaries,
+  notifyProjectChat,
+} from '../../lib/services/project-dashboard';
+
+describe('project dashboard', () => {
+  let adapter: MemoryAdapter;
+  let ada: string;
+  let grace: string;
+  let groupChat: string;
+  let directChat: string;
+  let launch: string;
+  let website: string;
+
+  beforeEach(async () => {
+    adapter = new MemoryAdapter();
+    await adapter.init();
+    ada = (await adapter.createUser('Ada Lovelace', '15551230001'))!;
+    grace = (await adapter.createUser('Grace Hopper', '15551230002'))!;
+
+    groupChat = (await adapter.getChatFromWebhook('group-1', 'group', 'whatsapp'))!;
+    await adapter.addParticipantToChat(groupChat, ada);
+    await adapter.addParticipantToChat(groupChat, grace);
+    directChat = (await adapter.getChatFromWebhook('direct-1', 'individual', 'whatsapp'))!;
+    await adapter.addParticipantToChat(directChat, grace);
+
+    launch = (await adapter.createProject('Launch Party', 'Plan the launch', groupChat, { budget: 500 }))!;
+    website = (await adapter.createProject('Website', 'New website', directChat))!;
+    await adapter.updateProject(website, { is_live: false });
+  });
+
+  it('lists projects with their chat, people and tasks, filtered by status, chat and owner', async () => {
+    await adapter.createProjectTask({ project_id: launch, title: 'Book the venue', due_at: '2020-01-01T10:00:00.000Z' });
+
+    const all = await listProjectSummaries(adapter);
+    const launchSummary = all.projects.find((p) => p.id === launch)!;
+    const websiteSummary = all.projects.find((p) => p.id === website)!;
+    assert.deepEqual(launchSummary.tasks, { total: 1, open: 1, done: 0, overdue: 1 });
+    assert.deepEqual(launchSummary.members.map((m) => m.name), ['Ada Lovelace', 'Grace Hopper']);
+    assert.equal(launchSummary.owner, null);
+    assert.equal(websiteSummary.owner?.name, 'Grace Hopper');
+    assert.equal(websiteSummary.chat?.name, 'Grace Hopper');
+    assert.deepEqual(all.owners.map((o) => o.name), ['Ada Lovelace', 'Grace Hopper']);
+
+    const names = async (filter: Parameters<typeof listProjectSummaries>[1]) =>
+      (await listProjectSummaries(adapter, filter)).projects.map((p) => p.name);
+    assert.deepEqual(await names({ status: 'live' }), ['Launch Party']);
+    assert.deepEqual(await names({ status: 'completed' }), ['Website']);
+    assert.deepEqual(await names({ chatId: directChat }), ['Website']);
+    assert.deepEqual(await names({ ownerId: ada }), ['Launch Party']);
+  });
+
+  it('records project edits in the history and shows them in the timeline', async () => {
+    const result = await editProject(adapter, launch, {
+      name: 'Launch Party 2026',
+      description: 'Plan the launch',
+      is_live: false,
+      attributes: { budget: 750, venue: 'Town hall' },
+    });
+
+    assert.deepEqual(result!.changes, ['renamed to "Launch Party 2026"', 'marked as completed', 'budget, venue updated']);
+    assert.equal(result!.record.is_live, false);
+    assert.deepEqual(result!.record.attributes, { budget: 750, venue: 'Town hall' });
+
+    const detail = (await getProjectDetail(adapter, launch))!;
+    assert.equal(detail.timeline[0].source, 'history');
+    assert.equal(detail.timeline[0].type, 'project_completed');
+    assert.match(detail.timeline[0].description!, /from the dashboard: renamed/);
+
+    assert.deepEqual((await editProject(adapter, launch, { description: 'Plan the launch' }))!.changes, []);
+    assert.equal(await editProject(adapter, 'missing', { name: 'Nope' }), null);
+  });
+
+  it('adds and edits tasks with events and assignee names', async () => {
+    const added = (await addTaskFromDashboard(adapter, launch, { title: ' Book the venue ', assignee_id: ada }))!;
+    assert.deepEqual(added.changes, ['task "Book the venue" added (assigned to Ada Lovelace)']);
+
+    const edited = (await editTaskFromDashboard(adapter, launch, added.record.id, { status: 'done', assignee_id: grace }))!;
+    assert.deepEqual(edited.changes, [
+      'task "Book the venue" assigned to Grace Hopper',
+      'task "Book the venue" marked as done',
+    ]);
+    assert.equal(edited.record.status, 'done');
+    assert.equal(await editTaskFromDashboard(adapter, website, added.record.id, { status: 'open' }), null);
+
+    const detail = (await getProjectDetail(adapter, launch))!;
+    assert.equal(detail.tasks[0].assignee_name, 'Grace Hopper');
+    assert.deepEqual(
+      detail.timeline.filter((e) => e.source === 'event').map((e) => [e.type, e.metadata?.source]),
+      [['task_completed', 'dashboard'], ['task_added', 'dashboard']]
+    );
+  });
+
+  it("posts changes to the project's chat", async () => {
+    const sent: [ChatRecord, string][] = [];
+    const send = async (chat: ChatRecord, text: string) => {
+      sent.push([chat, text]);
+      return true;
+    };
+    const project = (await adapter.getProjectById(launch))!;
+
+    assert.equal(await notifyProjectChat(adapter, project, ['marked as completed'], send), true);
+    assert.equal(sent[0][0].id, groupChat);
+    assert.equal(sent[0][1], 'Update on "Launch Party" from the projects dashboard: marked as completed.');
+    assert.equal(await notifyProjectChat(adapter, project, [], send), false);
+    assert.equal(sent.length, 1);
+  });
+});
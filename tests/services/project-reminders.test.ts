@@ -0,0 +1,156 @@
+/**
+ * Tests for per-chat project reminder rules: quiet hours, staleness, dedup
+ * against recorded reminders, deadline escalation and dry runs, using the
+ * in-memory adapter and times relative to when the test runs
+ * Run with: npm test
+ */
+
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { addHours } from 'date-fns';
+import { MemoryAdapter } from '../../lib/database/memory-adapter';
+import type { ChatRecord } from '../../lib/interfaces/database-adapter';
+import {
+  REMINDER_EVENT,
+  getReminderSettings,
+  isQuietTime,
+  planChatReminder,
+  recordReminderSent,
+  reminderSettingsSchema,
+  runProjectReminders,
+  saveReminderSettings,
+} from '../../lib/services/project-reminders';
+
+const hours = (n: number) => addHours(new Date(), n);
+const pad = (n: number) => String(n).padStart(2, '0');
+
+describe('reminder settings', () => {
+  it('fills in defaults and keeps the ones set', () => {
+    const settings = getReminderSettings({ metadata: { reminders: { frequencyHours: 72, escalation: { repeatHours: 6 } } } });
+
+    assert.equal(settings.frequencyHours, 72);
+    assert.equal(settings.escalation.repeatHours, 6);
+    assert.equal(settings.escalation.dueSoonHours, 24);
+    assert.deepEqual(settings.quietHours, { start: '21:00', end: '08:00' });
+    assert.deepEqual(getReminderSettings({ metadata: null }), reminderSettingsSchema.parse({}));
+  });
+
+  it('follows quiet hours in the chat timezone', () => {
+    const tokyo = reminderSettingsSchema.parse({ timezone: 'Asia/Tokyo' });
+    // 22:00 and 12:00 in Tokyo
+    assert.equal(isQuietTime(new Date(Date.UTC(2026, 9, 14, 13)), tokyo), true);
+    assert.equal(isQuietTime(new Date(Date.UTC(2026, 9, 14, 3)), tokyo), false);
+
+    const lunch = reminderSettingsSchema.parse({ quietHours: { start: '12:00', end: '13:30' } });
+    assert.equal(isQuietTime(new Date(Date.UTC(2026, 9, 14, 13, 15)), lunch), true);
+    assert.equal(isQuietTime(new Date(Date.UTC(2026, 9, 14, 13, 30)), lunch), false);
+    assert.equal(isQuietTime(new Date(Date.UTC(2026, 9, 14, 23)), { ...lunch, quietHours: null }), false);
+  });
+});
+
+describe('project reminders', () => {
+  let adapter: MemoryAdapter;
+  let chat: ChatRecord;
+  let projectId: string;
+
+  const reloadChat = async () => (await adapter.getAllChats()).find((c) => c.id === chat.id)!;
+
+  beforeEach(async () => {
+    adapter = new MemoryAdapter();
+    await adapter.init();
+    const chatId = (await adapter.getChatFromWebhook('thread-1', 'group', 'whatsapp'))!;
+    chat = (await adapter.getAllChats()).find((c) => c.id === chatId)!;
+    // Quiet hours would make the results depend on the time of day
+    await saveReminderSettings(adapter, chat, { quietHours: null });
+    chat = await reloadChat();
+    projectId = (await adapter.createProject('Launch Party', 'Plan the launch', chat.id))!;
+  });
+
+  it('rejects invalid settings', async () => {
+    const result = await saveReminderSettings(adapter, chat, { timezone: 'Mars/Olympus', quietHours: { start: '9pm', end: '08:00' } });
+
+    assert.match(result.error!, /timezone: Unknown timezone/);
+    assert.match(result.error!, /quietHours\.start: Use HH:MM/);
+    assert.equal(getReminderSettings(await reloadChat()).timezone, 'UTC');
+  });
+
+  it('reminds about stale projects at most once per period', async () => {
+    assert.match((await planChatReminder(adapter, chat, hours(1)))!.skipped!, /active recently/);
+
+    const plan = (await planChatReminder(adapter, chat, hours(49)))!;
+    assert.equal(plan.level, 'routine');
+    assert.match(plan.instruction!, /"Launch Party" \(created .*, no activity for [23] days\)/);
+
+    // Events are recorded at the current time, so look at the next periods from now
+    await saveReminderSettings(adapter, chat, { staleAfterHours: 0 });
+    chat = await reloadChat();
+    await recordReminderSent(adapter, (await planChatReminder(adapter, chat, hours(0.1)))!);
+    assert.equal((await planChatReminder(adapter, chat, hours(1)))!.instruction, undefined);
+    // Reminders don't count as activity
+    assert.equal((await planChatReminder(adapter, chat, hours(25)))!.level, 'routine');
+  });
+
+  it('escalates deadlines even on active projects and repeats them when they become overdue', async () => {
+    const userId = (await adapter.createUser('Ada Lovelace', '15551230001'))!;
+    await adapter.createProjectTask({
+      project_id: projectId,
+      title: 'Book the venue',
+      assignee_id: userId,
+      due_at: hours(2).toISOString(),
+    });
+
+    const dueSoon = (await planChatReminder(adapter, chat, hours(0.5)))!;
+    assert.equal(dueSoon.level, 'due_soon');
+    assert.match(dueSoon.instruction!, /\[DUE SOON\] Book the venue \(Ada Lovelace, due /);
+
+    await recordReminderSent(adapter, dueSoon);
+    assert.equal((await planChatReminder(adapter, chat, hours(1)))!.instruction, undefined);
+
+    const overdue = (await planChatReminder(adapter, chat, hours(3)))!;
+    assert.equal(overdue.level, 'overdue');
+    assert.match(overdue.instruction!, /\[OVERDUE\] Book the venue/);
+  });
+
+  it('escalates the project deadline from its attributes', async () => {
+    await adapter.updateProject(projectId, { attributes: { deadline: hours(5).toISOString() } });
+
+    const plan = (await planChatReminder(adapter, chat, hours(1)))!;
+    assert.equal(plan.level, 'due_soon');
+    assert.match(plan.instruction!, /\[DUE SOON\] The project is due /);
+  });
+
+  it('skips quiet hours unless escalations may interrupt them', async () => {
+    const now = hours(49);
+    const quietHours = { start: `${pad(now.getUTCHours())}:00`, end: `${pad((now.getUTCHours() + 1) % 24)}:00` };
+    await saveReminderSettings(adapter, chat, { quietHours });
+    chat = await reloadChat();
+
+    assert.equal((await planChatReminder(adapter, chat, now))!.skipped, 'Quiet hours in UTC');
+
+    await adapter.createProjectTask({ project_id: projectId, title: 'Book the venue', due_at: hours(48).toISOString() });
+    await saveReminderSettings(adapter, chat, { escalation: { ignoreQuietHours: true } });
+    chat = await reloadChat();
+    assert.equal((await planChatReminder(adapter, chat, now))!.level, 'overdue');
+    assert.equal(getReminderSettings(chat).escalation.dueSoonHours, 24);
+  });
+
+  it('does not send or record anything in a dry run', async () => {
+    const sent: string[] = [];
+    const send = async (plan: { chat: ChatRecord }) => {
+      sent.push(plan.chat.id);
+      return true;
+    };
+
+    const dryRun = await runProjectReminders(adapter, send, { dryRun: true, now: hours(49) });
+    assert.deepEqual(sent, []);
+    assert.equal(dryRun.remindersSent, 0);
+    assert.equal(dryRun.chats[0].sent, false);
+    assert.match(dryRun.chats[0].instruction!, /Launch Party/);
+
+    const run = await runProjectReminders(adapter, send, { now: hours(49) });
+    assert.deepEqual(sent, [chat.id]);
+    assert.equal(run.remindersSent, 1);
+    const events = await adapter.getProjectEvents([projectId]);
+    assert.deepEqual(events.map((e) => [e.event_type, e.metadata.level]), [[REMINDER_EVENT, 'routine']]);
+  });
+});
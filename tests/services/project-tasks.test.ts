@@ -0,0 +1,133 @@
+/**
+ * Tests for understanding task due dates and assignees written in chat and
+ * describing tasks, with a fixed current time and the in-memory adapter
+ * Run with: npm test
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryAdapter } from '../../lib/database/memory-adapter';
+import type { ProjectTaskRecord } from '../../lib/interfaces/database-adapter';
+import type { ThreadParticipant } from '../../lib/supabase/types';
+import {
+  countTasks,
+  describeTask,
+  findAssignees,
+  findTask,
+  getAssigneeNames,
+  isTaskDueSoon,
+  parseDueDate,
+} from '../../lib/services/project-tasks';
+
+// Wednesday 14 October 2026, 10:00 in the server's time zone
+const now = new Date(2026, 9, 14, 10, 0);
+
+function task(changes: Partial<ProjectTaskRecord>): ProjectTaskRecord {
+  return {
+    id: 'task-1',
+    project_id: 'project-1',
+    title: 'Book the venue',
+    status: 'open',
+    assignee_id: null,
+    due_at: null,
+    completed_at: null,
+    created_by: null,
+    created_at: now.toISOString(),
+    updated_at: now.toISOString(),
+    ...changes,
+  };
+}
+
+describe('parseDueDate', () => {
+  const cases: [string, Date][] = [
+    ['today', new Date(2026, 9, 14, 17, 0)],
+    ['tonight', new Date(2026, 9, 14, 20, 0)],
+    ['tomorrow at 5pm', new Date(2026, 9, 15, 17, 0)],
+    ['by tomorrow 9:30am', new Date(2026, 9, 15, 9, 30)],
+    ['in 3 days', new Date(2026, 9, 17, 17, 0)],
+    ['in 2 hours', new Date(2026, 9, 14, 12, 0)],
+    ['Friday', new Date(2026, 9, 16, 17, 0)],
+    ['next wednesday at noon', new Date(2026, 9, 21, 12, 0)],
+    ['end of the week', new Date(2026, 9, 16, 17, 0)],
+    ['end of the month', new Date(2026, 9, 31, 17, 0)],
+    ['Oct 20', new Date(2026, 9, 20, 17, 0)],
+    ['20th of October 2027', new Date(2027, 9, 20, 17, 0)],
+    ['March 3', new Date(2027, 2, 3, 17, 0)],
+    ['2026-11-02', new Date(2026, 10, 2, 17, 0)],
+    ['at 9am', new Date(2026, 9, 15, 9, 0)],
+    ['17:30', new Date(2026, 9, 14, 17, 30)],
+  ];
+
+  for (const [text, expected] of cases) {
+    it(`understands "${text}"`, () => {
+      assert.deepEqual(parseDueDate(text, now), expected);
+    });
+  }
+
+  it('returns null for dates it does not understand', () => {
+    assert.equal(parseDueDate('whenever you can', now), null);
+    assert.equal(parseDueDate('Feb 30', now), null);
+    assert.equal(parseDueDate('at 25:00', now), null);
+  });
+});
+
+describe('findAssignees', () => {
+  const participants = [
+    { user_id: 'u1', name: 'Ada Lovelace', phone_number: '15551230001' },
+    { user_id: 'u2', name: 'Ada Byron', phone_number: '15551230002' },
+    { user_id: 'u3', name: 'Grace Hopper', phone_number: '15551230003' },
+  ] as ThreadParticipant[];
+  const ids = (matches: ThreadParticipant[]) => matches.map((p) => p.user_id);
+
+  it('matches "me", numbers, full names and first names', () => {
+    assert.deepEqual(ids(findAssignees('me', participants, '+1 555 123 0003')), ['u3']);
+    assert.deepEqual(ids(findAssignees('+1 (555) 123-0002', participants)), ['u2']);
+    assert.deepEqual(ids(findAssignees('ada lovelace', participants)), ['u1']);
+    assert.deepEqual(ids(findAssignees('@Grace', participants)), ['u3']);
+  });
+
+  it('returns every match for ambiguous names and none for strangers', () => {
+    assert.deepEqual(ids(findAssignees('Ada', participants)), ['u1', 'u2']);
+    assert.deepEqual(findAssignees('Alan', participants), []);
+    assert.deepEqual(findAssignees('me', participants), []);
+  });
+});
+
+describe('tasks', () => {
+  const overdue = task({ id: 't1', title: 'Book the venue', due_at: new Date(2026, 9, 13, 17).toISOString() });
+  const dueSoon = task({ id: 't2', title: 'Send invitations', due_at: new Date(2026, 9, 15, 9).toISOString() });
+  const later = task({ id: 't3', title: 'Order cake', due_at: new Date(2026, 9, 30, 17).toISOString() });
+  const done = task({ id: 't4', title: 'Pick a date', status: 'done' });
+
+  it('finds tasks by their title or part of it', () => {
+    const tasks = [overdue, dueSoon, later, done];
+    assert.equal(findTask(tasks, 'order cake')?.id, 't3');
+    assert.equal(findTask(tasks, 'invitations')?.id, 't2');
+    assert.equal(findTask(tasks, 'the venue booking'), undefined);
+    assert.equal(findTask(tasks, ' '), undefined);
+  });
+
+  it('describes tasks with their assignee and due date', () => {
+    const names = new Map([['u1', 'Ada']]);
+    assert.equal(describeTask({ ...overdue, assignee_id: 'u1' }, names, now), 'Book the venue (Ada, due Tue 13 Oct, 17:00, overdue)');
+    assert.equal(describeTask(done, names, now), 'Pick a date (done)');
+    assert.equal(describeTask(task({}), names, now), 'Book the venue');
+  });
+
+  it('counts open, done and overdue tasks and finds those due soon', () => {
+    assert.deepEqual(countTasks([overdue, dueSoon, later, done], now), { total: 4, open: 3, done: 1, overdue: 1 });
+    assert.deepEqual(
+      [overdue, dueSoon, later, done].filter((t) => isTaskDueSoon(t, now)).map((t) => t.id),
+      ['t1', 't2']
+    );
+  });
+
+  it('looks up the names of assignees', async () => {
+    const adapter = new MemoryAdapter();
+    await adapter.init();
+    const userId = (await adapter.createUser('Ada Lovelace', '15551230001'))!;
+
+    const names = await getAssigneeNames(adapter, [task({ assignee_id: userId }), task({})]);
+    assert.deepEqual([...names], [[userId, 'Ada Lovelace']]);
+  });
+});
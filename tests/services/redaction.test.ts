@@ -0,0 +1,136 @@
+/**
+ * Tests for redacting personal data from logs and protecting it in stored
+ * messages, with an encryption key from the environment and the in-memory adapter
+ * Run with: npm test
+ */
+
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomBytes } from 'crypto';
+import defaultSafetySettings, { SafetySettings } from '../../lib/safety-config/safety-settings';
+import {
+  decryptText,
+  encryptValue,
+  findPersonalData,
+  protectStoredMessage,
+  protectText,
+  redactText,
+  revealStoredMessage,
+} from '../../lib/safety-config/redaction';
+import { MemoryAdapter } from '../../lib/database/memory-adapter';
+
+// The key is read on first use, so no key file is written
+process.env.DATA_ENCRYPTION_KEY = randomBytes(32).toString('base64');
+
+function withCustomerData(
+  handleCustomerData: SafetySettings['dataSensitivity']['handleCustomerData'],
+  redactionPatterns?: string[]
+): SafetySettings {
+  return {
+    ...defaultSafetySettings,
+    dataSensitivity: { ...defaultSafetySettings.dataSensitivity, handleCustomerData, redactionPatterns },
+  };
+}
+
+const message = 'I am ada@example.com, call +1 (555) 123-4567 or visit 221 Baker Street.';
+
+describe('findPersonalData', () => {
+  it('finds addresses and custom patterns', () => {
+    assert.deepEqual(findPersonalData(`${message} Account ACC-12345`, ['ACC-\\d+']), {
+      email: ['ada@example.com'],
+      phone: ['+1 (555) 123-4567'],
+      address: ['221 Baker Street'],
+      custom: ['ACC-12345'],
+    });
+  });
+
+  it('ignores timestamps and IDs', () => {
+    const text = 'Sent at 1718035200000, message 550e8400-e29b-41d4-a716-446655440000, version 1.2.3';
+    assert.deepEqual(findPersonalData(text), {});
+  });
+});
+
+describe('redactText', () => {
+  it('replaces personal data with placeholders', () => {
+    assert.equal(
+      redactText(message),
+      'I am [email], call [phone number] or visit [address].'
+    );
+    assert.equal(redactText('Ref ACC-12345', withCustomerData('storeFull', ['ACC-\\d+'])), 'Ref [redacted]');
+  });
+});
+
+describe('protectText', () => {
+  it('stores messages as received with storeFull', () => {
+    assert.equal(protectText(message, withCustomerData('storeFull')), message);
+  });
+
+  it('uses the same pseudonym for the same value', () => {
+    const safety = withCustomerData('anonymizeAndStore');
+    const first = protectText('Mail ada@example.com', safety);
+
+    assert.match(first, /^Mail \[email:[0-9a-f]{8}\]$/);
+    assert.equal(protectText('Mail ada@example.com', safety), first);
+    assert.notEqual(protectText('Mail bob@example.com', safety), first);
+  });
+
+  it('encrypts personal data in place and decrypts it again', () => {
+    const encrypted = protectText(message, withCustomerData('encryptAndStore'));
+
+    assert.ok(!encrypted.includes('ada@example.com'));
+    assert.match(encrypted, /^I am \[enc:[\w-]+\], call \[enc:[\w-]+\] or visit \[enc:[\w-]+\]\.$/);
+    assert.equal(decryptText(encrypted), message);
+  });
+
+  it('leaves values encrypted with another key as they are', () => {
+    const token = encryptValue('ada@example.com', randomBytes(32));
+    assert.equal(decryptText(`Mail ${token}`), `Mail ${token}`);
+  });
+});
+
+describe('stored messages', () => {
+  it('protects text and rich content but not media data', () => {
+    const stored = protectStoredMessage(
+      { content: 'Mail ada@example.com', rich_content: { text: 'Mail ada@example.com', data: 'ada@example.com' } },
+      withCustomerData('encryptAndStore')
+    );
+
+    assert.ok(!stored.content.includes('ada@example.com'));
+    assert.equal(stored.rich_content.data, 'ada@example.com');
+    assert.deepEqual(revealStoredMessage(stored), {
+      content: 'Mail ada@example.com',
+      rich_content: { text: 'Mail ada@example.com', data: 'ada@example.com' },
+    });
+  });
+
+  describe('in the database adapter', () => {
+    let adapter: MemoryAdapter;
+    let chatId: string;
+
+    beforeEach(async () => {
+      adapter = new MemoryAdapter();
+      await adapter.init();
+      chatId = (await adapter.getChatFromWebhook('thread-1', 'individual', 'whatsapp'))!;
+    });
+
+    it('encrypts on write and decrypts on read', async () => {
+      adapter.safetySettings = withCustomerData('encryptAndStore');
+
+      await adapter.storeMessage(chatId, null, 'msg-1', { text: message }, 'text', 'whatsapp');
+
+      const [row] = await adapter.getMessages({ chatId });
+      assert.equal(row.content, message);
+      assert.equal((await adapter.getMessageByExternalId('msg-1'))?.content, message);
+      assert.equal((await adapter.getThread('thread-1'))?.messages[0].content, message);
+    });
+
+    it('stores placeholders with doNotStore', async () => {
+      adapter.safetySettings = withCustomerData('doNotStore');
+
+      await adapter.storeMessage(chatId, null, 'msg-1', { text: message }, 'text', 'whatsapp');
+
+      const [row] = await adapter.getMessages({ chatId });
+      assert.equal(row.content, 'I am [email], call [phone number] or visit [address].');
+    });
+  });
+});
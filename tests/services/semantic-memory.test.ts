@@ -0,0 +1,186 @@
+/**
+ * Tests for semantic memory storage and recall, using the in-memory adapter
+ * and the deterministic hashing embeddings
+ * Run with: npm test
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomUUID } from 'crypto';
+import type { MemoryAdapter } from '../../lib/database/memory-adapter';
+import {
+  cosineSimilarity,
+  createHashingEmbeddingProvider,
+  getEmbeddingProvider,
+  hashingEmbedding,
+} from '../../lib/agent-memory/embeddings';
+import {
+  chunkText,
+  recallMemories,
+  rememberIncomingMessage,
+  rememberText,
+} from '../../lib/agent-memory/semantic-memory';
+import { generateRichChatContext } from '../../lib/services/chat-context';
+import { createMemoryAdapter, uniquePhoneNumber } from '../database/test-helpers';
+
+describe('hashing embeddings', () => {
+  it('are deterministic and normalized', () => {
+    const a = hashingEmbedding('Book a table for dinner on Friday');
+    assert.deepEqual(a, hashingEmbedding('Book a table for dinner on Friday'));
+    assert.ok(Math.abs(cosineSimilarity(a, a) - 1) < 1e-9);
+  });
+
+  it('score texts sharing words above unrelated texts', () => {
+    const query = hashingEmbedding('When is the dentist appointment?');
+    const related = hashingEmbedding('My dentist appointment is on Tuesday at 3pm');
+    const unrelated = hashingEmbedding('The quarterly budget spreadsheet needs review');
+    assert.ok(cosineSimilarity(query, related) > cosineSimilarity(query, unrelated));
+  });
+
+  it('are used when no embedding model or API key is configured', () => {
+    const savedEnv = { ...process.env };
+    process.env.OPENAI_API_KEY = '';
+    try {
+      assert.equal(getEmbeddingProvider({}).model, 'hashing');
+      assert.equal(getEmbeddingProvider({ embeddingModel: 'openai:text-embedding-3-small' }).model, 'hashing');
+      assert.equal(
+        getEmbeddingProvider({
+          embeddingModel: 'local:nomic-embed-text',
+          providers: { local: { baseURL: 'http://localhost:11434/v1' } },
+        }).model,
+        'local:nomic-embed-text'
+      );
+    } finally {
+      process.env = { ...savedEnv };
+    }
+  });
+});
+
+describe('chunkText', () => {
+  it('groups whole sentences and drops chunks that are too short', () => {
+    assert.deepEqual(chunkText('ok'), []);
+    assert.deepEqual(chunkText('First sentence here. Second one here.  Third   one here.', 40), [
+      'First sentence here. Second one here.',
+      'Third one here.',
+    ]);
+  });
+
+  it('splits long sentences between words', () => {
+    const chunks = chunkText('word '.repeat(50), 60);
+    assert.ok(chunks.length > 1);
+    assert.ok(chunks.every((chunk) => chunk.length <= 60));
+  });
+});
+
+describe('semantic memory', () => {
+  const provider = createHashingEmbeddingProvider();
+  let adapter: MemoryAdapter;
+
+  before(async () => {
+    adapter = await createMemoryAdapter();
+  });
+
+  after(() => {
+    adapter.close();
+  });
+
+  async function seedChats() {
+    const phone = uniquePhoneNumber();
+    const userId = (await adapter.getUserFromWebhook(phone, 'Ada', 'whatsapp'))!;
+    const direct = (await adapter.getChatFromWebhook(`dm-${randomUUID()}`, 'individual', 'whatsapp'))!;
+    const group = (await adapter.getChatFromWebhook(`group-${randomUUID()}`, 'group', 'whatsapp'))!;
+    await adapter.addParticipantToChat(direct, userId);
+    await adapter.addParticipantToChat(group, userId);
+    return { phone, userId, direct, group };
+  }
+
+  it('recalls the most relevant memories of the chat first', async () => {
+    const { userId, direct } = await seedChats();
+    await rememberText(adapter, 'message', { userId, chatId: direct }, 'My dentist appointment is on Tuesday at 3pm', provider);
+    await rememberText(adapter, 'message', { userId, chatId: direct }, 'The quarterly budget spreadsheet needs review', provider);
+    await rememberText(adapter, 'message', { userId, chatId: direct }, 'I moved the dentist visit to the clinic downtown', provider);
+
+    const memories = await recallMemories(adapter, {
+      query: 'When is my dentist appointment?',
+      chatId: direct,
+      userId,
+      topK: 2,
+      provider,
+    });
+
+    assert.deepEqual(memories.map((m) => m.content), [
+      'My dentist appointment is on Tuesday at 3pm',
+      'I moved the dentist visit to the clinic downtown',
+    ]);
+    assert.ok(memories[0].score >= memories[1].score);
+  });
+
+  it('keeps individual chat memories out of group chats', async () => {
+    const { userId, direct, group } = await seedChats();
+    await rememberText(adapter, 'message', { userId, chatId: direct }, 'My salary negotiation is next week', provider);
+    await rememberText(adapter, 'fact', { userId }, 'Role: salary negotiation coach', provider);
+    await rememberText(adapter, 'message', { userId, chatId: group }, 'Team salary review happens in March', provider);
+
+    const inGroup = await recallMemories(adapter, { query: 'salary negotiation', chatId: group, minScore: 0.1, provider });
+    assert.deepEqual(inGroup.map((m) => m.content), ['Team salary review happens in March']);
+
+    const inDirect = await recallMemories(adapter, {
+      query: 'salary negotiation',
+      chatId: direct,
+      userId,
+      minScore: 0.1,
+      provider,
+    });
+    assert.deepEqual(inDirect.map((m) => m.content).sort(), [
+      'My salary negotiation is next week',
+      'Role: salary negotiation coach',
+    ]);
+  });
+
+  it('skips memories already in the prompt and from other embedding models', async () => {
+    const { userId, direct } = await seedChats();
+    await rememberText(adapter, 'message', { userId, chatId: direct }, 'Pick up the dry cleaning tomorrow', provider);
+    await rememberText(adapter, 'message', { userId, chatId: direct }, 'Pick up the dry cleaning today', {
+      model: 'other:model',
+      embed: async (texts) => texts.map(() => [1, 0]),
+    });
+
+    const memories = await recallMemories(adapter, {
+      query: 'dry cleaning',
+      chatId: direct,
+      exclude: ['Pick up the dry cleaning tomorrow'],
+      provider,
+    });
+    assert.deepEqual(memories, []);
+  });
+
+  it('remembers incoming messages with the memory updates they led to', async () => {
+    const { phone, userId, direct } = await seedChats();
+
+    const stored = await rememberIncomingMessage(
+      adapter,
+      `+${phone}`,
+      direct,
+      'I just started a new job as a nurse in Leeds',
+      {
+        userMemoryUpdates: [{ id: 'role', title: 'Role', newValue: 'Nurse' }],
+        chatMemoryUpdates: [{ id: 'topic', title: 'Topic', newValue: 'New job' }],
+      },
+      provider
+    );
+
+    assert.equal(stored, 3);
+    const userChunks = await adapter.getMemoryChunks({ userId });
+    assert.deepEqual(userChunks.map((c) => c.kind).sort(), ['fact', 'message']);
+    assert.equal(userChunks.find((c) => c.kind === 'fact')?.metadata.field_id, 'role');
+    assert.ok((await adapter.getMemoryChunks({ chatId: direct })).some((c) => c.content === 'Topic: New job'));
+  });
+
+  it('adds recalled memories to the conversation context', () => {
+    const context = generateRichChatContext('individual', [], [], [], [
+      { content: 'Role: Nurse', kind: 'fact', created_at: new Date().toISOString(), score: 0.9 },
+    ]);
+    assert.match(context, /Relevant Memories/);
+    assert.match(context, /fact\] Role: Nurse/);
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * Tests for user retention policies, deletion, export, pseudonymization and consent,
+ * using the in-memory adapter and a temporary exports directory
+ * Run with: npm test
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { execFileSync } from 'child_process';
+import type { MemoryAdapter } from '../../lib/database/memory-adapter';
+import { crc32 } from '../../lib/storage/zip-archive';
+import {
+  EXPORT_TTL_MS,
+  anonymizeUserData,
+  buildUserDataExport,
+  forgetUserData,
+  getConsent,
+  getPrivacySettings,
+  hasConsent,
+  readUserDataExport,
+  retentionCutoff,
+  runRetentionPurge,
+  saveUserDataExport,
+  setRetentionPolicy,
+  updateConsent,
+} from '../../lib/services/user-privacy';
+import { createMemoryAdapter, uniquePhoneNumber } from '../database/test-helpers';
+
+describe('user privacy', () => {
+  let adapter: MemoryAdapter;
+  let exportsDir: string;
+
+  before(async () => {
+    adapter = await createMemoryAdapter();
+    exportsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'privacy-exports-'));
+  });
+
+  after(() => {
+    adapter.close();
+    fs.rmSync(exportsDir, { recursive: true, force: true });
+  });
+
+  const memoryChunk = (userId: string | null, chatId: string | null, content: string) =>
+    adapter.addMemoryChunk({
+      user_id: userId,
+      chat_id: chatId,
+      kind: 'message',
+      content,
+      embedding: [1, 0],
+      embedding_model: 'test',
+      metadata: {},
+    });
+
+  /**
+   * A user with an individual chat holding a project and a message each way,
+   * plus a message of theirs and someone else's in a group chat, each with a
+   * semantic memory chunk
+   */
+  async function seedUser() {
+    const phone = uniquePhoneNumber();
+    const userId = (await adapter.getUserFromWebhook(phone, 'Ada', 'whatsapp'))!;
+    const other = (await adapter.getUserFromWebhook(uniquePhoneNumber(), 'Bob', 'whatsapp'))!;
+    const direct = (await adapter.getChatFromWebhook(`dm-${randomUUID()}`, 'individual', 'whatsapp'))!;
+    const group = (await adapter.getChatFromWebhook(`group-${randomUUID()}`, 'group', 'whatsapp'))!;
+    await adapter.addParticipantToChat(direct, userId);
+    await adapter.addParticipantToChat(group, userId);
+    await adapter.addParticipantToChat(group, other);
+
+    await adapter.storeMessage(direct, userId, randomUUID(), { text: 'hi' }, 'text', 'whatsapp');
+    await adapter.storeMessage(direct, null, randomUUID(), { text: 'hello Ada' }, 'text', 'whatsapp');
+    await adapter.storeMessage(group, userId, randomUUID(), { text: 'group hi' }, 'text', 'whatsapp');
+    await adapter.storeMessage(group, other, randomUUID(), { text: 'from Bob' }, 'text', 'whatsapp');
+    await adapter.upsertUserMemoryValue(userId, 'city', 'London');
+    await memoryChunk(userId, direct, 'hi');
+    await memoryChunk(null, direct, 'Chat topic: greetings');
+    await memoryChunk(userId, group, 'group hi');
+    await memoryChunk(other, group, 'from Bob');
+    const projectId = await adapter.createProject('Garden', '', direct);
+
+    return { phone, userId, other, direct, group, projectId };
+  }
+
+  it('forgets messages, memory and individual chat projects but leaves others in groups', async () => {
+    const { userId, direct, group, projectId } = await seedUser();
+    await adapter.addMemoryReview({
+      scope: 'user',
+      owner_id: userId,
+      field_id: 'city',
+      current_value: 'London',
+      proposed_value: 'Leeds',
+      source_message_id: null,
+      source_message: 'I moved to Leeds',
+      model: null,
+    });
+    const directThreadId = (await adapter.getChatsForUser(userId)).find((chat) => chat.id === direct)!.external_id!;
+    await adapter.addModerationLog({
+      direction: 'inbound',
+      service: 'whatsapp',
+      thread_id: directThreadId,
+      message_id: null,
+      action: 'warn',
+      categories: ['profanity'],
+      findings: [],
+    });
+
+    const result = await forgetUserData(adapter, userId, ['all']);
+
+    assert.deepEqual(result, { messages: 3, memoryFields: 1, memoryChunks: 3, projects: 1 });
+    assert.deepEqual(await adapter.getMessages({ chatId: direct }), []);
+    assert.deepEqual((await adapter.getMessages({ chatId: group })).map((m) => m.content), ['from Bob']);
+    assert.deepEqual(await adapter.getAllUserMemoryValues(userId), {});
+    assert.deepEqual(await adapter.getMemoryHistory('user', userId), []);
+    assert.deepEqual(await adapter.getMemoryReviews({ ownerId: userId }), []);
+    assert.deepEqual(await adapter.getModerationLog({ threadId: directThreadId }), []);
+    assert.deepEqual((await adapter.getMemoryChunks({ chatId: group })).map((c) => c.content), ['from Bob']);
+    assert.equal(await adapter.getProjectById(projectId!), null);
+  });
+
+  it('only forgets the requested data types', async () => {
+    const { userId, direct } = await seedUser();
+
+    await forgetUserData(adapter, userId, ['memory']);
+
+    assert.equal((await adapter.getMessages({ chatId: direct })).length, 2);
+    assert.equal((await adapter.getProjectsByChat(direct)).length, 1);
+  });
+
+  it('purges messages older than the retention policy', async () => {
+    const { userId, direct } = await seedUser();
+    assert.equal(await setRetentionPolicy(adapter, userId, { period: 7, unit: 'days' }), true);
+
+    const inEightDays = new Date(Date.now() + 8 * 24 * 60 * 60 * 1000);
+    const result = await runRetentionPurge(adapter, inEightDays, exportsDir);
+
+    assert.equal(result.messagesDeleted, 3);
+    assert.equal(result.memoryChunksDeleted, 3);
+    assert.deepEqual(await adapter.getMessages({ chatId: direct }), []);
+    assert.equal((await runRetentionPurge(adapter, inEightDays, exportsDir)).messagesDeleted, 0);
+
+    assert.equal(await setRetentionPolicy(adapter, userId, null), true);
+    assert.equal(getPrivacySettings(await adapter.getUserById(userId)).retention, undefined);
+  });
+
+  it('computes retention cutoffs per unit', () => {
+    const now = new Date('2025-03-31T12:00:00Z');
+    assert.equal(retentionCutoff({ period: 2, unit: 'weeks' }, now).toISOString(), '2025-03-17T12:00:00.000Z');
+    assert.equal(retentionCutoff({ period: 1, unit: 'years' }, now).toISOString(), '2024-03-31T12:00:00.000Z');
+  });
+
+  it('exports a user\'s data as JSON and ZIP behind an expiring token', async () => {
+    const { userId } = await seedUser();
+
+    const data = await buildUserDataExport(adapter, userId);
+    assert.deepEqual(data?.messages.map((m) => m.content).sort(), ['group hi', 'hello Ada', 'hi']);
+    assert.deepEqual(data?.memory, { city: 'London' });
+    assert.deepEqual(data?.memory_history.map((h) => [h.field_id, h.new_value]), [['city', 'London']]);
+    assert.deepEqual(data?.memory_chunks.map((c) => c.content).sort(), ['Chat topic: greetings', 'group hi', 'hi']);
+    assert.equal('embedding' in data!.memory_chunks[0], false);
+    assert.equal(data?.projects[0].name, 'Garden');
+    assert.equal(data?.chats.length, 2);
+
+    const json = saveUserDataExport(data!, 'json', exportsDir);
+    assert.equal(JSON.parse(readUserDataExport(json.token, exportsDir)!.content.toString()).user.id, userId);
+
+    const zip = saveUserDataExport(data!, 'zip', exportsDir);
+    const saved = readUserDataExport(zip.token, exportsDir)!;
+    assert.equal(saved.format, 'zip');
+    assert.equal(saved.content.readUInt32LE(0), 0x04034b50);
+
+    assert.equal(readUserDataExport('../../etc/passwd', exportsDir), null);
+    const later = new Date(Date.now() + EXPORT_TTL_MS + 1000);
+    assert.equal(readUserDataExport(zip.token, exportsDir, later), null);
+    assert.equal((await runRetentionPurge(adapter, later, exportsDir)).exportsDeleted, 2);
+  });
+
+  it('writes ZIP archives that unzip can read', { skip: !hasUnzip() && 'unzip not installed' }, async () => {
+    const { userId } = await seedUser();
+    const zip = saveUserDataExport((await buildUserDataExport(adapter, userId))!, 'zip', exportsDir);
+
+    const listing = execFileSync('unzip', ['-l', path.join(exportsDir, `${zip.token}.zip`)]).toString();
+    assert.match(listing, /messages\.json/);
+    execFileSync('unzip', ['-t', path.join(exportsDir, `${zip.token}.zip`)]);
+  });
+
+  it('computes standard CRC-32 checksums', () => {
+    assert.equal(crc32(Buffer.from('123456789')), 0xcbf43926);
+  });
+
+  it('pseudonymizes a user', async () => {
+    const { phone, userId, group } = await seedUser();
+
+    const pseudonym = await anonymizeUserData(adapter, userId);
+
+    assert.match(pseudonym!, /^Anonymous user [a-f0-9]{8}$/);
+    assert.equal(await adapter.getUserByPhone(phone), null);
+    assert.equal((await adapter.getUserById(userId))?.name, pseudonym);
+    assert.deepEqual(await adapter.getAllUserMemoryValues(userId), {});
+    assert.equal((await adapter.getMessages({ chatId: group, senderId: userId })).length, 1);
+  });
+
+  it('stores consent with defaults and gates purposes', async () => {
+    const { phone, userId } = await seedUser();
+    assert.equal(await hasConsent(adapter, `+${phone}`, 'memory'), true);
+    assert.equal(await hasConsent(adapter, `+${uniquePhoneNumber()}`, 'marketing'), false);
+
+    const consent = await updateConsent(adapter, userId, { memory: false, analytics: true });
+    assert.equal(consent?.memory, false);
+    assert.equal(consent?.analytics, true);
+    assert.equal(consent?.marketing, false);
+
+    assert.equal(await hasConsent(adapter, `+${phone}`, 'memory'), false);
+    assert.equal(getConsent(await adapter.getUserById(userId)).analytics, true);
+  });
+});
+
+function hasUnzip(): boolean {
+  try {
+    execFileSync('unzip', ['-v'], { stdio: 'ignore' });
+    return true;
+  } catch {
+    return false;
+  }
+}
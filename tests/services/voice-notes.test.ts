@@ -0,0 +1,196 @@
+/**
+ * Tests for voice notes: the local speech stand-ins, provider selection,
+ * transcribing with a fake provider, storing transcripts with the in-memory
+ * adapter and saving spoken replies to a temporary directory
+ * Run with: npm test
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { MemoryAdapter } from '../../lib/database/memory-adapter';
+import {
+  SpeechToTextProvider,
+  createLocalSpeechToTextProvider,
+  createLocalTextToSpeechProvider,
+  getSpeechToTextProvider,
+  getTextToSpeechProvider,
+} from '../../lib/services/speech';
+import {
+  VOICE_REPLY_TTL_MS,
+  createVoiceReply,
+  detectAudioMimeType,
+  pruneVoiceReplies,
+  readVoiceReply,
+  saveVoiceNoteTranscript,
+  transcribeVoiceNote,
+} from '../../lib/services/voice-notes';
+
+const OGG = Buffer.concat([Buffer.from('OggS'), Buffer.alloc(60, 1)]);
+
+/**
+ * Speech-to-text provider that answers with fixed text, recording each request
+ */
+function fakeSpeechToText(reply: string | Error = 'Hello there') {
+  const requests: { size: number; mimeType: string; filename: string }[] = [];
+  const provider: SpeechToTextProvider = {
+    model: 'local:whisper',
+    transcribe: async (audio, { mimeType, filename }) => {
+      requests.push({ size: audio.length, mimeType, filename });
+      if (reply instanceof Error) throw reply;
+      return { text: reply, language: 'en' };
+    },
+  };
+  return { provider, requests };
+}
+
+describe('speech providers', () => {
+  it('reads back the text spoken by the local text-to-speech stand-in', async () => {
+    const speech = await createLocalTextToSpeechProvider().synthesize('Your order ships on Friday');
+
+    assert.equal(speech.mimeType, 'audio/wav');
+    assert.equal(detectAudioMimeType(speech.audio), 'audio/wav');
+    // Five words at 0.4 seconds each, 8000 16-bit samples a second
+    assert.ok(speech.audio.length > 2 * 8000 * 2);
+    const transcript = await createLocalSpeechToTextProvider().transcribe(speech.audio, {
+      mimeType: 'audio/wav',
+      filename: 'reply.wav',
+    });
+    assert.equal(transcript.text, 'Your order ships on Friday');
+  });
+
+  it('transcribes real recordings to nothing locally', async () => {
+    const transcript = await createLocalSpeechToTextProvider().transcribe(Buffer.concat([OGG, Buffer.alloc(8)]), {
+      mimeType: 'audio/ogg',
+      filename: 'voice-note.ogg',
+    });
+    assert.equal(transcript.text, '');
+  });
+
+  it('picks providers from the model settings', () => {
+    assert.equal(getSpeechToTextProvider({ speechToTextModel: 'local' })?.model, 'local');
+    assert.equal(
+      getSpeechToTextProvider({
+        providers: { whisper: { baseURL: 'http://localhost:8000/v1' } },
+        speechToTextModel: 'whisper:large-v3',
+      })?.model,
+      'whisper:large-v3'
+    );
+    assert.equal(getSpeechToTextProvider({ speechToTextModel: 'missing:model' }), null);
+    assert.equal(getTextToSpeechProvider({ textToSpeechModel: 'local' })?.model, 'local');
+  });
+});
+
+describe('transcribeVoiceNote', () => {
+  it('sends the decoded audio with its detected type', async () => {
+    const { provider, requests } = fakeSpeechToText('Remind me to call the landlord tomorrow');
+
+    const transcript = await transcribeVoiceNote({ mediaType: 'audio', data: OGG.toString('base64') }, { provider });
+
+    assert.equal(transcript?.text, 'Remind me to call the landlord tomorrow');
+    assert.equal(transcript?.model, 'local:whisper');
+    assert.equal(transcript?.language, 'en');
+    assert.deepEqual(requests, [{ size: OGG.length, mimeType: 'audio/ogg', filename: 'voice-note.ogg' }]);
+  });
+
+  it('skips other media, missing providers, empty transcripts and failures', async () => {
+    const { provider, requests } = fakeSpeechToText();
+    const audio = { mediaType: 'audio', data: OGG.toString('base64') };
+
+    assert.equal(await transcribeVoiceNote({ mediaType: 'image', data: OGG.toString('base64') }, { provider }), null);
+    assert.equal(requests.length, 0);
+    assert.equal(await transcribeVoiceNote(audio, { provider: null }), null);
+    assert.equal(await transcribeVoiceNote(audio, { provider: fakeSpeechToText('').provider }), null);
+    assert.equal(await transcribeVoiceNote(audio, { provider: fakeSpeechToText(new Error('timeout')).provider }), null);
+  });
+
+  it('detects audio types from their first bytes', () => {
+    assert.equal(detectAudioMimeType(OGG), 'audio/ogg');
+    assert.equal(detectAudioMimeType(Buffer.from('ID3\x04\x00')), 'audio/mpeg');
+    assert.equal(detectAudioMimeType(Buffer.from([0xff, 0xfb, 0x90, 0x44])), 'audio/mpeg');
+    assert.equal(detectAudioMimeType(Buffer.from('#!AMR\n')), 'audio/amr');
+    assert.equal(detectAudioMimeType(Buffer.from('\x00\x00\x00\x20ftypM4A ')), 'audio/mp4');
+    assert.equal(detectAudioMimeType(Buffer.from('not audio')), null);
+  });
+});
+
+describe('saveVoiceNoteTranscript', () => {
+  it('stores the transcript so the thread reads it as text', async () => {
+    const adapter = new MemoryAdapter();
+    await adapter.init();
+    const threadId = `thread-${randomUUID()}`;
+    const messageId = `message-${randomUUID()}`;
+    await adapter.processWebhookPayload({
+      thread_id: threadId,
+      message_id: messageId,
+      thread_type: 'individual',
+      sender_number: '+15550001111',
+      sender_name: 'Ada',
+      a1_account_id: 'test-account',
+      timestamp: new Date().toISOString(),
+      service: 'whatsapp',
+      message_type: 'audio',
+      is_from_agent: false,
+      message_content: { data: OGG.toString('base64') },
+    });
+    const { provider } = fakeSpeechToText('Book a table for four at eight');
+    const transcript = await transcribeVoiceNote({ mediaType: 'audio', data: OGG.toString('base64') }, { provider });
+
+    const fileId = await saveVoiceNoteTranscript(adapter, messageId, transcript!);
+
+    assert.ok(fileId);
+    const message = await adapter.getMessageByExternalId(messageId);
+    const [file] = await adapter.getMediaFiles([message!.id]);
+    assert.equal(file.file_type, 'audio');
+    assert.equal(file.mime_type, 'audio/ogg');
+    assert.equal(file.metadata.transcript, 'Book a table for four at eight');
+    assert.equal(file.metadata.model, 'local:whisper');
+    const thread = await adapter.getThread(threadId);
+    assert.equal(thread!.messages[0].content, 'Book a table for four at eight');
+    assert.equal(await saveVoiceNoteTranscript(adapter, 'unknown-message', transcript!), null);
+  });
+});
+
+describe('voice replies', () => {
+  let dir: string;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'voice-replies-'));
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('saves spoken replies under a link that expires', async () => {
+    const reply = await createVoiceReply('See you at eight', {
+      provider: createLocalTextToSpeechProvider(),
+      dir,
+      baseUrl: 'https://agent.example.com/',
+    });
+
+    assert.ok(reply);
+    assert.equal(reply.url, `https://agent.example.com/api/media/voice-replies/${reply.token}.wav`);
+    assert.equal(reply.model, 'local');
+    const saved = readVoiceReply(`${reply.token}.wav`, dir);
+    assert.equal(saved?.mimeType, 'audio/wav');
+    assert.equal(detectAudioMimeType(saved!.content), 'audio/wav');
+
+    const later = new Date(Date.now() + VOICE_REPLY_TTL_MS + 60_000);
+    assert.equal(readVoiceReply(`${reply.token}.wav`, dir, later), null);
+    assert.equal(readVoiceReply('../secret.wav', dir), null);
+    assert.equal(pruneVoiceReplies(dir, later), 1);
+    assert.equal(readVoiceReply(`${reply.token}.wav`, dir), null);
+  });
+
+  it('only speaks replies it has a provider and room for', async () => {
+    const provider = createLocalTextToSpeechProvider();
+
+    assert.equal(await createVoiceReply('Hi', { provider: null, dir }), null);
+    assert.equal(await createVoiceReply('   ', { provider, dir }), null);
+    assert.equal(await createVoiceReply('word '.repeat(1000), { provider, dir }), null);
+  });
+});
@@ -15,6 +15,11 @@ export interface ThreadMessage {
     groupName?: string
     inviteCode?: string
     error?: string
+    media_url?: string
+    media_type?: string
+    mime_type?: string
+    thumbnail_url?: string
+    media_error?: string
   }
   sender_number: string
   sender_name: string